@@ -0,0 +1,21 @@
+-- Migration number: 0002 	 2026-10-19T09:00:00.000Z
+-- 包裝食品條碼資料庫：每 100g/ml 與每份營養素皆可為空（依營養標示實際提供的欄位）
+CREATE TABLE IF NOT EXISTS products (
+    barcode TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    brand TEXT,
+    serving_size REAL,
+    serving_unit TEXT NOT NULL DEFAULT 'g',
+    calories_100g REAL,
+    protein_100g REAL,
+    carbs_100g REAL,
+    fat_100g REAL,
+    calories_serving REAL,
+    protein_serving REAL,
+    carbs_serving REAL,
+    fat_serving REAL,
+    source TEXT NOT NULL,
+    created_by TEXT,
+    created_at DATETIME NOT NULL,
+    updated_at DATETIME NOT NULL
+);
@@ -0,0 +1,15 @@
+-- Migration number: 0003 	 2026-10-19T12:00:00.000Z
+-- AI 回應快取：以「功能 + 語言 + 提示詞版本 + 正規化輸入」的雜湊為 key，過期後視為未命中並覆寫
+CREATE TABLE IF NOT EXISTS ai_response_cache (
+    cache_key TEXT PRIMARY KEY NOT NULL,
+    capability TEXT NOT NULL,
+    language TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    normalized_input TEXT NOT NULL,
+    response TEXT NOT NULL,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL,
+    expires_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_expires_at ON ai_response_cache (expires_at);
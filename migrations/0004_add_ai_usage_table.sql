@@ -0,0 +1,10 @@
+-- Migration number: 0004 	 2026-10-19T15:00:00.000Z
+-- AI 使用量計量：每位使用者每日（UTC）每個 AI 端點一筆計數
+CREATE TABLE IF NOT EXISTS ai_usage (
+    user_id TEXT NOT NULL,
+    usage_date TEXT NOT NULL,
+    endpoint TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    updated_at DATETIME NOT NULL,
+    PRIMARY KEY (user_id, usage_date, endpoint)
+);
@@ -0,0 +1,11 @@
+-- Migration number: 0005 	 2026-10-19T18:00:00.000Z
+-- Webhook 冪等紀錄：以來源 + 事件 ID 為 key，重送的事件不重複處理
+CREATE TABLE IF NOT EXISTS webhook_events (
+    source TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    received_at DATETIME NOT NULL,
+    processed_at DATETIME,
+    PRIMARY KEY (source, event_id)
+);
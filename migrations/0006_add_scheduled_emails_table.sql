@@ -0,0 +1,20 @@
+-- Migration number: 0006 	 2026-10-19T19:00:00.000Z
+-- 排程郵件：試用即將結束提醒、訂閱到期後的挽回郵件，由 Cron Trigger 到時發送
+CREATE TABLE IF NOT EXISTS scheduled_emails (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    email_type TEXT NOT NULL,
+    recipient_email TEXT NOT NULL,
+    recipient_name TEXT,
+    language TEXT NOT NULL,
+    template_data TEXT NOT NULL,
+    send_at DATETIME NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    sent_at DATETIME,
+    created_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_status_send_at ON scheduled_emails(status, send_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_user_type ON scheduled_emails(user_id, email_type, status);
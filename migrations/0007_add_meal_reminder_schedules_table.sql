@@ -0,0 +1,14 @@
+-- Migration number: 0007 	 2026-10-19T20:00:00.000Z
+-- 飲食提醒排程：每位使用者的提醒時間（當地時間 HH:mm，JSON 陣列）與時區
+-- next_reminder_at 為下一次提醒的 UTC 時間（ISO 8601），Cron Trigger 只查詢已到期的排程
+CREATE TABLE IF NOT EXISTS meal_reminder_schedules (
+    user_id TEXT PRIMARY KEY,
+    timezone TEXT NOT NULL,
+    reminder_times TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    next_reminder_at TEXT,
+    last_sent_slot TEXT,
+    updated_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_meal_reminder_schedules_due ON meal_reminder_schedules(enabled, next_reminder_at);
@@ -0,0 +1,18 @@
+-- Migration number: 0008 	 2026-10-19T21:00:00.000Z
+-- 推播送達紀錄：每個裝置每次推播一筆，用於追蹤送達率與失效 Token
+CREATE TABLE IF NOT EXISTS push_deliveries (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    notification_type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    message_id TEXT,
+    error_code TEXT,
+    error TEXT,
+    token_removed INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_deliveries_user_created ON push_deliveries(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_push_deliveries_type_created ON push_deliveries(notification_type, created_at);
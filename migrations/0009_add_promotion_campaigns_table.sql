@@ -0,0 +1,36 @@
+-- Migration number: 0009 	 2026-10-19T22:00:00.000Z
+-- 優惠推播活動：多語系內容、目標受眾與排程時間，由 Cron Trigger 依使用者 UID 分批發送（cursor 記錄進度），勿擾時段的使用者延後補發
+CREATE TABLE IF NOT EXISTS promotion_campaigns (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    content TEXT NOT NULL,
+    default_language TEXT NOT NULL,
+    audience TEXT NOT NULL,
+    data TEXT,
+    status TEXT NOT NULL DEFAULT 'scheduled',
+    scheduled_at DATETIME NOT NULL,
+    cursor TEXT,
+    scanned_users INTEGER NOT NULL DEFAULT 0,
+    targeted_users INTEGER NOT NULL DEFAULT 0,
+    skipped_opt_out INTEGER NOT NULL DEFAULT 0,
+    skipped_quiet_hours INTEGER NOT NULL DEFAULT 0,
+    delivered INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    created_by TEXT NOT NULL,
+    created_at DATETIME NOT NULL,
+    updated_at DATETIME NOT NULL,
+    completed_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_campaigns_status_scheduled ON promotion_campaigns(status, scheduled_at);
+CREATE INDEX IF NOT EXISTS idx_promotion_campaigns_created ON promotion_campaigns(created_at);
+
+-- 發送時處於勿擾時段的使用者：延後到勿擾時段結束後（send_after）再由排程補發
+CREATE TABLE IF NOT EXISTS promotion_deferred_users (
+    campaign_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    send_after DATETIME NOT NULL,
+    PRIMARY KEY (campaign_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_deferred_users_due ON promotion_deferred_users(campaign_id, send_after);
@@ -0,0 +1,11 @@
+-- Migration number: 0011 	 2026-10-20T00:00:00.000Z
+-- 推播裝置資訊：與 Firestore users/{uid}/fcm_tokens 同步（不含 Token），用於統計推播受眾
+CREATE TABLE IF NOT EXISTS push_devices (
+    user_id TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    language TEXT NOT NULL,
+    app_version TEXT NOT NULL,
+    last_active DATETIME NOT NULL,
+    PRIMARY KEY (user_id, device_id)
+);
@@ -4,6 +4,8 @@
 
 /// <reference types="@cloudflare/workers-types" />
 
+import type { PromotionQueueMessage } from "./types/promotion";
+
 export interface Env {
   // 環境變數
   NODE_ENV: "development" | "production";
@@ -20,6 +22,16 @@ export interface Env {
   VERTEX_AI_PROJECT_ID: string;
   VERTEX_AI_LOCATION: string;
   
+  // AI 供應商設定
+  AI_PROVIDER_CHAIN?: string; // 逗號分隔的供應商順序，例如 "vertex,gemini,openai"
+  AI_MODEL_OVERRIDES?: string; // JSON，依功能覆寫模型，例如 {"generateMealPlan":"gemini-2.5-pro"}
+  OPENAI_COMPAT_BASE_URL?: string; // OpenAI 相容端點，例如 http://localhost:11434/v1
+  OPENAI_COMPAT_API_KEY?: string;
+  OPENAI_COMPAT_MODEL?: string;
+  AI_CACHE_TTL_SECONDS?: string; // AI 文字分析結果快取秒數，預設 30 天，"0" 停用
+  AI_MOCK_MODE?: string; // "true" 時改用 fixtures 回放的 Mock AI，供離線整合測試使用
+  PUSH_MOCK_MODE?: string; // "true" 時推播只記錄不實際呼叫 FCM，供本機與整合測試使用
+  
   // 郵件服務環境變數
   SENDER_EMAIL?: string;
   SENDER_APP_PASSWORD?: string;
@@ -31,7 +43,21 @@ export interface Env {
   APP_STORE_URL?: string;
   PLAY_STORE_URL?: string;
   ENVIRONMENT?: string;
+  WIN_BACK_EMAIL_DELAY_DAYS?: string; // 訂閱到期後幾天發送挽回郵件，預設 7
+  
+  // 管理員 UID 清單（逗號分隔），可使用 /admin 路由
+  // 也可透過 Firebase custom claim（admin: true 或 role: "admin"）授予管理員權限
+  ADMIN_USER_IDS?: string;
+  
+  // RevenueCat Webhook 共享密鑰（RevenueCat 後台設定的 Authorization header 值）
+  REVENUECAT_WEBHOOK_AUTH?: string;
   
   // R2 Bucket 綁定
   INGREDIENTS_BUCKET: R2Bucket;
+
+  // D1 資料庫綁定（條碼、AI 快取與配額、Webhook、排程郵件、推播等，見 migrations/）
+  DB: D1Database;
+
+  // 優惠推播佇列（排程排入到期活動，consumer 分批發送並串接下一批，見 src/queue.ts）
+  PROMOTION_QUEUE: Queue<PromotionQueueMessage>;
 }
\ No newline at end of file
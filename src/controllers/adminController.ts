@@ -0,0 +1,255 @@
+import { IAdminService } from "../services/adminService";
+import {
+  AdminAuditLog,
+  AdminMetrics,
+  AdminUserDetail,
+  AdminUserLookupQuery,
+  BackfillPushDevicesRequest,
+  BackfillRecipesRequest,
+  PushDeviceBackfillResult,
+  RecipeBackfillResult,
+  ModerateRecipeRequest,
+} from "../types/admin";
+
+/**
+ * API 響應格式
+ */
+export interface ApiResponse<T = any> {
+  success: boolean;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * API 錯誤響應格式
+ */
+export interface ApiErrorResponse {
+  success: false;
+  errors: Array<{
+    code: number;
+    message: string;
+  }>;
+}
+
+/**
+ * Admin Controller - 處理 HTTP 請求/響應的薄層
+ * 負責調用 Service 層並格式化響應
+ */
+export class AdminController {
+  constructor(private adminService: IAdminService) {}
+
+  /**
+   * 查詢使用者
+   * @param query 查詢條件
+   * @returns API 響應格式
+   */
+  async lookupUser(
+    query: AdminUserLookupQuery
+  ): Promise<ApiResponse<AdminUserDetail>> {
+    try {
+      const detail = await this.adminService.lookupUser(query);
+
+      if (!detail) {
+        return {
+          success: false,
+          error: "找不到使用者",
+        };
+      }
+
+      return {
+        success: true,
+        result: detail,
+      };
+    } catch (error) {
+      console.error("Controller: 查詢使用者失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "查詢使用者時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 審核食譜
+   * @param adminUserId 管理員 UID
+   * @param recipeId 食譜 ID
+   * @param request 審核操作與原因
+   * @returns API 響應格式
+   */
+  async moderateRecipe(
+    adminUserId: string,
+    recipeId: string,
+    request: ModerateRecipeRequest
+  ): Promise<ApiResponse<AdminAuditLog>> {
+    try {
+      const log = await this.adminService.moderateRecipe(
+        adminUserId,
+        recipeId,
+        request
+      );
+
+      return {
+        success: true,
+        result: log,
+      };
+    } catch (error) {
+      console.error("Controller: 審核食譜失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "審核食譜時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 取得最近的稽核紀錄
+   * @param targetId 只取得指定對象的紀錄（可選）
+   * @returns API 響應格式
+   */
+  async listAuditLogs(
+    targetId?: string
+  ): Promise<ApiResponse<AdminAuditLog[]>> {
+    try {
+      const logs = await this.adminService.listAuditLogs(targetId);
+
+      return {
+        success: true,
+        result: logs,
+      };
+    } catch (error) {
+      console.error("Controller: 取得稽核紀錄失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "取得稽核紀錄時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 取得營運指標
+   * @param hours 統計時間範圍（小時）
+   * @returns API 響應格式
+   */
+  async getMetrics(hours: number): Promise<ApiResponse<AdminMetrics>> {
+    try {
+      const metrics = await this.adminService.getMetrics(hours);
+
+      return {
+        success: true,
+        result: metrics,
+      };
+    } catch (error) {
+      console.error("Controller: 取得營運指標失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "取得營運指標時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 回填一批食譜的收藏次數
+   * @param request 分頁游標與本批數量
+   * @returns API 響應格式
+   */
+  async backfillFavoriteCounts(
+    request: BackfillRecipesRequest
+  ): Promise<ApiResponse<RecipeBackfillResult>> {
+    try {
+      const result = await this.adminService.backfillFavoriteCounts(request);
+
+      return {
+        success: true,
+        result,
+      };
+    } catch (error) {
+      console.error("Controller: 回填食譜收藏次數失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "回填食譜收藏次數時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 回填一批食譜的搜尋索引鍵
+   * @param request 分頁游標與本批數量
+   * @returns API 響應格式
+   */
+  async backfillSearchKeys(
+    request: BackfillRecipesRequest
+  ): Promise<ApiResponse<RecipeBackfillResult>> {
+    try {
+      const result = await this.adminService.backfillSearchKeys(request);
+
+      return {
+        success: true,
+        result,
+      };
+    } catch (error) {
+      console.error("Controller: 回填食譜搜尋索引鍵失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "回填食譜搜尋索引鍵時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 回填一批使用者的推播裝置資訊
+   * @param request 分頁游標與本批數量
+   * @returns API 響應格式
+   */
+  async backfillPushDevices(
+    request: BackfillPushDevicesRequest
+  ): Promise<ApiResponse<PushDeviceBackfillResult>> {
+    try {
+      const result = await this.adminService.backfillPushDevices(request);
+
+      return {
+        success: true,
+        result,
+      };
+    } catch (error) {
+      console.error("Controller: 回填推播裝置資訊失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "回填推播裝置資訊時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 將 ApiResponse 轉換為 ApiErrorResponse 格式
+   * @param response API 響應
+   * @param defaultErrorCode 預設錯誤代碼
+   * @returns API 錯誤響應
+   */
+  static toErrorResponse(
+    response: ApiResponse,
+    defaultErrorCode: number = 500
+  ): ApiErrorResponse {
+    return {
+      success: false,
+      errors: [
+        {
+          code: defaultErrorCode,
+          message: response.error || "發生未知錯誤",
+        },
+      ],
+    };
+  }
+}
@@ -7,6 +7,7 @@ import type {
   ChatHistory 
 } from "../types/chat";
 import type { Env } from "../bindings";
+import type { ITrendsService } from "../services/trendsService";
 
 /**
  * AI Chat Service 介面 - 定義業務邏輯操作
@@ -32,7 +33,45 @@ export interface ApiResponse<T = any> {
  * 負責調用 AI Chat Service 層並格式化響應
  */
 export class AIChatController {
-  constructor(private aiChatService: IAIChatService) {}
+  constructor(
+    private aiChatService: IAIChatService,
+    private trendsService?: ITrendsService
+  ) {}
+
+  /**
+   * 由伺服器從 Firestore 組成用戶數據（dataSource = "server"）
+   * 避免報告依賴客戶端上傳、可被竄改的數據
+   * @param userId 使用者 ID
+   * @param reportDays 報告涵蓋的天數（含今天）
+   * @returns API 響應格式的用戶數據
+   */
+  async buildServerUserData(
+    userId: string,
+    reportDays: number
+  ): Promise<ApiResponse<UserData>> {
+    try {
+      if (!this.trendsService) {
+        throw new Error("Trends Service 未初始化，無法組成用戶數據");
+      }
+
+      // 以使用者通知偏好的時區決定今天與每日分組
+      const userData = await this.trendsService.buildChatUserData(userId, {
+        days: reportDays,
+      });
+
+      return {
+        success: true,
+        result: userData,
+      };
+    } catch (error) {
+      console.error("AIChatController - 組成用戶數據失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "組成用戶數據時發生未知錯誤",
+      };
+    }
+  }
 
   /**
    * 處理聊天請求
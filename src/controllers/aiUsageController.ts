@@ -0,0 +1,76 @@
+import { IAIUsageService } from "../services/aiUsageService";
+import { AIUsageSummary } from "../types/aiUsage";
+
+/**
+ * API 響應格式
+ */
+export interface ApiResponse<T = any> {
+  success: boolean;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * API 錯誤響應格式
+ */
+export interface ApiErrorResponse {
+  success: false;
+  errors: Array<{
+    code: number;
+    message: string;
+  }>;
+}
+
+/**
+ * AI Usage Controller - 處理 HTTP 請求/響應的薄層
+ * 負責調用 Service 層並格式化響應
+ */
+export class AIUsageController {
+  constructor(private aiUsageService: IAIUsageService) {}
+
+  /**
+   * 取得使用者當日 AI 使用量
+   * @param userId 使用者 ID
+   * @returns API 響應格式
+   */
+  async getUsage(userId: string): Promise<ApiResponse<AIUsageSummary>> {
+    try {
+      const usage = await this.aiUsageService.getDailyUsage(userId);
+
+      return {
+        success: true,
+        result: usage,
+      };
+    } catch (error) {
+      console.error("Controller: 取得 AI 使用量失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "取得 AI 使用量時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 將 ApiResponse 轉換為 ApiErrorResponse 格式
+   * @param response API 響應
+   * @param defaultErrorCode 預設錯誤代碼
+   * @returns API 錯誤響應
+   */
+  static toErrorResponse(
+    response: ApiResponse,
+    defaultErrorCode: number = 500
+  ): ApiErrorResponse {
+    return {
+      success: false,
+      errors: [
+        {
+          code: defaultErrorCode,
+          message: response.error || "發生未知錯誤",
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import type { Env } from "../bindings";
+import { IDiaryAnalysisService } from "../services/diaryAnalysisService";
+import { Diary } from "../types/diary";
+import { SupportedLanguage } from "../types/gemini";
+import { CreateDiaryWithImagesRequest } from "../types/image";
+
+/**
+ * API 響應格式
+ */
+export interface ApiResponse<T = any> {
+  success: boolean;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * API 錯誤響應格式
+ */
+export interface ApiErrorResponse {
+  success: false;
+  errors: Array<{
+    code: number;
+    message: string;
+  }>;
+}
+
+/**
+ * Diary Analysis Controller - 處理 HTTP 請求/響應的薄層
+ * 負責調用 Service 層並格式化響應
+ */
+export class DiaryAnalysisController {
+  constructor(private diaryAnalysisService: IDiaryAnalysisService) {}
+
+  /**
+   * 建立分析中的 diary 並排程背景分析
+   * @param userId 使用者 ID
+   * @param imageFiles 餐點圖片
+   * @param userLanguage 用戶語言
+   * @param userInput 用戶額外輸入（可選）
+   * @param diaryDate Diary 日期
+   * @param env 環境變數
+   * @param waitUntil 延長 Worker 生命週期以執行背景工作
+   * @returns API 響應格式（UPLOADING 狀態的 diary）
+   */
+  async startImageAnalysis(
+    userId: string,
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    userInput: string | null,
+    diaryDate: Date,
+    env: Env,
+    waitUntil: (promise: Promise<unknown>) => void
+  ): Promise<ApiResponse<Diary>> {
+    try {
+      const { diary, job } = await this.diaryAnalysisService.startImageAnalysis(
+        userId,
+        { imageFiles, userLanguage, userInput, diaryDate },
+        env
+      );
+
+      // 回應送出後繼續執行分析
+      waitUntil(job);
+
+      return {
+        success: true,
+        result: diary,
+      };
+    } catch (error) {
+      console.error("Controller: 建立圖片分析工作失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "建立圖片分析工作時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 建立上傳中的 diary 並排程背景圖片上傳
+   * @param userId 使用者 ID
+   * @param request 包含圖片的 Diary 建立請求
+   * @param waitUntil 延長 Worker 生命週期以執行背景工作
+   * @returns API 響應格式（有圖片時為 UPLOADING 狀態的 diary）
+   */
+  async startImageUpload(
+    userId: string,
+    request: CreateDiaryWithImagesRequest,
+    waitUntil: (promise: Promise<unknown>) => void
+  ): Promise<ApiResponse<Diary>> {
+    try {
+      const { diary, job } = await this.diaryAnalysisService.startImageUpload(
+        userId,
+        request
+      );
+
+      // 回應送出後繼續上傳圖片
+      waitUntil(job);
+
+      return {
+        success: true,
+        result: diary,
+      };
+    } catch (error) {
+      console.error("Controller: 建立圖片上傳工作失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "建立圖片上傳工作時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 將 Controller 響應轉換為 HTTP 錯誤格式
+   * @param response Controller 響應
+   * @param defaultErrorCode 預設錯誤代碼
+   * @returns 錯誤響應格式
+   */
+  static toErrorResponse(
+    response: ApiResponse,
+    defaultErrorCode: number = 500
+  ): ApiErrorResponse {
+    return {
+      success: false,
+      errors: [
+        {
+          code: defaultErrorCode,
+          message: response.error || "發生未知錯誤",
+        },
+      ],
+    };
+  }
+}
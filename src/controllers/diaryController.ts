@@ -1,5 +1,10 @@
-import { Diary } from "../types/diary";
+import {
+  CreateDiaryFromRecipeRequest,
+  DailyNutritionSummary,
+  Diary,
+} from "../types/diary";
 import { CreateDiaryWithImagesRequest } from "../types/image";
+import { addDaysToLocalDate, isValidTimeZone } from "../utils/timezone";
 
 /**
  * Diary Service 介面 - 定義業務邏輯操作
@@ -8,10 +13,19 @@ export interface IDiaryService {
   getDiaries(userId: string, date?: Date): Promise<Diary[]>;
   getDiary(userId: string, diaryId: string): Promise<Diary | null>;
   createDiary(userId: string, diaryData: Partial<Diary>): Promise<Diary>;
+  createDiaryFromRecipe(
+    userId: string,
+    request: CreateDiaryFromRecipeRequest
+  ): Promise<Diary>;
   createDiaryWithImages(
     userId: string,
     request: CreateDiaryWithImagesRequest
   ): Promise<Diary>;
+  uploadDiaryImages(
+    userId: string,
+    imagesData: (string | Uint8Array)[],
+    imageType?: "sticker" | "original"
+  ): Promise<string[]>;
   updateDiary(
     userId: string,
     diaryId: string,
@@ -19,6 +33,17 @@ export interface IDiaryService {
   ): Promise<Diary>;
   deleteDiary(userId: string, diaryId: string): Promise<void>;
   calculateStreak(userId: string): Promise<number>;
+  getDailySummary(
+    userId: string,
+    date: string,
+    timeZone?: string
+  ): Promise<DailyNutritionSummary>;
+  getSummaryRange(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    timeZone?: string
+  ): Promise<DailyNutritionSummary[]>;
 }
 
 /**
@@ -41,6 +66,11 @@ export interface ApiErrorResponse {
   }>;
 }
 
+/**
+ * 營養摘要區間查詢的最大天數
+ */
+const MAX_SUMMARY_RANGE_DAYS = 93;
+
 /**
  * Diary Controller - 處理 HTTP 請求/響應的薄層
  * 負責調用 Service 層並格式化響應
@@ -165,6 +195,54 @@ export class DiaryController {
     }
   }
 
+  /**
+   * 以食譜的 N 份建立 diary
+   * @param userId 使用者 ID
+   * @param request 食譜 ID、份數、日期與語言
+   * @returns API 響應格式
+   */
+  async createDiaryFromRecipe(
+    userId: string,
+    request: CreateDiaryFromRecipeRequest
+  ): Promise<ApiResponse<Diary>> {
+    try {
+      // 基本參數驗證
+      if (!request.recipeId?.trim()) {
+        return {
+          success: false,
+          error: "食譜 ID 不能為空",
+        };
+      }
+
+      if (!(request.servings > 0)) {
+        return {
+          success: false,
+          error: "份數必須大於 0",
+        };
+      }
+
+      // 調用 Service 層
+      const createdDiary = await this.diaryService.createDiaryFromRecipe(
+        userId,
+        request
+      );
+
+      return {
+        success: true,
+        result: createdDiary,
+      };
+    } catch (error) {
+      console.error("Controller: 從食譜建立 diary 失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "從食譜建立 diary 時發生未知錯誤",
+      };
+    }
+  }
+
   /**
    * 建立包含圖片的新 diary
    * @param userId 使用者 ID
@@ -324,6 +402,143 @@ export class DiaryController {
     }
   }
 
+  /**
+   * 取得單日營養摘要
+   * @param userId 使用者 ID
+   * @param dateString 日期字串 (YYYY-MM-DD)
+   * @param timeZone IANA 時區（可選，用於決定當地日期）
+   * @returns API 響應格式
+   */
+  async getDailySummary(
+    userId: string,
+    dateString: string,
+    timeZone?: string
+  ): Promise<ApiResponse<DailyNutritionSummary>> {
+    try {
+      // 驗證日期與時區參數
+      const date = this.parseDateParam(dateString);
+      if (!date) {
+        return {
+          success: false,
+          error: "無效的日期格式，請使用 YYYY-MM-DD 格式",
+        };
+      }
+
+      if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+        return {
+          success: false,
+          error: "無效的時區，請使用 IANA 時區名稱（例如 Asia/Taipei）",
+        };
+      }
+
+      // 調用 Service 層
+      const summary = await this.diaryService.getDailySummary(
+        userId,
+        date,
+        timeZone
+      );
+
+      return {
+        success: true,
+        result: summary,
+      };
+    } catch (error) {
+      console.error("Controller: 取得單日營養摘要失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "取得單日營養摘要時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 取得日期區間的每日營養摘要
+   * @param userId 使用者 ID
+   * @param startDateString 起始日期字串 (YYYY-MM-DD)
+   * @param endDateString 結束日期字串 (YYYY-MM-DD)
+   * @param timeZone IANA 時區（可選，用於決定當地日期）
+   * @returns API 響應格式
+   */
+  async getSummaryRange(
+    userId: string,
+    startDateString: string,
+    endDateString: string,
+    timeZone?: string
+  ): Promise<ApiResponse<DailyNutritionSummary[]>> {
+    try {
+      // 驗證日期與時區參數
+      const startDate = this.parseDateParam(startDateString);
+      const endDate = this.parseDateParam(endDateString);
+      if (!startDate || !endDate) {
+        return {
+          success: false,
+          error: "無效的日期格式，請使用 YYYY-MM-DD 格式",
+        };
+      }
+
+      if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+        return {
+          success: false,
+          error: "無效的時區，請使用 IANA 時區名稱（例如 Asia/Taipei）",
+        };
+      }
+
+      if (startDate > endDate) {
+        return {
+          success: false,
+          error: "無效的日期範圍：起始日期不能晚於結束日期",
+        };
+      }
+
+      if (addDaysToLocalDate(startDate, MAX_SUMMARY_RANGE_DAYS) <= endDate) {
+        return {
+          success: false,
+          error: `無效的日期範圍：最多只能查詢 ${MAX_SUMMARY_RANGE_DAYS} 天`,
+        };
+      }
+
+      // 調用 Service 層
+      const summaries = await this.diaryService.getSummaryRange(
+        userId,
+        startDate,
+        endDate,
+        timeZone
+      );
+
+      return {
+        success: true,
+        result: summaries,
+      };
+    } catch (error) {
+      console.error("Controller: 取得區間營養摘要失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "取得區間營養摘要時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 解析 YYYY-MM-DD 日期參數
+   * 日期為使用者當地日期，保留字串形式以免被換算成 UTC 時間
+   * @param dateString 日期字串
+   * @returns 日期字串，格式無效或日期不存在時返回 null
+   */
+  private parseDateParam(dateString: string): string | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateString)) {
+      return null;
+    }
+
+    // 透過日曆運算還原，排除 2025-02-30 之類不存在的日期
+    return addDaysToLocalDate(dateString, 0) === dateString ? dateString : null;
+  }
+
   /**
    * 將 Controller 響應轉換為 HTTP 錯誤格式
    * @param response Controller 響應
@@ -1,13 +1,27 @@
 import type { Env } from "../bindings";
-import { ImageAnalysisResult, RecipeAnalysisResult } from "../types/analyze";
+import {
+  ImageAnalysisResult,
+  NutritionLabelAnalysisResult,
+  ProductLabelAnalysisResult,
+  RecipeAnalysisResult,
+} from "../types/analyze";
+import type { IMealPlanService } from "../services/mealPlanService";
 import {
   AddIngredientResult,
   AddRecipeIngredientResult,
   EditRecipeResult,
+  GenerateMealPlanRequest,
+  GeneratedMealPlanResult,
   MealAnalysisResult,
+  MealPlanGenerationContext,
   SupportedLanguage,
   TranslateIngredientResult,
 } from "../types/gemini";
+import { analyzeWithNutritionRetry } from "../utils/nutritionConsistency";
+import {
+  calculateLabelIntake,
+  normalizeLabelNutrition,
+} from "../utils/nutritionLabelUtils";
 
 /**
  * Gemini Service 介面 - 定義業務邏輯操作
@@ -57,6 +71,18 @@ export interface IGeminiService {
     userInput: string,
     env: Env
   ): Promise<TranslateIngredientResult>;
+
+  generateMealPlan(
+    context: MealPlanGenerationContext,
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<GeneratedMealPlanResult>;
+
+  analyzeProductLabel(
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<ProductLabelAnalysisResult>;
 }
 
 /**
@@ -84,7 +110,10 @@ export interface ApiErrorResponse {
  * 負責調用 Service 層並格式化響應
  */
 export class GeminiController {
-  constructor(private geminiService: IGeminiService) {}
+  constructor(
+    private geminiService: IGeminiService,
+    private mealPlanService?: IMealPlanService
+  ) {}
 
   /**
    * 處理餐點文字分析請求
@@ -102,10 +131,9 @@ export class GeminiController {
       // 調用服務層處理業務邏輯
       console.log("GeminiController - 開始分析餐點");
 
-      const result = await this.geminiService.analyzeMealText(
-        userInput,
-        userLanguage,
-        env
+      // 營養素需要嚴重修正時重新分析一次
+      const result = await analyzeWithNutritionRetry(() =>
+        this.geminiService.analyzeMealText(userInput, userLanguage, env)
       );
 
       // 檢查是否有錯誤
@@ -386,11 +414,14 @@ export class GeminiController {
       // 調用服務層處理業務邏輯
       console.log("GeminiController - 開始分析圖片");
 
-      const result = await this.geminiService.analyzeImages(
-        imageFiles,
-        userLanguage,
-        env,
-        userInput
+      // 營養素需要嚴重修正時重新分析一次
+      const result = await analyzeWithNutritionRetry(() =>
+        this.geminiService.analyzeImages(
+          imageFiles,
+          userLanguage,
+          env,
+          userInput
+        )
       );
 
       console.log("GeminiController - 圖片分析完成:", {
@@ -426,6 +457,102 @@ export class GeminiController {
     }
   }
 
+  /**
+   * 處理營養標示分析請求
+   * @param imageFiles 營養標示/包裝圖片
+   * @param userLanguage 用戶語言
+   * @param servings 食用份數
+   * @param amount 食用重量或容量（可選，優先於份數）
+   * @param env 環境變數
+   * @returns API 響應格式的營養標示分析結果
+   */
+  async analyzeLabel(
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    servings: number,
+    amount: number | null,
+    env: Env
+  ): Promise<ApiResponse<NutritionLabelAnalysisResult>> {
+    try {
+      console.log("GeminiController - 開始分析營養標示");
+
+      const label = await this.geminiService.analyzeProductLabel(
+        imageFiles,
+        userLanguage,
+        env
+      );
+
+      // 檢查是否有錯誤
+      if (label.error) {
+        return {
+          success: false,
+          error: label.error,
+        };
+      }
+
+      // 補齊每份/每 100g 欄位並依食用量換算
+      const { per100g, perServing } = normalizeLabelNutrition(label);
+      const intake = calculateLabelIntake(
+        { servingSize: label.servingSize, per100g, perServing },
+        servings,
+        amount
+      );
+
+      console.log("GeminiController - 營養標示分析完成:", {
+        商品名稱: label.name,
+        食用份數: intake.servings,
+        總熱量: intake.totals.calories,
+      });
+
+      return {
+        success: true,
+        result: {
+          name: label.name,
+          brand: label.brand,
+          servingSize: label.servingSize,
+          servingUnit: label.servingUnit,
+          servingsPerContainer: label.servingsPerContainer,
+          per100g,
+          perServing,
+          servings: intake.servings,
+          amount: intake.amount,
+          ...intake.totals,
+        },
+      };
+    } catch (error) {
+      console.error("GeminiController - 營養標示分析失敗:", error);
+
+      const errorMessage =
+        error instanceof Error ? error.message : "分析營養標示時發生未知錯誤";
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * 驗證營養標示的食用量參數
+   * @param servings 食用份數
+   * @param amount 食用重量或容量（可選）
+   * @returns 驗證結果，如果有錯誤則返回錯誤訊息
+   */
+  validateLabelIntake(servings: number, amount: number | null): string | null {
+    if (!Number.isFinite(servings) || servings <= 0 || servings > 20) {
+      return "食用份數必須介於 0 到 20 之間";
+    }
+
+    if (
+      amount !== null &&
+      (!Number.isFinite(amount) || amount <= 0 || amount > 5000)
+    ) {
+      return "食用量必須介於 0 到 5000 之間";
+    }
+
+    return null; // 驗證通過
+  }
+
   /**
    * 處理食譜分析請求
    * @param imageFiles 圖片文件數組
@@ -448,11 +575,14 @@ export class GeminiController {
         是否有額外輸入: !!userInput,
       });
 
-      const result = await this.geminiService.createRecipeFromImages(
-        imageFiles,
-        userLanguage,
-        env,
-        userInput
+      // 營養素需要嚴重修正時重新分析一次
+      const result = await analyzeWithNutritionRetry(() =>
+        this.geminiService.createRecipeFromImages(
+          imageFiles,
+          userLanguage,
+          env,
+          userInput
+        )
       );
 
       console.log("GeminiController - 食譜分析完成:", {
@@ -715,4 +845,66 @@ export class GeminiController {
 
     return null; // 驗證通過
   }
+
+  /**
+   * 處理 AI 餐點計畫生成請求
+   * 由伺服器從 Firestore 組成使用者目標與候選餐點，不信任客戶端上傳的數據
+   * @param userId 使用者 ID
+   * @param request 起始日期、天數、飲食偏好與語言
+   * @param env 環境變數
+   * @returns API 響應格式的餐點計畫
+   */
+  async generateMealPlan(
+    userId: string,
+    request: GenerateMealPlanRequest,
+    env: Env
+  ): Promise<ApiResponse<GeneratedMealPlanResult>> {
+    try {
+      if (!this.mealPlanService) {
+        throw new Error("MealPlan Service 未初始化，無法組成餐點計畫資料");
+      }
+
+      console.log("GeminiController - 開始生成餐點計畫:", {
+        days: request.days,
+        startDate: request.startDate,
+        dietaryTags: request.dietaryTags,
+      });
+
+      const context = await this.mealPlanService.buildGenerationContext(
+        userId,
+        request
+      );
+
+      const result = await this.geminiService.generateMealPlan(
+        context,
+        request.user_language as SupportedLanguage,
+        env
+      );
+
+      // 檢查是否有錯誤
+      if (result.error) {
+        return {
+          success: false,
+          error: result.error,
+        };
+      }
+
+      // 返回成功響應
+      return {
+        success: true,
+        result: result,
+      };
+    } catch (error) {
+      console.error("GeminiController - 生成餐點計畫失敗:", error);
+
+      // 格式化錯誤響應
+      const errorMessage =
+        error instanceof Error ? error.message : "生成餐點計畫時發生未知錯誤";
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
 }
@@ -0,0 +1,251 @@
+import { IMealPlanService } from "../services/mealPlanService";
+import { Diary } from "../types/diary";
+import {
+  CreateMealPlanEntryRequest,
+  MealPlanDay,
+  MealPlanEntry,
+  UpdateMealPlanEntryRequest,
+} from "../types/mealPlan";
+
+// 單次查詢最多可取得的天數
+const MAX_MEAL_PLAN_RANGE_DAYS = 31;
+
+/**
+ * API 響應格式
+ */
+export interface ApiResponse<T = any> {
+  success: boolean;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * API 錯誤響應格式
+ */
+export interface ApiErrorResponse {
+  success: false;
+  errors: Array<{
+    code: number;
+    message: string;
+  }>;
+}
+
+/**
+ * MealPlan Controller - 處理 HTTP 請求/響應的薄層
+ * 負責調用 Service 層並格式化響應
+ */
+export class MealPlanController {
+  constructor(private mealPlanService: IMealPlanService) {}
+
+  /**
+   * 獲取日期區間內的餐點計畫
+   * @param userId 使用者 ID
+   * @param startDate 起始日期 YYYY-MM-DD（預設今天）
+   * @param endDate 結束日期 YYYY-MM-DD（預設起始日期後 6 天）
+   * @returns API 響應格式
+   */
+  async getMealPlan(
+    userId: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<ApiResponse<MealPlanDay[]>> {
+    try {
+      const start = startDate || this.dateToKey(new Date());
+      const end = endDate || this.addDays(start, 6);
+
+      // 基本參數驗證
+      if (end < start) {
+        return {
+          success: false,
+          error: "無效的日期區間：結束日期不能早於起始日期",
+        };
+      }
+
+      if (this.addDays(start, MAX_MEAL_PLAN_RANGE_DAYS - 1) < end) {
+        return {
+          success: false,
+          error: `無效的日期區間：最多只能查詢 ${MAX_MEAL_PLAN_RANGE_DAYS} 天`,
+        };
+      }
+
+      const days = await this.mealPlanService.getMealPlan(userId, start, end);
+
+      return {
+        success: true,
+        result: days,
+      };
+    } catch (error) {
+      console.error("Controller: 取得餐點計畫失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "取得餐點計畫時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 新增餐點計畫項目
+   * @param userId 使用者 ID
+   * @param request 日期、餐別、來源與份數
+   * @returns API 響應格式
+   */
+  async createEntry(
+    userId: string,
+    request: CreateMealPlanEntryRequest
+  ): Promise<ApiResponse<MealPlanEntry>> {
+    try {
+      const entry = await this.mealPlanService.createEntry(userId, request);
+
+      return {
+        success: true,
+        result: entry,
+      };
+    } catch (error) {
+      console.error("Controller: 建立餐點計畫項目失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "建立餐點計畫項目時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 更新餐點計畫項目
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   * @param updates 更新資料
+   * @returns API 響應格式
+   */
+  async updateEntry(
+    userId: string,
+    entryId: string,
+    updates: UpdateMealPlanEntryRequest
+  ): Promise<ApiResponse<MealPlanEntry>> {
+    try {
+      const entry = await this.mealPlanService.updateEntry(
+        userId,
+        entryId,
+        updates
+      );
+
+      return {
+        success: true,
+        result: entry,
+      };
+    } catch (error) {
+      console.error("Controller: 更新餐點計畫項目失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "更新餐點計畫項目時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 刪除餐點計畫項目
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   * @returns API 響應格式
+   */
+  async deleteEntry(
+    userId: string,
+    entryId: string
+  ): Promise<ApiResponse<void>> {
+    try {
+      await this.mealPlanService.deleteEntry(userId, entryId);
+
+      return {
+        success: true,
+      };
+    } catch (error) {
+      console.error("Controller: 刪除餐點計畫項目失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "刪除餐點計畫項目時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 將餐點計畫項目記錄為 diary
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   * @returns API 響應格式
+   */
+  async logEntryAsDiary(
+    userId: string,
+    entryId: string
+  ): Promise<ApiResponse<Diary>> {
+    try {
+      const diary = await this.mealPlanService.logEntryAsDiary(userId, entryId);
+
+      return {
+        success: true,
+        result: diary,
+      };
+    } catch (error) {
+      console.error("Controller: 記錄餐點計畫為 diary 失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "記錄餐點計畫為 diary 時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 將 YYYY-MM-DD 日期加上指定天數
+   * @param key 日期鍵
+   * @param days 天數
+   * @returns 新的日期鍵
+   */
+  private addDays(key: string, days: number): string {
+    const [year, month, day] = key.split("-").map(Number);
+    return this.dateToKey(new Date(year, month - 1, day + days));
+  }
+
+  /**
+   * 將日期轉換為 YYYY-MM-DD 格式的鍵值
+   * @param date 日期
+   * @returns 日期鍵
+   */
+  private dateToKey(date: Date): string {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, "0");
+    const day = date.getDate().toString().padStart(2, "0");
+    return `${year}-${month}-${day}`;
+  }
+
+  /**
+   * 將 Controller 響應轉換為 HTTP 錯誤格式
+   * @param response Controller 響應
+   * @param defaultErrorCode 預設錯誤代碼
+   * @returns 錯誤響應格式
+   */
+  static toErrorResponse(
+    response: ApiResponse,
+    defaultErrorCode: number = 500
+  ): ApiErrorResponse {
+    return {
+      success: false,
+      errors: [
+        {
+          code: defaultErrorCode,
+          message: response.error || "發生未知錯誤",
+        },
+      ],
+    };
+  }
+}
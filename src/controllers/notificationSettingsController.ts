@@ -0,0 +1,112 @@
+import { INotificationSettingsService } from "../services/notificationSettingsService";
+import {
+  NotificationSettings,
+  UpdateNotificationSettingsRequest,
+} from "../types/notificationSettings";
+
+/**
+ * API 響應格式
+ */
+export interface ApiResponse<T = any> {
+  success: boolean;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * API 錯誤響應格式
+ */
+export interface ApiErrorResponse {
+  success: false;
+  errors: Array<{
+    code: number;
+    message: string;
+  }>;
+}
+
+/**
+ * Notification Settings Controller - 處理 HTTP 請求/響應的薄層
+ * 負責調用 Service 層並格式化響應
+ */
+export class NotificationSettingsController {
+  constructor(
+    private notificationSettingsService: INotificationSettingsService
+  ) {}
+
+  /**
+   * 取得使用者通知偏好
+   * @param userId 使用者 ID
+   * @returns API 響應格式
+   */
+  async getSettings(
+    userId: string
+  ): Promise<ApiResponse<NotificationSettings | null>> {
+    try {
+      const settings =
+        await this.notificationSettingsService.getSettings(userId);
+
+      return {
+        success: true,
+        result: settings,
+      };
+    } catch (error) {
+      console.error("Controller: 取得通知偏好失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "取得通知偏好時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 更新使用者通知偏好
+   * @param userId 使用者 ID
+   * @param update 要更新的欄位
+   * @returns API 響應格式
+   */
+  async updateSettings(
+    userId: string,
+    update: UpdateNotificationSettingsRequest
+  ): Promise<ApiResponse<NotificationSettings>> {
+    try {
+      const settings = await this.notificationSettingsService.updateSettings(
+        userId,
+        update
+      );
+
+      return {
+        success: true,
+        result: settings,
+      };
+    } catch (error) {
+      console.error("Controller: 更新通知偏好失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "更新通知偏好時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 將 ApiResponse 轉換為 ApiErrorResponse 格式
+   * @param response API 響應
+   * @param defaultErrorCode 預設錯誤代碼
+   * @returns API 錯誤響應
+   */
+  static toErrorResponse(
+    response: ApiResponse,
+    defaultErrorCode: number = 500
+  ): ApiErrorResponse {
+    return {
+      success: false,
+      errors: [
+        {
+          code: defaultErrorCode,
+          message: response.error || "發生未知錯誤",
+        },
+      ],
+    };
+  }
+}
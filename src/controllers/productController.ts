@@ -0,0 +1,170 @@
+import type { Env } from "../bindings";
+import { IProductService } from "../services/productService";
+import { SupportedLanguage } from "../types/gemini";
+import { Product } from "../types/product";
+
+// 營養標示照片限制
+const MAX_LABEL_IMAGES = 3;
+const MAX_LABEL_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
+const ALLOWED_LABEL_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+];
+
+/**
+ * API 響應格式
+ */
+export interface ApiResponse<T = any> {
+  success: boolean;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * API 錯誤響應格式
+ */
+export interface ApiErrorResponse {
+  success: false;
+  errors: Array<{
+    code: number;
+    message: string;
+  }>;
+}
+
+/**
+ * Product Controller - 處理 HTTP 請求/響應的薄層
+ * 負責調用 Service 層並格式化響應
+ */
+export class ProductController {
+  constructor(private productService: IProductService) {}
+
+  /**
+   * 根據條碼查詢商品
+   * @param barcode 商品條碼
+   * @returns API 響應格式
+   */
+  async getProductByBarcode(barcode: string): Promise<ApiResponse<Product>> {
+    try {
+      const product = await this.productService.getProductByBarcode(barcode);
+
+      if (!product) {
+        return {
+          success: false,
+          error: "找不到此條碼的商品，請上傳營養標示照片建立商品",
+        };
+      }
+
+      return {
+        success: true,
+        result: product,
+      };
+    } catch (error) {
+      console.error("Controller: 取得商品失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "取得商品時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 以營養標示照片建立商品
+   * @param userId 使用者 ID
+   * @param barcode 商品條碼
+   * @param imageFiles 營養標示/包裝圖片
+   * @param userLanguage 用戶語言
+   * @param env 環境變數
+   * @returns API 響應格式（created 為 false 表示條碼已存在）
+   */
+  async createProductFromLabel(
+    userId: string,
+    barcode: string,
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<ApiResponse<{ product: Product; created: boolean }>> {
+    try {
+      // 基本參數驗證
+      const validationError = this.validateLabelImages(imageFiles);
+      if (validationError) {
+        return {
+          success: false,
+          error: validationError,
+        };
+      }
+
+      const result = await this.productService.createProductFromLabel(
+        userId,
+        barcode,
+        imageFiles,
+        userLanguage,
+        env
+      );
+
+      return {
+        success: true,
+        result,
+      };
+    } catch (error) {
+      console.error("Controller: 以營養標示建立商品失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "建立商品時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 驗證營養標示圖片
+   * @param imageFiles 圖片文件
+   * @returns 驗證錯誤訊息，通過時為 null
+   */
+  private validateLabelImages(imageFiles: File[]): string | null {
+    if (!imageFiles || imageFiles.length === 0) {
+      return "請至少上傳一張營養標示圖片";
+    }
+
+    if (imageFiles.length > MAX_LABEL_IMAGES) {
+      return `最多只能上傳 ${MAX_LABEL_IMAGES} 張圖片`;
+    }
+
+    for (let i = 0; i < imageFiles.length; i++) {
+      const file = imageFiles[i];
+
+      if (file.size > MAX_LABEL_IMAGE_SIZE) {
+        return `第 ${i + 1} 個圖片文件過大，請上傳小於 10MB 的圖片`;
+      }
+
+      if (!ALLOWED_LABEL_IMAGE_TYPES.includes(file.type)) {
+        return `第 ${i + 1} 個圖片格式不支援，請使用 JPEG、PNG、GIF 或 WebP 格式`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 將 Controller 響應轉換為 HTTP 錯誤格式
+   * @param response Controller 響應
+   * @param defaultErrorCode 預設錯誤代碼
+   * @returns 錯誤響應格式
+   */
+  static toErrorResponse(
+    response: ApiResponse,
+    defaultErrorCode: number = 500
+  ): ApiErrorResponse {
+    return {
+      success: false,
+      errors: [
+        {
+          code: defaultErrorCode,
+          message: response.error || "發生未知錯誤",
+        },
+      ],
+    };
+  }
+}
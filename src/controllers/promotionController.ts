@@ -0,0 +1,163 @@
+import { IPromotionService } from "../services/promotionService";
+import {
+  CreatePromotionRequest,
+  PromotionAudience,
+  PromotionAudiencePreview,
+  PromotionCampaign,
+} from "../types/promotion";
+
+/**
+ * API 響應格式
+ */
+export interface ApiResponse<T = any> {
+  success: boolean;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * API 錯誤響應格式
+ */
+export interface ApiErrorResponse {
+  success: false;
+  errors: Array<{
+    code: number;
+    message: string;
+  }>;
+}
+
+/**
+ * Promotion Controller - 處理 HTTP 請求/響應的薄層
+ * 負責調用 Service 層並格式化響應
+ */
+export class PromotionController {
+  constructor(private promotionService: IPromotionService) {}
+
+  /**
+   * 建立優惠推播活動
+   * @param adminUserId 建立者 UID
+   * @param request 活動內容
+   * @returns API 響應格式
+   */
+  async createCampaign(
+    adminUserId: string,
+    request: CreatePromotionRequest
+  ): Promise<ApiResponse<PromotionCampaign>> {
+    try {
+      const campaign = await this.promotionService.createCampaign(
+        adminUserId,
+        request
+      );
+
+      return {
+        success: true,
+        result: campaign,
+      };
+    } catch (error) {
+      console.error("Controller: 建立推播活動失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "建立推播活動時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 取得最近的推播活動
+   * @returns API 響應格式
+   */
+  async listCampaigns(): Promise<ApiResponse<PromotionCampaign[]>> {
+    try {
+      const campaigns = await this.promotionService.listCampaigns();
+
+      return {
+        success: true,
+        result: campaigns,
+      };
+    } catch (error) {
+      console.error("Controller: 取得推播活動列表失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "取得推播活動列表時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 取消推播活動
+   * @param id 活動 ID
+   * @returns API 響應格式
+   */
+  async cancelCampaign(id: string): Promise<ApiResponse<PromotionCampaign>> {
+    try {
+      const campaign = await this.promotionService.cancelCampaign(id);
+
+      return {
+        success: true,
+        result: campaign,
+      };
+    } catch (error) {
+      console.error("Controller: 取消推播活動失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "取消推播活動時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 預覽推播對象數量
+   * @param audience 目標受眾
+   * @param cursor 上一次預覽返回的 nextCursor
+   * @returns API 響應格式
+   */
+  async previewAudience(
+    audience: PromotionAudience,
+    cursor?: string
+  ): Promise<ApiResponse<PromotionAudiencePreview>> {
+    try {
+      const preview = await this.promotionService.previewAudience(
+        audience,
+        cursor
+      );
+
+      return {
+        success: true,
+        result: preview,
+      };
+    } catch (error) {
+      console.error("Controller: 預覽推播對象失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "預覽推播對象時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 將 ApiResponse 轉換為 ApiErrorResponse 格式
+   * @param response API 響應
+   * @param defaultErrorCode 預設錯誤代碼
+   * @returns API 錯誤響應
+   */
+  static toErrorResponse(
+    response: ApiResponse,
+    defaultErrorCode: number = 500
+  ): ApiErrorResponse {
+    return {
+      success: false,
+      errors: [
+        {
+          code: defaultErrorCode,
+          message: response.error || "發生未知錯誤",
+        },
+      ],
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { Recipe, FavoriteRecipe, CreateRecipeWithImagesSchema, UpdateRecipeWithImagesSchema } from "../types/recipe";
+import { Recipe, FavoriteRecipe, CreateRecipeWithImagesSchema, UpdateRecipeWithImagesSchema, RecipeFeedPage, RecipeFeedQuery, RecipeSort, RecipeTag, RecipeTagGroup, RECIPE_TAG_GROUPS, ScaledRecipe } from "../types/recipe";
 import { IRecipeService, RecipeImageData } from "../services/recipeService";
 
 /**
@@ -41,6 +41,25 @@ export interface UpdateRecipeWithImagesRequest {
   ingredientImages?: { [ingredientIndex: string]: string };
 }
 
+/**
+ * 公開食譜動態牆請求格式（標籤與難易度為逗號分隔字串）
+ */
+export interface RecipeFeedRequest {
+  mealType?: string;
+  dietType?: string;
+  dishType?: string;
+  cuisine?: string;
+  minCalories?: number;
+  maxCalories?: number;
+  minProtein?: number;
+  maxProtein?: number;
+  maxDuration?: number;
+  difficulty?: string;
+  sort: RecipeSort;
+  limit: number;
+  cursor?: string;
+}
+
 /**
  * Recipe Controller - 處理 HTTP 請求/響應的薄層
  * 負責調用 Service 層並格式化響應
@@ -197,6 +216,44 @@ export class RecipeController {
     }
   }
 
+  /**
+   * 依目標份數縮放食譜
+   * @param recipeId 食譜 ID
+   * @param servings 目標份數
+   * @returns API 響應格式
+   */
+  async scaleRecipe(
+    recipeId: string,
+    servings: number
+  ): Promise<ApiResponse<ScaledRecipe>> {
+    try {
+      // 基本參數驗證
+      if (!recipeId.trim()) {
+        return {
+          success: false,
+          error: "食譜 ID 不能為空",
+        };
+      }
+
+      // 調用 Service 層
+      const scaledRecipe = await this.recipeService.scaleRecipe(
+        recipeId,
+        servings
+      );
+
+      return {
+        success: true,
+        result: scaledRecipe,
+      };
+    } catch (error) {
+      console.error("Controller: 縮放食譜失敗:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "縮放食譜時發生未知錯誤",
+      };
+    }
+  }
+
   /**
    * 取得所有公開食譜
    * @returns API 響應格式
@@ -219,6 +276,142 @@ export class RecipeController {
     }
   }
 
+  /**
+   * 取得公開食譜動態牆（分頁、篩選與排序）
+   * @param request 動態牆請求
+   * @returns API 響應格式
+   */
+  async getPublicRecipeFeed(
+    request: RecipeFeedRequest
+  ): Promise<ApiResponse<RecipeFeedPage>> {
+    try {
+      // 基本參數驗證
+      if (
+        request.minCalories !== undefined &&
+        request.maxCalories !== undefined &&
+        request.minCalories > request.maxCalories
+      ) {
+        return {
+          success: false,
+          error: "無效的熱量範圍：最低熱量不能大於最高熱量",
+        };
+      }
+
+      if (
+        request.minProtein !== undefined &&
+        request.maxProtein !== undefined &&
+        request.minProtein > request.maxProtein
+      ) {
+        return {
+          success: false,
+          error: "無效的蛋白質範圍：最低蛋白質不能大於最高蛋白質",
+        };
+      }
+
+      // 解析標籤群組
+      const query: RecipeFeedQuery = {
+        minCalories: request.minCalories,
+        maxCalories: request.maxCalories,
+        minProtein: request.minProtein,
+        maxProtein: request.maxProtein,
+        maxDuration: request.maxDuration,
+        difficulty: this.splitList(request.difficulty),
+        sort: request.sort,
+        limit: request.limit,
+        cursor: request.cursor,
+      };
+
+      for (const group of Object.keys(RECIPE_TAG_GROUPS) as RecipeTagGroup[]) {
+        const tags = this.splitList(request[group]);
+        if (!tags) {
+          continue;
+        }
+
+        const invalidTag = tags.find(
+          (tag) => !RECIPE_TAG_GROUPS[group].includes(tag as RecipeTag)
+        );
+        if (invalidTag) {
+          return {
+            success: false,
+            error: `無效的標籤：${invalidTag} 不屬於 ${group}`,
+          };
+        }
+
+        query[group] = tags as RecipeTag[];
+      }
+
+      // 調用 Service 層
+      const page = await this.recipeService.getPublicRecipeFeed(query);
+
+      return {
+        success: true,
+        result: page,
+      };
+    } catch (error) {
+      console.error("Controller: 取得公開食譜動態牆失敗:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "取得公開食譜動態牆時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 全文搜尋公開食譜
+   * @param keyword 搜尋關鍵字
+   * @param limit 最多回傳筆數
+   * @returns API 響應格式
+   */
+  async searchRecipes(
+    keyword: string,
+    limit: number
+  ): Promise<ApiResponse<Recipe[]>> {
+    try {
+      // 基本參數驗證
+      if (!keyword || !keyword.trim()) {
+        return {
+          success: false,
+          error: "無效的搜尋關鍵字：關鍵字不能為空",
+        };
+      }
+
+      // 調用 Service 層
+      const recipes = await this.recipeService.searchPublicRecipes(
+        keyword,
+        limit
+      );
+
+      return {
+        success: true,
+        result: recipes,
+      };
+    } catch (error) {
+      console.error("Controller: 搜尋食譜失敗:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "搜尋食譜時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 將逗號分隔字串拆成清單
+   * @param value 逗號分隔字串
+   * @returns 去除空白後的清單，沒有內容時為 undefined
+   */
+  private splitList(value?: string): string[] | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const items = value
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+
+    return items.length > 0 ? items : undefined;
+  }
+
   /**
    * 取得我的食譜
    * @param userId 使用者 ID
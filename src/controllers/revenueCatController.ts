@@ -2,7 +2,12 @@
  * RevenueCat Webhook 控制器 - 使用分層架構模式
  */
 import EmailService from "../services/emailService";
+import type { ISubscriptionEmailService } from "../services/subscriptionEmailService";
+import type { ISubscriptionService } from "../services/subscriptionService";
+import type { IWebhookEventService } from "../services/webhookEventService";
 import type { CancellationFeedbackData } from "../types/email";
+import { resolveEmailLanguage } from "../utils/emailTemplates";
+import { getStoreSubscriptionUrl } from "../utils/storeUrls";
 import type { Env } from "../bindings";
 import type {
   RevenueCatWebhookEvent,
@@ -11,6 +16,10 @@ import type {
   WebhookValidationResult,
 } from "../types/revenuecat";
 
+// 重放保護：只接受事件時間戳在此範圍內的 Webhook（RevenueCat 重送間隔最長約數小時）
+const MAX_WEBHOOK_EVENT_AGE_MS = 72 * 60 * 60 * 1000;
+const MAX_WEBHOOK_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
 /**
  * API 響應格式
  */
@@ -18,6 +27,7 @@ export interface ApiResponse<T = any> {
   success: boolean;
   result?: T;
   error?: string;
+  inProgress?: boolean; // 相同事件正由另一個請求處理中（端點返回 409）
 }
 
 /**
@@ -31,7 +41,12 @@ export interface IRevenueCatController {
  * RevenueCat Controller - 處理 RevenueCat Webhook 的業務邏輯
  */
 export class RevenueCatController implements IRevenueCatController {
-  constructor(private emailService: EmailService) {}
+  constructor(
+    private emailService: EmailService,
+    private subscriptionService: ISubscriptionService,
+    private webhookEventService: IWebhookEventService,
+    private subscriptionEmailService: ISubscriptionEmailService
+  ) {}
 
   /**
    * 處理 RevenueCat Webhook 請求
@@ -58,66 +73,163 @@ export class RevenueCatController implements IRevenueCatController {
 
       const event = validation.event!;
 
-      // 檢查是否為取消訂閱事件
-      if (!this.isCancellationEvent(event)) {
-        console.log("非取消訂閱事件，跳過處理:", event.type);
+      // 冪等檢查：RevenueCat 重送的事件不重複寄信或套用狀態
+      const eventId = this.getEventId(event);
+      const claim = await this.webhookEventService.claim(
+        "revenuecat",
+        eventId,
+        event.type
+      );
+
+      if (claim === "duplicate") {
+        console.log("重複的 Webhook 事件，跳過處理:", eventId);
         return {
           success: true,
           result: {
-            message: "Event processed (not cancellation)",
-            eventType: event.type
+            message: "Duplicate event ignored",
+            eventType: event.type,
+            duplicate: true
           }
         };
       }
 
-      // 提取用戶取消資訊
-      const cancellationInfo = this.extractCancellationInfo(event);
-      console.log("取消訂閱資訊:", cancellationInfo);
-
-      // 過濾沙盒環境（可選）
-      if (cancellationInfo.isSandbox && env.ENVIRONMENT === "production") {
-        console.log("生產環境跳過沙盒事件");
+      if (claim === "in_progress") {
         return {
-          success: true,
-          result: {
-            message: "Sandbox event skipped in production"
-          }
+          success: false,
+          error: `Webhook 事件正在處理中: ${eventId}`,
+          inProgress: true
         };
       }
 
-      // 發送取消訂閱回饋郵件
-      const emailResult = await this.sendCancellationEmail(
-        cancellationInfo,
-        env
-      );
+      let response: ApiResponse;
+      try {
+        response = await this.processEvent(event, env);
+      } catch (error) {
+        // 處理失敗時釋放冪等紀錄，讓 RevenueCat 重送時可以重新處理
+        await this.webhookEventService
+          .release("revenuecat", eventId)
+          .catch((releaseError) =>
+            console.error("釋放 Webhook 事件紀錄失敗:", releaseError)
+          );
+        throw error;
+      }
 
-      if (!emailResult.success) {
-        console.error("郵件發送失敗:", emailResult.error);
-        // 即使郵件發送失敗，也返回成功以避免 RevenueCat 重複發送
-        return {
-          success: true,
-          result: {
-            message: "Webhook processed, email send failed",
-            emailError: emailResult.error
-          }
-        };
+      try {
+        await this.webhookEventService.complete("revenuecat", eventId);
+      } catch (error) {
+        console.error("標記 Webhook 事件完成失敗:", error);
       }
 
-      console.log("取消訂閱郵件發送成功");
+      return response;
+    } catch (error) {
+      console.error("Webhook 處理錯誤:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error"
+      };
+    }
+  }
+
+  /**
+   * 處理已驗證的 Webhook 事件：同步訂閱狀態、處理訂閱生命週期郵件，取消訂閱事件發送回饋郵件
+   * @param event RevenueCat 事件
+   * @param env 環境變數
+   * @returns API 響應
+   */
+  private async processEvent(
+    event: RevenueCatWebhookEvent,
+    env: Env
+  ): Promise<ApiResponse> {
+    // 同步使用者訂閱狀態（失敗時返回錯誤，讓 RevenueCat 重送）
+    const syncResult = await this.subscriptionService.applyWebhookEvent(event);
+    if (!syncResult.updated) {
+      console.log("訂閱狀態未更新:", syncResult.skippedReason);
+    }
+
+    // 付款問題、試用結束提醒、挽回郵件（失敗不重送，避免重複寄信）
+    const lifecycleEmail = await this.subscriptionEmailService
+      .handleWebhookEvent(event, env)
+      .catch((error) => {
+        console.error("訂閱生命週期郵件處理失敗:", error);
+        return undefined;
+      });
+
+    // 檢查是否為取消訂閱事件
+    if (!this.isCancellationEvent(event)) {
+      console.log("非取消訂閱事件，跳過取消回饋郵件:", event.type);
       return {
         success: true,
         result: {
-          message: "Webhook processed successfully",
-          emailSent: true
+          message: "Event processed (not cancellation)",
+          eventType: event.type,
+          subscriptionUpdated: syncResult.updated,
+          lifecycleEmail
         }
       };
-    } catch (error) {
-      console.error("Webhook 處理錯誤:", error);
+    }
+
+    // 提取用戶取消資訊
+    const cancellationInfo = this.extractCancellationInfo(event);
+    console.log("取消訂閱資訊:", cancellationInfo);
+
+    // 過濾沙盒環境（可選）
+    if (cancellationInfo.isSandbox && env.ENVIRONMENT === "production") {
+      console.log("生產環境跳過沙盒事件");
       return {
-        success: false,
-        error: error instanceof Error ? error.message : "Internal server error"
+        success: true,
+        result: {
+          message: "Sandbox event skipped in production",
+          subscriptionUpdated: syncResult.updated
+        }
       };
     }
+
+    // 發送取消訂閱回饋郵件
+    const emailResult = await this.sendCancellationEmail(
+      cancellationInfo,
+      env
+    );
+
+    if (!emailResult.success) {
+      console.error("郵件發送失敗:", emailResult.error);
+      // 即使郵件發送失敗，也返回成功以避免 RevenueCat 重複發送
+      return {
+        success: true,
+        result: {
+          message: "Webhook processed, email send failed",
+          emailError: emailResult.error,
+          subscriptionUpdated: syncResult.updated
+        }
+      };
+    }
+
+    console.log("取消訂閱郵件發送成功");
+    return {
+      success: true,
+      result: {
+        message: "Webhook processed successfully",
+        emailSent: true,
+        subscriptionUpdated: syncResult.updated
+      }
+    };
+  }
+
+  /**
+   * 取得事件的冪等 key
+   * RevenueCat 事件都帶有唯一 id；缺少時以事件內容組合
+   * @param event RevenueCat 事件
+   * @returns 事件 ID
+   */
+  private getEventId(event: RevenueCatWebhookEvent): string {
+    return (
+      event.id ||
+      [
+        event.type,
+        event.app_user_id,
+        event.transaction_id,
+        event.event_timestamp_ms,
+      ].join(":")
+    );
   }
 
   /**
@@ -146,6 +258,15 @@ export class RevenueCatController implements IRevenueCatController {
         return { isValid: false, error: "無效的事件時間戳" };
       }
 
+      // 重放保護：拒絕過舊或來自未來的事件
+      const eventAge = Date.now() - event.event_timestamp_ms;
+      if (
+        eventAge > MAX_WEBHOOK_EVENT_AGE_MS ||
+        eventAge < -MAX_WEBHOOK_CLOCK_SKEW_MS
+      ) {
+        return { isValid: false, error: "事件時間戳超出允許範圍" };
+      }
+
       return { isValid: true, event };
     } catch (error) {
       return {
@@ -287,42 +408,10 @@ export class RevenueCatController implements IRevenueCatController {
 
     // 標準化語言代碼並使用包含匹配
     if (locale) {
-      const normalizedLocale = locale.toLowerCase().replace(/-/g, "_");
-
-      // 根據您的應用支持的語言進行映射
-      const languageMap: Record<string, string> = {
-        zh_hant: "zh-TW",
-        zh_tw: "zh-TW",
-        zh_hans: "zh-CN",
-        zh_cn: "zh-CN",
-        en_us: "en",
-        pt_br: "pt-BR",
-        zh: "zh-CN",
-        en: "en",
-        ja: "ja",
-        ko: "ko",
-        es: "es",
-        fr: "fr",
-        de: "de",
-        pt: "pt-BR",
-        th: "th",
-        vi: "vi",
-        id: "id",
-        ms: "ms",
-      };
-
-      // 按具體性排序（從最具體到最一般），進行包含匹配
-      const languageKeys = Object.keys(languageMap).sort(
-        (a, b) => b.length - a.length
-      );
-
-      for (const key of languageKeys) {
-        if (normalizedLocale.includes(key)) {
-          console.log(
-            `語言匹配成功: ${locale} -> ${key} -> ${languageMap[key]}`
-          );
-          return languageMap[key];
-        }
+      const language = resolveEmailLanguage(locale);
+      if (language) {
+        console.log(`語言匹配成功: ${locale} -> ${language}`);
+        return language;
       }
 
       console.log(`無法匹配語言: ${locale}，使用預設語言`);
@@ -341,28 +430,6 @@ export class RevenueCatController implements IRevenueCatController {
     cancellationInfo: UserCancellationInfo,
     env: Env
   ): string {
-    // 從環境變數獲取商店 URL，如果沒有則使用預設值
-    const appStoreUrl =
-      env.APP_STORE_URL || "https://apps.apple.com/account/subscriptions";
-    const playStoreUrl =
-      env.PLAY_STORE_URL ||
-      "https://play.google.com/store/account/subscriptions";
-
-    // 根據商店類型返回相應的 URL（使用 store 屬性而不是 productId）
-    switch (cancellationInfo.store) {
-      case "APP_STORE":
-      case "MAC_APP_STORE":
-        return appStoreUrl;
-      case "PLAY_STORE":
-        return playStoreUrl;
-      case "AMAZON":
-        // Amazon Appstore URL (如果需要的話)
-        return appStoreUrl; // 預設回退到 App Store
-      default:
-        console.log(
-          `未知的商店類型: ${cancellationInfo.store}，使用預設 App Store URL`
-        );
-        return appStoreUrl; // 預設為 App Store
-    }
+    return getStoreSubscriptionUrl(cancellationInfo.store, env);
   }
 }
\ No newline at end of file
@@ -0,0 +1,217 @@
+import { IShoppingListService } from "../services/shoppingListService";
+import { CreateShoppingListRequest, ShoppingList } from "../types/shoppingList";
+
+/**
+ * API 響應格式
+ */
+export interface ApiResponse<T = any> {
+  success: boolean;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * API 錯誤響應格式
+ */
+export interface ApiErrorResponse {
+  success: false;
+  errors: Array<{
+    code: number;
+    message: string;
+  }>;
+}
+
+/**
+ * ShoppingList Controller - 處理 HTTP 請求/響應的薄層
+ * 負責調用 Service 層並格式化響應
+ */
+export class ShoppingListController {
+  constructor(private shoppingListService: IShoppingListService) {}
+
+  /**
+   * 獲取購物清單列表
+   * @param userId 使用者 ID
+   * @returns API 響應格式
+   */
+  async getShoppingLists(userId: string): Promise<ApiResponse<ShoppingList[]>> {
+    try {
+      const shoppingLists =
+        await this.shoppingListService.getShoppingLists(userId);
+
+      return {
+        success: true,
+        result: shoppingLists,
+      };
+    } catch (error) {
+      console.error("Controller: 取得購物清單列表失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "取得購物清單列表時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 獲取單一購物清單
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   * @returns API 響應格式
+   */
+  async getShoppingList(
+    userId: string,
+    listId: string
+  ): Promise<ApiResponse<ShoppingList | null>> {
+    try {
+      const shoppingList = await this.shoppingListService.getShoppingList(
+        userId,
+        listId
+      );
+
+      return {
+        success: true,
+        result: shoppingList,
+      };
+    } catch (error) {
+      console.error("Controller: 取得購物清單失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "取得購物清單時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 從多個食譜產生購物清單
+   * @param userId 使用者 ID
+   * @param request 食譜與份數
+   * @returns API 響應格式
+   */
+  async createShoppingList(
+    userId: string,
+    request: CreateShoppingListRequest
+  ): Promise<ApiResponse<ShoppingList>> {
+    try {
+      // 基本參數驗證
+      if (!request.recipes || request.recipes.length === 0) {
+        return {
+          success: false,
+          error: "至少需要選擇一個食譜",
+        };
+      }
+
+      const shoppingList = await this.shoppingListService.createShoppingList(
+        userId,
+        request
+      );
+
+      return {
+        success: true,
+        result: shoppingList,
+      };
+    } catch (error) {
+      console.error("Controller: 建立購物清單失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "建立購物清單時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 更新購物清單項目的勾選狀態
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   * @param itemId 項目 ID
+   * @param checked 是否已勾選
+   * @returns API 響應格式
+   */
+  async updateItemChecked(
+    userId: string,
+    listId: string,
+    itemId: string,
+    checked: boolean
+  ): Promise<ApiResponse<ShoppingList>> {
+    try {
+      // 基本參數驗證
+      if (!itemId || itemId.trim() === "") {
+        return {
+          success: false,
+          error: "購物清單項目 ID 不能為空",
+        };
+      }
+
+      const shoppingList = await this.shoppingListService.updateItemChecked(
+        userId,
+        listId,
+        itemId,
+        checked
+      );
+
+      return {
+        success: true,
+        result: shoppingList,
+      };
+    } catch (error) {
+      console.error("Controller: 更新購物清單項目失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "更新購物清單項目時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 刪除購物清單
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   * @returns API 響應格式
+   */
+  async deleteShoppingList(
+    userId: string,
+    listId: string
+  ): Promise<ApiResponse<void>> {
+    try {
+      await this.shoppingListService.deleteShoppingList(userId, listId);
+
+      return {
+        success: true,
+      };
+    } catch (error) {
+      console.error("Controller: 刪除購物清單失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "刪除購物清單時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 將 Controller 響應轉換為 HTTP 錯誤格式
+   * @param response Controller 響應
+   * @param defaultErrorCode 預設錯誤代碼
+   * @returns 錯誤響應格式
+   */
+  static toErrorResponse(
+    response: ApiResponse,
+    defaultErrorCode: number = 500
+  ): ApiErrorResponse {
+    return {
+      success: false,
+      errors: [
+        {
+          code: defaultErrorCode,
+          message: response.error || "發生未知錯誤",
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import { ITrendsService } from "../services/trendsService";
+import { DataInsights } from "../types/chat";
+import {
+  NutritionTrendReport,
+  TrendDateRange,
+  TrendPeriod,
+} from "../types/trends";
+import { addDaysToLocalDate, isValidTimeZone } from "../utils/timezone";
+
+/**
+ * API 響應格式
+ */
+export interface ApiResponse<T = any> {
+  success: boolean;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * API 錯誤響應格式
+ */
+export interface ApiErrorResponse {
+  success: false;
+  errors: Array<{
+    code: number;
+    message: string;
+  }>;
+}
+
+/**
+ * 趨勢查詢參數
+ */
+export interface TrendQuery {
+  period?: TrendPeriod;
+  startDate?: string;
+  endDate?: string;
+  timezone?: string;
+}
+
+/**
+ * 各預設期間對應的天數
+ */
+const PERIOD_DAYS: Record<TrendPeriod, number> = {
+  week: 7,
+  month: 30,
+};
+
+/**
+ * Trends Controller - 處理 HTTP 請求/響應的薄層
+ * 負責解析查詢區間、調用 Service 層並格式化響應
+ */
+export class TrendsController {
+  constructor(private trendsService: ITrendsService) {}
+
+  /**
+   * 取得營養趨勢報告
+   * @param userId 使用者 ID
+   * @param query 查詢參數（period 或 startDate/endDate，以及 timezone）
+   * @returns API 響應格式
+   */
+  async getNutritionTrends(
+    userId: string,
+    query: TrendQuery
+  ): Promise<ApiResponse<NutritionTrendReport>> {
+    try {
+      // 驗證和轉換查詢區間
+      const range = this.resolveRange(query);
+      if ("error" in range) {
+        return { success: false, error: range.error };
+      }
+
+      // 調用 Service 層
+      const report = await this.trendsService.getNutritionTrends(
+        userId,
+        range,
+        query.timezone
+      );
+
+      return {
+        success: true,
+        result: report,
+      };
+    } catch (error) {
+      console.error("Controller: 取得營養趨勢失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "取得營養趨勢時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 取得數據洞察
+   * @param userId 使用者 ID
+   * @param query 查詢參數（period 或 startDate/endDate，以及 timezone）
+   * @returns API 響應格式
+   */
+  async getDataInsights(
+    userId: string,
+    query: TrendQuery
+  ): Promise<ApiResponse<DataInsights>> {
+    try {
+      // 驗證和轉換查詢區間
+      const range = this.resolveRange(query);
+      if ("error" in range) {
+        return { success: false, error: range.error };
+      }
+
+      // 調用 Service 層
+      const insights = await this.trendsService.getDataInsights(
+        userId,
+        range,
+        query.timezone
+      );
+
+      return {
+        success: true,
+        result: insights,
+      };
+    } catch (error) {
+      console.error("Controller: 取得數據洞察失敗:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "取得數據洞察時發生未知錯誤",
+      };
+    }
+  }
+
+  /**
+   * 解析查詢區間
+   * - 未提供 startDate 時依 period（預設 week）由 endDate 往前推算
+   * - endDate 預設為使用者當地的今天，由 Service 依時區決定
+   * @param query 查詢參數
+   * @returns 查詢區間，或錯誤訊息
+   */
+  private resolveRange(query: TrendQuery): TrendDateRange | { error: string } {
+    const isDateKey = (date?: string) =>
+      date === undefined || addDaysToLocalDate(date, 0) === date;
+    if (!isDateKey(query.startDate) || !isDateKey(query.endDate)) {
+      return { error: "無效的日期格式，請使用 YYYY-MM-DD 格式" };
+    }
+
+    if (query.timezone !== undefined && !isValidTimeZone(query.timezone)) {
+      return { error: "無效的時區，請使用 IANA 時區名稱（例如 Asia/Taipei）" };
+    }
+
+    return {
+      startDate: query.startDate,
+      endDate: query.endDate,
+      days: PERIOD_DAYS[query.period || "week"],
+    };
+  }
+
+  /**
+   * 將 Controller 響應轉換為 HTTP 錯誤格式
+   * @param response Controller 響應
+   * @param defaultErrorCode 預設錯誤代碼
+   * @returns 錯誤響應格式
+   */
+  static toErrorResponse(
+    response: ApiResponse,
+    defaultErrorCode: number = 500
+  ): ApiErrorResponse {
+    return {
+      success: false,
+      errors: [
+        {
+          code: defaultErrorCode,
+          message: response.error || "發生未知錯誤",
+        },
+      ],
+    };
+  }
+}
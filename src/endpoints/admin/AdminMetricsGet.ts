@@ -0,0 +1,178 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { AdminMetricsResponseSchema } from "../../types/admin";
+
+// 導入分層架構
+import { AdminController } from "../../controllers/adminController";
+import { D1AdminAuditLogRepository } from "../../repositories/adminAuditLogRepository";
+import { D1AdminMetricsRepository } from "../../repositories/adminMetricsRepository";
+import { D1AIUsageRepository } from "../../repositories/aiUsageRepository";
+import { FirestoreFcmTokenRepository } from "../../repositories/fcmTokenRepository";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { AdminService } from "../../services/adminService";
+import { AIUsageService } from "../../services/aiUsageService";
+import { FcmTokenService } from "../../services/fcmTokenService";
+import { getD1FromContext } from "../../utils/d1";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * AdminMetricsGet endpoint - 獲取營運指標
+ * 僅限管理員（見 adminMiddleware）
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class AdminMetricsGet extends OpenAPIRoute {
+  public schema = {
+    tags: ["Admin"],
+    summary: "獲取營運指標",
+    description:
+      "推播送達、AI 使用量、Webhook 事件、排程郵件與推播活動的狀態統計",
+    operationId: "adminGetMetrics",
+    request: {
+      query: z.object({
+        hours: z.coerce
+          .number()
+          .int()
+          .min(1)
+          .max(168)
+          .default(24)
+          .describe("推播送達與 Webhook 事件的統計範圍（小時），預設 24"),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "成功取得營運指標",
+        content: {
+          "application/json": {
+            schema: AdminMetricsResponseSchema.openapi({
+              description: "營運指標回應",
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "403": {
+        description: "權限不足 - 需要管理員權限",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 確認已通過認證中間件
+      requireUserIdFromMiddleware(c);
+
+      // 獲取查詢參數
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const db = getD1FromContext(c);
+      const userRepository = new FirestoreUserRepository(firestore);
+      const adminService = new AdminService(
+        userRepository,
+        new FcmTokenService(new FirestoreFcmTokenRepository(firestore)),
+        new AIUsageService(new D1AIUsageRepository(db), userRepository),
+        new FirestoreRecipeRepository(firestore),
+        new D1AdminAuditLogRepository(db),
+        new D1AdminMetricsRepository(db)
+      );
+      const adminController = new AdminController(adminService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await adminController.getMetrics(data.query.hours);
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        return c.json(AdminController.toErrorResponse(response, 500), 500);
+      }
+
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: AdminMetricsGet 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { AdminAuditLogListResponseSchema } from "../../types/admin";
+
+// 導入分層架構
+import { AdminController } from "../../controllers/adminController";
+import { D1AdminAuditLogRepository } from "../../repositories/adminAuditLogRepository";
+import { D1AdminMetricsRepository } from "../../repositories/adminMetricsRepository";
+import { D1AIUsageRepository } from "../../repositories/aiUsageRepository";
+import { FirestoreFcmTokenRepository } from "../../repositories/fcmTokenRepository";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { AdminService } from "../../services/adminService";
+import { AIUsageService } from "../../services/aiUsageService";
+import { FcmTokenService } from "../../services/fcmTokenService";
+import { getD1FromContext } from "../../utils/d1";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * AuditLogList endpoint - 獲取管理操作稽核紀錄
+ * 僅限管理員（見 adminMiddleware）
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class AuditLogList extends OpenAPIRoute {
+  public schema = {
+    tags: ["Admin"],
+    summary: "獲取稽核紀錄",
+    description: "獲取最近 50 筆管理操作稽核紀錄（新到舊），可依操作對象篩選",
+    operationId: "adminListAuditLogs",
+    request: {
+      query: z.object({
+        targetId: z
+          .string()
+          .optional()
+          .describe("只取得指定對象（例如食譜 ID）的紀錄"),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "成功取得稽核紀錄",
+        content: {
+          "application/json": {
+            schema: AdminAuditLogListResponseSchema.openapi({
+              description: "稽核紀錄列表回應",
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "403": {
+        description: "權限不足 - 需要管理員權限",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 確認已通過認證中間件
+      requireUserIdFromMiddleware(c);
+
+      // 獲取查詢參數
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const db = getD1FromContext(c);
+      const userRepository = new FirestoreUserRepository(firestore);
+      const adminService = new AdminService(
+        userRepository,
+        new FcmTokenService(new FirestoreFcmTokenRepository(firestore)),
+        new AIUsageService(new D1AIUsageRepository(db), userRepository),
+        new FirestoreRecipeRepository(firestore),
+        new D1AdminAuditLogRepository(db),
+        new D1AdminMetricsRepository(db)
+      );
+      const adminController = new AdminController(adminService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await adminController.listAuditLogs(data.query.targetId);
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        return c.json(AdminController.toErrorResponse(response, 500), 500);
+      }
+
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: AuditLogList 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
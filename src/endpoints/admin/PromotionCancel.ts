@@ -0,0 +1,210 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { PromotionCampaignResponseSchema } from "../../types/promotion";
+
+// 導入分層架構
+import { PromotionController } from "../../controllers/promotionController";
+import { FcmTokenService } from "../../services/fcmTokenService";
+import { FirestoreFcmTokenRepository } from "../../repositories/fcmTokenRepository";
+import { D1PromotionRepository } from "../../repositories/promotionRepository";
+import { D1PushDeviceRepository } from "../../repositories/pushDeviceRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { PromotionService } from "../../services/promotionService";
+import { getD1FromContext } from "../../utils/d1";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * PromotionCancel endpoint - 取消優惠推播活動
+ * 僅限管理員（見 adminMiddleware）
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class PromotionCancel extends OpenAPIRoute {
+  public schema = {
+    tags: ["Admin"],
+    summary: "取消推播活動",
+    description: "取消待發送或發送中的優惠推播活動，已發送的批次不受影響",
+    operationId: "cancelPromotion",
+    request: {
+      params: z.object({
+        id: z.string().describe("推播活動 ID"),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "成功取消推播活動",
+        content: {
+          "application/json": {
+            schema: PromotionCampaignResponseSchema.openapi({
+              description: "推播活動回應",
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "403": {
+        description: "權限不足 - 需要管理員權限",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "404": {
+        description: "找不到推播活動",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "409": {
+        description: "推播活動已完成或已取消",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 確認已通過認證中間件
+      requireUserIdFromMiddleware(c);
+
+      // 獲取路由參數
+      const data = await this.getValidatedData<typeof this.schema>();
+      const { id } = data.params;
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const db = getD1FromContext(c);
+      const promotionService = new PromotionService(
+        new D1PromotionRepository(db),
+        new FirestoreUserRepository(firestore),
+        new FcmTokenService(new FirestoreFcmTokenRepository(firestore)),
+        new D1PushDeviceRepository(db),
+        c.env.PROMOTION_QUEUE
+      );
+      const promotionController = new PromotionController(promotionService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await promotionController.cancelCampaign(id);
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        let statusCode = 500;
+
+        if (response.error?.includes("找不到")) {
+          statusCode = 404; // Not Found
+        } else if (response.error?.includes("無法取消")) {
+          statusCode = 409; // Conflict
+        }
+
+        return c.json(
+          PromotionController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: PromotionCancel 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
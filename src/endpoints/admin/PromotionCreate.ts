@@ -0,0 +1,204 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import {
+  CreatePromotionSchema,
+  PromotionCampaignResponseSchema,
+} from "../../types/promotion";
+
+// 導入分層架構
+import { PromotionController } from "../../controllers/promotionController";
+import { FcmTokenService } from "../../services/fcmTokenService";
+import { FirestoreFcmTokenRepository } from "../../repositories/fcmTokenRepository";
+import { D1PromotionRepository } from "../../repositories/promotionRepository";
+import { D1PushDeviceRepository } from "../../repositories/pushDeviceRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { PromotionService } from "../../services/promotionService";
+import { getD1FromContext } from "../../utils/d1";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * PromotionCreate endpoint - 建立優惠推播活動
+ * 僅限管理員（見 adminMiddleware）
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class PromotionCreate extends OpenAPIRoute {
+  public schema = {
+    tags: ["Admin"],
+    summary: "建立優惠推播活動",
+    description:
+      "建立多語系優惠推播並排程發送；依訂閱狀態、平台、App 版本與語言篩選，略過關閉優惠推播的使用者，處於勿擾時段的使用者延後到勿擾時段結束後發送",
+    operationId: "createPromotion",
+    request: {
+      body: {
+        content: {
+          "application/json": {
+            schema: CreatePromotionSchema.openapi({
+              description: "推播活動內容",
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      "200": {
+        description: "成功建立推播活動",
+        content: {
+          "application/json": {
+            schema: PromotionCampaignResponseSchema.openapi({
+              description: "推播活動回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "403": {
+        description: "權限不足 - 需要管理員權限",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const adminUserId = requireUserIdFromMiddleware(c);
+
+      // 獲取請求 body
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const db = getD1FromContext(c);
+      const promotionService = new PromotionService(
+        new D1PromotionRepository(db),
+        new FirestoreUserRepository(firestore),
+        new FcmTokenService(new FirestoreFcmTokenRepository(firestore)),
+        new D1PushDeviceRepository(db),
+        c.env.PROMOTION_QUEUE
+      );
+      const promotionController = new PromotionController(promotionService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await promotionController.createCampaign(
+        adminUserId,
+        data.body
+      );
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        const statusCode =
+          response.error?.includes("不能為空") ||
+          response.error?.includes("無效的")
+            ? 400
+            : 500;
+
+        return c.json(
+          PromotionController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: PromotionCreate 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
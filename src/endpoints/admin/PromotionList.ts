@@ -0,0 +1,157 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { PromotionCampaignListResponseSchema } from "../../types/promotion";
+
+// 導入分層架構
+import { PromotionController } from "../../controllers/promotionController";
+import { FcmTokenService } from "../../services/fcmTokenService";
+import { FirestoreFcmTokenRepository } from "../../repositories/fcmTokenRepository";
+import { D1PromotionRepository } from "../../repositories/promotionRepository";
+import { D1PushDeviceRepository } from "../../repositories/pushDeviceRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { PromotionService } from "../../services/promotionService";
+import { getD1FromContext } from "../../utils/d1";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * PromotionList endpoint - 獲取優惠推播活動列表
+ * 僅限管理員（見 adminMiddleware）
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class PromotionList extends OpenAPIRoute {
+  public schema = {
+    tags: ["Admin"],
+    summary: "獲取推播活動列表",
+    description: "獲取最近建立的優惠推播活動與發送統計（新到舊）",
+    operationId: "listPromotions",
+    responses: {
+      "200": {
+        description: "成功獲取推播活動列表",
+        content: {
+          "application/json": {
+            schema: PromotionCampaignListResponseSchema.openapi({
+              description: "推播活動列表回應",
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "403": {
+        description: "權限不足 - 需要管理員權限",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 確認已通過認證中間件
+      requireUserIdFromMiddleware(c);
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const db = getD1FromContext(c);
+      const promotionService = new PromotionService(
+        new D1PromotionRepository(db),
+        new FirestoreUserRepository(firestore),
+        new FcmTokenService(new FirestoreFcmTokenRepository(firestore)),
+        new D1PushDeviceRepository(db),
+        c.env.PROMOTION_QUEUE
+      );
+      const promotionController = new PromotionController(promotionService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await promotionController.listCampaigns();
+
+      if (!response.success) {
+        return c.json(PromotionController.toErrorResponse(response, 500), 500);
+      }
+
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: PromotionList 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
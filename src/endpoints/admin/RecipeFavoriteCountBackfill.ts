@@ -0,0 +1,196 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import {
+  BackfillRecipesSchema,
+  RecipeBackfillResponseSchema,
+} from "../../types/admin";
+
+// 導入分層架構
+import { AdminController } from "../../controllers/adminController";
+import { D1AdminAuditLogRepository } from "../../repositories/adminAuditLogRepository";
+import { D1AdminMetricsRepository } from "../../repositories/adminMetricsRepository";
+import { D1AIUsageRepository } from "../../repositories/aiUsageRepository";
+import { FirestoreFcmTokenRepository } from "../../repositories/fcmTokenRepository";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { AdminService } from "../../services/adminService";
+import { AIUsageService } from "../../services/aiUsageService";
+import { FcmTokenService } from "../../services/fcmTokenService";
+import { getD1FromContext } from "../../utils/d1";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * RecipeFavoriteCountBackfill endpoint - 回填食譜收藏次數
+ * 僅限管理員（見 adminMiddleware）
+ * 部署收藏次數原子累加後執行一次，重複呼叫直到 nextCursor 為 null
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class RecipeFavoriteCountBackfill extends OpenAPIRoute {
+  public schema = {
+    tags: ["Admin"],
+    summary: "回填食譜收藏次數",
+    description:
+      "依 fav_recipes 的實際收藏數分批覆寫食譜的 favoriteCount，讓缺少此欄位的舊食譜出現在「最多收藏」排序中",
+    operationId: "adminBackfillRecipeFavoriteCounts",
+    request: {
+      body: {
+        content: {
+          "application/json": {
+            schema: BackfillRecipesSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      "200": {
+        description: "成功回填本批食譜",
+        content: {
+          "application/json": {
+            schema: RecipeBackfillResponseSchema.openapi({
+              description: "回填結果回應",
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "403": {
+        description: "權限不足 - 需要管理員權限",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 確認已通過認證中間件
+      requireUserIdFromMiddleware(c);
+
+      // 獲取請求資料
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const db = getD1FromContext(c);
+      const userRepository = new FirestoreUserRepository(firestore);
+      const adminService = new AdminService(
+        userRepository,
+        new FcmTokenService(new FirestoreFcmTokenRepository(firestore)),
+        new AIUsageService(new D1AIUsageRepository(db), userRepository),
+        new FirestoreRecipeRepository(firestore),
+        new D1AdminAuditLogRepository(db),
+        new D1AdminMetricsRepository(db)
+      );
+      const adminController = new AdminController(adminService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await adminController.backfillFavoriteCounts(data.body);
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        return c.json(AdminController.toErrorResponse(response, 500), 500);
+      }
+
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: RecipeFavoriteCountBackfill 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
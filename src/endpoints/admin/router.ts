@@ -0,0 +1,58 @@
+import { Hono } from "hono";
+import { fromHono } from "chanfana";
+import { adminMiddleware, authMiddleware } from "../../middleware/auth";
+import { PromotionCreate } from "./PromotionCreate";
+import { PromotionPreview } from "./PromotionPreview";
+import { PromotionList } from "./PromotionList";
+import { PromotionCancel } from "./PromotionCancel";
+import { AdminUserLookup } from "./AdminUserLookup";
+import { RecipeModerate } from "./RecipeModerate";
+import { RecipeFavoriteCountBackfill } from "./RecipeFavoriteCountBackfill";
+import { RecipeSearchKeyBackfill } from "./RecipeSearchKeyBackfill";
+import { PushDeviceBackfill } from "./PushDeviceBackfill";
+import { AuditLogList } from "./AuditLogList";
+import { AdminMetricsGet } from "./AdminMetricsGet";
+
+// 建立 admin 子路由器
+export const adminRouter = fromHono(new Hono());
+
+// 套用認證與管理員中間件到所有 admin 路由
+// 管理員由 Firebase custom claim（admin: true 或 role: "admin"）或 ADMIN_USER_IDS 設定
+adminRouter.use("/*", authMiddleware);
+adminRouter.use("/*", adminMiddleware);
+
+// POST /admin/promotions/preview - 預覽推播對象數量
+adminRouter.post("/promotions/preview", PromotionPreview);
+
+// GET /admin/promotions - 獲取推播活動列表
+adminRouter.get("/promotions", PromotionList);
+
+// POST /admin/promotions - 建立並排程優惠推播活動
+adminRouter.post("/promotions", PromotionCreate);
+
+// POST /admin/promotions/:id/cancel - 取消推播活動
+adminRouter.post("/promotions/:id/cancel", PromotionCancel);
+
+// GET /admin/users - 依 UID 或 email 查詢使用者
+adminRouter.get("/users", AdminUserLookup);
+
+// POST /admin/recipes/:recipeId/moderate - 審核食譜（下架或刪除）
+adminRouter.post("/recipes/:recipeId/moderate", RecipeModerate);
+
+// POST /admin/recipes/favorite-counts/backfill - 回填食譜收藏次數
+adminRouter.post(
+  "/recipes/favorite-counts/backfill",
+  RecipeFavoriteCountBackfill
+);
+
+// POST /admin/recipes/search-keys/backfill - 回填食譜搜尋索引鍵
+adminRouter.post("/recipes/search-keys/backfill", RecipeSearchKeyBackfill);
+
+// POST /admin/push-devices/backfill - 回填推播裝置資訊
+adminRouter.post("/push-devices/backfill", PushDeviceBackfill);
+
+// GET /admin/audit-logs - 獲取管理操作稽核紀錄
+adminRouter.get("/audit-logs", AuditLogList);
+
+// GET /admin/metrics - 獲取營運指標
+adminRouter.get("/metrics", AdminMetricsGet);
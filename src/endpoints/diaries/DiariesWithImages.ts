@@ -2,12 +2,13 @@ import { OpenAPIRoute } from "chanfana";
 import { z } from "zod";
 import { requireUserIdFromMiddleware } from "../../middleware/auth";
 import { AppContext } from "../../types";
-import { DiaryResponseSchema } from "../../types/diary";
+import { DiaryResponseSchema, TaskStatus } from "../../types/diary";
 import { CreateDiaryWithImagesRequestSchema } from "../../types/image";
 
 // 導入重構後的分層架構
-import { DiaryController } from "../../controllers/diaryController";
+import { DiaryAnalysisController } from "../../controllers/diaryAnalysisController";
 import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { DiaryAnalysisService } from "../../services/diaryAnalysisService";
 import { DiaryService } from "../../services/diaryService";
 import { ImageCompressionService } from "../../services/imageCompressionService";
 import {
@@ -23,14 +24,15 @@ import {
  * - OpenAPI schema 定義
  * - HTTP 請求/響應處理
  * - 圖片資料驗證
- * - 調用完整的依賴注入鏈
+ * - 調用完整的依賴注入鏈並以 waitUntil 執行背景圖片上傳
  * - 錯誤響應格式化
  */
 export class DiariesWithImages extends OpenAPIRoute {
   public schema = {
     tags: ["Diaries"],
     summary: "建立包含圖片的新 diary",
-    description: "建立新的 diary 項目，支援原始圖片和貼紙圖片的上傳處理",
+    description:
+      "建立新的 diary 項目。有圖片時立即建立 status 為 uploading 的 diary 並返回 202，原始圖片與貼紙圖片在背景壓縮上傳；客戶端以 GET /diaries/:id 輪詢 status（uploading → done / failed）",
     operationId: "createDiaryWithImages",
     request: {
       body: {
@@ -45,7 +47,7 @@ export class DiariesWithImages extends OpenAPIRoute {
     },
     responses: {
       "201": {
-        description: "成功建立包含圖片的 diary",
+        description: "成功建立沒有圖片的 diary",
         content: {
           "application/json": {
             schema: DiaryResponseSchema.openapi({
@@ -54,6 +56,16 @@ export class DiariesWithImages extends OpenAPIRoute {
           },
         },
       },
+      "202": {
+        description: "已建立 diary，圖片在背景上傳",
+        content: {
+          "application/json": {
+            schema: DiaryResponseSchema.openapi({
+              description: "uploading 狀態的 Diary 回應",
+            }),
+          },
+        },
+      },
       "400": {
         description: "請求參數錯誤或圖片處理失敗",
         content: {
@@ -134,12 +146,15 @@ export class DiariesWithImages extends OpenAPIRoute {
         imageCompressionService,
         storageService
       );
-      const diaryController = new DiaryController(diaryService);
+      const diaryAnalysisController = new DiaryAnalysisController(
+        new DiaryAnalysisService(diaryService)
+      );
 
-      // 調用 Controller 層處理包含圖片的 diary 建立
-      const response = await diaryController.createDiaryWithImages(
+      // 建立 diary 並排程背景圖片上傳
+      const response = await diaryAnalysisController.startImageUpload(
         userId,
-        request
+        request,
+        (promise) => c.executionCtx.waitUntil(promise)
       );
 
       // 檢查業務邏輯結果
@@ -160,18 +175,18 @@ export class DiariesWithImages extends OpenAPIRoute {
         }
 
         return c.json(
-          DiaryController.toErrorResponse(response, statusCode),
+          DiaryAnalysisController.toErrorResponse(response, statusCode),
           statusCode as any
         );
       }
 
-      // 返回成功響應
+      // 返回成功響應（有圖片時上傳尚未完成）
       return c.json(
         {
           success: true,
           result: response.result,
         },
-        201
+        response.result?.status === TaskStatus.UPLOADING ? 202 : 201
       );
     } catch (error) {
       console.error("Endpoint: DiariesWithImages 處理錯誤:", error);
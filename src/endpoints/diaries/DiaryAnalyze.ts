@@ -0,0 +1,298 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { DiaryResponseSchema } from "../../types/diary";
+import { SupportedLanguage } from "../../types/gemini";
+
+// 導入分層架構
+import { DiaryAnalysisController } from "../../controllers/diaryAnalysisController";
+import { GeminiController } from "../../controllers/geminiController";
+import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { createAIService } from "../../services/aiProviderRegistry";
+import { DiaryAnalysisService } from "../../services/diaryAnalysisService";
+import { DiaryService } from "../../services/diaryService";
+import { ImageCompressionService } from "../../services/imageCompressionService";
+import {
+  getFirestoreFromContext,
+  getStorageFromContext,
+} from "../../utils/firebase";
+
+/**
+ * DiaryAnalyze endpoint - 非同步分析餐點圖片並建立 diary
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - Firebase 認證驗證
+ * - 調用 Controller 層並以 waitUntil 執行背景分析
+ * - 錯誤響應格式化
+ */
+export class DiaryAnalyze extends OpenAPIRoute {
+  public schema = {
+    tags: ["Diaries"],
+    summary: "非同步分析餐點圖片並建立 diary",
+    description:
+      "立即建立 status 為 uploading 的 diary 並返回 202，圖片上傳與 AI 分析在背景執行。客戶端以 GET /diaries/:id 輪詢 status（uploading → analyzing → done / failed）與 progress，失敗原因記錄在 error 欄位",
+    operationId: "analyzeDiaryImages",
+    request: {
+      body: {
+        content: {
+          "multipart/form-data": {
+            schema: z.object({
+              images: z
+                .union([z.instanceof(File), z.array(z.instanceof(File))])
+                .openapi({
+                  type: "array",
+                  items: { type: "string", format: "binary" },
+                  description:
+                    "餐點圖片文件（支援 JPEG、PNG、GIF、WebP），最多 5 張",
+                  minItems: 1,
+                  maxItems: 5,
+                }),
+              user_language: z
+                .string()
+                .optional()
+                .default("zh_TW")
+                .openapi({
+                  description: "用戶語言代碼（預設：zh_TW）",
+                  example: "zh_TW",
+                  enum: [
+                    "zh_TW",
+                    "zh_CN",
+                    "en",
+                    "ja",
+                    "ko",
+                    "vi",
+                    "th",
+                    "ms",
+                    "id",
+                    "fr",
+                    "de",
+                    "es",
+                    "pt_BR",
+                  ],
+                }),
+              user_input: z.string().optional().openapi({
+                description: "用戶額外輸入描述（可選，最多 500 字元）",
+                example: "這是一碗大份的拉麵",
+                maxLength: 500,
+              }),
+              diary_date: z.string().optional().openapi({
+                description: "Diary 日期（ISO 8601，預設：現在）",
+                example: "2025-01-15T12:30:00.000Z",
+              }),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      "202": {
+        description: "已建立 diary，分析在背景執行",
+        content: {
+          "application/json": {
+            schema: DiaryResponseSchema.openapi({
+              description: "uploading 狀態的 Diary 回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 1. 驗證身份 - 需要有效的 Firebase 認證
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 2. 解析 multipart/form-data 並提取圖片文件
+      const formData = await c.req.formData();
+      const imageFiles: File[] = [];
+
+      for (const fileData of formData.getAll("images")) {
+        if (
+          fileData &&
+          typeof fileData === "object" &&
+          "name" in fileData &&
+          "size" in fileData &&
+          "type" in fileData
+        ) {
+          imageFiles.push(fileData as File);
+        }
+      }
+
+      // 3. 提取其他參數
+      const userLanguageData = formData.get("user_language");
+      const userInputData = formData.get("user_input");
+      const diaryDateData = formData.get("diary_date");
+
+      const userLanguage = userLanguageData
+        ? String(userLanguageData)
+        : "zh_TW";
+      const userInput = userInputData ? String(userInputData) : null;
+      const diaryDate = diaryDateData
+        ? new Date(String(diaryDateData))
+        : new Date();
+
+      // 4. 初始化依賴鏈（Repository → Service → Controller）
+      const geminiService = createAIService(c.env, "analyzeImages");
+      const geminiController = new GeminiController(geminiService);
+
+      const diaryService = new DiaryService(
+        new FirestoreDiaryRepository(getFirestoreFromContext(c)),
+        new ImageCompressionService(),
+        getStorageFromContext(c)
+      );
+      const diaryAnalysisController = new DiaryAnalysisController(
+        new DiaryAnalysisService(diaryService, geminiService)
+      );
+
+      // 5. 驗證請求參數（與同步的 analyze-images 相同規則）
+      const validationError =
+        geminiController.validateAnalyzeRequest(imageFiles, userLanguage) ||
+        geminiController.validateUserInput(userInput) ||
+        (isNaN(diaryDate.getTime()) ? "無效的 diary 日期" : null);
+
+      if (validationError) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 400, message: validationError }],
+          },
+          400
+        );
+      }
+
+      // 6. 建立 diary 並排程背景分析
+      const response = await diaryAnalysisController.startImageAnalysis(
+        userId,
+        imageFiles,
+        userLanguage as SupportedLanguage,
+        userInput,
+        diaryDate,
+        c.env,
+        (promise) => c.executionCtx.waitUntil(promise)
+      );
+
+      // 7. 檢查業務邏輯結果
+      if (!response.success) {
+        const statusCode = response.error?.includes("不能為空") ? 400 : 500;
+
+        return c.json(
+          DiaryAnalysisController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      // 8. 返回響應（分析尚未完成）
+      return c.json(
+        {
+          success: true,
+          result: response.result,
+        },
+        202
+      );
+    } catch (error) {
+      console.error("DiaryAnalyze endpoint - 處理請求時發生錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401 as any
+        );
+      }
+
+      // 處理 FormData 解析錯誤
+      if (
+        error instanceof Error &&
+        (error.message.includes("Failed to parse") ||
+          error.message.includes("multipart"))
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [
+              {
+                code: 400,
+                message:
+                  "請求格式錯誤，請使用 multipart/form-data 格式上傳圖片",
+              },
+            ],
+          },
+          400 as any
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500 as any
+      );
+    }
+  }
+}
@@ -2,18 +2,28 @@ import { OpenAPIRoute } from "chanfana";
 import { z } from "zod";
 import { requireUserIdFromMiddleware } from "../../middleware/auth";
 import { AppContext } from "../../types";
-import { CreateDiarySchema, DiaryResponseSchema } from "../../types/diary";
+import {
+  CreateDiaryFromRecipeSchema,
+  CreateDiarySchema,
+  DiaryResponseSchema,
+} from "../../types/diary";
 
 // 導入重構後的分層架構
 import { DiaryController } from "../../controllers/diaryController";
 import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
 import { DiaryService } from "../../services/diaryService";
+import { RecipeService } from "../../services/recipeService";
 import { getFirestoreFromContext } from "../../utils/firebase";
 
 /**
  * DiaryFromRecipe endpoint - 從食譜/食物條目建立 diary
  * 對應 Flutter 的 addDiaryFromFoodEntryAndRecipe 方法
  *
+ * 支援兩種請求格式：
+ * - 完整 Diary 資料（由前端計算好營養素）
+ * - { recipeId, servings, diaryDate }：由伺服器依份數縮放食譜後建立
+ *
  * 職責：
  * - OpenAPI schema 定義
  * - HTTP 請求/響應處理
@@ -25,15 +35,18 @@ export class DiaryFromRecipe extends OpenAPIRoute {
   public schema = {
     tags: ["Diaries"],
     summary: "從食譜/食物條目建立新 diary",
-    description: "建立新的 diary 項目，資料來源為食譜或食物條目",
+    description:
+      "建立新的 diary 項目，資料來源為食譜或食物條目。提供 recipeId 與 servings 時，伺服器會依份數縮放食譜的食材與營養素（例如 1.5 份）",
     operationId: "createDiaryFromRecipe",
     request: {
       body: {
         content: {
           "application/json": {
-            schema: CreateDiarySchema.openapi({
-              description: "完整的 Diary 資料",
-            }),
+            schema: z
+              .union([CreateDiarySchema, CreateDiaryFromRecipeSchema])
+              .openapi({
+                description: "完整的 Diary 資料，或食譜 ID 與份數",
+              }),
           },
         },
       },
@@ -116,17 +129,33 @@ export class DiaryFromRecipe extends OpenAPIRoute {
       // 預處理資料：將 null 值轉換為 undefined
       const processedBody = this.convertNullToUndefined(rawBody);
 
-      // 使用 CreateDiarySchema 驗證處理後的資料
-      const diaryData = CreateDiarySchema.parse(processedBody);
-
       // 初始化完整的依賴注入鏈
       const firestore = getFirestoreFromContext(c);
       const diaryRepository = new FirestoreDiaryRepository(firestore);
-      const diaryService = new DiaryService(diaryRepository);
+      const recipeRepository = new FirestoreRecipeRepository(firestore);
+      const recipeService = new RecipeService(recipeRepository);
+      const diaryService = new DiaryService(
+        diaryRepository,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        recipeService
+      );
       const diaryController = new DiaryController(diaryService);
-      console.log("DiaryFromRecipe: diaryData", diaryData);
-      // 調用 Controller 層處理 diary 建立
-      const response = await diaryController.createDiary(userId, diaryData);
+
+      let response;
+      if (processedBody && processedBody.recipeId !== undefined) {
+        // 依食譜份數建立：由伺服器縮放食材與營養素
+        const request = CreateDiaryFromRecipeSchema.parse(processedBody);
+        response = await diaryController.createDiaryFromRecipe(userId, request);
+      } else {
+        // 使用 CreateDiarySchema 驗證處理後的資料
+        const diaryData = CreateDiarySchema.parse(processedBody);
+        console.log("DiaryFromRecipe: diaryData", diaryData);
+        // 調用 Controller 層處理 diary 建立
+        response = await diaryController.createDiary(userId, diaryData);
+      }
 
       // 檢查業務邏輯結果
       if (!response.success) {
@@ -135,9 +164,12 @@ export class DiaryFromRecipe extends OpenAPIRoute {
         if (
           response.error?.includes("驗證") ||
           response.error?.includes("格式") ||
-          response.error?.includes("不能為空")
+          response.error?.includes("不能為空") ||
+          response.error?.includes("份數")
         ) {
           statusCode = 400;
+        } else if (response.error?.includes("找不到指定的食譜")) {
+          statusCode = 404;
         }
 
         return c.json(
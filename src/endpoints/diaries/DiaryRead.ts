@@ -0,0 +1,188 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { DiaryResponseSchema } from "../../types/diary";
+
+// 導入重構後的分層架構
+import { DiaryController } from "../../controllers/diaryController";
+import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { DiaryService } from "../../services/diaryService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * DiaryRead endpoint - 獲取單一 diary
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class DiaryRead extends OpenAPIRoute {
+  public schema = {
+    tags: ["Diaries"],
+    summary: "獲取單一 diary",
+    description:
+      "獲取指定 ID 的 diary。非同步分析（POST /diaries/analyze）建立的 diary 可透過此端點輪詢 status、progress 與 error",
+    operationId: "getDiary",
+    request: {
+      params: z.object({
+        id: z.string().describe("Diary ID"),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "成功獲取 diary",
+        content: {
+          "application/json": {
+            schema: DiaryResponseSchema.openapi({
+              description: "Diary 回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "404": {
+        description: "找不到 diary",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 獲取並驗證請求資料
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const diaryService = new DiaryService(
+        new FirestoreDiaryRepository(firestore)
+      );
+      const diaryController = new DiaryController(diaryService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await diaryController.getDiary(userId, data.params.id);
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        const statusCode = response.error?.includes("不能為空") ? 400 : 500;
+
+        return c.json(
+          DiaryController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      if (!response.result) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 404, message: "找不到指定的 Diary" }],
+          },
+          404
+        );
+      }
+
+      // 返回成功響應
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: DiaryRead 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
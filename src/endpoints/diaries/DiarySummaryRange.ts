@@ -0,0 +1,191 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { DailyNutritionSummaryListResponseSchema } from "../../types/diary";
+
+// 導入重構後的分層架構
+import { DiaryController } from "../../controllers/diaryController";
+import { FirestoreDailyWorkoutRepository } from "../../repositories/dailyWorkoutRepository";
+import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { DiaryService } from "../../services/diaryService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * DiarySummaryRange endpoint - 獲取日期區間的每日營養摘要
+ * DiarySummary 的區間版本，每天回傳一筆摘要（沒有記錄的日期數值為 0）
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class DiarySummaryRange extends OpenAPIRoute {
+  public schema = {
+    tags: ["Diaries"],
+    summary: "獲取日期區間的每日營養摘要",
+    description:
+      "逐日彙整區間內未刪除 diary 的熱量與三大營養素，扣除每日運動消耗，並與使用者營養目標比較（最多 93 天）",
+    operationId: "getDiarySummaryRange",
+    request: {
+      query: z.object({
+        startDate: z.string().describe("起始日期（包含），格式：YYYY-MM-DD"),
+        endDate: z.string().describe("結束日期（包含），格式：YYYY-MM-DD"),
+        timezone: z
+          .string()
+          .optional()
+          .describe(
+            "IANA 時區（例如 Asia/Taipei），用於決定 diary 所屬的當地日期；未提供時使用通知偏好中的時區"
+          ),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "成功獲取區間營養摘要",
+        content: {
+          "application/json": {
+            schema: DailyNutritionSummaryListResponseSchema.openapi({
+              description: "區間營養摘要列表回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "日期格式、日期範圍或時區錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 獲取查詢參數
+      const data = await this.getValidatedData<typeof this.schema>();
+      const { startDate, endDate, timezone } = data.query;
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const diaryRepository = new FirestoreDiaryRepository(firestore);
+      const dailyWorkoutRepository = new FirestoreDailyWorkoutRepository(
+        firestore
+      );
+      const userRepository = new FirestoreUserRepository(firestore);
+      const diaryService = new DiaryService(
+        diaryRepository,
+        undefined,
+        undefined,
+        dailyWorkoutRepository,
+        userRepository
+      );
+      const diaryController = new DiaryController(diaryService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await diaryController.getSummaryRange(
+        userId,
+        startDate,
+        endDate,
+        timezone
+      );
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        const statusCode =
+          response.error?.includes("日期格式") ||
+          response.error?.includes("日期範圍") ||
+          response.error?.includes("時區")
+            ? 400
+            : 500;
+        return c.json(
+          DiaryController.toErrorResponse(response, statusCode),
+          statusCode
+        );
+      }
+
+      // 返回成功響應
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: DiarySummaryRange 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
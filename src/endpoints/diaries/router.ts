@@ -1,12 +1,17 @@
 import { Hono } from "hono";
 import { fromHono } from "chanfana";
 import { authMiddleware } from "../../middleware/auth";
+import { aiQuotaForCapability } from "../../middleware/aiQuota";
 import { DiariesList } from "./DiariesList";
 import { DiariesWithImages } from "./DiariesWithImages";
+import { DiaryAnalyze } from "./DiaryAnalyze";
+import { DiaryRead } from "./DiaryRead";
 import { DiaryUpdate } from "./DiaryUpdate";
 import { DiaryDelete } from "./DiaryDelete";
 import { DiaryFromRecipe } from "./DiaryFromRecipe";
 import { CalculateStreak } from "./CalculateStreak";
+import { DiarySummary } from "./DiarySummary";
+import { DiarySummaryRange } from "./DiarySummaryRange";
 
 // 建立 diaries 子路由器
 export const diariesRouter = fromHono(new Hono());
@@ -15,18 +20,33 @@ export const diariesRouter = fromHono(new Hono());
 // 所有 diary 操作都需要使用者身份驗證
 diariesRouter.use("/*", authMiddleware);
 
+// 背景分析餐點圖片計入 /gemini/analyze-images 的每日 AI 額度
+diariesRouter.use("/analyze", aiQuotaForCapability("analyzeImages"));
+
 // GET /diaries - 獲取使用者的 diary 列表
 diariesRouter.get("/", DiariesList);
 
 // GET /diaries/streak - 計算使用者的連續打卡天數
 diariesRouter.get("/streak", CalculateStreak);
 
+// GET /diaries/summary - 獲取單日營養摘要（攝取、運動消耗與目標比較）
+diariesRouter.get("/summary", DiarySummary);
+
+// GET /diaries/summary/range - 獲取日期區間的每日營養摘要
+diariesRouter.get("/summary/range", DiarySummaryRange);
+
 // POST /diaries/with-images - 建立包含圖片的新 diary
 diariesRouter.post("/with-images", DiariesWithImages);
 
 // POST /diaries/from-recipe - 從食譜/食物條目建立新 diary
 diariesRouter.post("/from-recipe", DiaryFromRecipe);
 
+// POST /diaries/analyze - 建立 diary 並在背景分析餐點圖片
+diariesRouter.post("/analyze", DiaryAnalyze);
+
+// GET /diaries/:id - 獲取單一 diary（輪詢背景分析狀態）
+diariesRouter.get("/:id", DiaryRead);
+
 // PUT /diaries/:id - 更新現有的 diary
 diariesRouter.put("/:id", DiaryUpdate);
 
@@ -35,4 +55,3 @@ diariesRouter.delete("/:id", DiaryDelete);
 
 // 未來的端點規劃：
 // diariesRouter.post("/", DiaryCreate);      // 建立新的 diary（不含圖片）
-// diariesRouter.get("/:id", DiaryRead);      // 獲取單一 diary
\ No newline at end of file
@@ -5,10 +5,23 @@ import type { RevenueCatWebhookRequest } from "../../types/revenuecat";
 
 // 導入分層架構
 import { RevenueCatController } from "../../controllers/revenueCatController";
+import { D1ScheduledEmailRepository } from "../../repositories/scheduledEmailRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { D1WebhookEventRepository } from "../../repositories/webhookEventRepository";
 import EmailService from "../../services/emailService";
+import { ScheduledEmailService } from "../../services/scheduledEmailService";
+import { SubscriptionEmailService } from "../../services/subscriptionEmailService";
+import { SubscriptionService } from "../../services/subscriptionService";
+import { WebhookEventService } from "../../services/webhookEventService";
+import { getD1FromContext } from "../../utils/d1";
+import { getFirestoreFromContext } from "../../utils/firebase";
+import { verifyWebhookAuthorization } from "../../utils/webhookAuth";
 
 // RevenueCat Webhook 事件 Schema
 const RevenueCatWebhookEventSchema = z.object({
+  // 事件 ID（冪等處理）
+  id: z.string().nullable().optional(),
+
   // 必要欄位 - 根據舊專案驗證邏輯
   type: z.enum([
     'INITIAL_PURCHASE',
@@ -28,6 +41,7 @@ const RevenueCatWebhookEventSchema = z.object({
   app_user_id: z.string(),
   original_app_user_id: z.string(),
   product_id: z.string(),
+  new_product_id: z.string().nullable().optional(),
   period_type: z.enum(['NORMAL', 'TRIAL', 'INTRO']),
   purchased_at_ms: z.number(),
   expiration_at_ms: z.number(),
@@ -72,7 +86,7 @@ export class RevenueCatWebhook extends OpenAPIRoute {
     tags: ["Email"],
     summary: "處理 RevenueCat Webhook",
     description:
-      "處理來自 RevenueCat 的 Webhook 事件，特別是訂閱取消事件，自動發送回饋郵件",
+      "處理來自 RevenueCat 的 Webhook 事件：同步使用者訂閱狀態，訂閱取消事件自動發送回饋郵件",
     operationId: "handleRevenueCatWebhook",
     request: {
       body: {
@@ -97,6 +111,8 @@ export class RevenueCatWebhook extends OpenAPIRoute {
                 eventType: z.string().optional(),
                 emailSent: z.boolean().optional(),
                 emailError: z.string().optional(),
+                subscriptionUpdated: z.boolean().optional(),
+                duplicate: z.boolean().optional(),
               }).optional(),
             }),
           },
@@ -118,6 +134,39 @@ export class RevenueCatWebhook extends OpenAPIRoute {
           },
         },
       },
+      "401": {
+        description:
+          "未設定 Webhook 共享密鑰，或 Authorization header 與密鑰不符",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "409": {
+        description: "相同事件正在處理中，請稍後重送",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
       "500": {
         description: "伺服器內部錯誤",
         content: {
@@ -150,23 +199,83 @@ export class RevenueCatWebhook extends OpenAPIRoute {
         );
       }
 
-      // 2. 獲取並驗證請求資料
+      // 2. 驗證 Webhook 共享密鑰（RevenueCat 後台設定的 Authorization header）
+      // 未設定密鑰時一律拒絕，避免任何人偽造訂閱事件
+      const webhookSecret = c.env.REVENUECAT_WEBHOOK_AUTH;
+      if (!webhookSecret) {
+        console.error("REVENUECAT_WEBHOOK_AUTH 未設定，拒絕 Webhook 請求");
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Unauthorized" }],
+          },
+          401 as any
+        );
+      }
+
+      if (
+        !(await verifyWebhookAuthorization(
+          c.req.header("Authorization"),
+          webhookSecret
+        ))
+      ) {
+        console.warn("RevenueCat Webhook Authorization header 驗證失敗");
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Unauthorized" }],
+          },
+          401 as any
+        );
+      }
+
+      // 3. 獲取並驗證請求資料
       const data = await this.getValidatedData<typeof this.schema>();
       const webhookData = data.body as RevenueCatWebhookRequest;
 
-      // 3. 初始化依賴鏈（EmailService → RevenueCatController）
+      // 4. 初始化依賴鏈（EmailService、SubscriptionService、WebhookEventService、SubscriptionEmailService → RevenueCatController）
+      const db = getD1FromContext(c);
       const emailService = new EmailService();
-      const revenueCatController = new RevenueCatController(emailService);
+      const userRepository = new FirestoreUserRepository(
+        getFirestoreFromContext(c)
+      );
+      const subscriptionService = new SubscriptionService(userRepository);
+      const webhookEventService = new WebhookEventService(
+        new D1WebhookEventRepository(db)
+      );
+      const scheduledEmailService = new ScheduledEmailService(
+        new D1ScheduledEmailRepository(db),
+        emailService
+      );
+      const subscriptionEmailService = new SubscriptionEmailService(
+        emailService,
+        userRepository,
+        scheduledEmailService
+      );
+      const revenueCatController = new RevenueCatController(
+        emailService,
+        subscriptionService,
+        webhookEventService,
+        subscriptionEmailService
+      );
 
-      // 4. 調用 Controller 處理業務邏輯
+      // 5. 調用 Controller 處理業務邏輯
       const result = await revenueCatController.handleWebhook(webhookData, c.env);
 
-      // 5. 返回響應
+      // 6. 返回響應
       if (result.success) {
         return c.json({
           success: true,
           result: result.result
         }, 200);
+      } else if (result.inProgress) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 409, message: result.error }],
+          },
+          409 as any
+        );
       } else {
         return c.json(
           {
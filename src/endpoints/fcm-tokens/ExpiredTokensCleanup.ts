@@ -7,7 +7,9 @@ import { FcmTokenDeleteResponseSchema } from "../../types/fcmToken";
 // 導入分層架構
 import { FcmTokenController } from "../../controllers/fcmTokenController";
 import { FirestoreFcmTokenRepository } from "../../repositories/fcmTokenRepository";
+import { D1PushDeviceRepository } from "../../repositories/pushDeviceRepository";
 import { FcmTokenService } from "../../services/fcmTokenService";
+import { getD1FromContext } from "../../utils/d1";
 import { getFirestoreFromContext } from "../../utils/firebase";
 
 /**
@@ -116,7 +118,12 @@ export class ExpiredTokensCleanup extends OpenAPIRoute {
       // 初始化分層架構
       const firestore = getFirestoreFromContext(c);
       const fcmTokenRepository = new FirestoreFcmTokenRepository(firestore);
-      const fcmTokenService = new FcmTokenService(fcmTokenRepository);
+      const fcmTokenService = new FcmTokenService(
+        fcmTokenRepository,
+        undefined,
+        undefined,
+        new D1PushDeviceRepository(getD1FromContext(c))
+      );
       const fcmTokenController = new FcmTokenController(fcmTokenService);
 
       // 調用 Controller 層處理業務邏輯
@@ -0,0 +1,284 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { SupportedLanguage } from "../../types/gemini";
+import { BarcodeParamsSchema, ProductSchema } from "../../types/product";
+
+// 導入分層架構
+import { ProductController } from "../../controllers/productController";
+import { D1ProductRepository } from "../../repositories/productRepository";
+import { createAIService } from "../../services/aiProviderRegistry";
+import { ProductService } from "../../services/productService";
+import { getD1FromContext } from "../../utils/d1";
+
+/**
+ * ProductBarcodeFromLabel endpoint - 以營養標示照片建立未知條碼的商品
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - Firebase 認證驗證
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class ProductBarcodeFromLabel extends OpenAPIRoute {
+  public schema = {
+    tags: ["Foods"],
+    summary: "以營養標示照片建立商品",
+    description:
+      "條碼查無商品時，上傳營養標示照片由 AI 讀取名稱、品牌與營養素並存入商品資料庫，下一位掃描相同條碼的使用者即可直接查詢。條碼已存在時直接回傳既有商品",
+    operationId: "createProductFromLabel",
+    request: {
+      params: BarcodeParamsSchema,
+      body: {
+        content: {
+          "multipart/form-data": {
+            schema: z.object({
+              images: z
+                .union([z.instanceof(File), z.array(z.instanceof(File))])
+                .openapi({
+                  type: "array",
+                  items: { type: "string", format: "binary" },
+                  description:
+                    "營養標示與包裝正面圖片（支援 JPEG、PNG、GIF、WebP），最多 3 張",
+                  minItems: 1,
+                  maxItems: 3,
+                }),
+              user_language: z
+                .string()
+                .optional()
+                .default("zh_TW")
+                .openapi({
+                  description: "用戶語言代碼（預設：zh_TW）",
+                  example: "zh_TW",
+                  enum: [
+                    "zh_TW",
+                    "zh_CN",
+                    "en",
+                    "ja",
+                    "ko",
+                    "vi",
+                    "th",
+                    "ms",
+                    "id",
+                    "fr",
+                    "de",
+                    "es",
+                    "pt_BR",
+                  ],
+                }),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      "200": {
+        description: "條碼已存在，回傳既有商品",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.object({
+                product: ProductSchema,
+                created: z.boolean(),
+              }),
+            }),
+          },
+        },
+      },
+      "201": {
+        description: "成功建立商品",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.object({
+                product: ProductSchema,
+                created: z.boolean(),
+              }),
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤或無法辨識營養標示",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 1. 驗證身份 - 需要有效的 Firebase 認證
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 2. 獲取驗證後的路徑參數
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 3. 解析 multipart/form-data 並提取圖片文件
+      const formData = await c.req.formData();
+      const imageFiles: File[] = [];
+
+      for (const fileData of formData.getAll("images")) {
+        if (
+          fileData &&
+          typeof fileData === "object" &&
+          "name" in fileData &&
+          "size" in fileData &&
+          "type" in fileData
+        ) {
+          imageFiles.push(fileData as File);
+        }
+      }
+
+      const userLanguageData = formData.get("user_language");
+      const userLanguage = userLanguageData
+        ? String(userLanguageData)
+        : "zh_TW";
+
+      // 4. 初始化依賴鏈（Repository → Service → Controller）
+      const productService = new ProductService(
+        new D1ProductRepository(getD1FromContext(c)),
+        createAIService(c.env, "analyzeProductLabel")
+      );
+      const productController = new ProductController(productService);
+
+      // 5. 調用 Controller 處理業務邏輯
+      const response = await productController.createProductFromLabel(
+        userId,
+        data.params.ean,
+        imageFiles,
+        userLanguage as SupportedLanguage,
+        c.env
+      );
+
+      // 6. 檢查業務邏輯結果
+      if (!response.success) {
+        let statusCode = 500;
+        if (
+          response.error?.includes("無效") ||
+          response.error?.includes("圖片") ||
+          response.error?.includes("無法辨識") ||
+          response.error?.includes("AI 未能")
+        ) {
+          statusCode = 400;
+        }
+
+        return c.json(
+          ProductController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      // 7. 返回響應（新建立回傳 201，既有商品回傳 200）
+      return c.json(
+        {
+          success: true,
+          result: response.result,
+        },
+        response.result?.created ? 201 : 200
+      );
+    } catch (error) {
+      console.error(
+        "ProductBarcodeFromLabel endpoint - 處理請求時發生錯誤:",
+        error
+      );
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401 as any
+        );
+      }
+
+      // 處理 FormData 解析錯誤
+      if (
+        error instanceof Error &&
+        (error.message.includes("Failed to parse") ||
+          error.message.includes("multipart"))
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [
+              {
+                code: 400,
+                message:
+                  "請求格式錯誤，請使用 multipart/form-data 格式上傳圖片",
+              },
+            ],
+          },
+          400 as any
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500 as any
+      );
+    }
+  }
+}
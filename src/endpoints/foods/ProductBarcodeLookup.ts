@@ -0,0 +1,179 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import {
+  BarcodeParamsSchema,
+  ProductResponseSchema,
+} from "../../types/product";
+
+// 導入分層架構
+import { ProductController } from "../../controllers/productController";
+import { D1ProductRepository } from "../../repositories/productRepository";
+import { ProductService } from "../../services/productService";
+import { getD1FromContext } from "../../utils/d1";
+
+/**
+ * ProductBarcodeLookup endpoint - 根據條碼查詢包裝食品
+ */
+export class ProductBarcodeLookup extends OpenAPIRoute {
+  public schema = {
+    tags: ["Foods"],
+    summary: "根據條碼查詢包裝食品",
+    description:
+      "從商品資料庫查詢條碼對應的名稱、品牌、每 100g 與每份營養素。找不到時回傳 404，客戶端可改用 POST 上傳營養標示照片建立商品",
+    operationId: "getProductByBarcode",
+    request: {
+      params: BarcodeParamsSchema,
+    },
+    responses: {
+      "200": {
+        description: "成功取得商品",
+        content: {
+          "application/json": {
+            schema: ProductResponseSchema.openapi({
+              description: "商品回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤 - 條碼格式或檢查碼不正確",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "404": {
+        description: "找不到此條碼的商品",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      requireUserIdFromMiddleware(c);
+
+      // 獲取驗證後的請求資料
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const productService = new ProductService(
+        new D1ProductRepository(getD1FromContext(c))
+      );
+      const productController = new ProductController(productService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await productController.getProductByBarcode(
+        data.params.ean
+      );
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        let statusCode = 500;
+        if (response.error?.includes("無效")) {
+          statusCode = 400;
+        } else if (response.error?.includes("找不到")) {
+          statusCode = 404;
+        }
+
+        return c.json(
+          ProductController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      // 返回成功響應
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: ProductBarcodeLookup 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { fromHono } from "chanfana";
+import { Hono } from "hono";
+import { authMiddleware } from "../../middleware/auth";
+import { aiQuotaForCapability } from "../../middleware/aiQuota";
+import { ProductBarcodeFromLabel } from "./ProductBarcodeFromLabel";
+import { ProductBarcodeLookup } from "./ProductBarcodeLookup";
+
+// 建立 foods 子路由器
+export const foodsRouter = fromHono(new Hono());
+
+// 套用認證中間件到所有 foods 路由
+foodsRouter.use("/*", authMiddleware);
+
+// 以營養標示照片建立商品時計入 /gemini/analyze-label 的每日 AI 額度（GET 查詢不計量）
+foodsRouter.use("/barcode/:ean", aiQuotaForCapability("analyzeProductLabel"));
+
+// GET /foods/barcode/:ean - 根據條碼查詢包裝食品
+foodsRouter.get("/barcode/:ean", ProductBarcodeLookup);
+
+// POST /foods/barcode/:ean - 條碼未知時以營養標示照片建立商品
+foodsRouter.post("/barcode/:ean", ProductBarcodeFromLabel);
+
+// D1 資料表：products
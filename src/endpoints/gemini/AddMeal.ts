@@ -10,8 +10,7 @@ import {
 
 // 導入分層架構
 import { GeminiController } from "../../controllers/geminiController";
-import { GeminiService } from "../../services/geminiService";
-import { VertexAIService } from "../../services/vertexAIService";
+import { createAIService } from "../../services/aiProviderRegistry";
 
 /**
  * AddMeal endpoint - 分析餐點文字描述
@@ -114,8 +113,7 @@ export class AddMeal extends OpenAPIRoute {
       const { input, user_language } = data.body;
 
       // 4. 初始化依賴鏈（Service → Controller）
-      const vertexAIService = new VertexAIService();
-      const geminiService = new GeminiService();
+      const geminiService = createAIService(c.env, "analyzeMealText");
       const geminiController = new GeminiController(geminiService);
 
       // 5. 調用 Controller 處理業務邏輯
@@ -10,8 +10,7 @@ import {
 
 // 導入分層架構
 import { GeminiController } from "../../controllers/geminiController";
-import { GeminiService } from "../../services/geminiService";
-import { VertexAIService } from "../../services/vertexAIService";
+import { createAIService } from "../../services/aiProviderRegistry";
 
 /**
  * AddRecipeIngredient endpoint - 分析食譜食材文字描述（多語言版本）
@@ -115,9 +114,8 @@ export class AddRecipeIngredient extends OpenAPIRoute {
       console.log("input", input);
       console.log("user_language", user_language);
       // 3. 初始化依賴鏈（Service → Controller）
-      const geminiService = new GeminiService();
-      const vertexAIService = new VertexAIService();
-      const geminiController = new GeminiController(vertexAIService);
+      const geminiService = createAIService(c.env, "analyzeRecipeIngredient");
+      const geminiController = new GeminiController(geminiService);
 
       // 4. 驗證請求參數
       const validationError =
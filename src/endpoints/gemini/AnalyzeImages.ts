@@ -2,30 +2,39 @@ import { OpenAPIRoute } from "chanfana";
 import { z } from "zod";
 import { requireUserIdFromMiddleware } from "../../middleware/auth";
 import { AppContext } from "../../types";
-import { AnalyzeImagesResponseSchema } from "../../types/analyze";
+import { DiaryResponseSchema } from "../../types/diary";
 import { SupportedLanguage } from "../../types/gemini";
 
 // 導入分層架構
+import { DiaryAnalysisController } from "../../controllers/diaryAnalysisController";
 import { GeminiController } from "../../controllers/geminiController";
-import { GeminiService } from "../../services/geminiService";
-import { VertexAIService } from "../../services/vertexAIService";
+import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { createAIService } from "../../services/aiProviderRegistry";
+import { DiaryAnalysisService } from "../../services/diaryAnalysisService";
+import { DiaryService } from "../../services/diaryService";
+import { ImageCompressionService } from "../../services/imageCompressionService";
+import {
+  getFirestoreFromContext,
+  getStorageFromContext,
+} from "../../utils/firebase";
 
 /**
- * AnalyzeImages endpoint - 分析餐點圖片
+ * AnalyzeImages endpoint - 非同步分析餐點圖片
+ * 與 POST /diaries/analyze 相同：AI 分析在背景執行，避免 Worker 請求逾時（524）
  *
  * 職責：
  * - OpenAPI schema 定義
  * - HTTP 請求/響應處理
  * - Firebase 認證驗證
- * - 調用 Controller 層
+ * - 調用 Controller 層並以 waitUntil 執行背景分析
  * - 錯誤響應格式化
  */
 export class AnalyzeImages extends OpenAPIRoute {
   public schema = {
     tags: ["Gemini AI"],
-    summary: "分析餐點圖片",
+    summary: "非同步分析餐點圖片",
     description:
-      "使用 Gemini AI 分析用戶上傳的餐點圖片，返回詳細的營養資訊和健康評估",
+      "立即建立 status 為 uploading 的 diary 並返回 202，圖片上傳與 AI 分析在背景執行。客戶端以 GET /diaries/:id 輪詢 status（uploading → analyzing → done / failed），分析完成後營養資訊與健康評估寫入該 diary",
     operationId: "analyzeImages",
     request: {
       body: {
@@ -70,18 +79,22 @@ export class AnalyzeImages extends OpenAPIRoute {
                 example: "這是一碗大份的拉麵",
                 maxLength: 500,
               }),
+              diary_date: z.string().optional().openapi({
+                description: "Diary 日期（ISO 8601，預設：現在）",
+                example: "2025-01-15T12:30:00.000Z",
+              }),
             }),
           },
         },
       },
     },
     responses: {
-      "200": {
-        description: "成功分析圖片",
+      "202": {
+        description: "已建立 diary，分析在背景執行",
         content: {
           "application/json": {
-            schema: AnalyzeImagesResponseSchema.openapi({
-              description: "圖片分析結果",
+            schema: DiaryResponseSchema.openapi({
+              description: "uploading 狀態的 Diary 回應",
             }),
           },
         },
@@ -156,7 +169,7 @@ export class AnalyzeImages extends OpenAPIRoute {
   async handle(c: AppContext) {
     try {
       // 1. 驗證身份 - 需要有效的 Firebase 認證
-      requireUserIdFromMiddleware(c);
+      const userId = requireUserIdFromMiddleware(c);
 
       // 2. 解析 multipart/form-data
       const formData = await c.req.formData();
@@ -180,23 +193,35 @@ export class AnalyzeImages extends OpenAPIRoute {
       // 4. 提取其他參數
       const userLanguageData = formData.get("user_language");
       const userInputData = formData.get("user_input");
+      const diaryDateData = formData.get("diary_date");
 
       const userLanguage = userLanguageData
         ? String(userLanguageData)
         : "zh_TW";
       const userInput = userInputData ? String(userInputData) : null;
+      const diaryDate = diaryDateData
+        ? new Date(String(diaryDateData))
+        : new Date();
 
-      // 5. 初始化依賴鏈（Service → Controller）
-      const isDev = c.env.NODE_ENV === "development";
-      const geminiService = isDev ? new GeminiService() : new VertexAIService();
+      // 5. 初始化依賴鏈（Repository → Service → Controller）
+      const geminiService = createAIService(c.env, "analyzeImages");
       const geminiController = new GeminiController(geminiService);
 
-      // 6. 驗證請求參數
-      const validationError = geminiController.validateAnalyzeRequest(
-        imageFiles,
-        userLanguage
+      const diaryService = new DiaryService(
+        new FirestoreDiaryRepository(getFirestoreFromContext(c)),
+        new ImageCompressionService(),
+        getStorageFromContext(c)
+      );
+      const diaryAnalysisController = new DiaryAnalysisController(
+        new DiaryAnalysisService(diaryService, geminiService)
       );
 
+      // 6. 驗證請求參數
+      const validationError =
+        geminiController.validateAnalyzeRequest(imageFiles, userLanguage) ||
+        geminiController.validateUserInput(userInput) ||
+        (isNaN(diaryDate.getTime()) ? "無效的 diary 日期" : null);
+
       if (validationError) {
         return c.json(
           {
@@ -212,50 +237,34 @@ export class AnalyzeImages extends OpenAPIRoute {
         );
       }
 
-      // 7. 驗證用戶輸入
-      const inputValidationError =
-        geminiController.validateUserInput(userInput);
-
-      if (inputValidationError) {
-        return c.json(
-          {
-            success: false,
-            errors: [
-              {
-                code: 400,
-                message: inputValidationError,
-              },
-            ],
-          },
-          400
-        );
-      }
-
-      // 8. 調用 Controller 處理業務邏輯
-      const result = await geminiController.analyzeImages(
+      // 7. 建立 diary 並排程背景分析
+      const response = await diaryAnalysisController.startImageAnalysis(
+        userId,
         imageFiles,
         userLanguage as SupportedLanguage,
+        userInput,
+        diaryDate,
         c.env,
-        userInput
+        (promise) => c.executionCtx.waitUntil(promise)
       );
 
-      // 9. 返回響應
-      if (result.success) {
-        return c.json(result, 200);
-      } else {
+      // 8. 返回響應（分析尚未完成）
+      if (!response.success) {
+        const statusCode = response.error?.includes("不能為空") ? 400 : 500;
+
         return c.json(
-          {
-            success: false,
-            errors: [
-              {
-                code: 400,
-                message: result.error || "分析圖片時發生錯誤",
-              },
-            ],
-          },
-          400
+          DiaryAnalysisController.toErrorResponse(response, statusCode),
+          statusCode as any
         );
       }
+
+      return c.json(
+        {
+          success: true,
+          result: response.result,
+        },
+        202
+      );
     } catch (error) {
       console.error("AnalyzeImages endpoint - 處理請求時發生錯誤:", error);
 
@@ -0,0 +1,331 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { AnalyzeLabelResponseSchema } from "../../types/analyze";
+import { SupportedLanguage } from "../../types/gemini";
+
+// 導入分層架構
+import { GeminiController } from "../../controllers/geminiController";
+import { createAIService } from "../../services/aiProviderRegistry";
+
+/**
+ * AnalyzeLabel endpoint - 分析包裝食品營養標示
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - Firebase 認證驗證
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class AnalyzeLabel extends OpenAPIRoute {
+  public schema = {
+    tags: ["Gemini AI"],
+    summary: "分析營養標示圖片",
+    description:
+      "使用 Gemini AI 讀取包裝食品的營養標示（支援美國 FDA、歐盟、台灣、日本等格式），返回每份與每 100g 營養素，並依用戶選擇的份數或食用量計算實際攝取的營養素",
+    operationId: "analyzeLabel",
+    request: {
+      body: {
+        content: {
+          "multipart/form-data": {
+            schema: z.object({
+              images: z
+                .union([z.instanceof(File), z.array(z.instanceof(File))])
+                .openapi({
+                  type: "array",
+                  items: { type: "string", format: "binary" },
+                  description:
+                    "營養標示與包裝正面圖片（支援 JPEG、PNG、GIF、WebP），最多 5 張",
+                  minItems: 1,
+                  maxItems: 5,
+                }),
+              user_language: z
+                .string()
+                .optional()
+                .default("zh_TW")
+                .openapi({
+                  description: "用戶語言代碼（預設：zh_TW）",
+                  example: "zh_TW",
+                  enum: [
+                    "zh_TW",
+                    "zh_CN",
+                    "en",
+                    "ja",
+                    "ko",
+                    "vi",
+                    "th",
+                    "ms",
+                    "id",
+                    "fr",
+                    "de",
+                    "es",
+                    "pt_BR",
+                  ],
+                }),
+              servings: z.string().optional().default("1").openapi({
+                description: "食用份數（預設：1，可為小數，最多 20 份）",
+                example: "1.5",
+              }),
+              amount: z.string().optional().openapi({
+                description:
+                  "食用重量或容量（g/ml，可選），提供時優先於 servings",
+                example: "45",
+              }),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      "200": {
+        description: "成功分析營養標示",
+        content: {
+          "application/json": {
+            schema: AnalyzeLabelResponseSchema.openapi({
+              description: "營養標示分析結果",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "413": {
+        description: "請求實體過大 - 圖片文件過大",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器內部錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: AppContext) {
+    try {
+      // 1. 驗證身份 - 需要有效的 Firebase 認證
+      requireUserIdFromMiddleware(c);
+
+      // 2. 解析 multipart/form-data
+      const formData = await c.req.formData();
+
+      // 3. 提取並驗證圖片文件
+      const imageFilesData = formData.getAll("images");
+      const imageFiles: File[] = [];
+
+      for (const fileData of imageFilesData) {
+        if (
+          fileData &&
+          typeof fileData === "object" &&
+          "name" in fileData &&
+          "size" in fileData &&
+          "type" in fileData
+        ) {
+          imageFiles.push(fileData as File);
+        }
+      }
+
+      // 4. 提取其他參數
+      const userLanguageData = formData.get("user_language");
+      const servingsData = formData.get("servings");
+      const amountData = formData.get("amount");
+
+      const userLanguage = userLanguageData
+        ? String(userLanguageData)
+        : "zh_TW";
+      const servings = servingsData ? Number(servingsData) : 1;
+      const amount = amountData ? Number(amountData) : null;
+
+      // 5. 初始化依賴鏈（Service → Controller）
+      const geminiService = createAIService(c.env, "analyzeProductLabel");
+      const geminiController = new GeminiController(geminiService);
+
+      // 6. 驗證請求參數
+      const validationError = geminiController.validateAnalyzeRequest(
+        imageFiles,
+        userLanguage
+      );
+
+      if (validationError) {
+        return c.json(
+          {
+            success: false,
+            errors: [
+              {
+                code: 400,
+                message: validationError,
+              },
+            ],
+          },
+          400
+        );
+      }
+
+      // 7. 驗證食用量
+      const inputValidationError = geminiController.validateLabelIntake(
+        servings,
+        amount
+      );
+
+      if (inputValidationError) {
+        return c.json(
+          {
+            success: false,
+            errors: [
+              {
+                code: 400,
+                message: inputValidationError,
+              },
+            ],
+          },
+          400
+        );
+      }
+
+      // 8. 調用 Controller 處理業務邏輯
+      const result = await geminiController.analyzeLabel(
+        imageFiles,
+        userLanguage as SupportedLanguage,
+        servings,
+        amount,
+        c.env
+      );
+
+      // 9. 返回響應
+      if (result.success) {
+        return c.json(result, 200);
+      } else {
+        return c.json(
+          {
+            success: false,
+            errors: [
+              {
+                code: 400,
+                message: result.error || "分析營養標示時發生錯誤",
+              },
+            ],
+          },
+          400
+        );
+      }
+    } catch (error) {
+      console.error("AnalyzeLabel endpoint - 處理請求時發生錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401 as any
+        );
+      }
+
+      // 處理文件大小錯誤
+      if (
+        error instanceof Error &&
+        error.message.includes("exceeds maximum size")
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [
+              { code: 413, message: "圖片文件過大，請上傳小於 10MB 的圖片" },
+            ],
+          },
+          413 as any
+        );
+      }
+
+      // 處理 FormData 解析錯誤
+      if (
+        error instanceof Error &&
+        (error.message.includes("Failed to parse") ||
+          error.message.includes("multipart"))
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [
+              {
+                code: 400,
+                message:
+                  "請求格式錯誤，請使用 multipart/form-data 格式上傳圖片",
+              },
+            ],
+          },
+          400 as any
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500 as any
+      );
+    }
+  }
+}
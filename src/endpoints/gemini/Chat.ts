@@ -2,11 +2,22 @@ import { OpenAPIRoute } from "chanfana";
 import { z } from "zod";
 import { requireUserIdFromMiddleware } from "../../middleware/auth";
 import { AppContext } from "../../types";
-import { ChatRequestSchema, ChatResponseSchema } from "../../types/chat";
+import {
+  ChatRequestSchema,
+  ChatResponseSchema,
+  resolveUserDataSource,
+  UserData,
+} from "../../types/chat";
 
 // 導入分層架構
 import { AIChatController } from "../../controllers/aiChatController";
-import { AIChatService } from "../../services/aiChatService";
+import { FirestoreDailyWorkoutRepository } from "../../repositories/dailyWorkoutRepository";
+import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { FirestoreWeightRepository } from "../../repositories/weightRepository";
+import { createAIChatService } from "../../services/aiProviderRegistry";
+import { TrendsService } from "../../services/trendsService";
+import { getFirestoreFromContext } from "../../utils/firebase";
 
 /**
  * Chat endpoint - 處理 AI 聊天和健康報告生成
@@ -24,7 +35,7 @@ export class Chat extends OpenAPIRoute {
     tags: ["Gemini AI"],
     summary: "AI 聊天和健康報告生成",
     description:
-      "使用 Gemini AI 處理聊天對話，可以生成健康報告或進行對話式問答，支援串流和非串流模式",
+      "使用 Gemini AI 處理聊天對話，可以生成健康報告或進行對話式問答，支援串流和非串流模式。dataSource 為 server 時（生成健康報告的預設值），由伺服器從 Firestore 組成最近 reportDays 天的用戶數據，忽略請求中的 userData",
     operationId: "chat",
     request: {
       body: {
@@ -112,8 +123,12 @@ export class Chat extends OpenAPIRoute {
       // 2. 獲取並驗證請求資料
       const data = await this.getValidatedData<typeof this.schema>();
 
-      const { input, userData, user_language, historyJson, generateReport } =
+      const { input, user_language, historyJson, generateReport, reportDays } =
         data.body;
+      const dataSource = resolveUserDataSource(
+        data.body.dataSource,
+        generateReport
+      );
 
       // 3. 處理可選的 input 參數
       const userInput = input || "";
@@ -126,19 +141,56 @@ export class Chat extends OpenAPIRoute {
         history = [];
       }
 
-      // 5. 建立聊天數據
+      // 5. 初始化依賴鏈（Repository → Service → Controller）
+      const aiChatService = createAIChatService(c.env);
+      let trendsService: TrendsService | undefined;
+      if (dataSource === "server") {
+        const firestore = getFirestoreFromContext(c);
+        trendsService = new TrendsService(
+          new FirestoreDiaryRepository(firestore),
+          new FirestoreDailyWorkoutRepository(firestore),
+          new FirestoreWeightRepository(firestore),
+          new FirestoreUserRepository(firestore)
+        );
+      }
+      const aiChatController = new AIChatController(
+        aiChatService,
+        trendsService
+      );
+
+      // 6. 取得用戶數據（server 模式由 Firestore 組成，不信任客戶端上傳的數據）
+      let userData = data.body.userData;
+      if (dataSource === "server") {
+        const userDataResult = await aiChatController.buildServerUserData(
+          userId,
+          reportDays
+        );
+        if (!userDataResult.success || !userDataResult.result) {
+          return c.json(
+            {
+              success: false,
+              errors: [
+                {
+                  code: 500,
+                  message: userDataResult.error || "組成用戶數據失敗",
+                },
+              ],
+            },
+            500
+          );
+        }
+        userData = userDataResult.result;
+      }
+
+      // 建立聊天數據
       const chatData = {
         userInput: userInput,
-        userData: userData,
+        userData: userData as UserData,
         userLanguage: user_language,
         history: history,
         generateReport: generateReport,
       };
 
-      // 6. 初始化依賴鏈（Service → Controller）
-      const aiChatService = new AIChatService();
-      const aiChatController = new AIChatController(aiChatService);
-
       // 7. 驗證聊天數據
       const validationError = aiChatController.validateChatRequest(chatData);
       if (validationError) {
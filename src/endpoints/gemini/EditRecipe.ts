@@ -9,7 +9,7 @@ import {
 
 // 導入分層架構
 import { GeminiController } from "../../controllers/geminiController";
-import { VertexAIService } from "../../services/vertexAIService";
+import { createAIService } from "../../services/aiProviderRegistry";
 
 /**
  * EditRecipe endpoint - 編輯食譜並提供多語言翻譯
@@ -198,8 +198,8 @@ export class EditRecipe extends OpenAPIRoute {
       }
 
       // 6. 初始化依賴鏈（Service → Controller）
-      const vertexAIService = new VertexAIService();
-      const geminiController = new GeminiController(vertexAIService);
+      const geminiService = createAIService(c.env, "editRecipe");
+      const geminiController = new GeminiController(geminiService);
 
       // 7. 調用 Controller 處理業務邏輯
       const result = await geminiController.editRecipe(
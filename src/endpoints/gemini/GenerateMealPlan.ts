@@ -0,0 +1,205 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import {
+  GenerateMealPlanRequestSchema,
+  GenerateMealPlanResponseSchema,
+} from "../../types/gemini";
+
+// 導入分層架構
+import { GeminiController } from "../../controllers/geminiController";
+import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { FirestoreFavFoodRepository } from "../../repositories/favFoodRepository";
+import { FirestoreMealPlanRepository } from "../../repositories/mealPlanRepository";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { createAIService } from "../../services/aiProviderRegistry";
+import { DiaryService } from "../../services/diaryService";
+import { MealPlanService } from "../../services/mealPlanService";
+import { RecipeService } from "../../services/recipeService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * GenerateMealPlan endpoint - AI 生成多日餐點計畫
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - Firebase 認證驗證
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class GenerateMealPlan extends OpenAPIRoute {
+  public schema = {
+    tags: ["Gemini AI"],
+    summary: "AI 生成餐點計畫",
+    description:
+      "依使用者的熱量與三大營養素目標、體重目標（GoalType）及飲食偏好標籤，使用 Gemini AI 生成多日餐點計畫。優先使用使用者的收藏食物，其次為公開食譜；引用候選餐點時營養素以伺服器資料重新計算，回傳的 sourceType/sourceId 可直接用於 POST /meal-plans 儲存",
+    operationId: "generateMealPlan",
+    request: {
+      body: {
+        content: {
+          "application/json": {
+            schema: GenerateMealPlanRequestSchema.openapi({
+              description: "餐點計畫生成請求",
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      "200": {
+        description: "成功生成餐點計畫",
+        content: {
+          "application/json": {
+            schema: GenerateMealPlanResponseSchema.openapi({
+              description: "餐點計畫生成結果",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器內部錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: AppContext) {
+    try {
+      // 1. 驗證身份 - 需要有效的 Firebase 認證
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 2. 獲取並驗證請求資料
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 3. 初始化依賴鏈（Repository → Service → Controller）
+      const firestore = getFirestoreFromContext(c);
+      const recipeService = new RecipeService(
+        new FirestoreRecipeRepository(firestore)
+      );
+      const mealPlanService = new MealPlanService(
+        new FirestoreMealPlanRepository(firestore),
+        recipeService,
+        new FirestoreFavFoodRepository(firestore),
+        new FirestoreUserRepository(firestore),
+        new DiaryService(
+          new FirestoreDiaryRepository(firestore),
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          recipeService
+        )
+      );
+      const geminiService = createAIService(c.env, "generateMealPlan");
+      const geminiController = new GeminiController(
+        geminiService,
+        mealPlanService
+      );
+
+      // 4. 調用 Controller 處理業務邏輯
+      const result = await geminiController.generateMealPlan(
+        userId,
+        data.body,
+        c.env
+      );
+
+      // 5. 返回響應
+      if (result.success) {
+        return c.json(result, 200);
+      } else {
+        // 資料組成或 AI 調用失敗屬於伺服器錯誤，其餘為請求內容無法生成計畫
+        const statusCode =
+          result.error?.includes("生成餐點計畫失敗") ||
+          result.error?.includes("組成餐點計畫生成資料失敗")
+            ? 500
+            : 400;
+
+        return c.json(
+          {
+            success: false,
+            errors: [
+              {
+                code: statusCode,
+                message: result.error || "生成餐點計畫時發生錯誤",
+              },
+            ],
+          },
+          statusCode as any
+        );
+      }
+    } catch (error) {
+      console.error("GenerateMealPlan endpoint - 處理請求時發生錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401 as any
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500 as any
+      );
+    }
+  }
+}
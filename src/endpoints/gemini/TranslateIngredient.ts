@@ -6,7 +6,7 @@ import { TranslateIngredientResponseSchema } from "../../types/gemini";
 
 // 導入分層架構
 import { GeminiController } from "../../controllers/geminiController";
-import { GeminiService } from "../../services/geminiService";
+import { createAIService } from "../../services/aiProviderRegistry";
 
 /**
  * TranslateIngredient endpoint - 翻譯食材名稱
@@ -117,11 +117,7 @@ export class TranslateIngredient extends OpenAPIRoute {
       const userInput = requestBody.input;
 
       // 4. 初始化依賴鏈（Service → Controller）
-      // const isDev = c.env.NODE_ENV === "development";
-      // const geminiService = isDev ? new GeminiService() : new VertexAIService();
-      //有時候會有錯誤 User location is not supported for the API use.
-      // const vertexAIService = new VertexAIService();
-      const geminiService = new GeminiService();
+      const geminiService = createAIService(c.env, "translateIngredient");
       const geminiController = new GeminiController(geminiService);
 
       // 5. 驗證請求參數
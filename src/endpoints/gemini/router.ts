@@ -1,14 +1,17 @@
 import { fromHono } from "chanfana";
 import { Hono } from "hono";
 import { authMiddleware } from "../../middleware/auth";
+import { aiQuotaMiddleware } from "../../middleware/aiQuota";
 import { AddMeal } from "./AddMeal";
 import { AnalyzeImages } from "./AnalyzeImages";
+import { AnalyzeLabel } from "./AnalyzeLabel";
 import { AddRecipe } from "./AddRecipe";
 import { AddIngredient } from "./AddIngredient";
 import { AddRecipeIngredient } from "./AddRecipeIngredient";
 import { EditRecipe } from "./EditRecipe";
 import { Chat } from "./Chat";
 import { TranslateIngredient } from "./TranslateIngredient";
+import { GenerateMealPlan } from "./GenerateMealPlan";
 import type { Env } from "../../bindings";
 
 // 創建 Gemini AI 相關的子路由
@@ -18,6 +21,9 @@ const app = new Hono<{ Bindings: Env }>();
 // 確保只有通過 Firebase 認證的用戶才能訪問 Gemini AI 功能
 app.use("*", authMiddleware);
 
+// 依使用者方案（RevenueCat entitlements）限制每日 AI 使用次數，超過時返回 429
+app.use("*", aiQuotaMiddleware);
+
 // 設置 OpenAPI 路由
 const geminiRouter = fromHono(app, {
   schema: {
@@ -35,6 +41,9 @@ geminiRouter.post("/add-meal", AddMeal);
 // 註冊 AnalyzeImages endpoint
 geminiRouter.post("/analyze-images", AnalyzeImages);
 
+// 註冊 AnalyzeLabel endpoint
+geminiRouter.post("/analyze-label", AnalyzeLabel);
+
 // 註冊 AddRecipe endpoint
 geminiRouter.post("/add-recipe", AddRecipe);
 
@@ -53,5 +62,8 @@ geminiRouter.post("/chat", Chat);
 // 註冊 TranslateIngredient endpoint
 geminiRouter.post("/translate-ingredient", TranslateIngredient);
 
+// 註冊 GenerateMealPlan endpoint
+geminiRouter.post("/generate-meal-plan", GenerateMealPlan);
+
 // 匯出 router 供主應用使用
 export { geminiRouter };
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+
+// 導入分層架構
+import { MealPlanController } from "../../controllers/mealPlanController";
+import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { FirestoreFavFoodRepository } from "../../repositories/favFoodRepository";
+import { FirestoreMealPlanRepository } from "../../repositories/mealPlanRepository";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { DiaryService } from "../../services/diaryService";
+import { MealPlanService } from "../../services/mealPlanService";
+import { RecipeService } from "../../services/recipeService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * MealPlanEntryDelete endpoint - 刪除餐點計畫項目
+ */
+export class MealPlanEntryDelete extends OpenAPIRoute {
+  public schema = {
+    tags: ["MealPlans"],
+    summary: "刪除餐點計畫項目",
+    description: "刪除餐點計畫項目（物理刪除），已記錄的 diary 不受影響",
+    operationId: "deleteMealPlanEntry",
+    request: {
+      params: z.object({
+        id: z.string().describe("餐點計畫項目 ID"),
+      }),
+    },
+    responses: {
+      "204": {
+        description: "成功刪除餐點計畫項目（無內容回傳）",
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "404": {
+        description: "找不到餐點計畫項目",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 獲取驗證後的請求資料
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const recipeService = new RecipeService(
+        new FirestoreRecipeRepository(firestore)
+      );
+      const diaryService = new DiaryService(
+        new FirestoreDiaryRepository(firestore),
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        recipeService
+      );
+      const mealPlanService = new MealPlanService(
+        new FirestoreMealPlanRepository(firestore),
+        recipeService,
+        new FirestoreFavFoodRepository(firestore),
+        new FirestoreUserRepository(firestore),
+        diaryService
+      );
+      const mealPlanController = new MealPlanController(mealPlanService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await mealPlanController.deleteEntry(
+        userId,
+        data.params.id
+      );
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        let statusCode = 500;
+        if (response.error?.includes("不能為空")) {
+          statusCode = 400;
+        } else if (response.error?.includes("找不到")) {
+          statusCode = 404;
+        }
+
+        return c.json(
+          MealPlanController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      // 返回成功響應（204 No Content）
+      return c.body(null, 204);
+    } catch (error) {
+      console.error("Endpoint: MealPlanEntryDelete 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import {
+  MealPlanDayListResponseSchema,
+  MealPlanQuerySchema,
+} from "../../types/mealPlan";
+
+// 導入分層架構
+import { MealPlanController } from "../../controllers/mealPlanController";
+import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { FirestoreFavFoodRepository } from "../../repositories/favFoodRepository";
+import { FirestoreMealPlanRepository } from "../../repositories/mealPlanRepository";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { DiaryService } from "../../services/diaryService";
+import { MealPlanService } from "../../services/mealPlanService";
+import { RecipeService } from "../../services/recipeService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * MealPlansList endpoint - 獲取餐點計畫
+ */
+export class MealPlansList extends OpenAPIRoute {
+  public schema = {
+    tags: ["MealPlans"],
+    summary: "獲取餐點計畫",
+    description:
+      "取得日期區間內每一天的早餐/午餐/晚餐/點心計畫，並與使用者的每日營養目標比較預估攝取量。預設為今天起 7 天，最多 31 天",
+    operationId: "getMealPlans",
+    request: {
+      query: MealPlanQuerySchema,
+    },
+    responses: {
+      "200": {
+        description: "成功取得餐點計畫",
+        content: {
+          "application/json": {
+            schema: MealPlanDayListResponseSchema.openapi({
+              description: "每日餐點計畫列表回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 獲取驗證後的請求資料
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const recipeService = new RecipeService(
+        new FirestoreRecipeRepository(firestore)
+      );
+      const diaryService = new DiaryService(
+        new FirestoreDiaryRepository(firestore),
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        recipeService
+      );
+      const mealPlanService = new MealPlanService(
+        new FirestoreMealPlanRepository(firestore),
+        recipeService,
+        new FirestoreFavFoodRepository(firestore),
+        new FirestoreUserRepository(firestore),
+        diaryService
+      );
+      const mealPlanController = new MealPlanController(mealPlanService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await mealPlanController.getMealPlan(
+        userId,
+        data.query.startDate,
+        data.query.endDate
+      );
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        let statusCode = 500;
+        if (
+          response.error?.includes("不能為空") ||
+          response.error?.includes("無效")
+        ) {
+          statusCode = 400;
+        }
+
+        return c.json(
+          MealPlanController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      // 返回成功響應
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: MealPlansList 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
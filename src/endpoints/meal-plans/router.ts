@@ -0,0 +1,31 @@
+import { fromHono } from "chanfana";
+import { Hono } from "hono";
+import { authMiddleware } from "../../middleware/auth";
+import { MealPlanEntryCreate } from "./MealPlanEntryCreate";
+import { MealPlanEntryDelete } from "./MealPlanEntryDelete";
+import { MealPlanEntryLog } from "./MealPlanEntryLog";
+import { MealPlanEntryUpdate } from "./MealPlanEntryUpdate";
+import { MealPlansList } from "./MealPlansList";
+
+// 建立 mealPlans 子路由器
+export const mealPlansRouter = fromHono(new Hono());
+
+// 套用認證中間件到所有 mealPlans 路由
+mealPlansRouter.use("/*", authMiddleware);
+
+// GET /meal-plans - 獲取日期區間內的餐點計畫與預估營養
+mealPlansRouter.get("/", MealPlansList);
+
+// POST /meal-plans - 將食譜或收藏食物安排到指定日期的餐別
+mealPlansRouter.post("/", MealPlanEntryCreate);
+
+// PUT /meal-plans/:id - 更新餐點計畫項目的日期、餐別或份數
+mealPlansRouter.put("/:id", MealPlanEntryUpdate);
+
+// DELETE /meal-plans/:id - 刪除餐點計畫項目（物理刪除）
+mealPlansRouter.delete("/:id", MealPlanEntryDelete);
+
+// POST /meal-plans/:id/log - 將餐點計畫項目記錄為 diary
+mealPlansRouter.post("/:id/log", MealPlanEntryLog);
+
+// Firebase 集合路徑：users/{userId}/meal_plans
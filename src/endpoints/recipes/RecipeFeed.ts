@@ -0,0 +1,116 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { AppContext } from "../../types";
+import {
+  RecipeFeedQuerySchema,
+  RecipeFeedResponseSchema,
+} from "../../types/recipe";
+
+// 導入分層架構
+import { RecipeController } from "../../controllers/recipeController";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { RecipeService } from "../../services/recipeService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * RecipeFeed endpoint - 取得公開食譜動態牆
+ * 支援游標分頁、標籤群組篩選、營養範圍篩選與排序
+ */
+export class RecipeFeed extends OpenAPIRoute {
+  public schema = {
+    tags: ["Recipes"],
+    summary: "取得公開食譜動態牆",
+    description:
+      "分頁取得公開食譜，可依標籤群組（mealType、dietType、dishType、cuisine）、熱量、蛋白質、製作時間與難易度篩選，並依最新或最多收藏排序。回傳的 nextCursor 用於取得下一頁，為 null 時代表沒有更多資料",
+    operationId: "getRecipeFeed",
+    request: {
+      query: RecipeFeedQuerySchema,
+    },
+    responses: {
+      "200": {
+        description: "成功取得公開食譜動態牆",
+        content: {
+          "application/json": {
+            schema: RecipeFeedResponseSchema.openapi({
+              description: "公開食譜動態牆回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 獲取驗證後的查詢參數
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const recipeRepository = new FirestoreRecipeRepository(firestore);
+      const recipeService = new RecipeService(recipeRepository);
+      const recipeController = new RecipeController(recipeService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await recipeController.getPublicRecipeFeed(data.query);
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        const statusCode = response.error?.includes("無效") ? 400 : 500;
+        return c.json(
+          RecipeController.toErrorResponse(response, statusCode),
+          statusCode
+        );
+      }
+
+      // 返回成功響應
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: RecipeFeed 處理錯誤:", error);
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
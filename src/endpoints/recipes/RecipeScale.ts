@@ -0,0 +1,151 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { AppContext } from "../../types";
+import {
+  RecipeScaleQuerySchema,
+  ScaledRecipeResponseSchema,
+} from "../../types/recipe";
+
+// 導入分層架構
+import { RecipeController } from "../../controllers/recipeController";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { RecipeService } from "../../services/recipeService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * RecipeScale endpoint - 依目標份數縮放食譜
+ * 回傳食材份量與營養素已縮放的食譜，以及每份營養素
+ */
+export class RecipeScale extends OpenAPIRoute {
+  public schema = {
+    tags: ["Recipes"],
+    summary: "依份數縮放食譜",
+    description:
+      "根據目標份數縮放食譜的每個食材份量、熱量與三大營養素，並回傳每份營養素",
+    operationId: "scaleRecipe",
+    request: {
+      params: z.object({
+        id: z.string().describe("食譜 ID"),
+      }),
+      query: RecipeScaleQuerySchema,
+    },
+    responses: {
+      "200": {
+        description: "成功縮放食譜",
+        content: {
+          "application/json": {
+            schema: ScaledRecipeResponseSchema.openapi({
+              description: "縮放後的食譜回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "404": {
+        description: "找不到食譜",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 獲取請求資料
+      const data = await this.getValidatedData<typeof this.schema>();
+      const { id: recipeId } = data.params;
+      const { servings } = data.query;
+
+      // 初始化分層架構（不需要圖片服務）
+      const firestore = getFirestoreFromContext(c);
+      const recipeRepository = new FirestoreRecipeRepository(firestore);
+      const recipeService = new RecipeService(recipeRepository);
+      const recipeController = new RecipeController(recipeService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await recipeController.scaleRecipe(recipeId, servings);
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        if (response.error?.includes("找不到")) {
+          return c.json(
+            {
+              success: false,
+              errors: [{ code: 404, message: "Recipe not found" }],
+            },
+            404
+          );
+        }
+
+        const statusCode =
+          response.error?.includes("不能為空") ||
+          response.error?.includes("份數")
+            ? 400
+            : 500;
+        return c.json(
+          RecipeController.toErrorResponse(response, statusCode),
+          statusCode
+        );
+      }
+
+      // 返回成功響應
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: RecipeScale 處理錯誤:", error);
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { AppContext } from "../../types";
+import {
+  RecipeSearchQuerySchema,
+  RecipeListResponseSchema,
+} from "../../types/recipe";
+
+// 導入分層架構
+import { RecipeController } from "../../controllers/recipeController";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { RecipeService } from "../../services/recipeService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * RecipeSearch endpoint - 多語言全文搜尋公開食譜
+ * 支援所有語言的名稱、描述與食材名稱，包含中日韓與泰文
+ */
+export class RecipeSearch extends OpenAPIRoute {
+  public schema = {
+    tags: ["Recipes"],
+    summary: "搜尋公開食譜",
+    description:
+      "以關鍵字搜尋公開食譜，會比對名稱、描述與食材名稱的所有語言版本，結果依相關度排序（名稱 > 食材 > 描述）",
+    operationId: "searchRecipes",
+    request: {
+      query: RecipeSearchQuerySchema,
+    },
+    responses: {
+      "200": {
+        description: "成功搜尋公開食譜",
+        content: {
+          "application/json": {
+            schema: RecipeListResponseSchema.openapi({
+              description: "食譜搜尋結果回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 獲取驗證後的查詢參數
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const recipeRepository = new FirestoreRecipeRepository(firestore);
+      const recipeService = new RecipeService(recipeRepository);
+      const recipeController = new RecipeController(recipeService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await recipeController.searchRecipes(
+        data.query.q,
+        data.query.limit
+      );
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        const statusCode = response.error?.includes("無效") ? 400 : 500;
+        return c.json(
+          RecipeController.toErrorResponse(response, statusCode),
+          statusCode
+        );
+      }
+
+      // 返回成功響應
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: RecipeSearch 處理錯誤:", error);
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
@@ -7,6 +7,9 @@ import { RecipeCreate } from "./RecipeCreate";
 import { RecipeUpdate } from "./RecipeUpdate";
 import { RecipeDetail } from "./RecipeDetail";
 import { RecipesList } from "./RecipesList";
+import { RecipeFeed } from "./RecipeFeed";
+import { RecipeSearch } from "./RecipeSearch";
+import { RecipeScale } from "./RecipeScale";
 import { MyRecipesList } from "./MyRecipesList";
 import { RecipeDelete } from "./RecipeDelete";
 import { FavoriteRecipeCreate } from "./FavoriteRecipeCreate";
@@ -20,9 +23,18 @@ export const recipesRouter = fromHono(new Hono());
 // GET /recipes - 獲取所有公開食譜
 recipesRouter.get("/", RecipesList);
 
+// GET /recipes/feed - 分頁、篩選與排序的公開食譜動態牆
+recipesRouter.get("/feed", RecipeFeed);
+
+// GET /recipes/search - 多語言全文搜尋公開食譜
+recipesRouter.get("/search", RecipeSearch);
+
 // GET /recipes/:id - 獲取單一食譜詳情（但需要避免與其他路由衝突）
 recipesRouter.get("/detail/:id", RecipeDetail);
 
+// GET /recipes/scale/:id?servings=1.5 - 依目標份數縮放食譜
+recipesRouter.get("/scale/:id", RecipeScale);
+
 // 需要認證的端點 - 先定義這些路由
 const authRecipesRouter = fromHono(new Hono());
 
@@ -57,6 +69,4 @@ recipesRouter.route("/", authRecipesRouter);
 
 // 未來可擴展的端點：
 // recipesRouter.delete("/:id/favorites", authMiddleware, FavoriteRecipeDelete);  // 移除收藏
-// recipesRouter.get("/search", RecipeSearch);                                    // 搜尋食譜
-// recipesRouter.get("/tags/:tag", RecipesByTag);                                // 按標籤篩選
 // recipesRouter.get("/user/:userId", UserRecipes);                              // 特定使用者的公開食譜
\ No newline at end of file
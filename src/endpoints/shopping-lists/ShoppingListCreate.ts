@@ -0,0 +1,207 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import {
+  CreateShoppingListSchema,
+  ShoppingListResponseSchema,
+} from "../../types/shoppingList";
+
+// 導入分層架構
+import { ShoppingListController } from "../../controllers/shoppingListController";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { FirestoreShoppingListRepository } from "../../repositories/shoppingListRepository";
+import { RecipeService } from "../../services/recipeService";
+import { ShoppingListService } from "../../services/shoppingListService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * ShoppingListCreate endpoint - 從多個食譜產生購物清單
+ */
+export class ShoppingListCreate extends OpenAPIRoute {
+  public schema = {
+    tags: ["ShoppingLists"],
+    summary: "從食譜產生購物清單",
+    description:
+      "依照選擇的食譜與份數縮放食材，以英文名稱合併相同食材並統一單位（g/kg、ml/L、杯、大匙、小匙、個），儲存為使用者的購物清單",
+    operationId: "createShoppingList",
+    request: {
+      body: {
+        content: {
+          "application/json": {
+            schema: CreateShoppingListSchema.openapi({
+              description: "食譜 ID 與份數",
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      "201": {
+        description: "成功建立購物清單",
+        content: {
+          "application/json": {
+            schema: ShoppingListResponseSchema.openapi({
+              description: "建立的購物清單回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "404": {
+        description: "找不到購物清單",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 獲取驗證後的請求資料
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const shoppingListRepository = new FirestoreShoppingListRepository(
+        firestore
+      );
+      const recipeService = new RecipeService(
+        new FirestoreRecipeRepository(firestore)
+      );
+      const shoppingListService = new ShoppingListService(
+        shoppingListRepository,
+        recipeService
+      );
+      const shoppingListController = new ShoppingListController(
+        shoppingListService
+      );
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await shoppingListController.createShoppingList(
+        userId,
+        data.body
+      );
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        let statusCode = 500;
+        if (
+          response.error?.includes("不能為空") ||
+          response.error?.includes("份數") ||
+          response.error?.includes("至少需要")
+        ) {
+          statusCode = 400;
+        } else if (response.error?.includes("找不到")) {
+          statusCode = 404;
+        }
+
+        return c.json(
+          ShoppingListController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      // 返回成功響應
+      return c.json(
+        {
+          success: true,
+          result: response.result,
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Endpoint: ShoppingListCreate 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { ShoppingListResponseSchema } from "../../types/shoppingList";
+
+// 導入分層架構
+import { ShoppingListController } from "../../controllers/shoppingListController";
+import { FirestoreRecipeRepository } from "../../repositories/recipeRepository";
+import { FirestoreShoppingListRepository } from "../../repositories/shoppingListRepository";
+import { RecipeService } from "../../services/recipeService";
+import { ShoppingListService } from "../../services/shoppingListService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * ShoppingListDetail endpoint - 獲取單一購物清單
+ */
+export class ShoppingListDetail extends OpenAPIRoute {
+  public schema = {
+    tags: ["ShoppingLists"],
+    summary: "獲取購物清單詳情",
+    description: "根據 ID 獲取單一購物清單",
+    operationId: "getShoppingList",
+    request: {
+      params: z.object({
+        id: z.string().describe("購物清單 ID"),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "成功獲取購物清單",
+        content: {
+          "application/json": {
+            schema: ShoppingListResponseSchema.openapi({
+              description: "購物清單回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "404": {
+        description: "找不到購物清單",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 獲取驗證後的請求資料
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const shoppingListRepository = new FirestoreShoppingListRepository(
+        firestore
+      );
+      const recipeService = new RecipeService(
+        new FirestoreRecipeRepository(firestore)
+      );
+      const shoppingListService = new ShoppingListService(
+        shoppingListRepository,
+        recipeService
+      );
+      const shoppingListController = new ShoppingListController(
+        shoppingListService
+      );
+
+      const { id } = data.params;
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await shoppingListController.getShoppingList(userId, id);
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        let statusCode = 500;
+        if (response.error?.includes("不能為空")) {
+          statusCode = 400;
+        } else if (response.error?.includes("找不到")) {
+          statusCode = 404;
+        }
+
+        return c.json(
+          ShoppingListController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      // 購物清單不存在時返回 404
+      if (!response.result) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 404, message: "Shopping list not found" }],
+          },
+          404
+        );
+      }
+
+      // 返回成功響應
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: ShoppingListDetail 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { fromHono } from "chanfana";
+import { Hono } from "hono";
+import { authMiddleware } from "../../middleware/auth";
+import { ShoppingListCreate } from "./ShoppingListCreate";
+import { ShoppingListDelete } from "./ShoppingListDelete";
+import { ShoppingListDetail } from "./ShoppingListDetail";
+import { ShoppingListItemUpdate } from "./ShoppingListItemUpdate";
+import { ShoppingListsList } from "./ShoppingListsList";
+
+// 建立 shoppingLists 子路由器
+export const shoppingListsRouter = fromHono(new Hono());
+
+// 套用認證中間件到所有 shoppingLists 路由
+shoppingListsRouter.use("/*", authMiddleware);
+
+// GET /shopping-lists - 獲取使用者的購物清單列表
+shoppingListsRouter.get("/", ShoppingListsList);
+
+// GET /shopping-lists/:id - 獲取單一購物清單
+shoppingListsRouter.get("/:id", ShoppingListDetail);
+
+// POST /shopping-lists - 從多個食譜與份數產生購物清單
+shoppingListsRouter.post("/", ShoppingListCreate);
+
+// PATCH /shopping-lists/:id/items/:itemId - 勾選/取消勾選購物清單項目
+shoppingListsRouter.patch("/:id/items/:itemId", ShoppingListItemUpdate);
+
+// DELETE /shopping-lists/:id - 刪除購物清單（物理刪除）
+shoppingListsRouter.delete("/:id", ShoppingListDelete);
+
+// Firebase 集合路徑：users/{userId}/shopping_lists
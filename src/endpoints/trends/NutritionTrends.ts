@@ -0,0 +1,186 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import {
+  NutritionTrendReportResponseSchema,
+  TrendQuerySchema,
+} from "../../types/trends";
+
+// 導入分層架構
+import { TrendsController } from "../../controllers/trendsController";
+import { FirestoreDailyWorkoutRepository } from "../../repositories/dailyWorkoutRepository";
+import { FirestoreDiaryRepository } from "../../repositories/diaryRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { FirestoreWeightRepository } from "../../repositories/weightRepository";
+import { TrendsService } from "../../services/trendsService";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * NutritionTrends endpoint - 獲取營養趨勢報告
+ * 以伺服器端儲存的 diary、運動與體重記錄計算每日/每週平均、目標達成率與營養素佔比
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class NutritionTrends extends OpenAPIRoute {
+  public schema = {
+    tags: ["Trends"],
+    summary: "獲取營養趨勢報告",
+    description:
+      "計算指定期間（預設最近 7 天）的每日與每週營養平均、目標達成率、三大營養素熱量佔比，以及 AI 健康報告使用的數據洞察",
+    operationId: "getNutritionTrends",
+    request: {
+      query: TrendQuerySchema,
+    },
+    responses: {
+      "200": {
+        description: "成功獲取營養趨勢報告",
+        content: {
+          "application/json": {
+            schema: NutritionTrendReportResponseSchema.openapi({
+              description: "營養趨勢報告回應",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "日期格式、日期範圍或時區錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 獲取查詢參數
+      const data = await this.getValidatedData<typeof this.schema>();
+      const { period, startDate, endDate, timezone } = data.query;
+
+      // 初始化分層架構
+      const firestore = getFirestoreFromContext(c);
+      const diaryRepository = new FirestoreDiaryRepository(firestore);
+      const dailyWorkoutRepository = new FirestoreDailyWorkoutRepository(
+        firestore
+      );
+      const weightRepository = new FirestoreWeightRepository(firestore);
+      const userRepository = new FirestoreUserRepository(firestore);
+      const trendsService = new TrendsService(
+        diaryRepository,
+        dailyWorkoutRepository,
+        weightRepository,
+        userRepository
+      );
+      const trendsController = new TrendsController(trendsService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await trendsController.getNutritionTrends(userId, {
+        period,
+        startDate,
+        endDate,
+        timezone,
+      });
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        const statusCode =
+          response.error?.includes("日期格式") ||
+          response.error?.includes("日期範圍") ||
+          response.error?.includes("時區")
+            ? 400
+            : 500;
+        return c.json(
+          TrendsController.toErrorResponse(response, statusCode),
+          statusCode
+        );
+      }
+
+      // 返回成功響應
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: NutritionTrends 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
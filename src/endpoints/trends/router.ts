@@ -0,0 +1,18 @@
+import { Hono } from "hono";
+import { fromHono } from "chanfana";
+import { authMiddleware } from "../../middleware/auth";
+import { NutritionTrends } from "./NutritionTrends";
+import { TrendInsights } from "./TrendInsights";
+
+// 建立 trends 子路由器
+export const trendsRouter = fromHono(new Hono());
+
+// 套用認證中間件到所有 trends 路由
+// 所有趨勢報告都需要使用者身份驗證
+trendsRouter.use("/*", authMiddleware);
+
+// GET /trends - 取得營養趨勢報告（每日/每週平均、目標達成率、營養素佔比）
+trendsRouter.get("/", NutritionTrends);
+
+// GET /trends/insights - 取得伺服器計算的數據洞察
+trendsRouter.get("/insights", TrendInsights);
@@ -0,0 +1,165 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { NotificationSettingsResponseSchema } from "../../types/notificationSettings";
+
+// 導入分層架構
+import { NotificationSettingsController } from "../../controllers/notificationSettingsController";
+import { D1MealReminderRepository } from "../../repositories/mealReminderRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { NotificationSettingsService } from "../../services/notificationSettingsService";
+import { getD1FromContext } from "../../utils/d1";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * NotificationSettingsGet endpoint - 獲取當前使用者通知偏好
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class NotificationSettingsGet extends OpenAPIRoute {
+  public schema = {
+    tags: ["Users"],
+    summary: "獲取通知偏好",
+    description:
+      "獲取當前使用者的通知偏好（每餐提醒時間、勿擾時段、時區與各通知類型開關），未設定時返回預設值",
+    operationId: "getNotificationSettings",
+    responses: {
+      "200": {
+        description: "成功獲取通知偏好",
+        content: {
+          "application/json": {
+            schema: NotificationSettingsResponseSchema.openapi({
+              description: "通知偏好回應",
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "404": {
+        description: "找不到使用者",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 初始化分層架構
+      const notificationSettingsService = new NotificationSettingsService(
+        new FirestoreUserRepository(getFirestoreFromContext(c)),
+        new D1MealReminderRepository(getD1FromContext(c))
+      );
+      const notificationSettingsController = new NotificationSettingsController(
+        notificationSettingsService
+      );
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await notificationSettingsController.getSettings(userId);
+
+      if (!response.success) {
+        return c.json(
+          NotificationSettingsController.toErrorResponse(response, 500),
+          500
+        );
+      }
+
+      // 檢查是否找到使用者
+      if (response.result === null) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 404, message: "找不到使用者" }],
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: NotificationSettingsGet 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import {
+  NotificationSettingsResponseSchema,
+  UpdateNotificationSettingsSchema,
+} from "../../types/notificationSettings";
+
+// 導入分層架構
+import { NotificationSettingsController } from "../../controllers/notificationSettingsController";
+import { D1MealReminderRepository } from "../../repositories/mealReminderRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { NotificationSettingsService } from "../../services/notificationSettingsService";
+import { getD1FromContext } from "../../utils/d1";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * NotificationSettingsUpdate endpoint - 更新當前使用者通知偏好
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class NotificationSettingsUpdate extends OpenAPIRoute {
+  public schema = {
+    tags: ["Users"],
+    summary: "更新通知偏好",
+    description:
+      "部分更新當前使用者的通知偏好；提醒時間與勿擾時段為當地時間 HH:mm，quietHours 傳 null 取消勿擾時段",
+    operationId: "updateNotificationSettings",
+    request: {
+      body: {
+        content: {
+          "application/json": {
+            schema: UpdateNotificationSettingsSchema.openapi({
+              description: "要更新的通知偏好（部分更新）",
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      "200": {
+        description: "成功更新通知偏好",
+        content: {
+          "application/json": {
+            schema: NotificationSettingsResponseSchema.openapi({
+              description: "更新後的通知偏好",
+            }),
+          },
+        },
+      },
+      "400": {
+        description: "請求參數錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "404": {
+        description: "找不到使用者",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 獲取請求 body
+      const data = await this.getValidatedData<typeof this.schema>();
+      const updateData = data.body;
+
+      // 初始化分層架構
+      const notificationSettingsService = new NotificationSettingsService(
+        new FirestoreUserRepository(getFirestoreFromContext(c)),
+        new D1MealReminderRepository(getD1FromContext(c))
+      );
+      const notificationSettingsController = new NotificationSettingsController(
+        notificationSettingsService
+      );
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await notificationSettingsController.updateSettings(
+        userId,
+        updateData
+      );
+
+      // 檢查業務邏輯結果
+      if (!response.success) {
+        let statusCode = 500;
+
+        // 根據錯誤類型設定適當的 HTTP 狀態碼
+        if (response.error?.includes("找不到")) {
+          statusCode = 404; // Not Found
+        } else if (
+          response.error?.includes("不能為空") ||
+          response.error?.includes("無效的")
+        ) {
+          statusCode = 400; // Bad Request
+        }
+
+        return c.json(
+          NotificationSettingsController.toErrorResponse(response, statusCode),
+          statusCode as any
+        );
+      }
+
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: NotificationSettingsUpdate 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
@@ -7,7 +7,9 @@ import { CreateUserSchema, AppUser } from "../../types/user";
 // 導入重構後的分層架構
 import { UserController } from "../../controllers/userController";
 import { FirestoreUserRepository } from "../../repositories/userRepository";
+import EmailService from "../../services/emailService";
 import { UserService } from "../../services/userService";
+import { resolveEmailLanguage } from "../../utils/emailTemplates";
 import { getFirestoreFromContext } from "../../utils/firebase";
 
 /**
@@ -18,6 +20,7 @@ import { getFirestoreFromContext } from "../../utils/firebase";
  * - OpenAPI schema 定義
  * - HTTP 請求/響應處理
  * - 調用 Controller 層
+ * - 建立成功後於背景發送歡迎郵件
  * - 錯誤響應格式化
  */
 export class UserCreate extends OpenAPIRoute {
@@ -196,6 +199,22 @@ export class UserCreate extends OpenAPIRoute {
         );
       }
 
+      // 回應送出後發送歡迎郵件（發送失敗不影響建立結果）
+      c.executionCtx.waitUntil(
+        new EmailService()
+          .sendWelcomeEmail(
+            appUser.email,
+            appUser.displayName || appUser.email.split("@")[0],
+            c.env,
+            resolveEmailLanguage(appUser.deviceLanguage) || "en"
+          )
+          .then((result) => {
+            if (!result.success) {
+              console.error("歡迎郵件發送失敗:", result.error);
+            }
+          })
+      );
+
       // 返回成功響應
       return c.json(
         {
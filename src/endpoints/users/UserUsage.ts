@@ -0,0 +1,133 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { requireUserIdFromMiddleware } from "../../middleware/auth";
+import { AppContext } from "../../types";
+import { AIUsageResponseSchema } from "../../types/aiUsage";
+
+// 導入分層架構
+import { AIUsageController } from "../../controllers/aiUsageController";
+import { D1AIUsageRepository } from "../../repositories/aiUsageRepository";
+import { FirestoreUserRepository } from "../../repositories/userRepository";
+import { AIUsageService } from "../../services/aiUsageService";
+import { getD1FromContext } from "../../utils/d1";
+import { getFirestoreFromContext } from "../../utils/firebase";
+
+/**
+ * UserUsage endpoint - 獲取當前使用者今日 AI 使用量
+ *
+ * 職責：
+ * - OpenAPI schema 定義
+ * - HTTP 請求/響應處理
+ * - 調用 Controller 層
+ * - 錯誤響應格式化
+ */
+export class UserUsage extends OpenAPIRoute {
+  public schema = {
+    tags: ["Users"],
+    summary: "獲取今日 AI 使用量",
+    description:
+      "依 RevenueCat 方案（free / premium）列出每個 AI 端點今日（UTC）的已用次數、上限與剩餘次數",
+    operationId: "getUserAIUsage",
+    responses: {
+      "200": {
+        description: "成功獲取 AI 使用量",
+        content: {
+          "application/json": {
+            schema: AIUsageResponseSchema.openapi({
+              description: "AI 使用量回應",
+            }),
+          },
+        },
+      },
+      "401": {
+        description: "未授權 - 需要有效的 Firebase ID token",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      "500": {
+        description: "伺服器錯誤",
+        content: {
+          "application/json": {
+            schema: z.object({
+              success: z.boolean().default(false),
+              errors: z.array(
+                z.object({
+                  code: z.number(),
+                  message: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+    },
+    security: [
+      {
+        Bearer: [],
+      },
+    ],
+  };
+
+  public async handle(c: AppContext) {
+    try {
+      // 從認證中間件獲取使用者 ID
+      const userId = requireUserIdFromMiddleware(c);
+
+      // 初始化分層架構
+      const aiUsageService = new AIUsageService(
+        new D1AIUsageRepository(getD1FromContext(c)),
+        new FirestoreUserRepository(getFirestoreFromContext(c))
+      );
+      const aiUsageController = new AIUsageController(aiUsageService);
+
+      // 調用 Controller 層處理業務邏輯
+      const response = await aiUsageController.getUsage(userId);
+
+      if (!response.success) {
+        return c.json(AIUsageController.toErrorResponse(response, 500), 500);
+      }
+
+      return c.json({
+        success: true,
+        result: response.result,
+      });
+    } catch (error) {
+      console.error("Endpoint: UserUsage 處理錯誤:", error);
+
+      // 處理認證錯誤
+      if (
+        error instanceof Error &&
+        error.message ===
+          "User ID not available in context. Ensure auth middleware is applied."
+      ) {
+        return c.json(
+          {
+            success: false,
+            errors: [{ code: 401, message: "Authentication required" }],
+          },
+          401
+        );
+      }
+
+      // 處理其他未預期錯誤
+      return c.json(
+        {
+          success: false,
+          errors: [{ code: 500, message: "Internal server error" }],
+        },
+        500
+      );
+    }
+  }
+}
@@ -5,6 +5,9 @@ import { UserGet } from "./UserGet";
 import { UserExists } from "./UserExists";
 import { UserCreate } from "./UserCreate";
 import { UserUpdate } from "./UserUpdate";
+import { UserUsage } from "./UserUsage";
+import { NotificationSettingsGet } from "./NotificationSettingsGet";
+import { NotificationSettingsUpdate } from "./NotificationSettingsUpdate";
 
 // 建立 users 子路由器
 export const usersRouter = fromHono(new Hono());
@@ -17,6 +20,15 @@ usersRouter.use("/*", authMiddleware);
 // 對應 Flutter: checkUserExists(String uid)
 usersRouter.get("/exists/:uid", UserExists);
 
+// GET /users/me/usage - 獲取今日 AI 使用量與剩餘配額
+usersRouter.get("/me/usage", UserUsage);
+
+// GET /users/me/notification-settings - 獲取通知偏好
+usersRouter.get("/me/notification-settings", NotificationSettingsGet);
+
+// PUT /users/me/notification-settings - 更新通知偏好（同步飲食提醒排程）
+usersRouter.put("/me/notification-settings", NotificationSettingsUpdate);
+
 // GET /users/:userId - 獲取使用者資料  
 // 對應 Flutter: getUser({String? userId})
 usersRouter.get("/:userId", UserGet);
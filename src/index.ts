@@ -14,7 +14,14 @@ import { fcmTokensRouter } from "./endpoints/fcm-tokens/router";
 import { imagesRouter } from "./endpoints/images/router";
 import { geminiRouter } from "./endpoints/gemini/router";
 import { emailRouter } from "./endpoints/email/router";
+import { trendsRouter } from "./endpoints/trends/router";
+import { shoppingListsRouter } from "./endpoints/shopping-lists/router";
+import { mealPlansRouter } from "./endpoints/meal-plans/router";
+import { foodsRouter } from "./endpoints/foods/router";
+import { adminRouter } from "./endpoints/admin/router";
 import type { Env } from "./bindings";
+import { queue } from "./queue";
+import { scheduled } from "./scheduled";
 
 // Start a Hono app
 const app = new Hono<{ Bindings: Env }>();
@@ -89,8 +96,27 @@ openapi.route("/gemini", geminiRouter);
 // Register Email Sub router
 openapi.route("/email", emailRouter);
 
+// Register Trends Sub router
+openapi.route("/trends", trendsRouter);
+
+// Register Shopping Lists Sub router
+openapi.route("/shopping-lists", shoppingListsRouter);
+
+// Register Meal Plans Sub router
+openapi.route("/meal-plans", mealPlansRouter);
+
+// Register Foods Sub router
+openapi.route("/foods", foodsRouter);
+
+// Register Admin Sub router
+openapi.route("/admin", adminRouter);
+
 // Register other endpoints
 openapi.post("/dummy/:slug", DummyEndpoint);
 
-// Export the Hono app
-export default app;
+// Export the Worker: HTTP requests go to the Hono app, Cron Triggers to the scheduled handler, Queue batches to the queue handler
+export default {
+  fetch: app.fetch,
+  scheduled,
+  queue,
+};
@@ -0,0 +1,139 @@
+import { Next } from "hono";
+import { D1AIUsageRepository } from "../repositories/aiUsageRepository";
+import { FirestoreUserRepository } from "../repositories/userRepository";
+import { AIQuotaCheckResult, AIUsageService } from "../services/aiUsageService";
+import { AppContext } from "../types";
+import { AI_USAGE_ENDPOINTS, AIUsageEndpoint } from "../types/aiUsage";
+import {
+  AI_USAGE_ENDPOINT_BY_CAPABILITY,
+  AICapability,
+} from "../utils/aiProviderConfig";
+import { getFirestoreFromContext } from "../utils/firebase";
+
+/**
+ * Resolve the metered AI endpoint from the request path
+ * (last path segment, e.g. /gemini/add-meal → add-meal)
+ * @param path Request path
+ * @returns AI endpoint or null if the path is not metered
+ */
+export function getAIUsageEndpoint(path: string): AIUsageEndpoint | null {
+  const segment = path.replace(/\/+$/, "").split("/").pop() ?? "";
+  return (AI_USAGE_ENDPOINTS as readonly string[]).includes(segment)
+    ? (segment as AIUsageEndpoint)
+    : null;
+}
+
+/**
+ * Set rate-limit headers describing the remaining quota
+ */
+function setQuotaHeaders(c: AppContext, check: AIQuotaCheckResult) {
+  c.header("X-RateLimit-Limit", String(check.quota.limit));
+  c.header("X-RateLimit-Remaining", String(check.quota.remaining));
+  c.header(
+    "X-RateLimit-Reset",
+    String(Math.floor(check.quota.resetAt.getTime() / 1000))
+  );
+}
+
+/**
+ * Respond 503 when metering is unavailable; AI calls are never made unmetered
+ */
+function meteringUnavailable(c: AppContext) {
+  return c.json(
+    {
+      success: false,
+      errors: [{ code: 503, message: "AI 使用量計量暫時無法使用，請稍後再試" }],
+    },
+    503
+  );
+}
+
+/**
+ * Meter one AI call for the resolved endpoint, then run the handler
+ *
+ * - DB (D1) not configured or metering storage errors → 503 (fail closed)
+ * - Failed AI calls (status >= 400) are refunded
+ */
+async function meterAIUsage(
+  c: AppContext,
+  next: Next,
+  endpoint: AIUsageEndpoint | null
+) {
+  const userId = c.get("userId");
+
+  if (!endpoint || !userId) {
+    await next();
+    return;
+  }
+
+  if (!c.env.DB) {
+    console.error(`AI 配額計量失敗：未設定 DB (D1) binding，拒絕 ${endpoint}`);
+    return meteringUnavailable(c);
+  }
+
+  const usageService = new AIUsageService(
+    new D1AIUsageRepository(c.env.DB),
+    new FirestoreUserRepository(getFirestoreFromContext(c))
+  );
+
+  let check: AIQuotaCheckResult;
+  try {
+    check = await usageService.consume(userId, endpoint);
+  } catch (error) {
+    console.error(`AI 配額檢查失敗，拒絕 ${endpoint}:`, error);
+    return meteringUnavailable(c);
+  }
+
+  setQuotaHeaders(c, check);
+
+  if (!check.allowed) {
+    const retryAfter = Math.ceil(
+      (check.quota.resetAt.getTime() - Date.now()) / 1000
+    );
+    c.header("Retry-After", String(Math.max(retryAfter, 0)));
+    return c.json(
+      {
+        success: false,
+        errors: [{ code: 429, message: "今日 AI 使用次數已達上限" }],
+        quota: check.quota,
+      },
+      429
+    );
+  }
+
+  await next();
+
+  if (c.res.status >= 400) {
+    try {
+      await usageService.refund(userId, endpoint, check.usageDate);
+    } catch (error) {
+      console.error("退還 AI 使用次數失敗:", error);
+    }
+  }
+}
+
+/**
+ * AI usage quota middleware
+ * Must run after authMiddleware; counts AI calls per user per day by endpoint
+ * (resolved from the request path) and returns 429 with remaining-quota info
+ * once the daily limit is reached
+ */
+export async function aiQuotaMiddleware(c: AppContext, next: Next) {
+  return meterAIUsage(c, next, getAIUsageEndpoint(c.req.path));
+}
+
+/**
+ * AI usage quota middleware for a route outside /gemini that calls one AI capability
+ * Shares the daily quota of the matching /gemini endpoint (see AI_USAGE_ENDPOINT_BY_CAPABILITY)
+ *
+ * - Only POST requests are metered (GET lookups on the same path stay free)
+ * - Only the response status is checked for refunds: AI work scheduled with
+ *   waitUntil (e.g. /diaries/analyze) is charged once the request is accepted
+ * @param capability AI capability the route calls
+ * @returns Middleware
+ */
+export function aiQuotaForCapability(capability: AICapability) {
+  const endpoint = AI_USAGE_ENDPOINT_BY_CAPABILITY[capability];
+  return (c: AppContext, next: Next) =>
+    meterAIUsage(c, next, c.req.method === "POST" ? endpoint : null);
+}
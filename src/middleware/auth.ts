@@ -1,15 +1,15 @@
 import { Next } from 'hono';
 import { AppContext } from '../types';
-import { getUserIdFromContext } from '../services/authService';
+import { getAuthenticatedUserFromContext } from '../services/authService';
 
 /**
  * Authentication middleware for protecting endpoints
- * Verifies Firebase ID token and adds user ID to context
+ * Verifies Firebase ID token and adds user ID and role to context
  */
 export async function authMiddleware(c: AppContext, next: Next) {
-  const userId = await getUserIdFromContext(c);
+  const user = await getAuthenticatedUserFromContext(c);
   
-  if (!userId) {
+  if (!user) {
     return c.json(
       {
         success: false,
@@ -19,25 +19,47 @@ export async function authMiddleware(c: AppContext, next: Next) {
     );
   }
   
-  // Add user ID to context for use in handlers
-  c.set('userId', userId);
+  // Add user ID and role to context for use in handlers
+  c.set('userId', user.userId);
+  c.set('userRole', user.role);
   
   await next();
 }
 
 /**
  * Optional authentication middleware
- * Adds user ID to context if authenticated, but doesn't block unauthenticated requests
+ * Adds user ID and role to context if authenticated, but doesn't block unauthenticated requests
  */
 export async function optionalAuthMiddleware(c: AppContext, next: Next) {
-  const userId = await getUserIdFromContext(c);
+  const user = await getAuthenticatedUserFromContext(c);
   
-  // Add user ID to context if available (convert null to undefined for type consistency)
-  c.set('userId', userId || undefined);
+  // Add user ID and role to context if available
+  c.set('userId', user?.userId);
+  c.set('userRole', user?.role);
   
   await next();
 }
 
+/**
+ * Admin middleware for operational endpoints
+ * Must run after authMiddleware; only users with the admin role may continue
+ * (Firebase custom claim `admin: true` / `role: 'admin'` on a verified ID token,
+ * or listed in ADMIN_USER_IDS)
+ */
+export async function adminMiddleware(c: AppContext, next: Next) {
+  if (c.get('userRole') !== 'admin') {
+    return c.json(
+      {
+        success: false,
+        errors: [{ code: 403, message: 'Admin access required' }],
+      },
+      403
+    );
+  }
+
+  await next();
+}
+
 /**
  * Get user ID from context (set by auth middleware)
  * @param c Hono context
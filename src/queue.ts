@@ -0,0 +1,62 @@
+/**
+ * Queue consumer（佇列名稱見 wrangler.jsonc 的 queues.consumers）
+ */
+import type { Env } from "./bindings";
+import { FirestoreFcmTokenRepository } from "./repositories/fcmTokenRepository";
+import { D1PromotionRepository } from "./repositories/promotionRepository";
+import { D1PushDeliveryRepository } from "./repositories/pushDeliveryRepository";
+import { D1PushDeviceRepository } from "./repositories/pushDeviceRepository";
+import { FirestoreUserRepository } from "./repositories/userRepository";
+import { FcmTokenService } from "./services/fcmTokenService";
+import { PromotionService } from "./services/promotionService";
+import { createPushSender } from "./services/pushSender";
+import type { PromotionQueueMessage } from "./types/promotion";
+import {
+  WORKER_SUBREQUEST_BUDGET,
+  type SubrequestBudget,
+} from "./types/subrequestBudget";
+import { getD1FromEnv } from "./utils/d1";
+import { initializeFirestore } from "./utils/firebase";
+
+/**
+ * Worker queue handler：發送優惠推播活動批次
+ * 同一次執行的訊息共用同一個子請求預算，失敗的訊息交由佇列重試
+ */
+export const queue: ExportedHandlerQueueHandler<
+  Env,
+  PromotionQueueMessage
+> = async (batch, env) => {
+  const db = getD1FromEnv(env);
+  const firestore = initializeFirestore(env);
+  const promotionService = new PromotionService(
+    new D1PromotionRepository(db),
+    new FirestoreUserRepository(firestore),
+    new FcmTokenService(
+      new FirestoreFcmTokenRepository(firestore),
+      createPushSender(env),
+      new D1PushDeliveryRepository(db),
+      new D1PushDeviceRepository(db)
+    ),
+    new D1PushDeviceRepository(db),
+    env.PROMOTION_QUEUE
+  );
+  const budget: SubrequestBudget = { remaining: WORKER_SUBREQUEST_BUDGET };
+
+  for (const message of batch.messages) {
+    try {
+      const result = await promotionService.sendQueuedBatch(
+        message.body,
+        new Date(),
+        budget
+      );
+      console.log("✅ 優惠推播批次發送完成:", result);
+      message.ack();
+    } catch (error) {
+      console.error(
+        `優惠推播批次發送失敗 - 活動: ${message.body.campaignId}`,
+        error
+      );
+      message.retry();
+    }
+  }
+};
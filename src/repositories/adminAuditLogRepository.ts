@@ -0,0 +1,79 @@
+import {
+  AdminAuditLog,
+  AdminAuditLogRow,
+  convertRowToAdminAuditLog,
+} from "../types/admin";
+
+/**
+ * Admin Audit Log Repository 介面 - 定義資料存取操作
+ */
+export interface IAdminAuditLogRepository {
+  /**
+   * 新增稽核紀錄
+   * @param log 稽核紀錄
+   */
+  insert(log: AdminAuditLog): Promise<void>;
+
+  /**
+   * 取得最近的稽核紀錄
+   * @param limit 筆數
+   * @param targetId 只取得指定對象的紀錄（可選）
+   * @returns 稽核紀錄列表（新到舊）
+   */
+  findRecent(limit: number, targetId?: string): Promise<AdminAuditLog[]>;
+}
+
+/**
+ * D1 Admin Audit Log Repository 實作
+ * D1 資料表：admin_audit_logs（見 migrations/0010_add_admin_audit_logs_table.sql）
+ */
+export class D1AdminAuditLogRepository implements IAdminAuditLogRepository {
+  constructor(private db: D1Database) {}
+
+  async insert(log: AdminAuditLog): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          `INSERT INTO admin_audit_logs (
+            id, admin_user_id, action, target_type, target_id, reason, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          log.id,
+          log.adminUserId,
+          log.action,
+          log.targetType,
+          log.targetId,
+          log.reason,
+          log.createdAt.toISOString()
+        )
+        .run();
+    } catch (error) {
+      console.error("Repository: 新增稽核紀錄時發生錯誤:", error);
+      throw new Error("無法新增稽核紀錄");
+    }
+  }
+
+  async findRecent(limit: number, targetId?: string): Promise<AdminAuditLog[]> {
+    try {
+      const statement = targetId
+        ? this.db
+            .prepare(
+              "SELECT * FROM admin_audit_logs WHERE target_id = ? ORDER BY created_at DESC LIMIT ?"
+            )
+            .bind(targetId, limit)
+        : this.db
+            .prepare(
+              "SELECT * FROM admin_audit_logs ORDER BY created_at DESC LIMIT ?"
+            )
+            .bind(limit);
+
+      const { results } = await statement.all<AdminAuditLogRow>();
+
+      return results.map(convertRowToAdminAuditLog);
+    } catch (error) {
+      console.error("Repository: 取得稽核紀錄時發生錯誤:", error);
+      throw new Error("無法從資料庫取得稽核紀錄");
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { AdminMetrics } from "../types/admin";
+
+/**
+ * Admin Metrics Repository 介面 - 定義營運指標查詢
+ */
+export interface IAdminMetricsRepository {
+  /**
+   * 統計指定時間後的推播送達紀錄
+   * @param since 起始時間
+   */
+  getPushDeliveryMetrics(since: Date): Promise<AdminMetrics["pushDeliveries"]>;
+
+  /**
+   * 統計指定日期的 AI 使用量
+   * @param usageDate YYYY-MM-DD（UTC）
+   */
+  getAIUsageMetrics(usageDate: string): Promise<AdminMetrics["aiUsage"]>;
+
+  /**
+   * 依狀態統計指定時間後收到的 Webhook 事件
+   * @param since 起始時間
+   */
+  countWebhookEventsByStatus(since: Date): Promise<Record<string, number>>;
+
+  /**
+   * 依狀態統計排程郵件
+   */
+  countScheduledEmailsByStatus(): Promise<Record<string, number>>;
+
+  /**
+   * 依狀態統計推播活動
+   */
+  countPromotionsByStatus(): Promise<Record<string, number>>;
+}
+
+/**
+ * D1 Admin Metrics Repository 實作
+ * 唯讀查詢 push_deliveries、ai_usage、webhook_events、scheduled_emails、promotion_campaigns
+ */
+export class D1AdminMetricsRepository implements IAdminMetricsRepository {
+  constructor(private db: D1Database) {}
+
+  async getPushDeliveryMetrics(
+    since: Date
+  ): Promise<AdminMetrics["pushDeliveries"]> {
+    try {
+      const { results } = await this.db
+        .prepare(
+          `SELECT notification_type, status, COUNT(*) AS count, SUM(token_removed) AS removed
+          FROM push_deliveries WHERE created_at >= ?
+          GROUP BY notification_type, status`
+        )
+        .bind(since.toISOString())
+        .all<{
+          notification_type: string;
+          status: string;
+          count: number;
+          removed: number | null;
+        }>();
+
+      const metrics: AdminMetrics["pushDeliveries"] = {
+        byStatus: {},
+        byType: {},
+        tokensRemoved: 0,
+      };
+      for (const row of results) {
+        metrics.byStatus[row.status] =
+          (metrics.byStatus[row.status] ?? 0) + row.count;
+        metrics.byType[row.notification_type] = {
+          ...metrics.byType[row.notification_type],
+          [row.status]: row.count,
+        };
+        metrics.tokensRemoved += row.removed ?? 0;
+      }
+
+      return metrics;
+    } catch (error) {
+      console.error("Repository: 統計推播送達紀錄時發生錯誤:", error);
+      throw new Error("無法從資料庫取得推播統計");
+    }
+  }
+
+  async getAIUsageMetrics(usageDate: string): Promise<AdminMetrics["aiUsage"]> {
+    try {
+      const [byEndpoint, totals] = await this.db.batch<any>([
+        this.db
+          .prepare(
+            "SELECT endpoint, SUM(count) AS count FROM ai_usage WHERE usage_date = ? GROUP BY endpoint"
+          )
+          .bind(usageDate),
+        this.db
+          .prepare(
+            "SELECT COALESCE(SUM(count), 0) AS requests, COUNT(DISTINCT user_id) AS active_users FROM ai_usage WHERE usage_date = ?"
+          )
+          .bind(usageDate),
+      ]);
+
+      const endpointRows = byEndpoint.results as {
+        endpoint: string;
+        count: number;
+      }[];
+      const totalsRow = totals.results[0] as
+        { requests: number; active_users: number } | undefined;
+
+      return {
+        date: usageDate,
+        requests: totalsRow?.requests ?? 0,
+        activeUsers: totalsRow?.active_users ?? 0,
+        byEndpoint: Object.fromEntries(
+          endpointRows.map((row) => [row.endpoint, row.count])
+        ),
+      };
+    } catch (error) {
+      console.error("Repository: 統計 AI 使用量時發生錯誤:", error);
+      throw new Error("無法從資料庫取得 AI 使用量統計");
+    }
+  }
+
+  async countWebhookEventsByStatus(
+    since: Date
+  ): Promise<Record<string, number>> {
+    try {
+      const { results } = await this.db
+        .prepare(
+          "SELECT status, COUNT(*) AS count FROM webhook_events WHERE received_at >= ? GROUP BY status"
+        )
+        .bind(since.toISOString())
+        .all<{ status: string; count: number }>();
+
+      return this.toStatusCounts(results);
+    } catch (error) {
+      console.error("Repository: 統計 Webhook 事件時發生錯誤:", error);
+      throw new Error("無法從資料庫取得 Webhook 事件統計");
+    }
+  }
+
+  async countScheduledEmailsByStatus(): Promise<Record<string, number>> {
+    try {
+      const { results } = await this.db
+        .prepare(
+          "SELECT status, COUNT(*) AS count FROM scheduled_emails GROUP BY status"
+        )
+        .all<{ status: string; count: number }>();
+
+      return this.toStatusCounts(results);
+    } catch (error) {
+      console.error("Repository: 統計排程郵件時發生錯誤:", error);
+      throw new Error("無法從資料庫取得排程郵件統計");
+    }
+  }
+
+  async countPromotionsByStatus(): Promise<Record<string, number>> {
+    try {
+      const { results } = await this.db
+        .prepare(
+          "SELECT status, COUNT(*) AS count FROM promotion_campaigns GROUP BY status"
+        )
+        .all<{ status: string; count: number }>();
+
+      return this.toStatusCounts(results);
+    } catch (error) {
+      console.error("Repository: 統計推播活動時發生錯誤:", error);
+      throw new Error("無法從資料庫取得推播活動統計");
+    }
+  }
+
+  /**
+   * 將 status/count 資料列轉換為 { status: count }
+   */
+  private toStatusCounts(
+    rows: { status: string; count: number }[]
+  ): Record<string, number> {
+    return Object.fromEntries(rows.map((row) => [row.status, row.count]));
+  }
+}
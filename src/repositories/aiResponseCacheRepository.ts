@@ -0,0 +1,98 @@
+import {
+  AIResponseCacheEntry,
+  AIResponseCacheRow,
+  convertRowToAIResponseCacheEntry,
+} from "../types/aiResponseCache";
+
+/**
+ * AI Response Cache Repository 介面 - 定義資料存取操作
+ */
+export interface IAIResponseCacheRepository {
+  /**
+   * 取得未過期的快取項目
+   * @param cacheKey 快取 key
+   * @param now 目前時間
+   * @returns 快取項目或 null
+   */
+  findValid(cacheKey: string, now: Date): Promise<AIResponseCacheEntry | null>;
+
+  /**
+   * 寫入快取項目（相同 key 直接覆寫）
+   * @param entry 快取項目
+   */
+  save(entry: AIResponseCacheEntry): Promise<void>;
+
+  /**
+   * 累加命中次數
+   * @param cacheKey 快取 key
+   */
+  incrementHitCount(cacheKey: string): Promise<void>;
+}
+
+/**
+ * D1 AI Response Cache Repository 實作
+ * D1 資料表：ai_response_cache（見 migrations/0003_add_ai_response_cache_table.sql）
+ */
+export class D1AIResponseCacheRepository implements IAIResponseCacheRepository {
+  constructor(private db: D1Database) {}
+
+  async findValid(
+    cacheKey: string,
+    now: Date
+  ): Promise<AIResponseCacheEntry | null> {
+    try {
+      const row = await this.db
+        .prepare(
+          "SELECT * FROM ai_response_cache WHERE cache_key = ? AND expires_at > ?"
+        )
+        .bind(cacheKey, now.toISOString())
+        .first<AIResponseCacheRow>();
+
+      return row ? convertRowToAIResponseCacheEntry(row) : null;
+    } catch (error) {
+      console.error("Repository: 取得 AI 回應快取時發生錯誤:", error);
+      throw new Error("無法從資料庫取得 AI 回應快取");
+    }
+  }
+
+  async save(entry: AIResponseCacheEntry): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          `INSERT OR REPLACE INTO ai_response_cache (
+            cache_key, capability, language, prompt_version, normalized_input,
+            response, hit_count, created_at, expires_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          entry.cacheKey,
+          entry.capability,
+          entry.language,
+          entry.promptVersion,
+          entry.normalizedInput,
+          JSON.stringify(entry.response),
+          entry.hitCount,
+          entry.createdAt.toISOString(),
+          entry.expiresAt.toISOString()
+        )
+        .run();
+    } catch (error) {
+      console.error("Repository: 寫入 AI 回應快取時發生錯誤:", error);
+      throw new Error("無法寫入 AI 回應快取");
+    }
+  }
+
+  async incrementHitCount(cacheKey: string): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          "UPDATE ai_response_cache SET hit_count = hit_count + 1 WHERE cache_key = ?"
+        )
+        .bind(cacheKey)
+        .run();
+    } catch (error) {
+      console.error("Repository: 更新 AI 回應快取命中次數時發生錯誤:", error);
+      throw new Error("無法更新 AI 回應快取命中次數");
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { AIUsageRow } from "../types/aiUsage";
+
+/**
+ * AI Usage Repository 介面 - 定義資料存取操作
+ */
+export interface IAIUsageRepository {
+  /**
+   * 在未超過上限時累加使用次數（單一 SQL 完成，避免併發請求超量）
+   * @param userId 使用者 ID
+   * @param usageDate 日期（YYYY-MM-DD）
+   * @param endpoint AI 端點
+   * @param limit 每日上限
+   * @returns 累加後的次數；已達上限時返回 null
+   */
+  incrementWithinLimit(
+    userId: string,
+    usageDate: string,
+    endpoint: string,
+    limit: number
+  ): Promise<number | null>;
+
+  /**
+   * 退還一次使用次數（AI 調用失敗時）
+   * @param userId 使用者 ID
+   * @param usageDate 日期（YYYY-MM-DD）
+   * @param endpoint AI 端點
+   */
+  decrement(userId: string, usageDate: string, endpoint: string): Promise<void>;
+
+  /**
+   * 取得使用者某日所有端點的使用次數
+   * @param userId 使用者 ID
+   * @param usageDate 日期（YYYY-MM-DD）
+   * @returns 端點 → 使用次數
+   */
+  findCountsByDate(
+    userId: string,
+    usageDate: string
+  ): Promise<Record<string, number>>;
+}
+
+/**
+ * D1 AI Usage Repository 實作
+ * D1 資料表：ai_usage（見 migrations/0004_add_ai_usage_table.sql）
+ */
+export class D1AIUsageRepository implements IAIUsageRepository {
+  constructor(private db: D1Database) {}
+
+  async incrementWithinLimit(
+    userId: string,
+    usageDate: string,
+    endpoint: string,
+    limit: number
+  ): Promise<number | null> {
+    if (limit <= 0) {
+      return null;
+    }
+
+    try {
+      // 已達上限時 DO UPDATE 的 WHERE 不成立，RETURNING 不會返回資料列
+      const row = await this.db
+        .prepare(
+          `INSERT INTO ai_usage (user_id, usage_date, endpoint, count, updated_at)
+          VALUES (?, ?, ?, 1, ?)
+          ON CONFLICT (user_id, usage_date, endpoint) DO UPDATE
+          SET count = count + 1, updated_at = excluded.updated_at
+          WHERE ai_usage.count < ?
+          RETURNING count`
+        )
+        .bind(userId, usageDate, endpoint, new Date().toISOString(), limit)
+        .first<Pick<AIUsageRow, "count">>();
+
+      return row ? row.count : null;
+    } catch (error) {
+      console.error("Repository: 累加 AI 使用次數時發生錯誤:", error);
+      throw new Error("無法更新 AI 使用次數");
+    }
+  }
+
+  async decrement(
+    userId: string,
+    usageDate: string,
+    endpoint: string
+  ): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          `UPDATE ai_usage SET count = count - 1, updated_at = ?
+          WHERE user_id = ? AND usage_date = ? AND endpoint = ? AND count > 0`
+        )
+        .bind(new Date().toISOString(), userId, usageDate, endpoint)
+        .run();
+    } catch (error) {
+      console.error("Repository: 退還 AI 使用次數時發生錯誤:", error);
+      throw new Error("無法退還 AI 使用次數");
+    }
+  }
+
+  async findCountsByDate(
+    userId: string,
+    usageDate: string
+  ): Promise<Record<string, number>> {
+    try {
+      const { results } = await this.db
+        .prepare(
+          "SELECT endpoint, count FROM ai_usage WHERE user_id = ? AND usage_date = ?"
+        )
+        .bind(userId, usageDate)
+        .all<Pick<AIUsageRow, "endpoint" | "count">>();
+
+      return Object.fromEntries(
+        results.map((row) => [row.endpoint, row.count])
+      );
+    } catch (error) {
+      console.error("Repository: 取得 AI 使用次數時發生錯誤:", error);
+      throw new Error("無法從資料庫取得 AI 使用次數");
+    }
+  }
+}
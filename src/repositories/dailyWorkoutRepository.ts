@@ -14,10 +14,15 @@ export interface IDailyWorkoutRepository {
   /**
    * 根據使用者 ID 查詢 daily workout 列表
    * @param userId 使用者 ID
-   * @param date 可選的日期過濾條件
+   * @param date 可選的日期過濾條件（大於等於）
+   * @param endDate 可選的結束時間（不包含）
    * @returns DailyWorkout 陣列
    */
-  findByUser(userId: string, date?: Date): Promise<DailyWorkout[]>;
+  findByUser(
+    userId: string,
+    date?: Date,
+    endDate?: Date
+  ): Promise<DailyWorkout[]>;
 
   /**
    * 根據日期查詢單一 daily workout
@@ -128,7 +133,11 @@ export class FirestoreDailyWorkoutRepository
   /**
    * 取得 daily workout 列表，支援可選的日期過濾
    */
-  async findByUser(userId: string, date?: Date): Promise<DailyWorkout[]> {
+  async findByUser(
+    userId: string,
+    date?: Date,
+    endDate?: Date
+  ): Promise<DailyWorkout[]> {
     const collection = this.getUserWorkoutCollection(userId);
 
     let query: any = collection;
@@ -137,6 +146,10 @@ export class FirestoreDailyWorkoutRepository
       query = query.where("diaryDate", ">=", date);
     }
 
+    if (endDate) {
+      query = query.where("diaryDate", "<", endDate);
+    }
+
     query = query.orderBy("diaryDate", "desc");
 
     try {
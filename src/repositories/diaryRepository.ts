@@ -8,10 +8,11 @@ export interface IDiaryRepository {
   /**
    * 根據使用者 ID 查詢 diary 列表
    * @param userId 使用者 ID
-   * @param date 可選的日期過濾條件
+   * @param date 可選的日期過濾條件（大於等於）
+   * @param endDate 可選的結束時間（不包含）
    * @returns Diary 陣列
    */
-  findByUser(userId: string, date?: Date): Promise<Diary[]>;
+  findByUser(userId: string, date?: Date, endDate?: Date): Promise<Diary[]>;
 
   /**
    * 根據 ID 查詢單一 diary
@@ -55,6 +56,14 @@ export interface IDiaryRepository {
    * @returns 連續天數
    */
   calculateStreak(userId: string): Promise<number>;
+
+  /**
+   * 檢查指定時間之後是否有 diary 紀錄
+   * @param userId 使用者 ID
+   * @param since 起始時間
+   * @returns 是否有紀錄
+   */
+  hasDiarySince(userId: string, since: Date): Promise<boolean>;
 }
 
 /**
@@ -113,10 +122,14 @@ export class FirestoreDiaryRepository implements IDiaryRepository {
    * 取得 diary 列表，支援可選的日期過濾
    * 對應 Flutter getDiaries 邏輯：
    * - 過濾已刪除的 diary (isDeleted = false)
-   * - 可選的日期過濾（大於等於指定日期）
+   * - 可選的日期過濾（大於等於指定日期，有 endDate 時早於 endDate）
    * - 按 diaryDate 降序排列
    */
-  async findByUser(userId: string, date?: Date): Promise<Diary[]> {
+  async findByUser(
+    userId: string,
+    date?: Date,
+    endDate?: Date
+  ): Promise<Diary[]> {
     const collection = this.getUserDiaryCollection(userId);
 
     let query = collection.where("isDeleted", "==", false);
@@ -125,6 +138,10 @@ export class FirestoreDiaryRepository implements IDiaryRepository {
       query = query.where("diaryDate", ">=", date);
     }
 
+    if (endDate) {
+      query = query.where("diaryDate", "<", endDate);
+    }
+
     query = query.orderBy("diaryDate", "desc");
 
     try {
@@ -370,6 +387,24 @@ export class FirestoreDiaryRepository implements IDiaryRepository {
     }
   }
 
+  /**
+   * 檢查指定時間之後是否有 diary 紀錄（只取一筆）
+   */
+  async hasDiarySince(userId: string, since: Date): Promise<boolean> {
+    try {
+      const snapshot = await this.getUserDiaryCollection(userId)
+        .where("isDeleted", "==", false)
+        .where("diaryDate", ">=", since)
+        .limit(1)
+        .get();
+
+      return snapshot.docs.length > 0;
+    } catch (error) {
+      console.error("Repository: 檢查 diary 紀錄時發生錯誤:", error);
+      throw new Error("無法從資料庫取得 diary 列表");
+    }
+  }
+
   /**
    * 工具函式：統一格式為 yyyy-MM-dd
    * 對應 Flutter 的 _dateToKey 方法
@@ -0,0 +1,166 @@
+import { FirestoreClient } from "firebase-rest-firestore";
+import {
+  MealPlanEntry,
+  convertFirestoreDocToMealPlanEntry,
+} from "../types/mealPlan";
+
+/**
+ * MealPlan Repository 介面 - 定義資料存取操作
+ */
+export interface IMealPlanRepository {
+  /**
+   * 查詢日期區間內的餐點計畫項目
+   * @param userId 使用者 ID
+   * @param startDate 起始日期 YYYY-MM-DD（包含）
+   * @param endDate 結束日期 YYYY-MM-DD（包含）
+   * @returns MealPlanEntry 陣列（按日期升序）
+   */
+  findByDateRange(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MealPlanEntry[]>;
+
+  /**
+   * 根據 ID 查詢單一餐點計畫項目
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   * @returns MealPlanEntry 物件或 null
+   */
+  findById(userId: string, entryId: string): Promise<MealPlanEntry | null>;
+
+  /**
+   * 建立餐點計畫項目（使用 entry.id 作為文件 ID）
+   * @param userId 使用者 ID
+   * @param entry 餐點計畫項目
+   * @returns 建立的 MealPlanEntry 物件
+   */
+  create(userId: string, entry: MealPlanEntry): Promise<MealPlanEntry>;
+
+  /**
+   * 更新餐點計畫項目
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   * @param updates 更新資料
+   */
+  update(
+    userId: string,
+    entryId: string,
+    updates: Partial<MealPlanEntry>
+  ): Promise<void>;
+
+  /**
+   * 刪除餐點計畫項目（物理刪除）
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   */
+  delete(userId: string, entryId: string): Promise<void>;
+}
+
+/**
+ * Firestore MealPlan Repository 實作
+ * Firebase 集合路徑：users/{userId}/meal_plans
+ */
+export class FirestoreMealPlanRepository implements IMealPlanRepository {
+  constructor(private firestore: FirestoreClient) {}
+
+  /**
+   * 取得使用者的餐點計畫 collection 參考
+   * @param userId 使用者 ID
+   * @returns Collection 參考
+   */
+  private getUserMealPlanCollection(userId: string) {
+    return this.firestore.collection(`users/${userId}/meal_plans`);
+  }
+
+  async findByDateRange(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MealPlanEntry[]> {
+    try {
+      const collection = this.getUserMealPlanCollection(userId);
+
+      // date 以 YYYY-MM-DD 字串儲存，字串比較即為日期比較
+      const snapshot = await collection
+        .where("date", ">=", startDate)
+        .where("date", "<=", endDate)
+        .orderBy("date", "asc")
+        .get();
+
+      return snapshot.docs.map((doc) =>
+        convertFirestoreDocToMealPlanEntry(doc)
+      );
+    } catch (error) {
+      console.error("Repository: 取得餐點計畫列表時發生錯誤:", error);
+      throw new Error("無法從資料庫取得餐點計畫列表");
+    }
+  }
+
+  async findById(
+    userId: string,
+    entryId: string
+  ): Promise<MealPlanEntry | null> {
+    try {
+      const collection = this.getUserMealPlanCollection(userId);
+      const doc = await collection.doc(entryId).get();
+
+      if (!doc.exists) {
+        return null;
+      }
+
+      return convertFirestoreDocToMealPlanEntry(doc);
+    } catch (error) {
+      console.error("Repository: 取得餐點計畫項目時發生錯誤:", error);
+      throw new Error("無法從資料庫取得餐點計畫項目");
+    }
+  }
+
+  async create(userId: string, entry: MealPlanEntry): Promise<MealPlanEntry> {
+    try {
+      const collection = this.getUserMealPlanCollection(userId);
+
+      // 移除 id 欄位，避免重複儲存
+      const { id, ...docData } = entry;
+      await collection.doc(id).set(docData);
+
+      return entry;
+    } catch (error) {
+      console.error("Repository: 建立餐點計畫項目時發生錯誤:", error);
+      throw new Error("無法建立餐點計畫項目");
+    }
+  }
+
+  async update(
+    userId: string,
+    entryId: string,
+    updates: Partial<MealPlanEntry>
+  ): Promise<void> {
+    try {
+      const collection = this.getUserMealPlanCollection(userId);
+
+      const updateData = {
+        ...updates,
+        updatedAt: new Date(),
+      };
+
+      // 移除 id 欄位，避免重複儲存
+      delete (updateData as any).id;
+
+      await collection.doc(entryId).update(updateData);
+    } catch (error) {
+      console.error("Repository: 更新餐點計畫項目時發生錯誤:", error);
+      throw new Error("無法更新餐點計畫項目");
+    }
+  }
+
+  async delete(userId: string, entryId: string): Promise<void> {
+    try {
+      const collection = this.getUserMealPlanCollection(userId);
+      await collection.doc(entryId).delete();
+    } catch (error) {
+      console.error("Repository: 刪除餐點計畫項目時發生錯誤:", error);
+      throw new Error("無法刪除餐點計畫項目");
+    }
+  }
+}
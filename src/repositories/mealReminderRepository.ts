@@ -0,0 +1,124 @@
+import {
+  convertRowToMealReminderSchedule,
+  MealReminderSchedule,
+  MealReminderScheduleRow,
+  UpsertMealReminderScheduleInput,
+} from "../types/mealReminder";
+
+/**
+ * Meal Reminder Repository 介面 - 定義資料存取操作
+ */
+export interface IMealReminderRepository {
+  /**
+   * 取得已到提醒時間的排程（依提醒時間由早到晚）
+   * @param now 目前時間
+   * @param limit 最多筆數
+   * @returns 提醒排程列表
+   */
+  findDue(now: Date, limit: number): Promise<MealReminderSchedule[]>;
+
+  /**
+   * 將排程推進到下一次提醒（僅在排程仍停留在 dueAt 時更新，避免重疊的排程重複處理）
+   * @param userId 使用者 ID
+   * @param dueAt 本次處理的提醒時間
+   * @param nextReminderAt 下一次提醒時間
+   * @param sentSlot 已發送的提醒（當地日期 + 時間），未發送時傳 null
+   * @returns 是否成功推進（false 表示已被其他排程處理）
+   */
+  advance(
+    userId: string,
+    dueAt: Date,
+    nextReminderAt: Date | null,
+    sentSlot: string | null
+  ): Promise<boolean>;
+
+  /**
+   * 新增或更新使用者的提醒排程（保留最後發送紀錄）
+   * @param input 提醒排程
+   */
+  upsert(input: UpsertMealReminderScheduleInput): Promise<void>;
+}
+
+/**
+ * D1 Meal Reminder Repository 實作
+ * D1 資料表：meal_reminder_schedules（見 migrations/0007_add_meal_reminder_schedules_table.sql）
+ * 排程由使用者更新通知偏好時寫入（見 NotificationSettingsService），
+ * 未設定提醒時間的使用者沒有排程
+ */
+export class D1MealReminderRepository implements IMealReminderRepository {
+  constructor(private db: D1Database) {}
+
+  async findDue(now: Date, limit: number): Promise<MealReminderSchedule[]> {
+    try {
+      const { results } = await this.db
+        .prepare(
+          `SELECT * FROM meal_reminder_schedules
+          WHERE enabled = 1 AND next_reminder_at <= ?
+          ORDER BY next_reminder_at ASC LIMIT ?`
+        )
+        .bind(now.toISOString(), limit)
+        .all<MealReminderScheduleRow>();
+
+      return results.map(convertRowToMealReminderSchedule);
+    } catch (error) {
+      console.error("Repository: 取得飲食提醒排程時發生錯誤:", error);
+      throw new Error("無法從資料庫取得飲食提醒排程");
+    }
+  }
+
+  async advance(
+    userId: string,
+    dueAt: Date,
+    nextReminderAt: Date | null,
+    sentSlot: string | null
+  ): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare(
+          `UPDATE meal_reminder_schedules
+          SET next_reminder_at = ?, last_sent_slot = COALESCE(?, last_sent_slot)
+          WHERE user_id = ? AND next_reminder_at = ?`
+        )
+        .bind(
+          nextReminderAt?.toISOString() ?? null,
+          sentSlot,
+          userId,
+          dueAt.toISOString()
+        )
+        .run();
+
+      return result.meta.changes > 0;
+    } catch (error) {
+      console.error("Repository: 記錄飲食提醒時發生錯誤:", error);
+      throw new Error("無法更新飲食提醒排程");
+    }
+  }
+
+  async upsert(input: UpsertMealReminderScheduleInput): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          `INSERT INTO meal_reminder_schedules (user_id, timezone, reminder_times, enabled, next_reminder_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT(user_id) DO UPDATE SET
+            timezone = excluded.timezone,
+            reminder_times = excluded.reminder_times,
+            enabled = excluded.enabled,
+            next_reminder_at = excluded.next_reminder_at,
+            updated_at = excluded.updated_at`
+        )
+        .bind(
+          input.userId,
+          input.timezone,
+          JSON.stringify(input.reminderTimes),
+          input.enabled ? 1 : 0,
+          input.nextReminderAt?.toISOString() ?? null,
+          new Date().toISOString()
+        )
+        .run();
+    } catch (error) {
+      console.error("Repository: 更新飲食提醒排程時發生錯誤:", error);
+      throw new Error("無法更新飲食提醒排程");
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { Product, ProductRow, convertRowToProduct } from "../types/product";
+
+/**
+ * Product Repository 介面 - 定義資料存取操作
+ */
+export interface IProductRepository {
+  /**
+   * 根據條碼查詢商品
+   * @param barcode 商品條碼
+   * @returns Product 物件或 null
+   */
+  findByBarcode(barcode: string): Promise<Product | null>;
+
+  /**
+   * 建立商品（條碼已存在時不覆寫）
+   * @param product 商品資料
+   * @returns 是否成功建立（false 表示條碼已被其他請求建立）
+   */
+  create(product: Product): Promise<boolean>;
+}
+
+/**
+ * D1 Product Repository 實作
+ * D1 資料表：products（見 migrations/0002_add_products_table.sql）
+ */
+export class D1ProductRepository implements IProductRepository {
+  constructor(private db: D1Database) {}
+
+  async findByBarcode(barcode: string): Promise<Product | null> {
+    try {
+      const row = await this.db
+        .prepare("SELECT * FROM products WHERE barcode = ?")
+        .bind(barcode)
+        .first<ProductRow>();
+
+      return row ? convertRowToProduct(row) : null;
+    } catch (error) {
+      console.error("Repository: 取得商品時發生錯誤:", error);
+      throw new Error("無法從資料庫取得商品");
+    }
+  }
+
+  async create(product: Product): Promise<boolean> {
+    try {
+      // 同一條碼可能同時被多位使用者上傳，以先寫入者為準
+      const result = await this.db
+        .prepare(
+          `INSERT INTO products (
+            barcode, name, brand, serving_size, serving_unit,
+            calories_100g, protein_100g, carbs_100g, fat_100g,
+            calories_serving, protein_serving, carbs_serving, fat_serving,
+            source, created_by, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(barcode) DO NOTHING`
+        )
+        .bind(
+          product.barcode,
+          product.name,
+          product.brand,
+          product.servingSize,
+          product.servingUnit,
+          product.per100g?.calories ?? null,
+          product.per100g?.protein ?? null,
+          product.per100g?.carbs ?? null,
+          product.per100g?.fat ?? null,
+          product.perServing?.calories ?? null,
+          product.perServing?.protein ?? null,
+          product.perServing?.carbs ?? null,
+          product.perServing?.fat ?? null,
+          product.source,
+          product.createdBy,
+          product.createdAt.toISOString(),
+          product.updatedAt.toISOString()
+        )
+        .run();
+
+      return result.meta.changes > 0;
+    } catch (error) {
+      console.error("Repository: 建立商品時發生錯誤:", error);
+      throw new Error("無法建立商品");
+    }
+  }
+}
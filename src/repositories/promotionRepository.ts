@@ -0,0 +1,336 @@
+import {
+  convertRowToPromotionCampaign,
+  PromotionCampaign,
+  PromotionCampaignRow,
+  PromotionDeferral,
+  PromotionStats,
+} from "../types/promotion";
+
+/**
+ * Promotion Repository 介面 - 定義資料存取操作
+ */
+export interface IPromotionRepository {
+  /**
+   * 新增推播活動
+   * @param campaign 推播活動
+   */
+  insert(campaign: PromotionCampaign): Promise<void>;
+
+  /**
+   * 根據 ID 取得推播活動
+   * @param id 活動 ID
+   * @returns 推播活動或 null
+   */
+  findById(id: string): Promise<PromotionCampaign | null>;
+
+  /**
+   * 取得最近建立的推播活動
+   * @param limit 筆數
+   * @returns 推播活動列表（新到舊）
+   */
+  findRecent(limit: number): Promise<PromotionCampaign[]>;
+
+  /**
+   * 取得已到發送時間且尚未完成的推播活動
+   * @param now 目前時間
+   * @param limit 筆數
+   * @returns 推播活動列表
+   */
+  findDue(now: Date, limit: number): Promise<PromotionCampaign[]>;
+
+  /**
+   * 領取下一批使用者：cursor 仍為 expectedCursor 時才更新為 nextCursor，並標記為發送中
+   * @param id 活動 ID
+   * @param expectedCursor 目前的 cursor
+   * @param nextCursor 本批最後一位使用者 UID
+   * @returns 是否領取成功（false 表示已被其他排程處理或活動已取消）
+   */
+  claimBatch(
+    id: string,
+    expectedCursor: string | null,
+    nextCursor: string
+  ): Promise<boolean>;
+
+  /**
+   * 累加發送統計
+   * @param id 活動 ID
+   * @param stats 本批統計
+   */
+  addStats(id: string, stats: PromotionStats): Promise<void>;
+
+  /**
+   * 標記推播活動已完成
+   * @param id 活動 ID
+   * @param completedAt 完成時間
+   */
+  markCompleted(id: string, completedAt: Date): Promise<void>;
+
+  /**
+   * 取消尚未完成的推播活動（同時刪除延後發送的使用者）
+   * @param id 活動 ID
+   * @returns 是否取消成功
+   */
+  cancel(id: string): Promise<boolean>;
+
+  /**
+   * 新增延後發送的使用者（已存在時更新 sendAfter）
+   * @param id 活動 ID
+   * @param deferrals 延後發送的使用者
+   */
+  deferUsers(id: string, deferrals: PromotionDeferral[]): Promise<void>;
+
+  /**
+   * 領取已到補發時間的延後使用者：領取的使用者會從延後名單刪除，重疊的排程不會重複領取
+   * @param id 活動 ID
+   * @param now 目前時間
+   * @param limit 筆數
+   * @returns 使用者 UID 列表
+   */
+  claimDeferredUsers(id: string, now: Date, limit: number): Promise<string[]>;
+
+  /**
+   * 計算尚未補發的延後使用者數
+   * @param id 活動 ID
+   * @returns 使用者數
+   */
+  countDeferredUsers(id: string): Promise<number>;
+}
+
+/**
+ * D1 Promotion Repository 實作
+ * D1 資料表：promotion_campaigns、promotion_deferred_users（見 migrations/0009_add_promotion_campaigns_table.sql）
+ */
+export class D1PromotionRepository implements IPromotionRepository {
+  constructor(private db: D1Database) {}
+
+  async insert(campaign: PromotionCampaign): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          `INSERT INTO promotion_campaigns (
+            id, name, content, default_language, audience, data, status,
+            scheduled_at, cursor, created_by, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          campaign.id,
+          campaign.name,
+          JSON.stringify(campaign.content),
+          campaign.defaultLanguage,
+          JSON.stringify(campaign.audience),
+          campaign.data ? JSON.stringify(campaign.data) : null,
+          campaign.status,
+          campaign.scheduledAt.toISOString(),
+          campaign.cursor,
+          campaign.createdBy,
+          campaign.createdAt.toISOString(),
+          campaign.updatedAt.toISOString()
+        )
+        .run();
+    } catch (error) {
+      console.error("Repository: 新增推播活動時發生錯誤:", error);
+      throw new Error("無法新增推播活動");
+    }
+  }
+
+  async findById(id: string): Promise<PromotionCampaign | null> {
+    try {
+      const row = await this.db
+        .prepare("SELECT * FROM promotion_campaigns WHERE id = ?")
+        .bind(id)
+        .first<PromotionCampaignRow>();
+
+      return row ? convertRowToPromotionCampaign(row) : null;
+    } catch (error) {
+      console.error("Repository: 取得推播活動時發生錯誤:", error);
+      throw new Error("無法從資料庫取得推播活動");
+    }
+  }
+
+  async findRecent(limit: number): Promise<PromotionCampaign[]> {
+    try {
+      const { results } = await this.db
+        .prepare(
+          "SELECT * FROM promotion_campaigns ORDER BY created_at DESC LIMIT ?"
+        )
+        .bind(limit)
+        .all<PromotionCampaignRow>();
+
+      return results.map(convertRowToPromotionCampaign);
+    } catch (error) {
+      console.error("Repository: 取得推播活動列表時發生錯誤:", error);
+      throw new Error("無法從資料庫取得推播活動列表");
+    }
+  }
+
+  async findDue(now: Date, limit: number): Promise<PromotionCampaign[]> {
+    try {
+      const { results } = await this.db
+        .prepare(
+          `SELECT * FROM promotion_campaigns
+          WHERE status IN ('scheduled', 'sending') AND scheduled_at <= ?
+          ORDER BY scheduled_at ASC LIMIT ?`
+        )
+        .bind(now.toISOString(), limit)
+        .all<PromotionCampaignRow>();
+
+      return results.map(convertRowToPromotionCampaign);
+    } catch (error) {
+      console.error("Repository: 取得待發送推播活動時發生錯誤:", error);
+      throw new Error("無法從資料庫取得推播活動");
+    }
+  }
+
+  async claimBatch(
+    id: string,
+    expectedCursor: string | null,
+    nextCursor: string
+  ): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare(
+          `UPDATE promotion_campaigns SET cursor = ?, status = 'sending', updated_at = ?
+          WHERE id = ? AND cursor IS ? AND status IN ('scheduled', 'sending')`
+        )
+        .bind(nextCursor, new Date().toISOString(), id, expectedCursor)
+        .run();
+
+      return result.meta.changes > 0;
+    } catch (error) {
+      console.error("Repository: 領取推播批次時發生錯誤:", error);
+      throw new Error("無法更新推播活動");
+    }
+  }
+
+  async addStats(id: string, stats: PromotionStats): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          `UPDATE promotion_campaigns SET
+            scanned_users = scanned_users + ?,
+            targeted_users = targeted_users + ?,
+            skipped_opt_out = skipped_opt_out + ?,
+            skipped_quiet_hours = skipped_quiet_hours + ?,
+            delivered = delivered + ?,
+            failed = failed + ?,
+            updated_at = ?
+          WHERE id = ?`
+        )
+        .bind(
+          stats.scannedUsers,
+          stats.targetedUsers,
+          stats.skippedOptOut,
+          stats.skippedQuietHours,
+          stats.delivered,
+          stats.failed,
+          new Date().toISOString(),
+          id
+        )
+        .run();
+    } catch (error) {
+      console.error("Repository: 更新推播統計時發生錯誤:", error);
+      throw new Error("無法更新推播活動");
+    }
+  }
+
+  async markCompleted(id: string, completedAt: Date): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          `UPDATE promotion_campaigns SET status = 'completed', completed_at = ?, updated_at = ?
+          WHERE id = ? AND status IN ('scheduled', 'sending')`
+        )
+        .bind(completedAt.toISOString(), completedAt.toISOString(), id)
+        .run();
+    } catch (error) {
+      console.error("Repository: 標記推播活動完成時發生錯誤:", error);
+      throw new Error("無法更新推播活動");
+    }
+  }
+
+  async cancel(id: string): Promise<boolean> {
+    try {
+      const [result] = await this.db.batch([
+        this.db
+          .prepare(
+            `UPDATE promotion_campaigns SET status = 'cancelled', updated_at = ?
+            WHERE id = ? AND status IN ('scheduled', 'sending')`
+          )
+          .bind(new Date().toISOString(), id),
+        this.db
+          .prepare("DELETE FROM promotion_deferred_users WHERE campaign_id = ?")
+          .bind(id),
+      ]);
+
+      return result.meta.changes > 0;
+    } catch (error) {
+      console.error("Repository: 取消推播活動時發生錯誤:", error);
+      throw new Error("無法取消推播活動");
+    }
+  }
+
+  async deferUsers(id: string, deferrals: PromotionDeferral[]): Promise<void> {
+    if (deferrals.length === 0) {
+      return;
+    }
+
+    try {
+      const statement = this.db.prepare(
+        `INSERT INTO promotion_deferred_users (campaign_id, user_id, send_after)
+        VALUES (?, ?, ?)
+        ON CONFLICT (campaign_id, user_id) DO UPDATE SET send_after = excluded.send_after`
+      );
+
+      await this.db.batch(
+        deferrals.map((deferral) =>
+          statement.bind(id, deferral.userId, deferral.sendAfter.toISOString())
+        )
+      );
+    } catch (error) {
+      console.error("Repository: 新增延後推播使用者時發生錯誤:", error);
+      throw new Error("無法新增延後推播使用者");
+    }
+  }
+
+  async claimDeferredUsers(
+    id: string,
+    now: Date,
+    limit: number
+  ): Promise<string[]> {
+    try {
+      const { results } = await this.db
+        .prepare(
+          `DELETE FROM promotion_deferred_users
+          WHERE campaign_id = ? AND user_id IN (
+            SELECT user_id FROM promotion_deferred_users
+            WHERE campaign_id = ? AND send_after <= ?
+            ORDER BY send_after ASC LIMIT ?
+          )
+          RETURNING user_id`
+        )
+        .bind(id, id, now.toISOString(), limit)
+        .all<{ user_id: string }>();
+
+      return results.map((row) => row.user_id);
+    } catch (error) {
+      console.error("Repository: 領取延後推播使用者時發生錯誤:", error);
+      throw new Error("無法取得延後推播使用者");
+    }
+  }
+
+  async countDeferredUsers(id: string): Promise<number> {
+    try {
+      const row = await this.db
+        .prepare(
+          "SELECT COUNT(*) AS count FROM promotion_deferred_users WHERE campaign_id = ?"
+        )
+        .bind(id)
+        .first<{ count: number }>();
+
+      return row?.count ?? 0;
+    } catch (error) {
+      console.error("Repository: 計算延後推播使用者時發生錯誤:", error);
+      throw new Error("無法取得延後推播使用者");
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import type { PushDeliveryRecord } from "../types/pushDelivery";
+
+/**
+ * Push Delivery Repository 介面 - 定義資料存取操作
+ */
+export interface IPushDeliveryRepository {
+  /**
+   * 批次新增推播送達紀錄
+   * @param records 送達紀錄
+   */
+  insertMany(records: PushDeliveryRecord[]): Promise<void>;
+}
+
+/**
+ * D1 Push Delivery Repository 實作
+ * D1 資料表：push_deliveries（見 migrations/0008_add_push_deliveries_table.sql）
+ */
+export class D1PushDeliveryRepository implements IPushDeliveryRepository {
+  constructor(private db: D1Database) {}
+
+  async insertMany(records: PushDeliveryRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    try {
+      const statement = this.db.prepare(
+        `INSERT INTO push_deliveries (
+          id, user_id, device_id, platform, notification_type, status,
+          message_id, error_code, error, token_removed, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+
+      await this.db.batch(
+        records.map((record) =>
+          statement.bind(
+            record.id,
+            record.userId,
+            record.deviceId,
+            record.platform,
+            record.notificationType,
+            record.status,
+            record.messageId,
+            record.errorCode,
+            record.error,
+            record.tokenRemoved ? 1 : 0,
+            record.createdAt.toISOString()
+          )
+        )
+      );
+    } catch (error) {
+      console.error("Repository: 新增推播送達紀錄時發生錯誤:", error);
+      throw new Error("無法新增推播送達紀錄");
+    }
+  }
+}
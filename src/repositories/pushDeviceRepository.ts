@@ -0,0 +1,163 @@
+import {
+  convertRowToPushDevice,
+  PushDevice,
+  PushDeviceRow,
+} from "../types/pushDevice";
+
+/**
+ * D1 單一查詢可綁定的參數上限
+ */
+const MAX_BOUND_PARAMETERS = 100;
+
+/**
+ * Push Device Repository 介面 - 定義資料存取操作
+ */
+export interface IPushDeviceRepository {
+  /**
+   * 新增或更新裝置資訊
+   * @param device 裝置資訊
+   */
+  upsert(device: PushDevice): Promise<void>;
+
+  /**
+   * 刪除使用者的指定裝置
+   * @param userId 使用者 ID
+   * @param deviceId 設備 ID
+   */
+  remove(userId: string, deviceId: string): Promise<void>;
+
+  /**
+   * 刪除使用者在指定時間前最後活躍的裝置（與清理過期 FCM Token 同步）
+   * @param userId 使用者 ID
+   * @param before 最後活躍時間早於此時間的裝置會被刪除
+   */
+  removeInactive(userId: string, before: Date): Promise<void>;
+
+  /**
+   * 以目前的 FCM Token 取代使用者所有裝置資訊
+   * @param userId 使用者 ID
+   * @param devices 裝置資訊
+   */
+  replaceForUser(userId: string, devices: PushDevice[]): Promise<void>;
+
+  /**
+   * 取得多位使用者的裝置資訊
+   * @param userIds 使用者 ID 列表
+   * @returns 裝置資訊列表
+   */
+  findByUserIds(userIds: string[]): Promise<PushDevice[]>;
+}
+
+/**
+ * D1 Push Device Repository 實作
+ * D1 資料表：push_devices（見 migrations/0011_add_push_devices_table.sql）
+ * 由 FcmTokenService 在註冊、刪除與清理 Token 時同步，既有 Token 以管理員回填端點寫入
+ */
+export class D1PushDeviceRepository implements IPushDeviceRepository {
+  constructor(private db: D1Database) {}
+
+  async upsert(device: PushDevice): Promise<void> {
+    try {
+      await this.upsertStatement(device).run();
+    } catch (error) {
+      console.error("Repository: 更新推播裝置資訊時發生錯誤:", error);
+      throw new Error("無法更新推播裝置資訊");
+    }
+  }
+
+  async remove(userId: string, deviceId: string): Promise<void> {
+    try {
+      await this.db
+        .prepare("DELETE FROM push_devices WHERE user_id = ? AND device_id = ?")
+        .bind(userId, deviceId)
+        .run();
+    } catch (error) {
+      console.error("Repository: 刪除推播裝置資訊時發生錯誤:", error);
+      throw new Error("無法刪除推播裝置資訊");
+    }
+  }
+
+  async removeInactive(userId: string, before: Date): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          "DELETE FROM push_devices WHERE user_id = ? AND last_active < ?"
+        )
+        .bind(userId, before.toISOString())
+        .run();
+    } catch (error) {
+      console.error("Repository: 清理推播裝置資訊時發生錯誤:", error);
+      throw new Error("無法清理推播裝置資訊");
+    }
+  }
+
+  async replaceForUser(userId: string, devices: PushDevice[]): Promise<void> {
+    try {
+      await this.db.batch([
+        this.db
+          .prepare("DELETE FROM push_devices WHERE user_id = ?")
+          .bind(userId),
+        ...devices.map((device) => this.upsertStatement(device)),
+      ]);
+    } catch (error) {
+      console.error("Repository: 取代推播裝置資訊時發生錯誤:", error);
+      throw new Error("無法更新推播裝置資訊");
+    }
+  }
+
+  async findByUserIds(userIds: string[]): Promise<PushDevice[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < userIds.length; i += MAX_BOUND_PARAMETERS) {
+      chunks.push(userIds.slice(i, i + MAX_BOUND_PARAMETERS));
+    }
+
+    try {
+      const results = await this.db.batch<PushDeviceRow>(
+        chunks.map((chunk) =>
+          this.db
+            .prepare(
+              `SELECT * FROM push_devices
+              WHERE user_id IN (${chunk.map(() => "?").join(", ")})`
+            )
+            .bind(...chunk)
+        )
+      );
+
+      return results.flatMap(({ results: rows }) =>
+        rows.map(convertRowToPushDevice)
+      );
+    } catch (error) {
+      console.error("Repository: 取得推播裝置資訊時發生錯誤:", error);
+      throw new Error("無法從資料庫取得推播裝置資訊");
+    }
+  }
+
+  /**
+   * 新增或更新單一裝置的 SQL
+   */
+  private upsertStatement(device: PushDevice): D1PreparedStatement {
+    return this.db
+      .prepare(
+        `INSERT INTO push_devices (
+          user_id, device_id, platform, language, app_version, last_active
+        ) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(user_id, device_id) DO UPDATE SET
+          platform = excluded.platform,
+          language = excluded.language,
+          app_version = excluded.app_version,
+          last_active = excluded.last_active`
+      )
+      .bind(
+        device.userId,
+        device.deviceId,
+        device.platform,
+        device.language,
+        device.appVersion,
+        device.lastActive.toISOString()
+      );
+  }
+}
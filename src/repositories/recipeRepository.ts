@@ -1,6 +1,44 @@
-import { FirestoreClient } from "firebase-rest-firestore";
+import {
+  FirestoreClient,
+  convertToFirestoreDocument,
+  convertToFirestoreValue,
+} from "firebase-rest-firestore";
 import { firestoreTimestampToDate } from "../types/diary";
-import { FavoriteRecipe, Recipe } from "../types/recipe";
+import { FavoriteRecipe, Recipe, RecipeSort } from "../types/recipe";
+import {
+  FirestoreRestError,
+  commitWrites,
+  countStructuredQuery,
+  getDocumentName,
+  runStructuredQuery,
+} from "../utils/firestoreRest";
+
+/**
+ * 公開食譜分頁位置：上一批最後一筆的排序欄位值與文件 ID
+ */
+export interface PublicRecipePagePosition {
+  sortValue: number | Date; // mostFavorited 為 favoriteCount，newest 為 createdAt
+  id: string;
+}
+
+/**
+ * 公開食譜分頁查詢選項
+ */
+export interface PublicRecipePageOptions {
+  sort: RecipeSort;
+  tagsAnyOf?: string[]; // 食譜 tags 需包含其中任一標籤（Firestore array-contains-any 最多 10 個）
+  startAfter?: PublicRecipePagePosition; // 未提供時從第一筆開始
+  limit: number;
+}
+
+/**
+ * commit 前置條件失敗時 Firestore 回傳的狀態
+ */
+const PRECONDITION_FAILURE_STATUSES = [
+  "ALREADY_EXISTS",
+  "NOT_FOUND",
+  "FAILED_PRECONDITION",
+];
 
 /**
  * Recipe Repository 介面 - 定義資料存取操作
@@ -10,17 +48,23 @@ export interface IRecipeRepository {
   /**
    * 建立新的食譜
    * @param recipe 食譜資料
+   * @param searchKeys 搜尋索引鍵（見 buildSearchKeys，只存在資料庫、不回傳給客戶端）
    * @returns 建立的 Recipe 物件
    */
-  create(recipe: Recipe): Promise<Recipe>;
+  create(recipe: Recipe, searchKeys: string[]): Promise<Recipe>;
 
   /**
    * 更新現有食譜
    * @param recipeId 食譜 ID
    * @param updates 更新資料
+   * @param searchKeys 新的搜尋索引鍵（未提供時保留原本的索引鍵）
    * @returns 更新後的 Recipe 物件
    */
-  update(recipeId: string, updates: Partial<Recipe>): Promise<Recipe>;
+  update(
+    recipeId: string,
+    updates: Partial<Recipe>,
+    searchKeys?: string[]
+  ): Promise<Recipe>;
 
   /**
    * 根據 ID 查詢單一食譜
@@ -35,6 +79,56 @@ export interface IRecipeRepository {
    */
   findAllPublic(): Promise<Recipe[]>;
 
+  /**
+   * 分頁查詢公開食譜
+   * @param options 排序、標籤條件與分頁位置
+   * @returns 該批次的 Recipe 陣列（筆數少於 limit 代表已無更多資料）
+   */
+  findPublicPage(options: PublicRecipePageOptions): Promise<Recipe[]>;
+
+  /**
+   * 查詢包含指定搜尋索引鍵的公開食譜（新到舊）
+   * @param searchKey 搜尋索引鍵
+   * @param limit 筆數上限
+   * @returns Recipe 陣列
+   */
+  findPublicBySearchKey(searchKey: string, limit: number): Promise<Recipe[]>;
+
+  /**
+   * 依文件 ID 順序分批取得食譜 ID（包含非公開與已刪除的食譜，供資料回填使用）
+   * @param afterId 從此 ID 之後開始（未提供時從第一筆開始）
+   * @param limit 筆數上限
+   * @returns 食譜 ID 陣列
+   */
+  findIdsAfter(afterId: string | undefined, limit: number): Promise<string[]>;
+
+  /**
+   * 依文件 ID 順序分批取得食譜（包含非公開與已刪除的食譜，供資料回填使用）
+   * @param afterId 從此 ID 之後開始（未提供時從第一筆開始）
+   * @param limit 筆數上限
+   * @returns Recipe 陣列
+   */
+  findAfter(afterId: string | undefined, limit: number): Promise<Recipe[]>;
+
+  /**
+   * 計算收藏此食譜的使用者數
+   * @param recipeId 食譜 ID
+   * @returns 收藏數
+   */
+  countFavorites(recipeId: string): Promise<number>;
+
+  /**
+   * 覆寫食譜的收藏次數（僅供資料回填，平常由收藏操作原子增減）
+   * @param counts 食譜 ID → 收藏次數
+   */
+  setFavoriteCounts(counts: Map<string, number>): Promise<void>;
+
+  /**
+   * 覆寫食譜的搜尋索引鍵（僅供資料回填，平常於建立與更新時寫入）
+   * @param searchKeys 食譜 ID → 搜尋索引鍵
+   */
+  setSearchKeys(searchKeys: Map<string, string[]>): Promise<void>;
+
   /**
    * 查詢使用者的食譜
    * @param userId 使用者 ID
@@ -125,6 +219,7 @@ export class FirestoreRecipeRepository implements IRecipeRepository {
       deletedAt: data.deletedAt
         ? firestoreTimestampToDate(data.deletedAt)
         : undefined,
+      favoriteCount: data.favoriteCount || 0,
       createdAt: firestoreTimestampToDate(data.createdAt),
       updatedAt: firestoreTimestampToDate(data.updatedAt),
     };
@@ -166,7 +261,7 @@ export class FirestoreRecipeRepository implements IRecipeRepository {
 
   // 實作介面方法
 
-  async create(recipe: Recipe): Promise<Recipe> {
+  async create(recipe: Recipe, searchKeys: string[]): Promise<Recipe> {
     try {
       if (!recipe.id) {
         throw new Error("Recipe ID is required");
@@ -185,7 +280,9 @@ export class FirestoreRecipeRepository implements IRecipeRepository {
 
       // console.log("firestoreData", firestoreData);
 
-      await collection.doc(recipe.id).set(recipeWithTimestamp);
+      await collection
+        .doc(recipe.id)
+        .set({ ...recipeWithTimestamp, searchKeys });
 
       return recipeWithTimestamp;
     } catch (error) {
@@ -194,13 +291,18 @@ export class FirestoreRecipeRepository implements IRecipeRepository {
     }
   }
 
-  async update(recipeId: string, updates: Partial<Recipe>): Promise<Recipe> {
+  async update(
+    recipeId: string,
+    updates: Partial<Recipe>,
+    searchKeys?: string[]
+  ): Promise<Recipe> {
     try {
       const collection = this.getRecipesCollection();
       const now = new Date();
 
       const updateData = {
         ...updates,
+        ...(searchKeys && { searchKeys }),
         id: recipeId, // 確保 id 欄位存在
         updatedAt: now,
       };
@@ -261,6 +363,229 @@ export class FirestoreRecipeRepository implements IRecipeRepository {
     }
   }
 
+  async findPublicPage(options: PublicRecipePageOptions): Promise<Recipe[]> {
+    try {
+      const filters: Record<string, unknown>[] = [
+        this.fieldFilter("isDeleted", "EQUAL", false),
+        this.fieldFilter("isPublic", "EQUAL", true),
+      ];
+
+      if (options.tagsAnyOf && options.tagsAnyOf.length > 0) {
+        filters.push(
+          this.fieldFilter("tags", "ARRAY_CONTAINS_ANY", options.tagsAnyOf)
+        );
+      }
+
+      // 以文件 ID 作為第二排序鍵，排序值相同時游標位置仍然唯一
+      // 各排序與 tags 篩選組合需要的複合索引見 firestore.indexes.json
+      const sortField =
+        options.sort === "mostFavorited" ? "favoriteCount" : "createdAt";
+      const structuredQuery: Record<string, unknown> = {
+        from: [{ collectionId: "recipes" }],
+        where: { compositeFilter: { op: "AND", filters } },
+        orderBy: [
+          { field: { fieldPath: sortField }, direction: "DESCENDING" },
+          { field: { fieldPath: "__name__" }, direction: "DESCENDING" },
+        ],
+        limit: options.limit,
+      };
+
+      if (options.startAfter) {
+        structuredQuery.startAt = {
+          values: [
+            convertToFirestoreValue(options.startAfter.sortValue),
+            {
+              referenceValue: getDocumentName(
+                this.firestore,
+                `recipes/${options.startAfter.id}`
+              ),
+            },
+          ],
+          before: false,
+        };
+      }
+
+      const snapshot = await runStructuredQuery(
+        this.firestore,
+        "",
+        structuredQuery
+      );
+
+      return snapshot.docs.map((doc) => this.convertFirestoreDocToRecipe(doc));
+    } catch (error) {
+      console.error("Repository: 分頁取得公開食譜時發生錯誤:", error);
+      throw new Error("無法取得公開食譜列表");
+    }
+  }
+
+  async findPublicBySearchKey(
+    searchKey: string,
+    limit: number
+  ): Promise<Recipe[]> {
+    try {
+      // 需要 searchKeys 的複合索引（見 firestore.indexes.json）
+      const snapshot = await runStructuredQuery(this.firestore, "", {
+        from: [{ collectionId: "recipes" }],
+        where: {
+          compositeFilter: {
+            op: "AND",
+            filters: [
+              this.fieldFilter("isDeleted", "EQUAL", false),
+              this.fieldFilter("isPublic", "EQUAL", true),
+              this.fieldFilter("searchKeys", "ARRAY_CONTAINS", searchKey),
+            ],
+          },
+        },
+        orderBy: [
+          { field: { fieldPath: "createdAt" }, direction: "DESCENDING" },
+        ],
+        limit,
+      });
+
+      return snapshot.docs.map((doc) => this.convertFirestoreDocToRecipe(doc));
+    } catch (error) {
+      console.error("Repository: 搜尋公開食譜時發生錯誤:", error);
+      throw new Error("無法搜尋公開食譜");
+    }
+  }
+
+  /**
+   * 建立 Firestore REST 欄位篩選條件
+   */
+  private fieldFilter(fieldPath: string, op: string, value: unknown) {
+    return {
+      fieldFilter: {
+        field: { fieldPath },
+        op,
+        value: convertToFirestoreValue(value),
+      },
+    };
+  }
+
+  async findIdsAfter(
+    afterId: string | undefined,
+    limit: number
+  ): Promise<string[]> {
+    try {
+      const snapshot = await runStructuredQuery(this.firestore, "", {
+        ...this.idOrderQuery(afterId, limit),
+        select: { fields: [{ fieldPath: "__name__" }] },
+      });
+      return snapshot.docs.map((doc) => doc.id);
+    } catch (error) {
+      console.error("Repository: 分批取得食譜 ID 時發生錯誤:", error);
+      throw new Error("無法取得食譜列表");
+    }
+  }
+
+  async findAfter(
+    afterId: string | undefined,
+    limit: number
+  ): Promise<Recipe[]> {
+    try {
+      const snapshot = await runStructuredQuery(
+        this.firestore,
+        "",
+        this.idOrderQuery(afterId, limit)
+      );
+      return snapshot.docs.map((doc) => this.convertFirestoreDocToRecipe(doc));
+    } catch (error) {
+      console.error("Repository: 分批取得食譜時發生錯誤:", error);
+      throw new Error("無法取得食譜列表");
+    }
+  }
+
+  /**
+   * 建立依文件 ID 順序分批掃描所有食譜的查詢
+   * @param afterId 從此 ID 之後開始（未提供時從第一筆開始）
+   * @param limit 筆數上限
+   */
+  private idOrderQuery(afterId: string | undefined, limit: number) {
+    const structuredQuery: Record<string, unknown> = {
+      from: [{ collectionId: "recipes" }],
+      orderBy: [{ field: { fieldPath: "__name__" }, direction: "ASCENDING" }],
+      limit,
+    };
+
+    if (afterId) {
+      structuredQuery.startAt = {
+        values: [
+          {
+            referenceValue: getDocumentName(
+              this.firestore,
+              `recipes/${afterId}`
+            ),
+          },
+        ],
+        before: false,
+      };
+    }
+
+    return structuredQuery;
+  }
+
+  async countFavorites(recipeId: string): Promise<number> {
+    try {
+      // 跨使用者查詢 fav_recipes collection group，需要 id 欄位的 collection group 索引（見 firestore.indexes.json）
+      return await countStructuredQuery(this.firestore, "", {
+        from: [{ collectionId: "fav_recipes", allDescendants: true }],
+        where: this.fieldFilter("id", "EQUAL", recipeId),
+      });
+    } catch (error) {
+      console.error("Repository: 計算食譜收藏數時發生錯誤:", error);
+      throw new Error("無法計算食譜收藏數");
+    }
+  }
+
+  async setFavoriteCounts(counts: Map<string, number>): Promise<void> {
+    if (counts.size === 0) {
+      return;
+    }
+
+    try {
+      await this.overwriteField("favoriteCount", counts);
+    } catch (error) {
+      console.error("Repository: 更新食譜收藏數時發生錯誤:", error);
+      throw new Error("無法更新食譜收藏數");
+    }
+  }
+
+  async setSearchKeys(searchKeys: Map<string, string[]>): Promise<void> {
+    if (searchKeys.size === 0) {
+      return;
+    }
+
+    try {
+      await this.overwriteField("searchKeys", searchKeys);
+    } catch (error) {
+      console.error("Repository: 更新食譜搜尋索引鍵時發生錯誤:", error);
+      throw new Error("無法更新食譜搜尋索引鍵");
+    }
+  }
+
+  /**
+   * 以單一 commit 覆寫多筆食譜的同一個欄位
+   * updateMask 只覆寫指定欄位，不影響食譜其他欄位；食譜不存在時整批失敗
+   * @param fieldPath 欄位名稱
+   * @param values 食譜 ID → 欄位值
+   */
+  private async overwriteField(
+    fieldPath: string,
+    values: Map<string, unknown>
+  ): Promise<void> {
+    await commitWrites(
+      this.firestore,
+      Array.from(values, ([recipeId, value]) => ({
+        update: {
+          name: getDocumentName(this.firestore, `recipes/${recipeId}`),
+          fields: { [fieldPath]: convertToFirestoreValue(value) },
+        },
+        updateMask: { fieldPaths: [fieldPath] },
+        currentDocument: { exists: true },
+      }))
+    );
+  }
+
   async findByAuthor(userId: string): Promise<Recipe[]> {
     try {
       const collection = this.getRecipesCollection();
@@ -306,6 +631,29 @@ export class FirestoreRecipeRepository implements IRecipeRepository {
         createdAt: now, // 收藏時間作為創建時間
       };
 
+      // 收藏不存在時才建立，並在同一個 commit 中增加食譜的收藏次數
+      try {
+        await commitWrites(this.firestore, [
+          {
+            update: {
+              name: getDocumentName(
+                this.firestore,
+                `users/${userId}/fav_recipes/${recipe.id}`
+              ),
+              fields: convertToFirestoreDocument(favoriteRecipeData).fields,
+            },
+            currentDocument: { exists: false },
+          },
+          this.favoriteCountIncrement(recipe.id!, 1),
+        ]);
+        return;
+      } catch (error) {
+        if (!this.isPreconditionFailure(error)) {
+          throw error;
+        }
+      }
+
+      // 已收藏過（只更新收藏內容）或食譜文件不存在（不計數）
       await collection.doc(recipe.id!).set(favoriteRecipeData);
     } catch (error) {
       console.error("Repository: 加入收藏時發生錯誤:", error);
@@ -316,6 +664,27 @@ export class FirestoreRecipeRepository implements IRecipeRepository {
   async removeFromFavorites(userId: string, recipeId: string): Promise<void> {
     try {
       const collection = this.getUserFavRecipesCollection(userId);
+
+      // 收藏存在時才刪除，並在同一個 commit 中減少食譜的收藏次數
+      try {
+        await commitWrites(this.firestore, [
+          {
+            delete: getDocumentName(
+              this.firestore,
+              `users/${userId}/fav_recipes/${recipeId}`
+            ),
+            currentDocument: { exists: true },
+          },
+          this.favoriteCountIncrement(recipeId, -1),
+        ]);
+        return;
+      } catch (error) {
+        if (!this.isPreconditionFailure(error)) {
+          throw error;
+        }
+      }
+
+      // 收藏不存在（刪除無作用）或食譜文件不存在（只刪除收藏，不計數）
       await collection.doc(recipeId).delete();
     } catch (error) {
       console.error("Repository: 移除收藏時發生錯誤:", error);
@@ -323,6 +692,37 @@ export class FirestoreRecipeRepository implements IRecipeRepository {
     }
   }
 
+  /**
+   * 建立增減食譜收藏次數的 Write（Firestore increment 轉換，伺服器端原子累加）
+   * 食譜文件不存在時前置條件失敗，避免建立只有 favoriteCount 的空文件
+   * @param recipeId 食譜 ID
+   * @param delta 增減數量
+   */
+  private favoriteCountIncrement(recipeId: string, delta: number) {
+    return {
+      transform: {
+        document: getDocumentName(this.firestore, `recipes/${recipeId}`),
+        fieldTransforms: [
+          {
+            fieldPath: "favoriteCount",
+            increment: { integerValue: String(delta) },
+          },
+        ],
+      },
+      currentDocument: { exists: true },
+    };
+  }
+
+  /**
+   * 判斷是否為 commit 前置條件失敗
+   */
+  private isPreconditionFailure(error: unknown): boolean {
+    return (
+      error instanceof FirestoreRestError &&
+      PRECONDITION_FAILURE_STATUSES.includes(error.status)
+    );
+  }
+
   async findFavoritesByUser(userId: string): Promise<FavoriteRecipe[]> {
     try {
       const collection = this.getUserFavRecipesCollection(userId);
@@ -0,0 +1,175 @@
+import type { EmailType } from "../types/email";
+import {
+  convertRowToScheduledEmail,
+  ScheduledEmail,
+  ScheduledEmailRow,
+} from "../types/scheduledEmail";
+
+/**
+ * Scheduled Email Repository 介面 - 定義資料存取操作
+ */
+export interface IScheduledEmailRepository {
+  /**
+   * 新增排程郵件
+   * @param email 排程郵件
+   */
+  insert(email: ScheduledEmail): Promise<void>;
+
+  /**
+   * 取消使用者指定類型的待發送郵件
+   * @param userId 使用者 ID
+   * @param emailType 郵件類型
+   * @returns 取消的筆數
+   */
+  cancelPending(userId: string, emailType: EmailType): Promise<number>;
+
+  /**
+   * 取得已到發送時間的待發送郵件
+   * @param now 目前時間
+   * @param limit 最大筆數
+   * @returns 排程郵件列表（依發送時間排序）
+   */
+  findDue(now: Date, limit: number): Promise<ScheduledEmail[]>;
+
+  /**
+   * 將待發送郵件標記為發送中（避免重複發送）
+   * @param id 排程郵件 ID
+   * @returns 是否成功取得發送權
+   */
+  markSending(id: string): Promise<boolean>;
+
+  /**
+   * 標記郵件已發送
+   * @param id 排程郵件 ID
+   * @param sentAt 發送時間
+   */
+  markSent(id: string, sentAt: Date): Promise<void>;
+
+  /**
+   * 記錄發送失敗
+   * @param id 排程郵件 ID
+   * @param error 錯誤訊息
+   * @param retry 是否保留為待發送，讓下一次排程重試
+   */
+  markFailed(id: string, error: string, retry: boolean): Promise<void>;
+}
+
+/**
+ * D1 Scheduled Email Repository 實作
+ * D1 資料表：scheduled_emails（見 migrations/0006_add_scheduled_emails_table.sql）
+ */
+export class D1ScheduledEmailRepository implements IScheduledEmailRepository {
+  constructor(private db: D1Database) {}
+
+  async insert(email: ScheduledEmail): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          `INSERT INTO scheduled_emails (
+            id, user_id, email_type, recipient_email, recipient_name, language,
+            template_data, send_at, status, attempts, last_error, sent_at, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          email.id,
+          email.userId,
+          email.emailType,
+          email.recipientEmail,
+          email.recipientName,
+          email.language,
+          JSON.stringify(email.templateData),
+          email.sendAt.toISOString(),
+          email.status,
+          email.attempts,
+          email.lastError,
+          email.sentAt ? email.sentAt.toISOString() : null,
+          email.createdAt.toISOString()
+        )
+        .run();
+    } catch (error) {
+      console.error("Repository: 新增排程郵件時發生錯誤:", error);
+      throw new Error("無法新增排程郵件");
+    }
+  }
+
+  async cancelPending(userId: string, emailType: EmailType): Promise<number> {
+    try {
+      const result = await this.db
+        .prepare(
+          `UPDATE scheduled_emails SET status = 'cancelled'
+          WHERE user_id = ? AND email_type = ? AND status = 'pending'`
+        )
+        .bind(userId, emailType)
+        .run();
+
+      return result.meta.changes;
+    } catch (error) {
+      console.error("Repository: 取消排程郵件時發生錯誤:", error);
+      throw new Error("無法取消排程郵件");
+    }
+  }
+
+  async findDue(now: Date, limit: number): Promise<ScheduledEmail[]> {
+    try {
+      const { results } = await this.db
+        .prepare(
+          `SELECT * FROM scheduled_emails
+          WHERE status = 'pending' AND send_at <= ?
+          ORDER BY send_at ASC LIMIT ?`
+        )
+        .bind(now.toISOString(), limit)
+        .all<ScheduledEmailRow>();
+
+      return results.map(convertRowToScheduledEmail);
+    } catch (error) {
+      console.error("Repository: 取得待發送排程郵件時發生錯誤:", error);
+      throw new Error("無法從資料庫取得排程郵件");
+    }
+  }
+
+  async markSending(id: string): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare(
+          `UPDATE scheduled_emails SET status = 'sending', attempts = attempts + 1
+          WHERE id = ? AND status = 'pending'`
+        )
+        .bind(id)
+        .run();
+
+      return result.meta.changes > 0;
+    } catch (error) {
+      console.error("Repository: 標記排程郵件發送中時發生錯誤:", error);
+      throw new Error("無法更新排程郵件");
+    }
+  }
+
+  async markSent(id: string, sentAt: Date): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          `UPDATE scheduled_emails SET status = 'sent', sent_at = ?, last_error = NULL
+          WHERE id = ?`
+        )
+        .bind(sentAt.toISOString(), id)
+        .run();
+    } catch (error) {
+      console.error("Repository: 標記排程郵件已發送時發生錯誤:", error);
+      throw new Error("無法更新排程郵件");
+    }
+  }
+
+  async markFailed(id: string, error: string, retry: boolean): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          "UPDATE scheduled_emails SET status = ?, last_error = ? WHERE id = ?"
+        )
+        .bind(retry ? "pending" : "failed", error, id)
+        .run();
+    } catch (dbError) {
+      console.error("Repository: 記錄排程郵件失敗時發生錯誤:", dbError);
+      throw new Error("無法更新排程郵件");
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { FirestoreClient } from "firebase-rest-firestore";
+import {
+  ShoppingList,
+  convertFirestoreDocToShoppingList,
+} from "../types/shoppingList";
+
+/**
+ * ShoppingList Repository 介面 - 定義資料存取操作
+ */
+export interface IShoppingListRepository {
+  /**
+   * 獲取使用者的購物清單列表（按建立時間降序）
+   * @param userId 使用者 ID
+   * @returns ShoppingList 陣列
+   */
+  findByUser(userId: string): Promise<ShoppingList[]>;
+
+  /**
+   * 根據 ID 獲取單一購物清單
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   * @returns ShoppingList 物件或 null
+   */
+  findById(userId: string, listId: string): Promise<ShoppingList | null>;
+
+  /**
+   * 建立購物清單（使用 shoppingList.id 作為文件 ID）
+   * @param userId 使用者 ID
+   * @param shoppingList 購物清單
+   * @returns 建立的 ShoppingList 物件
+   */
+  create(userId: string, shoppingList: ShoppingList): Promise<ShoppingList>;
+
+  /**
+   * 更新購物清單
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   * @param updates 更新資料
+   */
+  update(
+    userId: string,
+    listId: string,
+    updates: Partial<ShoppingList>
+  ): Promise<void>;
+
+  /**
+   * 刪除購物清單（物理刪除）
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   */
+  delete(userId: string, listId: string): Promise<void>;
+}
+
+/**
+ * Firestore ShoppingList Repository 實作
+ * Firebase 集合路徑：users/{userId}/shopping_lists
+ */
+export class FirestoreShoppingListRepository implements IShoppingListRepository {
+  constructor(private firestore: FirestoreClient) {}
+
+  /**
+   * 取得使用者的購物清單 collection 參考
+   * @param userId 使用者 ID
+   * @returns Collection 參考
+   */
+  private getUserShoppingListCollection(userId: string) {
+    return this.firestore.collection(`users/${userId}/shopping_lists`);
+  }
+
+  async findByUser(userId: string): Promise<ShoppingList[]> {
+    try {
+      const collection = this.getUserShoppingListCollection(userId);
+      const snapshot = await collection.orderBy("createdAt", "desc").get();
+
+      return snapshot.docs.map((doc) => convertFirestoreDocToShoppingList(doc));
+    } catch (error) {
+      console.error("Repository: 取得購物清單列表時發生錯誤:", error);
+      throw new Error("無法從資料庫取得購物清單列表");
+    }
+  }
+
+  async findById(userId: string, listId: string): Promise<ShoppingList | null> {
+    try {
+      const collection = this.getUserShoppingListCollection(userId);
+      const doc = await collection.doc(listId).get();
+
+      if (!doc.exists) {
+        return null;
+      }
+
+      return convertFirestoreDocToShoppingList(doc);
+    } catch (error) {
+      console.error("Repository: 取得購物清單時發生錯誤:", error);
+      throw new Error("無法從資料庫取得購物清單");
+    }
+  }
+
+  async create(
+    userId: string,
+    shoppingList: ShoppingList
+  ): Promise<ShoppingList> {
+    try {
+      const collection = this.getUserShoppingListCollection(userId);
+
+      // 移除 id 欄位，避免重複儲存
+      const { id, ...docData } = shoppingList;
+      await collection.doc(id).set(docData);
+
+      return shoppingList;
+    } catch (error) {
+      console.error("Repository: 建立購物清單時發生錯誤:", error);
+      throw new Error("無法建立購物清單");
+    }
+  }
+
+  async update(
+    userId: string,
+    listId: string,
+    updates: Partial<ShoppingList>
+  ): Promise<void> {
+    try {
+      const collection = this.getUserShoppingListCollection(userId);
+
+      const updateData = {
+        ...updates,
+        updatedAt: new Date(),
+      };
+
+      // 移除 id 欄位，避免重複儲存
+      delete (updateData as any).id;
+
+      await collection.doc(listId).update(updateData);
+    } catch (error) {
+      console.error("Repository: 更新購物清單時發生錯誤:", error);
+      throw new Error("無法更新購物清單");
+    }
+  }
+
+  async delete(userId: string, listId: string): Promise<void> {
+    try {
+      const collection = this.getUserShoppingListCollection(userId);
+      await collection.doc(listId).delete();
+    } catch (error) {
+      console.error("Repository: 刪除購物清單時發生錯誤:", error);
+      throw new Error("無法刪除購物清單");
+    }
+  }
+}
@@ -1,4 +1,9 @@
 import { FirestoreClient } from "firebase-rest-firestore";
+import {
+  NotificationSettings,
+  notificationSettingsFromFirestore,
+} from "../types/notificationSettings";
+import type { RevenueCatSubscriptionState } from "../types/revenuecat";
 import { AppUser, firestoreTimestampToDate } from "../types/user";
 
 /**
@@ -22,6 +27,13 @@ export interface IUserRepository {
    */
   findById(uid: string): Promise<AppUser | null>;
 
+  /**
+   * 根據 email 查詢使用者資料（完全相符，供管理員查詢使用）
+   * @param email 使用者 email
+   * @returns AppUser 物件或 null
+   */
+  findByEmail(email: string): Promise<AppUser | null>;
+
   /**
    * 建立新使用者
    * 對應 Flutter: createUser(AppUser user)
@@ -36,6 +48,34 @@ export interface IUserRepository {
    * @param data 要更新的資料
    */
   update(uid: string, data: Partial<AppUser>): Promise<void>;
+
+  /**
+   * 更新使用者的 RevenueCat 訂閱狀態（由 RevenueCat Webhook 同步）
+   * @param uid 使用者 UID
+   * @param state 訂閱狀態
+   */
+  updateSubscriptionState(
+    uid: string,
+    state: RevenueCatSubscriptionState
+  ): Promise<void>;
+
+  /**
+   * 更新使用者的通知偏好（整個 notificationSettings 欄位覆寫）
+   * @param uid 使用者 UID
+   * @param settings 通知偏好
+   */
+  updateNotificationSettings(
+    uid: string,
+    settings: NotificationSettings
+  ): Promise<void>;
+
+  /**
+   * 依 UID 排序分頁取得使用者（供推播廣播等批次作業使用）
+   * @param afterUid 上一頁最後一位使用者 UID，第一頁傳 null
+   * @param limit 每頁筆數
+   * @returns AppUser 陣列
+   */
+  listAfter(afterUid: string | null, limit: number): Promise<AppUser[]>;
 }
 
 /**
@@ -110,6 +150,11 @@ export class FirestoreUserRepository implements IUserRepository {
         : undefined,
       deviceLanguage: data.deviceLanguage,
 
+      // 通知偏好
+      notificationSettings: data.notificationSettings
+        ? notificationSettingsFromFirestore(data.notificationSettings)
+        : undefined,
+
       // RevenueCat 整合屬性
       entitlements: data.entitlements,
       subscriptions: data.subscriptions,
@@ -168,6 +213,28 @@ export class FirestoreUserRepository implements IUserRepository {
     }
   }
 
+  /**
+   * 根據 email 查詢使用者資料
+   */
+  async findByEmail(email: string): Promise<AppUser | null> {
+    try {
+      const snapshot = await this.firestore
+        .collection("users")
+        .where("email", "==", email)
+        .limit(1)
+        .get();
+
+      if (snapshot.docs.length === 0) {
+        return null;
+      }
+
+      return this.convertFirestoreDocToAppUser(snapshot.docs[0]);
+    } catch (error) {
+      console.error("Repository: 依 email 取得使用者資料時發生錯誤:", error);
+      throw new Error("無法從資料庫取得使用者資料");
+    }
+  }
+
   /**
    * 過濾有效欄位，只保留實際提供且不為 null/undefined 的值
    * @param data 原始資料
@@ -328,6 +395,9 @@ export class FirestoreUserRepository implements IUserRepository {
       delete updateData.revenueCatOriginalPurchaseDate;
       delete updateData.revenueCatRequestDate;
 
+      // 通知偏好需同步飲食提醒排程，只能透過 updateNotificationSettings 更新
+      delete updateData.notificationSettings;
+
       // 設定更新時間
       updateData.updatedAt = new Date();
 
@@ -345,4 +415,76 @@ export class FirestoreUserRepository implements IUserRepository {
       throw new Error("無法更新使用者資料");
     }
   }
+
+  /**
+   * 更新使用者的 RevenueCat 訂閱狀態
+   *
+   * 使用與 RevenueCat Firebase Extension 相同的欄位名稱（active_subscriptions、rc_last_seen 等），
+   * 讀取時 convertFirestoreDocToAppUser 優先採用這些欄位
+   */
+  async updateSubscriptionState(
+    uid: string,
+    state: RevenueCatSubscriptionState
+  ): Promise<void> {
+    try {
+      const updateData = this.filterValidFields({
+        entitlements: state.entitlements,
+        subscriptions: state.subscriptions,
+        active_subscriptions: state.activeSubscriptions,
+        all_purchased_product_ids: state.allPurchasedProductIds,
+        original_app_user_id: state.originalAppUserId,
+        rc_first_seen: state.revenueCatFirstSeen,
+        rc_last_seen: state.revenueCatLastSeen,
+        rc_original_purchase_date: state.revenueCatOriginalPurchaseDate,
+        rc_request_date: state.revenueCatRequestDate,
+        updatedAt: new Date(),
+      });
+
+      await this.getUserDocument(uid).update(updateData);
+    } catch (error) {
+      console.error("Repository: 更新使用者訂閱狀態時發生錯誤:", error);
+      throw new Error("無法更新使用者訂閱狀態");
+    }
+  }
+
+  /**
+   * 更新使用者的通知偏好
+   *
+   * quietHours 與未設定的提醒時間以 null 儲存，因此不使用 filterValidFields 過濾巢狀欄位
+   */
+  async updateNotificationSettings(
+    uid: string,
+    settings: NotificationSettings
+  ): Promise<void> {
+    try {
+      await this.getUserDocument(uid).update({
+        notificationSettings: settings,
+        updatedAt: new Date(),
+      });
+    } catch (error) {
+      console.error("Repository: 更新使用者通知偏好時發生錯誤:", error);
+      throw new Error("無法更新使用者通知偏好");
+    }
+  }
+
+  /**
+   * 依 UID 排序分頁取得使用者
+   */
+  async listAfter(afterUid: string | null, limit: number): Promise<AppUser[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection("users")
+        .where("uid", ">", afterUid ?? "")
+        .orderBy("uid")
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map((doc: any) =>
+        this.convertFirestoreDocToAppUser(doc)
+      );
+    } catch (error) {
+      console.error("Repository: 取得使用者列表時發生錯誤:", error);
+      throw new Error("無法從資料庫取得使用者列表");
+    }
+  }
 }
@@ -0,0 +1,173 @@
+import {
+  convertRowToWebhookEventRecord,
+  WebhookEventRecord,
+  WebhookEventRow,
+  WebhookSource,
+} from "../types/webhookEvent";
+
+/**
+ * Webhook Event Repository 介面 - 定義資料存取操作
+ */
+export interface IWebhookEventRepository {
+  /**
+   * 新增紀錄；已存在相同事件時不寫入
+   * @param record Webhook 冪等紀錄
+   * @returns 是否成功新增
+   */
+  insertIfAbsent(record: WebhookEventRecord): Promise<boolean>;
+
+  /**
+   * 取得事件紀錄
+   * @param source Webhook 來源
+   * @param eventId 事件 ID
+   * @returns 紀錄或 null
+   */
+  find(
+    source: WebhookSource,
+    eventId: string
+  ): Promise<WebhookEventRecord | null>;
+
+  /**
+   * 接手逾時仍在處理中的事件（處理中的請求可能已中斷）
+   * @param source Webhook 來源
+   * @param eventId 事件 ID
+   * @param staleBefore 早於此時間開始處理的紀錄視為逾時
+   * @param receivedAt 新的開始處理時間
+   * @returns 是否成功接手
+   */
+  reclaimStale(
+    source: WebhookSource,
+    eventId: string,
+    staleBefore: Date,
+    receivedAt: Date
+  ): Promise<boolean>;
+
+  /**
+   * 標記事件已處理完成
+   * @param source Webhook 來源
+   * @param eventId 事件 ID
+   * @param processedAt 完成時間
+   */
+  markProcessed(
+    source: WebhookSource,
+    eventId: string,
+    processedAt: Date
+  ): Promise<void>;
+
+  /**
+   * 刪除事件紀錄（處理失敗時，讓重送的事件可以重新處理）
+   * @param source Webhook 來源
+   * @param eventId 事件 ID
+   */
+  delete(source: WebhookSource, eventId: string): Promise<void>;
+}
+
+/**
+ * D1 Webhook Event Repository 實作
+ * D1 資料表：webhook_events（見 migrations/0005_add_webhook_events_table.sql）
+ */
+export class D1WebhookEventRepository implements IWebhookEventRepository {
+  constructor(private db: D1Database) {}
+
+  async insertIfAbsent(record: WebhookEventRecord): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare(
+          `INSERT OR IGNORE INTO webhook_events (
+            source, event_id, event_type, status, received_at, processed_at
+          ) VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          record.source,
+          record.eventId,
+          record.eventType,
+          record.status,
+          record.receivedAt.toISOString(),
+          record.processedAt ? record.processedAt.toISOString() : null
+        )
+        .run();
+
+      return result.meta.changes > 0;
+    } catch (error) {
+      console.error("Repository: 新增 Webhook 事件紀錄時發生錯誤:", error);
+      throw new Error("無法新增 Webhook 事件紀錄");
+    }
+  }
+
+  async find(
+    source: WebhookSource,
+    eventId: string
+  ): Promise<WebhookEventRecord | null> {
+    try {
+      const row = await this.db
+        .prepare(
+          "SELECT * FROM webhook_events WHERE source = ? AND event_id = ?"
+        )
+        .bind(source, eventId)
+        .first<WebhookEventRow>();
+
+      return row ? convertRowToWebhookEventRecord(row) : null;
+    } catch (error) {
+      console.error("Repository: 取得 Webhook 事件紀錄時發生錯誤:", error);
+      throw new Error("無法從資料庫取得 Webhook 事件紀錄");
+    }
+  }
+
+  async reclaimStale(
+    source: WebhookSource,
+    eventId: string,
+    staleBefore: Date,
+    receivedAt: Date
+  ): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare(
+          `UPDATE webhook_events SET received_at = ?
+          WHERE source = ? AND event_id = ? AND status = 'processing' AND received_at < ?`
+        )
+        .bind(
+          receivedAt.toISOString(),
+          source,
+          eventId,
+          staleBefore.toISOString()
+        )
+        .run();
+
+      return result.meta.changes > 0;
+    } catch (error) {
+      console.error("Repository: 接手 Webhook 事件時發生錯誤:", error);
+      throw new Error("無法更新 Webhook 事件紀錄");
+    }
+  }
+
+  async markProcessed(
+    source: WebhookSource,
+    eventId: string,
+    processedAt: Date
+  ): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          `UPDATE webhook_events SET status = 'processed', processed_at = ?
+          WHERE source = ? AND event_id = ?`
+        )
+        .bind(processedAt.toISOString(), source, eventId)
+        .run();
+    } catch (error) {
+      console.error("Repository: 標記 Webhook 事件完成時發生錯誤:", error);
+      throw new Error("無法更新 Webhook 事件紀錄");
+    }
+  }
+
+  async delete(source: WebhookSource, eventId: string): Promise<void> {
+    try {
+      await this.db
+        .prepare("DELETE FROM webhook_events WHERE source = ? AND event_id = ?")
+        .bind(source, eventId)
+        .run();
+    } catch (error) {
+      console.error("Repository: 刪除 Webhook 事件紀錄時發生錯誤:", error);
+      throw new Error("無法刪除 Webhook 事件紀錄");
+    }
+  }
+}
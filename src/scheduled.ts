@@ -0,0 +1,131 @@
+/**
+ * Cron Trigger 排程任務（觸發時間見 wrangler.jsonc 的 triggers.crons）
+ */
+import type { Env } from "./bindings";
+import { FirestoreDiaryRepository } from "./repositories/diaryRepository";
+import { FirestoreFcmTokenRepository } from "./repositories/fcmTokenRepository";
+import { D1MealReminderRepository } from "./repositories/mealReminderRepository";
+import { D1PromotionRepository } from "./repositories/promotionRepository";
+import { D1PushDeliveryRepository } from "./repositories/pushDeliveryRepository";
+import { D1PushDeviceRepository } from "./repositories/pushDeviceRepository";
+import { D1ScheduledEmailRepository } from "./repositories/scheduledEmailRepository";
+import { FirestoreUserRepository } from "./repositories/userRepository";
+import EmailService from "./services/emailService";
+import { FcmTokenService } from "./services/fcmTokenService";
+import { MealReminderService } from "./services/mealReminderService";
+import { PromotionService } from "./services/promotionService";
+import { createPushSender } from "./services/pushSender";
+import { ScheduledEmailService } from "./services/scheduledEmailService";
+import {
+  WORKER_SUBREQUEST_BUDGET,
+  type SubrequestBudget,
+} from "./types/subrequestBudget";
+import { getD1FromEnv } from "./utils/d1";
+import { initializeFirestore } from "./utils/firebase";
+
+/**
+ * 發送已到時間的排程郵件（試用結束提醒、挽回郵件）
+ * @param env 環境變數
+ * @param now 排程觸發時間
+ * @param budget 本次排程剩餘的子請求數
+ */
+async function sendScheduledEmails(
+  env: Env,
+  now: Date,
+  budget: SubrequestBudget
+): Promise<void> {
+  const db = getD1FromEnv(env);
+  const scheduledEmailService = new ScheduledEmailService(
+    new D1ScheduledEmailRepository(db),
+    new EmailService()
+  );
+  const result = await scheduledEmailService.sendDueEmails(env, now, budget);
+  console.log("✅ 排程郵件發送完成:", result);
+}
+
+/**
+ * 推播到期的飲食提醒
+ * @param env 環境變數
+ * @param now 排程觸發時間
+ * @param budget 本次排程剩餘的子請求數
+ */
+async function sendMealReminders(
+  env: Env,
+  now: Date,
+  budget: SubrequestBudget
+): Promise<void> {
+  const db = getD1FromEnv(env);
+  const firestore = initializeFirestore(env);
+  const mealReminderService = new MealReminderService(
+    new D1MealReminderRepository(db),
+    new FirestoreDiaryRepository(firestore),
+    new FcmTokenService(
+      new FirestoreFcmTokenRepository(firestore),
+      createPushSender(env),
+      new D1PushDeliveryRepository(db),
+      new D1PushDeviceRepository(db)
+    )
+  );
+  const result = await mealReminderService.sendDueReminders(now, budget);
+  console.log("✅ 飲食提醒推播完成:", result);
+}
+
+/**
+ * 將已到發送時間的優惠推播活動排入佇列（實際發送見 src/queue.ts）
+ * @param env 環境變數
+ * @param now 排程觸發時間
+ * @param budget 本次排程剩餘的子請求數
+ */
+async function enqueuePromotions(
+  env: Env,
+  now: Date,
+  budget: SubrequestBudget
+): Promise<void> {
+  const db = getD1FromEnv(env);
+  const firestore = initializeFirestore(env);
+  const promotionService = new PromotionService(
+    new D1PromotionRepository(db),
+    new FirestoreUserRepository(firestore),
+    new FcmTokenService(
+      new FirestoreFcmTokenRepository(firestore),
+      createPushSender(env),
+      new D1PushDeliveryRepository(db),
+      new D1PushDeviceRepository(db)
+    ),
+    new D1PushDeviceRepository(db),
+    env.PROMOTION_QUEUE
+  );
+  const count = await promotionService.enqueueDuePromotions(now, budget);
+  console.log(`✅ 優惠推播活動已排入佇列: ${count} 個`);
+}
+
+/**
+ * 依序執行所有排程任務，共用同一個子請求預算
+ * 依優先順序執行（郵件 → 飲食提醒 → 優惠推播排入佇列），單一任務失敗不影響其他任務
+ * @param env 環境變數
+ * @param now 排程觸發時間
+ */
+async function runScheduledTasks(env: Env, now: Date): Promise<void> {
+  const budget: SubrequestBudget = { remaining: WORKER_SUBREQUEST_BUDGET };
+
+  await sendScheduledEmails(env, now, budget).catch((error) =>
+    console.error("排程郵件任務失敗:", error)
+  );
+  await sendMealReminders(env, now, budget).catch((error) =>
+    console.error("飲食提醒任務失敗:", error)
+  );
+  await enqueuePromotions(env, now, budget).catch((error) =>
+    console.error("優惠推播任務失敗:", error)
+  );
+}
+
+/**
+ * Worker scheduled handler
+ */
+export const scheduled: ExportedHandlerScheduledHandler<Env> = async (
+  controller,
+  env,
+  ctx
+) => {
+  ctx.waitUntil(runScheduledTasks(env, new Date(controller.scheduledTime)));
+};
@@ -0,0 +1,322 @@
+import { IAdminAuditLogRepository } from "../repositories/adminAuditLogRepository";
+import { IAdminMetricsRepository } from "../repositories/adminMetricsRepository";
+import { IRecipeRepository } from "../repositories/recipeRepository";
+import { IUserRepository } from "../repositories/userRepository";
+import {
+  AdminAuditLog,
+  AdminMetrics,
+  AdminUserDetail,
+  AdminUserLookupQuery,
+  BackfillPushDevicesRequest,
+  BackfillRecipesRequest,
+  PushDeviceBackfillResult,
+  RecipeBackfillResult,
+  ModerateRecipeRequest,
+} from "../types/admin";
+import { IAIUsageService, toUsageDate } from "./aiUsageService";
+import { IFcmTokenService } from "./fcmTokenService";
+import { buildRecipeSearchKeys } from "./recipeService";
+
+/**
+ * 稽核紀錄列表預設筆數
+ */
+const AUDIT_LOG_LIST_LIMIT = 50;
+
+/**
+ * Admin Service 介面 - 定義業務邏輯操作
+ */
+export interface IAdminService {
+  /**
+   * 依 UID 或 email 查詢使用者
+   * @param query 查詢條件（uid 優先）
+   * @returns 使用者詳細資料或 null（找不到使用者）
+   */
+  lookupUser(query: AdminUserLookupQuery): Promise<AdminUserDetail | null>;
+
+  /**
+   * 審核食譜（下架或刪除）並寫入稽核紀錄
+   * @param adminUserId 執行操作的管理員 UID
+   * @param recipeId 食譜 ID
+   * @param request 審核操作與原因
+   * @returns 稽核紀錄
+   */
+  moderateRecipe(
+    adminUserId: string,
+    recipeId: string,
+    request: ModerateRecipeRequest
+  ): Promise<AdminAuditLog>;
+
+  /**
+   * 取得最近的稽核紀錄
+   * @param targetId 只取得指定對象的紀錄（可選）
+   * @returns 稽核紀錄列表（新到舊）
+   */
+  listAuditLogs(targetId?: string): Promise<AdminAuditLog[]>;
+
+  /**
+   * 取得營運指標
+   * @param hours 推播與 Webhook 統計的時間範圍（小時）
+   * @param now 目前時間
+   * @returns 營運指標
+   */
+  getMetrics(hours: number, now?: Date): Promise<AdminMetrics>;
+
+  /**
+   * 依實際收藏數回填一批食譜的 favoriteCount
+   * @param request 分頁游標與本批數量
+   * @returns 處理筆數與下一批游標
+   */
+  backfillFavoriteCounts(
+    request: BackfillRecipesRequest
+  ): Promise<RecipeBackfillResult>;
+
+  /**
+   * 依名稱、描述與食材重建一批食譜的搜尋索引鍵
+   * @param request 分頁游標與本批數量
+   * @returns 處理筆數與下一批游標
+   */
+  backfillSearchKeys(
+    request: BackfillRecipesRequest
+  ): Promise<RecipeBackfillResult>;
+
+  /**
+   * 以現有的 FCM Token 回填一批使用者的推播裝置資訊
+   * @param request 分頁游標與本批數量
+   * @returns 處理筆數、裝置數與下一批游標
+   */
+  backfillPushDevices(
+    request: BackfillPushDevicesRequest
+  ): Promise<PushDeviceBackfillResult>;
+}
+
+/**
+ * Admin Service - 管理員營運操作業務邏輯層
+ * 取代直接在 Firestore 主控台修改資料：使用者查詢、內容審核與營運指標
+ */
+export class AdminService implements IAdminService {
+  constructor(
+    private userRepository: IUserRepository,
+    private fcmTokenService: IFcmTokenService,
+    private aiUsageService: IAIUsageService,
+    private recipeRepository: IRecipeRepository,
+    private auditLogRepository: IAdminAuditLogRepository,
+    private metricsRepository: IAdminMetricsRepository
+  ) {}
+
+  /**
+   * 查詢使用者
+   * 業務邏輯：
+   * - uid 與 email 至少提供一個，同時提供時使用 uid
+   * - 裝置資訊不返回 FCM Token
+   */
+  async lookupUser(
+    query: AdminUserLookupQuery
+  ): Promise<AdminUserDetail | null> {
+    if (!query.uid && !query.email) {
+      throw new Error("使用者 UID 或 email 不能為空");
+    }
+
+    const user = query.uid
+      ? await this.userRepository.findById(query.uid)
+      : await this.userRepository.findByEmail(query.email!);
+
+    if (!user) {
+      return null;
+    }
+
+    const [tokens, aiUsage] = await Promise.all([
+      this.fcmTokenService.getUserTokens(user.uid),
+      this.aiUsageService.getDailyUsage(user.uid),
+    ]);
+
+    return {
+      user,
+      devices: tokens.map(({ token, ...device }) => device),
+      aiUsage,
+    };
+  }
+
+  /**
+   * 審核食譜
+   * 業務邏輯：
+   * - 已刪除的食譜視為不存在
+   * - unpublish 將食譜設為非公開，作者仍可在自己的食譜中看到
+   * - delete 軟刪除食譜
+   * - 操作完成後寫入稽核紀錄
+   */
+  async moderateRecipe(
+    adminUserId: string,
+    recipeId: string,
+    request: ModerateRecipeRequest
+  ): Promise<AdminAuditLog> {
+    const recipe = await this.recipeRepository.findById(recipeId);
+    if (!recipe) {
+      throw new Error("找不到食譜");
+    }
+
+    if (request.action === "unpublish") {
+      await this.recipeRepository.update(recipeId, { isPublic: false });
+    } else {
+      await this.recipeRepository.softDelete(recipeId);
+    }
+
+    const log: AdminAuditLog = {
+      id: crypto.randomUUID(),
+      adminUserId,
+      action: `recipe.${request.action}`,
+      targetType: "recipe",
+      targetId: recipeId,
+      reason: request.reason.trim(),
+      createdAt: new Date(),
+    };
+    await this.auditLogRepository.insert(log);
+
+    console.log(
+      `Service: 管理員 ${adminUserId} 已審核食譜 ${recipeId}（${log.action}）`
+    );
+
+    return log;
+  }
+
+  async listAuditLogs(targetId?: string): Promise<AdminAuditLog[]> {
+    return await this.auditLogRepository.findRecent(
+      AUDIT_LOG_LIST_LIMIT,
+      targetId
+    );
+  }
+
+  /**
+   * 取得營運指標
+   * 業務邏輯：
+   * - 推播送達與 Webhook 事件統計最近 hours 小時
+   * - AI 使用量統計當日（UTC）
+   * - 排程郵件與推播活動統計目前所有資料
+   */
+  async getMetrics(
+    hours: number,
+    now: Date = new Date()
+  ): Promise<AdminMetrics> {
+    const since = new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+    const [
+      pushDeliveries,
+      aiUsage,
+      webhookEvents,
+      scheduledEmails,
+      promotions,
+    ] = await Promise.all([
+      this.metricsRepository.getPushDeliveryMetrics(since),
+      this.metricsRepository.getAIUsageMetrics(toUsageDate(now)),
+      this.metricsRepository.countWebhookEventsByStatus(since),
+      this.metricsRepository.countScheduledEmailsByStatus(),
+      this.metricsRepository.countPromotionsByStatus(),
+    ]);
+
+    return {
+      generatedAt: now,
+      since,
+      pushDeliveries,
+      aiUsage,
+      webhookEvents: { byStatus: webhookEvents },
+      scheduledEmails: { byStatus: scheduledEmails },
+      promotions: { byStatus: promotions },
+    };
+  }
+
+  /**
+   * 回填食譜收藏次數
+   * 業務邏輯：
+   * - 依食譜 ID 順序分批處理，以游標接續下一批
+   * - 以 fav_recipes 的實際收藏數覆寫 favoriteCount，可重複執行
+   * - 缺少 favoriteCount 的舊食譜回填後才會出現在「最多收藏」排序中
+   */
+  async backfillFavoriteCounts(
+    request: BackfillRecipesRequest
+  ): Promise<RecipeBackfillResult> {
+    const recipeIds = await this.recipeRepository.findIdsAfter(
+      request.cursor,
+      request.limit
+    );
+
+    const counts = await Promise.all(
+      recipeIds.map((recipeId) =>
+        this.recipeRepository.countFavorites(recipeId)
+      )
+    );
+    await this.recipeRepository.setFavoriteCounts(
+      new Map(recipeIds.map((recipeId, i) => [recipeId, counts[i]]))
+    );
+
+    console.log(`Service: 已回填 ${recipeIds.length} 筆食譜的收藏次數`);
+
+    return {
+      processed: recipeIds.length,
+      nextCursor:
+        recipeIds.length < request.limit
+          ? null
+          : recipeIds[recipeIds.length - 1],
+    };
+  }
+
+  /**
+   * 回填食譜搜尋索引鍵
+   * 業務邏輯：
+   * - 依食譜 ID 順序分批處理，以游標接續下一批
+   * - 以目前的名稱、描述與食材重建 searchKeys，可重複執行
+   * - 缺少 searchKeys 的舊食譜回填後才會出現在搜尋結果中
+   */
+  async backfillSearchKeys(
+    request: BackfillRecipesRequest
+  ): Promise<RecipeBackfillResult> {
+    const recipes = await this.recipeRepository.findAfter(
+      request.cursor,
+      request.limit
+    );
+
+    await this.recipeRepository.setSearchKeys(
+      new Map(
+        recipes.map((recipe) => [recipe.id!, buildRecipeSearchKeys(recipe)])
+      )
+    );
+
+    console.log(`Service: 已回填 ${recipes.length} 筆食譜的搜尋索引鍵`);
+
+    return {
+      processed: recipes.length,
+      nextCursor:
+        recipes.length < request.limit ? null : recipes[recipes.length - 1].id!,
+    };
+  }
+
+  /**
+   * 回填推播裝置資訊
+   * 業務邏輯：
+   * - 依使用者 UID 順序分批處理，以游標接續下一批
+   * - 以目前的 FCM Token 取代 D1 中的裝置資訊，可重複執行
+   * - 推播受眾預覽依裝置資訊統計，部署推播裝置資料表前註冊的 Token 回填後才會列入
+   */
+  async backfillPushDevices(
+    request: BackfillPushDevicesRequest
+  ): Promise<PushDeviceBackfillResult> {
+    const users = await this.userRepository.listAfter(
+      request.cursor ?? null,
+      request.limit
+    );
+
+    let devices = 0;
+    for (const user of users) {
+      devices += await this.fcmTokenService.syncPushDevices(user.uid);
+    }
+
+    console.log(
+      `Service: 已回填 ${users.length} 位使用者的推播裝置資訊（${devices} 個裝置）`
+    );
+
+    return {
+      processed: users.length,
+      devices,
+      nextCursor:
+        users.length < request.limit ? null : users[users.length - 1].uid,
+    };
+  }
+}
@@ -10,10 +10,17 @@ import type {
   ChatHistory 
 } from "../types/chat";
 import type { Env } from "../bindings";
+import { getModelForCapability } from "../utils/aiProviderConfig";
+import { TokenCacheManager } from "../utils/TokenCacheManager";
+
+/**
+ * 聊天 API 的方法：generateContent（報告）或 streamGenerateContent（串流）
+ */
+type ChatApiMethod = "generateContent" | "streamGenerateContent";
 
 /**
  * AI 聊天功能服務
- * 處理與 Google Gemini AI 的交互和聊天邏輯
+ * 處理與 Google Gemini API 的交互和聊天邏輯；模型由 getModelForCapability(env, "chat") 決定
  */
 export class AIChatService {
   /**
@@ -47,16 +54,18 @@ export class AIChatService {
       generateReport
     );
 
+    const model = getModelForCapability(env, "chat");
+
     // 如果不是生成報告模式，使用串流
     if (!generateReport) {
-      return this._processStreamingChat(prompt, env);
+      return this._processStreamingChat(prompt, env, model);
     }
 
     // 報告模式使用非串流方式（需要完整結構化數據）
     const generationConfig: GenerationConfig =
       this._createReportGenerationConfig();
     console.log("chat prompt", prompt);
-    const result = await this._callGeminiAPI(env, prompt, generationConfig, "gemini-2.5-flash-lite");
+    const result = await this._callGeminiAPI(env, prompt, generationConfig, model);
 
     return this._handleReportResponse(result);
   }
@@ -65,11 +74,13 @@ export class AIChatService {
    * 處理串流聊天請求
    * @param prompt 提示詞
    * @param env 環境變數
+   * @param model 模型名稱
    * @returns 串流回應
    */
   private async _processStreamingChat(
     prompt: string,
-    env: Env
+    env: Env,
+    model: string
   ): Promise<ReadableStream<Uint8Array>> {
     const service = this;
     // 創建 ReadableStream 來處理串流回應
@@ -77,7 +88,7 @@ export class AIChatService {
       async start(controller) {
         try {
           // 使用串流方法
-          const response = await service._callGeminiStreamAPI(env, prompt, "gemini-2.5-flash-lite");
+          const response = await service._callGeminiStreamAPI(env, prompt, model);
 
           for await (const chunk of response) {
             const chunkText: string | undefined = (chunk as ResponseChunk).text;
@@ -107,19 +118,41 @@ export class AIChatService {
   }
 
   /**
-   * 調用 Gemini AI API（非串流模式）
+   * 建立 Google Gemini API 的請求網址與標頭（GOOGLE_API_KEY）
+   * @param env 環境變數
+   * @param model 模型名稱
+   * @param method API 方法
+   * @returns 請求網址與標頭
    */
-  private async _callGeminiAPI(
+  protected async _createApiRequest(
     env: Env,
-    prompt: string,
-    generationConfig: GenerationConfig,
-    model: string = "gemini-2.5-flash"
-  ): Promise<any> {
+    model: string,
+    method: ChatApiMethod
+  ): Promise<{ url: string; headers: Record<string, string> }> {
     if (!env.GOOGLE_API_KEY) {
       throw new Error("GOOGLE_API_KEY 環境變數未設定");
     }
 
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`;
+    return {
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}?key=${env.GOOGLE_API_KEY}`,
+      headers: { "Content-Type": "application/json" },
+    };
+  }
+
+  /**
+   * 調用 Gemini AI API（非串流模式）
+   */
+  protected async _callGeminiAPI(
+    env: Env,
+    prompt: string,
+    generationConfig: GenerationConfig,
+    model: string
+  ): Promise<any> {
+    const { url, headers } = await this._createApiRequest(
+      env,
+      model,
+      "generateContent"
+    );
     
     const requestBody = {
       contents: [
@@ -132,15 +165,13 @@ export class AIChatService {
       toolConfig: generationConfig.toolConfig
     };
 
-    console.log(`🤖 調用 Google GenAI API, 模型: ${model}`);
+    console.log(`🤖 調用 AI 聊天 API, 模型: ${model}`);
     console.log("📝 請求內容長度:", JSON.stringify(requestBody).length);
 
     try {
-      const response = await fetch(`${apiUrl}?key=${env.GOOGLE_API_KEY}`, {
+      const response = await fetch(url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers,
         body: JSON.stringify(requestBody)
       });
 
@@ -162,16 +193,16 @@ export class AIChatService {
   /**
    * 調用 Gemini AI API（串流模式）
    */
-  private async _callGeminiStreamAPI(
+  protected async _callGeminiStreamAPI(
     env: Env,
     prompt: string,
-    model: string = "gemini-2.5-flash"
+    model: string
   ): Promise<any> {
-    if (!env.GOOGLE_API_KEY) {
-      throw new Error("GOOGLE_API_KEY 環境變數未設定");
-    }
-
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent`;
+    const { url, headers } = await this._createApiRequest(
+      env,
+      model,
+      "streamGenerateContent"
+    );
     
     const requestBody = {
       contents: [
@@ -182,15 +213,13 @@ export class AIChatService {
       ]
     };
 
-    console.log(`🤖 調用 Google GenAI 串流 API, 模型: ${model}`);
+    console.log(`🤖 調用 AI 聊天串流 API, 模型: ${model}`);
     console.log("📝 串流請求內容長度:", JSON.stringify(requestBody).length);
 
     try {
-      const response = await fetch(`${apiUrl}?key=${env.GOOGLE_API_KEY}`, {
+      const response = await fetch(url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers,
         body: JSON.stringify(requestBody)
       });
 
@@ -450,4 +479,29 @@ export class AIChatService {
 
     return {};
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Vertex AI 聊天服務
+ * 與 AIChatService 使用相同的提示詞與回應格式，改以服務帳號調用 Vertex AI
+ */
+export class VertexAIChatService extends AIChatService {
+  /**
+   * 建立 Vertex AI 的請求網址與標頭（TokenCacheManager 取得 Access Token）
+   */
+  protected async _createApiRequest(
+    env: Env,
+    model: string,
+    method: ChatApiMethod
+  ): Promise<{ url: string; headers: Record<string, string> }> {
+    const accessToken = await TokenCacheManager.getAccessToken(env);
+
+    return {
+      url: `https://${env.VERTEX_AI_LOCATION}-aiplatform.googleapis.com/v1/projects/${env.VERTEX_AI_PROJECT_ID}/locations/${env.VERTEX_AI_LOCATION}/publishers/google/models/${model}:${method}`,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    };
+  }
+}
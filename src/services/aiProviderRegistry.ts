@@ -0,0 +1,309 @@
+import type { Env } from "../bindings";
+import { IAIChatService } from "../controllers/aiChatController";
+import { IGeminiService } from "../controllers/geminiController";
+import {
+  ImageAnalysisResult,
+  ProductLabelAnalysisResult,
+  RecipeAnalysisResult,
+} from "../types/analyze";
+import {
+  AddIngredientResult,
+  AddRecipeIngredientResult,
+  EditRecipeResult,
+  GeneratedMealPlanResult,
+  MealAnalysisResult,
+  MealPlanGenerationContext,
+  SupportedLanguage,
+  TranslateIngredientResult,
+} from "../types/gemini";
+import {
+  AICapability,
+  AIProviderName,
+  getProviderChain,
+} from "../utils/aiProviderConfig";
+import { ApiRetryUtil } from "../utils/ApiRetryUtil";
+import { getD1FromEnv } from "../utils/d1";
+import { D1AIResponseCacheRepository } from "../repositories/aiResponseCacheRepository";
+import { AIChatService, VertexAIChatService } from "./aiChatService";
+import {
+  AIResponseCacheService,
+  CACHEABLE_AI_CAPABILITIES,
+  CachedAIService,
+  CacheableAICapability,
+  getAICacheTTLSeconds,
+} from "./aiResponseCacheService";
+import { GeminiService } from "./geminiService";
+import { MockAIChatService, MockAIService } from "./mockAIService";
+import { OpenAICompatibleService } from "./openAICompatibleService";
+import { VertexAIService } from "./vertexAIService";
+
+/**
+ * 供應商鏈中的單一供應商
+ */
+export interface AIProvider {
+  name: AIProviderName;
+  service: IGeminiService;
+}
+
+/**
+ * 供應商註冊表：名稱 → 是否已設定 / 建立服務
+ */
+const AI_PROVIDER_REGISTRY: Record<
+  AIProviderName,
+  {
+    isConfigured: (env: Env) => boolean;
+    create: () => IGeminiService;
+  }
+> = {
+  vertex: {
+    isConfigured: (env) =>
+      !!env.VERTEX_AI_PROJECT_ID && !!env.VERTEX_AI_LOCATION,
+    create: () => new VertexAIService(),
+  },
+  gemini: {
+    isConfigured: (env) => !!env.GOOGLE_API_KEY,
+    create: () => new GeminiService(),
+  },
+  openai: {
+    isConfigured: (env) =>
+      !!env.OPENAI_COMPAT_BASE_URL && !!env.OPENAI_COMPAT_MODEL,
+    create: () => new OpenAICompatibleService(),
+  },
+};
+
+/**
+ * 支援 AI 聊天的供應商（OpenAI 相容端點不支援報告所需的 function calling 格式）
+ */
+const AI_CHAT_PROVIDER_REGISTRY: Partial<
+  Record<AIProviderName, () => AIChatService>
+> = {
+  vertex: () => new VertexAIChatService(),
+  gemini: () => new AIChatService(),
+};
+
+/**
+ * Fallback AI 服務類
+ * 依序調用供應商鏈，遇到 5xx / 429 / 超時 / 網路錯誤（ApiRetryUtil.isFailoverError）
+ * 時切換到下一個供應商；其他錯誤直接拋出
+ */
+export class FallbackAIService implements IGeminiService {
+  constructor(private providers: AIProvider[]) {
+    if (providers.length === 0) {
+      throw new Error("AI 供應商鏈不能為空");
+    }
+  }
+
+  async analyzeMealText(
+    userInput: string,
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<MealAnalysisResult> {
+    return this.withFallback("analyzeMealText", (service) =>
+      service.analyzeMealText(userInput, userLanguage, env)
+    );
+  }
+
+  async analyzeIngredient(
+    userInput: string,
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<AddIngredientResult> {
+    return this.withFallback("analyzeIngredient", (service) =>
+      service.analyzeIngredient(userInput, userLanguage, env)
+    );
+  }
+
+  async analyzeRecipeIngredient(
+    userInput: string,
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<AddRecipeIngredientResult> {
+    return this.withFallback("analyzeRecipeIngredient", (service) =>
+      service.analyzeRecipeIngredient(userInput, userLanguage, env)
+    );
+  }
+
+  async analyzeImages(
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env,
+    userInput?: string | null
+  ): Promise<ImageAnalysisResult> {
+    return this.withFallback("analyzeImages", (service) =>
+      service.analyzeImages(imageFiles, userLanguage, env, userInput)
+    );
+  }
+
+  async createRecipeFromImages(
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env,
+    userInput?: string | null
+  ): Promise<RecipeAnalysisResult> {
+    return this.withFallback("createRecipeFromImages", (service) =>
+      service.createRecipeFromImages(imageFiles, userLanguage, env, userInput)
+    );
+  }
+
+  async editRecipe(
+    name: string,
+    description: string,
+    stepTexts: string[],
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<EditRecipeResult> {
+    return this.withFallback("editRecipe", (service) =>
+      service.editRecipe(name, description, stepTexts, userLanguage, env)
+    );
+  }
+
+  async translateIngredient(
+    userInput: string,
+    env: Env
+  ): Promise<TranslateIngredientResult> {
+    return this.withFallback("translateIngredient", (service) =>
+      service.translateIngredient(userInput, env)
+    );
+  }
+
+  async generateMealPlan(
+    context: MealPlanGenerationContext,
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<GeneratedMealPlanResult> {
+    return this.withFallback("generateMealPlan", (service) =>
+      service.generateMealPlan(context, userLanguage, env)
+    );
+  }
+
+  async analyzeProductLabel(
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<ProductLabelAnalysisResult> {
+    return this.withFallback("analyzeProductLabel", (service) =>
+      service.analyzeProductLabel(imageFiles, userLanguage, env)
+    );
+  }
+
+  /**
+   * 依序嘗試供應商鏈
+   * @param operation 功能名稱（用於日誌）
+   * @param call 對單一供應商的調用
+   * @returns 第一個成功供應商的結果
+   */
+  private async withFallback<T>(
+    operation: AICapability,
+    call: (service: IGeminiService) => Promise<T>
+  ): Promise<T> {
+    for (let i = 0; i < this.providers.length; i++) {
+      const provider = this.providers[i];
+      const nextProvider = this.providers[i + 1];
+
+      try {
+        return await call(provider.service);
+      } catch (error) {
+        if (!nextProvider || !ApiRetryUtil.isFailoverError(error)) {
+          throw error;
+        }
+
+        console.warn(
+          `⚠️ ${provider.name} ${operation} 失敗，切換到 ${nextProvider.name}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    // providers 不為空，迴圈一定會返回或拋出
+    throw new Error("AI 供應商鏈不能為空");
+  }
+}
+
+/**
+ * 是否使用 fixtures 回放的 Mock AI（AI_MOCK_MODE=true）
+ */
+export function isMockAIMode(env: Env): boolean {
+  return env.AI_MOCK_MODE === "true";
+}
+
+/**
+ * 建立指定功能使用的 AI 服務
+ * - AI_MOCK_MODE=true 時直接返回 MockAIService，不調用任何供應商
+ * - 依 getProviderChain 決定供應商順序，略過未設定的供應商
+ * - 只有一個供應商時直接返回該服務，不包裝 fallback
+ * - 可快取的功能在有 D1 且 AI_CACHE_TTL_SECONDS 不為 0 時包裝 CachedAIService
+ *
+ * @param env 環境變數
+ * @param capability AI 功能（決定偏好的供應商）
+ * @returns AI 服務
+ */
+export function createAIService(
+  env: Env,
+  capability?: AICapability
+): IGeminiService {
+  if (isMockAIMode(env)) {
+    return new MockAIService();
+  }
+
+  const chain = getProviderChain(env, capability);
+  const configured = chain.filter((name) =>
+    AI_PROVIDER_REGISTRY[name].isConfigured(env)
+  );
+
+  // 全部未設定時仍使用第一個供應商，讓錯誤訊息指出缺少的設定
+  const names = configured.length > 0 ? configured : chain.slice(0, 1);
+
+  const providers = names.map((name) => ({
+    name,
+    service: AI_PROVIDER_REGISTRY[name].create(),
+  }));
+
+  const service =
+    providers.length === 1
+      ? providers[0].service
+      : new FallbackAIService(providers);
+
+  const cacheable =
+    capability !== undefined &&
+    CACHEABLE_AI_CAPABILITIES.includes(capability as CacheableAICapability);
+
+  if (!cacheable || getAICacheTTLSeconds(env) === 0) {
+    return service;
+  }
+
+  return new CachedAIService(
+    service,
+    new AIResponseCacheService(
+      new D1AIResponseCacheRepository(getD1FromEnv(env))
+    )
+  );
+}
+
+/**
+ * 建立 AI 聊天服務
+ * - AI_MOCK_MODE=true 時返回 MockAIChatService
+ * - 依 getProviderChain(env, "chat") 使用第一個已設定且支援聊天的供應商
+ * - 串流回應已開始後無法切換供應商，因此不包裝 fallback
+ *
+ * @param env 環境變數
+ * @returns AI 聊天服務
+ */
+export function createAIChatService(env: Env): IAIChatService {
+  if (isMockAIMode(env)) {
+    return new MockAIChatService();
+  }
+
+  const chain = getProviderChain(env, "chat").filter(
+    (name) => AI_CHAT_PROVIDER_REGISTRY[name] !== undefined
+  );
+
+  // 全部未設定時仍使用第一個供應商，讓錯誤訊息指出缺少的設定
+  const name =
+    chain.find((provider) =>
+      AI_PROVIDER_REGISTRY[provider].isConfigured(env)
+    ) ??
+    chain[0] ??
+    "gemini";
+
+  return AI_CHAT_PROVIDER_REGISTRY[name]!();
+}
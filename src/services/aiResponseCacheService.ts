@@ -0,0 +1,348 @@
+import type { Env } from "../bindings";
+import { IGeminiService } from "../controllers/geminiController";
+import { IAIResponseCacheRepository } from "../repositories/aiResponseCacheRepository";
+import {
+  ImageAnalysisResult,
+  ProductLabelAnalysisResult,
+  RecipeAnalysisResult,
+} from "../types/analyze";
+import {
+  AddIngredientResult,
+  AddRecipeIngredientResult,
+  addIngredientJsonSchema,
+  addMealJsonSchema,
+  EditRecipeResult,
+  GeneratedMealPlanResult,
+  MealAnalysisResult,
+  MealPlanGenerationContext,
+  SupportedLanguage,
+  TranslateIngredientResult,
+  translateIngredientJsonSchema,
+} from "../types/gemini";
+import { getModelForCapability } from "../utils/aiProviderConfig";
+import {
+  createAddIngredientPrompt,
+  createAddMealPrompt,
+  createTranslateIngredientPrompt,
+} from "../utils/geminiPrompts";
+import { countSevereCorrections } from "../utils/nutritionConsistency";
+
+/**
+ * 可快取的 AI 功能（純文字輸入、結果與使用者無關）
+ */
+export type CacheableAICapability =
+  "analyzeMealText" | "analyzeIngredient" | "translateIngredient";
+
+export const CACHEABLE_AI_CAPABILITIES: CacheableAICapability[] = [
+  "analyzeMealText",
+  "analyzeIngredient",
+  "translateIngredient",
+];
+
+/**
+ * 預設快取有效期：30 天
+ */
+const DEFAULT_AI_CACHE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * 計算提示詞版本時代入的輸入佔位字串
+ */
+const PROMPT_INPUT_PLACEHOLDER = "{{input}}";
+
+/**
+ * 不分語言的功能（例如翻譯成英文）使用的語言欄位
+ */
+const ANY_LANGUAGE = "*";
+
+/**
+ * 取得快取有效期（秒）
+ * AI_CACHE_TTL_SECONDS 設為 0 時停用快取
+ */
+export function getAICacheTTLSeconds(env: Env): number {
+  const ttl = Number(env.AI_CACHE_TTL_SECONDS);
+  return env.AI_CACHE_TTL_SECONDS !== undefined &&
+    Number.isFinite(ttl) &&
+    ttl >= 0
+    ? ttl
+    : DEFAULT_AI_CACHE_TTL_SECONDS;
+}
+
+/**
+ * 正規化快取輸入，讓「1 Banana」、「 1  banana. 」命中同一筆快取
+ * - Unicode NFKC（全形轉半形）
+ * - 轉小寫、合併空白、移除前後空白與結尾標點
+ */
+export function normalizeCacheInput(input: string): string {
+  return input
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[.。!！?？,，、;；~～]+$/u, "")
+    .trim();
+}
+
+/**
+ * 計算字串的 SHA-256（十六進位）
+ */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * 取得功能的提示詞模板與 function calling schema
+ * 以佔位字串代入輸入，geminiPrompts.ts 的模板或 schema 一改動，版本即改變
+ */
+function getPromptTemplate(
+  capability: CacheableAICapability,
+  language: SupportedLanguage
+): string {
+  switch (capability) {
+    case "analyzeMealText":
+      return (
+        createAddMealPrompt(PROMPT_INPUT_PLACEHOLDER, language) +
+        JSON.stringify(addMealJsonSchema)
+      );
+    case "analyzeIngredient":
+      return (
+        createAddIngredientPrompt(PROMPT_INPUT_PLACEHOLDER, language) +
+        JSON.stringify(addIngredientJsonSchema)
+      );
+    case "translateIngredient":
+      return (
+        createTranslateIngredientPrompt(PROMPT_INPUT_PLACEHOLDER) +
+        JSON.stringify(translateIngredientJsonSchema)
+      );
+  }
+}
+
+/**
+ * AI Response Cache Service 介面 - 定義業務邏輯操作
+ */
+export interface IAIResponseCacheService {
+  /**
+   * 取得快取結果，未命中時調用 AI 並寫入快取
+   * @param capability AI 功能
+   * @param input 用戶輸入
+   * @param language 用戶語言（null 表示結果與語言無關）
+   * @param env 環境變數
+   * @param compute 未命中時調用 AI
+   * @returns AI 分析結果
+   */
+  getOrCompute<T extends { error?: string }>(
+    capability: CacheableAICapability,
+    input: string,
+    language: SupportedLanguage | null,
+    env: Env,
+    compute: () => Promise<T>
+  ): Promise<T>;
+}
+
+/**
+ * AI Response Cache Service - 以正規化輸入快取 AI 結果
+ *
+ * 業務邏輯：
+ * - key = SHA-256(功能 + 語言 + 提示詞版本 + 正規化輸入)
+ * - 提示詞版本 = SHA-256(提示詞模板 + function calling schema + 模型)，
+ *   修改 geminiPrompts.ts 或 AI_MODEL_OVERRIDES 後舊快取自動失效
+ * - 只快取成功且不需要嚴重營養素修正的結果
+ * - 快取讀寫失敗不影響請求，直接調用 AI
+ */
+export class AIResponseCacheService implements IAIResponseCacheService {
+  constructor(private cacheRepository: IAIResponseCacheRepository) {}
+
+  async getOrCompute<T extends { error?: string }>(
+    capability: CacheableAICapability,
+    input: string,
+    language: SupportedLanguage | null,
+    env: Env,
+    compute: () => Promise<T>
+  ): Promise<T> {
+    const normalizedInput = normalizeCacheInput(input);
+    const languageKey = language ?? ANY_LANGUAGE;
+
+    let cacheKey: string;
+    let promptVersion: string;
+    try {
+      promptVersion = await sha256Hex(
+        [
+          getPromptTemplate(capability, language ?? "en"),
+          getModelForCapability(env, capability),
+        ].join("\n")
+      );
+      cacheKey = await sha256Hex(
+        [capability, languageKey, promptVersion, normalizedInput].join("\n")
+      );
+
+      const cached = await this.cacheRepository.findValid(cacheKey, new Date());
+      if (cached) {
+        console.log(`⚡ AI 快取命中: ${capability} "${normalizedInput}"`);
+        this.cacheRepository
+          .incrementHitCount(cacheKey)
+          .catch((error) => console.error("更新快取命中次數失敗:", error));
+        return cached.response as T;
+      }
+    } catch (error) {
+      console.error("讀取 AI 快取失敗，直接調用 AI:", error);
+      return compute();
+    }
+
+    const result = await compute();
+
+    if (!this.isCacheable(result)) {
+      return result;
+    }
+
+    try {
+      const now = new Date();
+      await this.cacheRepository.save({
+        cacheKey,
+        capability,
+        language: languageKey,
+        promptVersion,
+        normalizedInput,
+        response: result,
+        hitCount: 0,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + getAICacheTTLSeconds(env) * 1000),
+      });
+    } catch (error) {
+      console.error("寫入 AI 快取失敗:", error);
+    }
+
+    return result;
+  }
+
+  /**
+   * 判斷結果是否可以快取（成功且不需要嚴重營養素修正）
+   */
+  private isCacheable(result: {
+    error?: string;
+    nutritionCorrections?: MealAnalysisResult["nutritionCorrections"];
+  }): boolean {
+    return (
+      !result.error && countSevereCorrections(result.nutritionCorrections) === 0
+    );
+  }
+}
+
+/**
+ * 快取 AI 服務類
+ * 包裝任一 IGeminiService，對可快取的功能先查詢快取，其餘功能直接轉呼叫
+ */
+export class CachedAIService implements IGeminiService {
+  constructor(
+    private service: IGeminiService,
+    private cacheService: IAIResponseCacheService
+  ) {}
+
+  async analyzeMealText(
+    userInput: string,
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<MealAnalysisResult> {
+    return this.cacheService.getOrCompute(
+      "analyzeMealText",
+      userInput,
+      userLanguage,
+      env,
+      () => this.service.analyzeMealText(userInput, userLanguage, env)
+    );
+  }
+
+  async analyzeIngredient(
+    userInput: string,
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<AddIngredientResult> {
+    return this.cacheService.getOrCompute(
+      "analyzeIngredient",
+      userInput,
+      userLanguage,
+      env,
+      () => this.service.analyzeIngredient(userInput, userLanguage, env)
+    );
+  }
+
+  async translateIngredient(
+    userInput: string,
+    env: Env
+  ): Promise<TranslateIngredientResult> {
+    return this.cacheService.getOrCompute(
+      "translateIngredient",
+      userInput,
+      null,
+      env,
+      () => this.service.translateIngredient(userInput, env)
+    );
+  }
+
+  async analyzeRecipeIngredient(
+    userInput: string,
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<AddRecipeIngredientResult> {
+    return this.service.analyzeRecipeIngredient(userInput, userLanguage, env);
+  }
+
+  async analyzeImages(
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env,
+    userInput?: string | null
+  ): Promise<ImageAnalysisResult> {
+    return this.service.analyzeImages(imageFiles, userLanguage, env, userInput);
+  }
+
+  async createRecipeFromImages(
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env,
+    userInput?: string | null
+  ): Promise<RecipeAnalysisResult> {
+    return this.service.createRecipeFromImages(
+      imageFiles,
+      userLanguage,
+      env,
+      userInput
+    );
+  }
+
+  async editRecipe(
+    name: string,
+    description: string,
+    stepTexts: string[],
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<EditRecipeResult> {
+    return this.service.editRecipe(
+      name,
+      description,
+      stepTexts,
+      userLanguage,
+      env
+    );
+  }
+
+  async generateMealPlan(
+    context: MealPlanGenerationContext,
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<GeneratedMealPlanResult> {
+    return this.service.generateMealPlan(context, userLanguage, env);
+  }
+
+  async analyzeProductLabel(
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<ProductLabelAnalysisResult> {
+    return this.service.analyzeProductLabel(imageFiles, userLanguage, env);
+  }
+}
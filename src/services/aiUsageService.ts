@@ -0,0 +1,241 @@
+import { IAIUsageRepository } from "../repositories/aiUsageRepository";
+import { IUserRepository } from "../repositories/userRepository";
+import {
+  AI_USAGE_ENDPOINTS,
+  AIQuotaInfo,
+  AIUsageEndpoint,
+  AIUsageSummary,
+  AIUsageTier,
+} from "../types/aiUsage";
+import { AppUser } from "../types/user";
+
+/**
+ * 各方案每日 AI 使用上限
+ * premium 仍設上限，避免單一帳號濫用
+ */
+export const AI_DAILY_LIMITS: Record<
+  AIUsageTier,
+  Record<AIUsageEndpoint, number>
+> = {
+  free: {
+    "add-meal": 10,
+    "analyze-images": 5,
+    "analyze-label": 5,
+    "add-recipe": 3,
+    "add-ingredient": 20,
+    "add-recipe-ingredient": 20,
+    "edit-recipe": 3,
+    chat: 10,
+    "translate-ingredient": 30,
+    "generate-meal-plan": 1,
+  },
+  premium: {
+    "add-meal": 100,
+    "analyze-images": 50,
+    "analyze-label": 50,
+    "add-recipe": 30,
+    "add-ingredient": 200,
+    "add-recipe-ingredient": 200,
+    "edit-recipe": 30,
+    chat: 100,
+    "translate-ingredient": 300,
+    "generate-meal-plan": 10,
+  },
+};
+
+/**
+ * 配額檢查結果
+ */
+export interface AIQuotaCheckResult {
+  allowed: boolean;
+  usageDate: string;
+  quota: AIQuotaInfo;
+}
+
+/**
+ * 取得 UTC 日期字串（YYYY-MM-DD）
+ */
+export function toUsageDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 取得下一個 UTC 午夜（配額重置時間）
+ */
+export function getNextUsageReset(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+  );
+}
+
+/**
+ * 依 RevenueCat 資料判斷使用者方案
+ * - 任一 entitlement 為 isActive 且尚未過期 → premium
+ * - 有 activeSubscriptions → premium
+ * - 其他（包含找不到使用者）→ free
+ */
+export function resolveAIUsageTier(
+  user: AppUser | null,
+  now: Date = new Date()
+): AIUsageTier {
+  if (!user) {
+    return "free";
+  }
+
+  const hasActiveEntitlement = Object.values(user.entitlements ?? {}).some(
+    (entitlement) =>
+      entitlement.isActive &&
+      (!entitlement.expiresDate || new Date(entitlement.expiresDate) > now)
+  );
+
+  if (hasActiveEntitlement || (user.activeSubscriptions ?? []).length > 0) {
+    return "premium";
+  }
+
+  return "free";
+}
+
+/**
+ * AI Usage Service 介面 - 定義業務邏輯操作
+ */
+export interface IAIUsageService {
+  /**
+   * 檢查並消耗一次 AI 使用配額
+   * @param userId 使用者 ID
+   * @param endpoint AI 端點
+   * @param now 目前時間
+   * @returns 是否允許與配額資訊
+   */
+  consume(
+    userId: string,
+    endpoint: AIUsageEndpoint,
+    now?: Date
+  ): Promise<AIQuotaCheckResult>;
+
+  /**
+   * 退還一次 AI 使用配額
+   * @param userId 使用者 ID
+   * @param endpoint AI 端點
+   * @param usageDate 消耗配額的日期（YYYY-MM-DD）
+   */
+  refund(
+    userId: string,
+    endpoint: AIUsageEndpoint,
+    usageDate: string
+  ): Promise<void>;
+
+  /**
+   * 取得使用者當日 AI 使用量
+   * @param userId 使用者 ID
+   * @param now 目前時間
+   * @returns 使用量摘要
+   */
+  getDailyUsage(userId: string, now?: Date): Promise<AIUsageSummary>;
+}
+
+/**
+ * AI Usage Service - 每位使用者每日 AI 使用量計量
+ */
+export class AIUsageService implements IAIUsageService {
+  constructor(
+    private usageRepository: IAIUsageRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  /**
+   * 檢查並消耗一次 AI 使用配額
+   * 業務邏輯：
+   * - 依 RevenueCat entitlements 決定 free / premium 上限
+   * - 以 UTC 日期分日計算，每個端點各自計數
+   * - 未達上限時原子累加，已達上限時不累加並返回 allowed=false
+   */
+  async consume(
+    userId: string,
+    endpoint: AIUsageEndpoint,
+    now: Date = new Date()
+  ): Promise<AIQuotaCheckResult> {
+    const tier = await this.getTier(userId, now);
+    const limit = AI_DAILY_LIMITS[tier][endpoint];
+    const usageDate = toUsageDate(now);
+
+    const count = await this.usageRepository.incrementWithinLimit(
+      userId,
+      usageDate,
+      endpoint,
+      limit
+    );
+
+    const used = count ?? limit;
+
+    return {
+      allowed: count !== null,
+      usageDate,
+      quota: {
+        endpoint,
+        used,
+        limit,
+        remaining: Math.max(limit - used, 0),
+        tier,
+        resetAt: getNextUsageReset(now),
+      },
+    };
+  }
+
+  /**
+   * 退還一次 AI 使用配額
+   * 業務邏輯：
+   * - AI 調用失敗的請求不計入使用量
+   */
+  async refund(
+    userId: string,
+    endpoint: AIUsageEndpoint,
+    usageDate: string
+  ): Promise<void> {
+    await this.usageRepository.decrement(userId, usageDate, endpoint);
+  }
+
+  /**
+   * 取得使用者當日 AI 使用量
+   * 業務邏輯：
+   * - 列出所有計量端點，未使用的端點 used 為 0
+   */
+  async getDailyUsage(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<AIUsageSummary> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    const tier = await this.getTier(userId, now);
+    const usageDate = toUsageDate(now);
+    const counts = await this.usageRepository.findCountsByDate(
+      userId,
+      usageDate
+    );
+
+    return {
+      date: usageDate,
+      tier,
+      resetAt: getNextUsageReset(now),
+      endpoints: AI_USAGE_ENDPOINTS.map((endpoint) => {
+        const limit = AI_DAILY_LIMITS[tier][endpoint];
+        const used = counts[endpoint] ?? 0;
+        return {
+          endpoint,
+          used,
+          limit,
+          remaining: Math.max(limit - used, 0),
+        };
+      }),
+    };
+  }
+
+  /**
+   * 取得使用者方案
+   */
+  private async getTier(userId: string, now: Date): Promise<AIUsageTier> {
+    const user = await this.userRepository.findById(userId);
+    return resolveAIUsageTier(user, now);
+  }
+}
@@ -1,60 +1,294 @@
 import { AppContext } from '../types';
+import type { UserRole } from '../types/admin';
 
 /**
- * Validate Firebase ID token and extract user ID
- * 
- * NOTE: This is a simplified implementation for development.
- * In production, you should use proper JWT verification with Firebase's public keys
- * or the Firebase Admin SDK for complete security.
- * 
+ * Authenticated user resolved from a Firebase ID token
+ */
+export interface AuthenticatedUser {
+  userId: string;
+  role: UserRole;
+}
+
+/**
+ * Google public keys that sign Firebase ID tokens (JWK set)
+ */
+const FIREBASE_JWKS_URL =
+  'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+/**
+ * Allowed clock skew when checking token timestamps (seconds)
+ */
+const CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Minimum interval between key refreshes triggered by an unknown key ID (ms)
+ */
+const UNKNOWN_KID_REFRESH_INTERVAL_MS = 60 * 1000;
+
+declare const verifiedTokenBrand: unique symbol;
+
+/**
+ * Payload of a Firebase ID token whose signature and claims passed verifyFirebaseToken
+ * Only verifyFirebaseToken creates this type, so custom claims (e.g. admin roles)
+ * can't be read from a token that was merely decoded
+ */
+export type VerifiedFirebaseToken = Record<string, any> & {
+  readonly [verifiedTokenBrand]: true;
+};
+
+interface FirebasePublicKeys {
+  keys: Map<string, CryptoKey>;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+// Cached per isolate until the Cache-Control max-age of the JWK set expires
+let firebasePublicKeys: FirebasePublicKeys | null = null;
+
+/**
+ * Decode a base64url JWT segment
+ */
+function base64UrlDecode(segment: string): Uint8Array {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Decode a base64url JWT segment as JSON
+ */
+function decodeJsonSegment(segment: string): Record<string, any> {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+}
+
+/**
+ * Fetch and import the public keys that sign Firebase ID tokens
+ */
+async function fetchFirebasePublicKeys(): Promise<FirebasePublicKeys> {
+  const response = await fetch(FIREBASE_JWKS_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Firebase public keys: ${response.status}`);
+  }
+
+  const body = (await response.json()) as {
+    keys?: (JsonWebKey & { kid?: string })[];
+  };
+  const keys = new Map<string, CryptoKey>();
+  for (const jwk of body.keys ?? []) {
+    if (!jwk.kid) {
+      continue;
+    }
+    keys.set(
+      jwk.kid,
+      await crypto.subtle.importKey(
+        'jwk',
+        jwk,
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['verify']
+      )
+    );
+  }
+
+  const maxAge = /max-age=(\d+)/.exec(
+    response.headers.get('Cache-Control') ?? ''
+  );
+  const now = Date.now();
+  return {
+    keys,
+    fetchedAt: now,
+    expiresAt: now + (maxAge ? Number(maxAge[1]) : 3600) * 1000,
+  };
+}
+
+/**
+ * Get the public key for a token key ID, refreshing the cached key set when it
+ * has expired or (at most once a minute) when the key ID is unknown
+ */
+async function getFirebasePublicKey(kid: string): Promise<CryptoKey | null> {
+  const now = Date.now();
+  const cached = firebasePublicKeys;
+  const shouldRefresh =
+    !cached ||
+    now >= cached.expiresAt ||
+    (!cached.keys.has(kid) &&
+      now - cached.fetchedAt >= UNKNOWN_KID_REFRESH_INTERVAL_MS);
+
+  if (shouldRefresh) {
+    firebasePublicKeys = await fetchFirebasePublicKeys();
+  }
+
+  return firebasePublicKeys?.keys.get(kid) ?? null;
+}
+
+/**
+ * Verify a Firebase ID token and return its payload (including custom claims)
+ * Follows https://firebase.google.com/docs/auth/admin/verify-id-tokens:
+ * - RS256 signature by one of Google's securetoken public keys (matched by kid)
+ * - aud is the Firebase project ID and iss is https://securetoken.google.com/<project ID>
+ * - exp is in the future, iat and auth_time are in the past, sub is a non-empty string
+ *
  * @param idToken Firebase ID token
- * @param env Environment variables (for future use with proper verification)
- * @returns User ID if token is valid, null otherwise
+ * @param env Environment variables (FIREBASE_PROJECT_ID)
+ * @returns Token payload if the token is valid, null otherwise
  */
-export async function validateFirebaseToken(idToken: string, env: any): Promise<string | null> {
+export async function verifyFirebaseToken(
+  idToken: string,
+  env: { FIREBASE_PROJECT_ID?: string }
+): Promise<VerifiedFirebaseToken | null> {
   try {
-    // Basic validation - check if token has proper JWT format
-    if (!idToken || !idToken.startsWith('eyJ')) {
+    const projectId = env.FIREBASE_PROJECT_ID;
+    if (!projectId) {
+      console.error(
+        'FIREBASE_PROJECT_ID is not configured; rejecting ID token'
+      );
       return null;
     }
-    
-    // Split JWT into parts
-    const parts = idToken.split('.');
+
+    const parts = idToken ? idToken.split('.') : [];
     if (parts.length !== 3) {
       return null;
     }
-    
-    // Extract payload from JWT (basic implementation)
-    const payload = JSON.parse(atob(parts[1]));
-    
-    // Basic validation - check if token is not expired
+
+    const header = decodeJsonSegment(parts[0]);
+    const payload = decodeJsonSegment(parts[1]);
+
+    if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+      console.warn('Token has an unexpected algorithm or key ID');
+      return null;
+    }
+
     const now = Math.floor(Date.now() / 1000);
-    if (payload.exp && payload.exp < now) {
+    if (typeof payload.exp !== 'number' || payload.exp <= now) {
       console.warn('Token expired');
       return null;
     }
-    
-    // Check if token was issued in the future (basic security check)
-    if (payload.iat && payload.iat > now + 60) { // Allow 1 minute clock skew
+
+    if (
+      typeof payload.iat !== 'number' ||
+      payload.iat > now + CLOCK_SKEW_SECONDS ||
+      (payload.auth_time !== undefined &&
+        (typeof payload.auth_time !== 'number' ||
+          payload.auth_time > now + CLOCK_SKEW_SECONDS))
+    ) {
       console.warn('Token issued in the future');
       return null;
     }
-    
-    // Extract user ID from token
-    const userId = payload.sub || payload.user_id || payload.uid;
-    
-    if (!userId) {
-      console.warn('No user ID found in token');
+
+    if (
+      payload.aud !== projectId ||
+      payload.iss !== `https://securetoken.google.com/${projectId}`
+    ) {
+      console.warn('Token was not issued for this Firebase project');
       return null;
     }
-    
-    return userId;
+
+    if (typeof payload.sub !== 'string' || payload.sub === '') {
+      console.warn('Token has no subject');
+      return null;
+    }
+
+    const publicKey = await getFirebasePublicKey(header.kid);
+    if (!publicKey) {
+      console.warn('Token signed with an unknown key');
+      return null;
+    }
+
+    const signatureValid = await crypto.subtle.verify(
+      'RSASSA-PKCS1-v1_5',
+      publicKey,
+      base64UrlDecode(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+    if (!signatureValid) {
+      console.warn('Token signature is invalid');
+      return null;
+    }
+
+    return payload as VerifiedFirebaseToken;
   } catch (error) {
     console.error('Error validating Firebase token:', error);
     return null;
   }
 }
 
+/**
+ * Extract user ID from verified token payload
+ * @param payload Verified Firebase ID token payload
+ * @returns User ID or null if not found
+ */
+function getUserIdFromPayload(payload: VerifiedFirebaseToken): string | null {
+  const userId = payload.sub;
+  
+  if (!userId) {
+    console.warn('No user ID found in token');
+    return null;
+  }
+  
+  return userId;
+}
+
+/**
+ * Validate Firebase ID token and extract user ID
+ * @param idToken Firebase ID token
+ * @param env Environment variables (FIREBASE_PROJECT_ID)
+ * @returns User ID if token is valid, null otherwise
+ */
+export async function validateFirebaseToken(idToken: string, env: any): Promise<string | null> {
+  const payload = await verifyFirebaseToken(idToken, env);
+  return payload ? getUserIdFromPayload(payload) : null;
+}
+
+/**
+ * Resolve user role from Firebase custom claims or the ADMIN_USER_IDS allowlist
+ * Custom claims are set with the Admin SDK, e.g. setCustomUserClaims(uid, { admin: true })
+ * or setCustomUserClaims(uid, { role: 'admin' }), and are only trusted from a verified token
+ * @param claims Verified Firebase ID token payload
+ * @param userId User ID
+ * @param env Environment variables
+ * @returns User role
+ */
+export function resolveUserRole(
+  claims: VerifiedFirebaseToken,
+  userId: string,
+  env: { ADMIN_USER_IDS?: string }
+): UserRole {
+  if (claims.admin === true || claims.role === 'admin') {
+    return 'admin';
+  }
+  
+  const adminUserIds = (env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  
+  return adminUserIds.includes(userId) ? 'admin' : 'user';
+}
+
+/**
+ * Extract authenticated user (ID and role) from Authorization header in Hono context
+ * @param c Hono context
+ * @returns Authenticated user if authentication is successful, null otherwise
+ */
+export async function getAuthenticatedUserFromContext(c: AppContext): Promise<AuthenticatedUser | null> {
+  const token = extractBearerToken(c);
+  if (!token) {
+    return null;
+  }
+  
+  const payload = await verifyFirebaseToken(token, c.env);
+  if (!payload) {
+    return null;
+  }
+  
+  const userId = getUserIdFromPayload(payload);
+  if (!userId) {
+    return null;
+  }
+  
+  return { userId, role: resolveUserRole(payload, userId, c.env) };
+}
+
 /**
  * Extract user ID from Authorization header in Hono context
  * @param c Hono context
@@ -0,0 +1,304 @@
+import type { Env } from "../bindings";
+import { IDiaryService } from "../controllers/diaryController";
+import { IGeminiService } from "../controllers/geminiController";
+import { ImageAnalysisResult } from "../types/analyze";
+import { Diary, TaskStatus } from "../types/diary";
+import { SupportedLanguage } from "../types/gemini";
+import { CreateDiaryWithImagesRequest } from "../types/image";
+import { analyzeWithNutritionRetry } from "../utils/nutritionConsistency";
+
+// 背景分析各階段完成時的進度（百分比）
+const PROGRESS_CREATED = 0;
+const PROGRESS_UPLOADED = 30;
+const PROGRESS_DONE = 100;
+
+// 分析完成前的暫時名稱（客戶端應依 status 顯示在地化文字）
+const ANALYZING_PLACEHOLDER_NAME = "分析中";
+
+/**
+ * 圖片分析工作的請求資料
+ */
+export interface DiaryAnalysisRequest {
+  imageFiles: File[];
+  userLanguage: SupportedLanguage;
+  userInput?: string | null;
+  diaryDate: Date;
+}
+
+/**
+ * Diary Analysis Service 介面 - 定義業務邏輯操作
+ */
+export interface IDiaryAnalysisService {
+  /**
+   * 建立分析中的 diary 並啟動背景分析工作
+   * @param userId 使用者 ID
+   * @param request 分析請求
+   * @param env 環境變數
+   * @returns 建立的 diary 與背景工作（交給 waitUntil 等待）
+   */
+  startImageAnalysis(
+    userId: string,
+    request: DiaryAnalysisRequest,
+    env: Env
+  ): Promise<{ diary: Diary; job: Promise<void> }>;
+
+  /**
+   * 建立上傳中的 diary 並啟動背景圖片上傳工作
+   * @param userId 使用者 ID
+   * @param request 包含圖片的 Diary 建立請求
+   * @returns 建立的 diary 與背景工作（交給 waitUntil 等待）
+   */
+  startImageUpload(
+    userId: string,
+    request: CreateDiaryWithImagesRequest
+  ): Promise<{ diary: Diary; job: Promise<void> }>;
+}
+
+/**
+ * Diary Analysis Service - 業務邏輯層
+ * 負責非同步的餐點圖片分析：請求只建立 diary 並立即返回，
+ * 圖片上傳與 AI 分析在背景執行，避免 Worker 請求逾時（524）
+ *
+ * 狀態流程：UPLOADING → ANALYZING → DONE / FAILED
+ * 客戶端透過 GET /diaries/:id 輪詢 status 與 progress；
+ * 背景工作被中斷時，DiaryService 讀取到逾時的 diary 會將其標記為 FAILED
+ */
+export class DiaryAnalysisService implements IDiaryAnalysisService {
+  constructor(
+    private diaryService: IDiaryService,
+    private geminiService?: IGeminiService
+  ) {}
+
+  /**
+   * 建立分析中的 diary 並啟動背景分析工作
+   * 業務邏輯：
+   * - diary 以 UPLOADING 狀態建立，營養素暫時為 0
+   * - 背景工作不會拋出錯誤，失敗時將 diary 標記為 FAILED
+   *
+   * @param userId 使用者 ID
+   * @param request 分析請求
+   * @param env 環境變數
+   * @returns 建立的 diary 與背景工作
+   */
+  async startImageAnalysis(
+    userId: string,
+    request: DiaryAnalysisRequest,
+    env: Env
+  ): Promise<{ diary: Diary; job: Promise<void> }> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    if (request.imageFiles.length === 0) {
+      throw new Error("圖片不能為空");
+    }
+
+    // 背景分析需要 AI 服務，在建立 diary 前檢查
+    if (!this.geminiService) {
+      throw new Error("AI 服務未初始化，無法分析圖片");
+    }
+
+    const diary = await this.diaryService.createDiary(userId, {
+      name: ANALYZING_PLACEHOLDER_NAME,
+      source: "image_analysis",
+      status: TaskStatus.UPLOADING,
+      progress: PROGRESS_CREATED,
+      error: null,
+      diaryDate: request.diaryDate,
+    });
+
+    const job = this.runImageAnalysis(
+      userId,
+      diary.id!,
+      request,
+      this.geminiService,
+      env
+    );
+
+    return { diary, job };
+  }
+
+  /**
+   * 建立上傳中的 diary 並啟動背景圖片上傳工作
+   * 業務邏輯：
+   * - 營養資料由客戶端提供，diary 以 UPLOADING 狀態建立
+   * - 背景上傳原始圖片與貼紙圖片後標記為 DONE，失敗時標記為 FAILED
+   * - 沒有圖片時直接建立 DONE 狀態的 diary
+   *
+   * @param userId 使用者 ID
+   * @param request 包含圖片的 Diary 建立請求
+   * @returns 建立的 diary 與背景工作
+   */
+  async startImageUpload(
+    userId: string,
+    request: CreateDiaryWithImagesRequest
+  ): Promise<{ diary: Diary; job: Promise<void> }> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    const originalImgs = request.originalImgs || [];
+    const hasImages = originalImgs.length > 0 || !!request.stickerImg;
+
+    const diary = await this.diaryService.createDiary(userId, {
+      ...request.diaryData,
+      status: hasImages ? TaskStatus.UPLOADING : TaskStatus.DONE,
+      progress: hasImages ? PROGRESS_CREATED : PROGRESS_DONE,
+      error: null,
+    });
+
+    const job = hasImages
+      ? this.runImageUpload(userId, diary.id!, request)
+      : Promise.resolve();
+
+    return { diary, job };
+  }
+
+  /**
+   * 執行背景圖片上傳工作
+   * @param userId 使用者 ID
+   * @param diaryId Diary ID
+   * @param request 包含圖片的 Diary 建立請求
+   */
+  private async runImageUpload(
+    userId: string,
+    diaryId: string,
+    request: CreateDiaryWithImagesRequest
+  ): Promise<void> {
+    try {
+      const [originalImgs, stickerImgs] = await Promise.all([
+        this.diaryService.uploadDiaryImages(userId, request.originalImgs || []),
+        this.diaryService.uploadDiaryImages(
+          userId,
+          request.stickerImg ? [request.stickerImg] : [],
+          "sticker"
+        ),
+      ]);
+
+      await this.diaryService.updateDiary(userId, diaryId, {
+        originalImgs,
+        ...(stickerImgs.length > 0 && { stickerImg: stickerImgs[0] }),
+        status: TaskStatus.DONE,
+        progress: PROGRESS_DONE,
+        error: null,
+      });
+
+      console.log(`Service: diary ${diaryId} 背景上傳圖片完成`);
+    } catch (error) {
+      console.error(`Service: diary ${diaryId} 背景上傳圖片失敗:`, error);
+      await this.markFailed(userId, diaryId, error);
+    }
+  }
+
+  /**
+   * 執行背景分析工作
+   * @param userId 使用者 ID
+   * @param diaryId Diary ID
+   * @param request 分析請求
+   * @param geminiService AI 服務
+   * @param env 環境變數
+   */
+  private async runImageAnalysis(
+    userId: string,
+    diaryId: string,
+    request: DiaryAnalysisRequest,
+    geminiService: IGeminiService,
+    env: Env
+  ): Promise<void> {
+    try {
+      // 1. 壓縮並上傳原始圖片
+      const imagesData = await Promise.all(
+        request.imageFiles.map(
+          async (file) => new Uint8Array(await file.arrayBuffer())
+        )
+      );
+      const originalImgs = await this.diaryService.uploadDiaryImages(
+        userId,
+        imagesData
+      );
+
+      await this.diaryService.updateDiary(userId, diaryId, {
+        originalImgs,
+        status: TaskStatus.ANALYZING,
+        progress: PROGRESS_UPLOADED,
+      });
+
+      // 2. AI 分析圖片
+      const analysis = await analyzeWithNutritionRetry(() =>
+        geminiService.analyzeImages(
+          request.imageFiles,
+          request.userLanguage,
+          env,
+          request.userInput
+        )
+      );
+
+      if (analysis.error) {
+        throw new Error(analysis.error);
+      }
+
+      // 3. 寫入分析結果
+      await this.diaryService.updateDiary(userId, diaryId, {
+        ...this.toDiaryUpdates(analysis),
+        status: TaskStatus.DONE,
+        progress: PROGRESS_DONE,
+        error: null,
+      });
+
+      console.log(`Service: diary ${diaryId} 背景分析完成`);
+    } catch (error) {
+      console.error(`Service: diary ${diaryId} 背景分析失敗:`, error);
+      await this.markFailed(userId, diaryId, error);
+    }
+  }
+
+  /**
+   * 將 diary 標記為分析失敗
+   * @param userId 使用者 ID
+   * @param diaryId Diary ID
+   * @param error 錯誤
+   */
+  private async markFailed(
+    userId: string,
+    diaryId: string,
+    error: unknown
+  ): Promise<void> {
+    try {
+      await this.diaryService.updateDiary(userId, diaryId, {
+        status: TaskStatus.FAILED,
+        error:
+          error instanceof Error ? error.message : "分析圖片時發生未知錯誤",
+      });
+    } catch (updateError) {
+      // 無法更新狀態時只記錄錯誤，避免背景工作拋出未處理的例外
+      console.error(
+        `Service: 無法將 diary ${diaryId} 標記為失敗:`,
+        updateError
+      );
+    }
+  }
+
+  /**
+   * 將圖片分析結果轉換為 diary 更新資料
+   * @param analysis 圖片分析結果
+   * @returns diary 更新資料
+   */
+  private toDiaryUpdates(analysis: ImageAnalysisResult): Partial<Diary> {
+    return {
+      name: analysis.name,
+      calories: analysis.calories,
+      protein: analysis.protein,
+      carbs: analysis.carbs,
+      fat: analysis.fat,
+      ingredients: (analysis.ingredients || []).map((ingredient) => ({
+        ...ingredient,
+        status: TaskStatus.DONE,
+      })),
+      healthAssessment: {
+        score: analysis.health_assessment?.score ?? 0,
+        pros: analysis.health_assessment?.pros ?? [],
+        cons: analysis.health_assessment?.cons ?? [],
+      },
+    };
+  }
+}
@@ -1,13 +1,36 @@
 import { IDiaryService } from "../controllers/diaryController";
+import { IDailyWorkoutRepository } from "../repositories/dailyWorkoutRepository";
 import { IDiaryRepository } from "../repositories/diaryRepository";
-import { Diary, TaskStatus } from "../types/diary";
+import { IUserRepository } from "../repositories/userRepository";
+import {
+  CreateDiaryFromRecipeRequest,
+  DailyNutritionSummary,
+  Diary,
+  Ingredient,
+  NutritionTargets,
+  TaskStatus,
+} from "../types/diary";
+import { DailyWorkout } from "../types/dailyWorkout";
 import {
   CreateDiaryWithImagesRequest,
   DEFAULT_COMPRESSION_OPTIONS,
 } from "../types/image";
+import {
+  addDaysToLocalDate,
+  getLocalDateTime,
+  isValidTimeZone,
+} from "../utils/timezone";
 import { IImageCompressionService } from "./imageCompressionService";
+import { IRecipeService } from "./recipeService";
 import { IStorageService } from "./storageService";
 
+// 最大時區偏移（UTC+14），用於換算當地日期區間的查詢起點
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+// 背景工作（waitUntil）在回應送出後最多只會執行約 30 秒，
+// 超過此時間仍停在 UPLOADING / ANALYZING 的 diary 代表工作已被中斷
+const BACKGROUND_JOB_TIMEOUT_MS = 2 * 60 * 1000;
+
 /**
  * Diary Service - 業務邏輯層
  * 負責業務規則驗證和業務邏輯處理，不直接操作資料庫
@@ -16,7 +39,10 @@ export class DiaryService implements IDiaryService {
   constructor(
     private diaryRepository: IDiaryRepository,
     private imageCompressionService?: IImageCompressionService,
-    private storageService?: IStorageService
+    private storageService?: IStorageService,
+    private dailyWorkoutRepository?: IDailyWorkoutRepository,
+    private userRepository?: IUserRepository,
+    private recipeService?: IRecipeService
   ) {}
 
   /**
@@ -25,6 +51,7 @@ export class DiaryService implements IDiaryService {
    * - 驗證使用者權限
    * - 套用業務規則
    * - 委派給 Repository 執行資料查詢
+   * - 背景工作逾時的 diary 標記為 FAILED
    *
    * @param userId 使用者 ID
    * @param date 可選的日期過濾條件
@@ -43,7 +70,11 @@ export class DiaryService implements IDiaryService {
 
     try {
       // 委派給 Repository 執行資料查詢
-      const diaries = await this.diaryRepository.findByUser(userId, date);
+      const diaries = await Promise.all(
+        (await this.diaryRepository.findByUser(userId, date)).map((diary) =>
+          this.failStaleJob(userId, diary)
+        )
+      );
 
       // 業務邏輯處理（例如：排序、過濾、資料轉換等）
       return this.applyBusinessRules(diaries);
@@ -58,6 +89,7 @@ export class DiaryService implements IDiaryService {
    * 業務邏輯：
    * - 驗證使用者權限
    * - 確保使用者只能存取自己的 diary
+   * - 背景工作逾時的 diary 標記為 FAILED，讓客戶端停止輪詢並重新上傳
    *
    * @param userId 使用者 ID
    * @param diaryId Diary ID
@@ -84,13 +116,37 @@ export class DiaryService implements IDiaryService {
         return null;
       }
 
-      return diary;
+      return diary && (await this.failStaleJob(userId, diary));
     } catch (error) {
       console.error("Service: 取得 diary 時發生業務邏輯錯誤:", error);
       throw new Error("取得 diary 失敗");
     }
   }
 
+  /**
+   * 將背景工作已中斷的 diary 標記為 FAILED
+   * @param userId 使用者 ID
+   * @param diary Diary 物件
+   * @returns 標記後的 Diary 物件（未逾時則原樣返回）
+   */
+  private async failStaleJob(userId: string, diary: Diary): Promise<Diary> {
+    const isPending =
+      diary.status === TaskStatus.UPLOADING ||
+      diary.status === TaskStatus.ANALYZING;
+    if (
+      !isPending ||
+      Date.now() - diary.updatedAt.getTime() < BACKGROUND_JOB_TIMEOUT_MS
+    ) {
+      return diary;
+    }
+
+    console.warn(`Service: diary ${diary.id} 的背景工作逾時，標記為失敗`);
+    return this.diaryRepository.update(userId, diary.id!, {
+      status: TaskStatus.FAILED,
+      error: "背景處理逾時，請重新上傳",
+    });
+  }
+
   /**
    * 建立新的 diary
    * 業務邏輯：
@@ -265,6 +321,213 @@ export class DiaryService implements IDiaryService {
     }
   }
 
+  /**
+   * 取得單日營養摘要
+   * 業務邏輯：
+   * - 彙整當日所有未刪除 diary 的熱量與三大營養素
+   * - 扣除當日 DailyWorkout 的 totalCaloriesBurned
+   * - 與 AppUser 的營養目標比較，計算剩餘額度
+   *
+   * @param userId 使用者 ID
+   * @param date 要彙整的日期 (YYYY-MM-DD，使用者當地日期)
+   * @param timeZone IANA 時區，未提供時使用通知偏好中的時區
+   * @returns DailyNutritionSummary 物件
+   */
+  async getDailySummary(
+    userId: string,
+    date: string,
+    timeZone?: string
+  ): Promise<DailyNutritionSummary> {
+    const summaries = await this.getSummaryRange(userId, date, date, timeZone);
+    return summaries[0];
+  }
+
+  /**
+   * 取得日期區間內每日的營養摘要
+   * 業務邏輯：
+   * - 一次查詢區間內的 diary 與運動記錄，避免逐日查詢
+   * - 依使用者時區的當地日期分組（未指定時使用通知偏好的時區，預設 UTC）
+   * - 區間內沒有記錄的日期仍會回傳（數值為 0）
+   * - 結果按日期升序排列
+   *
+   * @param userId 使用者 ID
+   * @param startDate 起始日期（包含，YYYY-MM-DD）
+   * @param endDate 結束日期（包含，YYYY-MM-DD）
+   * @param timeZone IANA 時區，未提供時使用通知偏好中的時區
+   * @returns DailyNutritionSummary 陣列
+   */
+  async getSummaryRange(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    timeZone?: string
+  ): Promise<DailyNutritionSummary[]> {
+    // 業務邏輯驗證
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    if (!this.isDateKey(startDate) || !this.isDateKey(endDate)) {
+      throw new Error("提供的日期格式無效");
+    }
+
+    if (startDate > endDate) {
+      throw new Error("起始日期不能晚於結束日期");
+    }
+
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      throw new Error("無效的時區");
+    }
+
+    if (!this.dailyWorkoutRepository || !this.userRepository) {
+      throw new Error("營養摘要所需的 Repository 未初始化");
+    }
+
+    // 查詢區間前後各預留最大時差（UTC+14），涵蓋任何時區的當地日期，實際區間在分組時依當地日期過濾
+    const queryStart = new Date(
+      Date.parse(`${startDate}T00:00:00Z`) - MAX_UTC_OFFSET_MS
+    );
+    const queryEnd = new Date(
+      Date.parse(`${addDaysToLocalDate(endDate, 1)}T00:00:00Z`) +
+        MAX_UTC_OFFSET_MS
+    );
+
+    try {
+      // 委派給 Repository 執行資料查詢（三者互不相依，並行查詢）
+      const [diaries, workouts, user] = await Promise.all([
+        this.diaryRepository.findByUser(userId, queryStart, queryEnd),
+        this.dailyWorkoutRepository.findByUser(userId, queryStart, queryEnd),
+        this.userRepository.findById(userId),
+      ]);
+
+      const zone = timeZone ?? user?.notificationSettings?.timezone ?? "UTC";
+      const toLocalDate = (date: Date) => getLocalDateTime(date, zone).date;
+      const inRange = (key: string) => key >= startDate && key <= endDate;
+
+      const targets: NutritionTargets = {
+        calories: user?.targetCalories ?? null,
+        protein: user?.targetProtein ?? null,
+        carbs: user?.targetCarb ?? null,
+        fat: user?.targetFat ?? null,
+      };
+
+      // 依當地日期分組 diary（Repository 依預留時差的區間查詢，當地日期區間在此過濾）
+      const diariesByDate = new Map<string, Diary[]>();
+      for (const diary of diaries) {
+        if (diary.isDeleted) {
+          continue;
+        }
+        const key = toLocalDate(diary.diaryDate);
+        if (!inRange(key)) {
+          continue;
+        }
+        const list = diariesByDate.get(key) || [];
+        list.push(diary);
+        diariesByDate.set(key, list);
+      }
+
+      const workoutsByDate = new Map<string, DailyWorkout>();
+      for (const workout of workouts) {
+        const key = toLocalDate(workout.diaryDate);
+        if (inRange(key)) {
+          workoutsByDate.set(key, workout);
+        }
+      }
+
+      const summaries: DailyNutritionSummary[] = [];
+      for (
+        let key = startDate;
+        key <= endDate;
+        key = addDaysToLocalDate(key, 1)
+      ) {
+        summaries.push(
+          this.buildDailySummary(
+            key,
+            diariesByDate.get(key) || [],
+            workoutsByDate.get(key),
+            targets
+          )
+        );
+      }
+
+      return summaries;
+    } catch (error) {
+      console.error("Service: 取得營養摘要時發生業務邏輯錯誤:", error);
+      throw new Error("取得營養摘要失敗");
+    }
+  }
+
+  /**
+   * 建立單日營養摘要
+   * @param date 日期鍵 (YYYY-MM-DD)
+   * @param diaries 當日 diary 列表
+   * @param workout 當日運動記錄
+   * @param targets 使用者營養目標
+   * @returns DailyNutritionSummary 物件
+   */
+  private buildDailySummary(
+    date: string,
+    diaries: Diary[],
+    workout: DailyWorkout | undefined,
+    targets: NutritionTargets
+  ): DailyNutritionSummary {
+    const consumed = diaries.reduce(
+      (totals, diary) => ({
+        calories: totals.calories + (diary.calories || 0),
+        protein: totals.protein + (diary.protein || 0),
+        carbs: totals.carbs + (diary.carbs || 0),
+        fat: totals.fat + (diary.fat || 0),
+      }),
+      { calories: 0, protein: 0, carbs: 0, fat: 0 }
+    );
+
+    const caloriesBurned = workout?.totalCaloriesBurned || 0;
+    const netCalories = consumed.calories - caloriesBurned;
+
+    const remainingOf = (target: number | null, value: number) =>
+      target === null ? null : this.round(target - value);
+
+    return {
+      date,
+      diaryCount: diaries.length,
+      consumed: {
+        calories: this.round(consumed.calories),
+        protein: this.round(consumed.protein),
+        carbs: this.round(consumed.carbs),
+        fat: this.round(consumed.fat),
+      },
+      caloriesBurned: this.round(caloriesBurned),
+      netCalories: this.round(netCalories),
+      targets,
+      remaining: {
+        calories: remainingOf(targets.calories, netCalories),
+        protein: remainingOf(targets.protein, consumed.protein),
+        carbs: remainingOf(targets.carbs, consumed.carbs),
+        fat: remainingOf(targets.fat, consumed.fat),
+      },
+    };
+  }
+
+  /**
+   * 檢查是否為有效的 YYYY-MM-DD 日期
+   * @param date 日期字串
+   * @returns 是否有效
+   */
+  private isDateKey(date: string): boolean {
+    return (
+      /^\d{4}-\d{2}-\d{2}$/.test(date) && addDaysToLocalDate(date, 0) === date
+    );
+  }
+
+  /**
+   * 四捨五入到小數點後一位
+   * @param value 數值
+   * @returns 四捨五入後的數值
+   */
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
   /**
    * 套用取得 diary 列表的業務規則
    * @param diaries 原始 diary 列表
@@ -359,6 +622,141 @@ export class DiaryService implements IDiaryService {
     return false;
   }
 
+  /**
+   * 以食譜的 N 份建立 diary
+   * 業務邏輯：
+   * - 依份數縮放食譜的食材份量與營養素（由 RecipeService 計算）
+   * - 名稱、食材名稱、單位與健康評估使用指定語言，缺少時依序退回 en、zh_TW
+   * - portions 記錄份數，營養素為所有份數的加總
+   * - source 標記為 recipe，sourceId 為食譜 ID
+   *
+   * @param userId 使用者 ID
+   * @param request 食譜 ID、份數、日期與語言
+   * @returns 建立的 Diary 物件
+   */
+  async createDiaryFromRecipe(
+    userId: string,
+    request: CreateDiaryFromRecipeRequest
+  ): Promise<Diary> {
+    // 業務邏輯驗證
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    if (!this.recipeService) {
+      throw new Error("食譜服務未初始化");
+    }
+
+    // 依份數縮放食譜（找不到食譜或份數無效時直接拋出）
+    const { recipe } = await this.recipeService.scaleRecipe(
+      request.recipeId,
+      request.servings
+    );
+
+    const language = request.language;
+    const ingredients: Ingredient[] = recipe.ingredients.map((ingredient) => ({
+      name: this.pickLocalizedText(ingredient.name, language),
+      engName: ingredient.name?.en || null,
+      calories: ingredient.calories,
+      protein: ingredient.protein,
+      carbs: ingredient.carbs,
+      fat: ingredient.fat,
+      amountValue: ingredient.amountValue,
+      amountUnit: this.pickLocalizedText(ingredient.amountUnit, language),
+      status: ingredient.status || TaskStatus.DONE,
+      imageUrl: ingredient.imageUrl,
+    }));
+
+    const assessment = recipe.recipeHealthAssessment;
+
+    return this.createDiary(userId, {
+      id: request.id,
+      name: this.pickLocalizedText(recipe.name, language),
+      originalImgs: recipe.imgUrl ? [recipe.imgUrl] : null,
+      calories: recipe.calories,
+      protein: recipe.protein,
+      carbs: recipe.carbs,
+      fat: recipe.fat,
+      healthAssessment: assessment
+        ? {
+            score: assessment.score,
+            pros: this.pickLocalizedList(assessment.pros, language),
+            cons: this.pickLocalizedList(assessment.cons, language),
+          }
+        : undefined,
+      ingredients,
+      portions: request.servings,
+      source: "recipe",
+      sourceId: request.recipeId,
+      status: TaskStatus.DONE,
+      diaryDate: request.diaryDate,
+    });
+  }
+
+  /**
+   * 從多語言文字物件中取出指定語言，缺少時依序退回 en、zh_TW、任一語言
+   * @param texts 多語言文字
+   * @param language 語言代碼
+   * @returns 文字，完全沒有內容時為空字串
+   */
+  private pickLocalizedText(
+    texts: Record<string, string> | undefined,
+    language: string
+  ): string {
+    if (!texts) {
+      return "";
+    }
+    return (
+      texts[language] ||
+      texts.en ||
+      texts.zh_TW ||
+      Object.values(texts).find((text) => !!text) ||
+      ""
+    );
+  }
+
+  /**
+   * 從多語言字串陣列物件中取出指定語言，缺少時依序退回 en、zh_TW
+   * @param lists 多語言字串陣列
+   * @param language 語言代碼
+   * @returns 字串陣列
+   */
+  private pickLocalizedList(
+    lists: Record<string, string[]> | undefined,
+    language: string
+  ): string[] {
+    if (!lists) {
+      return [];
+    }
+    return lists[language] || lists.en || lists.zh_TW || [];
+  }
+
+  /**
+   * 壓縮並上傳 diary 圖片
+   * 業務邏輯：
+   * - 供背景工作在建立 diary 之後補上圖片使用
+   *
+   * @param userId 使用者 ID
+   * @param imagesData 圖片資料（Base64 或 Uint8Array）
+   * @param imageType 圖片類型，決定壓縮選項（預設為原始圖片）
+   * @returns 成功上傳的圖片 URL
+   */
+  async uploadDiaryImages(
+    userId: string,
+    imagesData: (string | Uint8Array)[],
+    imageType: "sticker" | "original" = "original"
+  ): Promise<string[]> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    if (imagesData.length === 0) {
+      return [];
+    }
+
+    return this.processMultipleImages(userId, imagesData, imageType);
+  }
+
   /**
    * 建立包含圖片的新 diary
    * 對應 Flutter addDiaryWithImage 方法的完整邏輯：
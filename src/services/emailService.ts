@@ -3,6 +3,7 @@
  */
 import * as nodemailer from "nodemailer";
 import {
+  EmailTemplateType,
   getEmailTemplate,
   processTemplate,
 } from "../utils/emailTemplates";
@@ -12,6 +13,7 @@ import type {
   EmailSendRequest,
   EmailSendResult,
   EmailTemplate,
+  EmailTemplateData,
   EmailType,
 } from "../types/email";
 import type { Env } from "../bindings";
@@ -73,6 +75,16 @@ export default class EmailService {
           data as CancellationFeedbackData
         );
 
+      case "welcome":
+      case "billing_issue":
+      case "trial_ending":
+      case "win_back":
+        return this.getLocalizedTemplate(
+          emailType,
+          language,
+          data as EmailTemplateData
+        );
+
       default:
         throw new Error(`不支援的郵件類型: ${emailType}`);
     }
@@ -127,6 +139,42 @@ export default class EmailService {
     };
   }
 
+  /**
+   * 多語言郵件模板（歡迎、付款問題、試用結束、挽回郵件），不支援的語言回退到英文
+   * @param templateType 模板類型
+   * @param language 語言
+   * @param data 模板數據
+   * @returns 郵件模板
+   */
+  private getLocalizedTemplate(
+    templateType: EmailTemplateType,
+    language: string,
+    data: EmailTemplateData
+  ): EmailTemplate {
+    const template =
+      getEmailTemplate(language, templateType) ||
+      getEmailTemplate("en", templateType);
+
+    if (!template) {
+      throw new Error("無法獲取郵件模板");
+    }
+
+    // 條件區塊只處理有列出的變數，因此所有變數都需要傳入
+    const processedContent = processTemplate(template.content, {
+      userName: data.userName || "",
+      resubscribeUrl: data.resubscribeUrl,
+      manageSubscriptionUrl: data.manageSubscriptionUrl,
+      trialEndDate: data.trialEndDate,
+      customContent: data.customContent,
+    });
+
+    return {
+      subject: template.subject,
+      html: processedContent, // 現在只使用純文字
+      text: processedContent,
+    };
+  }
+
   /**
    * 發送郵件
    * @param request 郵件發送請求
@@ -230,4 +278,84 @@ export default class EmailService {
 
     return await this.sendEmail(request, env);
   }
-}
\ No newline at end of file
+
+  /**
+   * 發送多語言模板郵件（便捷方法）
+   * @param emailType 郵件類型
+   * @param recipientEmail 收件人郵箱
+   * @param recipientName 收件人姓名
+   * @param templateData 模板數據
+   * @param env 環境變數
+   * @param userLanguage 語言
+   * @returns 發送結果
+   */
+  async sendTemplatedEmail(
+    emailType: EmailType,
+    recipientEmail: string,
+    recipientName: string,
+    templateData: EmailTemplateData,
+    env: Env,
+    userLanguage: string = "en"
+  ): Promise<EmailSendResult> {
+    const request: EmailSendRequest = {
+      recipientEmail,
+      recipientName,
+      subject: "", // 使用模板預設主題
+      emailType,
+      userLanguage,
+      templateData: { userName: recipientName, ...templateData },
+    };
+
+    return await this.sendEmail(request, env);
+  }
+
+  /**
+   * 發送歡迎郵件（便捷方法）
+   * @param recipientEmail 收件人郵箱
+   * @param recipientName 收件人姓名
+   * @param env 環境變數
+   * @param userLanguage 語言
+   * @returns 發送結果
+   */
+  async sendWelcomeEmail(
+    recipientEmail: string,
+    recipientName: string,
+    env: Env,
+    userLanguage: string = "en"
+  ): Promise<EmailSendResult> {
+    return await this.sendTemplatedEmail(
+      "welcome",
+      recipientEmail,
+      recipientName,
+      {},
+      env,
+      userLanguage
+    );
+  }
+
+  /**
+   * 發送訂閱付款問題郵件（便捷方法）
+   * @param recipientEmail 收件人郵箱
+   * @param recipientName 收件人姓名
+   * @param manageSubscriptionUrl 更新付款方式的連結
+   * @param env 環境變數
+   * @param userLanguage 語言
+   * @returns 發送結果
+   */
+  async sendBillingIssueEmail(
+    recipientEmail: string,
+    recipientName: string,
+    manageSubscriptionUrl: string,
+    env: Env,
+    userLanguage: string = "en"
+  ): Promise<EmailSendResult> {
+    return await this.sendTemplatedEmail(
+      "billing_issue",
+      recipientEmail,
+      recipientName,
+      { manageSubscriptionUrl },
+      env,
+      userLanguage
+    );
+  }
+}
@@ -1,8 +1,47 @@
 import { IFcmTokenRepository } from "../repositories/fcmTokenRepository";
+import { IPushDeliveryRepository } from "../repositories/pushDeliveryRepository";
+import { IPushDeviceRepository } from "../repositories/pushDeviceRepository";
 import {
   CreateFcmTokenRequest,
   FcmTokenData,
+  PushDeliveryResult,
+  PushDeliverySummary,
+  PushNotification,
+  PushNotificationInput,
 } from "../types/fcmToken";
+import type { PushDevice } from "../types/pushDevice";
+import { IPushSender } from "./pushSender";
+
+/**
+ * 未活躍超過此天數的 Token 視為過期（與 FcmTokenRepository 註冊時的自動清理相同）
+ */
+const DEFAULT_EXPIRED_PERIOD_DAYS = 30;
+
+/**
+ * 將 FCM Token 轉換為推播裝置資訊（不含 Token）
+ * @param userId 使用者 ID
+ * @param token FCM Token 資料
+ * @returns 推播裝置資訊
+ */
+function toPushDevice(userId: string, token: FcmTokenData): PushDevice {
+  return {
+    userId,
+    deviceId: token.deviceId,
+    platform: token.platform,
+    language: token.language,
+    appVersion: token.appVersion,
+    lastActive: token.lastActive,
+  };
+}
+
+/**
+ * 取得過期期間的起始時間
+ * @param expiredPeriodDays 過期期間（天數）
+ * @returns 最後活躍時間早於此時間的 Token 視為過期
+ */
+function getExpiredBefore(expiredPeriodDays: number): Date {
+  return new Date(Date.now() - expiredPeriodDays * 24 * 60 * 60 * 1000);
+}
 
 /**
  * FCM Token Service 介面 - 定義業務邏輯操作
@@ -43,6 +82,26 @@ export interface IFcmTokenService {
     userId: string,
     expiredPeriodDays?: number
   ): Promise<number>;
+
+  /**
+   * 以使用者目前的 FCM Token 重建 D1 推播裝置資訊（回填既有 Token）
+   * @param userId 使用者 ID
+   * @returns 裝置數
+   */
+  syncPushDevices(userId: string): Promise<number>;
+
+  /**
+   * 推播到使用者所有裝置
+   * @param userId 使用者 ID
+   * @param notification 推播內容，或依裝置（例如語言）產生推播內容的函式
+   * @param tokenFilter 只推播到符合條件的裝置（例如平台、App 版本）
+   * @returns 推播結果
+   */
+  sendToUser(
+    userId: string,
+    notification: PushNotificationInput,
+    tokenFilter?: (token: FcmTokenData) => boolean
+  ): Promise<PushDeliverySummary>;
 }
 
 /**
@@ -50,7 +109,12 @@ export interface IFcmTokenService {
  * 負責業務規則驗證和業務邏輯處理，不直接操作資料庫
  */
 export class FcmTokenService implements IFcmTokenService {
-  constructor(private fcmTokenRepository: IFcmTokenRepository) {}
+  constructor(
+    private fcmTokenRepository: IFcmTokenRepository,
+    private pushSender?: IPushSender,
+    private pushDeliveryRepository?: IPushDeliveryRepository,
+    private pushDeviceRepository?: IPushDeviceRepository
+  ) {}
 
   /**
    * 註冊或更新 FCM Token
@@ -59,6 +123,7 @@ export class FcmTokenService implements IFcmTokenService {
    * - 驗證 Token 格式和必要欄位
    * - 套用預設值和業務規則
    * - 委派給 Repository 執行資料操作
+   * - 有 D1 時同步推播裝置資訊（同步失敗不影響註冊結果）
    */
   async registerToken(
     userId: string,
@@ -126,6 +191,15 @@ export class FcmTokenService implements IFcmTokenService {
       console.error("Service: 註冊 FCM Token 時發生業務邏輯錯誤:", error);
       throw new Error("註冊 FCM Token 失敗");
     }
+
+    // Repository 註冊時會自動清理過期 Token，裝置資訊一併清理
+    await this.updatePushDevices(userId, async (repository) => {
+      await repository.upsert(toPushDevice(userId, tokenData));
+      await repository.removeInactive(
+        userId,
+        getExpiredBefore(DEFAULT_EXPIRED_PERIOD_DAYS)
+      );
+    });
   }
 
   /**
@@ -133,6 +207,7 @@ export class FcmTokenService implements IFcmTokenService {
    * 業務邏輯：
    * - 驗證使用者權限
    * - 確保使用者只能刪除自己的 Token
+   * - 有 D1 時同步刪除推播裝置資訊
    */
   async removeDeviceToken(userId: string, deviceId: string): Promise<void> {
     // 業務邏輯驗證
@@ -152,6 +227,9 @@ export class FcmTokenService implements IFcmTokenService {
     if (!existingToken) {
       // 不拋出錯誤，因為可能 Token 已經不存在
       console.log(`Token 不存在或已被刪除: 使用者 ${userId}, 設備 ${deviceId}`);
+      await this.updatePushDevices(userId, (repository) =>
+        repository.remove(userId, deviceId)
+      );
       return;
     }
 
@@ -166,6 +244,10 @@ export class FcmTokenService implements IFcmTokenService {
       console.error("Service: 刪除 FCM Token 時發生業務邏輯錯誤:", error);
       throw new Error("刪除 FCM Token 失敗");
     }
+
+    await this.updatePushDevices(userId, (repository) =>
+      repository.remove(userId, deviceId)
+    );
   }
 
   /**
@@ -208,7 +290,7 @@ export class FcmTokenService implements IFcmTokenService {
    */
   async cleanupExpiredTokens(
     userId: string,
-    expiredPeriodDays: number = 30
+    expiredPeriodDays: number = DEFAULT_EXPIRED_PERIOD_DAYS
   ): Promise<number> {
     // 業務邏輯驗證
     if (!userId || userId.trim() === "") {
@@ -230,6 +312,10 @@ export class FcmTokenService implements IFcmTokenService {
         `Service: 為使用者 ${userId} 清理了 ${deletedCount} 個過期 FCM Token（${expiredPeriodDays} 天未活躍）`
       );
 
+      await this.updatePushDevices(userId, (repository) =>
+        repository.removeInactive(userId, getExpiredBefore(expiredPeriodDays))
+      );
+
       return deletedCount;
     } catch (error) {
       console.error("Service: 清理過期 FCM Token 時發生業務邏輯錯誤:", error);
@@ -237,6 +323,153 @@ export class FcmTokenService implements IFcmTokenService {
     }
   }
 
+  /**
+   * 重建使用者的推播裝置資訊
+   * 業務邏輯：
+   * - 以 Firestore 中目前的 FCM Token 取代 D1 中該使用者的所有裝置，可重複執行
+   */
+  async syncPushDevices(userId: string): Promise<number> {
+    if (!this.pushDeviceRepository) {
+      throw new Error("推播裝置資料庫未設定");
+    }
+
+    const tokens = await this.getUserTokens(userId);
+    await this.pushDeviceRepository.replaceForUser(
+      userId,
+      tokens.map((token) => toPushDevice(userId, token))
+    );
+    return tokens.length;
+  }
+
+  /**
+   * 推播到使用者所有裝置
+   * 業務邏輯：
+   * - 並行推播到 getUserTokens 取得的每個 Token（有 tokenFilter 時只推播符合的裝置）
+   * - FCM 回報 Token 已失效時刪除該裝置 Token（判斷方式見 FcmPushSender）
+   * - 有 D1 時記錄每個裝置的送達結果（記錄失敗不影響推播結果）
+   */
+  async sendToUser(
+    userId: string,
+    notification: PushNotificationInput,
+    tokenFilter?: (token: FcmTokenData) => boolean
+  ): Promise<PushDeliverySummary> {
+    if (!this.pushSender) {
+      throw new Error("推播發送服務未設定");
+    }
+    const pushSender = this.pushSender;
+
+    const userTokens = await this.getUserTokens(userId);
+    const tokens = tokenFilter ? userTokens.filter(tokenFilter) : userTokens;
+    const payloads = tokens.map((token) =>
+      typeof notification === "function" ? notification(token) : notification
+    );
+    const results = await Promise.all(
+      tokens.map(async (token, index): Promise<PushDeliveryResult> => {
+        const sendResult = await pushSender.send(token.token, payloads[index]);
+
+        const tokenRemoved = sendResult.invalidToken
+          ? await this.removeInvalidToken(userId, token)
+          : false;
+
+        return {
+          ...sendResult,
+          deviceId: token.deviceId,
+          platform: token.platform,
+          tokenRemoved,
+        };
+      })
+    );
+
+    const summary: PushDeliverySummary = {
+      userId,
+      total: results.length,
+      delivered: results.filter((result) => result.success).length,
+      failed: results.filter((result) => !result.success).length,
+      removedTokens: results.filter((result) => result.tokenRemoved).length,
+      results,
+    };
+
+    await this.recordDeliveries(userId, payloads, results);
+
+    console.log(
+      `Service: 推播至使用者 ${userId} - 送達 ${summary.delivered}/${summary.total}，刪除失效 Token ${summary.removedTokens} 個`
+    );
+
+    return summary;
+  }
+
+  /**
+   * 刪除 FCM 回報已失效的 Token
+   * @returns 是否刪除成功
+   */
+  private async removeInvalidToken(
+    userId: string,
+    token: FcmTokenData
+  ): Promise<boolean> {
+    try {
+      await this.removeDeviceToken(userId, token.deviceId);
+      return true;
+    } catch (error) {
+      console.error(
+        `Service: 刪除失效 FCM Token 失敗 - 使用者: ${userId}, 設備: ${token.deviceId}`,
+        error
+      );
+      return false;
+    }
+  }
+
+  /**
+   * 同步 D1 推播裝置資訊（未設定時略過；失敗只記錄錯誤，可由回填修正）
+   */
+  private async updatePushDevices(
+    userId: string,
+    update: (repository: IPushDeviceRepository) => Promise<void>
+  ): Promise<void> {
+    if (!this.pushDeviceRepository) {
+      return;
+    }
+
+    try {
+      await update(this.pushDeviceRepository);
+    } catch (error) {
+      console.error(`Service: 同步推播裝置資訊失敗 - 使用者: ${userId}`, error);
+    }
+  }
+
+  /**
+   * 記錄推播送達結果
+   */
+  private async recordDeliveries(
+    userId: string,
+    payloads: PushNotification[],
+    results: PushDeliveryResult[]
+  ): Promise<void> {
+    if (!this.pushDeliveryRepository || results.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    try {
+      await this.pushDeliveryRepository.insertMany(
+        results.map((result, index) => ({
+          id: crypto.randomUUID(),
+          userId,
+          deviceId: result.deviceId,
+          platform: result.platform,
+          notificationType: payloads[index].type,
+          status: result.success ? "delivered" : "failed",
+          messageId: result.messageId ?? null,
+          errorCode: result.errorCode ?? null,
+          error: result.error ?? null,
+          tokenRemoved: result.tokenRemoved,
+          createdAt: now,
+        }))
+      );
+    } catch (error) {
+      console.error("Service: 記錄推播送達結果失敗:", error);
+    }
+  }
+
 
 
 
@@ -1,31 +1,36 @@
 import type { Env } from "../bindings";
 import { IGeminiService } from "../controllers/geminiController";
 import {
-  AnalyzeIngredientItem,
   ImageAnalysisResult,
   ImagePart,
+  ProductLabelAnalysisResult,
   RecipeAnalysisResult,
   addRecipeJsonSchema,
   analyzeImagesJsonSchema,
+  analyzeProductLabelJsonSchema,
 } from "../types/analyze";
 import {
   AIResponse,
   AddIngredientResult,
   AddRecipeIngredientResult,
   EditRecipeResult,
+  GeneratedMealPlanResult,
   GenerationConfig,
-  IngredientItem,
   MealAnalysisResult,
+  MealPlanGenerationContext,
   SupportedLanguage,
   TranslateIngredientResult,
   addIngredientJsonSchema,
   addMealJsonSchema,
   addRecipeIngredientJsonSchema,
   editRecipeJsonSchema,
+  generateMealPlanJsonSchema,
   translateIngredientJsonSchema,
 } from "../types/gemini";
+import { getModelForCapability } from "../utils/aiProviderConfig";
 import {
   createAnalyzePrompt,
+  createAnalyzeProductLabelPrompt,
   generateAddRecipePrompt,
 } from "../utils/analyzePrompts";
 import { ApiRetryUtil } from "../utils/ApiRetryUtil";
@@ -34,9 +39,12 @@ import {
   createAddMealPrompt,
   createAddRecipeIngredientPrompt,
   createEditRecipePrompt,
+  createGenerateMealPlanPrompt,
   createTranslateIngredientPrompt,
 } from "../utils/geminiPrompts";
 import { arrayBufferToBase64, getImageMimeType } from "../utils/imageUtils";
+import { alignGeneratedMealPlan } from "../utils/mealPlanUtils";
+import { reconcileNutrition } from "../utils/nutritionConsistency";
 
 /**
  * Gemini AI 服務類
@@ -61,12 +69,12 @@ export class GeminiService implements IGeminiService {
     // 配置 function calling
     const generationConfig = this._createGenerationConfig();
 
-    // 調用 AI API （使用 gemini-2.5-flash）
+    // 調用 AI API
     const result = await this._callGeminiAPIWithModel(
       env,
       prompt,
       generationConfig,
-      "gemini-2.5-flash-lite"
+      getModelForCapability(env, "analyzeMealText")
     );
 
     const res: any = (result as any)?.candidates?.[0]?.content?.parts?.[0]
@@ -208,68 +216,8 @@ export class GeminiService implements IGeminiService {
       return { error: "API 回應格式不正確" } as MealAnalysisResult;
     }
 
-    // 校正每個食材的熱量
-    if (
-      responseObject.ingredients &&
-      Array.isArray(responseObject.ingredients)
-    ) {
-      responseObject.ingredients = responseObject.ingredients.map(
-        (ingredient: IngredientItem): IngredientItem => {
-          const calculatedCalories =
-            ingredient.protein * 4 + ingredient.carbs * 4 + ingredient.fat * 9;
-          const calorieDifference = Math.abs(
-            ingredient.calories - calculatedCalories
-          );
-
-          if (calorieDifference > 5) {
-            // 允許 5 卡路里的誤差
-            console.warn(
-              `食材 ${ingredient.name} 熱量計算不符合公式，自動修正:`,
-              {
-                原始: ingredient.calories,
-                計算: calculatedCalories,
-              }
-            );
-            ingredient.calories = Math.round(calculatedCalories);
-          }
-
-          return ingredient;
-        }
-      );
-    }
-
-    // 計算所有食材的總營養素
-    let totalCalories = 0;
-    let totalProtein = 0;
-    let totalCarbs = 0;
-    let totalFat = 0;
-
-    if (
-      responseObject.ingredients &&
-      Array.isArray(responseObject.ingredients)
-    ) {
-      responseObject.ingredients.forEach((ingredient: IngredientItem) => {
-        totalCalories += ingredient.calories || 0;
-        totalProtein += ingredient.protein || 0;
-        totalCarbs += ingredient.carbs || 0;
-        totalFat += ingredient.fat || 0;
-      });
-    }
-
-    // 替換最外層的營養素數據
-    const originalOuterCalories = responseObject.calories;
-    responseObject.calories = Math.round(totalCalories);
-    responseObject.protein = Math.round(totalProtein * 10) / 10; // 保留一位小數
-    responseObject.carbs = Math.round(totalCarbs * 10) / 10;
-    responseObject.fat = Math.round(totalFat * 10) / 10;
-
-    console.log("營養素總計算結果:", {
-      原始外層熱量: originalOuterCalories,
-      修正後外層熱量: responseObject.calories,
-      總蛋白質: responseObject.protein,
-      總碳水: responseObject.carbs,
-      總脂肪: responseObject.fat,
-    });
+    // 校正營養素一致性（熱量公式、異常值、總計 = 食材加總），修正紀錄隨結果返回
+    reconcileNutrition(responseObject);
 
     return responseObject as MealAnalysisResult;
   }
@@ -427,12 +375,12 @@ export class GeminiService implements IGeminiService {
       // 配置 function calling
       const generationConfig = this._createIngredientGenerationConfig();
 
-      // 調用 AI API （使用 gemini-2.5-flash-lite）
+      // 調用 AI API
       const aiResponse = await this._callGeminiAPIWithModel(
         env,
         prompt,
         generationConfig,
-        "gemini-2.5-flash-lite"
+        getModelForCapability(env, "analyzeIngredient")
       );
 
       const result: any = (aiResponse as any)?.candidates?.[0]?.content
@@ -644,12 +592,12 @@ export class GeminiService implements IGeminiService {
       // 配置 function calling
       const generationConfig = this._createRecipeIngredientGenerationConfig();
 
-      // 調用 AI API （使用 gemini-2.5-flash-lite）
+      // 調用 AI API
       const result = await this._callGeminiAPIWithModel(
         env,
         prompt,
         generationConfig,
-        "gemini-2.5-flash-lite"
+        getModelForCapability(env, "analyzeRecipeIngredient")
       );
 
       const res: any = (result as any)?.candidates?.[0]?.content?.parts?.[0]
@@ -891,12 +839,12 @@ export class GeminiService implements IGeminiService {
       // 配置 function calling
       const generationConfig = this._createEditRecipeGenerationConfig();
 
-      // 調用 Gemini API （使用 gemini-2.5-flash-lite）
+      // 調用 Gemini API
       const result = await this._callGeminiAPIWithModel(
         env,
         prompt,
         generationConfig,
-        "gemini-2.5-flash-lite"
+        getModelForCapability(env, "editRecipe")
       );
 
       const res: any = (result as any)?.candidates?.[0]?.content?.parts?.[0]
@@ -920,11 +868,11 @@ export class GeminiService implements IGeminiService {
    * 調用 Gemini AI API（支援指定模型）
    * 現在使用 ApiRetryUtil 處理 503 服務不可用錯誤
    */
-  private async _callGeminiAPIWithModel(
+  protected async _callGeminiAPIWithModel(
     env: Env,
     prompt: string,
     generationConfig: GenerationConfig,
-    model: string = "gemini-2.5-flash"
+    model: string
   ): Promise<AIResponse> {
     if (!env.GOOGLE_API_KEY) {
       throw new Error("GOOGLE_API_KEY 環境變數未設定");
@@ -1176,7 +1124,7 @@ export class GeminiService implements IGeminiService {
       prompt,
       imageParts,
       generationConfig,
-      "gemini-2.5-flash-lite"
+      getModelForCapability(env, "analyzeImages")
     );
 
     const res: any = (result as any)?.candidates?.[0]?.content?.parts?.[0]
@@ -1225,7 +1173,7 @@ export class GeminiService implements IGeminiService {
       prompt,
       imageParts,
       generationConfig,
-      "gemini-2.5-flash-lite"
+      getModelForCapability(env, "createRecipeFromImages")
     );
 
     const res: any = (result as any)?.candidates?.[0]?.content?.parts?.[0]
@@ -1269,12 +1217,12 @@ export class GeminiService implements IGeminiService {
    * 調用 Gemini API（圖片 + 文字輸入）
    * 現在使用 ApiRetryUtil 處理 503 服務不可用錯誤
    */
-  private async _callGeminiAPIWithImages(
+  protected async _callGeminiAPIWithImages(
     env: Env,
     prompt: string,
     imageParts: ImagePart[],
     generationConfig: GenerationConfig,
-    model: string = "gemini-2.5-flash"
+    model: string
   ): Promise<AIResponse> {
     if (!env.GOOGLE_API_KEY) {
       throw new Error("GOOGLE_API_KEY 環境變數未設定");
@@ -1496,70 +1444,8 @@ export class GeminiService implements IGeminiService {
       return { error: "API 回應格式不正確" } as ImageAnalysisResult;
     }
 
-    // 校正每個食材的熱量
-    if (
-      responseObject.ingredients &&
-      Array.isArray(responseObject.ingredients)
-    ) {
-      responseObject.ingredients = responseObject.ingredients.map(
-        (ingredient: AnalyzeIngredientItem): AnalyzeIngredientItem => {
-          const calculatedCalories =
-            ingredient.protein * 4 + ingredient.carbs * 4 + ingredient.fat * 9;
-          const calorieDifference = Math.abs(
-            ingredient.calories - calculatedCalories
-          );
-
-          if (calorieDifference > 5) {
-            // 允許 5 卡路里的誤差
-            console.warn(
-              `食材 ${ingredient.name} 熱量計算不符合公式，自動修正:`,
-              {
-                原始: ingredient.calories,
-                計算: calculatedCalories,
-              }
-            );
-            ingredient.calories = Math.round(calculatedCalories);
-          }
-
-          return ingredient;
-        }
-      );
-    }
-
-    // 計算所有食材的總營養素
-    let totalCalories = 0;
-    let totalProtein = 0;
-    let totalCarbs = 0;
-    let totalFat = 0;
-
-    if (
-      responseObject.ingredients &&
-      Array.isArray(responseObject.ingredients)
-    ) {
-      responseObject.ingredients.forEach(
-        (ingredient: AnalyzeIngredientItem) => {
-          totalCalories += ingredient.calories || 0;
-          totalProtein += ingredient.protein || 0;
-          totalCarbs += ingredient.carbs || 0;
-          totalFat += ingredient.fat || 0;
-        }
-      );
-    }
-
-    // 替換最外層的營養素數據
-    const originalOuterCalories = responseObject.calories;
-    responseObject.calories = Math.round(totalCalories);
-    responseObject.protein = Math.round(totalProtein * 10) / 10; // 保留一位小數
-    responseObject.carbs = Math.round(totalCarbs * 10) / 10;
-    responseObject.fat = Math.round(totalFat * 10) / 10;
-
-    console.log("營養素總計算結果:", {
-      原始外層熱量: originalOuterCalories,
-      修正後外層熱量: responseObject.calories,
-      總蛋白質: responseObject.protein,
-      總碳水: responseObject.carbs,
-      總脂肪: responseObject.fat,
-    });
+    // 校正營養素一致性（熱量公式、異常值、總計 = 食材加總），修正紀錄隨結果返回
+    reconcileNutrition(responseObject);
 
     return responseObject as ImageAnalysisResult;
   }
@@ -1587,18 +1473,8 @@ export class GeminiService implements IGeminiService {
       return { error: "API 回應格式不正確" } as RecipeAnalysisResult;
     }
 
-    // 校正每個食材的熱量
-    if (
-      responseObject.ingredients &&
-      Array.isArray(responseObject.ingredients)
-    ) {
-      for (const ingredient of responseObject.ingredients) {
-        this._correctRecipeIngredientCalories(ingredient);
-      }
-    }
-
-    // 計算並校正總營養素
-    this._calculateAndCorrectTotalNutrition(responseObject);
+    // 校正營養素一致性（熱量公式、異常值、總計 = 食材加總），修正紀錄隨結果返回
+    reconcileNutrition(responseObject);
 
     return responseObject as RecipeAnalysisResult;
   }
@@ -1840,79 +1716,6 @@ export class GeminiService implements IGeminiService {
     return true;
   }
 
-  /**
-   * 校正食譜食材熱量
-   */
-  private _correctRecipeIngredientCalories(ingredient: any): void {
-    if (!ingredient.protein || !ingredient.carbs || !ingredient.fat) {
-      return;
-    }
-
-    const calculatedCalories: number =
-      ingredient.protein * 4 + ingredient.carbs * 4 + ingredient.fat * 9;
-
-    const calorieDifference: number = Math.abs(
-      ingredient.calories - calculatedCalories
-    );
-
-    if (calorieDifference > 5) {
-      // 允許 5 卡路里的誤差
-      console.warn(
-        `校正食材 ${ingredient.name?.zh_TW || ingredient.name} 的熱量:`,
-        {
-          原始: ingredient.calories,
-          計算: calculatedCalories,
-          蛋白質: ingredient.protein,
-          碳水: ingredient.carbs,
-          脂肪: ingredient.fat,
-        }
-      );
-      ingredient.calories = Math.round(calculatedCalories);
-    }
-  }
-
-  /**
-   * 計算並校正總營養素
-   */
-  private _calculateAndCorrectTotalNutrition(recipe: any): void {
-    if (!recipe.ingredients || !Array.isArray(recipe.ingredients)) {
-      return;
-    }
-
-    // 計算所有食材的營養素總和
-    let totalCalories: number = 0;
-    let totalProtein: number = 0;
-    let totalCarbs: number = 0;
-    let totalFat: number = 0;
-
-    for (const ingredient of recipe.ingredients) {
-      totalCalories += ingredient.calories || 0;
-      totalProtein += ingredient.protein || 0;
-      totalCarbs += ingredient.carbs || 0;
-      totalFat += ingredient.fat || 0;
-    }
-
-    console.log("計算總營養素:", {
-      總熱量: totalCalories,
-      總蛋白質: totalProtein,
-      總碳水: totalCarbs,
-      總脂肪: totalFat,
-    });
-
-    // 替換最外層的營養素數據
-    recipe.calories = Math.round(totalCalories);
-    recipe.protein = Math.round(totalProtein * 10) / 10; // 保留一位小數
-    recipe.carbs = Math.round(totalCarbs * 10) / 10;
-    recipe.fat = Math.round(totalFat * 10) / 10;
-
-    console.log("更新後的總營養素:", {
-      calories: recipe.calories,
-      protein: recipe.protein,
-      carbs: recipe.carbs,
-      fat: recipe.fat,
-    });
-  }
-
   /**
    * 翻譯食材名稱
    * @param userInput 用戶輸入的食材名稱（任何語言）
@@ -1933,12 +1736,12 @@ export class GeminiService implements IGeminiService {
       const generationConfig =
         this._createTranslateIngredientGenerationConfig();
 
-      // 調用 AI API（使用 gemini-2.5-flash-lite 快速回應）
+      // 調用 AI API
       const result = await this._callGeminiAPIWithModel(
         env,
         prompt,
         generationConfig,
-        "gemini-2.5-flash-lite"
+        getModelForCapability(env, "translateIngredient")
       );
 
       const res: any = (result as any)?.candidates?.[0]?.content?.parts?.[0]
@@ -2079,4 +1882,335 @@ export class GeminiService implements IGeminiService {
 
     return true;
   }
+
+  /**
+   * 生成多日餐點計畫
+   * @param context 由伺服器組成的使用者目標、飲食偏好與候選餐點
+   * @param userLanguage 用戶語言
+   * @param env 環境變數
+   * @returns 餐點計畫（候選餐點的營養素已依伺服器資料校正）
+   */
+  async generateMealPlan(
+    context: MealPlanGenerationContext,
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<GeneratedMealPlanResult> {
+    try {
+      console.log(`GeminiService - 開始生成餐點計畫:`, {
+        startDate: context.startDate,
+        days: context.days,
+        candidates: context.candidates.length,
+      });
+
+      // 準備提示詞
+      const prompt = createGenerateMealPlanPrompt(context, userLanguage);
+
+      // 配置 function calling
+      const generationConfig = this._createGenerateMealPlanGenerationConfig();
+
+      // 調用 Gemini API
+      const result = await this._callGeminiAPIWithModel(
+        env,
+        prompt,
+        generationConfig,
+        getModelForCapability(env, "generateMealPlan")
+      );
+
+      // 解析回應
+      const parsedResult = this._parseGenerateMealPlanAIResponse(
+        result,
+        context
+      );
+
+      console.log("GeminiService - 餐點計畫生成完成");
+
+      return parsedResult;
+    } catch (error) {
+      console.error("GeminiService - 生成餐點計畫失敗:", error);
+      throw new Error(`生成餐點計畫失敗: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 創建餐點計畫生成的 AI 生成配置
+   */
+  private _createGenerateMealPlanGenerationConfig(): GenerationConfig {
+    return {
+      tools: [
+        {
+          functionDeclarations: [
+            {
+              name: "generate_meal_plan",
+              description: "依使用者營養目標與候選餐點生成多日餐點計畫",
+              parameters: generateMealPlanJsonSchema,
+            },
+          ],
+        },
+      ],
+      toolConfig: {
+        functionCallingConfig: {
+          mode: "ANY",
+          allowedFunctionNames: ["generate_meal_plan"],
+        },
+      },
+    };
+  }
+
+  /**
+   * 解析餐點計畫生成的 AI 回應
+   */
+  private _parseGenerateMealPlanAIResponse(
+    result: AIResponse,
+    context: MealPlanGenerationContext
+  ): GeneratedMealPlanResult {
+    let responseObject: any = {};
+
+    // 優先處理 function calling 回應（新版 API 結構）
+    const functionCalls = result.functionCalls;
+    if (functionCalls && functionCalls.length > 0) {
+      const call = functionCalls[0];
+      if (call && call.name === "generate_meal_plan") {
+        responseObject = call.args || {};
+      }
+    } else {
+      // 備用：檢查舊版 API 結構
+      const candidate = result.candidates?.[0];
+      if (candidate?.content?.parts) {
+        for (const part of candidate.content.parts) {
+          if (
+            part.functionCall &&
+            part.functionCall.name === "generate_meal_plan"
+          ) {
+            responseObject = part.functionCall.args || {};
+            break;
+          }
+        }
+      }
+    }
+
+    // 如果仍然沒有找到，嘗試從文字中解析 JSON
+    if (Object.keys(responseObject).length === 0) {
+      console.log("未找到 functionCall 或 args 為空，嘗試從文字解析 JSON");
+      responseObject = this._parseJsonFromText(result);
+    }
+
+    // 驗證和處理結果
+    return this._validateAndProcessGenerateMealPlanResult(
+      responseObject,
+      context
+    );
+  }
+
+  /**
+   * 驗證和處理餐點計畫生成結果
+   */
+  private _validateAndProcessGenerateMealPlanResult(
+    responseObject: any,
+    context: MealPlanGenerationContext
+  ): GeneratedMealPlanResult {
+    // 檢查是否為空物件
+    if (Object.keys(responseObject).length === 0) {
+      return {
+        error: "AI 未能生成有效的餐點計畫",
+      } as GeneratedMealPlanResult;
+    }
+
+    // 檢查是否為錯誤回應
+    if (responseObject.error) {
+      return { error: responseObject.error } as GeneratedMealPlanResult;
+    }
+
+    // 驗證必要欄位
+    if (
+      !Array.isArray(responseObject.days) ||
+      responseObject.days.length === 0
+    ) {
+      console.error("days 必須為非空陣列");
+      return { error: "API 回應格式不正確" } as GeneratedMealPlanResult;
+    }
+
+    // 以伺服器資料校正候選餐點的名稱與營養素
+    const plan = alignGeneratedMealPlan(responseObject, context);
+
+    if (plan.days.every((day) => day.meals.length === 0)) {
+      return { error: "API 回應格式不正確" } as GeneratedMealPlanResult;
+    }
+
+    return plan;
+  }
+
+  /**
+   * 分析包裝食品營養標示
+   * @param imageFiles 營養標示/包裝圖片
+   * @param userLanguage 用戶語言
+   * @param env 環境變數
+   * @returns 標示上的商品資訊與營養素
+   */
+  async analyzeProductLabel(
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<ProductLabelAnalysisResult> {
+    // 準備提示詞
+    const prompt = createAnalyzeProductLabelPrompt(userLanguage);
+
+    // 處理圖片數據
+    const imageParts = await this._processImageFiles(imageFiles);
+
+    // 配置 function calling
+    const generationConfig = this._createProductLabelGenerationConfig();
+
+    // 調用 Gemini API（帶圖片）
+    const result = await this._callGeminiAPIWithImages(
+      env,
+      prompt,
+      imageParts,
+      generationConfig,
+      getModelForCapability(env, "analyzeProductLabel")
+    );
+
+    const res: any = (result as any)?.candidates?.[0]?.content?.parts?.[0]
+      ?.functionCall?.args;
+
+    console.log("Gemini API 營養標示回應:", JSON.stringify(res, null, 2));
+
+    // 解析回應
+    return this._parseProductLabelResponse(result);
+  }
+
+  /**
+   * 創建營養標示分析生成配置
+   */
+  private _createProductLabelGenerationConfig(): GenerationConfig {
+    return {
+      tools: [
+        {
+          functionDeclarations: [
+            {
+              name: "analyze_product_label",
+              description: "讀取包裝食品的營養標示並返回結構化營養資訊",
+              parameters: analyzeProductLabelJsonSchema,
+            },
+          ],
+        },
+      ],
+      toolConfig: {
+        functionCallingConfig: {
+          mode: "ANY",
+          allowedFunctionNames: ["analyze_product_label"],
+        },
+      },
+    };
+  }
+
+  /**
+   * 解析營養標示分析回應
+   */
+  private _parseProductLabelResponse(
+    result: AIResponse
+  ): ProductLabelAnalysisResult {
+    let responseObject: any = {};
+
+    // 優先處理 function calling 回應（新版 API 結構）
+    const functionCalls = result.functionCalls;
+    if (functionCalls && functionCalls.length > 0) {
+      const call = functionCalls[0];
+      if (call && call.name === "analyze_product_label") {
+        responseObject = call.args || {};
+      }
+    } else {
+      // 備用：檢查舊版 API 結構
+      const candidate = result.candidates?.[0];
+      if (candidate?.content?.parts) {
+        for (const part of candidate.content.parts) {
+          if (
+            part.functionCall &&
+            part.functionCall.name === "analyze_product_label"
+          ) {
+            responseObject = part.functionCall.args || {};
+            break;
+          }
+        }
+      }
+    }
+
+    // 如果仍然沒有找到，嘗試從文字中解析 JSON
+    if (Object.keys(responseObject).length === 0) {
+      console.log("未找到 functionCall 或 args 為空，嘗試從文字解析 JSON");
+      responseObject = this._parseJsonFromText(result);
+    }
+
+    // 驗證和處理結果
+    return this._validateAndProcessProductLabelResult(responseObject);
+  }
+
+  /**
+   * 驗證和處理營養標示分析結果
+   * - 空字串品牌、0 份量轉為 null
+   * - 缺少任一營養素的區塊視為標示上沒有該欄
+   */
+  private _validateAndProcessProductLabelResult(
+    responseObject: any
+  ): ProductLabelAnalysisResult {
+    // 檢查是否為空物件
+    if (Object.keys(responseObject).length === 0) {
+      return {
+        error: "AI 未能生成有效的營養標示分析結果",
+      } as ProductLabelAnalysisResult;
+    }
+
+    // 檢查是否為錯誤回應
+    if (responseObject.error) {
+      return { error: responseObject.error } as ProductLabelAnalysisResult;
+    }
+
+    const toNutrients = (value: any) => {
+      if (!value || typeof value !== "object") return null;
+      const fields = ["calories", "protein", "carbs", "fat"] as const;
+      if (fields.some((field) => typeof value[field] !== "number")) {
+        return null;
+      }
+      return {
+        calories: value.calories,
+        protein: value.protein,
+        carbs: value.carbs,
+        fat: value.fat,
+      };
+    };
+
+    const per100g = toNutrients(responseObject.per100g);
+    const perServing = toNutrients(responseObject.perServing);
+
+    // 驗證必要欄位
+    if (
+      typeof responseObject.name !== "string" ||
+      responseObject.name.trim() === "" ||
+      (!per100g && !perServing)
+    ) {
+      console.error("營養標示結果缺少名稱或營養素");
+      return { error: "API 回應格式不正確" } as ProductLabelAnalysisResult;
+    }
+
+    return {
+      name: responseObject.name.trim(),
+      brand:
+        typeof responseObject.brand === "string" &&
+        responseObject.brand.trim() !== ""
+          ? responseObject.brand.trim()
+          : null,
+      servingSize:
+        typeof responseObject.servingSize === "number" &&
+        responseObject.servingSize > 0
+          ? responseObject.servingSize
+          : null,
+      servingUnit: responseObject.servingUnit === "ml" ? "ml" : "g",
+      servingsPerContainer:
+        typeof responseObject.servingsPerContainer === "number" &&
+        responseObject.servingsPerContainer > 0
+          ? responseObject.servingsPerContainer
+          : null,
+      per100g,
+      perServing,
+    };
+  }
 }
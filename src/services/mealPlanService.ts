@@ -0,0 +1,692 @@
+import { IDiaryService } from "../controllers/diaryController";
+import { IFavFoodRepository } from "../repositories/favFoodRepository";
+import { IMealPlanRepository } from "../repositories/mealPlanRepository";
+import { IUserRepository } from "../repositories/userRepository";
+import { Diary, NutritionTargets, NutritionTotals } from "../types/diary";
+import {
+  GenerateMealPlanRequest,
+  MealPlanCandidate,
+  MealPlanGenerationContext,
+} from "../types/gemini";
+import {
+  CreateMealPlanEntryRequest,
+  MealPlanDay,
+  MealPlanEntry,
+  UpdateMealPlanEntryRequest,
+} from "../types/mealPlan";
+import { RECIPE_TAG_GROUPS } from "../types/recipe";
+import { AppUser } from "../types/user";
+import { getLocalDateTime, localTimeToDate } from "../utils/timezone";
+import { IRecipeService } from "./recipeService";
+
+// AI 餐點計畫生成時，每種來源最多提供的候選餐點數
+const MAX_GENERATION_CANDIDATES = 30;
+
+/**
+ * MealPlan Service 介面 - 定義業務邏輯操作
+ */
+export interface IMealPlanService {
+  /**
+   * 取得日期區間內每一天的餐點計畫與預估營養
+   * @param userId 使用者 ID
+   * @param startDate 起始日期 YYYY-MM-DD（包含）
+   * @param endDate 結束日期 YYYY-MM-DD（包含）
+   * @returns 每日餐點計畫陣列（包含沒有計畫的日期）
+   */
+  getMealPlan(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MealPlanDay[]>;
+
+  /**
+   * 新增餐點計畫項目
+   * @param userId 使用者 ID
+   * @param request 日期、餐別、來源與份數
+   * @returns 建立的 MealPlanEntry 物件
+   */
+  createEntry(
+    userId: string,
+    request: CreateMealPlanEntryRequest
+  ): Promise<MealPlanEntry>;
+
+  /**
+   * 更新餐點計畫項目的日期、餐別或份數
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   * @param updates 更新資料
+   * @returns 更新後的 MealPlanEntry 物件
+   */
+  updateEntry(
+    userId: string,
+    entryId: string,
+    updates: UpdateMealPlanEntryRequest
+  ): Promise<MealPlanEntry>;
+
+  /**
+   * 刪除餐點計畫項目
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   */
+  deleteEntry(userId: string, entryId: string): Promise<void>;
+
+  /**
+   * 將餐點計畫項目記錄為 diary
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   * @returns 建立的 Diary 物件
+   */
+  logEntryAsDiary(userId: string, entryId: string): Promise<Diary>;
+
+  /**
+   * 組成 AI 餐點計畫生成所需的輸入資料
+   * @param userId 使用者 ID
+   * @param request 起始日期、天數、飲食偏好與語言
+   * @returns 使用者目標與候選餐點
+   */
+  buildGenerationContext(
+    userId: string,
+    request: GenerateMealPlanRequest
+  ): Promise<MealPlanGenerationContext>;
+}
+
+/**
+ * MealPlan Service - 業務邏輯層
+ * 負責餐點計畫的建立、預估營養計算與記錄為 diary
+ */
+export class MealPlanService implements IMealPlanService {
+  constructor(
+    private mealPlanRepository: IMealPlanRepository,
+    private recipeService: IRecipeService,
+    private favFoodRepository: IFavFoodRepository,
+    private userRepository: IUserRepository,
+    private diaryService: IDiaryService
+  ) {}
+
+  /**
+   * 取得日期區間內的餐點計畫
+   * 業務邏輯：
+   * - 依日期分組計畫項目，區間內每一天都會回傳（沒有計畫時 entries 為空）
+   * - 預估營養 = 每份營養素快照 × 份數
+   * - 與使用者的每日營養目標比較，計算剩餘額度
+   *
+   * @param userId 使用者 ID
+   * @param startDate 起始日期 YYYY-MM-DD（包含）
+   * @param endDate 結束日期 YYYY-MM-DD（包含）
+   * @returns 每日餐點計畫陣列
+   */
+  async getMealPlan(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MealPlanDay[]> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    try {
+      const [entries, user] = await Promise.all([
+        this.mealPlanRepository.findByDateRange(userId, startDate, endDate),
+        this.userRepository.findById(userId),
+      ]);
+
+      const targets: NutritionTargets = {
+        calories: user?.targetCalories ?? null,
+        protein: user?.targetProtein ?? null,
+        carbs: user?.targetCarb ?? null,
+        fat: user?.targetFat ?? null,
+      };
+
+      const entriesByDate = new Map<string, MealPlanEntry[]>();
+      for (const entry of entries) {
+        const list = entriesByDate.get(entry.date) || [];
+        list.push(entry);
+        entriesByDate.set(entry.date, list);
+      }
+
+      const days: MealPlanDay[] = [];
+      const rangeEnd = this.keyToDate(endDate);
+      for (
+        const cursor = this.keyToDate(startDate);
+        cursor <= rangeEnd;
+        cursor.setDate(cursor.getDate() + 1)
+      ) {
+        const key = this.dateToKey(cursor);
+        days.push(
+          this.buildMealPlanDay(key, entriesByDate.get(key) || [], targets)
+        );
+      }
+
+      return days;
+    } catch (error) {
+      console.error("Service: 取得餐點計畫時發生錯誤:", error);
+      throw new Error("取得餐點計畫失敗");
+    }
+  }
+
+  /**
+   * 新增餐點計畫項目
+   * 業務邏輯：
+   * - 只能安排今天或未來的日期（以使用者通知偏好的時區判斷今天）
+   * - 確認食譜或收藏食物存在，並記錄名稱與每份營養素快照
+   *
+   * @param userId 使用者 ID
+   * @param request 日期、餐別、來源與份數
+   * @returns 建立的 MealPlanEntry 物件
+   */
+  async createEntry(
+    userId: string,
+    request: CreateMealPlanEntryRequest
+  ): Promise<MealPlanEntry> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    const user = await this.userRepository.findById(userId);
+    this.validatePlanDate(request.date, this.getTimeZone(user));
+
+    const snapshot =
+      request.sourceType === "recipe"
+        ? await this.loadRecipeSnapshot(request.sourceId, request.language)
+        : await this.loadFavFoodSnapshot(userId, request.sourceId);
+
+    const now = new Date();
+    const entry: MealPlanEntry = {
+      id: crypto.randomUUID(),
+      date: request.date,
+      slot: request.slot,
+      sourceType: request.sourceType,
+      sourceId: request.sourceId,
+      servings: request.servings,
+      name: snapshot.name,
+      imgUrl: snapshot.imgUrl,
+      language: request.language,
+      perServing: snapshot.perServing,
+      loggedDiaryId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      return await this.mealPlanRepository.create(userId, entry);
+    } catch (error) {
+      console.error("Service: 建立餐點計畫項目時發生錯誤:", error);
+      throw new Error("建立餐點計畫項目失敗");
+    }
+  }
+
+  /**
+   * 更新餐點計畫項目
+   * 業務邏輯：
+   * - 已記錄為 diary 的項目不能再修改
+   * - 移動日期時仍只能安排今天或未來的日期
+   *
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   * @param updates 更新資料
+   * @returns 更新後的 MealPlanEntry 物件
+   */
+  async updateEntry(
+    userId: string,
+    entryId: string,
+    updates: UpdateMealPlanEntryRequest
+  ): Promise<MealPlanEntry> {
+    const entry = await this.getExistingEntry(userId, entryId);
+
+    if (entry.loggedDiaryId) {
+      throw new Error("已記錄為 diary 的餐點計畫無法修改");
+    }
+
+    if (updates.date !== undefined) {
+      const user = await this.userRepository.findById(userId);
+      this.validatePlanDate(updates.date, this.getTimeZone(user));
+    }
+
+    const changes: Partial<MealPlanEntry> = {};
+    if (updates.date !== undefined) changes.date = updates.date;
+    if (updates.slot !== undefined) changes.slot = updates.slot;
+    if (updates.servings !== undefined) changes.servings = updates.servings;
+
+    if (Object.keys(changes).length === 0) {
+      throw new Error("更新資料不能為空");
+    }
+
+    try {
+      await this.mealPlanRepository.update(userId, entryId, changes);
+      return { ...entry, ...changes, updatedAt: new Date() };
+    } catch (error) {
+      console.error("Service: 更新餐點計畫項目時發生錯誤:", error);
+      throw new Error("更新餐點計畫項目失敗");
+    }
+  }
+
+  /**
+   * 刪除餐點計畫項目
+   * 業務邏輯：
+   * - 只刪除計畫本身，已記錄的 diary 不受影響
+   *
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   */
+  async deleteEntry(userId: string, entryId: string): Promise<void> {
+    await this.getExistingEntry(userId, entryId);
+
+    try {
+      await this.mealPlanRepository.delete(userId, entryId);
+    } catch (error) {
+      console.error("Service: 刪除餐點計畫項目時發生錯誤:", error);
+      throw new Error("刪除餐點計畫項目失敗");
+    }
+  }
+
+  /**
+   * 將餐點計畫項目記錄為 diary
+   * 業務邏輯：
+   * - 未來日期的計畫不能記錄，同一項目只能記錄一次
+   * - 食譜沿用 DiaryFromRecipe 的份數縮放邏輯
+   * - 收藏食物依份數 / FoodEntry.portions 縮放營養素與食材
+   * - 今天的計畫以目前時間記錄，過去的計畫記錄在該日 00:00
+   * - 今天與該日 00:00 都以使用者通知偏好的時區計算
+   *
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   * @returns 建立的 Diary 物件
+   */
+  async logEntryAsDiary(userId: string, entryId: string): Promise<Diary> {
+    const entry = await this.getExistingEntry(userId, entryId);
+
+    if (entry.loggedDiaryId) {
+      throw new Error("此餐點計畫已記錄為 diary");
+    }
+
+    const timeZone = this.getTimeZone(
+      await this.userRepository.findById(userId)
+    );
+    const now = new Date();
+    const todayKey = getLocalDateTime(now, timeZone).date;
+    if (entry.date > todayKey) {
+      throw new Error("無法記錄未來日期的餐點計畫");
+    }
+    const diaryDate =
+      entry.date === todayKey ? now : localTimeToDate(entry.date, 0, timeZone);
+
+    const diary =
+      entry.sourceType === "recipe"
+        ? await this.diaryService.createDiaryFromRecipe(userId, {
+            recipeId: entry.sourceId,
+            servings: entry.servings,
+            diaryDate,
+            language: entry.language,
+          })
+        : await this.createDiaryFromFavFood(userId, entry, diaryDate);
+
+    try {
+      await this.mealPlanRepository.update(userId, entryId, {
+        loggedDiaryId: diary.id,
+      });
+    } catch (error) {
+      // diary 已建立成功，標記失敗不影響結果
+      console.error("Service: 標記餐點計畫已記錄時發生錯誤:", error);
+    }
+
+    return diary;
+  }
+
+  /**
+   * 組成 AI 餐點計畫生成所需的輸入資料
+   * 業務邏輯：
+   * - 營養目標與體重目標取自使用者資料
+   * - 未指定起始日期時從使用者時區的今天開始
+   * - 候選餐點：最近更新的收藏食物優先，其次為最多人收藏的公開食譜
+   * - 飲食類型標籤（如 vegan、keto）為硬性條件，食譜必須包含所有指定標籤
+   * - 候選營養素一律換算為每份數值
+   *
+   * @param userId 使用者 ID
+   * @param request 起始日期、天數、飲食偏好與語言
+   * @returns 使用者目標與候選餐點
+   */
+  async buildGenerationContext(
+    userId: string,
+    request: GenerateMealPlanRequest
+  ): Promise<MealPlanGenerationContext> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    const user = await this.userRepository.findById(userId);
+    const timeZone = this.getTimeZone(user);
+    const startDate =
+      request.startDate || getLocalDateTime(new Date(), timeZone).date;
+    this.validatePlanDate(startDate, timeZone);
+
+    const dietTypeTags = request.dietaryTags.filter((tag) =>
+      RECIPE_TAG_GROUPS.dietType.includes(tag)
+    );
+    const cuisineTags = request.dietaryTags.filter((tag) =>
+      RECIPE_TAG_GROUPS.cuisine.includes(tag)
+    );
+
+    try {
+      const [foodEntries, recipePage] = await Promise.all([
+        this.favFoodRepository.getFoodEntries(userId),
+        this.recipeService.getPublicRecipeFeed({
+          dietType: dietTypeTags.length > 0 ? dietTypeTags : undefined,
+          cuisine: cuisineTags.length > 0 ? cuisineTags : undefined,
+          sort: "mostFavorited",
+          limit: 50,
+        }),
+      ]);
+
+      const favFoodCandidates: MealPlanCandidate[] = [...foodEntries]
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+        .slice(0, MAX_GENERATION_CANDIDATES)
+        .filter((foodEntry) => !!foodEntry.id)
+        .map((foodEntry) => {
+          const portions = foodEntry.portions || 1;
+          return {
+            sourceType: "favFood",
+            sourceId: foodEntry.id!,
+            name: foodEntry.name,
+            calories: this.round(foodEntry.calories / portions),
+            protein: this.round(foodEntry.protein / portions),
+            carbs: this.round(foodEntry.carbs / portions),
+            fat: this.round(foodEntry.fat / portions),
+            tags: [],
+          };
+        });
+
+      // 飲食類型為硬性條件：動態牆僅要求符合任一標籤，這裡再要求全部符合
+      const recipeCandidates: MealPlanCandidate[] = recipePage.items
+        .filter(
+          (recipe) =>
+            !!recipe.id &&
+            dietTypeTags.every((tag) => recipe.tags.includes(tag))
+        )
+        .slice(0, MAX_GENERATION_CANDIDATES)
+        .map((recipe) => {
+          const servings = recipe.servings || 1;
+          return {
+            sourceType: "recipe",
+            sourceId: recipe.id!,
+            name: this.pickLocalizedName(recipe.name, request.user_language),
+            calories: this.round(recipe.calories / servings),
+            protein: this.round(recipe.protein / servings),
+            carbs: this.round(recipe.carbs / servings),
+            fat: this.round(recipe.fat / servings),
+            tags: recipe.tags,
+          };
+        });
+
+      return {
+        startDate,
+        days: request.days,
+        targets: {
+          calories: user?.targetCalories ?? null,
+          protein: user?.targetProtein ?? null,
+          carbs: user?.targetCarb ?? null,
+          fat: user?.targetFat ?? null,
+        },
+        goal: user?.goal ?? null,
+        dietaryTags: request.dietaryTags,
+        candidates: [...favFoodCandidates, ...recipeCandidates],
+      };
+    } catch (error) {
+      console.error("Service: 組成餐點計畫生成資料時發生錯誤:", error);
+      throw new Error("組成餐點計畫生成資料失敗");
+    }
+  }
+
+  /**
+   * 依收藏食物建立 diary
+   * @param userId 使用者 ID
+   * @param entry 餐點計畫項目
+   * @param diaryDate diary 日期
+   * @returns 建立的 Diary 物件
+   */
+  private async createDiaryFromFavFood(
+    userId: string,
+    entry: MealPlanEntry,
+    diaryDate: Date
+  ): Promise<Diary> {
+    const foodEntry = await this.favFoodRepository.getFoodEntry(
+      userId,
+      entry.sourceId
+    );
+    if (!foodEntry) {
+      throw new Error("找不到指定的收藏食物");
+    }
+
+    const factor = entry.servings / (foodEntry.portions || 1);
+
+    return this.diaryService.createDiary(userId, {
+      name: foodEntry.name,
+      brand: foodEntry.brand ?? null,
+      originalImgs: foodEntry.originalImgs ?? null,
+      stickerImg: foodEntry.stickerImg ?? null,
+      calories: this.round(foodEntry.calories * factor),
+      protein: this.round(foodEntry.protein * factor),
+      carbs: this.round(foodEntry.carbs * factor),
+      fat: this.round(foodEntry.fat * factor),
+      healthAssessment: foodEntry.healthAssessment,
+      ingredients: (foodEntry.ingredients || []).map((ingredient) => ({
+        ...ingredient,
+        amountValue: this.round(ingredient.amountValue * factor),
+        calories: this.round(ingredient.calories * factor),
+        protein: this.round(ingredient.protein * factor),
+        carbs: this.round(ingredient.carbs * factor),
+        fat: this.round(ingredient.fat * factor),
+      })),
+      portions: entry.servings,
+      source: "favFood",
+      sourceId: entry.sourceId,
+      diaryDate,
+    });
+  }
+
+  /**
+   * 取得食譜的名稱與每份營養素快照
+   * @param recipeId 食譜 ID
+   * @param language 名稱語言
+   * @returns 名稱、圖片與每份營養素
+   */
+  private async loadRecipeSnapshot(
+    recipeId: string,
+    language: string
+  ): Promise<{
+    name: string;
+    imgUrl: string | null;
+    perServing: NutritionTotals;
+  }> {
+    // scaleRecipe 會在找不到食譜時拋出「找不到指定的食譜」
+    const { recipe, perServing } = await this.recipeService.scaleRecipe(
+      recipeId,
+      1
+    );
+
+    return {
+      name: this.pickLocalizedName(recipe.name, language),
+      imgUrl: recipe.imgUrl || null,
+      perServing,
+    };
+  }
+
+  /**
+   * 取得收藏食物的名稱與每份營養素快照
+   * @param userId 使用者 ID
+   * @param foodEntryId 收藏食物 ID
+   * @returns 名稱、圖片與每份營養素
+   */
+  private async loadFavFoodSnapshot(
+    userId: string,
+    foodEntryId: string
+  ): Promise<{
+    name: string;
+    imgUrl: string | null;
+    perServing: NutritionTotals;
+  }> {
+    const foodEntry = await this.favFoodRepository.getFoodEntry(
+      userId,
+      foodEntryId
+    );
+    if (!foodEntry) {
+      throw new Error("找不到指定的收藏食物");
+    }
+
+    const portions = foodEntry.portions || 1;
+    return {
+      name: foodEntry.name,
+      imgUrl: foodEntry.stickerImg || foodEntry.originalImgs?.[0] || null,
+      perServing: {
+        calories: this.round(foodEntry.calories / portions),
+        protein: this.round(foodEntry.protein / portions),
+        carbs: this.round(foodEntry.carbs / portions),
+        fat: this.round(foodEntry.fat / portions),
+      },
+    };
+  }
+
+  /**
+   * 依語言取得食譜名稱，找不到時依序退回英文、繁體中文或任一語言
+   * @param names 多語言名稱
+   * @param language 語言代碼
+   * @returns 名稱
+   */
+  private pickLocalizedName(
+    names: Record<string, string> | undefined,
+    language: string
+  ): string {
+    const localized = names || {};
+    return (
+      localized[language] ||
+      localized.en ||
+      localized.zh_TW ||
+      Object.values(localized).find((text) => !!text) ||
+      ""
+    );
+  }
+
+  /**
+   * 取得存在的餐點計畫項目
+   * @param userId 使用者 ID
+   * @param entryId 項目 ID
+   * @returns MealPlanEntry 物件
+   */
+  private async getExistingEntry(
+    userId: string,
+    entryId: string
+  ): Promise<MealPlanEntry> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    if (!entryId || entryId.trim() === "") {
+      throw new Error("餐點計畫 ID 不能為空");
+    }
+
+    const entry = await this.mealPlanRepository.findById(userId, entryId);
+    if (!entry) {
+      throw new Error("找不到指定的餐點計畫");
+    }
+
+    return entry;
+  }
+
+  /**
+   * 驗證計畫日期為今天或未來
+   * @param date 日期 YYYY-MM-DD
+   * @param timeZone 判斷今天使用的 IANA 時區
+   */
+  private validatePlanDate(date: string, timeZone: string): void {
+    if (isNaN(this.keyToDate(date).getTime())) {
+      throw new Error("無效的日期格式，請使用 YYYY-MM-DD 格式");
+    }
+
+    if (date < getLocalDateTime(new Date(), timeZone).date) {
+      throw new Error("無效的日期：餐點計畫只能安排在今天或未來");
+    }
+  }
+
+  /**
+   * 取得使用者通知偏好中的時區，未設定時使用 UTC
+   * @param user 使用者資料
+   * @returns IANA 時區
+   */
+  private getTimeZone(user: AppUser | null): string {
+    return user?.notificationSettings?.timezone ?? "UTC";
+  }
+
+  /**
+   * 建立單日餐點計畫
+   * @param date 日期鍵 (YYYY-MM-DD)
+   * @param entries 當日計畫項目
+   * @param targets 使用者營養目標
+   * @returns MealPlanDay 物件
+   */
+  private buildMealPlanDay(
+    date: string,
+    entries: MealPlanEntry[],
+    targets: NutritionTargets
+  ): MealPlanDay {
+    const projected = entries.reduce(
+      (totals, entry) => ({
+        calories: totals.calories + entry.perServing.calories * entry.servings,
+        protein: totals.protein + entry.perServing.protein * entry.servings,
+        carbs: totals.carbs + entry.perServing.carbs * entry.servings,
+        fat: totals.fat + entry.perServing.fat * entry.servings,
+      }),
+      { calories: 0, protein: 0, carbs: 0, fat: 0 }
+    );
+
+    const remainingOf = (target: number | null, value: number) =>
+      target === null ? null : this.round(target - value);
+
+    return {
+      date,
+      entries,
+      projected: {
+        calories: this.round(projected.calories),
+        protein: this.round(projected.protein),
+        carbs: this.round(projected.carbs),
+        fat: this.round(projected.fat),
+      },
+      targets,
+      remaining: {
+        calories: remainingOf(targets.calories, projected.calories),
+        protein: remainingOf(targets.protein, projected.protein),
+        carbs: remainingOf(targets.carbs, projected.carbs),
+        fat: remainingOf(targets.fat, projected.fat),
+      },
+    };
+  }
+
+  /**
+   * 將 YYYY-MM-DD 轉換為當天 00:00 的 Date
+   * @param key 日期鍵
+   * @returns Date 物件
+   */
+  private keyToDate(key: string): Date {
+    const [year, month, day] = key.split("-").map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  /**
+   * 將日期轉換為 YYYY-MM-DD 格式的鍵值
+   * @param date 日期
+   * @returns 日期鍵
+   */
+  private dateToKey(date: Date): string {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, "0");
+    const day = date.getDate().toString().padStart(2, "0");
+    return `${year}-${month}-${day}`;
+  }
+
+  /**
+   * 四捨五入到小數點後一位
+   * @param value 數值
+   * @returns 四捨五入後的數值
+   */
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
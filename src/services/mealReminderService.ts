@@ -0,0 +1,265 @@
+import { IDiaryRepository } from "../repositories/diaryRepository";
+import { IMealReminderRepository } from "../repositories/mealReminderRepository";
+import { getMealReminderTemplate, NotificationType } from "../types/fcmToken";
+import type {
+  MealReminderRunResult,
+  MealReminderSchedule,
+} from "../types/mealReminder";
+import type { SubrequestBudget } from "../types/subrequestBudget";
+import {
+  formatTimeOfDay,
+  getLocalDateTime,
+  getNextLocalTimeOccurrence,
+  getStartOfLocalDay,
+  isValidTimeZone,
+  localTimeToDate,
+  parseTimeOfDay,
+} from "../utils/timezone";
+import { IFcmTokenService } from "./fcmTokenService";
+
+/**
+ * 提醒最多可延遲發送的分鐘數，超過時只推進到下一次提醒（排程中斷後不補發過時的提醒）
+ * 需大於 Cron Trigger 間隔（見 wrangler.jsonc），讓超過單次上限而順延的提醒仍會發送
+ */
+export const MEAL_REMINDER_MAX_DELAY_MINUTES = 60;
+
+/**
+ * 每次從 D1 讀取的提醒排程筆數
+ */
+const SCHEDULE_PAGE_SIZE = 50;
+
+/**
+ * 每個提醒預留的子請求數：查詢 diary、推進排程、查詢 Token、送達紀錄與最多 3 個裝置的推播
+ * 本次排程的子請求預算不足時，其餘提醒仍停留在到期狀態，由下一次排程處理
+ */
+const MEAL_REMINDER_SUBREQUESTS_PER_USER = 7;
+
+/**
+ * 依剩餘子請求數計算下一頁最多能處理的提醒數（讀取排程本身需要一次子請求）
+ * @param budget 本次排程剩餘的子請求數
+ * @returns 提醒數，不足一筆時返回 0
+ */
+function getReminderLimit(budget: SubrequestBudget): number {
+  return Math.max(
+    0,
+    Math.floor((budget.remaining - 1) / MEAL_REMINDER_SUBREQUESTS_PER_USER)
+  );
+}
+
+/**
+ * 取得提醒要檢查的 diary 起始時間
+ * 同一天有較早的提醒時間時從該提醒開始，當天第一個提醒則從當地午夜開始
+ * （早餐後記錄過的使用者，午餐與晚餐提醒仍會發送）
+ * @param schedule 提醒排程
+ * @param dueAt 本次提醒時間
+ * @returns 起始時間
+ */
+function getReminderWindowStart(
+  schedule: MealReminderSchedule,
+  dueAt: Date
+): Date {
+  const local = getLocalDateTime(dueAt, schedule.timezone);
+  const previousMinutes = schedule.reminderTimes
+    .map(parseTimeOfDay)
+    .filter(
+      (minutes): minutes is number =>
+        minutes !== null && minutes < local.minutes
+    );
+
+  if (previousMinutes.length === 0) {
+    return getStartOfLocalDay(dueAt, schedule.timezone);
+  }
+
+  return localTimeToDate(
+    local.date,
+    Math.max(...previousMinutes),
+    schedule.timezone
+  );
+}
+
+/**
+ * Meal Reminder Service 介面 - 定義業務邏輯操作
+ */
+export interface IMealReminderService {
+  /**
+   * 發送到期的飲食提醒推播
+   * @param now 排程觸發時間
+   * @param budget 本次排程剩餘的子請求數（依實際用量扣除）
+   * @returns 發送結果統計
+   */
+  sendDueReminders(
+    now: Date,
+    budget: SubrequestBudget
+  ): Promise<MealReminderRunResult>;
+}
+
+/**
+ * Meal Reminder Service - 依使用者時區在提醒時間推播飲食記錄提醒
+ */
+export class MealReminderService implements IMealReminderService {
+  constructor(
+    private mealReminderRepository: IMealReminderRepository,
+    private diaryRepository: IDiaryRepository,
+    private fcmTokenService: IFcmTokenService
+  ) {}
+
+  /**
+   * 發送到期的飲食提醒推播
+   * 業務邏輯：
+   * - 只讀取下一次提醒時間已到的排程（依提醒時間由早到晚），處理筆數受本次排程的子請求預算限制
+   * - 每個排程處理後推進到使用者時區中的下一次提醒時間
+   * - 延遲超過 MEAL_REMINDER_MAX_DELAY_MINUTES 的提醒不發送
+   * - 同一天上一個提醒時間之後（當天第一個提醒則為當地午夜之後）已記錄 diary 的使用者不提醒
+   * - 推進排程成功才發送，重疊的排程不會重複推播
+   * - 依每個裝置的語言選擇通知模板，推播到使用者所有裝置
+   * - 單一使用者失敗不影響其他使用者
+   */
+  async sendDueReminders(
+    now: Date,
+    budget: SubrequestBudget
+  ): Promise<MealReminderRunResult> {
+    const result: MealReminderRunResult = {
+      checked: 0,
+      reminded: 0,
+      skippedLogged: 0,
+      skippedLate: 0,
+      skippedNoToken: 0,
+      delivered: 0,
+      failed: 0,
+    };
+
+    // 處理失敗的排程仍停留在到期狀態，同一次排程不再重試
+    const attempted = new Set<string>();
+
+    for (;;) {
+      const limit = getReminderLimit(budget);
+      if (limit === 0) {
+        console.warn(
+          `飲食提醒已用完本次排程的子請求預算（已處理 ${result.checked} 筆），其餘提醒由下一次排程處理`
+        );
+        return result;
+      }
+      budget.remaining--;
+
+      const schedules = await this.mealReminderRepository.findDue(
+        now,
+        SCHEDULE_PAGE_SIZE
+      );
+      const pending = schedules
+        .filter((schedule) => !attempted.has(schedule.userId))
+        .slice(0, limit);
+      if (pending.length === 0) {
+        return result;
+      }
+
+      for (const schedule of pending) {
+        attempted.add(schedule.userId);
+        result.checked++;
+        try {
+          await this.remindIfDue(schedule, now, budget, result);
+        } catch (error) {
+          budget.remaining -= MEAL_REMINDER_SUBREQUESTS_PER_USER;
+          console.error(`飲食提醒發送失敗 - 使用者: ${schedule.userId}`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * 處理單一到期的提醒排程
+   */
+  private async remindIfDue(
+    schedule: MealReminderSchedule,
+    now: Date,
+    budget: SubrequestBudget,
+    result: MealReminderRunResult
+  ): Promise<void> {
+    const dueAt = schedule.nextReminderAt;
+    if (!dueAt) {
+      return;
+    }
+
+    if (!isValidTimeZone(schedule.timezone)) {
+      console.warn(
+        `無效的時區: ${schedule.timezone}，停止提醒使用者 ${schedule.userId}`
+      );
+      budget.remaining--;
+      await this.mealReminderRepository.advance(
+        schedule.userId,
+        dueAt,
+        null,
+        null
+      );
+      return;
+    }
+
+    const nextReminderAt = getNextLocalTimeOccurrence(
+      schedule.reminderTimes,
+      schedule.timezone,
+      now
+    );
+
+    if (
+      now.getTime() - dueAt.getTime() >
+      MEAL_REMINDER_MAX_DELAY_MINUTES * 60 * 1000
+    ) {
+      result.skippedLate++;
+      budget.remaining--;
+      await this.mealReminderRepository.advance(
+        schedule.userId,
+        dueAt,
+        nextReminderAt,
+        null
+      );
+      return;
+    }
+
+    // 查詢 diary 並推進排程
+    budget.remaining -= 2;
+    const hasLogged = await this.diaryRepository.hasDiarySince(
+      schedule.userId,
+      getReminderWindowStart(schedule, dueAt)
+    );
+    if (hasLogged) {
+      result.skippedLogged++;
+      await this.mealReminderRepository.advance(
+        schedule.userId,
+        dueAt,
+        nextReminderAt,
+        null
+      );
+      return;
+    }
+
+    // 先推進排程再發送，避免重疊的排程重複推播
+    const local = getLocalDateTime(dueAt, schedule.timezone);
+    const slot = `${local.date} ${formatTimeOfDay(local.minutes)}`;
+    const claimed = await this.mealReminderRepository.advance(
+      schedule.userId,
+      dueAt,
+      nextReminderAt,
+      slot
+    );
+    if (!claimed) {
+      return;
+    }
+
+    const summary = await this.fcmTokenService.sendToUser(
+      schedule.userId,
+      (token) => ({
+        type: NotificationType.MEAL_REMINDER,
+        ...getMealReminderTemplate(token.language),
+      })
+    );
+    // 查詢 Token、送達紀錄、每個裝置的推播與刪除失效 Token
+    budget.remaining -= 2 + summary.total + summary.removedTokens;
+    if (summary.total === 0) {
+      result.skippedNoToken++;
+      return;
+    }
+
+    result.reminded++;
+    result.delivered += summary.delivered;
+    result.failed += summary.failed;
+  }
+}
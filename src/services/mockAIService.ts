@@ -0,0 +1,92 @@
+import type { Env } from "../bindings";
+import { ImagePart } from "../types/analyze";
+import type { GenerationConfig as ChatGenerationConfig } from "../types/chat";
+import { AIResponse, GenerationConfig } from "../types/gemini";
+import {
+  getMockAIResponse,
+  MOCK_CHAT_STREAM_CHUNKS,
+} from "../utils/mockAIFixtures";
+import { AIChatService } from "./aiChatService";
+import { GeminiService } from "./geminiService";
+
+/**
+ * 取得 function calling 配置中指定的函數名稱
+ */
+function getFunctionName(
+  generationConfig: GenerationConfig | ChatGenerationConfig
+): string {
+  const name =
+    generationConfig.toolConfig.functionCallingConfig.allowedFunctionNames?.[0];
+  if (!name) {
+    throw new Error("Mock AI 無法判斷要回放的函數名稱");
+  }
+  return name;
+}
+
+/**
+ * Mock AI 服務類（AI_MOCK_MODE=true 時使用）
+ * 不發出任何網路請求，依 function calling 的函數名稱回放 mockAIFixtures 中的 fixture，
+ * 其餘的提示詞組成、回應解析與營養素校正沿用 GeminiService，
+ * 讓整合測試在沒有 API 金鑰與網路的環境下也能走完整個流程
+ */
+export class MockAIService extends GeminiService {
+  /**
+   * 回放 fixture（純文字輸入）
+   */
+  protected async _callGeminiAPIWithModel(
+    env: Env,
+    prompt: string,
+    generationConfig: GenerationConfig
+  ): Promise<AIResponse> {
+    const functionName = getFunctionName(generationConfig);
+    console.log(`🧪 Mock AI 回放 fixture: ${functionName}`);
+    return getMockAIResponse(functionName);
+  }
+
+  /**
+   * 回放 fixture（圖片 + 文字輸入）
+   */
+  protected async _callGeminiAPIWithImages(
+    env: Env,
+    prompt: string,
+    imageParts: ImagePart[],
+    generationConfig: GenerationConfig
+  ): Promise<AIResponse> {
+    const functionName = getFunctionName(generationConfig);
+    console.log(
+      `🧪 Mock AI 回放 fixture: ${functionName}（${imageParts.length} 張圖片）`
+    );
+    return getMockAIResponse(functionName);
+  }
+}
+
+/**
+ * Mock AI 聊天服務類（AI_MOCK_MODE=true 時使用）
+ * 串流模式依序輸出 MOCK_CHAT_STREAM_CHUNKS，報告模式依函數名稱回放 fixture
+ */
+export class MockAIChatService extends AIChatService {
+  /**
+   * 回放 fixture（非串流模式）
+   */
+  protected async _callGeminiAPI(
+    env: Env,
+    prompt: string,
+    generationConfig: ChatGenerationConfig
+  ): Promise<any> {
+    const functionName = getFunctionName(generationConfig);
+    console.log(`🧪 Mock AI 回放 fixture: ${functionName}`);
+    return getMockAIResponse(functionName);
+  }
+
+  /**
+   * 回放串流片段（串流模式）
+   */
+  protected async _callGeminiStreamAPI(env: Env, prompt: string): Promise<any> {
+    console.log("🧪 Mock AI 回放串流聊天 fixture");
+    return (async function* () {
+      for (const text of MOCK_CHAT_STREAM_CHUNKS) {
+        yield { text };
+      }
+    })();
+  }
+}
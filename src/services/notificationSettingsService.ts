@@ -0,0 +1,144 @@
+import { IMealReminderRepository } from "../repositories/mealReminderRepository";
+import { IUserRepository } from "../repositories/userRepository";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  getActiveMealReminderTimes,
+  NotificationSettings,
+  UpdateNotificationSettingsRequest,
+} from "../types/notificationSettings";
+import { getNextLocalTimeOccurrence, isValidTimeZone } from "../utils/timezone";
+
+/**
+ * Notification Settings Service 介面 - 定義業務邏輯操作
+ */
+export interface INotificationSettingsService {
+  /**
+   * 取得使用者通知偏好（未設定時返回預設值）
+   * @param userId 使用者 ID
+   * @returns 通知偏好，找不到使用者時返回 null
+   */
+  getSettings(userId: string): Promise<NotificationSettings | null>;
+
+  /**
+   * 部分更新使用者通知偏好
+   * @param userId 使用者 ID
+   * @param update 要更新的欄位
+   * @returns 更新後的通知偏好
+   */
+  updateSettings(
+    userId: string,
+    update: UpdateNotificationSettingsRequest
+  ): Promise<NotificationSettings>;
+}
+
+/**
+ * Notification Settings Service - 使用者通知偏好業務邏輯層
+ * 通知偏好存在 Firestore 使用者文件，飲食提醒時間同步到 D1 供 Cron Trigger 查詢
+ */
+export class NotificationSettingsService implements INotificationSettingsService {
+  constructor(
+    private userRepository: IUserRepository,
+    private mealReminderRepository: IMealReminderRepository
+  ) {}
+
+  /**
+   * 取得使用者通知偏好
+   * 業務邏輯：
+   * - 驗證使用者 ID
+   * - 使用者未設定時返回預設值
+   */
+  async getSettings(userId: string): Promise<NotificationSettings | null> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    try {
+      const user = await this.userRepository.findById(userId);
+      if (!user) {
+        return null;
+      }
+
+      return user.notificationSettings ?? DEFAULT_NOTIFICATION_SETTINGS;
+    } catch (error) {
+      console.error("Service: 取得通知偏好時發生業務邏輯錯誤:", error);
+      throw new Error("取得通知偏好失敗");
+    }
+  }
+
+  /**
+   * 部分更新使用者通知偏好
+   * 業務邏輯：
+   * - 驗證時區
+   * - 與現有設定合併（巢狀物件逐欄位合併，quietHours 傳 null 表示取消勿擾時段）
+   * - 寫入 Firestore 後同步飲食提醒排程：
+   *   關閉飲食提醒、未設定提醒時間或提醒時間落在勿擾時段內時不發送
+   */
+  async updateSettings(
+    userId: string,
+    update: UpdateNotificationSettingsRequest
+  ): Promise<NotificationSettings> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    if (!update || Object.keys(update).length === 0) {
+      throw new Error("更新資料不能為空");
+    }
+
+    if (update.timezone !== undefined && !isValidTimeZone(update.timezone)) {
+      throw new Error(`無效的時區: ${update.timezone}`);
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new Error("找不到使用者");
+    }
+
+    const current = user.notificationSettings ?? DEFAULT_NOTIFICATION_SETTINGS;
+    const settings: NotificationSettings = {
+      timezone: update.timezone ?? current.timezone,
+      mealReminderTimes: {
+        ...current.mealReminderTimes,
+        ...update.mealReminderTimes,
+      },
+      quietHours:
+        update.quietHours !== undefined
+          ? update.quietHours
+          : current.quietHours,
+      optIns: { ...current.optIns, ...update.optIns },
+    };
+
+    try {
+      await this.userRepository.updateNotificationSettings(userId, settings);
+      await this.syncMealReminderSchedule(userId, settings);
+
+      console.log(`Service: 通知偏好更新成功 - 使用者: ${userId}`);
+
+      return settings;
+    } catch (error) {
+      console.error("Service: 更新通知偏好時發生業務邏輯錯誤:", error);
+      throw new Error("更新通知偏好失敗");
+    }
+  }
+
+  /**
+   * 同步飲食提醒排程到 D1（重新計算下一次提醒時間）
+   */
+  private async syncMealReminderSchedule(
+    userId: string,
+    settings: NotificationSettings
+  ): Promise<void> {
+    const reminderTimes = getActiveMealReminderTimes(settings);
+    await this.mealReminderRepository.upsert({
+      userId,
+      timezone: settings.timezone,
+      reminderTimes,
+      enabled: reminderTimes.length > 0,
+      nextReminderAt: getNextLocalTimeOccurrence(
+        reminderTimes,
+        settings.timezone,
+        new Date()
+      ),
+    });
+  }
+}
@@ -0,0 +1,220 @@
+import type { Env } from "../bindings";
+import { ImagePart } from "../types/analyze";
+import { AIResponse, GenerationConfig } from "../types/gemini";
+import { ApiRetryUtil } from "../utils/ApiRetryUtil";
+import { GeminiService } from "./geminiService";
+
+/**
+ * OpenAI Chat Completions 訊息內容
+ */
+type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+/**
+ * OpenAI Chat Completions 回應（只列出使用到的欄位）
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        function: {
+          name: string;
+          arguments: string;
+        };
+      }>;
+    };
+  }>;
+}
+
+/**
+ * OpenAI 相容 AI 服務類
+ * 沿用 GeminiService 的提示詞、function calling schema 與回應解析，
+ * 只將 API 調用轉換為 OpenAI Chat Completions 格式（tools / tool_calls），
+ * 可接上本地模型（Ollama、vLLM 等）或其他 OpenAI 相容服務
+ *
+ * 模型由 OPENAI_COMPAT_MODEL 指定，忽略各功能設定的 Gemini 模型名稱
+ */
+export class OpenAICompatibleService extends GeminiService {
+  /**
+   * 調用 OpenAI 相容 API（純文字輸入）
+   */
+  protected async _callGeminiAPIWithModel(
+    env: Env,
+    prompt: string,
+    generationConfig: GenerationConfig
+  ): Promise<AIResponse> {
+    return this._callChatCompletions(
+      env,
+      [{ type: "text", text: prompt }],
+      generationConfig
+    );
+  }
+
+  /**
+   * 調用 OpenAI 相容 API（圖片 + 文字輸入）
+   */
+  protected async _callGeminiAPIWithImages(
+    env: Env,
+    prompt: string,
+    imageParts: ImagePart[],
+    generationConfig: GenerationConfig
+  ): Promise<AIResponse> {
+    return this._callChatCompletions(
+      env,
+      [
+        { type: "text", text: prompt },
+        ...imageParts.map((part): ChatContentPart => ({
+          type: "image_url",
+          image_url: {
+            url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+          },
+        })),
+      ],
+      generationConfig
+    );
+  }
+
+  /**
+   * 調用 Chat Completions 並將回應轉換為 Gemini 格式
+   * @param env 環境變數
+   * @param content 訊息內容
+   * @param generationConfig Gemini function calling 配置
+   * @returns Gemini 格式的回應，供既有的解析邏輯使用
+   */
+  private async _callChatCompletions(
+    env: Env,
+    content: ChatContentPart[],
+    generationConfig: GenerationConfig
+  ): Promise<AIResponse> {
+    if (!env.OPENAI_COMPAT_BASE_URL || !env.OPENAI_COMPAT_MODEL) {
+      throw new Error(
+        "OPENAI_COMPAT_BASE_URL 或 OPENAI_COMPAT_MODEL 環境變數未設定"
+      );
+    }
+
+    const apiUrl = `${env.OPENAI_COMPAT_BASE_URL.replace(/\/+$/, "")}/chat/completions`;
+
+    // Gemini functionDeclarations → OpenAI tools
+    const tools = generationConfig.tools
+      .flatMap((tool) => tool.functionDeclarations)
+      .map((declaration) => ({
+        type: "function",
+        function: {
+          name: declaration.name,
+          description: declaration.description,
+          parameters: declaration.parameters,
+        },
+      }));
+
+    const requestBody = {
+      model: env.OPENAI_COMPAT_MODEL,
+      messages: [{ role: "user", content }],
+      tools,
+      tool_choice: this._toToolChoice(generationConfig, tools.length),
+    };
+
+    console.log(`🤖 調用 OpenAI 相容 API, 模型: ${env.OPENAI_COMPAT_MODEL}`);
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (env.OPENAI_COMPAT_API_KEY) {
+      headers.Authorization = `Bearer ${env.OPENAI_COMPAT_API_KEY}`;
+    }
+
+    try {
+      const response = await ApiRetryUtil.fetchWithRetry(
+        apiUrl,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify(requestBody),
+        },
+        ApiRetryUtil.createGeminiConfig()
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(
+          "❌ OpenAI 相容 API 調用失敗:",
+          response.status,
+          errorText
+        );
+        throw new Error(
+          `OpenAI 相容 API 調用失敗: ${response.status} ${errorText}`
+        );
+      }
+
+      const result = (await response.json()) as ChatCompletionResponse;
+      console.log("✅ OpenAI 相容 API 調用成功");
+      return this._toGeminiResponse(result);
+    } catch (error) {
+      console.error("❌ OpenAI 相容 API 調用失敗:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gemini functionCallingConfig → OpenAI tool_choice
+   */
+  private _toToolChoice(
+    generationConfig: GenerationConfig,
+    toolCount: number
+  ): unknown {
+    const { mode, allowedFunctionNames } =
+      generationConfig.toolConfig.functionCallingConfig;
+
+    if (mode === "NONE") {
+      return "none";
+    }
+
+    if (mode === "ANY") {
+      // 只有一個可用函數時直接指定，避免部分模型不支援 "required"
+      const names =
+        allowedFunctionNames && allowedFunctionNames.length > 0
+          ? allowedFunctionNames
+          : generationConfig.tools.flatMap((tool) =>
+              tool.functionDeclarations.map((declaration) => declaration.name)
+            );
+      if (names.length === 1) {
+        return { type: "function", function: { name: names[0] } };
+      }
+      return toolCount > 0 ? "required" : "auto";
+    }
+
+    return "auto";
+  }
+
+  /**
+   * OpenAI tool_calls → Gemini candidates[].content.parts[].functionCall
+   */
+  private _toGeminiResponse(result: ChatCompletionResponse): AIResponse {
+    const message = result.choices?.[0]?.message;
+    const parts: Array<{
+      text?: string;
+      functionCall?: { name: string; args: any };
+    }> = [];
+
+    for (const toolCall of message?.tool_calls || []) {
+      try {
+        parts.push({
+          functionCall: {
+            name: toolCall.function.name,
+            args: JSON.parse(toolCall.function.arguments),
+          },
+        });
+      } catch {
+        // 參數不是合法 JSON 時交給文字解析處理
+        parts.push({ text: toolCall.function.arguments });
+      }
+    }
+
+    if (parts.length === 0 && message?.content) {
+      parts.push({ text: message.content });
+    }
+
+    return { candidates: [{ content: { parts } }] };
+  }
+}
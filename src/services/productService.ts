@@ -0,0 +1,166 @@
+import type { Env } from "../bindings";
+import { IGeminiService } from "../controllers/geminiController";
+import { IProductRepository } from "../repositories/productRepository";
+import { SupportedLanguage } from "../types/gemini";
+import { Product } from "../types/product";
+import { normalizeLabelNutrition } from "../utils/nutritionLabelUtils";
+
+/**
+ * Product Service 介面 - 定義業務邏輯操作
+ */
+export interface IProductService {
+  /**
+   * 根據條碼查詢商品
+   * @param barcode 商品條碼
+   * @returns Product 物件或 null
+   */
+  getProductByBarcode(barcode: string): Promise<Product | null>;
+
+  /**
+   * 以營養標示照片建立未知條碼的商品
+   * @param userId 使用者 ID
+   * @param barcode 商品條碼
+   * @param imageFiles 營養標示/包裝圖片
+   * @param userLanguage 用戶語言
+   * @param env 環境變數
+   * @returns 商品與是否為新建立
+   */
+  createProductFromLabel(
+    userId: string,
+    barcode: string,
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<{ product: Product; created: boolean }>;
+}
+
+/**
+ * Product Service - 業務邏輯層
+ * 負責包裝食品條碼查詢，以及條碼未知時以 AI 分析營養標示建立商品
+ */
+export class ProductService implements IProductService {
+  constructor(
+    private productRepository: IProductRepository,
+    private geminiService?: IGeminiService
+  ) {}
+
+  /**
+   * 根據條碼查詢商品
+   * 業務邏輯：
+   * - 驗證 GS1 檢查碼，避免掃描錯誤的條碼查詢資料庫
+   *
+   * @param barcode 商品條碼
+   * @returns Product 物件或 null
+   */
+  async getProductByBarcode(barcode: string): Promise<Product | null> {
+    this.validateBarcode(barcode);
+
+    try {
+      return await this.productRepository.findByBarcode(barcode);
+    } catch (error) {
+      console.error("Service: 取得商品時發生錯誤:", error);
+      throw new Error("取得商品失敗");
+    }
+  }
+
+  /**
+   * 以營養標示照片建立商品
+   * 業務邏輯：
+   * - 條碼已存在時直接回傳既有商品，不重複調用 AI
+   * - 標示只提供每 100g 或每份其中一種時，依份量換算另一種
+   * - 儲存後供下一位掃描相同條碼的使用者直接使用
+   *
+   * @param userId 使用者 ID
+   * @param barcode 商品條碼
+   * @param imageFiles 營養標示/包裝圖片
+   * @param userLanguage 用戶語言
+   * @param env 環境變數
+   * @returns 商品與是否為新建立
+   */
+  async createProductFromLabel(
+    userId: string,
+    barcode: string,
+    imageFiles: File[],
+    userLanguage: SupportedLanguage,
+    env: Env
+  ): Promise<{ product: Product; created: boolean }> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    const existing = await this.getProductByBarcode(barcode);
+    if (existing) {
+      return { product: existing, created: false };
+    }
+
+    if (!this.geminiService) {
+      throw new Error("AI 服務未初始化，無法分析營養標示");
+    }
+
+    const analysis = await this.geminiService.analyzeProductLabel(
+      imageFiles,
+      userLanguage,
+      env
+    );
+    if (analysis.error) {
+      throw new Error(analysis.error);
+    }
+
+    const { per100g, perServing } = normalizeLabelNutrition(analysis);
+
+    const now = new Date();
+    const product: Product = {
+      barcode,
+      name: analysis.name,
+      brand: analysis.brand,
+      servingSize: analysis.servingSize,
+      servingUnit: analysis.servingUnit,
+      per100g,
+      perServing,
+      source: "ai_label",
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      const created = await this.productRepository.create(product);
+      if (!created) {
+        // 其他使用者已搶先建立相同條碼，回傳已儲存的版本
+        const stored = await this.productRepository.findByBarcode(barcode);
+        if (stored) {
+          return { product: stored, created: false };
+        }
+      }
+
+      return { product, created: true };
+    } catch (error) {
+      console.error("Service: 建立商品時發生錯誤:", error);
+      throw new Error("建立商品失敗");
+    }
+  }
+
+  /**
+   * 驗證條碼長度與 GS1 檢查碼
+   * @param barcode 商品條碼
+   */
+  private validateBarcode(barcode: string): void {
+    if (!/^\d{8}$|^\d{12,14}$/.test(barcode)) {
+      throw new Error("無效的條碼：必須為 8、12、13 或 14 位數字");
+    }
+
+    // GS1 檢查碼：由右往左（不含檢查碼）交替乘以 3 與 1
+    const digits = barcode.split("").map(Number);
+    const checkDigit = digits.pop()!;
+    const sum = digits
+      .reverse()
+      .reduce(
+        (total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1),
+        0
+      );
+
+    if ((10 - (sum % 10)) % 10 !== checkDigit) {
+      throw new Error("無效的條碼：檢查碼不正確");
+    }
+  }
+}
@@ -0,0 +1,773 @@
+import { IPromotionRepository } from "../repositories/promotionRepository";
+import { IPushDeviceRepository } from "../repositories/pushDeviceRepository";
+import { IUserRepository } from "../repositories/userRepository";
+import {
+  FcmTokenData,
+  NotificationType,
+  PushNotification,
+  resolveLocalizedContent,
+} from "../types/fcmToken";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  isWithinQuietHours,
+} from "../types/notificationSettings";
+import {
+  CreatePromotionRequest,
+  FCM_PAYLOAD_LIMIT_BYTES,
+  getPromotionPayloadSize,
+  isReservedPromotionDataKey,
+  matchesDeviceAudience,
+  matchesSubscriptionAudience,
+  PromotionAudience,
+  PromotionAudiencePreview,
+  PromotionCampaign,
+  PromotionDeferral,
+  PromotionQueueMessage,
+  PromotionRunResult,
+  PromotionStats,
+} from "../types/promotion";
+import type { SubrequestBudget } from "../types/subrequestBudget";
+import type { AppUser } from "../types/user";
+import { compareAppVersions } from "../utils/appVersion";
+import {
+  getLocalDateTime,
+  getNextLocalTimeOccurrence,
+} from "../utils/timezone";
+import { IFcmTokenService } from "./fcmTokenService";
+
+/**
+ * 每批最多發送的使用者數
+ */
+const PROMOTION_BATCH_SIZE = 100;
+
+/**
+ * 每次讀取的使用者數
+ * 不符合受眾、關閉優惠推播或處於勿擾時段的使用者不佔用批次名額，一次讀取較多使用者再篩選
+ */
+const PROMOTION_SCAN_PAGE_SIZE = 300;
+
+/**
+ * 每位要發送的使用者預留的子請求數：查詢 Token、送達紀錄與最多 3 個裝置的推播
+ * 批次大小依此預估，領取的使用者都能在同一次執行發送完
+ */
+const PROMOTION_SUBREQUESTS_PER_USER = 5;
+
+/**
+ * 每批固定的子請求數：查詢或領取使用者、領取批次、延後名單與更新統計
+ */
+const PROMOTION_SUBREQUESTS_PER_BATCH = 4;
+
+/**
+ * 每次排程最多排入佇列的活動數
+ */
+const MAX_DUE_CAMPAIGNS = 5;
+
+/**
+ * 每次預覽最多掃描的批數
+ */
+const PREVIEW_BATCHES = 5;
+
+/**
+ * 推播活動列表筆數
+ */
+const CAMPAIGN_LIST_LIMIT = 50;
+
+/**
+ * 使用者在本次發送的處理方式
+ * - excluded：不符合訂閱狀態條件
+ * - opted_out：關閉優惠推播
+ * - quiet_hours：處於勿擾時段，延後發送
+ * - send：立即發送
+ */
+type PromotionRecipientStatus =
+  "excluded" | "opted_out" | "quiet_hours" | "send";
+
+/**
+ * 掃描使用者的結果
+ * - completed：已掃描完所有使用者
+ * - paused：子請求預算用完，cursor 為下一批的起點
+ * - superseded：批次已被其他執行領取，由該執行接續
+ */
+type PromotionScanOutcome =
+  | { status: "completed" }
+  | { status: "paused"; cursor: string | null }
+  | { status: "superseded" };
+
+/**
+ * 單批發送結果
+ */
+interface PromotionBatchResult {
+  stats: PromotionStats;
+  /** 處於勿擾時段而延後的使用者 */
+  deferrals: PromotionDeferral[];
+}
+
+/**
+ * 依剩餘子請求數計算下一批最多能處理的使用者數
+ * @param budget 本次執行剩餘的子請求數
+ * @param subrequestsPerUser 每位使用者預留的子請求數
+ * @returns 使用者數，不足一位時返回 0
+ */
+function getBatchLimit(
+  budget: SubrequestBudget,
+  subrequestsPerUser: number
+): number {
+  const available = budget.remaining - PROMOTION_SUBREQUESTS_PER_BATCH;
+  return Math.max(
+    0,
+    Math.min(PROMOTION_BATCH_SIZE, Math.floor(available / subrequestsPerUser))
+  );
+}
+
+/**
+ * 取出使用者列表的開頭，直到要發送的使用者數達到上限
+ * @param users 使用者列表（依 UID 排序）
+ * @param limit 要發送的使用者上限
+ * @param isRecipient 是否為要發送的使用者
+ * @returns 本批處理的使用者
+ */
+function takeBatch(
+  users: AppUser[],
+  limit: number,
+  isRecipient: (user: AppUser) => boolean
+): AppUser[] {
+  let recipients = 0;
+  for (let i = 0; i < users.length; i++) {
+    if (!isRecipient(users[i])) {
+      continue;
+    }
+    if (recipients === limit) {
+      return users.slice(0, i);
+    }
+    recipients++;
+  }
+  return users;
+}
+
+/**
+ * 建立空的發送統計
+ */
+function createEmptyStats(): PromotionStats {
+  return {
+    scannedUsers: 0,
+    targetedUsers: 0,
+    skippedOptOut: 0,
+    skippedQuietHours: 0,
+    delivered: 0,
+    failed: 0,
+  };
+}
+
+/**
+ * Promotion Service 介面 - 定義業務邏輯操作
+ */
+export interface IPromotionService {
+  /**
+   * 建立優惠推播活動
+   * @param adminUserId 建立者 UID
+   * @param request 活動內容
+   * @returns 建立的推播活動
+   */
+  createCampaign(
+    adminUserId: string,
+    request: CreatePromotionRequest
+  ): Promise<PromotionCampaign>;
+
+  /**
+   * 取得最近的推播活動
+   * @returns 推播活動列表（新到舊）
+   */
+  listCampaigns(): Promise<PromotionCampaign[]>;
+
+  /**
+   * 取消尚未完成的推播活動
+   * @param id 活動 ID
+   * @returns 取消後的推播活動
+   */
+  cancelCampaign(id: string): Promise<PromotionCampaign>;
+
+  /**
+   * 預覽符合受眾條件的使用者與裝置數
+   * @param audience 目標受眾
+   * @param cursor 上一次預覽返回的 nextCursor
+   * @returns 預覽統計
+   */
+  previewAudience(
+    audience: PromotionAudience,
+    cursor?: string
+  ): Promise<PromotionAudiencePreview>;
+
+  /**
+   * 將已到發送時間的推播活動排入佇列
+   * @param now 排程觸發時間
+   * @param budget 本次排程剩餘的子請求數（依實際用量扣除）
+   * @returns 排入佇列的活動數
+   */
+  enqueueDuePromotions(now: Date, budget: SubrequestBudget): Promise<number>;
+
+  /**
+   * 發送佇列訊息指定的推播活動批次，尚未發送完時將下一批排入佇列
+   * @param message 佇列訊息
+   * @param now 目前時間
+   * @param budget 本次執行剩餘的子請求數（依實際用量扣除）
+   * @returns 發送結果統計
+   */
+  sendQueuedBatch(
+    message: PromotionQueueMessage,
+    now: Date,
+    budget: SubrequestBudget
+  ): Promise<PromotionRunResult>;
+}
+
+/**
+ * Promotion Service - 優惠推播活動業務邏輯層
+ * 活動存在 D1，由 Cron Trigger 排入佇列，佇列 consumer 依使用者 UID 分批發送並串接下一批
+ */
+export class PromotionService implements IPromotionService {
+  constructor(
+    private promotionRepository: IPromotionRepository,
+    private userRepository: IUserRepository,
+    private fcmTokenService: IFcmTokenService,
+    private pushDeviceRepository: IPushDeviceRepository,
+    private promotionQueue?: Queue<PromotionQueueMessage>
+  ) {}
+
+  /**
+   * 建立優惠推播活動
+   * 業務邏輯：
+   * - 預設語言必須有推播內容（裝置語言沒有對應內容時使用）
+   * - data 不能使用 FCM 保留欄位，每種語言的通知加上 data 不能超過 FCM 4KB 上限
+   * - 驗證 App 版本範圍
+   * - 未指定發送時間時立即排入下一次排程
+   */
+  async createCampaign(
+    adminUserId: string,
+    request: CreatePromotionRequest
+  ): Promise<PromotionCampaign> {
+    if (!request.content[request.defaultLanguage]) {
+      throw new Error(`預設語言 ${request.defaultLanguage} 的推播內容不能為空`);
+    }
+
+    const reservedKey = Object.keys(request.data ?? {}).find(
+      isReservedPromotionDataKey
+    );
+    if (reservedKey) {
+      throw new Error(`無效的 data 欄位：${reservedKey} 為保留欄位`);
+    }
+
+    for (const [language, message] of Object.entries(request.content)) {
+      if (
+        getPromotionPayloadSize(message, request.data) > FCM_PAYLOAD_LIMIT_BYTES
+      ) {
+        throw new Error(
+          `無效的推播內容：${language} 的通知加上 data 超過 FCM 4KB 上限`
+        );
+      }
+    }
+
+    const { minAppVersion, maxAppVersion } = request.audience;
+    if (
+      minAppVersion &&
+      maxAppVersion &&
+      compareAppVersions(minAppVersion, maxAppVersion) > 0
+    ) {
+      throw new Error("無效的版本範圍：最低版本不能高於最高版本");
+    }
+
+    const now = new Date();
+    const campaign: PromotionCampaign = {
+      id: crypto.randomUUID(),
+      name: request.name.trim(),
+      content: request.content,
+      defaultLanguage: request.defaultLanguage,
+      audience: request.audience,
+      data: request.data ?? null,
+      status: "scheduled",
+      scheduledAt: request.scheduledAt ? new Date(request.scheduledAt) : now,
+      cursor: null,
+      stats: createEmptyStats(),
+      createdBy: adminUserId,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+
+    await this.promotionRepository.insert(campaign);
+
+    console.log(
+      `Service: 推播活動已建立 - ${campaign.id}（${campaign.name}），發送時間: ${campaign.scheduledAt.toISOString()}`
+    );
+
+    return campaign;
+  }
+
+  async listCampaigns(): Promise<PromotionCampaign[]> {
+    return await this.promotionRepository.findRecent(CAMPAIGN_LIST_LIMIT);
+  }
+
+  /**
+   * 取消推播活動
+   * 業務邏輯：
+   * - 只能取消待發送或發送中的活動，發送中的活動停止發送剩餘批次
+   */
+  async cancelCampaign(id: string): Promise<PromotionCampaign> {
+    const cancelled = await this.promotionRepository.cancel(id);
+    const campaign = await this.promotionRepository.findById(id);
+
+    if (!campaign) {
+      throw new Error("找不到推播活動");
+    }
+
+    if (!cancelled) {
+      throw new Error("推播活動已完成或已取消，無法取消");
+    }
+
+    return campaign;
+  }
+
+  /**
+   * 預覽符合受眾條件的使用者與裝置數
+   * 業務邏輯：
+   * - 排除不符合訂閱狀態與關閉優惠推播的使用者
+   * - 依 D1 的推播裝置資訊統計符合平台、App 版本與語言條件的裝置，不逐一讀取 FCM Token
+   * - 推播裝置資訊建立前註冊的 Token 需先以管理員回填端點同步
+   * - 勿擾時段依發送當下時間判斷，不列入預覽
+   * - 每次最多掃描固定筆數，未掃描完時返回 nextCursor
+   */
+  async previewAudience(
+    audience: PromotionAudience,
+    cursor?: string
+  ): Promise<PromotionAudiencePreview> {
+    const preview: PromotionAudiencePreview = {
+      scannedUsers: 0,
+      matchedUsers: 0,
+      matchedDevices: 0,
+      excludedBySubscription: 0,
+      excludedByOptOut: 0,
+      devicesByPlatform: {},
+      devicesByLanguage: {},
+      nextCursor: null,
+    };
+
+    let afterUid: string | null = cursor ?? null;
+    for (let batch = 0; batch < PREVIEW_BATCHES; batch++) {
+      const users = await this.userRepository.listAfter(
+        afterUid,
+        PROMOTION_SCAN_PAGE_SIZE
+      );
+
+      const candidateIds: string[] = [];
+      for (const user of users) {
+        preview.scannedUsers++;
+
+        if (!matchesSubscriptionAudience(user, audience)) {
+          preview.excludedBySubscription++;
+          continue;
+        }
+
+        if (!this.hasPromotionOptIn(user)) {
+          preview.excludedByOptOut++;
+          continue;
+        }
+
+        candidateIds.push(user.uid);
+      }
+
+      const devices = (
+        await this.pushDeviceRepository.findByUserIds(candidateIds)
+      ).filter((device) => matchesDeviceAudience(device, audience));
+
+      preview.matchedUsers += new Set(
+        devices.map((device) => device.userId)
+      ).size;
+      preview.matchedDevices += devices.length;
+      for (const device of devices) {
+        preview.devicesByPlatform[device.platform] =
+          (preview.devicesByPlatform[device.platform] ?? 0) + 1;
+        preview.devicesByLanguage[device.language] =
+          (preview.devicesByLanguage[device.language] ?? 0) + 1;
+      }
+
+      if (users.length < PROMOTION_SCAN_PAGE_SIZE) {
+        return preview;
+      }
+      afterUid = users[users.length - 1].uid;
+    }
+
+    preview.nextCursor = afterUid;
+    return preview;
+  }
+
+  /**
+   * 將已到發送時間的推播活動排入佇列
+   * 業務邏輯：
+   * - 每次排程都排入所有未完成的活動，接續中斷的串接（例如佇列重試用完）與補發勿擾時段已結束的使用者
+   * - 訊息帶有活動目前的 cursor，與串接中的訊息重疊時只有一則能領取下一批
+   */
+  async enqueueDuePromotions(
+    now: Date,
+    budget: SubrequestBudget
+  ): Promise<number> {
+    const queue = this.getQueue();
+
+    budget.remaining--;
+    const campaigns = await this.promotionRepository.findDue(
+      now,
+      MAX_DUE_CAMPAIGNS
+    );
+    if (campaigns.length === 0) {
+      return 0;
+    }
+
+    budget.remaining--;
+    await queue.sendBatch(
+      campaigns.map((campaign) => ({
+        body: { campaignId: campaign.id, cursor: campaign.cursor },
+      }))
+    );
+
+    return campaigns.length;
+  }
+
+  /**
+   * 發送佇列訊息指定的推播活動批次
+   * 業務邏輯：
+   * - 只處理待發送或發送中的活動；訊息的 cursor 與活動不同時表示已由其他訊息接續，直接略過
+   * - 每批先以 cursor 領取使用者再發送，重疊的訊息不會重複推播（中斷的批次不重送）
+   * - 批次大小依本次執行剩餘的子請求數決定，只有要立即發送的使用者佔用名額
+   * - 預算用完但尚未掃描完時，把下一批排入佇列，不等待下一次排程
+   * - 處於勿擾時段的使用者延後到勿擾時段結束後，由之後排入的訊息優先補發
+   * - 掃描完所有使用者且沒有待補發的使用者時，活動才算完成
+   */
+  async sendQueuedBatch(
+    message: PromotionQueueMessage,
+    now: Date,
+    budget: SubrequestBudget
+  ): Promise<PromotionRunResult> {
+    const result: PromotionRunResult = {
+      campaigns: 0,
+      batches: 0,
+      delivered: 0,
+      failed: 0,
+      deferred: 0,
+    };
+
+    budget.remaining--;
+    const campaign = await this.promotionRepository.findById(
+      message.campaignId
+    );
+    if (
+      !campaign ||
+      !["scheduled", "sending"].includes(campaign.status) ||
+      campaign.cursor !== message.cursor
+    ) {
+      console.log(
+        `Service: 推播活動已完成、已取消或已由其他訊息接續 - ${message.campaignId}`
+      );
+      return result;
+    }
+
+    result.campaigns++;
+    const outcome = await this.sendCampaign(campaign, now, budget, result);
+    if (outcome.status === "paused") {
+      await this.getQueue().send({
+        campaignId: campaign.id,
+        cursor: outcome.cursor,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 發送單一活動：先補發勿擾時段已結束的使用者，再繼續掃描使用者
+   * @returns 掃描結果
+   */
+  private async sendCampaign(
+    campaign: PromotionCampaign,
+    now: Date,
+    budget: SubrequestBudget,
+    result: PromotionRunResult
+  ): Promise<PromotionScanOutcome> {
+    await this.sendDeferredUsers(campaign, now, budget, result);
+
+    const outcome = await this.scanUsers(campaign, now, budget, result);
+    if (outcome.status !== "completed") {
+      return outcome;
+    }
+
+    const pending = await this.promotionRepository.countDeferredUsers(
+      campaign.id
+    );
+    if (pending === 0) {
+      await this.promotionRepository.markCompleted(campaign.id, new Date());
+      console.log(`Service: 推播活動發送完成 - ${campaign.id}`);
+    }
+    return outcome;
+  }
+
+  /**
+   * 依 cursor 分批掃描使用者並發送
+   * 每次讀取一頁使用者，只領取到發送名額用完為止，不符合受眾的使用者不佔用名額
+   * @returns 掃描結果
+   */
+  private async scanUsers(
+    campaign: PromotionCampaign,
+    now: Date,
+    budget: SubrequestBudget,
+    result: PromotionRunResult
+  ): Promise<PromotionScanOutcome> {
+    let cursor = campaign.cursor;
+
+    for (;;) {
+      const limit = getBatchLimit(budget, PROMOTION_SUBREQUESTS_PER_USER);
+      if (limit === 0) {
+        return { status: "paused", cursor };
+      }
+      budget.remaining -= PROMOTION_SUBREQUESTS_PER_BATCH;
+
+      const page = await this.userRepository.listAfter(
+        cursor,
+        PROMOTION_SCAN_PAGE_SIZE
+      );
+      if (page.length === 0) {
+        return { status: "completed" };
+      }
+
+      const users = takeBatch(
+        page,
+        limit,
+        (user) => this.getRecipientStatus(campaign, user, now) === "send"
+      );
+      const nextCursor = users[users.length - 1].uid;
+      const claimed = await this.promotionRepository.claimBatch(
+        campaign.id,
+        cursor,
+        nextCursor
+      );
+      if (!claimed) {
+        return { status: "superseded" };
+      }
+
+      const { stats, deferrals } = await this.sendBatch(
+        campaign,
+        users,
+        now,
+        budget
+      );
+      stats.scannedUsers = users.length;
+      stats.skippedQuietHours = deferrals.length;
+      await this.saveBatchResult(campaign, stats, deferrals, result);
+      cursor = nextCursor;
+
+      if (
+        users.length === page.length &&
+        page.length < PROMOTION_SCAN_PAGE_SIZE
+      ) {
+        return { status: "completed" };
+      }
+    }
+  }
+
+  /**
+   * 補發勿擾時段已結束的延後使用者（仍在勿擾時段時再次延後）
+   */
+  private async sendDeferredUsers(
+    campaign: PromotionCampaign,
+    now: Date,
+    budget: SubrequestBudget,
+    result: PromotionRunResult
+  ): Promise<void> {
+    for (;;) {
+      // 補發前需要多查詢一次使用者資料
+      const limit = getBatchLimit(budget, PROMOTION_SUBREQUESTS_PER_USER + 1);
+      if (limit === 0) {
+        return;
+      }
+      budget.remaining -= PROMOTION_SUBREQUESTS_PER_BATCH;
+
+      const userIds = await this.promotionRepository.claimDeferredUsers(
+        campaign.id,
+        now,
+        limit
+      );
+      if (userIds.length === 0) {
+        return;
+      }
+
+      const users: AppUser[] = [];
+      for (const userId of userIds) {
+        budget.remaining--;
+        try {
+          const user = await this.userRepository.findById(userId);
+          if (user) {
+            users.push(user);
+          }
+        } catch (error) {
+          console.error(
+            `推播活動補發失敗 - 活動: ${campaign.id}, 使用者: ${userId}`,
+            error
+          );
+        }
+      }
+
+      const { stats, deferrals } = await this.sendBatch(
+        campaign,
+        users,
+        now,
+        budget
+      );
+      await this.saveBatchResult(campaign, stats, deferrals, result);
+
+      if (userIds.length < limit) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * 儲存延後名單與批次統計
+   */
+  private async saveBatchResult(
+    campaign: PromotionCampaign,
+    stats: PromotionStats,
+    deferrals: PromotionDeferral[],
+    result: PromotionRunResult
+  ): Promise<void> {
+    await this.promotionRepository.deferUsers(campaign.id, deferrals);
+    await this.promotionRepository.addStats(campaign.id, stats);
+
+    result.batches++;
+    result.delivered += stats.delivered;
+    result.failed += stats.failed;
+    result.deferred += deferrals.length;
+  }
+
+  /**
+   * 推播給一批使用者，處於勿擾時段的使用者延後到勿擾時段結束
+   */
+  private async sendBatch(
+    campaign: PromotionCampaign,
+    users: AppUser[],
+    now: Date,
+    budget: SubrequestBudget
+  ): Promise<PromotionBatchResult> {
+    const stats = createEmptyStats();
+    const deferrals: PromotionDeferral[] = [];
+
+    for (const user of users) {
+      const status = this.getRecipientStatus(campaign, user, now);
+      if (status === "excluded") {
+        continue;
+      }
+
+      if (status === "opted_out") {
+        stats.skippedOptOut++;
+        continue;
+      }
+
+      if (status === "quiet_hours") {
+        const { quietHours, timezone } =
+          user.notificationSettings ?? DEFAULT_NOTIFICATION_SETTINGS;
+        const sendAfter =
+          quietHours &&
+          getNextLocalTimeOccurrence([quietHours.end], timezone, now);
+        if (sendAfter) {
+          deferrals.push({ userId: user.uid, sendAfter });
+        }
+        continue;
+      }
+
+      try {
+        const summary = await this.fcmTokenService.sendToUser(
+          user.uid,
+          (token) => this.buildNotification(campaign, token),
+          (token) => matchesDeviceAudience(token, campaign.audience)
+        );
+        // 查詢 Token、送達紀錄、每個裝置的推播與刪除失效 Token
+        budget.remaining -= 2 + summary.total + summary.removedTokens;
+
+        if (summary.total > 0) {
+          stats.targetedUsers++;
+        }
+        stats.delivered += summary.delivered;
+        stats.failed += summary.failed;
+      } catch (error) {
+        budget.remaining -= PROMOTION_SUBREQUESTS_PER_USER;
+        console.error(
+          `推播活動發送失敗 - 活動: ${campaign.id}, 使用者: ${user.uid}`,
+          error
+        );
+      }
+    }
+
+    return { stats, deferrals };
+  }
+
+  /**
+   * 依裝置語言產生推播內容
+   */
+  private buildNotification(
+    campaign: PromotionCampaign,
+    token: FcmTokenData
+  ): PushNotification {
+    const message = resolveLocalizedContent(
+      campaign.content,
+      token.language,
+      campaign.defaultLanguage
+    );
+
+    return {
+      type: NotificationType.PROMOTION,
+      title: message.title,
+      body: message.body,
+      data: { ...campaign.data, promotionId: campaign.id },
+    };
+  }
+
+  /**
+   * 判斷使用者在本次發送的處理方式
+   */
+  private getRecipientStatus(
+    campaign: PromotionCampaign,
+    user: AppUser,
+    now: Date
+  ): PromotionRecipientStatus {
+    if (!matchesSubscriptionAudience(user, campaign.audience)) {
+      return "excluded";
+    }
+
+    if (!this.hasPromotionOptIn(user)) {
+      return "opted_out";
+    }
+
+    const settings = user.notificationSettings ?? DEFAULT_NOTIFICATION_SETTINGS;
+    const localMinutes = getLocalDateTime(now, settings.timezone).minutes;
+    if (
+      settings.quietHours &&
+      isWithinQuietHours(settings.quietHours, localMinutes)
+    ) {
+      return "quiet_hours";
+    }
+
+    return "send";
+  }
+
+  /**
+   * 取得推播佇列（排程與佇列 consumer 才會用到）
+   */
+  private getQueue(): Queue<PromotionQueueMessage> {
+    if (!this.promotionQueue) {
+      throw new Error("推播佇列未設定");
+    }
+    return this.promotionQueue;
+  }
+
+  /**
+   * 使用者是否接收優惠推播（未設定通知偏好時使用預設值）
+   */
+  private hasPromotionOptIn(user: AppUser): boolean {
+    const settings = user.notificationSettings ?? DEFAULT_NOTIFICATION_SETTINGS;
+    return settings.optIns[NotificationType.PROMOTION];
+  }
+}
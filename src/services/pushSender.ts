@@ -0,0 +1,157 @@
+/**
+ * 推播發送服務（FCM HTTP v1 API）
+ */
+import type { Env } from "../bindings";
+import type { PushNotification, PushSendResult } from "../types/fcmToken";
+import { TokenCacheManager } from "../utils/TokenCacheManager";
+
+/**
+ * Push Sender 介面 - 發送單一裝置推播
+ */
+export interface IPushSender {
+  /**
+   * 發送推播到單一 FCM Token
+   * @param token FCM Token
+   * @param notification 推播內容
+   * @returns 發送結果（不拋出錯誤）
+   */
+  send(token: string, notification: PushNotification): Promise<PushSendResult>;
+}
+
+/**
+ * FCM HTTP v1 API 錯誤回應
+ */
+export interface FcmErrorResponse {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: Array<{
+      "@type"?: string;
+      errorCode?: string;
+      fieldViolations?: Array<{ field?: string; description?: string }>;
+    }>;
+  };
+}
+
+/**
+ * 判斷 FCM 錯誤是否表示 Token 已失效
+ * - UNREGISTERED：App 已解除安裝或 Token 已過期
+ * - INVALID_ARGUMENT：只有錯誤指向 message.token 欄位時才是 Token 無效，
+ *   其他欄位（例如 data 格式錯誤）是推播內容的問題，不應刪除 Token
+ * @param errorCode FCM 錯誤碼
+ * @param errorBody FCM 錯誤回應
+ * @returns 是否應刪除 Token
+ */
+export function isInvalidTokenError(
+  errorCode: string | undefined,
+  errorBody: FcmErrorResponse
+): boolean {
+  if (errorCode === "UNREGISTERED") {
+    return true;
+  }
+
+  if (errorCode !== "INVALID_ARGUMENT") {
+    return false;
+  }
+
+  return (errorBody.error?.details ?? []).some((detail) =>
+    detail.fieldViolations?.some(
+      (violation) => violation.field === "message.token"
+    )
+  );
+}
+
+/**
+ * FCM Push Sender - 使用 Firebase 服務帳號的 OAuth Access Token 呼叫 FCM HTTP v1 API
+ */
+export class FcmPushSender implements IPushSender {
+  constructor(private env: Env) {}
+
+  async send(
+    token: string,
+    notification: PushNotification
+  ): Promise<PushSendResult> {
+    try {
+      const accessToken = await TokenCacheManager.getAccessToken(this.env);
+      const response = await fetch(
+        `https://fcm.googleapis.com/v1/projects/${this.env.FIREBASE_PROJECT_ID}/messages:send`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            message: {
+              token,
+              notification: {
+                title: notification.title,
+                body: notification.body,
+              },
+              data: { ...notification.data, type: notification.type },
+            },
+          }),
+        }
+      );
+
+      if (response.ok) {
+        const body = (await response.json()) as { name?: string };
+        return { success: true, messageId: body.name };
+      }
+
+      const errorBody = (await response
+        .json()
+        .catch(() => ({}))) as FcmErrorResponse;
+      const fcmErrorCode =
+        errorBody.error?.details?.find((detail) => detail.errorCode)
+          ?.errorCode || errorBody.error?.status;
+
+      return {
+        success: false,
+        errorCode: fcmErrorCode,
+        invalidToken: isInvalidTokenError(fcmErrorCode, errorBody),
+        error:
+          `FCM 發送失敗: ${response.status} ${errorBody.error?.message ?? ""}`.trim(),
+      };
+    } catch (error) {
+      console.error("FCM 推播發送錯誤:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "未知錯誤",
+      };
+    }
+  }
+}
+
+/**
+ * Mock Push Sender - 本機與整合測試使用，只記錄推播內容不實際發送
+ */
+export class MockPushSender implements IPushSender {
+  async send(
+    token: string,
+    notification: PushNotification
+  ): Promise<PushSendResult> {
+    console.log(
+      `📱 [Mock Push] ${token.slice(0, 12)}…: ${notification.title} - ${notification.body}`
+    );
+    return { success: true, messageId: `mock-${crypto.randomUUID()}` };
+  }
+}
+
+/**
+ * 是否使用 Mock 推播（PUSH_MOCK_MODE=true）
+ */
+export function isMockPushMode(env: Env): boolean {
+  return env.PUSH_MOCK_MODE === "true";
+}
+
+/**
+ * 建立推播發送服務
+ * PUSH_MOCK_MODE=true 時返回 MockPushSender
+ * @param env 環境變數
+ * @returns 推播發送服務
+ */
+export function createPushSender(env: Env): IPushSender {
+  return isMockPushMode(env) ? new MockPushSender() : new FcmPushSender(env);
+}
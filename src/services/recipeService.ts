@@ -1,6 +1,25 @@
-import { IRecipeRepository } from "../repositories/recipeRepository";
+import {
+  IRecipeRepository,
+  PublicRecipePagePosition,
+} from "../repositories/recipeRepository";
 import { TaskStatus } from "../types/diary";
-import { FavoriteRecipe, Recipe, RecipeIngredient } from "../types/recipe";
+import {
+  FavoriteRecipe,
+  Recipe,
+  RecipeFeedPage,
+  RecipeFeedQuery,
+  RecipeIngredient,
+  RecipeSort,
+  RecipeTagGroup,
+  ScaledRecipe,
+} from "../types/recipe";
+import {
+  buildSearchKeys,
+  normalizeSearchText,
+  SearchIndex,
+  selectSearchKey,
+  tokenizeSearchText,
+} from "../utils/searchUtils";
 import { IImageCompressionService } from "./imageCompressionService";
 import { IStorageService } from "./storageService";
 
@@ -22,7 +41,10 @@ export interface IRecipeService {
   ): Promise<Recipe>;
 
   getRecipe(recipeId: string): Promise<Recipe | null>;
+  scaleRecipe(recipeId: string, servings: number): Promise<ScaledRecipe>;
   getAllPublicRecipes(): Promise<Recipe[]>;
+  getPublicRecipeFeed(query: RecipeFeedQuery): Promise<RecipeFeedPage>;
+  searchPublicRecipes(keyword: string, limit: number): Promise<Recipe[]>;
   getMyRecipes(userId: string): Promise<Recipe[]>;
   deleteRecipe(recipeId: string): Promise<void>;
 
@@ -41,6 +63,74 @@ export interface RecipeImageData {
   ingredientImages?: { [ingredientIndex: string]: string }; // ingredient index -> base64 or URL
 }
 
+/**
+ * 動態牆分頁游標內容（base64 編碼後交給前端）
+ * 記錄最後一筆已掃描食譜的排序值與 ID，下一頁從其後開始（不受新增或刪除資料影響）
+ */
+interface RecipeFeedCursor {
+  s: RecipeSort; // 產生游標時的排序方式
+  v: number | string; // 排序欄位值（favoriteCount 或 createdAt ISO 字串）
+  id: string; // 食譜 ID
+}
+
+/**
+ * 動態牆每次向 Firestore 讀取的筆數
+ */
+const FEED_BATCH_SIZE = 50;
+
+/**
+ * 動態牆單次請求最多讀取的批次數，避免篩選條件過嚴時掃描整個 collection
+ */
+const MAX_FEED_SCAN_BATCHES = 5;
+
+/**
+ * Firestore array-contains-any 最多支援的值數量
+ */
+const MAX_ARRAY_CONTAINS_ANY = 10;
+
+/**
+ * 搜尋結果的欄位權重：名稱 > 食材 > 描述
+ */
+const SEARCH_FIELD_WEIGHTS = {
+  name: 3,
+  ingredients: 2,
+  description: 1,
+};
+
+/**
+ * 食譜名稱包含完整關鍵字時的額外加分
+ */
+const SEARCH_NAME_PHRASE_BONUS = 5;
+
+/**
+ * 搜尋時最多讀取的候選食譜數（符合索引鍵的最新食譜），再於記憶體中比對其餘詞並計分
+ */
+const SEARCH_CANDIDATE_LIMIT = 200;
+
+const TAG_GROUP_KEYS: RecipeTagGroup[] = [
+  "mealType",
+  "dietType",
+  "dishType",
+  "cuisine",
+];
+
+/**
+ * 產生食譜的搜尋索引鍵，涵蓋名稱、描述與食材名稱的所有語言版本
+ * @param recipe 食譜
+ * @returns 寫入 searchKeys 欄位的索引鍵
+ */
+export function buildRecipeSearchKeys(
+  recipe: Pick<Recipe, "name" | "description" | "ingredients">
+): string[] {
+  return buildSearchKeys([
+    ...Object.values(recipe.name || {}),
+    ...(recipe.ingredients || []).flatMap((ingredient) =>
+      Object.values(ingredient.name || {})
+    ),
+    ...Object.values(recipe.description || {}),
+  ]);
+}
+
 /**
  * Recipe Service - 業務邏輯層
  * 負責業務規則驗證、圖片處理協調和業務邏輯處理
@@ -271,6 +361,7 @@ export class RecipeService implements IRecipeService {
         status: recipeData.status || TaskStatus.DONE,
         progress: recipeData.progress || 0,
         isDeleted: false,
+        favoriteCount: 0,
         createdAt: now,
         updatedAt: now,
       };
@@ -285,8 +376,11 @@ export class RecipeService implements IRecipeService {
       // 處理圖片
       recipe = await this.processRecipeImages(recipe, images, userId);
 
-      // 儲存到資料庫
-      return await this.recipeRepository.create(recipe);
+      // 儲存到資料庫（同時寫入搜尋索引鍵）
+      return await this.recipeRepository.create(
+        recipe,
+        buildRecipeSearchKeys(recipe)
+      );
     } catch (error) {
       console.error("Service: 建立食譜失敗:", error);
       throw error instanceof Error
@@ -321,8 +415,9 @@ export class RecipeService implements IRecipeService {
         this.validateRecipe(updates);
       }
 
-      // 準備更新資料
+      // 準備更新資料（收藏次數只能由收藏操作維護）
       let updatedData = { ...updates };
+      delete updatedData.favoriteCount;
 
       // 如果成分有更新，重新計算營養素
       if (updates.ingredients) {
@@ -359,8 +454,18 @@ export class RecipeService implements IRecipeService {
         }
       }
 
+      // 名稱、描述或食材有變更時重建搜尋索引鍵
+      const searchKeys =
+        updatedData.name || updatedData.description || updatedData.ingredients
+          ? buildRecipeSearchKeys({ ...existingRecipe, ...updatedData })
+          : undefined;
+
       // 更新資料庫
-      return await this.recipeRepository.update(recipeId, updatedData);
+      return await this.recipeRepository.update(
+        recipeId,
+        updatedData,
+        searchKeys
+      );
     } catch (error) {
       console.error("Service: 更新食譜失敗:", error);
       throw error instanceof Error
@@ -384,6 +489,90 @@ export class RecipeService implements IRecipeService {
     }
   }
 
+  /**
+   * 依目標份數縮放食譜
+   *
+   * 業務邏輯：
+   * - 縮放比例 = 目標份數 / 食譜原始份數
+   * - 每個食材的份量、熱量與三大營養素依比例縮放
+   * - 食譜總營養素依比例縮放，並另外提供每份營養素
+   *
+   * @param recipeId 食譜 ID
+   * @param servings 目標份數（可為小數）
+   * @returns 縮放後的食譜
+   */
+  async scaleRecipe(recipeId: string, servings: number): Promise<ScaledRecipe> {
+    if (!recipeId.trim()) {
+      throw new Error("食譜 ID 不能為空");
+    }
+
+    if (!Number.isFinite(servings) || servings <= 0) {
+      throw new Error("份數必須大於 0");
+    }
+
+    try {
+      const recipe = await this.recipeRepository.findById(recipeId);
+      if (!recipe) {
+        throw new Error("找不到指定的食譜");
+      }
+
+      const originalServings = recipe.servings > 0 ? recipe.servings : 1;
+      const scaleFactor = servings / originalServings;
+
+      const scaledRecipe: Recipe = {
+        ...recipe,
+        servings,
+        calories: this.roundNutrient(recipe.calories * scaleFactor),
+        protein: this.roundNutrient(recipe.protein * scaleFactor),
+        carbs: this.roundNutrient(recipe.carbs * scaleFactor),
+        fat: this.roundNutrient(recipe.fat * scaleFactor),
+        ingredients: recipe.ingredients.map((ingredient) => ({
+          ...ingredient,
+          amountValue: this.roundAmount(ingredient.amountValue * scaleFactor),
+          calories: this.roundNutrient(ingredient.calories * scaleFactor),
+          protein: this.roundNutrient(ingredient.protein * scaleFactor),
+          carbs: this.roundNutrient(ingredient.carbs * scaleFactor),
+          fat: this.roundNutrient(ingredient.fat * scaleFactor),
+        })),
+      };
+
+      return {
+        recipe: scaledRecipe,
+        originalServings,
+        scaleFactor: this.roundAmount(scaleFactor),
+        perServing: {
+          calories: this.roundNutrient(recipe.calories / originalServings),
+          protein: this.roundNutrient(recipe.protein / originalServings),
+          carbs: this.roundNutrient(recipe.carbs / originalServings),
+          fat: this.roundNutrient(recipe.fat / originalServings),
+        },
+      };
+    } catch (error) {
+      console.error("Service: 縮放食譜失敗:", error);
+      throw error instanceof Error
+        ? error
+        : new Error("縮放食譜時發生未知錯誤");
+    }
+  }
+
+  /**
+   * 營養素四捨五入到小數點後 1 位
+   * @param value 原始數值
+   * @returns 四捨五入後的數值
+   */
+  private roundNutrient(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
+  /**
+   * 食材份量四捨五入到小數點後 2 位（保留 0.25 茶匙之類的份量）
+   * @param value 原始數值
+   * @returns 四捨五入後的數值
+   */
+  private roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
   async getAllPublicRecipes(): Promise<Recipe[]> {
     try {
       return await this.recipeRepository.findAllPublic();
@@ -395,6 +584,337 @@ export class RecipeService implements IRecipeService {
     }
   }
 
+  /**
+   * 取得公開食譜動態牆（分頁）
+   *
+   * 業務邏輯：
+   * - 第一個可交給 Firestore 的標籤群組使用 array-contains-any 查詢
+   * - 其餘標籤群組、熱量、蛋白質、製作時間與難易度在記憶體中篩選
+   * - 同一群組內符合任一標籤即可，不同群組之間需同時符合
+   * - 以批次掃描直到湊滿一頁、資料用完或達到掃描上限
+   * - 達到掃描上限時可能回傳少於 limit 筆，但仍會提供 nextCursor
+   *
+   * @param query 查詢條件
+   * @returns 食譜分頁結果
+   */
+  async getPublicRecipeFeed(query: RecipeFeedQuery): Promise<RecipeFeedPage> {
+    const startAfter = this.decodeFeedCursor(query.cursor, query.sort);
+
+    try {
+      // 選出交給 Firestore 查詢的標籤群組
+      const queryGroup = TAG_GROUP_KEYS.find((group) => {
+        const tags = query[group];
+        return tags && tags.length > 0 && tags.length <= MAX_ARRAY_CONTAINS_ANY;
+      });
+
+      const items: Recipe[] = [];
+      let position = startAfter;
+      let exhausted = false;
+
+      for (
+        let batchIndex = 0;
+        batchIndex < MAX_FEED_SCAN_BATCHES && !exhausted;
+        batchIndex++
+      ) {
+        const batch = await this.recipeRepository.findPublicPage({
+          sort: query.sort,
+          tagsAnyOf: queryGroup ? query[queryGroup] : undefined,
+          startAfter: position,
+          limit: FEED_BATCH_SIZE,
+        });
+        exhausted = batch.length < FEED_BATCH_SIZE;
+
+        for (let i = 0; i < batch.length; i++) {
+          if (this.matchesFeedQuery(batch[i], query, queryGroup)) {
+            items.push(batch[i]);
+          }
+
+          if (items.length === query.limit) {
+            // 頁面已滿，下一頁從這一筆之後開始
+            const isLastDoc = exhausted && i === batch.length - 1;
+            return {
+              items,
+              nextCursor: isLastDoc
+                ? null
+                : this.encodeFeedCursor(batch[i], query.sort),
+            };
+          }
+        }
+
+        if (batch.length > 0) {
+          position = this.toFeedPosition(batch[batch.length - 1], query.sort);
+        }
+      }
+
+      return {
+        items,
+        nextCursor:
+          exhausted || !position
+            ? null
+            : this.encodeFeedCursor(position, query.sort),
+      };
+    } catch (error) {
+      console.error("Service: 取得公開食譜動態牆失敗:", error);
+      throw error instanceof Error
+        ? error
+        : new Error("取得公開食譜動態牆時發生未知錯誤");
+    }
+  }
+
+  /**
+   * 檢查食譜是否符合動態牆的記憶體篩選條件
+   * @param recipe 食譜
+   * @param query 查詢條件
+   * @param queryGroup 已交由 Firestore 篩選的標籤群組
+   * @returns 是否符合
+   */
+  private matchesFeedQuery(
+    recipe: Recipe,
+    query: RecipeFeedQuery,
+    queryGroup?: RecipeTagGroup
+  ): boolean {
+    for (const group of TAG_GROUP_KEYS) {
+      const tags = query[group];
+      if (group === queryGroup || !tags || tags.length === 0) {
+        continue;
+      }
+      if (!tags.some((tag) => recipe.tags.includes(tag))) {
+        return false;
+      }
+    }
+
+    if (
+      query.minCalories !== undefined &&
+      recipe.calories < query.minCalories
+    ) {
+      return false;
+    }
+    if (
+      query.maxCalories !== undefined &&
+      recipe.calories > query.maxCalories
+    ) {
+      return false;
+    }
+    if (query.minProtein !== undefined && recipe.protein < query.minProtein) {
+      return false;
+    }
+    if (query.maxProtein !== undefined && recipe.protein > query.maxProtein) {
+      return false;
+    }
+    if (
+      query.maxDuration !== undefined &&
+      recipe.duration > query.maxDuration
+    ) {
+      return false;
+    }
+    if (
+      query.difficulty &&
+      query.difficulty.length > 0 &&
+      !query.difficulty.includes(recipe.difficulty)
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 取得食譜在動態牆排序中的位置
+   * @param recipe 食譜
+   * @param sort 排序方式
+   * @returns 分頁位置
+   */
+  private toFeedPosition(
+    recipe: Recipe,
+    sort: RecipeSort
+  ): PublicRecipePagePosition {
+    return {
+      sortValue:
+        sort === "mostFavorited"
+          ? (recipe.favoriteCount ?? 0)
+          : recipe.createdAt,
+      id: recipe.id!,
+    };
+  }
+
+  /**
+   * 編碼動態牆分頁游標
+   * @param last 最後一筆已掃描的食譜或其分頁位置
+   * @param sort 排序方式
+   * @returns base64 游標字串
+   */
+  private encodeFeedCursor(
+    last: Recipe | PublicRecipePagePosition,
+    sort: RecipeSort
+  ): string {
+    const position =
+      "sortValue" in last ? last : this.toFeedPosition(last, sort);
+    const cursor: RecipeFeedCursor = {
+      s: sort,
+      v:
+        position.sortValue instanceof Date
+          ? position.sortValue.toISOString()
+          : position.sortValue,
+      id: position.id,
+    };
+    return btoa(JSON.stringify(cursor));
+  }
+
+  /**
+   * 解碼動態牆分頁游標
+   * @param cursor 游標字串（未提供時從頭開始）
+   * @param sort 目前請求的排序方式
+   * @returns 分頁位置，未提供游標時返回 undefined
+   */
+  private decodeFeedCursor(
+    cursor: string | undefined,
+    sort: RecipeSort
+  ): PublicRecipePagePosition | undefined {
+    if (!cursor) {
+      return undefined;
+    }
+
+    let decoded: RecipeFeedCursor;
+    try {
+      decoded = JSON.parse(atob(cursor));
+    } catch {
+      throw new Error("無效的分頁游標");
+    }
+
+    if (typeof decoded?.id !== "string" || decoded.id === "") {
+      throw new Error("無效的分頁游標");
+    }
+
+    if (decoded.s !== sort) {
+      throw new Error("無效的分頁游標：排序方式與游標不一致");
+    }
+
+    if (sort === "mostFavorited") {
+      if (typeof decoded.v !== "number" || !Number.isInteger(decoded.v)) {
+        throw new Error("無效的分頁游標");
+      }
+      return { sortValue: decoded.v, id: decoded.id };
+    }
+
+    const createdAt =
+      typeof decoded.v === "string" ? new Date(decoded.v) : new Date(NaN);
+    if (isNaN(createdAt.getTime())) {
+      throw new Error("無效的分頁游標");
+    }
+    return { sortValue: createdAt, id: decoded.id };
+  }
+
+  /**
+   * 全文搜尋公開食譜
+   *
+   * 業務邏輯：
+   * - 同時搜尋名稱、描述與食材名稱的所有語言版本
+   * - 關鍵字的每個詞都必須出現在食譜中（可分散在不同欄位）
+   * - 拉丁字母單字支援前綴比對，CJK／泰文以雙字 n-gram 比對
+   * - 以建立時寫入的 searchKeys 查詢最長的詞，只讀取最新的 SEARCH_CANDIDATE_LIMIT 筆候選
+   * - 依欄位權重計分，名稱包含完整關鍵字時額外加分
+   * - 分數相同時保留原本的建立時間排序（新到舊）
+   *
+   * @param keyword 搜尋關鍵字
+   * @param limit 最多回傳筆數
+   * @returns 依相關度排序的食譜陣列
+   */
+  async searchPublicRecipes(keyword: string, limit: number): Promise<Recipe[]> {
+    const queryTokens = tokenizeSearchText(keyword, true);
+    if (queryTokens.words.length === 0 && queryTokens.grams.length === 0) {
+      throw new Error("無效的搜尋關鍵字：請輸入文字或數字");
+    }
+    const normalizedKeyword = normalizeSearchText(keyword).trim();
+
+    try {
+      const recipes = await this.recipeRepository.findPublicBySearchKey(
+        selectSearchKey(queryTokens),
+        SEARCH_CANDIDATE_LIMIT
+      );
+
+      const scored: Array<{ recipe: Recipe; score: number }> = [];
+      for (const recipe of recipes) {
+        const score = this.scoreRecipe(
+          recipe,
+          queryTokens.words,
+          queryTokens.grams,
+          normalizedKeyword
+        );
+        if (score > 0) {
+          scored.push({ recipe, score });
+        }
+      }
+
+      // Array.prototype.sort 為穩定排序，同分時維持建立時間順序
+      scored.sort((a, b) => b.score - a.score);
+
+      return scored.slice(0, limit).map((item) => item.recipe);
+    } catch (error) {
+      console.error("Service: 搜尋食譜失敗:", error);
+      throw error instanceof Error
+        ? error
+        : new Error("搜尋食譜時發生未知錯誤");
+    }
+  }
+
+  /**
+   * 計算食譜與關鍵字的相關度
+   * @param recipe 食譜
+   * @param words 查詢單字
+   * @param grams 查詢 n-gram
+   * @param normalizedKeyword 正規化後的完整關鍵字
+   * @returns 相關度分數，不符合時為 0
+   */
+  private scoreRecipe(
+    recipe: Recipe,
+    words: string[],
+    grams: string[],
+    normalizedKeyword: string
+  ): number {
+    const fields = [
+      {
+        index: new SearchIndex(Object.values(recipe.name || {})),
+        weight: SEARCH_FIELD_WEIGHTS.name,
+      },
+      {
+        index: new SearchIndex(
+          (recipe.ingredients || []).flatMap((ingredient) =>
+            Object.values(ingredient.name || {})
+          )
+        ),
+        weight: SEARCH_FIELD_WEIGHTS.ingredients,
+      },
+      {
+        index: new SearchIndex(Object.values(recipe.description || {})),
+        weight: SEARCH_FIELD_WEIGHTS.description,
+      },
+    ];
+
+    let score = 0;
+    const matchers = [
+      ...words.map((word) => (index: SearchIndex) => index.hasWord(word)),
+      ...grams.map((gram) => (index: SearchIndex) => index.hasGram(gram)),
+    ];
+
+    for (const matches of matchers) {
+      // 取該詞出現的最高權重欄位，任一詞沒有出現就不符合
+      const best = Math.max(
+        0,
+        ...fields.filter((field) => matches(field.index)).map((f) => f.weight)
+      );
+      if (best === 0) {
+        return 0;
+      }
+      score += best;
+    }
+
+    if (fields[0].index.containsPhrase(normalizedKeyword)) {
+      score += SEARCH_NAME_PHRASE_BONUS;
+    }
+
+    return score;
+  }
+
   async getMyRecipes(userId: string): Promise<Recipe[]> {
     try {
       if (!userId || userId.trim() === "") {
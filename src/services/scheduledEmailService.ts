@@ -0,0 +1,167 @@
+import type { Env } from "../bindings";
+import { IScheduledEmailRepository } from "../repositories/scheduledEmailRepository";
+import type { EmailType } from "../types/email";
+import type { SubrequestBudget } from "../types/subrequestBudget";
+import type {
+  ScheduledEmail,
+  ScheduledEmailRunResult,
+  ScheduleEmailInput,
+} from "../types/scheduledEmail";
+import EmailService from "./emailService";
+
+/**
+ * 每次排程最多發送的郵件數（避免單次 Cron 執行過久）
+ */
+const SEND_BATCH_SIZE = 50;
+
+/**
+ * 每封郵件使用的子請求數：標記發送中、寄送與更新發送結果
+ */
+const SUBREQUESTS_PER_EMAIL = 3;
+
+/**
+ * 發送失敗時最多嘗試次數，超過後標記為 failed
+ */
+const MAX_SEND_ATTEMPTS = 3;
+
+/**
+ * Scheduled Email Service 介面 - 定義業務邏輯操作
+ */
+export interface IScheduledEmailService {
+  /**
+   * 建立排程郵件；同一使用者同類型的待發送郵件會被取代
+   * @param input 排程郵件資料
+   * @returns 排程郵件
+   */
+  schedule(input: ScheduleEmailInput): Promise<ScheduledEmail>;
+
+  /**
+   * 取消使用者指定類型的待發送郵件
+   * @param userId 使用者 ID
+   * @param emailType 郵件類型
+   * @returns 取消的筆數
+   */
+  cancelPending(userId: string, emailType: EmailType): Promise<number>;
+
+  /**
+   * 發送已到時間的排程郵件
+   * @param env 環境變數
+   * @param now 目前時間
+   * @param budget 本次排程剩餘的子請求數（依實際用量扣除）
+   * @returns 發送結果統計
+   */
+  sendDueEmails(
+    env: Env,
+    now: Date,
+    budget: SubrequestBudget
+  ): Promise<ScheduledEmailRunResult>;
+}
+
+/**
+ * Scheduled Email Service - 延遲發送的郵件（試用結束提醒、挽回郵件）
+ * 由 Cron Trigger 定期呼叫 sendDueEmails 發送
+ */
+export class ScheduledEmailService implements IScheduledEmailService {
+  constructor(
+    private scheduledEmailRepository: IScheduledEmailRepository,
+    private emailService: EmailService
+  ) {}
+
+  /**
+   * 建立排程郵件
+   * 業務邏輯：
+   * - 先取消同一使用者同類型的待發送郵件（例如重複的試用、多次到期）
+   * - 新增待發送紀錄
+   */
+  async schedule(input: ScheduleEmailInput): Promise<ScheduledEmail> {
+    await this.scheduledEmailRepository.cancelPending(
+      input.userId,
+      input.emailType
+    );
+
+    const email: ScheduledEmail = {
+      id: crypto.randomUUID(),
+      userId: input.userId,
+      emailType: input.emailType,
+      recipientEmail: input.recipientEmail,
+      recipientName: input.recipientName ?? null,
+      language: input.language,
+      templateData: input.templateData,
+      sendAt: input.sendAt,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      sentAt: null,
+      createdAt: new Date(),
+    };
+
+    await this.scheduledEmailRepository.insert(email);
+    return email;
+  }
+
+  async cancelPending(userId: string, emailType: EmailType): Promise<number> {
+    return await this.scheduledEmailRepository.cancelPending(userId, emailType);
+  }
+
+  /**
+   * 發送已到時間的排程郵件
+   * 業務邏輯：
+   * - 每次最多處理 SEND_BATCH_SIZE 封（子請求預算不足時更少），剩下的留給下一次排程
+   * - 先標記為發送中，已被其他執行取得的郵件跳過
+   * - 發送失敗時保留為待發送重試，超過 MAX_SEND_ATTEMPTS 次後標記為 failed
+   */
+  async sendDueEmails(
+    env: Env,
+    now: Date,
+    budget: SubrequestBudget
+  ): Promise<ScheduledEmailRunResult> {
+    const result: ScheduledEmailRunResult = { sent: 0, failed: 0, retried: 0 };
+    const limit = Math.min(
+      SEND_BATCH_SIZE,
+      Math.floor((budget.remaining - 1) / SUBREQUESTS_PER_EMAIL)
+    );
+    if (limit <= 0) {
+      return result;
+    }
+
+    budget.remaining--;
+    const dueEmails = await this.scheduledEmailRepository.findDue(now, limit);
+
+    for (const email of dueEmails) {
+      budget.remaining -= SUBREQUESTS_PER_EMAIL;
+      const claimed = await this.scheduledEmailRepository.markSending(email.id);
+      if (!claimed) {
+        continue;
+      }
+
+      const sendResult = await this.emailService.sendTemplatedEmail(
+        email.emailType,
+        email.recipientEmail,
+        email.recipientName ?? "",
+        email.templateData,
+        env,
+        email.language
+      );
+
+      if (sendResult.success) {
+        await this.scheduledEmailRepository.markSent(email.id, new Date());
+        result.sent++;
+        continue;
+      }
+
+      const retry = email.attempts + 1 < MAX_SEND_ATTEMPTS;
+      await this.scheduledEmailRepository.markFailed(
+        email.id,
+        sendResult.error || "未知錯誤",
+        retry
+      );
+      if (retry) {
+        result.retried++;
+      } else {
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,326 @@
+import { IShoppingListRepository } from "../repositories/shoppingListRepository";
+import { Recipe } from "../types/recipe";
+import {
+  CreateShoppingListRequest,
+  IngredientUnitFamily,
+  ShoppingList,
+  ShoppingListItem,
+} from "../types/shoppingList";
+import {
+  getIngredientKey,
+  normalizeIngredientAmount,
+  roundAmount,
+  toDisplayAmount,
+} from "../utils/ingredientUnits";
+import { IRecipeService } from "./recipeService";
+
+/**
+ * ShoppingList Service 介面 - 定義業務邏輯操作
+ */
+export interface IShoppingListService {
+  /**
+   * 獲取使用者的購物清單列表
+   * @param userId 使用者 ID
+   * @returns ShoppingList 陣列
+   */
+  getShoppingLists(userId: string): Promise<ShoppingList[]>;
+
+  /**
+   * 獲取單一購物清單
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   * @returns ShoppingList 物件或 null
+   */
+  getShoppingList(userId: string, listId: string): Promise<ShoppingList | null>;
+
+  /**
+   * 從多個食譜與份數產生並儲存購物清單
+   * @param userId 使用者 ID
+   * @param request 食譜與份數
+   * @returns 建立的 ShoppingList 物件
+   */
+  createShoppingList(
+    userId: string,
+    request: CreateShoppingListRequest
+  ): Promise<ShoppingList>;
+
+  /**
+   * 更新購物清單項目的勾選狀態
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   * @param itemId 項目 ID
+   * @param checked 是否已勾選
+   * @returns 更新後的 ShoppingList 物件
+   */
+  updateItemChecked(
+    userId: string,
+    listId: string,
+    itemId: string,
+    checked: boolean
+  ): Promise<ShoppingList>;
+
+  /**
+   * 刪除購物清單
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   */
+  deleteShoppingList(userId: string, listId: string): Promise<void>;
+}
+
+/**
+ * 合併中的食材累計資料
+ */
+interface ItemAccumulator {
+  id: string;
+  name: Record<string, string>;
+  family: IngredientUnitFamily;
+  value: number; // mass / volume / count 為基準單位，other 為原始數值
+  amountUnit: Record<string, string>; // 僅 other 使用
+  recipeIds: Set<string>;
+}
+
+/**
+ * ShoppingList Service - 業務邏輯層
+ * 負責縮放食譜、合併食材與正規化單位
+ */
+export class ShoppingListService implements IShoppingListService {
+  constructor(
+    private shoppingListRepository: IShoppingListRepository,
+    private recipeService: IRecipeService
+  ) {}
+
+  /**
+   * 獲取購物清單列表
+   * 業務邏輯：
+   * - 驗證使用者權限
+   * - 委派給 Repository 執行資料查詢
+   *
+   * @param userId 使用者 ID
+   * @returns ShoppingList 陣列
+   */
+  async getShoppingLists(userId: string): Promise<ShoppingList[]> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    try {
+      return await this.shoppingListRepository.findByUser(userId);
+    } catch (error) {
+      console.error("Service: 取得購物清單列表時發生錯誤:", error);
+      throw new Error("取得購物清單列表失敗");
+    }
+  }
+
+  /**
+   * 獲取單一購物清單
+   * 業務邏輯：
+   * - 驗證使用者權限與購物清單 ID
+   *
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   * @returns ShoppingList 物件或 null
+   */
+  async getShoppingList(
+    userId: string,
+    listId: string
+  ): Promise<ShoppingList | null> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    if (!listId || listId.trim() === "") {
+      throw new Error("購物清單 ID 不能為空");
+    }
+
+    try {
+      return await this.shoppingListRepository.findById(userId, listId);
+    } catch (error) {
+      console.error("Service: 取得購物清單時發生錯誤:", error);
+      throw new Error("取得購物清單失敗");
+    }
+  }
+
+  /**
+   * 從多個食譜與份數產生購物清單
+   * 業務邏輯：
+   * - 依各食譜的目標份數縮放食材份量
+   * - 以英文名稱（簡單去除複數）合併相同食材
+   * - 重量統一為公克、容量統一為毫升（杯、大匙、小匙皆換算）、個數直接加總
+   * - 無法換算的單位依原始單位分開列出
+   * - 重量 / 容量達 1000 以上時改以公斤 / 公升顯示
+   *
+   * @param userId 使用者 ID
+   * @param request 食譜與份數
+   * @returns 建立的 ShoppingList 物件
+   */
+  async createShoppingList(
+    userId: string,
+    request: CreateShoppingListRequest
+  ): Promise<ShoppingList> {
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    if (!request.recipes || request.recipes.length === 0) {
+      throw new Error("至少需要選擇一個食譜");
+    }
+
+    // 依份數縮放每個食譜（找不到食譜或份數無效時直接拋出）
+    const scaledRecipes = await Promise.all(
+      request.recipes.map(({ recipeId, servings }) =>
+        this.recipeService.scaleRecipe(recipeId, servings)
+      )
+    );
+
+    const now = new Date();
+    const shoppingList: ShoppingList = {
+      id: crypto.randomUUID(),
+      name: request.name || this.dateToKey(now),
+      recipes: request.recipes.map(({ recipeId, servings }) => ({
+        recipeId,
+        servings,
+      })),
+      items: this.mergeIngredients(scaledRecipes.map((s) => s.recipe)),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      return await this.shoppingListRepository.create(userId, shoppingList);
+    } catch (error) {
+      console.error("Service: 建立購物清單時發生錯誤:", error);
+      throw new Error("建立購物清單失敗");
+    }
+  }
+
+  /**
+   * 更新購物清單項目的勾選狀態
+   * 業務邏輯：
+   * - 確認購物清單與項目存在
+   * - 只更新指定項目的 checked 欄位
+   *
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   * @param itemId 項目 ID
+   * @param checked 是否已勾選
+   * @returns 更新後的 ShoppingList 物件
+   */
+  async updateItemChecked(
+    userId: string,
+    listId: string,
+    itemId: string,
+    checked: boolean
+  ): Promise<ShoppingList> {
+    const shoppingList = await this.getShoppingList(userId, listId);
+    if (!shoppingList) {
+      throw new Error("找不到指定的購物清單");
+    }
+
+    if (!shoppingList.items.some((item) => item.id === itemId)) {
+      throw new Error("找不到指定的購物清單項目");
+    }
+
+    const items = shoppingList.items.map((item) =>
+      item.id === itemId ? { ...item, checked } : item
+    );
+
+    try {
+      await this.shoppingListRepository.update(userId, listId, { items });
+      return { ...shoppingList, items, updatedAt: new Date() };
+    } catch (error) {
+      console.error("Service: 更新購物清單項目時發生錯誤:", error);
+      throw new Error("更新購物清單項目失敗");
+    }
+  }
+
+  /**
+   * 刪除購物清單
+   * 業務邏輯：
+   * - 確認購物清單存在後再刪除
+   *
+   * @param userId 使用者 ID
+   * @param listId 購物清單 ID
+   */
+  async deleteShoppingList(userId: string, listId: string): Promise<void> {
+    const shoppingList = await this.getShoppingList(userId, listId);
+    if (!shoppingList) {
+      throw new Error("找不到指定的購物清單");
+    }
+
+    try {
+      await this.shoppingListRepository.delete(userId, listId);
+    } catch (error) {
+      console.error("Service: 刪除購物清單時發生錯誤:", error);
+      throw new Error("刪除購物清單失敗");
+    }
+  }
+
+  /**
+   * 合併多個（已縮放）食譜的食材
+   * @param recipes 已依份數縮放的食譜
+   * @returns 購物清單項目（依第一次出現的順序）
+   */
+  private mergeIngredients(recipes: Recipe[]): ShoppingListItem[] {
+    const accumulators = new Map<string, ItemAccumulator>();
+
+    for (const recipe of recipes) {
+      for (const ingredient of recipe.ingredients || []) {
+        const nameKey = getIngredientKey(ingredient.name);
+        if (!nameKey) {
+          continue;
+        }
+
+        const amount = normalizeIngredientAmount(
+          ingredient.amountValue || 0,
+          ingredient.amountUnit
+        );
+        const id = `${nameKey.replace(/\s+/g, "-")}:${amount.unitKey}`;
+
+        const existing = accumulators.get(id);
+        if (existing) {
+          existing.value += amount.value;
+          existing.recipeIds.add(recipe.id || "");
+          continue;
+        }
+
+        accumulators.set(id, {
+          id,
+          name: { ...(ingredient.name || {}) },
+          family: amount.family,
+          value: amount.value,
+          amountUnit: { ...(ingredient.amountUnit || {}) },
+          recipeIds: new Set([recipe.id || ""]),
+        });
+      }
+    }
+
+    return [...accumulators.values()].map((acc) => {
+      const display =
+        acc.family === "other"
+          ? { amountValue: roundAmount(acc.value), amountUnit: acc.amountUnit }
+          : toDisplayAmount(acc.family, acc.value);
+
+      return {
+        id: acc.id,
+        name: acc.name,
+        amountValue: display.amountValue,
+        amountUnit: display.amountUnit,
+        unitFamily: acc.family,
+        recipeIds: [...acc.recipeIds].filter((id) => id !== ""),
+        checked: false,
+      };
+    });
+  }
+
+  /**
+   * 將日期轉換為 YYYY-MM-DD 字串
+   * @param date 日期
+   * @returns 日期字串
+   */
+  private dateToKey(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${year}-${month}-${day}`;
+  }
+}
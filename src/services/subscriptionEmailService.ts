@@ -0,0 +1,288 @@
+import type { Env } from "../bindings";
+import { IUserRepository } from "../repositories/userRepository";
+import type { EmailType } from "../types/email";
+import type {
+  RevenueCatEventType,
+  RevenueCatWebhookEvent,
+  SubscriptionEmailResult,
+} from "../types/revenuecat";
+import { resolveEmailLanguage } from "../utils/emailTemplates";
+import { getStoreSubscriptionUrl } from "../utils/storeUrls";
+import EmailService from "./emailService";
+import { IScheduledEmailService } from "./scheduledEmailService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 試用結束前多久發送提醒
+ */
+const TRIAL_ENDING_REMINDER_MS = 2 * DAY_MS;
+
+/**
+ * 訂閱到期後預設多少天發送挽回郵件（可由 WIN_BACK_EMAIL_DELAY_DAYS 覆寫）
+ */
+const DEFAULT_WIN_BACK_DELAY_DAYS = 7;
+
+/**
+ * 收到這些事件時，取消尚未發送的排程郵件
+ * - 試用提醒：試用已取消、到期或換方案
+ * - 挽回郵件：使用者已重新訂閱
+ */
+const CANCELLING_EVENT_TYPES: Partial<
+  Record<EmailType, RevenueCatEventType[]>
+> = {
+  trial_ending: ["CANCELLATION", "EXPIRATION", "PRODUCT_CHANGE"],
+  win_back: [
+    "INITIAL_PURCHASE",
+    "RENEWAL",
+    "UNCANCELLATION",
+    "NON_RENEWING_PURCHASE",
+    "SUBSCRIPTION_EXTENDED",
+  ],
+};
+
+/**
+ * 郵件收件人資訊
+ */
+interface EmailRecipient {
+  email: string;
+  name: string;
+  language: string;
+}
+
+/**
+ * 取得挽回郵件延遲天數
+ * @param env 環境變數
+ * @returns 天數
+ */
+export function getWinBackDelayDays(env: Env): number {
+  const days = Number(env.WIN_BACK_EMAIL_DELAY_DAYS);
+  return Number.isFinite(days) && days >= 0
+    ? days
+    : DEFAULT_WIN_BACK_DELAY_DAYS;
+}
+
+/**
+ * Subscription Email Service 介面 - 定義業務邏輯操作
+ */
+export interface ISubscriptionEmailService {
+  /**
+   * 依 RevenueCat Webhook 事件發送或排程訂閱生命週期郵件
+   * @param event RevenueCat 事件
+   * @param env 環境變數
+   * @returns 處理結果
+   */
+  handleWebhookEvent(
+    event: RevenueCatWebhookEvent,
+    env: Env
+  ): Promise<SubscriptionEmailResult>;
+}
+
+/**
+ * Subscription Email Service - 訂閱生命週期郵件
+ * 付款問題立即發送；試用結束提醒與挽回郵件寫入排程，由 Cron Trigger 發送
+ */
+export class SubscriptionEmailService implements ISubscriptionEmailService {
+  constructor(
+    private emailService: EmailService,
+    private userRepository: IUserRepository,
+    private scheduledEmailService: IScheduledEmailService
+  ) {}
+
+  /**
+   * 依 RevenueCat Webhook 事件發送或排程訂閱生命週期郵件
+   * 業務邏輯：
+   * - 生產環境跳過沙盒事件
+   * - 先取消被此事件取代的待發送郵件
+   * - BILLING_ISSUE：立即發送付款問題郵件
+   * - 試用的 INITIAL_PURCHASE：排程在試用結束前發送提醒
+   * - EXPIRATION：排程在到期 N 天後發送挽回郵件
+   * - 沒有 D1 排程服務時只處理立即發送的郵件
+   */
+  async handleWebhookEvent(
+    event: RevenueCatWebhookEvent,
+    env: Env
+  ): Promise<SubscriptionEmailResult> {
+    const isSandbox =
+      event.environment === "SANDBOX" || event.is_sandbox === true;
+    if (isSandbox && env.ENVIRONMENT === "production") {
+      return { cancelled: 0, skippedReason: "生產環境跳過沙盒事件" };
+    }
+
+    const cancelled = await this.cancelSupersededEmails(event);
+
+    switch (event.type) {
+      case "BILLING_ISSUE":
+        return await this.sendBillingIssueEmail(event, env, cancelled);
+      case "INITIAL_PURCHASE":
+        if (event.period_type === "TRIAL") {
+          return await this.scheduleTrialEndingEmail(event, env, cancelled);
+        }
+        return { cancelled };
+      case "EXPIRATION":
+        return await this.scheduleWinBackEmail(event, env, cancelled);
+      default:
+        return { cancelled };
+    }
+  }
+
+  /**
+   * 取消被此事件取代的待發送郵件
+   */
+  private async cancelSupersededEmails(
+    event: RevenueCatWebhookEvent
+  ): Promise<number> {
+    let cancelled = 0;
+    for (const [emailType, eventTypes] of Object.entries(
+      CANCELLING_EVENT_TYPES
+    )) {
+      if (eventTypes?.includes(event.type)) {
+        cancelled += await this.scheduledEmailService.cancelPending(
+          event.app_user_id,
+          emailType as EmailType
+        );
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * 立即發送付款問題郵件
+   */
+  private async sendBillingIssueEmail(
+    event: RevenueCatWebhookEvent,
+    env: Env,
+    cancelled: number
+  ): Promise<SubscriptionEmailResult> {
+    const recipient = await this.resolveRecipient(event);
+    if (!recipient) {
+      return { cancelled, skippedReason: "用戶沒有郵箱地址" };
+    }
+
+    const result = await this.emailService.sendBillingIssueEmail(
+      recipient.email,
+      recipient.name,
+      getStoreSubscriptionUrl(event.store, env),
+      env,
+      recipient.language
+    );
+
+    if (!result.success) {
+      console.error("付款問題郵件發送失敗:", result.error);
+      return { cancelled, skippedReason: `郵件發送失敗: ${result.error}` };
+    }
+
+    return { sent: "billing_issue", cancelled };
+  }
+
+  /**
+   * 排程試用結束提醒
+   */
+  private async scheduleTrialEndingEmail(
+    event: RevenueCatWebhookEvent,
+    env: Env,
+    cancelled: number
+  ): Promise<SubscriptionEmailResult> {
+    const now = Date.now();
+    if (!event.expiration_at_ms || event.expiration_at_ms <= now) {
+      return { cancelled, skippedReason: "試用已結束" };
+    }
+
+    return await this.scheduleEmail(
+      event,
+      "trial_ending",
+      new Date(
+        Math.max(event.expiration_at_ms - TRIAL_ENDING_REMINDER_MS, now)
+      ),
+      {
+        trialEndDate: new Date(event.expiration_at_ms)
+          .toISOString()
+          .slice(0, 10),
+        manageSubscriptionUrl: getStoreSubscriptionUrl(event.store, env),
+      },
+      cancelled
+    );
+  }
+
+  /**
+   * 排程挽回郵件
+   */
+  private async scheduleWinBackEmail(
+    event: RevenueCatWebhookEvent,
+    env: Env,
+    cancelled: number
+  ): Promise<SubscriptionEmailResult> {
+    const expiredAt = event.expiration_at_ms || event.event_timestamp_ms;
+
+    return await this.scheduleEmail(
+      event,
+      "win_back",
+      new Date(expiredAt + getWinBackDelayDays(env) * DAY_MS),
+      { resubscribeUrl: getStoreSubscriptionUrl(event.store, env) },
+      cancelled
+    );
+  }
+
+  /**
+   * 寫入排程郵件
+   */
+  private async scheduleEmail(
+    event: RevenueCatWebhookEvent,
+    emailType: EmailType,
+    sendAt: Date,
+    templateData: Record<string, string>,
+    cancelled: number
+  ): Promise<SubscriptionEmailResult> {
+    const recipient = await this.resolveRecipient(event);
+    if (!recipient) {
+      return { cancelled, skippedReason: "用戶沒有郵箱地址" };
+    }
+
+    await this.scheduledEmailService.schedule({
+      userId: event.app_user_id,
+      emailType,
+      recipientEmail: recipient.email,
+      recipientName: recipient.name,
+      language: recipient.language,
+      templateData: { userName: recipient.name, ...templateData },
+      sendAt,
+    });
+
+    console.log(`✅ 已排程 ${emailType} 郵件:`, sendAt.toISOString());
+    return { scheduled: emailType, cancelled };
+  }
+
+  /**
+   * 取得收件人資訊：優先使用 RevenueCat subscriber attributes，其次為使用者資料
+   */
+  private async resolveRecipient(
+    event: RevenueCatWebhookEvent
+  ): Promise<EmailRecipient | null> {
+    const attributes = event.subscriber_attributes ?? {};
+    const user = await this.userRepository.findById(event.app_user_id);
+
+    const email: string | undefined =
+      attributes["$email"]?.value || attributes["email"]?.value || user?.email;
+    if (!email) {
+      return null;
+    }
+
+    const name: string =
+      attributes["$displayName"]?.value ||
+      attributes["display_name"]?.value ||
+      user?.displayName ||
+      email.split("@")[0];
+
+    const language =
+      resolveEmailLanguage(
+        attributes["$locale"]?.value ||
+          attributes["locale"]?.value ||
+          attributes["language"]?.value ||
+          attributes["$language"]?.value
+      ) ||
+      resolveEmailLanguage(user?.deviceLanguage) ||
+      "en";
+
+    return { email, name, language };
+  }
+}
@@ -0,0 +1,249 @@
+import { IUserRepository } from "../repositories/userRepository";
+import type {
+  RevenueCatEventType,
+  RevenueCatSubscriptionState,
+  RevenueCatWebhookEvent,
+  SubscriptionSyncResult,
+} from "../types/revenuecat";
+import {
+  AppUser,
+  EntitlementInfo,
+  RevenueCatSubscription,
+} from "../types/user";
+
+/**
+ * 不影響訂閱狀態的事件
+ */
+const STATELESS_EVENT_TYPES: RevenueCatEventType[] = [
+  "TEST",
+  "SUBSCRIBER_ALIAS",
+];
+
+/**
+ * 將毫秒時間戳轉為 ISO 字串（與 RevenueCat SDK 的日期格式一致）
+ */
+function toISOString(timestampMs: number | undefined): string | undefined {
+  return timestampMs && timestampMs > 0
+    ? new Date(timestampMs).toISOString()
+    : undefined;
+}
+
+/**
+ * 移除值為 undefined 的欄位（Firestore 不接受 undefined）
+ */
+function omitUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as T;
+}
+
+/**
+ * Subscription Service 介面 - 定義業務邏輯操作
+ */
+export interface ISubscriptionService {
+  /**
+   * 將 RevenueCat Webhook 事件套用到使用者的訂閱狀態
+   * @param event RevenueCat 事件
+   * @returns 同步結果
+   */
+  applyWebhookEvent(
+    event: RevenueCatWebhookEvent
+  ): Promise<SubscriptionSyncResult>;
+}
+
+/**
+ * Subscription Service - 由 RevenueCat Webhook 維護使用者訂閱狀態
+ * 讓後端不依賴客戶端即可判斷使用者是否為付費用戶
+ */
+export class SubscriptionService implements ISubscriptionService {
+  constructor(private userRepository: IUserRepository) {}
+
+  /**
+   * 將 RevenueCat Webhook 事件套用到使用者的訂閱狀態
+   * 業務邏輯：
+   * - TEST、SUBSCRIBER_ALIAS 不影響訂閱狀態
+   * - 找不到使用者時跳過（RevenueCat 匿名 ID 尚未綁定帳號）
+   * - 比最後一次同步更舊的事件不覆寫狀態（Webhook 可能亂序送達）
+   * - 依事件更新對應產品的訂閱與 entitlement，並重新計算有效訂閱
+   */
+  async applyWebhookEvent(
+    event: RevenueCatWebhookEvent
+  ): Promise<SubscriptionSyncResult> {
+    if (STATELESS_EVENT_TYPES.includes(event.type)) {
+      return {
+        updated: false,
+        skippedReason: `${event.type} 事件不影響訂閱狀態`,
+      };
+    }
+
+    const user = await this.userRepository.findById(event.app_user_id);
+    if (!user) {
+      console.warn(
+        "找不到 Webhook 對應的使用者，跳過訂閱狀態同步:",
+        event.app_user_id
+      );
+      return { updated: false, skippedReason: "找不到使用者" };
+    }
+
+    const eventTime = new Date(event.event_timestamp_ms);
+    if (user.revenueCatLastSeen && user.revenueCatLastSeen > eventTime) {
+      console.log("Webhook 事件早於最後一次同步，跳過:", event.type);
+      return { updated: false, skippedReason: "事件早於最後一次同步" };
+    }
+
+    const state = this.buildSubscriptionState(user, event, new Date());
+    await this.userRepository.updateSubscriptionState(user.uid, state);
+
+    console.log(
+      `✅ 已同步 ${event.type} 訂閱狀態，有效訂閱:`,
+      state.activeSubscriptions
+    );
+
+    return { updated: true, activeSubscriptions: state.activeSubscriptions };
+  }
+
+  /**
+   * 依事件計算新的訂閱狀態
+   * @param user 使用者目前資料
+   * @param event RevenueCat 事件
+   * @param now 目前時間
+   * @returns 新的訂閱狀態
+   */
+  private buildSubscriptionState(
+    user: AppUser,
+    event: RevenueCatWebhookEvent,
+    now: Date
+  ): RevenueCatSubscriptionState {
+    const subscriptions = { ...(user.subscriptions ?? {}) };
+    const entitlements = { ...(user.entitlements ?? {}) };
+
+    const updated = this.applyEventToSubscription(
+      subscriptions[event.product_id],
+      event,
+      now
+    );
+    subscriptions[event.product_id] = updated;
+
+    for (const entitlementId of this.getEntitlementIds(event)) {
+      entitlements[entitlementId] = omitUndefined<EntitlementInfo>({
+        ...updated,
+        identifier: entitlementId,
+      });
+    }
+
+    const purchasedAt = new Date(event.purchased_at_ms);
+
+    return {
+      entitlements,
+      subscriptions,
+      activeSubscriptions: Object.values(subscriptions)
+        .filter((subscription) => subscription.isActive)
+        .map((subscription) => subscription.productIdentifier),
+      allPurchasedProductIds: Array.from(
+        new Set([...(user.allPurchasedProductIds ?? []), event.product_id])
+      ),
+      originalAppUserId:
+        event.original_app_user_id ||
+        user.originalAppUserId ||
+        event.app_user_id,
+      revenueCatFirstSeen: user.revenueCatFirstSeen ?? now,
+      revenueCatLastSeen: new Date(event.event_timestamp_ms),
+      revenueCatOriginalPurchaseDate:
+        user.revenueCatOriginalPurchaseDate ??
+        (event.purchased_at_ms > 0 ? purchasedAt : undefined),
+      revenueCatRequestDate: now,
+    };
+  }
+
+  /**
+   * 依事件類型更新單一產品的訂閱資訊
+   * - 購買、續訂、延長：依到期日重新啟用並清除取消 / 付款問題標記
+   * - CANCELLATION：不再續訂；客服退款時立即失效
+   * - UNCANCELLATION：恢復續訂
+   * - EXPIRATION：失效
+   * - BILLING_ISSUE：標記付款問題，寬限期內仍依到期日判斷是否有效
+   * - PRODUCT_CHANGE、SUBSCRIPTION_PAUSED：目前產品不再續訂（新產品由後續事件啟用）
+   */
+  private applyEventToSubscription(
+    existing: RevenueCatSubscription | undefined,
+    event: RevenueCatWebhookEvent,
+    now: Date
+  ): RevenueCatSubscription {
+    const eventTime = toISOString(event.event_timestamp_ms);
+    const isUnexpired =
+      !event.expiration_at_ms || event.expiration_at_ms > now.getTime();
+
+    const base: RevenueCatSubscription = {
+      identifier: event.product_id,
+      isActive: existing?.isActive ?? isUnexpired,
+      willRenew: existing?.willRenew ?? true,
+      periodType: event.period_type,
+      latestPurchaseDate: toISOString(event.purchased_at_ms),
+      originalPurchaseDate:
+        existing?.originalPurchaseDate ?? toISOString(event.purchased_at_ms),
+      expiresDate: toISOString(event.expiration_at_ms),
+      store: event.store,
+      productIdentifier: event.product_id,
+      isSandbox: event.environment === "SANDBOX" || event.is_sandbox === true,
+      unsubscribeDetectedAt: existing?.unsubscribeDetectedAt,
+      billingIssueDetectedAt: existing?.billingIssueDetectedAt,
+    };
+
+    switch (event.type) {
+      case "INITIAL_PURCHASE":
+      case "RENEWAL":
+      case "SUBSCRIPTION_EXTENDED":
+        return omitUndefined({
+          ...base,
+          isActive: isUnexpired,
+          willRenew: true,
+          unsubscribeDetectedAt: undefined,
+          billingIssueDetectedAt: undefined,
+        });
+      case "NON_RENEWING_PURCHASE":
+        return omitUndefined({
+          ...base,
+          isActive: isUnexpired,
+          willRenew: false,
+        });
+      case "CANCELLATION":
+        return omitUndefined({
+          ...base,
+          isActive:
+            event.cancel_reason === "CUSTOMER_SUPPORT" ? false : isUnexpired,
+          willRenew: false,
+          unsubscribeDetectedAt: eventTime,
+        });
+      case "UNCANCELLATION":
+        return omitUndefined({
+          ...base,
+          isActive: isUnexpired,
+          willRenew: true,
+          unsubscribeDetectedAt: undefined,
+        });
+      case "EXPIRATION":
+        return omitUndefined({ ...base, isActive: false, willRenew: false });
+      case "BILLING_ISSUE":
+        return omitUndefined({
+          ...base,
+          isActive: isUnexpired,
+          billingIssueDetectedAt: eventTime,
+        });
+      case "PRODUCT_CHANGE":
+      case "SUBSCRIPTION_PAUSED":
+        return omitUndefined({ ...base, willRenew: false });
+      default:
+        return omitUndefined(base);
+    }
+  }
+
+  /**
+   * 取得事件涉及的 entitlement ID
+   */
+  private getEntitlementIds(event: RevenueCatWebhookEvent): string[] {
+    if (event.entitlement_ids && event.entitlement_ids.length > 0) {
+      return event.entitlement_ids;
+    }
+    return event.entitlement_id ? [event.entitlement_id] : [];
+  }
+}
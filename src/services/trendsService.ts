@@ -0,0 +1,701 @@
+import { IDailyWorkoutRepository } from "../repositories/dailyWorkoutRepository";
+import { IDiaryRepository } from "../repositories/diaryRepository";
+import { IUserRepository } from "../repositories/userRepository";
+import { IWeightRepository } from "../repositories/weightRepository";
+import {
+  DataInsights,
+  DietRecord,
+  ExerciseRecord,
+  UserData,
+  WeightHistoryRecord,
+} from "../types/chat";
+import { DailyWorkout } from "../types/dailyWorkout";
+import { Diary, TaskStatus } from "../types/diary";
+import {
+  DailyTrendPoint,
+  MacroRatio,
+  NutritionAdherence,
+  NutritionTrendReport,
+  TrendDateRange,
+  WeeklyTrendPoint,
+} from "../types/trends";
+import { AppUser } from "../types/user";
+import { WeightEntry } from "../types/weight";
+import {
+  addDaysToLocalDate,
+  getLocalDateTime,
+  isValidTimeZone,
+  localTimeToDate,
+} from "../utils/timezone";
+
+/**
+ * Trends Service 介面 - 定義業務邏輯操作
+ */
+export interface ITrendsService {
+  /**
+   * 取得日期區間的營養趨勢報告
+   * @param userId 使用者 ID
+   * @param range 查詢區間（當地日期）
+   * @param timeZone IANA 時區，未提供時使用通知偏好中的時區
+   * @returns NutritionTrendReport 物件
+   */
+  getNutritionTrends(
+    userId: string,
+    range: TrendDateRange,
+    timeZone?: string
+  ): Promise<NutritionTrendReport>;
+
+  /**
+   * 取得日期區間的數據洞察（AI 健康報告使用）
+   * @param userId 使用者 ID
+   * @param range 查詢區間（當地日期）
+   * @param timeZone IANA 時區，未提供時使用通知偏好中的時區
+   * @returns DataInsights 物件
+   */
+  getDataInsights(
+    userId: string,
+    range: TrendDateRange,
+    timeZone?: string
+  ): Promise<DataInsights>;
+
+  /**
+   * 由 Firestore 資料組成 AI 健康報告使用的 UserData
+   * @param userId 使用者 ID
+   * @param range 查詢區間（當地日期）
+   * @param timeZone IANA 時區，未提供時使用通知偏好中的時區
+   * @returns UserData 物件
+   */
+  buildChatUserData(
+    userId: string,
+    range: TrendDateRange,
+    timeZone?: string
+  ): Promise<UserData>;
+}
+
+/**
+ * 解析後的查詢區間（使用者時區的當地日期）
+ */
+interface ResolvedTrendRange {
+  timeZone: string;
+  startDate: string; // 當地日期（包含）
+  endDate: string; // 當地日期（包含）
+  rangeStart: Date; // 起始日期的當地午夜
+  rangeEnd: Date; // 結束日期隔天的當地午夜（不包含）
+}
+
+/**
+ * 趨勢計算所需的區間資料
+ */
+interface TrendRangeData extends ResolvedTrendRange {
+  diaries: Diary[];
+  workouts: DailyWorkout[];
+  weights: WeightEntry[];
+  user: AppUser | null;
+}
+
+/**
+ * 淨熱量落在目標 ±10% 內視為達標
+ */
+const CALORIE_TARGET_TOLERANCE = 0.1;
+
+/**
+ * 1 公斤 = 2.20462 磅
+ */
+const LBS_PER_KG = 2.20462;
+
+/**
+ * 趨勢區間查詢的最大天數
+ */
+const MAX_TREND_RANGE_DAYS = 366;
+
+/**
+ * Trends Service - 業務邏輯層
+ * 以 Firestore 中實際儲存的 diary、運動與體重記錄計算營養趨勢，
+ * 取代過去由客戶端計算後上傳的 DataInsights
+ */
+export class TrendsService implements ITrendsService {
+  constructor(
+    private diaryRepository: IDiaryRepository,
+    private dailyWorkoutRepository: IDailyWorkoutRepository,
+    private weightRepository: IWeightRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  /**
+   * 取得日期區間的營養趨勢報告
+   * 業務邏輯：
+   * - 依使用者時區的當地日期分組（未指定時使用通知偏好的時區，預設 UTC），與營養摘要一致
+   * - 一次查詢區間內的 diary、運動與體重資料
+   * - 逐日彙整，再依週（週一開始）計算平均
+   * - 計算目標達成率與三大營養素熱量佔比
+   * - 產生 DataInsights 供 AI 健康報告使用
+   *
+   * @param userId 使用者 ID
+   * @param range 查詢區間（當地日期）
+   * @param timeZone IANA 時區，未提供時使用通知偏好中的時區
+   * @returns NutritionTrendReport 物件
+   */
+  async getNutritionTrends(
+    userId: string,
+    range: TrendDateRange,
+    timeZone?: string
+  ): Promise<NutritionTrendReport> {
+    const { user, period } = await this.resolveRange(userId, range, timeZone);
+
+    try {
+      const data = await this.loadRangeData(userId, period, user);
+      return this.buildReport(data);
+    } catch (error) {
+      console.error("Service: 計算營養趨勢時發生業務邏輯錯誤:", error);
+      throw new Error("計算營養趨勢失敗");
+    }
+  }
+
+  /**
+   * 取得日期區間的數據洞察
+   * 業務邏輯：
+   * - 與營養趨勢報告使用相同的計算，只回傳 insights 部分
+   *
+   * @param userId 使用者 ID
+   * @param range 查詢區間（當地日期）
+   * @param timeZone IANA 時區，未提供時使用通知偏好中的時區
+   * @returns DataInsights 物件
+   */
+  async getDataInsights(
+    userId: string,
+    range: TrendDateRange,
+    timeZone?: string
+  ): Promise<DataInsights> {
+    const report = await this.getNutritionTrends(userId, range, timeZone);
+    return report.insights;
+  }
+
+  /**
+   * 由 Firestore 資料組成 AI 健康報告使用的 UserData
+   * 業務邏輯：
+   * - 基本資訊與營養目標取自使用者資料
+   * - insights 與營養趨勢報告使用相同的計算
+   * - 飲食、運動、體重記錄只包含區間內的資料，按日期升序排列
+   * - 體重以使用者偏好的單位輸出
+   *
+   * @param userId 使用者 ID
+   * @param range 查詢區間（當地日期）
+   * @param timeZone IANA 時區，未提供時使用通知偏好中的時區
+   * @returns UserData 物件
+   */
+  async buildChatUserData(
+    userId: string,
+    range: TrendDateRange,
+    timeZone?: string
+  ): Promise<UserData> {
+    const { user, period } = await this.resolveRange(userId, range, timeZone);
+
+    try {
+      const data = await this.loadRangeData(userId, period, user);
+      const report = this.buildReport(data);
+
+      const weightUnit = this.isLbs(user?.preferWeightUnit) ? "lbs" : "kg";
+      const toDisplay = (kg: number) =>
+        this.round(weightUnit === "lbs" ? kg * LBS_PER_KG : kg);
+
+      const weighedDays = report.days.filter((day) => day.weight !== null);
+      const latestWeightKg = weighedDays.length
+        ? weighedDays[weighedDays.length - 1].weight
+        : null;
+
+      const dietRecords: DietRecord[] = data.diaries
+        .filter((diary) => this.isInRange(diary.diaryDate, data))
+        .filter((diary) => !diary.isDeleted)
+        .filter((diary) => diary.status !== TaskStatus.FAILED)
+        .sort((a, b) => a.diaryDate.getTime() - b.diaryDate.getTime())
+        .map((diary) => ({
+          id: diary.id,
+          date: this.dateToKey(diary.diaryDate, data.timeZone),
+          name: diary.name,
+          image: diary.stickerImg || null,
+          calories: this.round(diary.calories || 0),
+          protein: this.round(diary.protein || 0),
+          carbs: this.round(diary.carbs || 0),
+          fat: this.round(diary.fat || 0),
+        }));
+
+      const exerciseRecords: ExerciseRecord[] = data.workouts
+        .filter((workout) => this.isInRange(workout.diaryDate, data))
+        .sort((a, b) => a.diaryDate.getTime() - b.diaryDate.getTime())
+        .map((workout) => ({
+          date: this.dateToKey(workout.diaryDate, data.timeZone),
+          steps: workout.steps || 0,
+          totalCaloriesBurned: this.round(workout.totalCaloriesBurned || 0),
+          exerciseList: [
+            ...workout.manualWorkouts,
+            ...(workout.healthkitWorkouts || []),
+          ].map((exercise) => ({
+            type: exercise.type,
+            duration: exercise.duration || 0,
+            caloriesBurned: this.round(exercise.caloriesBurned || 0),
+          })),
+        }));
+
+      const weightHistory: WeightHistoryRecord[] = weighedDays.map((day) => ({
+        date: day.date,
+        weight: toDisplay(day.weight as number),
+        weightUnit,
+      }));
+
+      return {
+        basicInfo: {
+          age: this.calculateAge(user?.age),
+          height: user?.height ?? undefined,
+          currentWeight:
+            latestWeightKg !== null ? toDisplay(latestWeightKg) : undefined,
+          targetWeight: user?.targetWeight
+            ? toDisplay(user.targetWeight)
+            : undefined,
+          initWeight: user?.initWeight ? toDisplay(user.initWeight) : undefined,
+          gender: user?.gender ?? undefined,
+          goal: user?.goal ?? undefined,
+          activityLevel: user?.activityLevel ?? undefined,
+          weightUnit,
+          heightUnit: "cm",
+          tdee: user?.tdee ?? undefined,
+          bmr: user?.bmr ?? undefined,
+        },
+        nutritionGoals: {
+          userTargetCalories: user?.targetCalories ?? undefined,
+          bestTargetCalories: user?.tdee ?? undefined,
+          userTargetProtein: user?.targetProtein ?? undefined,
+          userTargetCarbs: user?.targetCarb ?? undefined,
+          userTargetFat: user?.targetFat ?? undefined,
+        },
+        insights: report.insights,
+        dietRecords,
+        exerciseRecords,
+        weightHistory,
+      };
+    } catch (error) {
+      console.error(
+        "Service: 組成健康報告使用者數據時發生業務邏輯錯誤:",
+        error
+      );
+      throw new Error("組成健康報告使用者數據失敗");
+    }
+  }
+
+  /**
+   * 驗證查詢參數並解析為當地日期區間
+   * - 時區未指定時使用通知偏好中的時區，預設 UTC
+   * - 結束日期預設為當地的今天，起始日期預設由結束日期往前推算
+   */
+  private async resolveRange(
+    userId: string,
+    range: TrendDateRange,
+    timeZone?: string
+  ): Promise<{
+    user: AppUser | null;
+    period: ResolvedTrendRange;
+  }> {
+    // 業務邏輯驗證
+    if (!userId || userId.trim() === "") {
+      throw new Error("使用者 ID 不能為空");
+    }
+
+    if (
+      (range.startDate !== undefined && !this.isDateKey(range.startDate)) ||
+      (range.endDate !== undefined && !this.isDateKey(range.endDate))
+    ) {
+      throw new Error("提供的日期格式無效");
+    }
+
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      throw new Error("無效的時區");
+    }
+
+    const user = await this.userRepository.findById(userId);
+    const zone = timeZone ?? user?.notificationSettings?.timezone ?? "UTC";
+
+    const endDate = range.endDate ?? getLocalDateTime(new Date(), zone).date;
+    const startDate =
+      range.startDate ?? addDaysToLocalDate(endDate, -(range.days - 1));
+
+    if (startDate > endDate) {
+      throw new Error("無效的日期範圍：起始日期不能晚於結束日期");
+    }
+
+    if (addDaysToLocalDate(startDate, MAX_TREND_RANGE_DAYS) <= endDate) {
+      throw new Error(
+        `無效的日期範圍：最多只能查詢 ${MAX_TREND_RANGE_DAYS} 天`
+      );
+    }
+
+    return {
+      user,
+      period: {
+        timeZone: zone,
+        startDate,
+        endDate,
+        rangeStart: localTimeToDate(startDate, 0, zone),
+        rangeEnd: localTimeToDate(addDaysToLocalDate(endDate, 1), 0, zone),
+      },
+    };
+  }
+
+  /**
+   * 查詢區間內的 diary、運動與體重資料
+   */
+  private async loadRangeData(
+    userId: string,
+    period: ResolvedTrendRange,
+    user: AppUser | null
+  ): Promise<TrendRangeData> {
+    // 委派給 Repository 執行資料查詢（彼此互不相依，並行查詢）
+    const [diaries, workouts, weights] = await Promise.all([
+      this.diaryRepository.findByUser(
+        userId,
+        period.rangeStart,
+        period.rangeEnd
+      ),
+      this.dailyWorkoutRepository.findByUser(
+        userId,
+        period.rangeStart,
+        period.rangeEnd
+      ),
+      this.weightRepository.getWeight(userId, period.rangeStart),
+    ]);
+
+    return { ...period, diaries, workouts, weights, user };
+  }
+
+  /**
+   * 由區間資料建立營養趨勢報告
+   */
+  private buildReport(data: TrendRangeData): NutritionTrendReport {
+    const days = this.buildDailyPoints(data);
+    const trackedDays = days.filter((day) => day.diaryCount > 0);
+
+    return {
+      startDate: data.startDate,
+      endDate: data.endDate,
+      totalDays: days.length,
+      days,
+      weeks: this.buildWeeklyPoints(days),
+      adherence: this.calculateAdherence(trackedDays, data.user),
+      macroRatio: this.calculateMacroRatio(trackedDays),
+      insights: this.calculateInsights(days, trackedDays, data.user),
+    };
+  }
+
+  /**
+   * 判斷日期是否落在查詢區間內
+   */
+  private isInRange(date: Date, data: TrendRangeData): boolean {
+    return date >= data.rangeStart && date < data.rangeEnd;
+  }
+
+  /**
+   * AppUser.age 儲存的是出生年份（例如 1998），轉換為年齡
+   */
+  private calculateAge(birthYear?: number | null): number | undefined {
+    if (!birthYear) {
+      return undefined;
+    }
+    return birthYear > 1900 ? new Date().getFullYear() - birthYear : birthYear;
+  }
+
+  /**
+   * 逐日彙整 diary、運動與體重記錄（依使用者時區的當地日期）
+   * 區間內沒有記錄的日期仍會產生資料點（數值為 0）
+   */
+  private buildDailyPoints(data: TrendRangeData): DailyTrendPoint[] {
+    const diariesByDate = new Map<string, Diary[]>();
+    for (const diary of data.diaries) {
+      if (diary.isDeleted || !this.isInRange(diary.diaryDate, data)) {
+        continue;
+      }
+      const key = this.dateToKey(diary.diaryDate, data.timeZone);
+      const list = diariesByDate.get(key) || [];
+      list.push(diary);
+      diariesByDate.set(key, list);
+    }
+
+    const workoutsByDate = new Map<string, DailyWorkout>();
+    for (const workout of data.workouts) {
+      if (!this.isInRange(workout.diaryDate, data)) {
+        continue;
+      }
+      workoutsByDate.set(
+        this.dateToKey(workout.diaryDate, data.timeZone),
+        workout
+      );
+    }
+
+    // 同一天有多筆體重記錄時以最後建立的為準
+    const weightsByDate = new Map<string, WeightEntry>();
+    for (const entry of data.weights) {
+      const existing = weightsByDate.get(entry.dateId);
+      if (!existing || existing.createdAt < entry.createdAt) {
+        weightsByDate.set(entry.dateId, entry);
+      }
+    }
+
+    const points: DailyTrendPoint[] = [];
+    for (
+      let key = data.startDate;
+      key <= data.endDate;
+      key = addDaysToLocalDate(key, 1)
+    ) {
+      const dayDiaries = diariesByDate.get(key) || [];
+      const workout = workoutsByDate.get(key);
+      const weightEntry = weightsByDate.get(key);
+
+      const calories = this.sum(dayDiaries.map((d) => d.calories || 0));
+      const caloriesBurned = workout?.totalCaloriesBurned || 0;
+
+      points.push({
+        date: key,
+        diaryCount: dayDiaries.length,
+        calories: this.round(calories),
+        protein: this.round(this.sum(dayDiaries.map((d) => d.protein || 0))),
+        carbs: this.round(this.sum(dayDiaries.map((d) => d.carbs || 0))),
+        fat: this.round(this.sum(dayDiaries.map((d) => d.fat || 0))),
+        caloriesBurned: this.round(caloriesBurned),
+        netCalories: this.round(calories - caloriesBurned),
+        steps: workout?.steps || 0,
+        exerciseCount: workout
+          ? workout.manualWorkouts.length +
+            (workout.healthkitWorkouts?.length || 0)
+          : 0,
+        weight: weightEntry ? this.round(this.toKg(weightEntry)) : null,
+      });
+    }
+
+    return points;
+  }
+
+  /**
+   * 依週分組計算平均值（週一為一週的開始）
+   * 平均攝取量只計算有飲食記錄的天數
+   */
+  private buildWeeklyPoints(days: DailyTrendPoint[]): WeeklyTrendPoint[] {
+    const weeks = new Map<string, DailyTrendPoint[]>();
+    for (const day of days) {
+      const weekStart = this.startOfWeek(day.date);
+      const list = weeks.get(weekStart) || [];
+      list.push(day);
+      weeks.set(weekStart, list);
+    }
+
+    return Array.from(weeks.entries()).map(([weekStart, weekDays]) => {
+      const tracked = weekDays.filter((day) => day.diaryCount > 0);
+      const weighed = weekDays.filter((day) => day.weight !== null);
+      return {
+        weekStart,
+        weekEnd: addDaysToLocalDate(weekStart, 6),
+        trackedDays: tracked.length,
+        averageCalories: this.average(tracked.map((d) => d.calories)),
+        averageProtein: this.average(tracked.map((d) => d.protein)),
+        averageCarbs: this.average(tracked.map((d) => d.carbs)),
+        averageFat: this.average(tracked.map((d) => d.fat)),
+        totalCaloriesBurned: this.round(
+          this.sum(weekDays.map((d) => d.caloriesBurned))
+        ),
+        averageWeight:
+          weighed.length > 0
+            ? this.average(weighed.map((d) => d.weight as number))
+            : null,
+      };
+    });
+  }
+
+  /**
+   * 計算目標達成率
+   * - 各營養素：有記錄天數的平均攝取量佔目標的百分比
+   * - 熱量達標天數：淨熱量落在目標 ±10% 內的天數
+   */
+  private calculateAdherence(
+    trackedDays: DailyTrendPoint[],
+    user: AppUser | null
+  ): NutritionAdherence {
+    const percentOf = (values: number[], target?: number | null) => {
+      if (!target || trackedDays.length === 0) {
+        return null;
+      }
+      return this.round((this.sum(values) / values.length / target) * 100);
+    };
+
+    const targetCalories = user?.targetCalories;
+    const daysOnCalorieTarget = targetCalories
+      ? trackedDays.filter(
+          (day) =>
+            Math.abs(day.netCalories - targetCalories) <=
+            targetCalories * CALORIE_TARGET_TOLERANCE
+        ).length
+      : 0;
+
+    return {
+      calories: percentOf(
+        trackedDays.map((d) => d.netCalories),
+        targetCalories
+      ),
+      protein: percentOf(
+        trackedDays.map((d) => d.protein),
+        user?.targetProtein
+      ),
+      carbs: percentOf(
+        trackedDays.map((d) => d.carbs),
+        user?.targetCarb
+      ),
+      fat: percentOf(
+        trackedDays.map((d) => d.fat),
+        user?.targetFat
+      ),
+      daysOnCalorieTarget,
+      daysOnCalorieTargetPercent:
+        targetCalories && trackedDays.length > 0
+          ? this.round((daysOnCalorieTarget / trackedDays.length) * 100)
+          : null,
+    };
+  }
+
+  /**
+   * 計算三大營養素的熱量佔比
+   * 蛋白質與碳水化合物每克 4 大卡，脂肪每克 9 大卡
+   */
+  private calculateMacroRatio(trackedDays: DailyTrendPoint[]): MacroRatio {
+    const proteinKcal = this.sum(trackedDays.map((d) => d.protein)) * 4;
+    const carbsKcal = this.sum(trackedDays.map((d) => d.carbs)) * 4;
+    const fatKcal = this.sum(trackedDays.map((d) => d.fat)) * 9;
+    const total = proteinKcal + carbsKcal + fatKcal;
+
+    if (total === 0) {
+      return { protein: 0, carbs: 0, fat: 0 };
+    }
+
+    return {
+      protein: this.round((proteinKcal / total) * 100),
+      carbs: this.round((carbsKcal / total) * 100),
+      fat: this.round((fatKcal / total) * 100),
+    };
+  }
+
+  /**
+   * 計算 DataInsights
+   * 體重相關數值以公斤計算，輸出時轉換為使用者偏好的體重單位
+   */
+  private calculateInsights(
+    days: DailyTrendPoint[],
+    trackedDays: DailyTrendPoint[],
+    user: AppUser | null
+  ): DataInsights {
+    const totalWeeks = days.length / 7;
+    const totalExerciseTimes = this.sum(days.map((d) => d.exerciseCount));
+    const stepDays = days.filter((d) => d.steps > 0);
+
+    const insights: DataInsights = {
+      averageDailyCalories: this.average(trackedDays.map((d) => d.calories)),
+      averageDailyProtein: this.average(trackedDays.map((d) => d.protein)),
+      averageDailyCarbs: this.average(trackedDays.map((d) => d.carbs)),
+      averageDailyFat: this.average(trackedDays.map((d) => d.fat)),
+      totalExerciseTimes,
+      averageExercisePerWeek: this.round(totalExerciseTimes / totalWeeks),
+      averageDailySteps: Math.round(this.average(stepDays.map((d) => d.steps))),
+      totalFoodTrackedDays: trackedDays.length,
+    };
+
+    // 體重變化：區間內第一筆與最後一筆體重記錄的差
+    const weighedDays = days.filter((d) => d.weight !== null);
+    const displayInLbs = this.isLbs(user?.preferWeightUnit);
+    const toDisplay = (kg: number) =>
+      this.round(displayInLbs ? kg * LBS_PER_KG : kg);
+
+    let weeklyChangeKg = 0;
+    if (weighedDays.length >= 2) {
+      const first = weighedDays[0];
+      const last = weighedDays[weighedDays.length - 1];
+      const totalChangeKg = (last.weight as number) - (first.weight as number);
+      const spanDays =
+        (Date.parse(`${last.date}T00:00:00Z`) -
+          Date.parse(`${first.date}T00:00:00Z`)) /
+        86400000;
+      // 不足一週時以一週計算，避免短期波動被放大
+      weeklyChangeKg = totalChangeKg / Math.max(spanDays / 7, 1);
+
+      insights.totalChange = toDisplay(totalChangeKg);
+      insights.weeklyAverageChange = toDisplay(weeklyChangeKg);
+    }
+
+    // 預估達成目標體重所需週數
+    const targetWeightKg = user?.targetWeight;
+    if (weighedDays.length > 0 && targetWeightKg) {
+      const latestWeightKg = weighedDays[weighedDays.length - 1]
+        .weight as number;
+      const remainingKg = targetWeightKg - latestWeightKg;
+
+      // 以實際趨勢推估：只有在朝目標方向變化時才有意義
+      if (remainingKg !== 0 && weeklyChangeKg * remainingKg > 0) {
+        insights.weeksToGoal = this.round(remainingKg / weeklyChangeKg);
+      }
+
+      // 以使用者設定的每週減重/增重速度推估
+      if (user?.weightSpeedPerWeek && user.weightSpeedPerWeek > 0) {
+        insights.bestWeeksToGoal = this.round(
+          Math.abs(remainingKg) / user.weightSpeedPerWeek
+        );
+      }
+    }
+
+    return insights;
+  }
+
+  /**
+   * 將體重記錄轉換為公斤
+   */
+  private toKg(entry: WeightEntry): number {
+    return this.isLbs(entry.unit) ? entry.weight / LBS_PER_KG : entry.weight;
+  }
+
+  /**
+   * 判斷體重單位是否為磅
+   */
+  private isLbs(unit?: string | null): boolean {
+    return !!unit && unit.toLowerCase().startsWith("lb");
+  }
+
+  /**
+   * 取得日期所在週的週一（YYYY-MM-DD）
+   */
+  private startOfWeek(key: string): string {
+    const offset = (new Date(`${key}T00:00:00Z`).getUTCDay() + 6) % 7; // 週一為 0
+    return addDaysToLocalDate(key, -offset);
+  }
+
+  /**
+   * 將時間轉換為時區中的當地日期 YYYY-MM-DD
+   */
+  private dateToKey(date: Date, timeZone: string): string {
+    return getLocalDateTime(date, timeZone).date;
+  }
+
+  /**
+   * 檢查是否為有效的 YYYY-MM-DD 日期
+   */
+  private isDateKey(date: string): boolean {
+    return (
+      /^\d{4}-\d{2}-\d{2}$/.test(date) && addDaysToLocalDate(date, 0) === date
+    );
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+  }
+
+  private average(values: number[]): number {
+    return values.length > 0 ? this.round(this.sum(values) / values.length) : 0;
+  }
+
+  /**
+   * 四捨五入到小數點後一位
+   */
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
@@ -0,0 +1,100 @@
+import { IWebhookEventRepository } from "../repositories/webhookEventRepository";
+import { WebhookEventClaim, WebhookSource } from "../types/webhookEvent";
+
+/**
+ * 處理中的事件超過此時間視為中斷，允許重送的請求接手
+ */
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Webhook Event Service 介面 - 定義業務邏輯操作
+ */
+export interface IWebhookEventService {
+  /**
+   * 開始處理事件
+   * @param source Webhook 來源
+   * @param eventId 事件 ID
+   * @param eventType 事件類型
+   * @returns new / duplicate / in_progress
+   */
+  claim(
+    source: WebhookSource,
+    eventId: string,
+    eventType: string
+  ): Promise<WebhookEventClaim>;
+
+  /**
+   * 事件處理完成
+   * @param source Webhook 來源
+   * @param eventId 事件 ID
+   */
+  complete(source: WebhookSource, eventId: string): Promise<void>;
+
+  /**
+   * 事件處理失敗，釋放紀錄讓重送的事件重新處理
+   * @param source Webhook 來源
+   * @param eventId 事件 ID
+   */
+  release(source: WebhookSource, eventId: string): Promise<void>;
+}
+
+/**
+ * Webhook Event Service - Webhook 冪等處理
+ * 確保重送的事件不會重複寄信或重複套用狀態變更
+ */
+export class WebhookEventService implements IWebhookEventService {
+  constructor(private webhookEventRepository: IWebhookEventRepository) {}
+
+  /**
+   * 開始處理事件
+   * 業務邏輯：
+   * - 第一次收到：寫入 processing 紀錄並返回 new
+   * - 已處理完成：返回 duplicate
+   * - 處理中且未逾時：返回 in_progress（讓來源稍後重送）
+   * - 處理中但已逾時：接手處理並返回 new
+   */
+  async claim(
+    source: WebhookSource,
+    eventId: string,
+    eventType: string
+  ): Promise<WebhookEventClaim> {
+    const now = new Date();
+
+    const inserted = await this.webhookEventRepository.insertIfAbsent({
+      source,
+      eventId,
+      eventType,
+      status: "processing",
+      receivedAt: now,
+      processedAt: null,
+    });
+    if (inserted) {
+      return "new";
+    }
+
+    const existing = await this.webhookEventRepository.find(source, eventId);
+    if (existing?.status === "processed") {
+      return "duplicate";
+    }
+
+    const reclaimed = await this.webhookEventRepository.reclaimStale(
+      source,
+      eventId,
+      new Date(now.getTime() - PROCESSING_TIMEOUT_MS),
+      now
+    );
+    return reclaimed ? "new" : "in_progress";
+  }
+
+  async complete(source: WebhookSource, eventId: string): Promise<void> {
+    await this.webhookEventRepository.markProcessed(
+      source,
+      eventId,
+      new Date()
+    );
+  }
+
+  async release(source: WebhookSource, eventId: string): Promise<void> {
+    await this.webhookEventRepository.delete(source, eventId);
+  }
+}
@@ -2,11 +2,13 @@ import type { Context } from "hono";
 import type { FirestoreClient } from "firebase-rest-firestore";
 import type { IStorageService } from "./services/storageService";
 import type { Env } from "./bindings";
+import type { UserRole } from "./types/admin";
 
 export type AppContext = Context<{ 
   Bindings: Env,
   Variables: {
     userId?: string;
+    userRole?: UserRole;
     firestoreClient?: FirestoreClient;
     storageService?: IStorageService;
   }
@@ -0,0 +1,278 @@
+import { z } from "zod";
+import { AIUsageSummary, AIUsageSummarySchema } from "./aiUsage";
+import { AppUser, AppUserSchema } from "./user";
+
+// 使用者角色：admin 可使用 /admin 路由（Firebase custom claim 或 ADMIN_USER_IDS 設定）
+export type UserRole = "user" | "admin";
+
+// 食譜審核操作：unpublish 從公開食譜下架（作者仍可看到）、delete 軟刪除
+export type RecipeModerationAction = "unpublish" | "delete";
+
+/**
+ * 管理員查詢使用者時顯示的裝置資訊（不含 FCM Token）
+ */
+export interface AdminDevice {
+  deviceId: string;
+  platform: string;
+  language: string;
+  appVersion: string;
+  lastActive: Date;
+  createdAt: Date;
+}
+
+export const AdminDeviceSchema = z.object({
+  deviceId: z.string(),
+  platform: z.string(),
+  language: z.string(),
+  appVersion: z.string(),
+  lastActive: z.date(),
+  createdAt: z.date(),
+});
+
+/**
+ * 管理員查詢的使用者詳細資料
+ */
+export interface AdminUserDetail {
+  user: AppUser;
+  devices: AdminDevice[];
+  aiUsage: AIUsageSummary;
+}
+
+export const AdminUserDetailSchema = z.object({
+  user: AppUserSchema,
+  devices: z.array(AdminDeviceSchema),
+  aiUsage: AIUsageSummarySchema,
+});
+
+// Schema for looking up a user（uid 與 email 擇一）
+export const AdminUserLookupQuerySchema = z.object({
+  uid: z.string().min(1).optional().describe("使用者 UID"),
+  email: z.string().email().optional().describe("使用者 email（完全相符）"),
+});
+
+export type AdminUserLookupQuery = z.infer<typeof AdminUserLookupQuerySchema>;
+
+// Schema for moderating a recipe
+export const ModerateRecipeSchema = z.object({
+  action: z
+    .enum(["unpublish", "delete"])
+    .describe("unpublish 從公開食譜下架，delete 軟刪除食譜"),
+  reason: z
+    .string()
+    .min(1, "審核原因不能為空")
+    .max(500, "審核原因不能超過 500 字")
+    .describe("審核原因，會記錄在稽核紀錄"),
+});
+
+export type ModerateRecipeRequest = z.infer<typeof ModerateRecipeSchema>;
+
+// Schema for backfilling recipe fields (favorite counts, search keys)
+export const BackfillRecipesSchema = z.object({
+  cursor: z
+    .string()
+    .optional()
+    .describe("上一批回傳的 nextCursor，未提供時從第一筆食譜開始"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(50)
+    .describe("本批處理的食譜數量"),
+});
+
+export type BackfillRecipesRequest = z.infer<typeof BackfillRecipesSchema>;
+
+/**
+ * 食譜欄位回填結果
+ */
+export interface RecipeBackfillResult {
+  processed: number;
+  nextCursor: string | null; // null 代表所有食譜都已處理
+}
+
+export const RecipeBackfillResultSchema = z.object({
+  processed: z.number().int(),
+  nextCursor: z.string().nullable(),
+});
+
+// Schema for backfilling push device metadata from existing FCM tokens
+export const BackfillPushDevicesSchema = z.object({
+  cursor: z
+    .string()
+    .optional()
+    .describe("上一批回傳的 nextCursor，未提供時從第一位使用者開始"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(50)
+    .describe("本批處理的使用者數量"),
+});
+
+export type BackfillPushDevicesRequest = z.infer<
+  typeof BackfillPushDevicesSchema
+>;
+
+/**
+ * 推播裝置資訊回填結果
+ */
+export interface PushDeviceBackfillResult {
+  processed: number; // 處理的使用者數
+  devices: number; // 寫入的裝置數
+  nextCursor: string | null; // null 代表所有使用者都已處理
+}
+
+export const PushDeviceBackfillResultSchema = z.object({
+  processed: z.number().int(),
+  devices: z.number().int(),
+  nextCursor: z.string().nullable(),
+});
+
+/**
+ * 管理操作稽核紀錄
+ * D1 資料表：admin_audit_logs
+ */
+export interface AdminAuditLog {
+  id: string;
+  adminUserId: string;
+  action: string; // 例如 recipe.unpublish、recipe.delete
+  targetType: string;
+  targetId: string;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export const AdminAuditLogSchema = z.object({
+  id: z.string(),
+  adminUserId: z.string(),
+  action: z.string(),
+  targetType: z.string(),
+  targetId: z.string(),
+  reason: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+/**
+ * 營運指標（各項依狀態統計筆數）
+ */
+export interface AdminMetrics {
+  generatedAt: Date;
+  /** 推播與 Webhook 統計的起始時間 */
+  since: Date;
+  pushDeliveries: {
+    byStatus: Record<string, number>;
+    byType: Record<string, Record<string, number>>;
+    tokensRemoved: number;
+  };
+  aiUsage: {
+    date: string; // YYYY-MM-DD（UTC）
+    requests: number;
+    activeUsers: number;
+    byEndpoint: Record<string, number>;
+  };
+  webhookEvents: {
+    byStatus: Record<string, number>;
+  };
+  scheduledEmails: {
+    byStatus: Record<string, number>;
+  };
+  promotions: {
+    byStatus: Record<string, number>;
+  };
+}
+
+const StatusCountsSchema = z.record(z.string(), z.number().int());
+
+export const AdminMetricsSchema = z.object({
+  generatedAt: z.date(),
+  since: z.date(),
+  pushDeliveries: z.object({
+    byStatus: StatusCountsSchema,
+    byType: z.record(z.string(), StatusCountsSchema),
+    tokensRemoved: z.number().int(),
+  }),
+  aiUsage: z.object({
+    date: z.string(),
+    requests: z.number().int(),
+    activeUsers: z.number().int(),
+    byEndpoint: StatusCountsSchema,
+  }),
+  webhookEvents: z.object({
+    byStatus: StatusCountsSchema,
+  }),
+  scheduledEmails: z.object({
+    byStatus: StatusCountsSchema,
+  }),
+  promotions: z.object({
+    byStatus: StatusCountsSchema,
+  }),
+});
+
+// Response schemas
+export const AdminUserDetailResponseSchema = z.object({
+  success: z.boolean(),
+  result: AdminUserDetailSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const AdminAuditLogResponseSchema = z.object({
+  success: z.boolean(),
+  result: AdminAuditLogSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const AdminAuditLogListResponseSchema = z.object({
+  success: z.boolean(),
+  result: z.array(AdminAuditLogSchema).optional(),
+  error: z.string().optional(),
+});
+
+export const AdminMetricsResponseSchema = z.object({
+  success: z.boolean(),
+  result: AdminMetricsSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const RecipeBackfillResponseSchema = z.object({
+  success: z.boolean(),
+  result: RecipeBackfillResultSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const PushDeviceBackfillResponseSchema = z.object({
+  success: z.boolean(),
+  result: PushDeviceBackfillResultSchema.optional(),
+  error: z.string().optional(),
+});
+
+/**
+ * D1 admin_audit_logs 資料列
+ */
+export interface AdminAuditLogRow {
+  id: string;
+  admin_user_id: string;
+  action: string;
+  target_type: string;
+  target_id: string;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * 將 D1 資料列轉換為 AdminAuditLog 物件的輔助函數
+ * @param row D1 資料列
+ * @returns 經過適當類型轉換的 AdminAuditLog 物件
+ */
+export const convertRowToAdminAuditLog = (
+  row: AdminAuditLogRow
+): AdminAuditLog => ({
+  id: row.id,
+  adminUserId: row.admin_user_id,
+  action: row.action,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  reason: row.reason,
+  createdAt: new Date(row.created_at),
+});
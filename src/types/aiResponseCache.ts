@@ -0,0 +1,49 @@
+/**
+ * AI 回應快取項目
+ * D1 資料表：ai_response_cache
+ */
+export interface AIResponseCacheEntry {
+  cacheKey: string; // SHA-256(功能 + 語言 + 提示詞版本 + 正規化輸入)
+  capability: string;
+  language: string;
+  promptVersion: string;
+  normalizedInput: string;
+  response: unknown; // AI 分析結果（以 JSON 儲存）
+  hitCount: number;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * D1 ai_response_cache 資料列
+ */
+export interface AIResponseCacheRow {
+  cache_key: string;
+  capability: string;
+  language: string;
+  prompt_version: string;
+  normalized_input: string;
+  response: string;
+  hit_count: number;
+  created_at: string;
+  expires_at: string;
+}
+
+/**
+ * 將 D1 資料列轉換為 AIResponseCacheEntry 物件的輔助函數
+ * @param row D1 資料列
+ * @returns 經過適當類型轉換的 AIResponseCacheEntry 物件
+ */
+export const convertRowToAIResponseCacheEntry = (
+  row: AIResponseCacheRow
+): AIResponseCacheEntry => ({
+  cacheKey: row.cache_key,
+  capability: row.capability,
+  language: row.language,
+  promptVersion: row.prompt_version,
+  normalizedInput: row.normalized_input,
+  response: JSON.parse(row.response),
+  hitCount: row.hit_count,
+  createdAt: new Date(row.created_at),
+  expiresAt: new Date(row.expires_at),
+});
@@ -0,0 +1,98 @@
+import { z } from "zod";
+
+// 計量的 AI 端點（對應 /gemini 下的路由）
+export const AI_USAGE_ENDPOINTS = [
+  "add-meal",
+  "analyze-images",
+  "analyze-label",
+  "add-recipe",
+  "add-ingredient",
+  "add-recipe-ingredient",
+  "edit-recipe",
+  "chat",
+  "translate-ingredient",
+  "generate-meal-plan",
+] as const;
+
+export type AIUsageEndpoint = (typeof AI_USAGE_ENDPOINTS)[number];
+
+export const AIUsageEndpointSchema = z.enum(AI_USAGE_ENDPOINTS);
+
+// 使用者方案：free 為免費方案，premium 為 RevenueCat 有任一有效 entitlement
+export type AIUsageTier = "free" | "premium";
+
+export const AIUsageTierSchema = z.enum(["free", "premium"]);
+
+/**
+ * 單一 AI 端點的當日使用量
+ */
+export interface AIEndpointUsage {
+  endpoint: AIUsageEndpoint;
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export const AIEndpointUsageSchema = z.object({
+  endpoint: AIUsageEndpointSchema,
+  used: z.number().int(),
+  limit: z.number().int(),
+  remaining: z.number().int(),
+});
+
+/**
+ * 使用者當日 AI 使用量摘要
+ */
+export interface AIUsageSummary {
+  date: string; // YYYY-MM-DD（UTC）
+  tier: AIUsageTier;
+  resetAt: Date; // 下一個 UTC 午夜
+  endpoints: AIEndpointUsage[];
+}
+
+export const AIUsageSummarySchema = z.object({
+  date: z.string(),
+  tier: AIUsageTierSchema,
+  resetAt: z.date(),
+  endpoints: z.array(AIEndpointUsageSchema),
+});
+
+/**
+ * 超過配額時返回的配額資訊
+ */
+export interface AIQuotaInfo extends AIEndpointUsage {
+  tier: AIUsageTier;
+  resetAt: Date;
+}
+
+// Response schemas for API
+export const AIUsageResponseSchema = z.object({
+  success: z.boolean(),
+  result: AIUsageSummarySchema.optional(),
+  error: z.string().optional(),
+});
+
+export const AIQuotaExceededResponseSchema = z.object({
+  success: z.boolean().default(false),
+  errors: z.array(
+    z.object({
+      code: z.number(),
+      message: z.string(),
+    })
+  ),
+  quota: AIEndpointUsageSchema.extend({
+    tier: AIUsageTierSchema,
+    resetAt: z.date(),
+  }),
+});
+
+/**
+ * D1 ai_usage 資料列
+ */
+export interface AIUsageRow {
+  user_id: string;
+  usage_date: string;
+  endpoint: string;
+  count: number;
+  updated_at: string;
+}
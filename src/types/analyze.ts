@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { NutritionTotals, NutritionTotalsSchema } from "./diary";
 
 /**
  * 圖片分析結果介面
@@ -11,9 +12,48 @@ export interface ImageAnalysisResult {
   fat: number;
   ingredients: AnalyzeIngredientItem[];
   health_assessment: AnalyzeHealthAssessment;
+  nutritionCorrections?: NutritionCorrection[];
   error?: string;
 }
 
+/**
+ * 營養素校正原因
+ * - invalid_value：負數，歸零
+ * - out_of_range：超過單一食材的合理上限，截斷
+ * - exceeds_amount：三大營養素總重超過食材重量，等比例縮小
+ * - calorie_formula：熱量不符合 蛋白質×4 + 碳水×4 + 脂肪×9
+ * - total_mismatch：外層總計不等於食材加總
+ */
+export type NutritionCorrectionReason =
+  | "invalid_value"
+  | "out_of_range"
+  | "exceeds_amount"
+  | "calorie_formula"
+  | "total_mismatch";
+
+/**
+ * 營養素校正紀錄（回傳給客戶端，說明 AI 結果被修正的欄位）
+ */
+export interface NutritionCorrection {
+  field: string; // 例如 "calories"、"ingredients[1].fat"
+  original: number;
+  corrected: number;
+  reason: NutritionCorrectionReason;
+}
+
+export const NutritionCorrectionSchema = z.object({
+  field: z.string(),
+  original: z.number(),
+  corrected: z.number(),
+  reason: z.enum([
+    "invalid_value",
+    "out_of_range",
+    "exceeds_amount",
+    "calorie_formula",
+    "total_mismatch",
+  ]),
+});
+
 /**
  * 圖片分析食材項目介面
  */
@@ -86,6 +126,7 @@ export const AnalyzeImagesResponseSchema = z.object({
         pros: z.array(z.string()).optional(),
         cons: z.array(z.string()).optional(),
       }),
+      nutritionCorrections: z.array(NutritionCorrectionSchema).optional(),
     })
     .optional(),
   error: z.string().optional(),
@@ -380,6 +421,7 @@ export interface RecipeAnalysisResult {
   steps: RecipeStep[];
   tags: RecipeTag[];
   recipeHealthAssessment: RecipeHealthAssessment;
+  nutritionCorrections?: NutritionCorrection[];
   error?: string;
 }
 
@@ -536,6 +578,7 @@ export const AddRecipeResponseSchema = z.object({
           })
           .optional(),
       }),
+      nutritionCorrections: z.array(NutritionCorrectionSchema).optional(),
     })
     .optional(),
   error: z.string().optional(),
@@ -1122,3 +1165,142 @@ export const addRecipeJsonSchema = {
     "recipeHealthAssessment",
   ],
 };
+
+/**
+ * 營養標示的營養素數值（null 表示標示上沒有此欄位）
+ */
+export interface LabelNutrients {
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+}
+
+/**
+ * 包裝食品營養標示分析結果介面
+ */
+export interface ProductLabelAnalysisResult {
+  name: string;
+  brand: string | null;
+  servingSize: number | null; // 每份的重量或容量
+  servingUnit: "g" | "ml";
+  servingsPerContainer: number | null; // 每包裝份數
+  per100g: LabelNutrients | null; // 每 100g / 100ml
+  perServing: LabelNutrients | null;
+  error?: string;
+}
+
+const labelNutrientsJsonSchema = {
+  type: "object",
+  properties: {
+    calories: {
+      type: "number",
+      description: "熱量（kcal）；標示僅有 kJ 時請除以 4.184 換算",
+    },
+    protein: {
+      type: "number",
+      description: "蛋白質（克）",
+    },
+    carbs: {
+      type: "number",
+      description: "碳水化合物（克）",
+    },
+    fat: {
+      type: "number",
+      description: "脂肪（克）",
+    },
+  },
+  required: ["calories", "protein", "carbs", "fat"],
+};
+
+/**
+ * 包裝食品營養標示分析的 JSON Schema (用於 Gemini AI Function Calling)
+ */
+export const analyzeProductLabelJsonSchema = {
+  type: "object",
+  description: "包裝食品營養標示的結構化數據",
+  properties: {
+    name: {
+      type: "string",
+      description: "商品名稱，使用用戶指定的語言；包裝上沒有名稱時依內容物命名",
+    },
+    brand: {
+      type: "string",
+      description: "品牌名稱，維持包裝上的原文；無法辨識時留空字串",
+    },
+    servingSize: {
+      type: "number",
+      description: "每份的重量或容量數值；標示上沒有每份資訊時為 0",
+    },
+    servingUnit: {
+      type: "string",
+      enum: ["g", "ml"],
+      description: "servingSize 與每 100 單位數值的單位，飲料通常為 ml",
+    },
+    servingsPerContainer: {
+      type: "number",
+      description:
+        "每包裝份數（例如「本包裝含 4 份」、「servings per container」）；標示上沒有時為 0",
+    },
+    per100g: {
+      ...labelNutrientsJsonSchema,
+      description: "每 100g（或 100ml）的營養素，標示上沒有此欄時省略",
+    },
+    perServing: {
+      ...labelNutrientsJsonSchema,
+      description: "每份的營養素，標示上沒有此欄時省略",
+    },
+    error: {
+      type: "string",
+      description: "錯誤訊息（當圖片不是營養標示或無法辨識時使用）",
+    },
+  },
+  required: ["name", "servingUnit"],
+};
+
+/**
+ * 營養標示分析結果介面（含使用者選擇的食用量）
+ * calories / protein / carbs / fat 為實際食用量的營養素
+ */
+export interface NutritionLabelAnalysisResult {
+  name: string;
+  brand: string | null;
+  servingSize: number | null;
+  servingUnit: "g" | "ml";
+  servingsPerContainer: number | null;
+  per100g: NutritionTotals | null;
+  perServing: NutritionTotals | null;
+  servings: number | null; // 食用份數
+  amount: number | null; // 食用重量或容量（servingUnit）
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+/**
+ * AnalyzeLabel 回應 Schema
+ */
+export const AnalyzeLabelResponseSchema = z.object({
+  success: z.boolean(),
+  result: z
+    .object({
+      name: z.string(),
+      brand: z.string().nullable(),
+      servingSize: z.number().nullable(),
+      servingUnit: z.enum(["g", "ml"]),
+      servingsPerContainer: z.number().nullable(),
+      per100g: NutritionTotalsSchema.nullable(),
+      perServing: NutritionTotalsSchema.nullable(),
+      servings: z.number().nullable(),
+      amount: z.number().nullable(),
+      calories: z.number(),
+      protein: z.number(),
+      carbs: z.number(),
+      fat: z.number(),
+    })
+    .optional(),
+  error: z.string().optional(),
+});
+
+export type AnalyzeLabelResponse = z.infer<typeof AnalyzeLabelResponseSchema>;
@@ -551,9 +551,41 @@ export const NumberResponseSchema = z.object({
 });
 
 // Chat API Request/Response Schemas
+/**
+ * 用戶數據來源
+ * - client：使用請求中的 userData
+ * - server：由伺服器從 Firestore 組成 userData，忽略請求中的 userData
+ * 未指定時，生成健康報告使用 server（舊版 App 不會傳 dataSource），一般對話使用 client
+ */
+export type UserDataSource = "client" | "server";
+
+export const UserDataSourceSchema = z.enum(["client", "server"]);
+
+/**
+ * 決定聊天請求的用戶數據來源
+ * @param dataSource 請求指定的來源
+ * @param generateReport 是否生成健康報告
+ * @returns 用戶數據來源
+ */
+export function resolveUserDataSource(
+  dataSource: UserDataSource | undefined,
+  generateReport: boolean
+): UserDataSource {
+  return dataSource ?? (generateReport ? "server" : "client");
+}
+
 export const ChatRequestSchema = z.object({
   input: z.string().optional(),
-  userData: UserDataSchema,
+  userData: UserDataSchema.optional(),
+  dataSource: UserDataSourceSchema.optional().describe(
+    "用戶數據來源，未指定時生成健康報告使用 server，一般對話使用 client"
+  ),
+  reportDays: z.coerce
+    .number()
+    .int()
+    .min(1, "reportDays 最少為 1 天")
+    .max(90, "reportDays 最多為 90 天")
+    .default(30),
   user_language: z.string().default("zh_TW"),
   historyJson: z.string().default("[]"),
   generateReport: z.boolean().default(false),
@@ -190,6 +190,22 @@ export const CreateDiarySchema = DiarySchema.omit({
   updatedAt: true,
 });
 
+// Schema for creating a diary from N servings of a recipe
+export const CreateDiaryFromRecipeSchema = z.object({
+  id: z.string().optional(), // 前端產生的 diary ID，未提供時由 Firestore 產生
+  recipeId: z.string().min(1, "食譜 ID 不能為空"),
+  servings: z
+    .number()
+    .positive("份數必須大於 0")
+    .max(100, "份數不能超過 100"),
+  diaryDate: FirestoreDateSchema,
+  language: z.string().default("zh_TW"), // 用於選擇食譜名稱與食材名稱的語言
+});
+
+export type CreateDiaryFromRecipeRequest = z.infer<
+  typeof CreateDiaryFromRecipeSchema
+>;
+
 // Schema for updating a diary (all fields optional)
 // export const UpdateDiarySchema = DiarySchema.partial();
 
@@ -205,3 +221,66 @@ export const DiaryListResponseSchema = z.object({
   result: z.array(DiarySchema).optional(),
   error: z.string().optional(),
 });
+
+// 營養素總量 interface - 用於每日營養摘要
+export interface NutritionTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+// 營養目標 interface - 對應 AppUser 的 targetCalories/targetProtein/targetCarb/targetFat
+export interface NutritionTargets {
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+}
+
+// 每日營養摘要 interface - 彙整當日 diary、運動消耗與使用者目標
+export interface DailyNutritionSummary {
+  date: string; // YYYY-MM-DD
+  diaryCount: number;
+  consumed: NutritionTotals;
+  caloriesBurned: number;
+  netCalories: number; // consumed.calories - caloriesBurned
+  targets: NutritionTargets;
+  remaining: NutritionTargets; // 目標減去已攝取（熱量以 netCalories 計算），無目標時為 null
+}
+
+export const NutritionTotalsSchema = z.object({
+  calories: z.number(),
+  protein: z.number(),
+  carbs: z.number(),
+  fat: z.number(),
+});
+
+export const NutritionTargetsSchema = z.object({
+  calories: z.number().nullable(),
+  protein: z.number().nullable(),
+  carbs: z.number().nullable(),
+  fat: z.number().nullable(),
+});
+
+export const DailyNutritionSummarySchema = z.object({
+  date: z.string(),
+  diaryCount: z.number(),
+  consumed: NutritionTotalsSchema,
+  caloriesBurned: z.number(),
+  netCalories: z.number(),
+  targets: NutritionTargetsSchema,
+  remaining: NutritionTargetsSchema,
+});
+
+export const DailyNutritionSummaryResponseSchema = z.object({
+  success: z.boolean(),
+  result: DailyNutritionSummarySchema.optional(),
+  error: z.string().optional(),
+});
+
+export const DailyNutritionSummaryListResponseSchema = z.object({
+  success: z.boolean(),
+  result: z.array(DailyNutritionSummarySchema).optional(),
+  error: z.string().optional(),
+});
@@ -27,7 +27,10 @@ export type EmailType =
   | 'cancellation_feedback'  // 取消訂閱回饋
   | 'welcome'                // 歡迎郵件
   | 'confirmation'           // 確認郵件
-  | 'notification';          // 通知郵件
+  | 'notification'           // 通知郵件
+  | 'billing_issue'          // 訂閱付款問題
+  | 'trial_ending'           // 試用即將結束提醒
+  | 'win_back';              // 訂閱到期後的挽回郵件
 
 /**
  * 郵件模板數據
@@ -43,6 +46,10 @@ export interface EmailTemplateData {
   feedbackUrl?: string;
   /** 重新訂閱連結 */
   resubscribeUrl?: string;
+  /** 管理訂閱（更新付款方式、取消）連結 */
+  manageSubscriptionUrl?: string;
+  /** 試用結束日期 */
+  trialEndDate?: string;
   /** 自定義內容 */
   customContent?: string;
   /** 其他動態屬性 */
@@ -78,6 +78,45 @@ export interface FcmTokenData {
   createdAt: Date;
 }
 
+// 推播通知內容
+export interface PushNotification {
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, string>; // FCM data payload 只接受字串值
+}
+
+// 推播內容，或依裝置（例如語言）產生推播內容的函式
+export type PushNotificationInput =
+  | PushNotification
+  | ((token: FcmTokenData) => PushNotification);
+
+// 單一 Token 推播結果
+export interface PushSendResult {
+  success: boolean;
+  messageId?: string;
+  errorCode?: string; // FCM 錯誤碼，例如 UNREGISTERED、INVALID_ARGUMENT
+  error?: string;
+  invalidToken?: boolean; // FCM 回報 Token 已失效（收到時刪除該 Token）
+}
+
+// 推播到單一裝置的結果
+export interface PushDeliveryResult extends PushSendResult {
+  deviceId: string;
+  platform: string;
+  tokenRemoved: boolean; // Token 已失效並被刪除
+}
+
+// 推播到使用者所有裝置的結果
+export interface PushDeliverySummary {
+  userId: string;
+  total: number;
+  delivered: number;
+  failed: number;
+  removedTokens: number;
+  results: PushDeliveryResult[];
+}
+
 // Zod schema for NotificationTemplate
 export const NotificationTemplateSchema = z.object({
   title: z.string(),
@@ -156,11 +195,34 @@ export interface FcmTokenListResponse extends ApiResponse<FcmTokenData[]> {}
 export interface DeleteTokensResponse
   extends ApiResponse<{ deletedCount: number }> {}
 
+// 工具函式：依語言從多語系內容中選擇
+// 先完整比對（zh_TW、pt-br），再以語言前綴比對（ja_JP → ja），最後使用 fallbackLanguage
+export function resolveLocalizedContent<T>(
+  contents: Record<string, T>,
+  language: string,
+  fallbackLanguage: string = "en"
+): T {
+  if (contents[language]) {
+    return contents[language];
+  }
+
+  const normalized = language.replace("-", "_").toLowerCase();
+  const matchedKey = Object.keys(contents).find(
+    (key) => key.replace("-", "_").toLowerCase() === normalized
+  );
+  if (matchedKey) {
+    return contents[matchedKey];
+  }
+
+  const baseLanguage = normalized.split("_")[0];
+  return contents[baseLanguage] || contents[fallbackLanguage];
+}
+
 // 工具函式：根據語言獲取飲食提醒模板
 export function getMealReminderTemplate(
   language: string
 ): NotificationTemplate {
-  return NotificationTemplates[language] || NotificationTemplates["en"];
+  return resolveLocalizedContent(NotificationTemplates, language);
 }
 
 // 工具函式：將 FcmTokenData 轉換為 Firestore 格式
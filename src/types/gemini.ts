@@ -1,4 +1,7 @@
 import { z } from "zod";
+import { NutritionCorrection, NutritionCorrectionSchema } from "./analyze";
+import { RecipeTag, RecipeTagSchema } from "./recipe";
+import { GoalType } from "./user";
 
 /**
  * 食材項目介面
@@ -35,6 +38,7 @@ export interface MealAnalysisResult {
   fat: number;
   ingredients: IngredientItem[];
   health_assessment: HealthAssessment;
+  nutritionCorrections?: NutritionCorrection[];
   error?: string;
 }
 
@@ -149,6 +153,7 @@ export const AddMealResponseSchema = z.object({
         pros: z.array(z.string()).optional(),
         cons: z.array(z.string()).optional(),
       }),
+      nutritionCorrections: z.array(NutritionCorrectionSchema).optional(),
     })
     .optional(),
   error: z.string().optional(),
@@ -897,3 +902,225 @@ export const editRecipeJsonSchema = {
   },
   required: ["name", "description", "steps"],
 };
+
+/**
+ * 餐點計畫生成的候選餐點（使用者收藏食物或公開食譜）
+ * 營養素皆為「每份」數值
+ */
+export interface MealPlanCandidate {
+  sourceType: "recipe" | "favFood";
+  sourceId: string;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  tags: string[];
+}
+
+/**
+ * 餐點計畫生成的輸入資料 - 由伺服器依使用者資料組成
+ */
+export interface MealPlanGenerationContext {
+  startDate: string; // YYYY-MM-DD
+  days: number;
+  targets: {
+    calories: number | null;
+    protein: number | null;
+    carbs: number | null;
+    fat: number | null;
+  };
+  goal: GoalType | null;
+  dietaryTags: RecipeTag[];
+  candidates: MealPlanCandidate[];
+}
+
+/**
+ * AI 生成的單一餐點
+ * sourceType 為 custom 時表示候選清單以外的建議餐點，sourceId 為 null
+ */
+export interface GeneratedMealPlanMeal {
+  slot: "breakfast" | "lunch" | "dinner" | "snack";
+  sourceType: "recipe" | "favFood" | "custom";
+  sourceId: string | null;
+  name: string;
+  servings: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+/**
+ * AI 生成的單日餐點計畫
+ */
+export interface GeneratedMealPlanDay {
+  date: string; // YYYY-MM-DD
+  meals: GeneratedMealPlanMeal[];
+  totalCalories: number;
+  totalProtein: number;
+  totalCarbs: number;
+  totalFat: number;
+}
+
+/**
+ * 餐點計畫生成結果介面
+ */
+export interface GeneratedMealPlanResult {
+  days: GeneratedMealPlanDay[];
+  summary: string;
+  error?: string;
+}
+
+/**
+ * GenerateMealPlan 請求 Schema
+ */
+export const GenerateMealPlanRequestSchema = z.object({
+  days: z
+    .number()
+    .int()
+    .min(1, "天數至少為 1 天")
+    .max(7, "天數最多為 7 天")
+    .default(7),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式必須為 YYYY-MM-DD")
+    .optional(),
+  dietaryTags: z.array(RecipeTagSchema).default([]),
+  user_language: z.string().optional().default("zh_TW"),
+});
+
+export type GenerateMealPlanRequest = z.infer<typeof GenerateMealPlanRequestSchema>;
+
+const GeneratedMealPlanMealSchema = z.object({
+  slot: z.enum(["breakfast", "lunch", "dinner", "snack"]),
+  sourceType: z.enum(["recipe", "favFood", "custom"]),
+  sourceId: z.string().nullable(),
+  name: z.string(),
+  servings: z.number(),
+  calories: z.number(),
+  protein: z.number(),
+  carbs: z.number(),
+  fat: z.number(),
+});
+
+/**
+ * GenerateMealPlan 回應 Schema
+ */
+export const GenerateMealPlanResponseSchema = z.object({
+  success: z.boolean(),
+  result: z
+    .object({
+      days: z.array(
+        z.object({
+          date: z.string(),
+          meals: z.array(GeneratedMealPlanMealSchema),
+          totalCalories: z.number(),
+          totalProtein: z.number(),
+          totalCarbs: z.number(),
+          totalFat: z.number(),
+        })
+      ),
+      summary: z.string(),
+    })
+    .optional(),
+  error: z.string().optional(),
+});
+
+export type GenerateMealPlanResponse = z.infer<typeof GenerateMealPlanResponseSchema>;
+
+/**
+ * 餐點計畫生成的 JSON Schema (用於 Gemini AI Function Calling)
+ */
+export const generateMealPlanJsonSchema = {
+  type: "object",
+  description: "多日餐點計畫的結構化數據",
+  properties: {
+    days: {
+      type: "array",
+      description: "每日餐點計畫，依日期排序，天數必須與要求相同",
+      items: {
+        type: "object",
+        properties: {
+          date: {
+            type: "string",
+            description: "日期，格式為 YYYY-MM-DD",
+          },
+          meals: {
+            type: "array",
+            description: "當日餐點，至少包含早餐、午餐、晚餐",
+            items: {
+              type: "object",
+              properties: {
+                slot: {
+                  type: "string",
+                  enum: ["breakfast", "lunch", "dinner", "snack"],
+                  description: "餐別",
+                },
+                sourceType: {
+                  type: "string",
+                  enum: ["recipe", "favFood", "custom"],
+                  description:
+                    "餐點來源：recipe 為候選公開食譜、favFood 為使用者收藏食物、custom 為候選清單以外的建議",
+                },
+                sourceId: {
+                  type: "string",
+                  description:
+                    "候選餐點的 ID，必須與候選清單完全相同；sourceType 為 custom 時留空字串",
+                },
+                name: {
+                  type: "string",
+                  description: "餐點名稱，使用用戶指定的語言",
+                },
+                servings: {
+                  type: "number",
+                  description: "份數，可為 0.5 的倍數",
+                },
+                calories: {
+                  type: "number",
+                  description:
+                    "此餐點的總熱量（已乘上份數），必須等於 (protein × 4) + (carbs × 4) + (fat × 9)",
+                },
+                protein: {
+                  type: "number",
+                  description: "此餐點的總蛋白質含量（克）",
+                },
+                carbs: {
+                  type: "number",
+                  description: "此餐點的總碳水化合物含量（克）",
+                },
+                fat: {
+                  type: "number",
+                  description: "此餐點的總脂肪含量（克）",
+                },
+              },
+              required: [
+                "slot",
+                "sourceType",
+                "sourceId",
+                "name",
+                "servings",
+                "calories",
+                "protein",
+                "carbs",
+                "fat",
+              ],
+            },
+            minItems: 3,
+          },
+        },
+        required: ["date", "meals"],
+      },
+      minItems: 1,
+    },
+    summary: {
+      type: "string",
+      description: "計畫重點說明，最多 3 句，使用用戶指定的語言",
+    },
+    error: {
+      type: "string",
+      description: "無法生成計畫時的錯誤訊息",
+    },
+  },
+  required: ["days", "summary"],
+};
@@ -0,0 +1,161 @@
+import { z } from "zod";
+import {
+  FirestoreDateSchema,
+  NutritionTargets,
+  NutritionTargetsSchema,
+  NutritionTotals,
+  NutritionTotalsSchema,
+  firestoreTimestampToDate,
+} from "./diary";
+
+// 餐別時段
+export type MealSlot = "breakfast" | "lunch" | "dinner" | "snack";
+
+export const MealSlotSchema = z.enum(["breakfast", "lunch", "dinner", "snack"]);
+
+// 餐點計畫來源：食譜或收藏食物（FoodEntry）
+export type MealPlanSourceType = "recipe" | "favFood";
+
+export const MealPlanSourceTypeSchema = z.enum(["recipe", "favFood"]);
+
+const DateKeySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式必須為 YYYY-MM-DD");
+
+/**
+ * 餐點計畫項目
+ * Firebase 集合路徑：users/{userId}/meal_plans
+ */
+export interface MealPlanEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  slot: MealSlot;
+  sourceType: MealPlanSourceType;
+  sourceId: string; // 食譜 ID 或收藏食物 ID
+  servings: number; // 食譜為份數，收藏食物為 FoodEntry.portions 的份數
+  name: string; // 建立時依語言取得的名稱快照
+  imgUrl?: string | null;
+  language: string; // 記錄為 diary 時使用的語言
+  perServing: NutritionTotals; // 每份營養素快照
+  loggedDiaryId?: string | null; // 已記錄為 diary 時的 diary ID
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const MealPlanEntrySchema = z.object({
+  id: z.string(),
+  date: z.string(),
+  slot: MealSlotSchema,
+  sourceType: MealPlanSourceTypeSchema,
+  sourceId: z.string(),
+  servings: z.number(),
+  name: z.string(),
+  imgUrl: z.string().nullable().optional(),
+  language: z.string(),
+  perServing: NutritionTotalsSchema,
+  loggedDiaryId: z.string().nullable().optional(),
+  createdAt: FirestoreDateSchema,
+  updatedAt: FirestoreDateSchema,
+});
+
+/**
+ * 單日餐點計畫 - 包含預估營養與使用者目標的比較
+ */
+export interface MealPlanDay {
+  date: string; // YYYY-MM-DD
+  entries: MealPlanEntry[];
+  projected: NutritionTotals; // 當日所有計畫項目的營養素加總
+  targets: NutritionTargets;
+  remaining: NutritionTargets; // 目標減去預估攝取，無目標時為 null
+}
+
+export const MealPlanDaySchema = z.object({
+  date: z.string(),
+  entries: z.array(MealPlanEntrySchema),
+  projected: NutritionTotalsSchema,
+  targets: NutritionTargetsSchema,
+  remaining: NutritionTargetsSchema,
+});
+
+// Request schemas
+export const CreateMealPlanEntrySchema = z.object({
+  date: DateKeySchema.describe("計畫日期（今天或未來）"),
+  slot: MealSlotSchema,
+  sourceType: MealPlanSourceTypeSchema,
+  sourceId: z.string().min(1, "來源 ID 不能為空"),
+  servings: z
+    .number()
+    .positive("份數必須大於 0")
+    .max(100, "份數不能超過 100")
+    .default(1),
+  language: z.string().default("zh_TW"),
+});
+
+export type CreateMealPlanEntryRequest = z.infer<
+  typeof CreateMealPlanEntrySchema
+>;
+
+export const UpdateMealPlanEntrySchema = z.object({
+  date: DateKeySchema.optional(),
+  slot: MealSlotSchema.optional(),
+  servings: z
+    .number()
+    .positive("份數必須大於 0")
+    .max(100, "份數不能超過 100")
+    .optional(),
+});
+
+export type UpdateMealPlanEntryRequest = z.infer<
+  typeof UpdateMealPlanEntrySchema
+>;
+
+// Query parameters for meal plans
+export const MealPlanQuerySchema = z.object({
+  startDate: DateKeySchema.optional().describe("起始日期（包含），預設為今天"),
+  endDate: DateKeySchema.optional().describe(
+    "結束日期（包含），預設為起始日期後 6 天"
+  ),
+});
+
+// Response schemas for API
+export const MealPlanEntryResponseSchema = z.object({
+  success: z.boolean(),
+  result: MealPlanEntrySchema.optional(),
+  error: z.string().optional(),
+});
+
+export const MealPlanDayListResponseSchema = z.object({
+  success: z.boolean(),
+  result: z.array(MealPlanDaySchema).optional(),
+  error: z.string().optional(),
+});
+
+/**
+ * 將 Firestore 文件轉換為 MealPlanEntry 物件的輔助函數
+ * @param doc Firestore 文件
+ * @returns 經過適當類型轉換的 MealPlanEntry 物件
+ */
+export const convertFirestoreDocToMealPlanEntry = (doc: any): MealPlanEntry => {
+  const data = doc.data();
+
+  return {
+    id: doc.id,
+    date: data.date,
+    slot: data.slot,
+    sourceType: data.sourceType,
+    sourceId: data.sourceId,
+    servings: data.servings || 1,
+    name: data.name || "",
+    imgUrl: data.imgUrl ?? null,
+    language: data.language || "zh_TW",
+    perServing: {
+      calories: data.perServing?.calories || 0,
+      protein: data.perServing?.protein || 0,
+      carbs: data.perServing?.carbs || 0,
+      fat: data.perServing?.fat || 0,
+    },
+    loggedDiaryId: data.loggedDiaryId ?? null,
+    createdAt: firestoreTimestampToDate(data.createdAt),
+    updatedAt: firestoreTimestampToDate(data.updatedAt),
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * 飲食提醒排程
+ * D1 資料表：meal_reminder_schedules
+ */
+export interface MealReminderSchedule {
+  userId: string;
+  /** IANA 時區，例如 Asia/Taipei */
+  timezone: string;
+  /** 當地提醒時間 HH:mm */
+  reminderTimes: string[];
+  enabled: boolean;
+  /** 下一次提醒的時間，null 表示沒有要發送的提醒 */
+  nextReminderAt: Date | null;
+  /** 最後一次發送的提醒（當地日期 + 時間，例如 2026-10-19 12:00），避免重複發送 */
+  lastSentSlot: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * 寫入飲食提醒排程的資料（由使用者通知偏好同步，見 NotificationSettingsService）
+ */
+export type UpsertMealReminderScheduleInput = Pick<
+  MealReminderSchedule,
+  "userId" | "timezone" | "reminderTimes" | "enabled" | "nextReminderAt"
+>;
+
+/**
+ * 發送飲食提醒的結果
+ */
+export interface MealReminderRunResult {
+  /** 檢查的使用者數 */
+  checked: number;
+  /** 已發送提醒的使用者數 */
+  reminded: number;
+  /** 上一次提醒後已記錄飲食而跳過的使用者數 */
+  skippedLogged: number;
+  /** 排程延遲超過比對範圍而跳過的提醒數 */
+  skippedLate: number;
+  /** 沒有 FCM Token 而跳過的使用者數 */
+  skippedNoToken: number;
+  /** 成功送達的推播數 */
+  delivered: number;
+  /** 發送失敗的推播數 */
+  failed: number;
+}
+
+/**
+ * D1 meal_reminder_schedules 資料列
+ */
+export interface MealReminderScheduleRow {
+  user_id: string;
+  timezone: string;
+  reminder_times: string;
+  enabled: number;
+  next_reminder_at: string | null;
+  last_sent_slot: string | null;
+  updated_at: string;
+}
+
+/**
+ * 將 D1 資料列轉換為 MealReminderSchedule 物件的輔助函數
+ * @param row D1 資料列
+ * @returns 經過適當類型轉換的 MealReminderSchedule 物件
+ */
+export const convertRowToMealReminderSchedule = (
+  row: MealReminderScheduleRow
+): MealReminderSchedule => ({
+  userId: row.user_id,
+  timezone: row.timezone,
+  reminderTimes: JSON.parse(row.reminder_times) as string[],
+  enabled: row.enabled === 1,
+  nextReminderAt: row.next_reminder_at ? new Date(row.next_reminder_at) : null,
+  lastSentSlot: row.last_sent_slot,
+  updatedAt: new Date(row.updated_at),
+});
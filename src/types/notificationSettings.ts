@@ -0,0 +1,180 @@
+import { z } from "zod";
+import { isValidTimeZone, parseTimeOfDay } from "../utils/timezone";
+import { NotificationType } from "./fcmToken";
+
+// 可個別開關的通知類型
+export const CONFIGURABLE_NOTIFICATION_TYPES = [
+  NotificationType.MEAL_REMINDER,
+  NotificationType.PROMOTION,
+  NotificationType.GENERAL,
+] as const;
+
+export type ConfigurableNotificationType =
+  (typeof CONFIGURABLE_NOTIFICATION_TYPES)[number];
+
+// 當地時間 HH:mm（24 小時制）
+export const TimeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "時間格式必須為 HH:mm");
+
+// IANA 時區，例如 Asia/Taipei
+export const TimeZoneSchema = z.string().refine(isValidTimeZone, "無效的時區");
+
+/**
+ * 每餐的提醒時間（當地時間 HH:mm），null 表示不提醒
+ */
+export interface MealReminderTimes {
+  breakfast: string | null;
+  lunch: string | null;
+  dinner: string | null;
+}
+
+export const MealReminderTimesSchema = z.object({
+  breakfast: TimeOfDaySchema.nullable(),
+  lunch: TimeOfDaySchema.nullable(),
+  dinner: TimeOfDaySchema.nullable(),
+});
+
+/**
+ * 勿擾時段（當地時間），start 晚於 end 表示跨越午夜，例如 22:00 - 07:00
+ */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export const QuietHoursSchema = z.object({
+  start: TimeOfDaySchema,
+  end: TimeOfDaySchema,
+});
+
+/**
+ * 各通知類型是否接收
+ */
+export type NotificationOptIns = Record<ConfigurableNotificationType, boolean>;
+
+export const NotificationOptInsSchema = z.object({
+  [NotificationType.MEAL_REMINDER]: z.boolean(),
+  [NotificationType.PROMOTION]: z.boolean(),
+  [NotificationType.GENERAL]: z.boolean(),
+});
+
+/**
+ * 使用者通知偏好
+ * Firestore：users/{uid} 的 notificationSettings 欄位
+ */
+export interface NotificationSettings {
+  timezone: string;
+  mealReminderTimes: MealReminderTimes;
+  quietHours: QuietHours | null;
+  optIns: NotificationOptIns;
+}
+
+export const NotificationSettingsSchema = z.object({
+  timezone: TimeZoneSchema,
+  mealReminderTimes: MealReminderTimesSchema,
+  quietHours: QuietHoursSchema.nullable(),
+  optIns: NotificationOptInsSchema,
+});
+
+// Schema for updating notification settings（所有欄位可選，巢狀物件部分更新）
+export const UpdateNotificationSettingsSchema = z.object({
+  timezone: TimeZoneSchema.optional(),
+  mealReminderTimes: MealReminderTimesSchema.partial().optional(),
+  quietHours: QuietHoursSchema.nullable().optional(),
+  optIns: NotificationOptInsSchema.partial().optional(),
+});
+
+export type UpdateNotificationSettingsRequest = z.infer<
+  typeof UpdateNotificationSettingsSchema
+>;
+
+// Response schemas
+export const NotificationSettingsResponseSchema = z.object({
+  success: z.boolean(),
+  result: NotificationSettingsSchema.optional(),
+  error: z.string().optional(),
+});
+
+// 預設通知偏好：未設定提醒時間；飲食提醒與一般通知預設接收，優惠推播需使用者主動開啟
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  timezone: "UTC",
+  mealReminderTimes: { breakfast: null, lunch: null, dinner: null },
+  quietHours: null,
+  optIns: {
+    [NotificationType.MEAL_REMINDER]: true,
+    [NotificationType.PROMOTION]: false,
+    [NotificationType.GENERAL]: true,
+  },
+};
+
+// 工具函式：從 Firestore 資料轉換為 NotificationSettings，缺少或無效的欄位使用預設值
+export function notificationSettingsFromFirestore(
+  data: any
+): NotificationSettings {
+  const defaults = DEFAULT_NOTIFICATION_SETTINGS;
+  const timeOrNull = (value: any): string | null =>
+    typeof value === "string" && parseTimeOfDay(value) !== null ? value : null;
+  const optIn = (type: ConfigurableNotificationType): boolean =>
+    typeof data?.optIns?.[type] === "boolean"
+      ? data.optIns[type]
+      : defaults.optIns[type];
+
+  const quietStart = timeOrNull(data?.quietHours?.start);
+  const quietEnd = timeOrNull(data?.quietHours?.end);
+
+  return {
+    timezone:
+      typeof data?.timezone === "string" && isValidTimeZone(data.timezone)
+        ? data.timezone
+        : defaults.timezone,
+    mealReminderTimes: {
+      breakfast: timeOrNull(data?.mealReminderTimes?.breakfast),
+      lunch: timeOrNull(data?.mealReminderTimes?.lunch),
+      dinner: timeOrNull(data?.mealReminderTimes?.dinner),
+    },
+    quietHours:
+      quietStart && quietEnd ? { start: quietStart, end: quietEnd } : null,
+    optIns: {
+      [NotificationType.MEAL_REMINDER]: optIn(NotificationType.MEAL_REMINDER),
+      [NotificationType.PROMOTION]: optIn(NotificationType.PROMOTION),
+      [NotificationType.GENERAL]: optIn(NotificationType.GENERAL),
+    },
+  };
+}
+
+// 工具函式：檢查當地時間（自午夜起的分鐘數）是否在勿擾時段內
+export function isWithinQuietHours(
+  quietHours: QuietHours | null,
+  localMinutes: number
+): boolean {
+  if (!quietHours) {
+    return false;
+  }
+
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+
+  return start < end
+    ? localMinutes >= start && localMinutes < end
+    : localMinutes >= start || localMinutes < end;
+}
+
+// 工具函式：取得實際要發送的飲食提醒時間（排除未設定與落在勿擾時段內的時間）
+export function getActiveMealReminderTimes(
+  settings: NotificationSettings
+): string[] {
+  if (!settings.optIns[NotificationType.MEAL_REMINDER]) {
+    return [];
+  }
+
+  const times = Object.values(settings.mealReminderTimes).filter(
+    (time): time is string =>
+      time !== null &&
+      !isWithinQuietHours(settings.quietHours, parseTimeOfDay(time) ?? 0)
+  );
+  return Array.from(new Set(times)).sort();
+}
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { NutritionTotals, NutritionTotalsSchema } from "./diary";
+
+// 商品資料來源：AI 營養標示分析或人工建立
+export type ProductSource = "ai_label" | "manual";
+
+export const ProductSourceSchema = z.enum(["ai_label", "manual"]);
+
+/**
+ * 包裝食品
+ * D1 資料表：products
+ */
+export interface Product {
+  barcode: string; // EAN-8 / UPC-A / EAN-13 / GTIN-14
+  name: string;
+  brand: string | null;
+  servingSize: number | null; // 每份的重量或容量
+  servingUnit: "g" | "ml";
+  per100g: NutritionTotals | null; // 每 100g / 100ml
+  perServing: NutritionTotals | null;
+  source: ProductSource;
+  createdBy: string | null; // 建立商品的使用者 ID
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ProductSchema = z.object({
+  barcode: z.string(),
+  name: z.string(),
+  brand: z.string().nullable(),
+  servingSize: z.number().nullable(),
+  servingUnit: z.enum(["g", "ml"]),
+  per100g: NutritionTotalsSchema.nullable(),
+  perServing: NutritionTotalsSchema.nullable(),
+  source: ProductSourceSchema,
+  createdBy: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Path parameters for barcode endpoints
+export const BarcodeParamsSchema = z.object({
+  ean: z
+    .string()
+    .regex(/^\d{8}$|^\d{12,14}$/, "條碼必須為 8、12、13 或 14 位數字")
+    .describe("商品條碼（EAN-8、UPC-A、EAN-13 或 GTIN-14）"),
+});
+
+// Response schemas for API
+export const ProductResponseSchema = z.object({
+  success: z.boolean(),
+  result: ProductSchema.optional(),
+  error: z.string().optional(),
+});
+
+/**
+ * D1 products 資料列
+ */
+export interface ProductRow {
+  barcode: string;
+  name: string;
+  brand: string | null;
+  serving_size: number | null;
+  serving_unit: string;
+  calories_100g: number | null;
+  protein_100g: number | null;
+  carbs_100g: number | null;
+  fat_100g: number | null;
+  calories_serving: number | null;
+  protein_serving: number | null;
+  carbs_serving: number | null;
+  fat_serving: number | null;
+  source: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 將 D1 資料列轉換為 Product 物件的輔助函數
+ * @param row D1 資料列
+ * @returns 經過適當類型轉換的 Product 物件
+ */
+export const convertRowToProduct = (row: ProductRow): Product => {
+  const toNutrients = (
+    calories: number | null,
+    protein: number | null,
+    carbs: number | null,
+    fat: number | null
+  ): NutritionTotals | null =>
+    calories === null
+      ? null
+      : {
+          calories,
+          protein: protein ?? 0,
+          carbs: carbs ?? 0,
+          fat: fat ?? 0,
+        };
+
+  return {
+    barcode: row.barcode,
+    name: row.name,
+    brand: row.brand,
+    servingSize: row.serving_size,
+    servingUnit: row.serving_unit === "ml" ? "ml" : "g",
+    per100g: toNutrients(
+      row.calories_100g,
+      row.protein_100g,
+      row.carbs_100g,
+      row.fat_100g
+    ),
+    perServing: toNutrients(
+      row.calories_serving,
+      row.protein_serving,
+      row.carbs_serving,
+      row.fat_serving
+    ),
+    source: row.source === "manual" ? "manual" : "ai_label",
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+};
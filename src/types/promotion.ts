@@ -0,0 +1,417 @@
+import { z } from "zod";
+import { compareAppVersions } from "../utils/appVersion";
+import type { FcmTokenData } from "./fcmToken";
+import type { AppUser } from "./user";
+
+// 推播活動狀態：scheduled 待發送、sending 發送中、completed 已完成、cancelled 已取消
+export type PromotionStatus =
+  "scheduled" | "sending" | "completed" | "cancelled";
+
+export const PromotionStatusSchema = z.enum([
+  "scheduled",
+  "sending",
+  "completed",
+  "cancelled",
+]);
+
+// 訂閱狀態篩選：all 全部、non_subscribers 沒有有效訂閱、subscribers 有有效訂閱
+export type PromotionSubscriptionFilter =
+  "all" | "non_subscribers" | "subscribers";
+
+/**
+ * 單一語言的推播內容
+ */
+export interface PromotionMessage {
+  title: string;
+  body: string;
+}
+
+export const PromotionMessageSchema = z.object({
+  title: z.string().min(1, "標題不能為空").max(100, "標題不能超過 100 字"),
+  body: z.string().min(1, "內容不能為空").max(500, "內容不能超過 500 字"),
+});
+
+// 多語系推播內容，key 為語言代碼（與 FcmTokenData.language 相同，例如 en、zh_TW、pt-br）
+export type PromotionContent = Record<string, PromotionMessage>;
+
+export const PromotionContentSchema = z
+  .record(z.string().min(1), PromotionMessageSchema)
+  .refine((content) => Object.keys(content).length > 0, "推播內容不能為空");
+
+// FCM 單一訊息（通知 + data）的大小上限
+export const FCM_PAYLOAD_LIMIT_BYTES = 4096;
+
+// 不能出現在 data 的 key：FCM 保留字（from、message_type、google / gcm 開頭）、
+// 會與通知欄位混淆的 notification，以及發送時由系統填入的 type、promotionId
+const RESERVED_DATA_KEYS = [
+  "from",
+  "message_type",
+  "notification",
+  "type",
+  "promotionId",
+];
+
+// 工具函式：檢查 data key 是否為保留欄位
+export function isReservedPromotionDataKey(key: string): boolean {
+  const normalized = key.toLowerCase();
+  return (
+    RESERVED_DATA_KEYS.includes(key) ||
+    normalized.startsWith("google") ||
+    normalized.startsWith("gcm")
+  );
+}
+
+export const PromotionDataSchema = z
+  .record(z.string().min(1), z.string())
+  .refine(
+    (data) => !Object.keys(data).some(isReservedPromotionDataKey),
+    "data 不能使用保留欄位（from、message_type、notification、type、promotionId，或以 google、gcm 開頭）"
+  );
+
+// 工具函式：估算單一語言推播的大小（以 JSON 計算，含發送時加入的 type 與 promotionId，略大於 FCM 實際計算）
+export function getPromotionPayloadSize(
+  message: PromotionMessage,
+  data: Record<string, string> | null | undefined
+): number {
+  const payload = {
+    notification: { title: message.title, body: message.body },
+    data: {
+      ...data,
+      type: "promotion",
+      promotionId: "00000000-0000-0000-0000-000000000000",
+    },
+  };
+  return new TextEncoder().encode(JSON.stringify(payload)).length;
+}
+
+/**
+ * 推播目標受眾，未指定的條件不篩選
+ */
+export interface PromotionAudience {
+  subscriptionStatus: PromotionSubscriptionFilter;
+  platforms?: ("ios" | "android")[];
+  minAppVersion?: string;
+  maxAppVersion?: string;
+  languages?: string[];
+}
+
+export const PromotionAudienceSchema = z.object({
+  subscriptionStatus: z
+    .enum(["all", "non_subscribers", "subscribers"])
+    .default("all")
+    .describe("依 activeSubscriptions 篩選"),
+  platforms: z
+    .array(z.enum(["ios", "android"]))
+    .min(1)
+    .optional()
+    .describe("裝置平台"),
+  minAppVersion: z
+    .string()
+    .regex(/^\d+\.\d+\.\d+/, "版本號格式必須為 x.y.z")
+    .optional()
+    .describe("最低 App 版本（含）"),
+  maxAppVersion: z
+    .string()
+    .regex(/^\d+\.\d+\.\d+/, "版本號格式必須為 x.y.z")
+    .optional()
+    .describe("最高 App 版本（含）"),
+  languages: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe("裝置語言，ja 也會符合 ja_JP"),
+});
+
+/**
+ * 推播活動發送統計
+ */
+export interface PromotionStats {
+  /** 已掃描的使用者數 */
+  scannedUsers: number;
+  /** 至少推播到一個裝置的使用者數 */
+  targetedUsers: number;
+  /** 關閉優惠推播而跳過的使用者數 */
+  skippedOptOut: number;
+  /** 處於勿擾時段而延後到勿擾時段結束後發送的使用者數 */
+  skippedQuietHours: number;
+  /** 成功送達的推播數 */
+  delivered: number;
+  /** 發送失敗的推播數 */
+  failed: number;
+}
+
+export const PromotionStatsSchema = z.object({
+  scannedUsers: z.number().int(),
+  targetedUsers: z.number().int(),
+  skippedOptOut: z.number().int(),
+  skippedQuietHours: z.number().int(),
+  delivered: z.number().int(),
+  failed: z.number().int(),
+});
+
+/**
+ * 優惠推播活動
+ * D1 資料表：promotion_campaigns
+ */
+export interface PromotionCampaign {
+  id: string;
+  name: string;
+  content: PromotionContent;
+  defaultLanguage: string;
+  audience: PromotionAudience;
+  data: Record<string, string> | null;
+  status: PromotionStatus;
+  scheduledAt: Date;
+  /** 已處理到的最後一位使用者 UID */
+  cursor: string | null;
+  stats: PromotionStats;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+export const PromotionCampaignSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  content: PromotionContentSchema,
+  defaultLanguage: z.string(),
+  audience: PromotionAudienceSchema,
+  data: z.record(z.string(), z.string()).nullable(),
+  status: PromotionStatusSchema,
+  scheduledAt: z.date(),
+  cursor: z.string().nullable(),
+  stats: PromotionStatsSchema,
+  createdBy: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  completedAt: z.date().nullable(),
+});
+
+// Schema for creating a promotion campaign
+export const CreatePromotionSchema = z.object({
+  name: z.string().min(1, "活動名稱不能為空").max(100),
+  content: PromotionContentSchema.describe(
+    "多語系內容，例如 { en: { title, body }, zh_TW: { title, body } }"
+  ),
+  defaultLanguage: z
+    .string()
+    .default("en")
+    .describe("裝置語言沒有對應內容時使用的語言"),
+  audience: PromotionAudienceSchema,
+  data: PromotionDataSchema.optional().describe(
+    "FCM data payload，例如 { deeplink: 'eatmoji://paywall' }；每種語言的通知加上 data 不能超過 4KB"
+  ),
+  scheduledAt: z
+    .string()
+    .datetime()
+    .optional()
+    .describe("發送時間（ISO 8601），未提供時於下一次排程立即發送"),
+});
+
+export type CreatePromotionRequest = z.infer<typeof CreatePromotionSchema>;
+
+// Schema for previewing promotion recipients
+export const PromotionPreviewRequestSchema = z.object({
+  audience: PromotionAudienceSchema,
+  cursor: z
+    .string()
+    .optional()
+    .describe("上一次預覽返回的 nextCursor，用於繼續統計"),
+});
+
+/**
+ * 推播對象預覽（不含勿擾時段，實際發送時依當下時間判斷）
+ */
+export interface PromotionAudiencePreview {
+  scannedUsers: number;
+  matchedUsers: number;
+  matchedDevices: number;
+  excludedBySubscription: number;
+  excludedByOptOut: number;
+  devicesByPlatform: Record<string, number>;
+  devicesByLanguage: Record<string, number>;
+  /** 尚未掃描完所有使用者時返回，傳回 cursor 繼續統計 */
+  nextCursor: string | null;
+}
+
+export const PromotionAudiencePreviewSchema = z.object({
+  scannedUsers: z.number().int(),
+  matchedUsers: z.number().int(),
+  matchedDevices: z.number().int(),
+  excludedBySubscription: z.number().int(),
+  excludedByOptOut: z.number().int(),
+  devicesByPlatform: z.record(z.string(), z.number().int()),
+  devicesByLanguage: z.record(z.string(), z.number().int()),
+  nextCursor: z.string().nullable(),
+});
+
+/**
+ * 延後發送的使用者（發送時處於勿擾時段）
+ * D1 資料表：promotion_deferred_users
+ */
+export interface PromotionDeferral {
+  userId: string;
+  /** 勿擾時段結束時間，之後的排程才補發 */
+  sendAfter: Date;
+}
+
+/**
+ * 發送推播活動批次的結果
+ */
+export interface PromotionRunResult {
+  campaigns: number;
+  batches: number;
+  delivered: number;
+  failed: number;
+  /** 本次延後到勿擾時段結束後發送的使用者數 */
+  deferred: number;
+}
+
+/**
+ * 推播佇列訊息：發送活動的下一批
+ * cursor 為排入佇列時活動的 cursor，與活動目前的 cursor 不同時代表已由其他訊息接續
+ */
+export interface PromotionQueueMessage {
+  campaignId: string;
+  cursor: string | null;
+}
+
+// Response schemas
+export const PromotionCampaignResponseSchema = z.object({
+  success: z.boolean(),
+  result: PromotionCampaignSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const PromotionCampaignListResponseSchema = z.object({
+  success: z.boolean(),
+  result: z.array(PromotionCampaignSchema).optional(),
+  error: z.string().optional(),
+});
+
+export const PromotionPreviewResponseSchema = z.object({
+  success: z.boolean(),
+  result: PromotionAudiencePreviewSchema.optional(),
+  error: z.string().optional(),
+});
+
+/**
+ * D1 promotion_campaigns 資料列
+ */
+export interface PromotionCampaignRow {
+  id: string;
+  name: string;
+  content: string;
+  default_language: string;
+  audience: string;
+  data: string | null;
+  status: PromotionStatus;
+  scheduled_at: string;
+  cursor: string | null;
+  scanned_users: number;
+  targeted_users: number;
+  skipped_opt_out: number;
+  skipped_quiet_hours: number;
+  delivered: number;
+  failed: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * 將 D1 資料列轉換為 PromotionCampaign 物件的輔助函數
+ * @param row D1 資料列
+ * @returns 經過適當類型轉換的 PromotionCampaign 物件
+ */
+export const convertRowToPromotionCampaign = (
+  row: PromotionCampaignRow
+): PromotionCampaign => ({
+  id: row.id,
+  name: row.name,
+  content: JSON.parse(row.content) as PromotionContent,
+  defaultLanguage: row.default_language,
+  audience: JSON.parse(row.audience) as PromotionAudience,
+  data: row.data ? (JSON.parse(row.data) as Record<string, string>) : null,
+  status: row.status,
+  scheduledAt: new Date(row.scheduled_at),
+  cursor: row.cursor,
+  stats: {
+    scannedUsers: row.scanned_users,
+    targetedUsers: row.targeted_users,
+    skippedOptOut: row.skipped_opt_out,
+    skippedQuietHours: row.skipped_quiet_hours,
+    delivered: row.delivered,
+    failed: row.failed,
+  },
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+  completedAt: row.completed_at ? new Date(row.completed_at) : null,
+});
+
+// 工具函式：檢查使用者是否符合訂閱狀態條件
+export function matchesSubscriptionAudience(
+  user: AppUser,
+  audience: PromotionAudience
+): boolean {
+  const isSubscriber = (user.activeSubscriptions?.length ?? 0) > 0;
+  switch (audience.subscriptionStatus) {
+    case "non_subscribers":
+      return !isSubscriber;
+    case "subscribers":
+      return isSubscriber;
+    default:
+      return true;
+  }
+}
+
+// 工具函式：檢查裝置語言是否在指定語言中（ja 符合 ja_JP，zh_TW 不符合 zh_CN）
+function matchesLanguage(language: string, languages: string[]): boolean {
+  const normalized = language.replace("-", "_").toLowerCase();
+  return languages.some((target) => {
+    const normalizedTarget = target.replace("-", "_").toLowerCase();
+    return (
+      normalized === normalizedTarget ||
+      normalized.startsWith(`${normalizedTarget}_`)
+    );
+  });
+}
+
+// 工具函式：檢查裝置（FCM Token 或 D1 推播裝置資訊）是否符合平台、App 版本與語言條件
+export function matchesDeviceAudience(
+  token: Pick<FcmTokenData, "platform" | "appVersion" | "language">,
+  audience: PromotionAudience
+): boolean {
+  if (
+    audience.platforms &&
+    !audience.platforms.includes(token.platform as "ios" | "android")
+  ) {
+    return false;
+  }
+
+  if (
+    audience.minAppVersion &&
+    compareAppVersions(token.appVersion, audience.minAppVersion) < 0
+  ) {
+    return false;
+  }
+
+  if (
+    audience.maxAppVersion &&
+    compareAppVersions(token.appVersion, audience.maxAppVersion) > 0
+  ) {
+    return false;
+  }
+
+  if (
+    audience.languages &&
+    !matchesLanguage(token.language, audience.languages)
+  ) {
+    return false;
+  }
+
+  return true;
+}
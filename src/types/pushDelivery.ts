@@ -0,0 +1,22 @@
+import type { NotificationType } from "./fcmToken";
+
+// 推播送達狀態
+export type PushDeliveryStatus = "delivered" | "failed";
+
+/**
+ * 推播送達紀錄
+ * D1 資料表：push_deliveries
+ */
+export interface PushDeliveryRecord {
+  id: string;
+  userId: string;
+  deviceId: string;
+  platform: string;
+  notificationType: NotificationType;
+  status: PushDeliveryStatus;
+  messageId: string | null;
+  errorCode: string | null;
+  error: string | null;
+  tokenRemoved: boolean;
+  createdAt: Date;
+}
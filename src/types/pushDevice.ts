@@ -0,0 +1,38 @@
+/**
+ * 推播裝置資訊（不含 FCM Token），與 Firestore users/{uid}/fcm_tokens 同步
+ * D1 資料表：push_devices
+ */
+export interface PushDevice {
+  userId: string;
+  deviceId: string;
+  platform: string;
+  language: string;
+  appVersion: string;
+  lastActive: Date;
+}
+
+/**
+ * D1 push_devices 資料列
+ */
+export interface PushDeviceRow {
+  user_id: string;
+  device_id: string;
+  platform: string;
+  language: string;
+  app_version: string;
+  last_active: string;
+}
+
+/**
+ * 將 D1 資料列轉換為 PushDevice 物件的輔助函數
+ * @param row D1 資料列
+ * @returns 經過適當類型轉換的 PushDevice 物件
+ */
+export const convertRowToPushDevice = (row: PushDeviceRow): PushDevice => ({
+  userId: row.user_id,
+  deviceId: row.device_id,
+  platform: row.platform,
+  language: row.language,
+  appVersion: row.app_version,
+  lastActive: new Date(row.last_active),
+});
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { TaskStatus, TaskStatusSchema, FirestoreDateSchema, OptionalFirestoreDateSchema } from "./diary";
+import { TaskStatus, TaskStatusSchema, FirestoreDateSchema, OptionalFirestoreDateSchema, NutritionTotals, NutritionTotalsSchema } from "./diary";
 
 // Recipe Tag enum - 對應 Dart RecipeTag
 export enum RecipeTag {
@@ -53,6 +53,58 @@ export enum RecipeTag {
 // Zod schema for RecipeTag
 export const RecipeTagSchema = z.nativeEnum(RecipeTag);
 
+// RecipeTag 分組 - 對應 Dart RecipeTag 的分類
+export type RecipeTagGroup = "mealType" | "dietType" | "dishType" | "cuisine";
+
+export const RECIPE_TAG_GROUPS: Record<RecipeTagGroup, RecipeTag[]> = {
+  mealType: [
+    RecipeTag.BREAKFAST,
+    RecipeTag.LUNCH,
+    RecipeTag.DINNER,
+    RecipeTag.DESSERT,
+    RecipeTag.BEVERAGE,
+  ],
+  dietType: [
+    RecipeTag.VEGAN,
+    RecipeTag.VEGETARIAN,
+    RecipeTag.HIGH_PROTEIN,
+    RecipeTag.KETO,
+    RecipeTag.MEDITERRANEAN,
+    RecipeTag.LOW_GI,
+    RecipeTag.LOW_CARB,
+    RecipeTag.LOW_FAT,
+  ],
+  dishType: [
+    RecipeTag.SOUP,
+    RecipeTag.SALAD,
+    RecipeTag.SNACK,
+    RecipeTag.BENTO,
+    RecipeTag.HOT_POT,
+    RecipeTag.FRIED_FOOD,
+    RecipeTag.GRILLED,
+    RecipeTag.NOODLES,
+    RecipeTag.MAIN_COURSE,
+  ],
+  cuisine: [
+    RecipeTag.TAIWANESE,
+    RecipeTag.CHINESE,
+    RecipeTag.JAPANESE,
+    RecipeTag.KOREAN,
+    RecipeTag.VIETNAM,
+    RecipeTag.ITALIAN,
+    RecipeTag.AMERICAN,
+    RecipeTag.INDIAN,
+    RecipeTag.MEXICAN,
+    RecipeTag.FRANCE,
+    RecipeTag.MALAYSIA,
+    RecipeTag.SINGAPORE,
+    RecipeTag.GERMAN,
+    RecipeTag.SPANISH,
+    RecipeTag.THAI,
+    RecipeTag.BRAZILIAN,
+  ],
+};
+
 // RecipeHealthAssessment interface and schema
 export interface RecipeHealthAssessment {
   score: number;
@@ -128,6 +180,7 @@ export interface Recipe {
   progress: number;
   isDeleted: boolean;
   deletedAt?: Date | null;
+  favoriteCount?: number; // 被收藏次數，由收藏操作維護
   createdAt: Date;
   updatedAt: Date;
 }
@@ -156,6 +209,7 @@ export const RecipeSchema = z.object({
   progress: z.number().default(0),
   isDeleted: z.boolean().default(false),
   deletedAt: OptionalFirestoreDateSchema,
+  favoriteCount: z.number().default(0),
   createdAt: FirestoreDateSchema,
   updatedAt: FirestoreDateSchema,
 });
@@ -163,6 +217,7 @@ export const RecipeSchema = z.object({
 // Schema for creating a new recipe (excludes generated fields)
 export const CreateRecipeSchema = RecipeSchema.omit({
   authorId: true,
+  favoriteCount: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -204,6 +259,133 @@ export const RecipeListResponseSchema = z.object({
   error: z.string().optional(),
 });
 
+// 公開食譜動態牆排序方式
+export type RecipeSort = "newest" | "mostFavorited";
+
+export const RecipeSortSchema = z.enum(["newest", "mostFavorited"]);
+
+// 公開食譜動態牆查詢條件
+export interface RecipeFeedQuery {
+  mealType?: RecipeTag[];
+  dietType?: RecipeTag[];
+  dishType?: RecipeTag[];
+  cuisine?: RecipeTag[];
+  minCalories?: number;
+  maxCalories?: number;
+  minProtein?: number;
+  maxProtein?: number;
+  maxDuration?: number; // 分鐘
+  difficulty?: string[];
+  sort: RecipeSort;
+  limit: number;
+  cursor?: string;
+}
+
+// 公開食譜動態牆分頁結果
+export interface RecipeFeedPage {
+  items: Recipe[];
+  nextCursor: string | null; // 沒有下一頁時為 null
+}
+
+// 逗號分隔的標籤清單，例如 "breakfast,lunch"
+const TagListQuerySchema = (group: RecipeTagGroup) =>
+  z
+    .string()
+    .optional()
+    .describe(
+      `${group} 標籤（可用逗號分隔多個，符合任一即可）：${RECIPE_TAG_GROUPS[group].join(", ")}`
+    );
+
+// Query parameters for recipe feed
+export const RecipeFeedQuerySchema = z.object({
+  mealType: TagListQuerySchema("mealType"),
+  dietType: TagListQuerySchema("dietType"),
+  dishType: TagListQuerySchema("dishType"),
+  cuisine: TagListQuerySchema("cuisine"),
+  minCalories: z.coerce.number().min(0).optional().describe("最低熱量（大卡）"),
+  maxCalories: z.coerce.number().min(0).optional().describe("最高熱量（大卡）"),
+  minProtein: z.coerce.number().min(0).optional().describe("最低蛋白質（克）"),
+  maxProtein: z.coerce.number().min(0).optional().describe("最高蛋白質（克）"),
+  maxDuration: z.coerce
+    .number()
+    .min(0)
+    .optional()
+    .describe("最長製作時間（分鐘）"),
+  difficulty: z
+    .string()
+    .optional()
+    .describe("難易度（可用逗號分隔多個），例如 easy,medium"),
+  sort: RecipeSortSchema.default("newest").describe(
+    "排序方式：newest（最新）或 mostFavorited（最多收藏）"
+  ),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(20)
+    .describe("每頁筆數，預設 20，最多 50"),
+  cursor: z.string().optional().describe("上一頁回傳的 nextCursor"),
+});
+
+// Query parameters for recipe search
+export const RecipeSearchQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(1, "請輸入搜尋關鍵字")
+    .max(100, "搜尋關鍵字過長，請限制在 100 字元以內")
+    .describe("搜尋關鍵字，可使用任一支援語言（名稱、描述與食材名稱）"),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(20)
+    .describe("最多回傳筆數，預設 20，最多 50"),
+});
+
+export const RecipeFeedPageSchema = z.object({
+  items: z.array(RecipeSchema),
+  nextCursor: z.string().nullable(),
+});
+
+export const RecipeFeedResponseSchema = z.object({
+  success: z.boolean(),
+  result: RecipeFeedPageSchema.optional(),
+  error: z.string().optional(),
+});
+
+// 依份數縮放後的食譜
+export interface ScaledRecipe {
+  recipe: Recipe; // servings、食材份量與營養素皆已縮放
+  originalServings: number;
+  scaleFactor: number; // 目標份數 / 原始份數
+  perServing: NutritionTotals; // 每一份的營養素
+}
+
+export const ScaledRecipeSchema = z.object({
+  recipe: RecipeSchema,
+  originalServings: z.number(),
+  scaleFactor: z.number(),
+  perServing: NutritionTotalsSchema,
+});
+
+// Query parameters for recipe scaling
+export const RecipeScaleQuerySchema = z.object({
+  servings: z.coerce
+    .number()
+    .positive("份數必須大於 0")
+    .max(100, "份數不能超過 100")
+    .describe("目標份數，可為小數，例如 1.5"),
+});
+
+export const ScaledRecipeResponseSchema = z.object({
+  success: z.boolean(),
+  result: ScaledRecipeSchema.optional(),
+  error: z.string().optional(),
+});
+
 // Favorite Recipe schemas (stored in user's subcollection)
 export interface FavoriteRecipe extends Recipe {
   favoritedAt: Date; // 收藏時間
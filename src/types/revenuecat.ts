@@ -1,6 +1,8 @@
 /**
  * RevenueCat Webhook 事件類型定義
  */
+import type { EmailType } from "./email";
+import type { EntitlementInfo, RevenueCatSubscription } from "./user";
 
 /**
  * RevenueCat Webhook 事件類型
@@ -34,6 +36,9 @@ export type CancelReason =
  * RevenueCat Webhook 事件基礎結構
  */
 export interface RevenueCatWebhookEvent {
+  /** 事件 ID (唯一，用於冪等處理) */
+  id?: string;
+  
   /** 事件類型 */
   type: RevenueCatEventType;
   
@@ -49,6 +54,9 @@ export interface RevenueCatWebhookEvent {
   /** 產品 ID */
   product_id: string;
   
+  /** 變更後的產品 ID (僅 PRODUCT_CHANGE 事件) */
+  new_product_id?: string;
+  
   /** 期間類型 */
   period_type: 'NORMAL' | 'TRIAL' | 'INTRO';
   
@@ -165,4 +173,67 @@ export interface UserCancellationInfo {
   
   /** 訂閱者屬性 (完整的 RevenueCat 用戶屬性) */
   subscriberAttributes?: Record<string, any>;
-}
\ No newline at end of file
+}
+
+/**
+ * 使用者的 RevenueCat 訂閱狀態（對應 AppUser 的 RevenueCat 欄位）
+ */
+export interface RevenueCatSubscriptionState {
+  /** 權益 (entitlement ID → 權益資訊) */
+  entitlements: Record<string, EntitlementInfo>;
+  
+  /** 訂閱 (產品 ID → 訂閱資訊) */
+  subscriptions: Record<string, RevenueCatSubscription>;
+  
+  /** 目前有效的訂閱產品 ID */
+  activeSubscriptions: string[];
+  
+  /** 曾經購買過的產品 ID */
+  allPurchasedProductIds: string[];
+  
+  /** 原始應用用戶 ID */
+  originalAppUserId: string;
+  
+  /** 首次收到 RevenueCat 資料的時間 */
+  revenueCatFirstSeen: Date;
+  
+  /** 最後一次 RevenueCat 事件的時間 */
+  revenueCatLastSeen: Date;
+  
+  /** 原始購買日期 */
+  revenueCatOriginalPurchaseDate?: Date;
+  
+  /** 最後一次同步的時間 */
+  revenueCatRequestDate: Date;
+}
+
+/**
+ * Webhook 訂閱狀態同步結果
+ */
+export interface SubscriptionSyncResult {
+  /** 是否已寫入使用者訂閱狀態 */
+  updated: boolean;
+  
+  /** 未寫入的原因 */
+  skippedReason?: string;
+  
+  /** 同步後的有效訂閱產品 ID */
+  activeSubscriptions?: string[];
+}
+
+/**
+ * Webhook 訂閱生命週期郵件處理結果
+ */
+export interface SubscriptionEmailResult {
+  /** 立即發送的郵件類型 */
+  sent?: EmailType;
+  
+  /** 排程發送的郵件類型 */
+  scheduled?: EmailType;
+  
+  /** 取消的待發送郵件數 */
+  cancelled: number;
+  
+  /** 未處理郵件的原因 */
+  skippedReason?: string;
+}
@@ -0,0 +1,89 @@
+import type { EmailTemplateData, EmailType } from "./email";
+
+// 排程郵件狀態：pending 待發送、sending 發送中、sent 已發送、failed 發送失敗、cancelled 已取消
+export type ScheduledEmailStatus =
+  "pending" | "sending" | "sent" | "failed" | "cancelled";
+
+/**
+ * 排程郵件
+ * D1 資料表：scheduled_emails
+ */
+export interface ScheduledEmail {
+  id: string;
+  userId: string;
+  emailType: EmailType;
+  recipientEmail: string;
+  recipientName: string | null;
+  language: string;
+  templateData: EmailTemplateData;
+  sendAt: Date;
+  status: ScheduledEmailStatus;
+  attempts: number;
+  lastError: string | null;
+  sentAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * 建立排程郵件的輸入
+ */
+export interface ScheduleEmailInput {
+  userId: string;
+  emailType: EmailType;
+  recipientEmail: string;
+  recipientName?: string;
+  language: string;
+  templateData: EmailTemplateData;
+  sendAt: Date;
+}
+
+/**
+ * 發送到期排程郵件的結果
+ */
+export interface ScheduledEmailRunResult {
+  sent: number;
+  failed: number;
+  retried: number;
+}
+
+/**
+ * D1 scheduled_emails 資料列
+ */
+export interface ScheduledEmailRow {
+  id: string;
+  user_id: string;
+  email_type: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  language: string;
+  template_data: string;
+  send_at: string;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+/**
+ * 將 D1 資料列轉換為 ScheduledEmail 物件的輔助函數
+ * @param row D1 資料列
+ * @returns 經過適當類型轉換的 ScheduledEmail 物件
+ */
+export const convertRowToScheduledEmail = (
+  row: ScheduledEmailRow
+): ScheduledEmail => ({
+  id: row.id,
+  userId: row.user_id,
+  emailType: row.email_type as EmailType,
+  recipientEmail: row.recipient_email,
+  recipientName: row.recipient_name,
+  language: row.language,
+  templateData: JSON.parse(row.template_data) as EmailTemplateData,
+  sendAt: new Date(row.send_at),
+  status: row.status as ScheduledEmailStatus,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  sentAt: row.sent_at ? new Date(row.sent_at) : null,
+  createdAt: new Date(row.created_at),
+});
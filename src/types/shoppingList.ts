@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { FirestoreDateSchema, firestoreTimestampToDate } from "./diary";
+
+/**
+ * 食材單位的種類
+ * - mass: 重量，統一換算為公克
+ * - volume: 容量，統一換算為毫升
+ * - count: 個數
+ * - other: 無法換算的單位（例如「少許」、「一把」），依原始單位分開列出
+ */
+export type IngredientUnitFamily = "mass" | "volume" | "count" | "other";
+
+export const IngredientUnitFamilySchema = z.enum([
+  "mass",
+  "volume",
+  "count",
+  "other",
+]);
+
+/**
+ * 產生購物清單時選擇的食譜與份數
+ */
+export interface ShoppingListRecipe {
+  recipeId: string;
+  servings: number;
+}
+
+export const ShoppingListRecipeSchema = z.object({
+  recipeId: z.string().min(1, "食譜 ID 不能為空"),
+  servings: z.number().positive("份數必須大於 0").max(100, "份數不能超過 100"),
+});
+
+/**
+ * 購物清單項目 - 合併多個食譜中相同食材與單位種類後的結果
+ */
+export interface ShoppingListItem {
+  id: string; // 由英文名稱與單位種類組成，同一清單內唯一
+  name: Record<string, string>; // 多語言名稱（取第一個出現的食材）
+  amountValue: number;
+  amountUnit: Record<string, string>; // 多語言單位
+  unitFamily: IngredientUnitFamily;
+  recipeIds: string[]; // 使用到此食材的食譜
+  checked: boolean;
+}
+
+export const ShoppingListItemSchema = z.object({
+  id: z.string(),
+  name: z.record(z.string(), z.string()).default({}),
+  amountValue: z.number(),
+  amountUnit: z.record(z.string(), z.string()).default({}),
+  unitFamily: IngredientUnitFamilySchema,
+  recipeIds: z.array(z.string()).default([]),
+  checked: z.boolean().default(false),
+});
+
+/**
+ * 購物清單
+ * Firebase 集合路徑：users/{userId}/shopping_lists
+ */
+export interface ShoppingList {
+  id: string;
+  name: string;
+  recipes: ShoppingListRecipe[];
+  items: ShoppingListItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ShoppingListSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  recipes: z.array(ShoppingListRecipeSchema),
+  items: z.array(ShoppingListItemSchema),
+  createdAt: FirestoreDateSchema,
+  updatedAt: FirestoreDateSchema,
+});
+
+/**
+ * 建立購物清單的請求
+ */
+export const CreateShoppingListSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .max(100, "購物清單名稱過長，請限制在 100 字元以內")
+    .optional()
+    .describe("購物清單名稱，未提供時使用建立日期"),
+  recipes: z
+    .array(ShoppingListRecipeSchema)
+    .min(1, "至少需要選擇一個食譜")
+    .max(20, "一次最多只能選擇 20 個食譜"),
+});
+
+export type CreateShoppingListRequest = z.infer<
+  typeof CreateShoppingListSchema
+>;
+
+/**
+ * 更新購物清單項目勾選狀態的請求
+ */
+export const UpdateShoppingListItemSchema = z.object({
+  checked: z.boolean(),
+});
+
+// Response schemas for API
+export const ShoppingListResponseSchema = z.object({
+  success: z.boolean(),
+  result: ShoppingListSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const ShoppingListListResponseSchema = z.object({
+  success: z.boolean(),
+  result: z.array(ShoppingListSchema).optional(),
+  error: z.string().optional(),
+});
+
+/**
+ * 將 Firestore 文件轉換為 ShoppingList 物件的輔助函數
+ * @param doc Firestore 文件
+ * @returns 經過適當類型轉換的 ShoppingList 物件
+ */
+export const convertFirestoreDocToShoppingList = (doc: any): ShoppingList => {
+  const data = doc.data();
+
+  return {
+    id: doc.id,
+    name: data.name || "",
+    recipes: data.recipes || [],
+    items: (data.items || []).map((item: any) => ({
+      ...item,
+      recipeIds: item.recipeIds || [],
+      checked: item.checked || false,
+    })),
+    createdAt: firestoreTimestampToDate(data.createdAt),
+    updatedAt: firestoreTimestampToDate(data.updatedAt),
+  };
+};
@@ -0,0 +1,13 @@
+/**
+ * Worker 單次執行可使用的子請求數
+ * Workers 付費方案單次執行上限為 1000，保留餘裕給 Access Token 取得等未計入的請求
+ */
+export const WORKER_SUBREQUEST_BUDGET = 900;
+
+/**
+ * Worker 單次執行剩餘的子請求數（fetch、D1、Firestore、Queue 等）
+ * 同一次排程或佇列執行的任務共用同一個預算（見 src/scheduled.ts 與 src/queue.ts），各任務依實際用量扣除
+ */
+export interface SubrequestBudget {
+  remaining: number;
+}
@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { DataInsights, DataInsightsSchema } from "./chat";
+
+// 趨勢報告的預設期間
+export type TrendPeriod = "week" | "month";
+
+export const TrendPeriodSchema = z.enum(["week", "month"]);
+
+// 單日趨勢資料點 interface - 彙整當日飲食、運動與體重
+export interface DailyTrendPoint {
+  date: string; // YYYY-MM-DD
+  diaryCount: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  caloriesBurned: number;
+  netCalories: number;
+  steps: number;
+  exerciseCount: number;
+  weight: number | null; // 公斤，當日沒有體重記錄時為 null
+}
+
+export const DailyTrendPointSchema = z.object({
+  date: z.string(),
+  diaryCount: z.number(),
+  calories: z.number(),
+  protein: z.number(),
+  carbs: z.number(),
+  fat: z.number(),
+  caloriesBurned: z.number(),
+  netCalories: z.number(),
+  steps: z.number(),
+  exerciseCount: z.number(),
+  weight: z.number().nullable(),
+});
+
+// 每週趨勢資料點 interface - 週一為一週的開始，平均值只計算有飲食記錄的天數
+export interface WeeklyTrendPoint {
+  weekStart: string; // YYYY-MM-DD
+  weekEnd: string; // YYYY-MM-DD
+  trackedDays: number;
+  averageCalories: number;
+  averageProtein: number;
+  averageCarbs: number;
+  averageFat: number;
+  totalCaloriesBurned: number;
+  averageWeight: number | null; // 公斤
+}
+
+export const WeeklyTrendPointSchema = z.object({
+  weekStart: z.string(),
+  weekEnd: z.string(),
+  trackedDays: z.number(),
+  averageCalories: z.number(),
+  averageProtein: z.number(),
+  averageCarbs: z.number(),
+  averageFat: z.number(),
+  totalCaloriesBurned: z.number(),
+  averageWeight: z.number().nullable(),
+});
+
+// 目標達成率 interface - 平均攝取量佔目標的百分比，未設定目標時為 null
+export interface NutritionAdherence {
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  daysOnCalorieTarget: number; // 淨熱量落在目標 ±10% 內的天數
+  daysOnCalorieTargetPercent: number | null; // 佔有記錄天數的百分比
+}
+
+export const NutritionAdherenceSchema = z.object({
+  calories: z.number().nullable(),
+  protein: z.number().nullable(),
+  carbs: z.number().nullable(),
+  fat: z.number().nullable(),
+  daysOnCalorieTarget: z.number(),
+  daysOnCalorieTargetPercent: z.number().nullable(),
+});
+
+// 三大營養素熱量佔比 interface（百分比，總和為 100；沒有攝取時皆為 0）
+export interface MacroRatio {
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export const MacroRatioSchema = z.object({
+  protein: z.number(),
+  carbs: z.number(),
+  fat: z.number(),
+});
+
+// 營養趨勢報告 interface
+export interface NutritionTrendReport {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  totalDays: number;
+  days: DailyTrendPoint[];
+  weeks: WeeklyTrendPoint[];
+  adherence: NutritionAdherence;
+  macroRatio: MacroRatio;
+  insights: DataInsights;
+}
+
+export const NutritionTrendReportSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  totalDays: z.number(),
+  days: z.array(DailyTrendPointSchema),
+  weeks: z.array(WeeklyTrendPointSchema),
+  adherence: NutritionAdherenceSchema,
+  macroRatio: MacroRatioSchema,
+  insights: DataInsightsSchema,
+});
+
+// Query parameters for trends
+export const TrendQuerySchema = z.object({
+  period: TrendPeriodSchema.optional().describe(
+    "預設期間：week（最近 7 天）或 month（最近 30 天），未提供 startDate 時使用，預設為 week"
+  ),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式必須為 YYYY-MM-DD")
+    .optional()
+    .describe("起始日期（包含），提供時會忽略 period"),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式必須為 YYYY-MM-DD")
+    .optional()
+    .describe("結束日期（包含），預設為今天"),
+  timezone: z
+    .string()
+    .optional()
+    .describe(
+      "IANA 時區（例如 Asia/Taipei），用於決定 diary 所屬的當地日期與今天；未提供時使用通知偏好中的時區"
+    ),
+});
+
+/**
+ * 趨勢查詢區間（使用者當地日期 YYYY-MM-DD）
+ */
+export interface TrendDateRange {
+  /** 起始日期（包含），未提供時由結束日期往前推算 days 天 */
+  startDate?: string;
+  /** 結束日期（包含），預設為使用者當地的今天 */
+  endDate?: string;
+  /** 未提供起始日期時涵蓋的天數（含結束日期） */
+  days: number;
+}
+
+// Response schemas for API
+export const NutritionTrendReportResponseSchema = z.object({
+  success: z.boolean(),
+  result: NutritionTrendReportSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const DataInsightsResponseSchema = z.object({
+  success: z.boolean(),
+  result: DataInsightsSchema.optional(),
+  error: z.string().optional(),
+});
@@ -1,4 +1,8 @@
 import { z } from "zod";
+import {
+  NotificationSettings,
+  NotificationSettingsSchema,
+} from "./notificationSettings";
 
 // GoalType enum
 export enum GoalType {
@@ -189,6 +193,9 @@ export interface AppUser {
   syncDeviceSwitchedAt?: Date; // 切換同步設備的時間
   deviceLanguage?: string | null;
 
+  // 通知偏好（透過 /users/me/notification-settings 更新）
+  notificationSettings?: NotificationSettings | null;
+
   // RevenueCat 整合屬性
   entitlements?: Record<string, EntitlementInfo> | null;
   subscriptions?: Record<string, RevenueCatSubscription> | null;
@@ -240,6 +247,9 @@ export const AppUserSchema = z.object({
   syncDeviceSwitchedAt: OptionalFirestoreDateSchema,
   deviceLanguage: z.string().nullish(),
 
+  // 通知偏好 (僅用於讀取，透過 /users/me/notification-settings 更新)
+  notificationSettings: NotificationSettingsSchema.nullish(),
+
   // RevenueCat 整合屬性 (僅用於讀取，不用於驗證寫入)
   entitlements: z.record(z.string(), EntitlementInfoSchema).nullish(),
   subscriptions: z.record(z.string(), RevenueCatSubscriptionSchema).nullish(),
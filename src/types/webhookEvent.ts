@@ -0,0 +1,54 @@
+// Webhook 事件處理狀態：processing 處理中、processed 已完成
+export type WebhookEventStatus = "processing" | "processed";
+
+// Webhook 來源
+export type WebhookSource = "revenuecat";
+
+/**
+ * Webhook 冪等紀錄
+ * D1 資料表：webhook_events
+ */
+export interface WebhookEventRecord {
+  source: WebhookSource;
+  eventId: string;
+  eventType: string;
+  status: WebhookEventStatus;
+  receivedAt: Date;
+  processedAt: Date | null;
+}
+
+/**
+ * 開始處理 Webhook 事件的結果
+ * - new：第一次收到，繼續處理
+ * - duplicate：已處理完成，直接回應成功
+ * - in_progress：另一個請求正在處理
+ */
+export type WebhookEventClaim = "new" | "duplicate" | "in_progress";
+
+/**
+ * D1 webhook_events 資料列
+ */
+export interface WebhookEventRow {
+  source: string;
+  event_id: string;
+  event_type: string;
+  status: string;
+  received_at: string;
+  processed_at: string | null;
+}
+
+/**
+ * 將 D1 資料列轉換為 WebhookEventRecord 物件的輔助函數
+ * @param row D1 資料列
+ * @returns 經過適當類型轉換的 WebhookEventRecord 物件
+ */
+export const convertRowToWebhookEventRecord = (
+  row: WebhookEventRow
+): WebhookEventRecord => ({
+  source: row.source as WebhookSource,
+  eventId: row.event_id,
+  eventType: row.event_type,
+  status: row.status as WebhookEventStatus,
+  receivedAt: new Date(row.received_at),
+  processedAt: row.processed_at ? new Date(row.processed_at) : null,
+});
@@ -346,6 +346,50 @@ export class ApiRetryUtil {
     this.activeRequests.clear();
   }
 
+  /**
+   * 判斷 AI 供應商的錯誤是否應切換到下一個供應商
+   * - 可重試的 HTTP 錯誤（5xx、429 等）與重試用盡
+   * - 請求超時與網路錯誤
+   * 400/401/403/404 屬於請求本身的問題，換供應商也無法解決
+   *
+   * @param error 捕捉到的錯誤
+   * @returns boolean 是否應切換供應商
+   */
+  static isFailoverError(error: unknown): boolean {
+    if (!(error instanceof Error)) {
+      return false;
+    }
+
+    const message = error.message;
+
+    // 超時、重試用盡與網路錯誤
+    if (
+      error.name === "AbortError" ||
+      message.includes("請求超時") ||
+      message.includes("次嘗試後仍然失敗") ||
+      /fetch failed|network/i.test(message)
+    ) {
+      return true;
+    }
+
+    const statusCode = this.extractStatusCode(message);
+    return (
+      statusCode !== null &&
+      this.isRetryableError(statusCode, this.DEFAULT_CONFIG)
+    );
+  }
+
+  /**
+   * 從錯誤訊息提取 HTTP 狀態碼
+   * 支援 AI 服務拋出的「… API 調用失敗: 503 …」與「HTTP 503: …」格式
+   * @param message 錯誤訊息
+   * @returns number | null 狀態碼
+   */
+  static extractStatusCode(message: string): number | null {
+    const match = message.match(/(?:調用失敗|HTTP)[:\s]+(\d{3})\b/);
+    return match ? Number(match[1]) : null;
+  }
+
   /**
    * 創建 Gemini API 專用的重試配置
    * @returns RetryConfig Gemini 專用配置
@@ -0,0 +1,165 @@
+import type { Env } from "../bindings";
+import type { AIUsageEndpoint } from "../types/aiUsage";
+
+/**
+ * AI 功能（對應 IGeminiService 的方法，chat 對應 AI 聊天服務）
+ */
+export type AICapability =
+  | "analyzeMealText"
+  | "analyzeIngredient"
+  | "analyzeRecipeIngredient"
+  | "analyzeImages"
+  | "createRecipeFromImages"
+  | "editRecipe"
+  | "translateIngredient"
+  | "generateMealPlan"
+  | "analyzeProductLabel"
+  | "chat";
+
+/**
+ * AI 供應商
+ * - vertex：Vertex AI（GCP 服務帳號）
+ * - gemini：Google Gemini API（GOOGLE_API_KEY）
+ * - openai：OpenAI 相容端點（本地模型或第三方服務）
+ */
+export type AIProviderName = "vertex" | "gemini" | "openai";
+
+const AI_PROVIDER_NAMES: AIProviderName[] = ["vertex", "gemini", "openai"];
+
+/**
+ * 各功能優先使用的供應商，排在全域供應商順序之前
+ * 例如 translateIngredient 在 Vertex AI 有時會回傳 User location is not supported
+ */
+export const PREFERRED_AI_PROVIDERS: Partial<
+  Record<AICapability, AIProviderName[]>
+> = {
+  analyzeMealText: ["gemini"],
+  analyzeIngredient: ["vertex"],
+  analyzeRecipeIngredient: ["vertex"],
+  editRecipe: ["vertex"],
+  translateIngredient: ["gemini"],
+  generateMealPlan: ["gemini"],
+};
+
+/**
+ * 各功能預設使用的模型
+ * 需要精準讀取數字或長篇推理的功能使用 gemini-2.5-flash，其餘使用較便宜的 flash-lite
+ */
+export const DEFAULT_AI_MODELS: Record<AICapability, string> = {
+  analyzeMealText: "gemini-2.5-flash-lite",
+  analyzeIngredient: "gemini-2.5-flash-lite",
+  analyzeRecipeIngredient: "gemini-2.5-flash-lite",
+  analyzeImages: "gemini-2.5-flash-lite",
+  createRecipeFromImages: "gemini-2.5-flash-lite",
+  editRecipe: "gemini-2.5-flash-lite",
+  translateIngredient: "gemini-2.5-flash-lite",
+  generateMealPlan: "gemini-2.5-flash",
+  analyzeProductLabel: "gemini-2.5-flash",
+  chat: "gemini-2.5-flash-lite",
+};
+
+/**
+ * 各功能計入的 AI 使用量端點
+ * /gemini 以外的路由（例如 /diaries/analyze、/foods/barcode/:ean）也依此計量，
+ * 與對應的 /gemini 端點共用每日額度
+ */
+export const AI_USAGE_ENDPOINT_BY_CAPABILITY: Record<
+  AICapability,
+  AIUsageEndpoint
+> = {
+  analyzeMealText: "add-meal",
+  analyzeIngredient: "add-ingredient",
+  analyzeRecipeIngredient: "add-recipe-ingredient",
+  analyzeImages: "analyze-images",
+  createRecipeFromImages: "add-recipe",
+  editRecipe: "edit-recipe",
+  translateIngredient: "translate-ingredient",
+  generateMealPlan: "generate-meal-plan",
+  analyzeProductLabel: "analyze-label",
+  chat: "chat",
+};
+
+/**
+ * 解析 AI_MODEL_OVERRIDES 環境變數
+ * @param raw JSON 字串
+ * @returns 功能 → 模型的覆寫設定
+ */
+function parseModelOverrides(
+  raw: string | undefined
+): Partial<Record<AICapability, string>> {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("必須為 JSON 物件");
+    }
+
+    const overrides: Partial<Record<AICapability, string>> = {};
+    for (const [capability, model] of Object.entries(parsed)) {
+      if (capability in DEFAULT_AI_MODELS && typeof model === "string") {
+        overrides[capability as AICapability] = model;
+      } else {
+        console.warn(`忽略無效的模型覆寫設定: ${capability}`);
+      }
+    }
+    return overrides;
+  } catch (error) {
+    console.warn("AI_MODEL_OVERRIDES 格式錯誤，使用預設模型:", error);
+    return {};
+  }
+}
+
+/**
+ * 取得指定功能使用的模型
+ * @param env 環境變數（AI_MODEL_OVERRIDES 可覆寫預設模型）
+ * @param capability AI 功能
+ * @returns 模型名稱
+ */
+export function getModelForCapability(
+  env: Env,
+  capability: AICapability
+): string {
+  return (
+    parseModelOverrides(env.AI_MODEL_OVERRIDES)[capability] ??
+    DEFAULT_AI_MODELS[capability]
+  );
+}
+
+/**
+ * 取得指定功能的供應商順序
+ * - 功能偏好的供應商優先
+ * - 其後接上 AI_PROVIDER_CHAIN（未設定時：開發環境 gemini，正式環境 vertex → gemini）
+ *
+ * @param env 環境變數
+ * @param capability AI 功能（可選）
+ * @returns 去除重複後的供應商順序
+ */
+export function getProviderChain(
+  env: Env,
+  capability?: AICapability
+): AIProviderName[] {
+  const defaultChain: AIProviderName[] =
+    env.NODE_ENV === "development" ? ["gemini"] : ["vertex", "gemini"];
+
+  const configuredChain = env.AI_PROVIDER_CHAIN
+    ? env.AI_PROVIDER_CHAIN.split(",")
+        .map((name) => name.trim())
+        .filter((name): name is AIProviderName => {
+          const valid = AI_PROVIDER_NAMES.includes(name as AIProviderName);
+          if (!valid && name !== "") {
+            console.warn(`忽略未知的 AI 供應商: ${name}`);
+          }
+          return valid;
+        })
+    : [];
+
+  const chain = [
+    ...((capability && PREFERRED_AI_PROVIDERS[capability]) || []),
+    ...(configuredChain.length > 0 ? configuredChain : defaultChain),
+  ];
+
+  return chain.filter((name, index) => chain.indexOf(name) === index);
+}
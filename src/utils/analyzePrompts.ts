@@ -286,4 +286,65 @@ calories = (protein × 4) + (carbs × 4) + (fat × 9)
 
 請使用 function calling 的方式回傳結構化數據。
 `.trim();
-}
\ No newline at end of file
+}
+
+/**
+ * 創建包裝食品營養標示分析提示詞
+ * @param userLanguage 用戶語言代碼
+ * @returns 提示詞
+ */
+export function createAnalyzeProductLabelPrompt(
+  userLanguage: SupportedLanguage = "zh_TW"
+): string {
+  const languageMap: { [key in SupportedLanguage]: string } = {
+    zh_TW: "繁體中文",
+    zh_CN: "简体中文",
+    en: "English",
+    ja: "日本語",
+    ko: "한국어",
+    vi: "Tiếng Việt",
+    th: "ภาษาไทย",
+    ms: "Bahasa Melayu",
+    id: "Bahasa Indonesia",
+    fr: "Français",
+    de: "Deutsch",
+    es: "Español",
+    pt_BR: "Português (Brasil)",
+  };
+
+  const responseLanguage = languageMap[userLanguage] || "繁體中文";
+
+  return `
+你是專業的營養標示辨識專家。使用者上傳的是包裝食品的照片（營養標示、包裝正面或兩者皆有）。
+
+### 🎯 目標任務
+
+1. 從包裝辨識商品名稱與品牌
+2. **逐字讀取**營養標示上的數值，不可自行估算或修改
+3. 分別填入每 100g（或 100ml）與每份的營養素
+
+### 📌 讀取規則
+
+- 只讀取標示上實際存在的欄位；標示只有每份數值時省略 per100g，只有每 100g 數值時省略 perServing
+- 熱量單位為 kcal；標示只有 kJ 時除以 4.184 換算
+- 碳水化合物使用「總碳水化合物」，不是糖
+- servingSize 為每份的重量或容量數值（例如「每份 30 公克」填 30），servingUnit 填 g 或 ml
+- servingsPerContainer 為每包裝份數（例如「本包裝含 4 份」填 4），標示上沒有時填 0
+- 多張圖片視為同一個商品的不同面
+- 商品名稱使用「${responseLanguage}」，品牌維持包裝上的原文
+
+### 🌍 各地區標示格式
+
+- **美國 FDA（Nutrition Facts）**：Serving size 通常同時有家用單位與公制（例如「1 cup (228g)」），請填公制數值；Calories 為每份熱量；碳水化合物讀取 Total Carbohydrate；通常沒有每 100g 欄位
+- **歐盟（Nutrition declaration）**：以每 100g / 100ml 為主，部分會附每份欄位；Energy 同時列出 kJ 與 kcal，請使用 kcal；碳水化合物讀取 Carbohydrate，不是「of which sugars」
+- **台灣（營養標示）**：表格有「每份」與「每 100 公克（毫升）」兩欄，上方註明「每一份量 X 公克」與「本包裝含 X 份」；熱量單位為大卡
+- **日本（栄養成分表示）**：基準可能為 100g、1 食、1 袋或 1 本，基準不是 100g/100ml 時視為每份並以包裝上的內容量或 1 食分量作為 servingSize；熱量讀取「エネルギー」或「熱量」；炭水化物、たんぱく質、脂質分別為碳水化合物、蛋白質、脂肪
+- 其他地區依相同原則判斷欄位是每份還是每 100g/100ml
+
+### ❌ 錯誤處理
+
+若圖片不是食品包裝或營養標示模糊無法辨識，請回傳：{ "error": "無法辨識營養標示，請拍攝清晰的營養標示照片" }
+
+請使用 function calling 的方式回傳結構化數據。
+`.trim();
+}
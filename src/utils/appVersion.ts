@@ -0,0 +1,32 @@
+/**
+ * App 版本號工具（格式 major.minor.patch，可帶 +build 或 -suffix）
+ */
+
+/**
+ * 解析版本號為數字陣列
+ * @param version 版本號，例如 1.2.3、1.2.3+45
+ * @returns [major, minor, patch]，格式錯誤時返回 null
+ */
+export function parseAppVersion(version: string): number[] | null {
+  const match = /^(\d+)\.(\d+)\.(\d+)/.exec(version.trim());
+  return match ? match.slice(1, 4).map(Number) : null;
+}
+
+/**
+ * 比較兩個版本號
+ * @returns a < b 時為負數，a > b 時為正數，相同或無法解析時為 0
+ */
+export function compareAppVersions(a: string, b: string): number {
+  const left = parseAppVersion(a);
+  const right = parseAppVersion(b);
+  if (!left || !right) {
+    return 0;
+  }
+
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) {
+      return left[i] - right[i];
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,25 @@
+import type { Env } from "../bindings";
+import { AppContext } from "../types";
+
+/**
+ * Get D1 database from Hono context
+ * @param c Hono context containing environment bindings
+ * @returns D1Database instance
+ */
+export function getD1FromContext(c: AppContext): D1Database {
+  return getD1FromEnv(c.env);
+}
+
+/**
+ * Get D1 database from environment bindings (for Cron Triggers and services without context)
+ * 綁定缺少時直接拋出錯誤，不略過需要 D1 的功能
+ * @param env Environment bindings
+ * @returns D1Database instance
+ */
+export function getD1FromEnv(env: Env): D1Database {
+  if (!env.DB) {
+    throw new Error("D1 資料庫綁定 DB 未設定（見 wrangler.jsonc 的 d1_databases）");
+  }
+
+  return env.DB;
+}
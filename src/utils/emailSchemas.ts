@@ -10,7 +10,10 @@ export const EmailTypeSchema = z.enum([
   'cancellation_feedback',
   'welcome', 
   'confirmation',
-  'notification'
+  'notification',
+  'billing_issue',
+  'trial_ending',
+  'win_back'
 ]);
 
 /**
@@ -22,6 +25,8 @@ export const EmailTemplateDataSchema = z.object({
   cancellationDate: z.string().optional(),
   feedbackUrl: z.string().url().optional(),
   resubscribeUrl: z.string().url().optional(),
+  manageSubscriptionUrl: z.string().url().optional(),
+  trialEndDate: z.string().optional(),
   customContent: z.string().optional(),
   cancellationReason: z.string().optional(),
 }).catchall(z.any());
@@ -10,9 +10,18 @@ export interface EmailTemplate {
 export interface TemplateVariables {
   userName: string;
   resubscribeUrl?: string;
+  manageSubscriptionUrl?: string;
+  trialEndDate?: string;
   customContent?: string;
 }
 
+export type EmailTemplateType =
+  | 'cancellation'
+  | 'welcome'
+  | 'billing_issue'
+  | 'trial_ending'
+  | 'win_back';
+
 // 讀取模板文件並解析為 JavaScript 對象
 // 在 Cloudflare Workers 環境中，我們需要將模板內容內嵌到代碼中
 
@@ -153,16 +162,884 @@ Eatmoji 팀`
   }
 };
 
+// 歡迎郵件（UserCreate 後發送）
+const WELCOME_TEMPLATES: Record<string, EmailTemplate> = {
+  'zh-TW': {
+    subject: '歡迎加入 Eatmoji！',
+    content: `親愛的 {{userName}}，
+
+歡迎加入 Eatmoji！很高興有您的加入。
+
+只要拍下餐點照片或用一句話描述，Eatmoji 就會幫您估算熱量與三大營養素。今天就試著記錄幾餐，看看一整天的飲食狀況吧。
+
+如果有任何問題或想法，歡迎直接回覆這封郵件，我們會仔細閱讀每一則訊息。
+
+此致，
+Eatmoji 團隊`
+  },
+
+  'zh-CN': {
+    subject: '欢迎加入 Eatmoji！',
+    content: `亲爱的 {{userName}}，
+
+欢迎加入 Eatmoji！很高兴有您的加入。
+
+只要拍下餐点照片或用一句话描述，Eatmoji 就会帮您估算热量与三大营养素。今天就试着记录几餐，看看一整天的饮食状况吧。
+
+如果有任何问题或想法，欢迎直接回复这封邮件，我们会仔细阅读每一条消息。
+
+此致，
+Eatmoji 团队`
+  },
+
+  'en': {
+    subject: 'Welcome to Eatmoji!',
+    content: `Hi {{userName}},
+
+Welcome to Eatmoji! We're glad you're here.
+
+Snap a photo of your meal or describe it in a sentence, and Eatmoji will estimate the calories and macros for you. Log a few meals today to see how your day adds up.
+
+If you have any questions or ideas, just reply to this email - we read every message.
+
+Best regards,
+The Eatmoji Team`
+  },
+
+  'ja': {
+    subject: 'Eatmoji へようこそ！',
+    content: `{{userName}} 様
+
+Eatmoji へようこそ！ご登録いただき、ありがとうございます。
+
+食事の写真を撮るか、ひと言で説明するだけで、Eatmoji がカロリーと三大栄養素を推定します。まずは今日の食事をいくつか記録して、一日の食事バランスを確認してみましょう。
+
+ご質問やご意見がございましたら、このメールに直接ご返信ください。すべてのメッセージに目を通しております。
+
+敬具，
+Eatmoji チーム`
+  },
+
+  'ko': {
+    subject: 'Eatmoji에 오신 것을 환영합니다!',
+    content: `{{userName}} 님께，
+
+Eatmoji에 오신 것을 환영합니다! 함께하게 되어 기쁩니다.
+
+식사 사진을 찍거나 한 문장으로 설명하기만 하면 Eatmoji가 칼로리와 3대 영양소를 추정해 드립니다. 오늘 몇 끼를 기록해 보고 하루 식단을 확인해 보세요.
+
+궁금한 점이나 아이디어가 있으시면 이 이메일에 바로 답장해 주세요. 모든 메시지를 꼼꼼히 읽고 있습니다.
+
+감사합니다，
+Eatmoji 팀`
+  },
+
+  'es': {
+    subject: '¡Bienvenido a Eatmoji!',
+    content: `Hola {{userName}},
+
+¡Bienvenido a Eatmoji! Nos alegra tenerte aquí.
+
+Toma una foto de tu comida o descríbela en una frase, y Eatmoji estimará las calorías y los macronutrientes por ti. Registra algunas comidas hoy para ver cómo va tu día.
+
+Si tienes preguntas o ideas, simplemente responde a este correo: leemos todos los mensajes.
+
+Saludos cordiales,
+El equipo de Eatmoji`
+  },
+
+  'fr': {
+    subject: 'Bienvenue sur Eatmoji !',
+    content: `Bonjour {{userName}},
+
+Bienvenue sur Eatmoji ! Nous sommes ravis de vous compter parmi nous.
+
+Prenez votre repas en photo ou décrivez-le en une phrase, et Eatmoji estimera les calories et les macronutriments pour vous. Enregistrez quelques repas aujourd'hui pour voir le bilan de votre journée.
+
+Pour toute question ou idée, répondez simplement à cet e-mail : nous lisons chaque message.
+
+Cordialement,
+L'équipe Eatmoji`
+  },
+
+  'de': {
+    subject: 'Willkommen bei Eatmoji!',
+    content: `Hallo {{userName}},
+
+willkommen bei Eatmoji! Schön, dass du dabei bist.
+
+Fotografiere deine Mahlzeit oder beschreibe sie in einem Satz, und Eatmoji schätzt Kalorien und Makronährstoffe für dich. Erfasse heute ein paar Mahlzeiten und sieh dir an, wie dein Tag aussieht.
+
+Wenn du Fragen oder Ideen hast, antworte einfach auf diese E-Mail – wir lesen jede Nachricht.
+
+Viele Grüße
+Dein Eatmoji-Team`
+  },
+
+  'pt-BR': {
+    subject: 'Bem-vindo ao Eatmoji!',
+    content: `Olá {{userName}},
+
+Bem-vindo ao Eatmoji! Que bom ter você aqui.
+
+Tire uma foto da sua refeição ou descreva-a em uma frase, e o Eatmoji vai estimar as calorias e os macronutrientes para você. Registre algumas refeições hoje para ver como está o seu dia.
+
+Se tiver dúvidas ou ideias, é só responder a este e-mail — lemos todas as mensagens.
+
+Atenciosamente,
+Equipe Eatmoji`
+  },
+
+  'th': {
+    subject: 'ยินดีต้อนรับสู่ Eatmoji!',
+    content: `เรียน {{userName}}
+
+ยินดีต้อนรับสู่ Eatmoji! เราดีใจที่คุณมาร่วมกับเรา
+
+เพียงถ่ายรูปอาหารหรืออธิบายด้วยประโยคสั้นๆ Eatmoji จะประเมินแคลอรี่และสารอาหารหลักให้คุณ ลองบันทึกอาหารสักสองสามมื้อวันนี้เพื่อดูภาพรวมของทั้งวัน
+
+หากมีคำถามหรือข้อเสนอแนะ สามารถตอบกลับอีเมลนี้ได้เลย เราอ่านทุกข้อความ
+
+ขอแสดงความนับถือ
+ทีมงาน Eatmoji`
+  },
+
+  'vi': {
+    subject: 'Chào mừng bạn đến với Eatmoji!',
+    content: `Xin chào {{userName}},
+
+Chào mừng bạn đến với Eatmoji! Chúng tôi rất vui khi có bạn.
+
+Chỉ cần chụp ảnh bữa ăn hoặc mô tả bằng một câu, Eatmoji sẽ ước tính lượng calo và các chất dinh dưỡng đa lượng cho bạn. Hãy ghi lại vài bữa ăn hôm nay để xem tổng quan cả ngày của bạn.
+
+Nếu bạn có câu hỏi hoặc ý tưởng, chỉ cần trả lời email này - chúng tôi đọc mọi tin nhắn.
+
+Trân trọng,
+Đội ngũ Eatmoji`
+  },
+
+  'id': {
+    subject: 'Selamat datang di Eatmoji!',
+    content: `Halo {{userName}},
+
+Selamat datang di Eatmoji! Kami senang Anda bergabung.
+
+Cukup foto makanan Anda atau jelaskan dalam satu kalimat, dan Eatmoji akan memperkirakan kalori serta makronutriennya untuk Anda. Catat beberapa makanan hari ini untuk melihat gambaran hari Anda.
+
+Jika ada pertanyaan atau ide, cukup balas email ini - kami membaca setiap pesan.
+
+Salam hangat,
+Tim Eatmoji`
+  },
+
+  'ms': {
+    subject: 'Selamat datang ke Eatmoji!',
+    content: `Hai {{userName}},
+
+Selamat datang ke Eatmoji! Kami gembira anda menyertai kami.
+
+Ambil gambar hidangan anda atau terangkannya dalam satu ayat, dan Eatmoji akan menganggarkan kalori serta makronutrien untuk anda. Rekodkan beberapa hidangan hari ini untuk melihat gambaran keseluruhan hari anda.
+
+Jika ada soalan atau idea, balas sahaja e-mel ini - kami membaca setiap mesej.
+
+Salam mesra,
+Pasukan Eatmoji`
+  }
+};
+
+
+// 付款問題郵件（BILLING_ISSUE Webhook）
+const BILLING_ISSUE_TEMPLATES: Record<string, EmailTemplate> = {
+  'zh-TW': {
+    subject: 'Eatmoji 訂閱付款未成功',
+    content: `親愛的 {{userName}}，
+
+我們無法完成您 Eatmoji 訂閱的扣款。目前您仍可使用進階功能，但寬限期結束後將會暫停。
+
+{{#manageSubscriptionUrl}}
+請確認您的付款方式是否有效：
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+如果您已經更新付款方式，請忽略這封郵件。
+
+此致，
+Eatmoji 團隊`
+  },
+
+  'zh-CN': {
+    subject: 'Eatmoji 订阅付款未成功',
+    content: `亲爱的 {{userName}}，
+
+我们无法完成您 Eatmoji 订阅的扣款。目前您仍可使用高级功能，但宽限期结束后将会暂停。
+
+{{#manageSubscriptionUrl}}
+请确认您的付款方式是否有效：
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+如果您已经更新付款方式，请忽略这封邮件。
+
+此致，
+Eatmoji 团队`
+  },
+
+  'en': {
+    subject: 'Your Eatmoji payment didn\'t go through',
+    content: `Hi {{userName}},
+
+We couldn't process the payment for your Eatmoji subscription. Your premium features are still available for now, but they will stop when the grace period ends.
+
+{{#manageSubscriptionUrl}}
+Please check that your payment method is up to date:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+If you have already updated it, you can ignore this email.
+
+Best regards,
+The Eatmoji Team`
+  },
+
+  'ja': {
+    subject: 'Eatmoji のお支払いが完了しませんでした',
+    content: `{{userName}} 様
+
+Eatmoji サブスクリプションのお支払いを処理できませんでした。現在もプレミアム機能をご利用いただけますが、猶予期間の終了後に停止されます。
+
+{{#manageSubscriptionUrl}}
+お支払い方法が最新かどうかご確認ください：
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+すでに更新済みの場合は、このメールは破棄してください。
+
+敬具，
+Eatmoji チーム`
+  },
+
+  'ko': {
+    subject: 'Eatmoji 결제가 완료되지 않았습니다',
+    content: `{{userName}} 님께，
+
+Eatmoji 구독 결제를 처리하지 못했습니다. 지금은 프리미엄 기능을 계속 이용하실 수 있지만, 유예 기간이 끝나면 중단됩니다.
+
+{{#manageSubscriptionUrl}}
+결제 수단이 최신 상태인지 확인해 주세요:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+이미 업데이트하셨다면 이 이메일은 무시하셔도 됩니다.
+
+감사합니다，
+Eatmoji 팀`
+  },
+
+  'es': {
+    subject: 'No pudimos procesar tu pago de Eatmoji',
+    content: `Hola {{userName}},
+
+No pudimos procesar el pago de tu suscripción a Eatmoji. Por ahora sigues teniendo acceso a las funciones premium, pero se desactivarán cuando termine el período de gracia.
+
+{{#manageSubscriptionUrl}}
+Comprueba que tu método de pago esté actualizado:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Si ya lo actualizaste, puedes ignorar este correo.
+
+Saludos cordiales,
+El equipo de Eatmoji`
+  },
+
+  'fr': {
+    subject: 'Votre paiement Eatmoji n\'a pas abouti',
+    content: `Bonjour {{userName}},
+
+Nous n'avons pas pu traiter le paiement de votre abonnement Eatmoji. Vos fonctionnalités premium restent disponibles pour le moment, mais elles seront suspendues à la fin de la période de grâce.
+
+{{#manageSubscriptionUrl}}
+Vérifiez que votre moyen de paiement est à jour :
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Si vous l'avez déjà mis à jour, vous pouvez ignorer cet e-mail.
+
+Cordialement,
+L'équipe Eatmoji`
+  },
+
+  'de': {
+    subject: 'Deine Eatmoji-Zahlung ist fehlgeschlagen',
+    content: `Hallo {{userName}},
+
+wir konnten die Zahlung für dein Eatmoji-Abo nicht verarbeiten. Deine Premium-Funktionen sind vorerst weiter verfügbar, werden aber nach Ablauf der Kulanzfrist deaktiviert.
+
+{{#manageSubscriptionUrl}}
+Bitte prüfe, ob deine Zahlungsmethode aktuell ist:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Falls du sie bereits aktualisiert hast, kannst du diese E-Mail ignorieren.
+
+Viele Grüße
+Dein Eatmoji-Team`
+  },
+
+  'pt-BR': {
+    subject: 'Não conseguimos processar seu pagamento do Eatmoji',
+    content: `Olá {{userName}},
+
+Não conseguimos processar o pagamento da sua assinatura do Eatmoji. Por enquanto você ainda tem acesso aos recursos premium, mas eles serão suspensos ao fim do período de carência.
+
+{{#manageSubscriptionUrl}}
+Verifique se sua forma de pagamento está atualizada:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Se você já a atualizou, pode ignorar este e-mail.
+
+Atenciosamente,
+Equipe Eatmoji`
+  },
+
+  'th': {
+    subject: 'การชำระเงิน Eatmoji ของคุณไม่สำเร็จ',
+    content: `เรียน {{userName}}
+
+เราไม่สามารถดำเนินการชำระเงินสำหรับการสมัครสมาชิก Eatmoji ของคุณได้ ขณะนี้คุณยังใช้ฟีเจอร์พรีเมียมได้ แต่จะถูกระงับเมื่อสิ้นสุดระยะผ่อนผัน
+
+{{#manageSubscriptionUrl}}
+โปรดตรวจสอบว่าวิธีการชำระเงินของคุณเป็นปัจจุบัน:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+หากคุณอัปเดตแล้ว สามารถละเว้นอีเมลนี้ได้
+
+ขอแสดงความนับถือ
+ทีมงาน Eatmoji`
+  },
+
+  'vi': {
+    subject: 'Thanh toán Eatmoji của bạn chưa thành công',
+    content: `Xin chào {{userName}},
+
+Chúng tôi không thể xử lý thanh toán cho gói đăng ký Eatmoji của bạn. Hiện bạn vẫn dùng được các tính năng cao cấp, nhưng chúng sẽ bị tạm dừng khi hết thời gian ân hạn.
+
+{{#manageSubscriptionUrl}}
+Vui lòng kiểm tra phương thức thanh toán của bạn:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Nếu bạn đã cập nhật, vui lòng bỏ qua email này.
+
+Trân trọng,
+Đội ngũ Eatmoji`
+  },
+
+  'id': {
+    subject: 'Pembayaran Eatmoji Anda gagal',
+    content: `Halo {{userName}},
+
+Kami tidak dapat memproses pembayaran langganan Eatmoji Anda. Saat ini Anda masih dapat menggunakan fitur premium, tetapi fitur tersebut akan dihentikan setelah masa tenggang berakhir.
+
+{{#manageSubscriptionUrl}}
+Silakan periksa apakah metode pembayaran Anda masih berlaku:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Jika sudah memperbaruinya, Anda dapat mengabaikan email ini.
+
+Salam hangat,
+Tim Eatmoji`
+  },
+
+  'ms': {
+    subject: 'Pembayaran Eatmoji anda tidak berjaya',
+    content: `Hai {{userName}},
+
+Kami tidak dapat memproses pembayaran langganan Eatmoji anda. Buat masa ini anda masih boleh menggunakan ciri premium, tetapi ciri tersebut akan dihentikan selepas tempoh tangguh tamat.
+
+{{#manageSubscriptionUrl}}
+Sila semak sama ada kaedah pembayaran anda masih sah:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Jika anda sudah mengemas kininya, abaikan sahaja e-mel ini.
+
+Salam mesra,
+Pasukan Eatmoji`
+  }
+};
+
+
+// 試用即將結束提醒（試用到期前排程發送）
+const TRIAL_ENDING_TEMPLATES: Record<string, EmailTemplate> = {
+  'zh-TW': {
+    subject: '您的 Eatmoji 免費試用即將結束',
+    content: `親愛的 {{userName}}，
+
+提醒您，Eatmoji 免費試用將於 {{trialEndDate}} 結束。試用結束後訂閱會自動續訂，您可以繼續使用所有進階功能。
+
+{{#manageSubscriptionUrl}}
+如果不打算繼續，請在試用結束前取消訂閱：
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+感謝您試用 Eatmoji！
+
+此致，
+Eatmoji 團隊`
+  },
+
+  'zh-CN': {
+    subject: '您的 Eatmoji 免费试用即将结束',
+    content: `亲爱的 {{userName}}，
+
+提醒您，Eatmoji 免费试用将于 {{trialEndDate}} 结束。试用结束后订阅会自动续订，您可以继续使用所有高级功能。
+
+{{#manageSubscriptionUrl}}
+如果不打算继续，请在试用结束前取消订阅：
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+感谢您试用 Eatmoji！
+
+此致，
+Eatmoji 团队`
+  },
+
+  'en': {
+    subject: 'Your Eatmoji free trial is ending soon',
+    content: `Hi {{userName}},
+
+Just a reminder: your Eatmoji free trial ends on {{trialEndDate}}. After that, your subscription will renew automatically and you'll keep all premium features.
+
+{{#manageSubscriptionUrl}}
+If you'd rather not continue, you can cancel before the trial ends:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Thank you for trying Eatmoji!
+
+Best regards,
+The Eatmoji Team`
+  },
+
+  'ja': {
+    subject: 'Eatmoji の無料トライアルがまもなく終了します',
+    content: `{{userName}} 様
+
+Eatmoji の無料トライアルは {{trialEndDate}} に終了します。終了後はサブスクリプションが自動更新され、引き続きすべてのプレミアム機能をご利用いただけます。
+
+{{#manageSubscriptionUrl}}
+継続を希望されない場合は、トライアル終了前にキャンセルしてください：
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Eatmoji をお試しいただき、ありがとうございます！
+
+敬具，
+Eatmoji チーム`
+  },
+
+  'ko': {
+    subject: 'Eatmoji 무료 체험이 곧 종료됩니다',
+    content: `{{userName}} 님께，
+
+Eatmoji 무료 체험이 {{trialEndDate}}에 종료됩니다. 체험이 끝나면 구독이 자동으로 갱신되며 모든 프리미엄 기능을 계속 이용하실 수 있습니다.
+
+{{#manageSubscriptionUrl}}
+계속 이용하지 않으시려면 체험 종료 전에 구독을 취소해 주세요:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Eatmoji를 체험해 주셔서 감사합니다!
+
+감사합니다，
+Eatmoji 팀`
+  },
+
+  'es': {
+    subject: 'Tu prueba gratuita de Eatmoji termina pronto',
+    content: `Hola {{userName}},
+
+Te recordamos que tu prueba gratuita de Eatmoji termina el {{trialEndDate}}. Después, tu suscripción se renovará automáticamente y conservarás todas las funciones premium.
+
+{{#manageSubscriptionUrl}}
+Si prefieres no continuar, puedes cancelar antes de que termine la prueba:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+¡Gracias por probar Eatmoji!
+
+Saludos cordiales,
+El equipo de Eatmoji`
+  },
+
+  'fr': {
+    subject: 'Votre essai gratuit Eatmoji se termine bientôt',
+    content: `Bonjour {{userName}},
+
+Petit rappel : votre essai gratuit Eatmoji se termine le {{trialEndDate}}. Ensuite, votre abonnement sera renouvelé automatiquement et vous conserverez toutes les fonctionnalités premium.
+
+{{#manageSubscriptionUrl}}
+Si vous ne souhaitez pas continuer, vous pouvez annuler avant la fin de l'essai :
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Merci d'avoir essayé Eatmoji !
+
+Cordialement,
+L'équipe Eatmoji`
+  },
+
+  'de': {
+    subject: 'Deine kostenlose Eatmoji-Testphase endet bald',
+    content: `Hallo {{userName}},
+
+kurze Erinnerung: Deine kostenlose Eatmoji-Testphase endet am {{trialEndDate}}. Danach verlängert sich dein Abo automatisch und du behältst alle Premium-Funktionen.
+
+{{#manageSubscriptionUrl}}
+Wenn du nicht weitermachen möchtest, kannst du vor Ende der Testphase kündigen:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Danke, dass du Eatmoji ausprobierst!
+
+Viele Grüße
+Dein Eatmoji-Team`
+  },
+
+  'pt-BR': {
+    subject: 'Seu teste gratuito do Eatmoji está terminando',
+    content: `Olá {{userName}},
+
+Lembrete: seu teste gratuito do Eatmoji termina em {{trialEndDate}}. Depois disso, sua assinatura será renovada automaticamente e você continuará com todos os recursos premium.
+
+{{#manageSubscriptionUrl}}
+Se preferir não continuar, você pode cancelar antes do fim do teste:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Obrigado por experimentar o Eatmoji!
+
+Atenciosamente,
+Equipe Eatmoji`
+  },
+
+  'th': {
+    subject: 'ช่วงทดลองใช้ฟรีของ Eatmoji ใกล้สิ้นสุดแล้ว',
+    content: `เรียน {{userName}}
+
+ขอเตือนว่าช่วงทดลองใช้ฟรีของ Eatmoji จะสิ้นสุดในวันที่ {{trialEndDate}} หลังจากนั้นการสมัครสมาชิกจะต่ออายุโดยอัตโนมัติ และคุณจะใช้ฟีเจอร์พรีเมียมทั้งหมดได้ต่อไป
+
+{{#manageSubscriptionUrl}}
+หากไม่ต้องการใช้ต่อ คุณสามารถยกเลิกก่อนสิ้นสุดช่วงทดลองใช้:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+ขอบคุณที่ทดลองใช้ Eatmoji!
+
+ขอแสดงความนับถือ
+ทีมงาน Eatmoji`
+  },
+
+  'vi': {
+    subject: 'Thời gian dùng thử miễn phí Eatmoji sắp kết thúc',
+    content: `Xin chào {{userName}},
+
+Xin nhắc bạn: thời gian dùng thử miễn phí Eatmoji sẽ kết thúc vào {{trialEndDate}}. Sau đó, gói đăng ký sẽ tự động gia hạn và bạn vẫn giữ mọi tính năng cao cấp.
+
+{{#manageSubscriptionUrl}}
+Nếu không muốn tiếp tục, bạn có thể hủy trước khi hết thời gian dùng thử:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Cảm ơn bạn đã dùng thử Eatmoji!
+
+Trân trọng,
+Đội ngũ Eatmoji`
+  },
+
+  'id': {
+    subject: 'Uji coba gratis Eatmoji Anda segera berakhir',
+    content: `Halo {{userName}},
+
+Sekadar mengingatkan: uji coba gratis Eatmoji Anda berakhir pada {{trialEndDate}}. Setelah itu, langganan Anda akan diperpanjang otomatis dan Anda tetap mendapatkan semua fitur premium.
+
+{{#manageSubscriptionUrl}}
+Jika tidak ingin melanjutkan, Anda dapat membatalkan sebelum uji coba berakhir:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Terima kasih telah mencoba Eatmoji!
+
+Salam hangat,
+Tim Eatmoji`
+  },
+
+  'ms': {
+    subject: 'Percubaan percuma Eatmoji anda akan tamat',
+    content: `Hai {{userName}},
+
+Peringatan: percubaan percuma Eatmoji anda akan tamat pada {{trialEndDate}}. Selepas itu, langganan anda akan diperbaharui secara automatik dan anda akan terus menikmati semua ciri premium.
+
+{{#manageSubscriptionUrl}}
+Jika anda tidak mahu meneruskan, anda boleh membatalkan sebelum percubaan tamat:
+{{manageSubscriptionUrl}}
+
+{{/manageSubscriptionUrl}}
+Terima kasih kerana mencuba Eatmoji!
+
+Salam mesra,
+Pasukan Eatmoji`
+  }
+};
+
+
+// 挽回郵件（EXPIRATION 後 N 天排程發送）
+const WIN_BACK_TEMPLATES: Record<string, EmailTemplate> = {
+  'zh-TW': {
+    subject: '好久不見，Eatmoji 想念您',
+    content: `親愛的 {{userName}}，
+
+您的 Eatmoji 進階訂閱已經結束一段時間了。這段期間我們持續改進，很希望您能再回來看看。
+
+{{#resubscribeUrl}}
+隨時歡迎您重新訂閱：
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+無論您的目標是什麼，我們都會陪您一起達成。
+
+此致，
+Eatmoji 團隊`
+  },
+
+  'zh-CN': {
+    subject: '好久不见，Eatmoji 想念您',
+    content: `亲爱的 {{userName}}，
+
+您的 Eatmoji 高级订阅已经结束一段时间了。这段期间我们持续改进，很希望您能再回来看看。
+
+{{#resubscribeUrl}}
+随时欢迎您重新订阅：
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+无论您的目标是什么，我们都会陪您一起达成。
+
+此致，
+Eatmoji 团队`
+  },
+
+  'en': {
+    subject: 'We miss you at Eatmoji',
+    content: `Hi {{userName}},
+
+It's been a while since your Eatmoji premium subscription ended. We've kept improving since then, and we'd love to have you back.
+
+{{#resubscribeUrl}}
+You can resubscribe anytime here:
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+Whatever your goals are, we're here to help you reach them.
+
+Best regards,
+The Eatmoji Team`
+  },
+
+  'ja': {
+    subject: 'Eatmoji でまたお会いしたいです',
+    content: `{{userName}} 様
+
+Eatmoji プレミアムのご利用が終了してからしばらく経ちました。その間も改善を続けておりますので、ぜひまたお試しください。
+
+{{#resubscribeUrl}}
+再登録はいつでもこちらから可能です：
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+どんな目標でも、達成に向けてサポートいたします。
+
+敬具，
+Eatmoji チーム`
+  },
+
+  'ko': {
+    subject: 'Eatmoji가 당신을 기다리고 있어요',
+    content: `{{userName}} 님께，
+
+Eatmoji 프리미엄 구독이 종료된 지 시간이 좀 지났습니다. 그동안 저희는 계속 서비스를 개선해 왔으며, 다시 돌아와 주시길 바랍니다.
+
+{{#resubscribeUrl}}
+언제든지 여기에서 다시 구독하실 수 있습니다:
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+어떤 목표든 달성하실 수 있도록 함께하겠습니다.
+
+감사합니다，
+Eatmoji 팀`
+  },
+
+  'es': {
+    subject: 'Te echamos de menos en Eatmoji',
+    content: `Hola {{userName}},
+
+Ha pasado un tiempo desde que terminó tu suscripción premium de Eatmoji. Desde entonces hemos seguido mejorando y nos encantaría que volvieras.
+
+{{#resubscribeUrl}}
+Puedes volver a suscribirte cuando quieras aquí:
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+Sean cuales sean tus objetivos, estamos aquí para ayudarte a alcanzarlos.
+
+Saludos cordiales,
+El equipo de Eatmoji`
+  },
+
+  'fr': {
+    subject: 'Vous nous manquez sur Eatmoji',
+    content: `Bonjour {{userName}},
+
+Votre abonnement premium Eatmoji a pris fin il y a quelque temps. Depuis, nous avons continué à nous améliorer et nous serions ravis de vous revoir.
+
+{{#resubscribeUrl}}
+Vous pouvez vous réabonner à tout moment ici :
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+Quels que soient vos objectifs, nous sommes là pour vous aider à les atteindre.
+
+Cordialement,
+L'équipe Eatmoji`
+  },
+
+  'de': {
+    subject: 'Wir vermissen dich bei Eatmoji',
+    content: `Hallo {{userName}},
+
+dein Eatmoji-Premium-Abo ist schon eine Weile abgelaufen. Seitdem haben wir vieles verbessert und würden uns freuen, dich wiederzusehen.
+
+{{#resubscribeUrl}}
+Du kannst jederzeit hier wieder abonnieren:
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+Was auch immer deine Ziele sind, wir helfen dir, sie zu erreichen.
+
+Viele Grüße
+Dein Eatmoji-Team`
+  },
+
+  'pt-BR': {
+    subject: 'Sentimos sua falta no Eatmoji',
+    content: `Olá {{userName}},
+
+Já faz um tempo que sua assinatura premium do Eatmoji terminou. Desde então, continuamos melhorando e adoraríamos ter você de volta.
+
+{{#resubscribeUrl}}
+Você pode assinar novamente a qualquer momento aqui:
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+Quaisquer que sejam seus objetivos, estamos aqui para ajudar você a alcançá-los.
+
+Atenciosamente,
+Equipe Eatmoji`
+  },
+
+  'th': {
+    subject: 'Eatmoji คิดถึงคุณ',
+    content: `เรียน {{userName}}
+
+การสมัครสมาชิกพรีเมียมของ Eatmoji ของคุณสิ้นสุดไประยะหนึ่งแล้ว ระหว่างนี้เราได้พัฒนาอย่างต่อเนื่อง และอยากให้คุณกลับมาลองอีกครั้ง
+
+{{#resubscribeUrl}}
+คุณสามารถสมัครใหม่ได้ทุกเมื่อที่นี่:
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+ไม่ว่าเป้าหมายของคุณคืออะไร เราพร้อมช่วยให้คุณไปถึง
+
+ขอแสดงความนับถือ
+ทีมงาน Eatmoji`
+  },
+
+  'vi': {
+    subject: 'Eatmoji nhớ bạn',
+    content: `Xin chào {{userName}},
+
+Đã một thời gian kể từ khi gói cao cấp Eatmoji của bạn kết thúc. Từ đó đến nay chúng tôi vẫn không ngừng cải thiện và rất mong bạn quay lại.
+
+{{#resubscribeUrl}}
+Bạn có thể đăng ký lại bất cứ lúc nào tại đây:
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+Dù mục tiêu của bạn là gì, chúng tôi luôn sẵn sàng đồng hành.
+
+Trân trọng,
+Đội ngũ Eatmoji`
+  },
+
+  'id': {
+    subject: 'Kami rindu Anda di Eatmoji',
+    content: `Halo {{userName}},
+
+Sudah beberapa waktu sejak langganan premium Eatmoji Anda berakhir. Sejak itu kami terus melakukan perbaikan dan ingin sekali Anda kembali.
+
+{{#resubscribeUrl}}
+Anda dapat berlangganan kembali kapan saja di sini:
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+Apa pun target Anda, kami siap membantu Anda mencapainya.
+
+Salam hangat,
+Tim Eatmoji`
+  },
+
+  'ms': {
+    subject: 'Kami rindukan anda di Eatmoji',
+    content: `Hai {{userName}},
+
+Sudah agak lama sejak langganan premium Eatmoji anda tamat. Sejak itu kami terus membuat penambahbaikan dan ingin sekali anda kembali.
+
+{{#resubscribeUrl}}
+Anda boleh melanggan semula pada bila-bila masa di sini:
+{{resubscribeUrl}}
+
+{{/resubscribeUrl}}
+Apa jua matlamat anda, kami sedia membantu anda mencapainya.
+
+Salam mesra,
+Pasukan Eatmoji`
+  }
+};
+
 /**
  * 獲取指定語言的郵件模板
  * @param language 語言代碼
  * @param templateType 模板類型
  * @returns 郵件模板
  */
-export function getEmailTemplate(language: string, templateType: 'cancellation'): EmailTemplate | null {
+export function getEmailTemplate(language: string, templateType: EmailTemplateType): EmailTemplate | null {
   switch (templateType) {
     case 'cancellation':
       return CANCELLATION_TEMPLATES[language] || null;
+    case 'welcome':
+      return WELCOME_TEMPLATES[language] || null;
+    case 'billing_issue':
+      return BILLING_ISSUE_TEMPLATES[language] || null;
+    case 'trial_ending':
+      return TRIAL_ENDING_TEMPLATES[language] || null;
+    case 'win_back':
+      return WIN_BACK_TEMPLATES[language] || null;
     default:
       return null;
   }
@@ -232,4 +1109,50 @@ export function getSupportedLanguages(): string[] {
  */
 export function isLanguageSupported(language: string): boolean {
   return language in CANCELLATION_TEMPLATES;
-}
\ No newline at end of file
+}
+
+// 使用者 locale（下劃線格式、小寫）對應到郵件模板語言
+const EMAIL_LANGUAGE_MAP: Record<string, string> = {
+  zh_hant: 'zh-TW',
+  zh_tw: 'zh-TW',
+  zh_hans: 'zh-CN',
+  zh_cn: 'zh-CN',
+  en_us: 'en',
+  pt_br: 'pt-BR',
+  zh: 'zh-CN',
+  en: 'en',
+  ja: 'ja',
+  ko: 'ko',
+  es: 'es',
+  fr: 'fr',
+  de: 'de',
+  pt: 'pt-BR',
+  th: 'th',
+  vi: 'vi',
+  id: 'id',
+  ms: 'ms',
+};
+
+/**
+ * 將使用者 locale（例如 zh-Hant-TW、pt_BR、ja）轉換為郵件模板語言代碼
+ * @param locale 使用者 locale
+ * @returns 語言代碼，無法匹配時返回 undefined
+ */
+export function resolveEmailLanguage(locale: string | null | undefined): string | undefined {
+  if (!locale) return undefined;
+
+  const normalizedLocale = locale.toLowerCase().replace(/-/g, '_');
+
+  // 按具體性排序（從最具體到最一般），進行包含匹配
+  const languageKeys = Object.keys(EMAIL_LANGUAGE_MAP).sort(
+    (a, b) => b.length - a.length
+  );
+
+  for (const key of languageKeys) {
+    if (normalizedLocale.includes(key)) {
+      return EMAIL_LANGUAGE_MAP[key];
+    }
+  }
+
+  return undefined;
+}
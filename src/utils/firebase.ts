@@ -9,6 +9,7 @@ import {
   FirebaseStorageConfig, 
   IStorageService 
 } from "../services/storageService";
+import { registerFirestoreRestAccess } from "./firestoreRest";
 
 /**
  * Initialize Firestore client with proper configuration
@@ -32,7 +33,9 @@ export function initializeFirestore(env: any): FirestoreClient {
     privateKey: env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, "\n"), // Fix escaped newlines
   };
 
-  return createFirestoreClient(config);
+  const client = createFirestoreClient(config);
+  registerFirestoreRestAccess(client, config);
+  return client;
 }
 
 /**
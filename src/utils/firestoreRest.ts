@@ -0,0 +1,200 @@
+import {
+  FirestoreClient,
+  QuerySnapshot,
+  convertFromFirestoreDocument,
+  getFirestoreBasePath,
+  getFirestoreToken,
+  type FirestoreConfig,
+} from "firebase-rest-firestore";
+
+/**
+ * Firestore REST API 補充操作
+ * firebase-rest-firestore 不支援欄位轉換（increment）、寫入前置條件、查詢游標與聚合查詢，
+ * 這些操作直接呼叫 Firestore REST API（:commit、:runQuery、:runAggregationQuery）
+ */
+
+/**
+ * Firestore REST API 錯誤（status 為 gRPC 狀態，例如 NOT_FOUND、ALREADY_EXISTS）
+ */
+export class FirestoreRestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: string,
+    public readonly httpStatus: number
+  ) {
+    super(message);
+    this.name = "FirestoreRestError";
+  }
+}
+
+interface FirestoreRestAccess {
+  config: FirestoreConfig;
+  token?: string;
+  tokenExpiry?: number;
+}
+
+// FirestoreClient 不公開設定與 token，建立 client 時另外登記
+const restAccessByClient = new WeakMap<FirestoreClient, FirestoreRestAccess>();
+
+/**
+ * 登記 FirestoreClient 對應的設定，供 REST 補充操作使用
+ * @param client FirestoreClient
+ * @param config 建立 client 時使用的設定
+ */
+export function registerFirestoreRestAccess(
+  client: FirestoreClient,
+  config: FirestoreConfig
+): void {
+  restAccessByClient.set(client, { config });
+}
+
+function getRestAccess(client: FirestoreClient): FirestoreRestAccess {
+  const access = restAccessByClient.get(client);
+  if (!access) {
+    throw new Error(
+      "FirestoreClient 未登記 REST 設定，請使用 initializeFirestore 建立"
+    );
+  }
+  return access;
+}
+
+/**
+ * 取得 documents 根路徑的 URL
+ */
+function getDocumentsUrl(access: FirestoreRestAccess): string {
+  const { projectId, databaseId } = access.config;
+  return getFirestoreBasePath(projectId, databaseId, access.config);
+}
+
+/**
+ * 取得文件的完整資源名稱（projects/{p}/databases/{d}/documents/{path}）
+ * @param client FirestoreClient
+ * @param documentPath 文件路徑，例如 recipes/abc
+ * @returns 文件資源名稱
+ */
+export function getDocumentName(
+  client: FirestoreClient,
+  documentPath: string
+): string {
+  const { projectId, databaseId } = getRestAccess(client).config;
+  return `projects/${projectId}/databases/${databaseId || "(default)"}/documents/${documentPath}`;
+}
+
+/**
+ * 發送 REST 請求（token 快取 50 分鐘，與 FirestoreClient 相同）
+ */
+async function request<T>(
+  client: FirestoreClient,
+  url: string,
+  body: unknown
+): Promise<T> {
+  const access = getRestAccess(client);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  if (!access.config.useEmulator) {
+    const now = Date.now();
+    if (!access.token || now >= (access.tokenExpiry ?? 0)) {
+      access.token = await getFirestoreToken(access.config);
+      access.tokenExpiry = now + 50 * 60 * 1000;
+    }
+    headers["Authorization"] = `Bearer ${access.token}`;
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    let status = "UNKNOWN";
+    try {
+      status = JSON.parse(errorText)?.error?.status ?? status;
+    } catch {
+      // 非 JSON 錯誤內容，保留 UNKNOWN
+    }
+    throw new FirestoreRestError(
+      `Firestore API error: ${response.status} - ${errorText}`,
+      status,
+      response.status
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * 以單一 commit 原子寫入多筆 Write（任一前置條件失敗時全部不寫入）
+ * @param client FirestoreClient
+ * @param writes Firestore REST Write 物件
+ */
+export async function commitWrites(
+  client: FirestoreClient,
+  writes: Record<string, unknown>[]
+): Promise<void> {
+  const access = getRestAccess(client);
+  await request(client, `${getDocumentsUrl(access)}:commit`, { writes });
+}
+
+/**
+ * 執行 StructuredQuery
+ * @param client FirestoreClient
+ * @param parentPath 父文件路徑（頂層 collection 傳空字串）
+ * @param structuredQuery Firestore REST StructuredQuery
+ * @returns QuerySnapshot
+ */
+export async function runStructuredQuery(
+  client: FirestoreClient,
+  parentPath: string,
+  structuredQuery: Record<string, unknown>
+): Promise<QuerySnapshot> {
+  const access = getRestAccess(client);
+  const parentUrl = parentPath
+    ? `${getDocumentsUrl(access)}/${parentPath}`
+    : getDocumentsUrl(access);
+
+  const results = await request<{ document?: any }[]>(
+    client,
+    `${parentUrl}:runQuery`,
+    { structuredQuery }
+  );
+
+  return new QuerySnapshot(
+    (Array.isArray(results) ? results : [])
+      .filter((item) => item.document)
+      .map((item) => convertFromFirestoreDocument(item.document))
+  );
+}
+
+/**
+ * 計算 StructuredQuery 符合的文件數（不讀取文件內容）
+ * @param client FirestoreClient
+ * @param parentPath 父文件路徑（頂層 collection 傳空字串）
+ * @param structuredQuery Firestore REST StructuredQuery
+ * @returns 文件數
+ */
+export async function countStructuredQuery(
+  client: FirestoreClient,
+  parentPath: string,
+  structuredQuery: Record<string, unknown>
+): Promise<number> {
+  const access = getRestAccess(client);
+  const parentUrl = parentPath
+    ? `${getDocumentsUrl(access)}/${parentPath}`
+    : getDocumentsUrl(access);
+
+  const results = await request<
+    { result?: { aggregateFields?: Record<string, any> } }[]
+  >(client, `${parentUrl}:runAggregationQuery`, {
+    structuredAggregationQuery: {
+      structuredQuery,
+      aggregations: [{ alias: "count", count: {} }],
+    },
+  });
+
+  const count = results?.[0]?.result?.aggregateFields?.count?.integerValue;
+  return Number(count ?? 0);
+}
@@ -1,4 +1,9 @@
-import { SupportedLanguage } from "../types/gemini";
+import {
+  MealPlanCandidate,
+  MealPlanGenerationContext,
+  SupportedLanguage,
+} from "../types/gemini";
+import { GoalType } from "../types/user";
 
 /**
  * 創建餐點文字分析提示詞
@@ -564,3 +569,91 @@ AI 自動添加食材描述：
 請根據上述內容進行多語言翻譯，僅翻譯名稱、描述和步驟，不得創作額外內容。
 `.trim();
 }
+
+/**
+ * 創建餐點計畫生成提示詞
+ * @param context 由伺服器組成的使用者目標與候選餐點
+ * @param userLanguage 用戶語言代碼
+ * @returns 提示詞
+ */
+export function createGenerateMealPlanPrompt(
+  context: MealPlanGenerationContext,
+  userLanguage: SupportedLanguage = "zh_TW"
+): string {
+  const languageMap: { [key in SupportedLanguage]: string } = {
+    zh_TW: "繁體中文",
+    zh_CN: "简体中文",
+    en: "English",
+    ja: "日本語",
+    ko: "한국어",
+    vi: "Tiếng Việt",
+    th: "ภาษาไทย",
+    ms: "Bahasa Melayu",
+    id: "Bahasa Indonesia",
+    fr: "Français",
+    de: "Deutsch",
+    es: "Español",
+    pt_BR: "Português (Brasil)",
+  };
+
+  const goalMap: { [key in GoalType]: string } = {
+    [GoalType.LOSE_WEIGHT]: "減重（維持熱量赤字，優先高蛋白、高飽足感的餐點）",
+    [GoalType.MAINTAIN]: "維持體重（熱量貼近目標）",
+    [GoalType.GAIN_WEIGHT]: "增重（確保達到熱量目標，蛋白質充足）",
+  };
+
+  const responseLanguage = languageMap[userLanguage] || "繁體中文";
+  const { targets } = context;
+  const formatTarget = (value: number | null, unit: string) =>
+    value === null ? "未設定" : `${value} ${unit}`;
+
+  const favFoods = context.candidates.filter(
+    (candidate) => candidate.sourceType === "favFood"
+  );
+  const recipes = context.candidates.filter(
+    (candidate) => candidate.sourceType === "recipe"
+  );
+  const formatCandidate = (candidate: MealPlanCandidate) =>
+    `- id: ${candidate.sourceId} | ${candidate.name} | ${candidate.calories} kcal, P ${candidate.protein}g, C ${candidate.carbs}g, F ${candidate.fat}g${
+      candidate.tags.length > 0 ? ` | tags: ${candidate.tags.join(", ")}` : ""
+    }`;
+
+  return `
+你是一位專業營養師，請根據使用者的營養目標與飲食偏好，安排從 ${context.startDate} 開始、共 ${context.days} 天的餐點計畫。
+
+### 🎯 使用者目標
+
+- 每日熱量：${formatTarget(targets.calories, "kcal")}
+- 每日蛋白質：${formatTarget(targets.protein, "g")}
+- 每日碳水化合物：${formatTarget(targets.carbs, "g")}
+- 每日脂肪：${formatTarget(targets.fat, "g")}
+- 體重目標：${context.goal ? goalMap[context.goal] : "未設定"}
+- 飲食偏好：${context.dietaryTags.length > 0 ? context.dietaryTags.join(", ") : "無特別限制"}
+
+### 📌 核心規則
+
+1. 每天必須包含 breakfast、lunch、dinner，必要時可加入 snack 補足目標。
+2. **優先使用使用者的收藏食物（favFood）**，其次使用候選公開食譜（recipe）；只有候選清單無法滿足需求時才使用 custom 餐點。
+3. 使用候選餐點時，sourceId 必須與候選清單中的 id **完全相同**，不可自行編造。
+4. 候選營養素為「每份」數值，餐點營養素 = 每份營養素 × servings；servings 請使用 0.5 的倍數。
+5. 每日總熱量應落在目標的 ±10% 內，三大營養素盡量貼近目標。
+6. 飲食偏好為硬性限制（例如 vegan 不可出現任何動物性食材）。
+7. 同一餐點在整個計畫中最多出現 3 次，避免連續兩天的同一餐別重複。
+8. 熱量必須符合公式：calories = (protein × 4) + (carbs × 4) + (fat × 9)。
+9. 餐點名稱與 summary 使用「${responseLanguage}」。
+
+### 🍱 使用者收藏食物（favFood）
+
+${favFoods.length > 0 ? favFoods.map(formatCandidate).join("\n") : "（無）"}
+
+### 📖 候選公開食譜（recipe）
+
+${recipes.length > 0 ? recipes.map(formatCandidate).join("\n") : "（無）"}
+
+### ❌ 錯誤處理
+
+若飲食偏好彼此矛盾而無法安排，請回傳：{ "error": "飲食偏好互相衝突，無法生成餐點計畫" }
+
+請依照以上規則輸出結構化的餐點計畫。
+`;
+}
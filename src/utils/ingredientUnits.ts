@@ -0,0 +1,403 @@
+import { IngredientUnitFamily } from "../types/shoppingList";
+
+/**
+ * 食材單位正規化工具函數
+ * 將各語言的食材單位對應到基準單位（公克、毫升、個），以便合併不同食譜的食材
+ */
+
+/**
+ * 單位換算定義
+ */
+interface UnitDefinition {
+  family: Exclude<IngredientUnitFamily, "other">;
+  factor: number; // 換算為基準單位（g / ml / 個）的倍數
+  aliases: string[];
+}
+
+const UNIT_DEFINITIONS: UnitDefinition[] = [
+  {
+    family: "mass",
+    factor: 1,
+    aliases: [
+      "g",
+      "gram",
+      "grams",
+      "gr",
+      "公克",
+      "克",
+      "グラム",
+      "그램",
+      "gam",
+      "กรัม",
+      "gramos",
+      "gramas",
+      "gramm",
+      "grammes",
+    ],
+  },
+  {
+    family: "mass",
+    factor: 1000,
+    aliases: [
+      "kg",
+      "kilogram",
+      "kilograms",
+      "公斤",
+      "千克",
+      "キログラム",
+      "킬로그램",
+      "กิโลกรัม",
+    ],
+  },
+  {
+    family: "volume",
+    factor: 1,
+    aliases: [
+      "ml",
+      "milliliter",
+      "milliliters",
+      "millilitre",
+      "millilitres",
+      "cc",
+      "毫升",
+      "ミリリットル",
+      "밀리리터",
+      "มิลลิลิตร",
+    ],
+  },
+  {
+    family: "volume",
+    factor: 1000,
+    aliases: [
+      "l",
+      "liter",
+      "liters",
+      "litre",
+      "litres",
+      "公升",
+      "升",
+      "リットル",
+      "리터",
+      "ลิตร",
+      "lít",
+    ],
+  },
+  {
+    family: "volume",
+    factor: 240,
+    aliases: [
+      "cup",
+      "cups",
+      "杯",
+      "カップ",
+      "컵",
+      "ถ้วย",
+      "tasse",
+      "tasses",
+      "taza",
+      "tazas",
+      "xícara",
+      "xícaras",
+      "cawan",
+      "gelas",
+    ],
+  },
+  {
+    family: "volume",
+    factor: 15,
+    aliases: [
+      "tbsp",
+      "tablespoon",
+      "tablespoons",
+      "大匙",
+      "湯匙",
+      "汤匙",
+      "大さじ",
+      "큰술",
+      "큰스푼",
+      "ช้อนโต๊ะ",
+      "muỗng canh",
+      "c. à soupe",
+      "cuillère à soupe",
+      "el",
+      "esslöffel",
+      "cucharada",
+      "cucharadas",
+      "colher de sopa",
+      "sudu besar",
+      "sendok makan",
+    ],
+  },
+  {
+    family: "volume",
+    factor: 5,
+    aliases: [
+      "tsp",
+      "teaspoon",
+      "teaspoons",
+      "小匙",
+      "茶匙",
+      "小さじ",
+      "작은술",
+      "작은스푼",
+      "ช้อนชา",
+      "muỗng cà phê",
+      "c. à café",
+      "cuillère à café",
+      "tl",
+      "teelöffel",
+      "cucharadita",
+      "cucharaditas",
+      "colher de chá",
+      "sudu kecil",
+      "sendok teh",
+    ],
+  },
+  {
+    family: "count",
+    factor: 1,
+    aliases: [
+      "piece",
+      "pieces",
+      "pc",
+      "pcs",
+      "個",
+      "个",
+      "顆",
+      "颗",
+      "つ",
+      "개",
+      "ชิ้น",
+      "cái",
+      "quả",
+      "biji",
+      "buah",
+      "pièce",
+      "pièces",
+      "stück",
+      "stk",
+      "pieza",
+      "piezas",
+      "unidad",
+      "unidades",
+      "unidade",
+    ],
+  },
+];
+
+/**
+ * 別名 → 單位定義的查詢表
+ */
+const UNIT_LOOKUP = new Map<string, UnitDefinition>();
+for (const definition of UNIT_DEFINITIONS) {
+  for (const alias of definition.aliases) {
+    UNIT_LOOKUP.set(alias, definition);
+  }
+}
+
+/**
+ * 基準單位的多語言顯示名稱
+ */
+const UNIT_LABELS: Record<
+  "g" | "kg" | "ml" | "l" | "piece",
+  Record<string, string>
+> = {
+  g: {
+    zh_TW: "公克",
+    zh_CN: "克",
+    en: "g",
+    ja: "g",
+    ko: "g",
+    vi: "g",
+    th: "กรัม",
+    ms: "g",
+    id: "g",
+    fr: "g",
+    de: "g",
+    es: "g",
+    pt_BR: "g",
+  },
+  kg: {
+    zh_TW: "公斤",
+    zh_CN: "千克",
+    en: "kg",
+    ja: "kg",
+    ko: "kg",
+    vi: "kg",
+    th: "กิโลกรัม",
+    ms: "kg",
+    id: "kg",
+    fr: "kg",
+    de: "kg",
+    es: "kg",
+    pt_BR: "kg",
+  },
+  ml: {
+    zh_TW: "毫升",
+    zh_CN: "毫升",
+    en: "ml",
+    ja: "ml",
+    ko: "ml",
+    vi: "ml",
+    th: "มล.",
+    ms: "ml",
+    id: "ml",
+    fr: "ml",
+    de: "ml",
+    es: "ml",
+    pt_BR: "ml",
+  },
+  l: {
+    zh_TW: "公升",
+    zh_CN: "升",
+    en: "L",
+    ja: "L",
+    ko: "L",
+    vi: "L",
+    th: "ลิตร",
+    ms: "L",
+    id: "L",
+    fr: "L",
+    de: "L",
+    es: "L",
+    pt_BR: "L",
+  },
+  piece: {
+    zh_TW: "個",
+    zh_CN: "个",
+    en: "pcs",
+    ja: "個",
+    ko: "개",
+    vi: "cái",
+    th: "ชิ้น",
+    ms: "biji",
+    id: "buah",
+    fr: "pièces",
+    de: "Stück",
+    es: "piezas",
+    pt_BR: "unidades",
+  },
+};
+
+/**
+ * 正規化後的食材份量
+ */
+export interface NormalizedAmount {
+  family: IngredientUnitFamily;
+  value: number; // mass 為公克、volume 為毫升、count 為個數，other 為原始數值
+  unitKey: string; // other 時為原始單位（用於區分不同的無法換算單位）
+}
+
+/**
+ * 將多語言單位正規化為基準單位
+ * 優先使用英文單位，找不到時依序嘗試其他語言
+ * @param amountValue 份量
+ * @param amountUnit 多語言單位
+ * @returns 正規化後的份量
+ */
+export function normalizeIngredientAmount(
+  amountValue: number,
+  amountUnit: Record<string, string> | undefined
+): NormalizedAmount {
+  const units = amountUnit || {};
+  const candidates = [units.en, ...Object.values(units)].filter(
+    (unit): unit is string => !!unit
+  );
+
+  for (const unit of candidates) {
+    const definition = UNIT_LOOKUP.get(unit.trim().toLowerCase());
+    if (definition) {
+      return {
+        family: definition.family,
+        value: amountValue * definition.factor,
+        unitKey: definition.family,
+      };
+    }
+  }
+
+  return {
+    family: "other",
+    value: amountValue,
+    unitKey: (candidates[0] || "").trim().toLowerCase(),
+  };
+}
+
+/**
+ * 將基準單位的份量轉換為適合顯示的單位
+ * - 1000 公克以上顯示為公斤，1000 毫升以上顯示為公升
+ * @param family 單位種類（不含 other）
+ * @param value 基準單位的數值
+ * @returns 顯示用的數值與多語言單位
+ */
+export function toDisplayAmount(
+  family: Exclude<IngredientUnitFamily, "other">,
+  value: number
+): { amountValue: number; amountUnit: Record<string, string> } {
+  if (family === "mass") {
+    return value >= 1000
+      ? {
+          amountValue: roundAmount(value / 1000),
+          amountUnit: { ...UNIT_LABELS.kg },
+        }
+      : { amountValue: roundAmount(value), amountUnit: { ...UNIT_LABELS.g } };
+  }
+
+  if (family === "volume") {
+    return value >= 1000
+      ? {
+          amountValue: roundAmount(value / 1000),
+          amountUnit: { ...UNIT_LABELS.l },
+        }
+      : { amountValue: roundAmount(value), amountUnit: { ...UNIT_LABELS.ml } };
+  }
+
+  return {
+    amountValue: roundAmount(value),
+    amountUnit: { ...UNIT_LABELS.piece },
+  };
+}
+
+/**
+ * 份量四捨五入到小數點後 2 位
+ * @param value 原始數值
+ * @returns 四捨五入後的數值
+ */
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 產生食材的合併鍵（以英文名稱為準）
+ * - 轉小寫、去除多餘空白
+ * - 簡單處理英文複數（tomatoes → tomato、berries → berry、onions → onion）
+ * - 沒有英文名稱時退回繁體中文或任一語言
+ * @param name 多語言食材名稱
+ * @returns 合併鍵，沒有任何名稱時為空字串
+ */
+export function getIngredientKey(
+  name: Record<string, string> | undefined
+): string {
+  const names = name || {};
+  const english = (names.en || "").trim().toLowerCase().replace(/\s+/g, " ");
+
+  if (english) {
+    if (english.endsWith("ies") && english.length > 4) {
+      return english.slice(0, -3) + "y";
+    }
+    if (english.endsWith("oes")) {
+      return english.slice(0, -2);
+    }
+    if (
+      english.endsWith("s") &&
+      !english.endsWith("ss") &&
+      english.length > 3
+    ) {
+      return english.slice(0, -1);
+    }
+    return english;
+  }
+
+  const fallback =
+    names.zh_TW || Object.values(names).find((text) => !!text) || "";
+  return fallback.trim().toLowerCase();
+}
@@ -0,0 +1,159 @@
+import {
+  GeneratedMealPlanDay,
+  GeneratedMealPlanMeal,
+  GeneratedMealPlanResult,
+  MealPlanCandidate,
+  MealPlanGenerationContext,
+} from "../types/gemini";
+
+/**
+ * AI 餐點計畫的後處理工具函數
+ *
+ * AI 回傳的營養素可能與資料庫不一致，因此：
+ * - 引用候選餐點時，名稱與營養素一律以伺服器資料 × 份數重新計算
+ * - 引用不存在的候選 ID 時，降級為 custom 餐點
+ * - 日期與每日總計由伺服器重新產生
+ */
+
+const MEAL_SLOTS: GeneratedMealPlanMeal["slot"][] = [
+  "breakfast",
+  "lunch",
+  "dinner",
+  "snack",
+];
+
+/**
+ * 四捨五入到小數點後一位
+ * @param value 數值
+ * @returns 四捨五入後的數值
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * 將 YYYY-MM-DD 日期加上指定天數
+ * @param key 日期鍵
+ * @param days 天數
+ * @returns 新的日期鍵
+ */
+function addDays(key: string, days: number): string {
+  const [year, month, day] = key.split("-").map(Number);
+  const date = new Date(year, month - 1, day + days);
+  const y = date.getFullYear();
+  const m = (date.getMonth() + 1).toString().padStart(2, "0");
+  const d = date.getDate().toString().padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * 將份數調整為 0.5 的倍數（最少 0.5 份）
+ * @param servings AI 回傳的份數
+ * @returns 調整後的份數
+ */
+function normalizeServings(servings: unknown): number {
+  if (typeof servings !== "number" || !isFinite(servings) || servings <= 0) {
+    return 1;
+  }
+  return Math.max(0.5, Math.round(servings * 2) / 2);
+}
+
+/**
+ * 對齊單一餐點與候選資料
+ * @param meal AI 回傳的餐點
+ * @param candidates 候選餐點（以 sourceType:sourceId 為鍵）
+ * @returns 對齊後的餐點，格式無效時回傳 null
+ */
+function alignMeal(
+  meal: any,
+  candidates: Map<string, MealPlanCandidate>
+): GeneratedMealPlanMeal | null {
+  if (!meal || !MEAL_SLOTS.includes(meal.slot)) {
+    return null;
+  }
+
+  const servings = normalizeServings(meal.servings);
+  const candidate = candidates.get(`${meal.sourceType}:${meal.sourceId}`);
+
+  if (candidate) {
+    return {
+      slot: meal.slot,
+      sourceType: candidate.sourceType,
+      sourceId: candidate.sourceId,
+      name: candidate.name,
+      servings,
+      calories: round(candidate.calories * servings),
+      protein: round(candidate.protein * servings),
+      carbs: round(candidate.carbs * servings),
+      fat: round(candidate.fat * servings),
+    };
+  }
+
+  if (typeof meal.name !== "string" || meal.name.trim() === "") {
+    return null;
+  }
+
+  if (meal.sourceType !== "custom") {
+    console.warn(
+      `AI 引用了不存在的候選餐點 ${meal.sourceType}:${meal.sourceId}，改為 custom 餐點`
+    );
+  }
+
+  return {
+    slot: meal.slot,
+    sourceType: "custom",
+    sourceId: null,
+    name: meal.name.trim(),
+    servings,
+    calories: round(Number(meal.calories) || 0),
+    protein: round(Number(meal.protein) || 0),
+    carbs: round(Number(meal.carbs) || 0),
+    fat: round(Number(meal.fat) || 0),
+  };
+}
+
+/**
+ * 將 AI 回傳的餐點計畫與伺服器的候選資料對齊
+ * @param responseObject AI 回傳的原始物件（已確認包含 days 陣列）
+ * @param context 生成時使用的輸入資料
+ * @returns 對齊後的餐點計畫
+ */
+export function alignGeneratedMealPlan(
+  responseObject: any,
+  context: MealPlanGenerationContext
+): GeneratedMealPlanResult {
+  const candidates = new Map<string, MealPlanCandidate>();
+  for (const candidate of context.candidates) {
+    candidates.set(`${candidate.sourceType}:${candidate.sourceId}`, candidate);
+  }
+
+  const days: GeneratedMealPlanDay[] = (responseObject.days as any[])
+    .slice(0, context.days)
+    .map((day, index) => {
+      const rawMeals: any[] = Array.isArray(day?.meals) ? day.meals : [];
+      const meals = rawMeals
+        .map((meal) => alignMeal(meal, candidates))
+        .filter((meal): meal is GeneratedMealPlanMeal => meal !== null)
+        .sort(
+          (a, b) => MEAL_SLOTS.indexOf(a.slot) - MEAL_SLOTS.indexOf(b.slot)
+        );
+
+      const sum = (pick: (meal: GeneratedMealPlanMeal) => number) =>
+        round(meals.reduce((total, meal) => total + pick(meal), 0));
+
+      return {
+        date: addDays(context.startDate, index),
+        meals,
+        totalCalories: sum((meal) => meal.calories),
+        totalProtein: sum((meal) => meal.protein),
+        totalCarbs: sum((meal) => meal.carbs),
+        totalFat: sum((meal) => meal.fat),
+      };
+    });
+
+  return {
+    days,
+    summary:
+      typeof responseObject.summary === "string" ? responseObject.summary : "",
+  };
+}
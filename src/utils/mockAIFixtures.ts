@@ -0,0 +1,330 @@
+import { MultiLanguageText } from "../types/analyze";
+import { AIResponse } from "../types/gemini";
+
+/**
+ * Mock AI 回放用的 fixtures
+ * 以 function calling 的函數名稱為 key，內容為 AI 回傳的 functionCall.args，
+ * 營養素皆符合 蛋白質×4 + 碳水×4 + 脂肪×9，回放時不會觸發熱量校正
+ */
+
+const GRAM_UNIT: MultiLanguageText = {
+  zh_TW: "克",
+  zh_CN: "克",
+  en: "g",
+  ja: "グラム",
+  ko: "그램",
+  vi: "gam",
+  th: "กรัม",
+  ms: "gram",
+  id: "gram",
+  fr: "g",
+  de: "g",
+  es: "g",
+  pt_BR: "g",
+};
+
+const TOMATO_EGG_NAME: MultiLanguageText = {
+  zh_TW: "番茄炒蛋",
+  zh_CN: "番茄炒蛋",
+  en: "Tomato Scrambled Eggs",
+  ja: "トマトと卵の炒め物",
+  ko: "토마토 달걀 볶음",
+  vi: "Trứng xào cà chua",
+  th: "ไข่ผัดมะเขือเทศ",
+  ms: "Telur Hancur Tomato",
+  id: "Telur Orak-arik Tomat",
+  fr: "Œufs brouillés à la tomate",
+  de: "Rührei mit Tomaten",
+  es: "Huevos revueltos con tomate",
+  pt_BR: "Ovos mexidos com tomate",
+};
+
+const TOMATO_EGG_DESCRIPTION: MultiLanguageText = {
+  zh_TW: "酸甜滑嫩的家常快炒，十五分鐘上桌",
+  zh_CN: "酸甜滑嫩的家常快炒，十五分钟上桌",
+  en: "A sweet and tangy home-style stir-fry ready in 15 minutes",
+  ja: "甘酸っぱくてふんわりした家庭の炒め物、15分で完成",
+  ko: "새콤달콤하고 부드러운 가정식 볶음, 15분이면 완성",
+  vi: "Món xào gia đình chua ngọt, hoàn thành trong 15 phút",
+  th: "ผัดแบบบ้านๆ รสเปรี้ยวหวาน เสร็จใน 15 นาที",
+  ms: "Tumisan ala rumah yang masam manis, siap dalam 15 minit",
+  id: "Tumisan rumahan asam manis, siap dalam 15 menit",
+  fr: "Un sauté maison aigre-doux prêt en 15 minutes",
+  de: "Ein süß-säuerliches Pfannengericht, fertig in 15 Minuten",
+  es: "Un salteado casero agridulce listo en 15 minutos",
+  pt_BR: "Um refogado caseiro agridoce pronto em 15 minutos",
+};
+
+const TOMATO_EGG_STEPS: Array<{
+  order: number;
+  stepDescription: MultiLanguageText;
+}> = [
+  {
+    order: 1,
+    stepDescription: {
+      zh_TW: "將雞蛋打散後以熱油炒至半熟，盛起備用",
+      zh_CN: "将鸡蛋打散后以热油炒至半熟，盛起备用",
+      en: "Beat the eggs, scramble in hot oil until half set, then set aside",
+      ja: "卵を溶きほぐし、熱した油で半熟に炒めて取り出す",
+      ko: "달걀을 풀어 뜨거운 기름에 반숙으로 볶은 뒤 덜어 둔다",
+      vi: "Đánh tan trứng, xào với dầu nóng đến khi chín tới rồi để riêng",
+      th: "ตีไข่ให้เข้ากัน ผัดในน้ำมันร้อนจนสุกครึ่งหนึ่งแล้วพักไว้",
+      ms: "Pukul telur, goreng dalam minyak panas hingga separuh masak dan ketepikan",
+      id: "Kocok telur, tumis dalam minyak panas hingga setengah matang lalu sisihkan",
+      fr: "Battre les œufs, les brouiller à l'huile chaude jusqu'à mi-cuisson puis réserver",
+      de: "Eier verquirlen, in heißem Öl halb stocken lassen und beiseitestellen",
+      es: "Batir los huevos, saltearlos en aceite caliente hasta que cuajen a medias y reservar",
+      pt_BR:
+        "Bata os ovos, mexa em óleo quente até ficarem meio firmes e reserve",
+    },
+  },
+  {
+    order: 2,
+    stepDescription: {
+      zh_TW: "番茄切塊炒軟出汁，加入炒蛋拌勻即可",
+      zh_CN: "番茄切块炒软出汁，加入炒蛋拌匀即可",
+      en: "Stir-fry the tomato wedges until soft and juicy, then fold in the eggs",
+      ja: "トマトをくし切りにして柔らかくなるまで炒め、卵を戻して混ぜる",
+      ko: "토마토를 썰어 즙이 나올 때까지 볶고 달걀을 넣어 섞는다",
+      vi: "Xào cà chua cắt múi đến khi mềm ra nước, cho trứng vào đảo đều",
+      th: "ผัดมะเขือเทศหั่นชิ้นจนนิ่มและมีน้ำ ใส่ไข่ลงไปคลุกให้เข้ากัน",
+      ms: "Tumis tomato yang dipotong hingga lembut dan berair, kemudian masukkan telur",
+      id: "Tumis potongan tomat hingga lunak dan berair, lalu masukkan telur",
+      fr: "Faire revenir les quartiers de tomate jusqu'à ce qu'ils rendent leur jus, puis ajouter les œufs",
+      de: "Tomatenspalten weich und saftig braten, dann die Eier unterheben",
+      es: "Saltear los gajos de tomate hasta que suelten jugo y añadir los huevos",
+      pt_BR: "Refogue os gomos de tomate até soltarem suco e junte os ovos",
+    },
+  },
+];
+
+/**
+ * 各 AI 功能的 functionCall.args fixtures
+ */
+export const MOCK_AI_FUNCTION_CALL_FIXTURES: Record<string, any> = {
+  analyze_meal_text: {
+    name: "雞胸肉便當",
+    portions: 1,
+    calories: 529,
+    protein: 54.7,
+    carbs: 63,
+    fat: 6.4,
+    ingredients: [
+      {
+        name: "雞胸肉",
+        engName: "chicken breast",
+        calories: 235,
+        protein: 46.5,
+        carbs: 0,
+        fat: 5.4,
+        amountValue: 150,
+        amountUnit: "克",
+      },
+      {
+        name: "白飯",
+        engName: "white rice",
+        calories: 251,
+        protein: 5.4,
+        carbs: 56,
+        fat: 0.6,
+        amountValue: 200,
+        amountUnit: "克",
+      },
+      {
+        name: "花椰菜",
+        engName: "broccoli",
+        calories: 43,
+        protein: 2.8,
+        carbs: 7,
+        fat: 0.4,
+        amountValue: 100,
+        amountUnit: "克",
+      },
+    ],
+    health_assessment: {
+      score: 8,
+      pros: ["蛋白質充足", "脂肪含量低"],
+      cons: ["蔬菜份量略少"],
+    },
+  },
+
+  analyze_food_image: {
+    name: "番茄炒蛋",
+    calories: 261,
+    protein: 14,
+    carbs: 6.5,
+    fat: 19.8,
+    ingredients: [
+      {
+        name: "雞蛋",
+        engName: "egg",
+        calories: 139,
+        protein: 12.6,
+        carbs: 0.7,
+        fat: 9.5,
+        amountValue: 100,
+        amountUnit: "克",
+      },
+      {
+        name: "番茄",
+        engName: "tomato",
+        calories: 32,
+        protein: 1.4,
+        carbs: 5.8,
+        fat: 0.3,
+        amountValue: 150,
+        amountUnit: "克",
+      },
+      {
+        name: "植物油",
+        engName: "vegetable oil",
+        calories: 90,
+        protein: 0,
+        carbs: 0,
+        fat: 10,
+        amountValue: 10,
+        amountUnit: "克",
+      },
+    ],
+    health_assessment: {
+      score: 7,
+      pros: ["富含蛋白質與茄紅素"],
+      cons: ["用油量偏多"],
+    },
+  },
+
+  create_recipe: {
+    name: TOMATO_EGG_NAME,
+    description: TOMATO_EGG_DESCRIPTION,
+    calories: 475,
+    protein: 27.9,
+    carbs: 13.1,
+    fat: 34.6,
+    duration: 15,
+    difficulty: "easy",
+    servings: 2,
+    ingredients: [
+      {
+        name: {
+          zh_TW: "雞蛋",
+          zh_CN: "鸡蛋",
+          en: "Egg",
+          ja: "卵",
+          ko: "달걀",
+          vi: "Trứng",
+          th: "ไข่ไก่",
+          ms: "Telur",
+          id: "Telur",
+          fr: "Œuf",
+          de: "Ei",
+          es: "Huevo",
+          pt_BR: "Ovo",
+        },
+        amountValue: 200,
+        amountUnit: GRAM_UNIT,
+        calories: 277,
+        protein: 25.2,
+        carbs: 1.4,
+        fat: 19,
+      },
+      {
+        name: {
+          zh_TW: "番茄",
+          zh_CN: "番茄",
+          en: "Tomato",
+          ja: "トマト",
+          ko: "토마토",
+          vi: "Cà chua",
+          th: "มะเขือเทศ",
+          ms: "Tomato",
+          id: "Tomat",
+          fr: "Tomate",
+          de: "Tomate",
+          es: "Tomate",
+          pt_BR: "Tomate",
+        },
+        amountValue: 300,
+        amountUnit: GRAM_UNIT,
+        calories: 63,
+        protein: 2.7,
+        carbs: 11.7,
+        fat: 0.6,
+      },
+      {
+        name: {
+          zh_TW: "植物油",
+          zh_CN: "植物油",
+          en: "Vegetable oil",
+          ja: "サラダ油",
+          ko: "식용유",
+          vi: "Dầu ăn",
+          th: "น้ำมันพืช",
+          ms: "Minyak sayuran",
+          id: "Minyak sayur",
+          fr: "Huile végétale",
+          de: "Pflanzenöl",
+          es: "Aceite vegetal",
+          pt_BR: "Óleo vegetal",
+        },
+        amountValue: 15,
+        amountUnit: GRAM_UNIT,
+        calories: 135,
+        protein: 0,
+        carbs: 0,
+        fat: 15,
+      },
+    ],
+    steps: TOMATO_EGG_STEPS,
+    tags: ["lunch", "dinner", "chinese", "mainCourse"],
+    recipeHealthAssessment: {
+      score: 7,
+    },
+  },
+
+  edit_recipe: {
+    name: TOMATO_EGG_NAME,
+    description: TOMATO_EGG_DESCRIPTION,
+    steps: TOMATO_EGG_STEPS,
+  },
+
+  translate_ingredient: {
+    original: "雞胸肉",
+    english: "chicken breast",
+  },
+};
+
+/**
+ * 串流聊天的回放片段（依序輸出為 SSE data）
+ */
+export const MOCK_CHAT_STREAM_CHUNKS: string[] = [
+  "根據你最近的飲食紀錄，",
+  "蛋白質攝取相當穩定，",
+  "建議晚餐再多補充一份蔬菜。",
+];
+
+/**
+ * 取得指定函數的 fixture 並包裝成 Gemini 回應格式
+ * 每次返回新的副本，避免回應處理時的熱量校正改動 fixture
+ * @param functionName function calling 的函數名稱
+ * @returns Gemini 格式的 AI 回應
+ */
+export function getMockAIResponse(functionName: string): AIResponse {
+  const args = MOCK_AI_FUNCTION_CALL_FIXTURES[functionName];
+  if (!args) {
+    throw new Error(`Mock AI 沒有 ${functionName} 的 fixture`);
+  }
+
+  return {
+    candidates: [
+      {
+        content: {
+          parts: [
+            {
+              functionCall: { name: functionName, args: structuredClone(args) },
+            },
+          ],
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,271 @@
+import {
+  MultiLanguageText,
+  NutritionCorrection,
+  NutritionCorrectionReason,
+} from "../types/analyze";
+
+/**
+ * 熱量公式允許的誤差（大卡）
+ */
+const CALORIE_TOLERANCE = 5;
+
+/**
+ * 外層總計與食材加總允許的誤差（大卡 / 克）
+ */
+const TOTAL_CALORIE_TOLERANCE = 5;
+const TOTAL_MACRO_TOLERANCE = 0.5;
+
+/**
+ * 單一食材的合理上限，超過視為 AI 幻覺並截斷
+ */
+const INGREDIENT_LIMITS: Record<NutrientKey, number> = {
+  calories: 5000,
+  protein: 500,
+  carbs: 1000,
+  fat: 500,
+};
+
+/**
+ * 視為「克」的單位（含各語言寫法），用於檢查營養素總重是否超過食材重量
+ */
+const GRAM_UNITS = new Set([
+  "g",
+  "gr",
+  "gram",
+  "grams",
+  "gramm",
+  "gramme",
+  "grammes",
+  "gramo",
+  "gramos",
+  "grama",
+  "gramas",
+  "gam",
+  "克",
+  "公克",
+  "グラム",
+  "그램",
+  "กรัม",
+]);
+
+/**
+ * 需要嚴重修正時（需重新詢問 AI）的校正原因
+ */
+const SEVERE_REASONS: NutritionCorrectionReason[] = [
+  "invalid_value",
+  "out_of_range",
+  "exceeds_amount",
+];
+
+const NUTRIENT_KEYS = ["calories", "protein", "carbs", "fat"] as const;
+const MACRO_KEYS = ["protein", "carbs", "fat"] as const;
+
+type NutrientKey = (typeof NUTRIENT_KEYS)[number];
+
+/**
+ * 可校正的食材（餐點、圖片分析與食譜食材的共同欄位）
+ */
+interface ReconcilableIngredient {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  amountValue: number;
+  amountUnit: string | MultiLanguageText;
+}
+
+/**
+ * 可校正的分析結果（MealAnalysisResult / ImageAnalysisResult / RecipeAnalysisResult）
+ */
+interface ReconcilableResult {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  ingredients: ReconcilableIngredient[];
+  nutritionCorrections?: NutritionCorrection[];
+  error?: string;
+}
+
+/**
+ * 四捨五入到一位小數
+ */
+function roundToOneDecimal(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * 判斷食材單位是否為克
+ */
+function isGramUnit(unit: string | MultiLanguageText): boolean {
+  const text = typeof unit === "string" ? unit : unit?.en;
+  return !!text && GRAM_UNITS.has(text.trim().toLowerCase());
+}
+
+/**
+ * 校正單一食材，直接修改傳入的物件
+ * 1. 負數歸零
+ * 2. 超過合理上限者截斷
+ * 3. 單位為克時，三大營養素總重不可超過食材重量
+ * 4. 熱量必須符合 蛋白質×4 + 碳水×4 + 脂肪×9
+ */
+function reconcileIngredient(
+  ingredient: ReconcilableIngredient,
+  index: number
+): NutritionCorrection[] {
+  const corrections: NutritionCorrection[] = [];
+  const record = (
+    key: NutrientKey,
+    corrected: number,
+    reason: NutritionCorrectionReason
+  ) => {
+    corrections.push({
+      field: `ingredients[${index}].${key}`,
+      original: ingredient[key],
+      corrected,
+      reason,
+    });
+    ingredient[key] = corrected;
+  };
+
+  for (const key of NUTRIENT_KEYS) {
+    if (ingredient[key] < 0) {
+      record(key, 0, "invalid_value");
+    } else if (ingredient[key] > INGREDIENT_LIMITS[key]) {
+      record(key, INGREDIENT_LIMITS[key], "out_of_range");
+    }
+  }
+
+  const macroWeight = ingredient.protein + ingredient.carbs + ingredient.fat;
+  if (
+    isGramUnit(ingredient.amountUnit) &&
+    ingredient.amountValue > 0 &&
+    macroWeight > ingredient.amountValue
+  ) {
+    const factor = ingredient.amountValue / macroWeight;
+    for (const key of MACRO_KEYS) {
+      if (ingredient[key] > 0) {
+        record(
+          key,
+          roundToOneDecimal(ingredient[key] * factor),
+          "exceeds_amount"
+        );
+      }
+    }
+  }
+
+  const calculatedCalories =
+    ingredient.protein * 4 + ingredient.carbs * 4 + ingredient.fat * 9;
+  if (Math.abs(ingredient.calories - calculatedCalories) > CALORIE_TOLERANCE) {
+    record("calories", Math.round(calculatedCalories), "calorie_formula");
+  }
+
+  return corrections;
+}
+
+/**
+ * 校正 AI 分析結果的營養素一致性，直接修改傳入的物件
+ *
+ * 業務邏輯：
+ * - 逐一校正食材（負數、異常值、超過食材重量、熱量公式）
+ * - 外層總計一律以食材加總取代（熱量取整數，三大營養素取一位小數）
+ * - 所有修正記錄在 nutritionCorrections，隨回應返回給客戶端
+ *
+ * @param result 已通過格式驗證的分析結果
+ * @returns 校正紀錄
+ */
+export function reconcileNutrition(
+  result: ReconcilableResult
+): NutritionCorrection[] {
+  const corrections: NutritionCorrection[] = [];
+  const ingredients = Array.isArray(result.ingredients)
+    ? result.ingredients
+    : [];
+
+  ingredients.forEach((ingredient, index) => {
+    corrections.push(...reconcileIngredient(ingredient, index));
+  });
+
+  const totals = ingredients.reduce(
+    (sum, ingredient) => ({
+      calories: sum.calories + (ingredient.calories || 0),
+      protein: sum.protein + (ingredient.protein || 0),
+      carbs: sum.carbs + (ingredient.carbs || 0),
+      fat: sum.fat + (ingredient.fat || 0),
+    }),
+    { calories: 0, protein: 0, carbs: 0, fat: 0 }
+  );
+
+  for (const key of NUTRIENT_KEYS) {
+    const corrected =
+      key === "calories"
+        ? Math.round(totals[key])
+        : roundToOneDecimal(totals[key]);
+    const tolerance =
+      key === "calories" ? TOTAL_CALORIE_TOLERANCE : TOTAL_MACRO_TOLERANCE;
+
+    if (Math.abs(result[key] - corrected) > tolerance) {
+      corrections.push({
+        field: key,
+        original: result[key],
+        corrected,
+        reason: "total_mismatch",
+      });
+    }
+    result[key] = corrected;
+  }
+
+  result.nutritionCorrections = corrections;
+
+  if (corrections.length > 0) {
+    console.warn("營養素一致性校正:", corrections);
+  }
+
+  return corrections;
+}
+
+/**
+ * 計算嚴重修正的數量（負數、異常值、超過食材重量）
+ */
+export function countSevereCorrections(
+  corrections: NutritionCorrection[] = []
+): number {
+  return corrections.filter((correction) =>
+    SEVERE_REASONS.includes(correction.reason)
+  ).length;
+}
+
+/**
+ * 分析並在結果需要嚴重修正時重新詢問 AI 一次
+ * 熱量公式與總計不符屬於一般修正，直接採用校正後的結果；
+ * 出現嚴重修正時重新分析，並採用嚴重修正較少的結果
+ *
+ * @param analyze 調用 AI 分析（結果需已經過 reconcileNutrition）
+ * @returns 分析結果
+ */
+export async function analyzeWithNutritionRetry<T extends ReconcilableResult>(
+  analyze: () => Promise<T>
+): Promise<T> {
+  const result = await analyze();
+  const severeCount = countSevereCorrections(result.nutritionCorrections);
+
+  if (result.error || severeCount === 0) {
+    return result;
+  }
+
+  console.warn(`⚠️ AI 結果有 ${severeCount} 項嚴重營養素修正，重新分析一次`);
+
+  try {
+    const retryResult = await analyze();
+    if (
+      !retryResult.error &&
+      countSevereCorrections(retryResult.nutritionCorrections) < severeCount
+    ) {
+      return retryResult;
+    }
+  } catch (error) {
+    console.error("重新分析失敗，使用校正後的原始結果:", error);
+  }
+
+  return result;
+}
@@ -0,0 +1,132 @@
+import { LabelNutrients, ProductLabelAnalysisResult } from "../types/analyze";
+import { NutritionTotals } from "../types/diary";
+
+/**
+ * 營養標示數值的換算工具函數
+ *
+ * 各地區標示不一定同時提供每份與每 100g 欄位：
+ * - 只有其中一欄時，有每份重量就換算出另一欄
+ * - 計算食用量時優先使用與輸入單位相符的欄位，避免二次換算的誤差
+ */
+
+/**
+ * 四捨五入到小數點後一位
+ * @param value 數值
+ * @returns 四捨五入後的數值
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * 將營養素乘上倍數並四捨五入
+ * @param nutrients 營養素（缺少的欄位視為 0）
+ * @param factor 倍數
+ * @returns 營養素總計
+ */
+export function scaleNutrition(
+  nutrients: LabelNutrients | NutritionTotals,
+  factor: number
+): NutritionTotals {
+  return {
+    calories: round((nutrients.calories ?? 0) * factor),
+    protein: round((nutrients.protein ?? 0) * factor),
+    carbs: round((nutrients.carbs ?? 0) * factor),
+    fat: round((nutrients.fat ?? 0) * factor),
+  };
+}
+
+/**
+ * 整理 AI 讀取的營養標示，補齊缺少的每份或每 100g 欄位
+ * @param analysis 營養標示分析結果
+ * @returns 每 100g 與每份的營養素
+ */
+export function normalizeLabelNutrition(
+  analysis: Pick<
+    ProductLabelAnalysisResult,
+    "servingSize" | "per100g" | "perServing"
+  >
+): { per100g: NutritionTotals | null; perServing: NutritionTotals | null } {
+  const { servingSize } = analysis;
+  const per100g =
+    analysis.per100g && analysis.per100g.calories !== null
+      ? scaleNutrition(analysis.per100g, 1)
+      : null;
+  const perServing =
+    analysis.perServing && analysis.perServing.calories !== null
+      ? scaleNutrition(analysis.perServing, 1)
+      : null;
+
+  return {
+    per100g:
+      per100g ??
+      (perServing && servingSize
+        ? scaleNutrition(perServing, 100 / servingSize)
+        : null),
+    perServing:
+      perServing ??
+      (per100g && servingSize
+        ? scaleNutrition(per100g, servingSize / 100)
+        : null),
+  };
+}
+
+/**
+ * 計算實際食用量的營養素
+ * - 指定 amount（g/ml）時以重量換算，否則以份數換算
+ * - 標示沒有每份資訊時，一份視為 100g/100ml
+ *
+ * @param label 已整理的營養標示
+ * @param servings 食用份數
+ * @param amount 食用重量或容量（可選，優先於份數）
+ * @returns 食用份數、食用量與營養素總計
+ */
+export function calculateLabelIntake(
+  label: {
+    servingSize: number | null;
+    per100g: NutritionTotals | null;
+    perServing: NutritionTotals | null;
+  },
+  servings: number,
+  amount?: number | null
+): { servings: number | null; amount: number | null; totals: NutritionTotals } {
+  const { servingSize, per100g, perServing } = label;
+
+  if (amount !== undefined && amount !== null) {
+    if (per100g) {
+      return {
+        servings: servingSize ? round(amount / servingSize) : null,
+        amount,
+        totals: scaleNutrition(per100g, amount / 100),
+      };
+    }
+
+    if (perServing && servingSize) {
+      return {
+        servings: round(amount / servingSize),
+        amount,
+        totals: scaleNutrition(perServing, amount / servingSize),
+      };
+    }
+
+    throw new Error("此營養標示沒有每份重量資訊，請改用份數計算");
+  }
+
+  if (perServing) {
+    return {
+      servings,
+      amount: servingSize ? round(servingSize * servings) : null,
+      totals: scaleNutrition(perServing, servings),
+    };
+  }
+
+  if (per100g) {
+    return {
+      servings,
+      amount: round(100 * servings),
+      totals: scaleNutrition(per100g, servings),
+    };
+  }
+
+  throw new Error("營養標示缺少營養素資訊");
+}
@@ -0,0 +1,179 @@
+/**
+ * 多語言全文搜尋工具函數
+ *
+ * 分詞規則：
+ * - 拉丁字母等以空白分詞的語言：以連續的字母/數字為一個詞
+ * - 中文、日文、韓文與泰文：沒有可靠的空白分詞，改用字元 n-gram（單字 + 雙字）
+ */
+
+/**
+ * 以 n-gram 處理的文字（漢字、平假名、片假名、韓文、泰文，以及日文長音符號）
+ */
+const NGRAM_SCRIPT_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}ー]+/u;
+
+/**
+ * 分詞用的正規表示式：n-gram 文字區段或一般單字
+ */
+const TOKEN_PATTERN = new RegExp(
+  `${NGRAM_SCRIPT_PATTERN.source}|[\\p{L}\\p{N}]+`,
+  "gu"
+);
+
+/**
+ * 儲存的搜尋索引鍵最大字元數，較長的單字只索引到此長度的前綴
+ */
+const MAX_SEARCH_KEY_LENGTH = 20;
+
+/**
+ * 搜尋用的分詞結果
+ */
+export interface SearchTokens {
+  words: string[]; // 以空白分詞的單字
+  grams: string[]; // CJK／泰文的 n-gram
+}
+
+/**
+ * 正規化搜尋文字
+ * - NFKC 統一全形/半形
+ * - 移除拉丁字母的附加符號（例如 phở → pho、crème → creme）
+ * - 轉為小寫
+ * @param text 原始文字
+ * @returns 正規化後的文字
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFKC")
+    .toLowerCase();
+}
+
+/**
+ * 將 n-gram 文字區段切成 n-gram
+ * @param segment 連續的 CJK／泰文字元
+ * @param includeUnigrams 是否包含單字（索引端需要，查詢端只有單字時才需要）
+ * @returns n-gram 陣列
+ */
+function toGrams(segment: string, includeUnigrams: boolean): string[] {
+  const chars = Array.from(segment);
+  if (chars.length === 1) {
+    return chars;
+  }
+
+  const grams: string[] = includeUnigrams ? [...chars] : [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    grams.push(chars[i] + chars[i + 1]);
+  }
+  return grams;
+}
+
+/**
+ * 對文字分詞
+ * @param text 原始文字
+ * @param forQuery 是否為查詢字串（查詢端只使用雙字 n-gram，以減少誤判）
+ * @returns 分詞結果（已去除重複）
+ */
+export function tokenizeSearchText(
+  text: string,
+  forQuery: boolean = false
+): SearchTokens {
+  const words = new Set<string>();
+  const grams = new Set<string>();
+
+  for (const match of normalizeSearchText(text).matchAll(TOKEN_PATTERN)) {
+    const segment = match[0];
+    if (NGRAM_SCRIPT_PATTERN.test(segment)) {
+      toGrams(segment, !forQuery).forEach((gram) => grams.add(gram));
+    } else {
+      words.add(segment);
+    }
+  }
+
+  return { words: [...words], grams: [...grams] };
+}
+
+/**
+ * 產生寫入資料庫的搜尋索引鍵，供 array-contains 查詢
+ * - 單字：所有前綴（最多 MAX_SEARCH_KEY_LENGTH 字元），讓前綴查詢也能命中
+ * - CJK／泰文：單字與雙字 n-gram
+ * @param texts 要索引的文字
+ * @returns 去除重複的索引鍵
+ */
+export function buildSearchKeys(texts: string[]): string[] {
+  const tokens = tokenizeSearchText(texts.join("\n"));
+  const keys = new Set(tokens.grams);
+
+  for (const word of tokens.words) {
+    const chars = Array.from(word).slice(0, MAX_SEARCH_KEY_LENGTH);
+    for (let length = 1; length <= chars.length; length++) {
+      keys.add(chars.slice(0, length).join(""));
+    }
+  }
+
+  return [...keys];
+}
+
+/**
+ * 選出查詢資料庫用的索引鍵
+ * 查詢的每個詞都必須出現在結果中，因此只需以最長（通常命中最少）的詞查詢，
+ * 其餘條件再於記憶體中比對
+ * @param tokens 查詢字串的分詞結果（至少包含一個詞）
+ * @returns 對應 buildSearchKeys 的索引鍵
+ */
+export function selectSearchKey(tokens: SearchTokens): string {
+  const keys = [
+    ...tokens.words.map((word) =>
+      Array.from(word).slice(0, MAX_SEARCH_KEY_LENGTH).join("")
+    ),
+    ...tokens.grams,
+  ];
+
+  return keys.reduce((longest, key) =>
+    Array.from(key).length > Array.from(longest).length ? key : longest
+  );
+}
+
+/**
+ * 建立可重複比對的文字索引
+ */
+export class SearchIndex {
+  private words: string[];
+  private grams: Set<string>;
+  private normalizedText: string;
+
+  /**
+   * @param texts 要索引的文字（例如同一欄位的所有語言版本）
+   */
+  constructor(texts: string[]) {
+    const joined = texts.join("\n");
+    const tokens = tokenizeSearchText(joined);
+    this.words = tokens.words;
+    this.grams = new Set(tokens.grams);
+    this.normalizedText = normalizeSearchText(joined);
+  }
+
+  /**
+   * 單字是否出現在索引中（允許前綴比對，例如 chick → chicken）
+   * @param word 查詢單字
+   */
+  hasWord(word: string): boolean {
+    return this.words.some((indexed) => indexed.startsWith(word));
+  }
+
+  /**
+   * n-gram 是否出現在索引中
+   * @param gram 查詢 n-gram
+   */
+  hasGram(gram: string): boolean {
+    return this.grams.has(gram);
+  }
+
+  /**
+   * 完整查詢字串是否出現在文字中
+   * @param normalizedQuery 正規化後的查詢字串
+   */
+  containsPhrase(normalizedQuery: string): boolean {
+    return this.normalizedText.includes(normalizedQuery);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * 商店訂閱管理頁面 URL
+ */
+import type { Env } from "../bindings";
+
+/**
+ * 依購買商店取得訂閱管理頁面 URL（重新訂閱、更新付款方式、取消訂閱共用）
+ * @param store RevenueCat 商店類型
+ * @param env 環境變數
+ * @returns 訂閱管理頁面 URL
+ */
+export function getStoreSubscriptionUrl(store: string, env: Env): string {
+  // 從環境變數獲取商店 URL，如果沒有則使用預設值
+  const appStoreUrl =
+    env.APP_STORE_URL || "https://apps.apple.com/account/subscriptions";
+  const playStoreUrl =
+    env.PLAY_STORE_URL || "https://play.google.com/store/account/subscriptions";
+
+  // 根據商店類型返回相應的 URL
+  switch (store) {
+    case "APP_STORE":
+    case "MAC_APP_STORE":
+      return appStoreUrl;
+    case "PLAY_STORE":
+      return playStoreUrl;
+    case "AMAZON":
+      // Amazon Appstore URL (如果需要的話)
+      return appStoreUrl; // 預設回退到 App Store
+    default:
+      console.log(`未知的商店類型: ${store}，使用預設 App Store URL`);
+      return appStoreUrl; // 預設為 App Store
+  }
+}
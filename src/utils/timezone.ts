@@ -0,0 +1,199 @@
+/**
+ * 時區工具（使用 Intl，Workers 內建完整 IANA 時區資料）
+ */
+
+/**
+ * 使用者當地日期時間
+ */
+export interface LocalDateTime {
+  /** 當地日期 yyyy-MM-dd */
+  date: string;
+  /** 當地時間自午夜起的分鐘數 */
+  minutes: number;
+}
+
+/**
+ * 檢查是否為有效的 IANA 時區（例如 Asia/Taipei）
+ * @param timeZone 時區
+ * @returns 是否有效
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 取得指定時間在時區中的年月日時分
+ */
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * 取得指定時間在時區中的當地日期與分鐘數
+ * @param instant 時間
+ * @param timeZone IANA 時區
+ * @returns 當地日期時間
+ */
+export function getLocalDateTime(
+  instant: Date,
+  timeZone: string
+): LocalDateTime {
+  const { year, month, day, hour, minute } = getZonedParts(instant, timeZone);
+  const date = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  return { date, minutes: hour * 60 + minute };
+}
+
+/**
+ * 取得時區在指定時間的 UTC 偏移（毫秒，當地時間減 UTC）
+ */
+function getTimeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = getZonedParts(instant, timeZone);
+  // 當地時間視為 UTC 與實際時間的差即為時區偏移
+  return (
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second
+    ) -
+    Math.floor(instant.getTime() / 1000) * 1000
+  );
+}
+
+/**
+ * 取得指定時間在時區中當天午夜的 UTC 時間
+ * @param instant 時間
+ * @param timeZone IANA 時區
+ * @returns 當地午夜對應的 Date
+ */
+export function getStartOfLocalDay(instant: Date, timeZone: string): Date {
+  const { date } = getLocalDateTime(instant, timeZone);
+  return localTimeToDate(date, 0, timeZone);
+}
+
+/**
+ * 將時區中的當地日期與時間換算為 UTC 時間
+ * 夏令時間跳過的時間（例如 02:30 不存在）順延到調整後的時間
+ * @param date 當地日期 yyyy-MM-dd
+ * @param minutes 當地時間自午夜起的分鐘數
+ * @param timeZone IANA 時區
+ * @returns 對應的 Date
+ */
+export function localTimeToDate(
+  date: string,
+  minutes: number,
+  timeZone: string
+): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // 先以當地時間附近的偏移換算，再以換算結果的偏移修正（夏令時間切換當天偏移不同）
+  const offset = getTimeZoneOffsetMs(new Date(asUtc), timeZone);
+  const candidate =
+    asUtc - getTimeZoneOffsetMs(new Date(asUtc - offset), timeZone);
+  if (
+    getTimeZoneOffsetMs(new Date(candidate), timeZone) ===
+    asUtc - candidate
+  ) {
+    return new Date(candidate);
+  }
+
+  // 修正後仍對不上表示當地時間不存在，使用切換前的偏移（順延）
+  return new Date(asUtc - offset);
+}
+
+/**
+ * 找出指定時間之後，時區中最早的每日當地時間
+ * @param times 每日當地時間 HH:mm（格式錯誤的時間會被忽略）
+ * @param timeZone IANA 時區
+ * @param after 起算時間（不含）
+ * @returns 下一次的 UTC 時間，沒有有效時間時返回 null
+ */
+export function getNextLocalTimeOccurrence(
+  times: string[],
+  timeZone: string,
+  after: Date
+): Date | null {
+  const minutesList = times
+    .map(parseTimeOfDay)
+    .filter((minutes): minutes is number => minutes !== null)
+    .sort((a, b) => a - b);
+  if (minutesList.length === 0) {
+    return null;
+  }
+
+  // 多看一天，涵蓋夏令時間切換與跨日
+  const { date } = getLocalDateTime(after, timeZone);
+  for (let days = 0; days <= 2; days++) {
+    const localDate = addDaysToLocalDate(date, days);
+    for (const minutes of minutesList) {
+      const occurrence = localTimeToDate(localDate, minutes, timeZone);
+      if (occurrence.getTime() > after.getTime()) {
+        return occurrence;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 將 HH:mm 轉換為自午夜起的分鐘數
+ * @param time HH:mm
+ * @returns 分鐘數，格式錯誤時返回 null
+ */
+export function parseTimeOfDay(time: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * 將自午夜起的分鐘數轉換為 HH:mm
+ * @param minutes 分鐘數
+ * @returns HH:mm
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const hour = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const minute = String(minutes % 60).padStart(2, "0");
+  return `${hour}:${minute}`;
+}
+
+/**
+ * 將 yyyy-MM-dd 日期加減天數（純日曆運算，不受時區與夏令時間影響）
+ * @param date yyyy-MM-dd
+ * @param days 天數（可為負數）
+ * @returns yyyy-MM-dd
+ */
+export function addDaysToLocalDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
@@ -0,0 +1,44 @@
+/**
+ * Webhook 共享密鑰驗證工具
+ */
+
+/**
+ * 計算字串的 SHA-256
+ */
+async function sha256(text: string): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))
+  );
+}
+
+/**
+ * 驗證 Webhook 請求的 Authorization header 是否與共享密鑰相符
+ * - 接受原始密鑰或 "Bearer <密鑰>"（依 RevenueCat 後台設定的格式）
+ * - 先雜湊再以固定時間比較，避免時間側信道洩漏密鑰
+ *
+ * @param authorizationHeader 請求的 Authorization header
+ * @param expectedSecret 共享密鑰
+ * @returns 是否驗證通過
+ */
+export async function verifyWebhookAuthorization(
+  authorizationHeader: string | undefined,
+  expectedSecret: string
+): Promise<boolean> {
+  if (!authorizationHeader || !expectedSecret) {
+    return false;
+  }
+
+  const provided = authorizationHeader.replace(/^Bearer\s+/i, "").trim();
+  const expected = expectedSecret.replace(/^Bearer\s+/i, "").trim();
+
+  const [providedHash, expectedHash] = await Promise.all([
+    sha256(provided),
+    sha256(expected),
+  ]);
+
+  let diff = 0;
+  for (let i = 0; i < expectedHash.length; i++) {
+    diff |= providedHash[i] ^ expectedHash[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,110 @@
+import { fetchMock } from "cloudflare:test";
+
+const TEST_PROJECT_ID = "eatmoji-test";
+const TEST_KEY_ID = "test-key";
+
+// RSA key pair standing in for Google's securetoken signing keys
+const signingKeyPair = crypto.subtle.generateKey(
+  {
+    name: "RSASSA-PKCS1-v1_5",
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: "SHA-256",
+  },
+  true,
+  ["sign", "verify"],
+) as Promise<CryptoKeyPair>;
+
+function base64UrlEncode(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function encodeJson(value: object) {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+/**
+ * Build a Firebase-style ID token signed with the test key
+ * (served by mockGoogleApis as the securetoken JWK set)
+ */
+export async function createTestToken(
+  userId = "test-user",
+  claims: Record<string, unknown> = {},
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = [
+    encodeJson({ alg: "RS256", kid: TEST_KEY_ID, typ: "JWT" }),
+    encodeJson({
+      iss: `https://securetoken.google.com/${TEST_PROJECT_ID}`,
+      aud: TEST_PROJECT_ID,
+      sub: userId,
+      auth_time: now,
+      iat: now,
+      exp: now + 3600,
+      ...claims,
+    }),
+  ].join(".");
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    (await signingKeyPair).privateKey,
+    new TextEncoder().encode(unsigned),
+  );
+  return `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+export async function authHeaders(
+  extra: Record<string, string> = {},
+  userId = "test-user",
+) {
+  return {
+    Authorization: `Bearer ${await createTestToken(userId)}`,
+    ...extra,
+  };
+}
+
+/**
+ * Intercept the Google APIs the worker calls so tests never reach the network:
+ * - securetoken public keys used to verify ID tokens (the test signing key)
+ * - OAuth token exchange used by the Firestore client
+ * - Firestore REST: document reads return 404 and queries return no results,
+ *   so every user looks like a brand-new free-tier user
+ */
+export async function mockGoogleApis() {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+
+  const publicJwk = await crypto.subtle.exportKey(
+    "jwk",
+    (await signingKeyPair).publicKey,
+  );
+  fetchMock
+    .get("https://www.googleapis.com")
+    .intercept({
+      path: "/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com",
+    })
+    .reply(
+      200,
+      { keys: [{ ...publicJwk, kid: TEST_KEY_ID, alg: "RS256", use: "sig" }] },
+      { headers: { "Cache-Control": "public, max-age=3600" } },
+    )
+    .persist();
+
+  fetchMock
+    .get("https://oauth2.googleapis.com")
+    .intercept({ path: "/token", method: "POST" })
+    .reply(200, { access_token: "test-access-token", expires_in: 3600 })
+    .persist();
+
+  const firestore = fetchMock.get("https://firestore.googleapis.com");
+  firestore
+    .intercept({ path: /.*/, method: "GET" })
+    .reply(404, { error: { code: 404, status: "NOT_FOUND" } })
+    .persist();
+  firestore
+    .intercept({ path: /:runQuery$/, method: "POST" })
+    .reply(200, [{ readTime: new Date().toISOString() }])
+    .persist();
+}
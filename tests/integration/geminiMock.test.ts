@@ -0,0 +1,190 @@
+import { SELF } from "cloudflare:test";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { authHeaders, mockGoogleApis } from "../helpers";
+
+// The test worker runs with AI_MOCK_MODE=true (see tests/vitest.config.mts),
+// so every Gemini endpoint replays the fixtures in src/utils/mockAIFixtures.ts.
+
+// Helper function to build a multipart body with a single fake JPEG image
+function createImageForm(fields: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append(
+    "images",
+    new File([new Uint8Array([0xff, 0xd8, 0xff, 0xe0])], "meal.jpg", {
+      type: "image/jpeg",
+    }),
+  );
+  for (const [key, value] of Object.entries(fields)) {
+    form.append(key, value);
+  }
+  return form;
+}
+
+describe("Gemini API Integration Tests (mock AI)", () => {
+  beforeAll(async () => {
+    // Auth verifies ID tokens against the mocked securetoken keys and
+    // AI quota metering reads the user's tier from Firestore
+    await mockGoogleApis();
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+  });
+
+  describe("POST /gemini/add-meal", () => {
+    it("should return the recorded meal analysis", async () => {
+      const response = await SELF.fetch(`http://local.test/gemini/add-meal`, {
+        method: "POST",
+        headers: await authHeaders({ "Content-Type": "application/json" }),
+        body: JSON.stringify({ input: "雞胸肉便當", user_language: "zh_TW" }),
+      });
+      const body = await response.json<{ success: boolean; result: any }>();
+
+      expect(response.status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.result).toEqual(
+        expect.objectContaining({
+          name: "雞胸肉便當",
+          calories: 529,
+          protein: 54.7,
+          carbs: 63,
+          fat: 6.4,
+        }),
+      );
+      expect(body.result.ingredients).toHaveLength(3);
+      // The fixture is internally consistent, so nothing needs repairing
+      expect(body.result.nutritionCorrections).toEqual([]);
+    });
+
+    it("should return a 401 error without a token", async () => {
+      const response = await SELF.fetch(`http://local.test/gemini/add-meal`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ input: "雞胸肉便當" }),
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(body.success).toBe(false);
+    });
+  });
+
+  describe("POST /gemini/analyze-images", () => {
+    it("should return a 400 error when no image is uploaded", async () => {
+      const response = await SELF.fetch(
+        `http://local.test/gemini/analyze-images`,
+        {
+          method: "POST",
+          headers: await authHeaders(),
+          body: new FormData(),
+        },
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.success).toBe(false);
+    });
+  });
+
+  describe("POST /gemini/add-recipe", () => {
+    it("should return the recorded recipe", async () => {
+      const response = await SELF.fetch(`http://local.test/gemini/add-recipe`, {
+        method: "POST",
+        headers: await authHeaders(),
+        body: createImageForm({ user_language: "en" }),
+      });
+      const body = await response.json<{ success: boolean; result: any }>();
+
+      expect(response.status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.result.name.en).toBe("Tomato Scrambled Eggs");
+      expect(body.result).toEqual(
+        expect.objectContaining({
+          calories: 475,
+          servings: 2,
+          difficulty: "easy",
+        }),
+      );
+      expect(body.result.steps).toHaveLength(2);
+    });
+  });
+
+  describe("POST /gemini/edit-recipe", () => {
+    it("should return the recorded multilingual recipe", async () => {
+      const response = await SELF.fetch(
+        `http://local.test/gemini/edit-recipe`,
+        {
+          method: "POST",
+          headers: await authHeaders({ "Content-Type": "application/json" }),
+          body: JSON.stringify({
+            name: "番茄炒蛋",
+            description: "酸甜滑嫩的家常快炒",
+            step_texts: ["雞蛋炒至半熟", "番茄炒軟後加入雞蛋"],
+            user_language: "zh_TW",
+          }),
+        },
+      );
+      const body = await response.json<{ success: boolean; result: any }>();
+
+      expect(response.status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.result.name.zh_TW).toBe("番茄炒蛋");
+      expect(body.result.name.ja).toBe("トマトと卵の炒め物");
+      expect(body.result.steps[1].order).toBe(2);
+    });
+  });
+
+  describe("POST /gemini/translate-ingredient", () => {
+    it("should return the recorded translation", async () => {
+      const response = await SELF.fetch(
+        `http://local.test/gemini/translate-ingredient`,
+        {
+          method: "POST",
+          headers: await authHeaders({ "Content-Type": "application/json" }),
+          body: JSON.stringify({ input: "雞胸肉" }),
+        },
+      );
+      const body = await response.json<{ success: boolean; result: any }>();
+
+      expect(response.status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.result).toEqual(
+        expect.objectContaining({
+          original: "雞胸肉",
+          english: "chicken breast",
+        }),
+      );
+    });
+  });
+
+  describe("POST /gemini/chat", () => {
+    it("should stream the recorded chat chunks as SSE", async () => {
+      const response = await SELF.fetch(`http://local.test/gemini/chat`, {
+        method: "POST",
+        headers: await authHeaders({ "Content-Type": "application/json" }),
+        body: JSON.stringify({
+          input: "我最近吃得怎麼樣？",
+          userData: {},
+          user_language: "zh_TW",
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toContain(
+        "text/event-stream",
+      );
+
+      const events = (await response.text())
+        .split("\n\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => JSON.parse(line.slice("data: ".length)));
+
+      expect(events.map((event) => event.text).filter(Boolean)).toEqual([
+        "根據你最近的飲食紀錄，",
+        "蛋白質攝取相當穩定，",
+        "建議晚餐再多補充一份蔬菜。",
+      ]);
+      expect(events[events.length - 1]).toEqual({ done: true });
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { Hono } from "hono";
+import { beforeAll, describe, expect, it } from "vitest";
+import { adminMiddleware, authMiddleware } from "../../src/middleware/auth";
+import {
+  resolveUserRole,
+  verifyFirebaseToken,
+} from "../../src/services/authService";
+import { createTestToken, mockGoogleApis } from "../helpers";
+
+const env = { FIREBASE_PROJECT_ID: "eatmoji-test", ADMIN_USER_IDS: "ops-1" };
+
+function encodeJson(value: object) {
+  return btoa(JSON.stringify(value))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function adminClaims(userId: string) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: "https://securetoken.google.com/eatmoji-test",
+    aud: "eatmoji-test",
+    sub: userId,
+    iat: now,
+    exp: now + 3600,
+    admin: true,
+  };
+}
+
+function createApp() {
+  const app = new Hono<any>();
+  app.use("/admin/*", authMiddleware);
+  app.use("/admin/*", adminMiddleware);
+  app.get("/admin/metrics", (c) => c.json({ success: true }));
+  return app;
+}
+
+async function requestAsAdmin(token: string) {
+  return await createApp().request(
+    "/admin/metrics",
+    { headers: { Authorization: `Bearer ${token}` } },
+    env,
+  );
+}
+
+describe("resolveUserRole", () => {
+  beforeAll(async () => {
+    await mockGoogleApis();
+  });
+
+  async function roleOf(userId: string, claims: Record<string, unknown> = {}) {
+    const payload = await verifyFirebaseToken(
+      await createTestToken(userId, claims),
+      env,
+    );
+    return resolveUserRole(payload!, userId, env);
+  }
+
+  it("grants admin from the admin custom claim", async () => {
+    expect(await roleOf("user-1", { admin: true })).toBe("admin");
+  });
+
+  it("grants admin from the role custom claim", async () => {
+    expect(await roleOf("user-1", { role: "admin" })).toBe("admin");
+  });
+
+  it("grants admin to users in the ADMIN_USER_IDS allowlist", async () => {
+    expect(await roleOf("ops-1")).toBe("admin");
+  });
+
+  it("treats everyone else as a regular user", async () => {
+    expect(await roleOf("user-1")).toBe("user");
+    expect(await roleOf("user-1", { admin: "true", role: "editor" })).toBe(
+      "user",
+    );
+  });
+});
+
+describe("adminMiddleware", () => {
+  beforeAll(async () => {
+    await mockGoogleApis();
+  });
+
+  it("allows verified admin tokens", async () => {
+    const response = await requestAsAdmin(
+      await createTestToken("user-1", { admin: true }),
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it("forbids verified tokens without the admin role", async () => {
+    const response = await requestAsAdmin(await createTestToken("user-1"));
+
+    expect(response.status).toBe(403);
+  });
+
+  it("rejects unsigned tokens that claim admin", async () => {
+    const token = [
+      encodeJson({ alg: "none", typ: "JWT" }),
+      encodeJson(adminClaims("user-1")),
+      "",
+    ].join(".");
+
+    const response = await requestAsAdmin(token);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("rejects a user token whose payload was changed to claim admin", async () => {
+    const [header, , signature] = (await createTestToken("user-1")).split(".");
+    const token = `${header}.${encodeJson(adminClaims("user-1"))}.${signature}`;
+
+    const response = await requestAsAdmin(token);
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  AIChatService,
+  VertexAIChatService,
+} from "../../src/services/aiChatService";
+import { createAIChatService } from "../../src/services/aiProviderRegistry";
+import { MockAIChatService } from "../../src/services/mockAIService";
+import { getModelForCapability } from "../../src/utils/aiProviderConfig";
+
+const vertexEnv = {
+  VERTEX_AI_PROJECT_ID: "eatmoji-test",
+  VERTEX_AI_LOCATION: "us-central1",
+  GOOGLE_API_KEY: "key",
+};
+
+describe("createAIChatService", () => {
+  it("uses the first configured provider of the chat chain", () => {
+    expect(createAIChatService(vertexEnv as any)).toBeInstanceOf(
+      VertexAIChatService,
+    );
+    expect(
+      createAIChatService({
+        ...vertexEnv,
+        AI_PROVIDER_CHAIN: "gemini,vertex",
+      } as any),
+    ).not.toBeInstanceOf(VertexAIChatService);
+    expect(
+      createAIChatService({ GOOGLE_API_KEY: "key" } as any),
+    ).not.toBeInstanceOf(VertexAIChatService);
+  });
+
+  it("skips providers that cannot chat", () => {
+    const service = createAIChatService({
+      ...vertexEnv,
+      AI_PROVIDER_CHAIN: "openai,gemini",
+      OPENAI_COMPAT_BASE_URL: "http://localhost:11434/v1",
+      OPENAI_COMPAT_MODEL: "llama3",
+    } as any);
+
+    expect(service).toBeInstanceOf(AIChatService);
+    expect(service).not.toBeInstanceOf(VertexAIChatService);
+  });
+
+  it("replays fixtures in mock mode", () => {
+    expect(
+      createAIChatService({ ...vertexEnv, AI_MOCK_MODE: "true" } as any),
+    ).toBeInstanceOf(MockAIChatService);
+  });
+
+  it("reads the chat model from AI_MODEL_OVERRIDES", () => {
+    expect(getModelForCapability({} as any, "chat")).toBe(
+      "gemini-2.5-flash-lite",
+    );
+    expect(
+      getModelForCapability(
+        { AI_MODEL_OVERRIDES: '{"chat":"gemini-2.5-flash"}' } as any,
+        "chat",
+      ),
+    ).toBe("gemini-2.5-flash");
+  });
+});
@@ -0,0 +1,83 @@
+import { env } from "cloudflare:test";
+import { Hono } from "hono";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { aiQuotaForCapability } from "../../src/middleware/aiQuota";
+import { mockGoogleApis } from "../helpers";
+
+function createApp(status = 200) {
+  const handler = vi.fn();
+  const app = new Hono<any>();
+  app.use("*", async (c, next) => {
+    c.set("userId", "quota-user");
+    await next();
+  });
+  app.use("/analyze", aiQuotaForCapability("analyzeImages"));
+  app.on(["GET", "POST"], "/analyze", (c) => {
+    handler();
+    return c.json({ success: status < 400 }, status as any);
+  });
+  return { app, handler };
+}
+
+describe("aiQuotaForCapability", () => {
+  beforeEach(async () => {
+    await mockGoogleApis();
+  });
+
+  it("meters POST requests under the capability's usage endpoint", async () => {
+    const { app, handler } = createApp();
+
+    const response = await app.request("/analyze", { method: "POST" }, env);
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(response.headers.get("X-RateLimit-Remaining")).not.toBeNull();
+
+    const row = await env.DB.prepare(
+      "SELECT endpoint, count FROM ai_usage WHERE user_id = ?",
+    )
+      .bind("quota-user")
+      .first();
+    expect(row).toEqual({ endpoint: "analyze-images", count: 1 });
+  });
+
+  it("does not meter GET requests", async () => {
+    const { app, handler } = createApp();
+
+    const response = await app.request("/analyze", { method: "GET" }, {});
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails closed when the DB binding is missing", async () => {
+    const { app, handler } = createApp();
+
+    const response = await app.request(
+      "/analyze",
+      { method: "POST" },
+      { ...env, DB: undefined },
+    );
+
+    expect(response.status).toBe(503);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("fails closed when metering storage errors", async () => {
+    const { app, handler } = createApp();
+    const DB = {
+      prepare: () => {
+        throw new Error("D1 unavailable");
+      },
+    };
+
+    const response = await app.request(
+      "/analyze",
+      { method: "POST" },
+      { ...env, DB },
+    );
+
+    expect(response.status).toBe(503);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
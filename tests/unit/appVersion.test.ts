@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareAppVersions,
+  parseAppVersion,
+} from "../../src/utils/appVersion";
+
+describe("parseAppVersion", () => {
+  it("parses major.minor.patch and ignores build suffixes", () => {
+    expect(parseAppVersion("1.2.3")).toEqual([1, 2, 3]);
+    expect(parseAppVersion(" 2.10.0+45 ")).toEqual([2, 10, 0]);
+    expect(parseAppVersion("3.0.1-beta")).toEqual([3, 0, 1]);
+  });
+
+  it("returns null for malformed versions", () => {
+    expect(parseAppVersion("1.2")).toBeNull();
+    expect(parseAppVersion("v1.2.3")).toBeNull();
+    expect(parseAppVersion("")).toBeNull();
+  });
+});
+
+describe("compareAppVersions", () => {
+  it("compares numerically rather than lexically", () => {
+    expect(compareAppVersions("1.10.0", "1.9.9")).toBeGreaterThan(0);
+    expect(compareAppVersions("1.2.3", "2.0.0")).toBeLessThan(0);
+    expect(compareAppVersions("1.2.3+7", "1.2.3")).toBe(0);
+  });
+
+  it("treats unparseable versions as equal", () => {
+    expect(compareAppVersions("unknown", "1.0.0")).toBe(0);
+  });
+});
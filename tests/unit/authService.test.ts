@@ -0,0 +1,92 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { verifyFirebaseToken } from "../../src/services/authService";
+import { createTestToken, mockGoogleApis } from "../helpers";
+
+const env = { FIREBASE_PROJECT_ID: "eatmoji-test" };
+
+function encodeJson(value: object) {
+  return btoa(JSON.stringify(value))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+describe("verifyFirebaseToken", () => {
+  beforeAll(async () => {
+    await mockGoogleApis();
+  });
+
+  it("accepts a token signed by a securetoken key for this project", async () => {
+    const payload = await verifyFirebaseToken(
+      await createTestToken("user-1"),
+      env,
+    );
+
+    expect(payload).toMatchObject({ sub: "user-1", aud: "eatmoji-test" });
+  });
+
+  it("rejects unsigned tokens", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const unsigned = [
+      encodeJson({ alg: "none", typ: "JWT" }),
+      encodeJson({
+        iss: "https://securetoken.google.com/eatmoji-test",
+        aud: "eatmoji-test",
+        sub: "user-1",
+        iat: now,
+        exp: now + 3600,
+      }),
+      "",
+    ].join(".");
+
+    expect(await verifyFirebaseToken(unsigned, env)).toBeNull();
+  });
+
+  it("rejects a token whose payload was modified after signing", async () => {
+    const [header, , signature] = (await createTestToken("user-1")).split(".");
+    const now = Math.floor(Date.now() / 1000);
+    const forgedPayload = encodeJson({
+      iss: "https://securetoken.google.com/eatmoji-test",
+      aud: "eatmoji-test",
+      sub: "user-1",
+      iat: now,
+      exp: now + 3600,
+      admin: true,
+    });
+
+    expect(
+      await verifyFirebaseToken(`${header}.${forgedPayload}.${signature}`, env),
+    ).toBeNull();
+  });
+
+  it("rejects tokens for another project", async () => {
+    const token = await createTestToken("user-1", {
+      aud: "other-project",
+      iss: "https://securetoken.google.com/other-project",
+    });
+
+    expect(await verifyFirebaseToken(token, env)).toBeNull();
+  });
+
+  it("rejects expired tokens", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = await createTestToken("user-1", {
+      iat: now - 7200,
+      exp: now - 3600,
+    });
+
+    expect(await verifyFirebaseToken(token, env)).toBeNull();
+  });
+
+  it("rejects tokens without a subject", async () => {
+    expect(
+      await verifyFirebaseToken(await createTestToken(""), env),
+    ).toBeNull();
+  });
+
+  it("rejects every token when the project ID is not configured", async () => {
+    expect(
+      await verifyFirebaseToken(await createTestToken("user-1"), {}),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { ChatRequestSchema, resolveUserDataSource } from "../../src/types/chat";
+
+describe("resolveUserDataSource", () => {
+  it("builds report data on the server when older apps omit dataSource", () => {
+    const body = ChatRequestSchema.parse({ generateReport: true });
+
+    expect(resolveUserDataSource(body.dataSource, body.generateReport)).toBe(
+      "server",
+    );
+  });
+
+  it("keeps client data for plain chats without dataSource", () => {
+    const body = ChatRequestSchema.parse({ input: "hi" });
+
+    expect(resolveUserDataSource(body.dataSource, body.generateReport)).toBe(
+      "client",
+    );
+  });
+
+  it("honors an explicit dataSource", () => {
+    expect(resolveUserDataSource("client", true)).toBe("client");
+    expect(resolveUserDataSource("server", false)).toBe("server");
+  });
+});
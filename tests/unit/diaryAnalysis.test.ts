@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DiaryAnalysisService } from "../../src/services/diaryAnalysisService";
+import { DiaryService } from "../../src/services/diaryService";
+import { MockAIService } from "../../src/services/mockAIService";
+import { Diary, TaskStatus } from "../../src/types/diary";
+
+const NOW = new Date("2025-03-10T12:00:00Z");
+
+function diary(status: TaskStatus, updatedAt: Date): Diary {
+  return {
+    id: "diary-1",
+    userId: "user-1",
+    name: "分析中",
+    status,
+    updatedAt,
+  } as Diary;
+}
+
+function createDiaryService(stored: Diary) {
+  const diaryRepository = {
+    findById: vi.fn(async () => stored),
+    findByUser: vi.fn(async () => [stored]),
+    update: vi.fn(async (_userId: string, _id: string, updates: any) => ({
+      ...stored,
+      ...updates,
+    })),
+  };
+  const service = new DiaryService(diaryRepository as any);
+  return { service, diaryRepository };
+}
+
+describe("DiaryService background job timeout", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("marks diaries whose background job stopped updating as failed", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    const { service, diaryRepository } = createDiaryService(
+      diary(TaskStatus.ANALYZING, new Date("2025-03-10T11:57:00Z")),
+    );
+
+    const read = await service.getDiary("user-1", "diary-1");
+    const [listed] = await service.getDiaries("user-1");
+
+    expect(read?.status).toBe(TaskStatus.FAILED);
+    expect(listed.status).toBe(TaskStatus.FAILED);
+    expect(diaryRepository.update).toHaveBeenCalledWith(
+      "user-1",
+      "diary-1",
+      expect.objectContaining({ status: TaskStatus.FAILED }),
+    );
+  });
+
+  it("keeps polling diaries whose job is still within the timeout", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    const { service, diaryRepository } = createDiaryService(
+      diary(TaskStatus.UPLOADING, new Date("2025-03-10T11:59:30Z")),
+    );
+
+    const read = await service.getDiary("user-1", "diary-1");
+
+    expect(read?.status).toBe(TaskStatus.UPLOADING);
+    expect(diaryRepository.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("DiaryAnalysisService.startImageUpload", () => {
+  function createService() {
+    const diaryService = {
+      createDiary: vi.fn(async (_userId: string, data: Partial<Diary>) => ({
+        ...data,
+        id: "diary-1",
+      })),
+      uploadDiaryImages: vi.fn(
+        async (_userId: string, images: unknown[], type = "original") =>
+          images.map((_, i) => `https://storage/${type}-${i}.jpg`),
+      ),
+      updateDiary: vi.fn(),
+    };
+    return {
+      service: new DiaryAnalysisService(diaryService as any),
+      diaryService,
+    };
+  }
+
+  it("returns an uploading diary and uploads the images in the background", async () => {
+    const { service, diaryService } = createService();
+
+    const { diary: created, job } = await service.startImageUpload("user-1", {
+      diaryData: { name: "Ramen", calories: 500 } as any,
+      originalImgs: ["data:image/jpeg;base64,AAAA"],
+      stickerImg: "data:image/png;base64,BBBB",
+      saveToFoodDB: false,
+    });
+
+    expect(created.status).toBe(TaskStatus.UPLOADING);
+    expect(diaryService.updateDiary).not.toHaveBeenCalled();
+
+    await job;
+
+    expect(diaryService.updateDiary).toHaveBeenCalledWith(
+      "user-1",
+      "diary-1",
+      expect.objectContaining({
+        originalImgs: ["https://storage/original-0.jpg"],
+        stickerImg: "https://storage/sticker-0.jpg",
+        status: TaskStatus.DONE,
+      }),
+    );
+  });
+
+  it("marks the diary failed when the upload fails", async () => {
+    const { service, diaryService } = createService();
+    diaryService.uploadDiaryImages.mockRejectedValueOnce(
+      new Error("圖片處理失敗"),
+    );
+
+    const { job } = await service.startImageUpload("user-1", {
+      diaryData: { name: "Ramen" } as any,
+      originalImgs: ["data:image/jpeg;base64,AAAA"],
+      saveToFoodDB: false,
+    });
+    await job;
+
+    expect(diaryService.updateDiary).toHaveBeenLastCalledWith(
+      "user-1",
+      "diary-1",
+      { status: TaskStatus.FAILED, error: "圖片處理失敗" },
+    );
+  });
+
+  it("creates diaries without images as done", async () => {
+    const { service, diaryService } = createService();
+
+    const { diary: created } = await service.startImageUpload("user-1", {
+      diaryData: { name: "Ramen" } as any,
+      saveToFoodDB: false,
+    });
+
+    expect(created.status).toBe(TaskStatus.DONE);
+    expect(diaryService.uploadDiaryImages).not.toHaveBeenCalled();
+  });
+});
+
+describe("DiaryAnalysisService.startImageAnalysis", () => {
+  it("writes the recorded image analysis to the diary in the background", async () => {
+    const diaryService = {
+      createDiary: vi.fn(async (_userId: string, data: Partial<Diary>) => ({
+        ...data,
+        id: "diary-1",
+      })),
+      uploadDiaryImages: vi.fn(async () => ["https://storage/original-0.jpg"]),
+      updateDiary: vi.fn(),
+    };
+    const service = new DiaryAnalysisService(
+      diaryService as any,
+      new MockAIService(),
+    );
+
+    const { diary: created, job } = await service.startImageAnalysis(
+      "user-1",
+      {
+        imageFiles: [
+          new File([new Uint8Array([0xff, 0xd8, 0xff, 0xe0])], "meal.jpg", {
+            type: "image/jpeg",
+          }),
+        ],
+        userLanguage: "zh_TW",
+        diaryDate: NOW,
+      },
+      {} as any,
+    );
+    expect(created.status).toBe(TaskStatus.UPLOADING);
+
+    await job;
+
+    const [, , updates] = diaryService.updateDiary.mock.lastCall!;
+    expect(updates).toEqual(
+      expect.objectContaining({
+        name: "番茄炒蛋",
+        calories: 261,
+        status: TaskStatus.DONE,
+      }),
+    );
+    expect(updates.healthAssessment.score).toBe(7);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+import { DiaryService } from "../../src/services/diaryService";
+
+function createService(
+  diaries: { diaryDate: Date; calories: number; isDeleted?: boolean }[],
+  user: any = {},
+) {
+  const diaryRepository = { findByUser: vi.fn(async () => diaries) };
+  const dailyWorkoutRepository = { findByUser: vi.fn(async () => []) };
+  const userRepository = { findById: async () => user } as any;
+  return Object.assign(
+    new DiaryService(
+      diaryRepository as any,
+      undefined,
+      undefined,
+      dailyWorkoutRepository as any,
+      userRepository,
+    ),
+    { diaryRepository, dailyWorkoutRepository },
+  );
+}
+
+describe("DiaryService.getSummaryRange", () => {
+  // 2025-03-10T23:30Z is 2025-03-11 07:30 in Asia/Taipei (UTC+8)
+  const lateUtcDiary = {
+    diaryDate: new Date("2025-03-10T23:30:00Z"),
+    calories: 500,
+  };
+
+  it("buckets diaries by the requested time zone", async () => {
+    const service = createService([lateUtcDiary]);
+
+    const summaries = await service.getSummaryRange(
+      "user-1",
+      "2025-03-10",
+      "2025-03-11",
+      "Asia/Taipei",
+    );
+
+    expect(summaries.map((s) => s.date)).toEqual(["2025-03-10", "2025-03-11"]);
+    expect(summaries[0].consumed.calories).toBe(0);
+    expect(summaries[1].consumed.calories).toBe(500);
+  });
+
+  it("falls back to the time zone saved in notification settings", async () => {
+    const service = createService([lateUtcDiary], {
+      notificationSettings: { timezone: "Asia/Taipei" },
+    });
+
+    const [summary] = await service.getSummaryRange(
+      "user-1",
+      "2025-03-11",
+      "2025-03-11",
+    );
+
+    expect(summary.consumed.calories).toBe(500);
+  });
+
+  it("uses UTC days when no time zone is known", async () => {
+    const service = createService([lateUtcDiary]);
+
+    const [summary] = await service.getSummaryRange(
+      "user-1",
+      "2025-03-10",
+      "2025-03-10",
+    );
+
+    expect(summary.consumed.calories).toBe(500);
+  });
+
+  it("excludes diaries outside the local range and deleted diaries", async () => {
+    const service = createService([
+      { diaryDate: new Date("2025-03-11T16:30:00Z"), calories: 300 },
+      { diaryDate: new Date("2025-03-11T02:00:00Z"), calories: 200 },
+      {
+        diaryDate: new Date("2025-03-11T03:00:00Z"),
+        calories: 900,
+        isDeleted: true,
+      },
+    ]);
+
+    const summaries = await service.getSummaryRange(
+      "user-1",
+      "2025-03-11",
+      "2025-03-11",
+      "Asia/Taipei",
+    );
+
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0].consumed.calories).toBe(200);
+  });
+
+  it("only queries records that can fall on a local day in the range", async () => {
+    const service = createService([]);
+
+    await service.getSummaryRange("user-1", "2025-03-10", "2025-03-11");
+
+    const bounds = [
+      "user-1",
+      new Date("2025-03-09T10:00:00Z"),
+      new Date("2025-03-12T14:00:00Z"),
+    ];
+    expect(service.diaryRepository.findByUser).toHaveBeenCalledWith(...bounds);
+    expect(service.dailyWorkoutRepository.findByUser).toHaveBeenCalledWith(
+      ...bounds,
+    );
+  });
+
+  it("rejects invalid dates and time zones", async () => {
+    const service = createService([]);
+
+    await expect(
+      service.getSummaryRange("user-1", "2025-02-30", "2025-03-01"),
+    ).rejects.toThrow("提供的日期格式無效");
+    await expect(
+      service.getSummaryRange(
+        "user-1",
+        "2025-03-01",
+        "2025-03-01",
+        "Mars/Base",
+      ),
+    ).rejects.toThrow("無效的時區");
+  });
+});
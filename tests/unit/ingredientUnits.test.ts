@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  getIngredientKey,
+  normalizeIngredientAmount,
+  roundAmount,
+  toDisplayAmount,
+} from "../../src/utils/ingredientUnits";
+
+describe("normalizeIngredientAmount", () => {
+  it("converts mass and volume units to grams and milliliters", () => {
+    expect(normalizeIngredientAmount(1.5, { en: "kg" })).toEqual({
+      family: "mass",
+      value: 1500,
+      unitKey: "mass",
+    });
+    expect(normalizeIngredientAmount(2, { en: "tbsp" })).toEqual({
+      family: "volume",
+      value: 30,
+      unitKey: "volume",
+    });
+  });
+
+  it("falls back to other languages when the English unit is unknown", () => {
+    expect(
+      normalizeIngredientAmount(3, { en: "handful", zh_TW: "小匙" }),
+    ).toMatchObject({ family: "volume", value: 15 });
+  });
+
+  it("matches aliases case-insensitively and ignores surrounding spaces", () => {
+    expect(normalizeIngredientAmount(2, { en: " Cups " })).toMatchObject({
+      family: "volume",
+      value: 480,
+    });
+  });
+
+  it("keeps unknown units apart by their original unit", () => {
+    expect(normalizeIngredientAmount(2, { en: "Pinch" })).toEqual({
+      family: "other",
+      value: 2,
+      unitKey: "pinch",
+    });
+    expect(normalizeIngredientAmount(1, undefined)).toEqual({
+      family: "other",
+      value: 1,
+      unitKey: "",
+    });
+  });
+});
+
+describe("toDisplayAmount", () => {
+  it("switches to kilograms and liters from 1000 base units", () => {
+    expect(toDisplayAmount("mass", 999)).toMatchObject({
+      amountValue: 999,
+      amountUnit: { en: "g" },
+    });
+    expect(toDisplayAmount("mass", 1250)).toMatchObject({
+      amountValue: 1.25,
+      amountUnit: { en: "kg" },
+    });
+    expect(toDisplayAmount("volume", 1500)).toMatchObject({
+      amountValue: 1.5,
+      amountUnit: { en: "L" },
+    });
+  });
+
+  it("labels counts as pieces", () => {
+    expect(toDisplayAmount("count", 3)).toMatchObject({
+      amountValue: 3,
+      amountUnit: { en: "pcs", zh_TW: "個" },
+    });
+  });
+});
+
+describe("roundAmount", () => {
+  it("rounds to two decimal places", () => {
+    expect(roundAmount(1.236)).toBe(1.24);
+    expect(roundAmount(2 / 3)).toBe(0.67);
+  });
+});
+
+describe("getIngredientKey", () => {
+  it("singularizes common English plurals", () => {
+    expect(getIngredientKey({ en: "Tomatoes" })).toBe("tomato");
+    expect(getIngredientKey({ en: "berries" })).toBe("berry");
+    expect(getIngredientKey({ en: "Red  Onions" })).toBe("red onion");
+  });
+
+  it("keeps words that only look plural", () => {
+    expect(getIngredientKey({ en: "Swiss" })).toBe("swiss");
+    expect(getIngredientKey({ en: "peas" })).toBe("pea");
+    expect(getIngredientKey({ en: "gas" })).toBe("gas");
+  });
+
+  it("falls back to Traditional Chinese, then any language", () => {
+    expect(getIngredientKey({ zh_TW: "番茄", ja: "トマト" })).toBe("番茄");
+    expect(getIngredientKey({ ja: "トマト" })).toBe("トマト");
+    expect(getIngredientKey(undefined)).toBe("");
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MealPlanService } from "../../src/services/mealPlanService";
+import { MealPlanEntry } from "../../src/types/mealPlan";
+
+// 2025-03-10T20:00Z is 2025-03-11 04:00 in Asia/Taipei (UTC+8)
+const NOW = new Date("2025-03-10T20:00:00Z");
+
+function entry(date: string): MealPlanEntry {
+  return {
+    id: "entry-1",
+    date,
+    slot: "breakfast",
+    sourceType: "recipe",
+    sourceId: "recipe-1",
+    servings: 1,
+    name: "Oatmeal",
+    imgUrl: "",
+    language: "en",
+    perServing: { calories: 300, protein: 10, carbs: 50, fat: 5 },
+    loggedDiaryId: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+  } as MealPlanEntry;
+}
+
+function createService(stored: MealPlanEntry) {
+  const mealPlanRepository = {
+    findById: vi.fn(async () => stored),
+    update: vi.fn(),
+    create: vi.fn(async (_userId: string, created: MealPlanEntry) => created),
+  };
+  const recipeService = {
+    scaleRecipe: vi.fn(async () => ({
+      recipe: { name: { en: "Oatmeal" }, imgUrl: "" },
+      perServing: { calories: 300, protein: 10, carbs: 50, fat: 5 },
+    })),
+  };
+  const userRepository = {
+    findById: vi.fn(async () => ({
+      notificationSettings: { timezone: "Asia/Taipei" },
+    })),
+  };
+  const diaryService = {
+    createDiaryFromRecipe: vi.fn(async () => ({ id: "diary-1" })),
+  };
+  const service = new MealPlanService(
+    mealPlanRepository as any,
+    recipeService as any,
+    {} as any,
+    userRepository as any,
+    diaryService as any,
+  );
+  return { service, diaryService };
+}
+
+describe("MealPlanService in the user's time zone", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("logs today's plan at the current time", async () => {
+    const { service, diaryService } = createService(entry("2025-03-11"));
+
+    await service.logEntryAsDiary("user-1", "entry-1");
+
+    expect(diaryService.createDiaryFromRecipe).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ diaryDate: NOW }),
+    );
+  });
+
+  it("logs a past plan at local midnight of that day", async () => {
+    const { service, diaryService } = createService(entry("2025-03-10"));
+
+    await service.logEntryAsDiary("user-1", "entry-1");
+
+    expect(diaryService.createDiaryFromRecipe).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ diaryDate: new Date("2025-03-09T16:00:00Z") }),
+    );
+  });
+
+  it("treats the previous UTC day as past when planning", async () => {
+    const { service } = createService(entry("2025-03-11"));
+    const request = {
+      slot: "breakfast",
+      sourceType: "recipe",
+      sourceId: "recipe-1",
+      servings: 1,
+      language: "en",
+    } as const;
+
+    await expect(
+      service.createEntry("user-1", { ...request, date: "2025-03-10" } as any),
+    ).rejects.toThrow("只能安排在今天或未來");
+    await expect(
+      service.createEntry("user-1", { ...request, date: "2025-03-11" } as any),
+    ).resolves.toMatchObject({ date: "2025-03-11" });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from "vitest";
+import { MealReminderService } from "../../src/services/mealReminderService";
+import { MealReminderSchedule } from "../../src/types/mealReminder";
+
+const NOW = new Date("2026-10-19T04:05:00Z"); // 12:05 in Asia/Taipei
+
+function schedule(
+  userId: string,
+  nextReminderAt: Date,
+  overrides: Partial<MealReminderSchedule> = {},
+): MealReminderSchedule {
+  return {
+    userId,
+    timezone: "Asia/Taipei",
+    reminderTimes: ["12:00", "18:00"],
+    enabled: true,
+    nextReminderAt,
+    lastSentSlot: null,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function budget() {
+  return { remaining: 900 };
+}
+
+function createService(schedules: MealReminderSchedule[], hasLogged = false) {
+  const due = [...schedules];
+  const mealReminderRepository = {
+    findDue: vi.fn(async (_now: Date, limit: number) => due.slice(0, limit)),
+    advance: vi.fn(async (userId: string) => {
+      const index = due.findIndex((s) => s.userId === userId);
+      if (index === -1) {
+        return false;
+      }
+      due.splice(index, 1);
+      return true;
+    }),
+  };
+  const diaryRepository = {
+    hasDiarySince: vi.fn().mockResolvedValue(hasLogged),
+  };
+  const fcmTokenService = {
+    sendToUser: vi.fn().mockResolvedValue({
+      total: 1,
+      delivered: 1,
+      failed: 0,
+      removedTokens: 0,
+      results: [],
+    }),
+  };
+  const service = new MealReminderService(
+    mealReminderRepository as any,
+    diaryRepository as any,
+    fcmTokenService as any,
+  );
+  return { service, mealReminderRepository, diaryRepository, fcmTokenService };
+}
+
+describe("MealReminderService.sendDueReminders", () => {
+  it("sends due reminders and advances to the next local reminder time", async () => {
+    const { service, mealReminderRepository, fcmTokenService } = createService([
+      schedule("u1", new Date("2026-10-19T04:00:00Z")),
+    ]);
+
+    const result = await service.sendDueReminders(NOW, budget());
+
+    expect(result).toMatchObject({ checked: 1, reminded: 1, delivered: 1 });
+    expect(fcmTokenService.sendToUser).toHaveBeenCalledWith(
+      "u1",
+      expect.any(Function),
+    );
+    expect(mealReminderRepository.advance).toHaveBeenCalledWith(
+      "u1",
+      new Date("2026-10-19T04:00:00Z"),
+      new Date("2026-10-19T10:00:00Z"),
+      "2026-10-19 12:00",
+    );
+  });
+
+  it("skips reminders that are too late without sending", async () => {
+    const { service, mealReminderRepository, fcmTokenService } = createService([
+      schedule("u1", new Date("2026-10-18T10:00:00Z")),
+    ]);
+
+    const result = await service.sendDueReminders(NOW, budget());
+
+    expect(result).toMatchObject({ checked: 1, skippedLate: 1, reminded: 0 });
+    expect(fcmTokenService.sendToUser).not.toHaveBeenCalled();
+    expect(mealReminderRepository.advance).toHaveBeenCalledWith(
+      "u1",
+      new Date("2026-10-18T10:00:00Z"),
+      new Date("2026-10-19T10:00:00Z"),
+      null,
+    );
+  });
+
+  it("does not remind users who logged since the previous reminder", async () => {
+    const { service, fcmTokenService } = createService(
+      [schedule("u1", new Date("2026-10-19T04:00:00Z"))],
+      true,
+    );
+
+    const result = await service.sendDueReminders(NOW, budget());
+
+    expect(result.skippedLogged).toBe(1);
+    expect(fcmTokenService.sendToUser).not.toHaveBeenCalled();
+  });
+
+  it("only checks diaries logged since the previous reminder of the day", async () => {
+    const { service, diaryRepository } = createService([
+      schedule("u1", new Date("2026-10-19T04:00:00Z"), {
+        reminderTimes: ["08:00", "12:00", "18:00"],
+      }),
+    ]);
+
+    await service.sendDueReminders(NOW, budget());
+
+    expect(diaryRepository.hasDiarySince).toHaveBeenCalledWith(
+      "u1",
+      new Date("2026-10-19T00:00:00Z"),
+    );
+  });
+
+  it("checks from local midnight for the first reminder of the day", async () => {
+    const { service, diaryRepository } = createService([
+      schedule("u1", new Date("2026-10-19T04:00:00Z")),
+    ]);
+
+    await service.sendDueReminders(NOW, budget());
+
+    expect(diaryRepository.hasDiarySince).toHaveBeenCalledWith(
+      "u1",
+      new Date("2026-10-18T16:00:00Z"),
+    );
+  });
+
+  it("does not send when another run already advanced the schedule", async () => {
+    const { service, mealReminderRepository, fcmTokenService } = createService([
+      schedule("u1", new Date("2026-10-19T04:00:00Z")),
+    ]);
+    mealReminderRepository.advance.mockResolvedValueOnce(false);
+
+    await service.sendDueReminders(NOW, budget());
+
+    expect(fcmTokenService.sendToUser).not.toHaveBeenCalled();
+  });
+
+  it("stops when the run's subrequest budget is used up", async () => {
+    const schedules = Array.from({ length: 250 }, (_, i) =>
+      schedule(
+        `u${String(i).padStart(3, "0")}`,
+        new Date("2026-10-19T04:00:00Z"),
+      ),
+    );
+    const { service, fcmTokenService } = createService(schedules);
+    const runBudget = { remaining: 100 };
+
+    const result = await service.sendDueReminders(NOW, runBudget);
+
+    expect(result.checked).toBeGreaterThan(0);
+    expect(result.checked).toBeLessThan(schedules.length);
+    expect(fcmTokenService.sendToUser).toHaveBeenCalledTimes(result.checked);
+    expect(runBudget.remaining).toBeGreaterThanOrEqual(0);
+  });
+
+  it("does not retry a failing schedule within the same run", async () => {
+    const { service, mealReminderRepository } = createService([
+      schedule("u1", new Date("2026-10-19T04:00:00Z")),
+    ]);
+    mealReminderRepository.advance.mockRejectedValue(new Error("D1 down"));
+
+    const result = await service.sendDueReminders(NOW, budget());
+
+    expect(result.checked).toBe(1);
+    expect(mealReminderRepository.findDue).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { NotificationType } from "../../src/types/fcmToken";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  getActiveMealReminderTimes,
+  isWithinQuietHours,
+  notificationSettingsFromFirestore,
+} from "../../src/types/notificationSettings";
+
+describe("isWithinQuietHours", () => {
+  it("checks a same-day range with an exclusive end", () => {
+    const quietHours = { start: "13:00", end: "14:00" };
+
+    expect(isWithinQuietHours(quietHours, 13 * 60)).toBe(true);
+    expect(isWithinQuietHours(quietHours, 13 * 60 + 59)).toBe(true);
+    expect(isWithinQuietHours(quietHours, 14 * 60)).toBe(false);
+    expect(isWithinQuietHours(quietHours, 12 * 60 + 59)).toBe(false);
+  });
+
+  it("wraps ranges that cross midnight", () => {
+    const quietHours = { start: "22:00", end: "07:00" };
+
+    expect(isWithinQuietHours(quietHours, 23 * 60)).toBe(true);
+    expect(isWithinQuietHours(quietHours, 0)).toBe(true);
+    expect(isWithinQuietHours(quietHours, 6 * 60 + 59)).toBe(true);
+    expect(isWithinQuietHours(quietHours, 7 * 60)).toBe(false);
+    expect(isWithinQuietHours(quietHours, 12 * 60)).toBe(false);
+  });
+
+  it("treats missing, malformed or empty ranges as no quiet hours", () => {
+    expect(isWithinQuietHours(null, 0)).toBe(false);
+    expect(isWithinQuietHours({ start: "22:00", end: "22:00" }, 22 * 60)).toBe(
+      false,
+    );
+    expect(isWithinQuietHours({ start: "bad", end: "07:00" }, 60)).toBe(false);
+  });
+});
+
+describe("DEFAULT_NOTIFICATION_SETTINGS", () => {
+  it("requires an explicit opt-in for promotions", () => {
+    expect(DEFAULT_NOTIFICATION_SETTINGS.optIns).toEqual({
+      [NotificationType.MEAL_REMINDER]: true,
+      [NotificationType.PROMOTION]: false,
+      [NotificationType.GENERAL]: true,
+    });
+  });
+
+  it("applies to users without stored preferences", () => {
+    expect(notificationSettingsFromFirestore(undefined).optIns).toEqual(
+      DEFAULT_NOTIFICATION_SETTINGS.optIns,
+    );
+    expect(
+      notificationSettingsFromFirestore({
+        optIns: { [NotificationType.PROMOTION]: true },
+      }).optIns[NotificationType.PROMOTION],
+    ).toBe(true);
+  });
+});
+
+describe("getActiveMealReminderTimes", () => {
+  it("drops unset times and times inside quiet hours", () => {
+    expect(
+      getActiveMealReminderTimes({
+        ...DEFAULT_NOTIFICATION_SETTINGS,
+        mealReminderTimes: { breakfast: "06:30", lunch: "12:00", dinner: null },
+        quietHours: { start: "22:00", end: "07:00" },
+      }),
+    ).toEqual(["12:00"]);
+  });
+
+  it("returns nothing when meal reminders are turned off", () => {
+    expect(
+      getActiveMealReminderTimes({
+        ...DEFAULT_NOTIFICATION_SETTINGS,
+        mealReminderTimes: { breakfast: "08:00", lunch: null, dinner: null },
+        optIns: {
+          ...DEFAULT_NOTIFICATION_SETTINGS.optIns,
+          [NotificationType.MEAL_REMINDER]: false,
+        },
+      }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  analyzeWithNutritionRetry,
+  countSevereCorrections,
+  reconcileNutrition,
+} from "../../src/utils/nutritionConsistency";
+
+function ingredient(overrides: Record<string, unknown> = {}) {
+  return {
+    calories: 156,
+    protein: 31,
+    carbs: 0,
+    fat: 3.6,
+    amountValue: 100,
+    amountUnit: { en: "g" },
+    ...overrides,
+  };
+}
+
+function result(ingredients: ReturnType<typeof ingredient>[], totals = {}) {
+  return {
+    calories: 0,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    ingredients,
+    ...totals,
+  } as any;
+}
+
+describe("reconcileNutrition", () => {
+  it("leaves consistent ingredients alone and fills totals", () => {
+    const analysis = result([ingredient()], {
+      calories: 156,
+      protein: 31,
+      fat: 3.6,
+    });
+
+    expect(reconcileNutrition(analysis)).toEqual([]);
+    expect(analysis).toMatchObject({
+      calories: 156,
+      protein: 31,
+      carbs: 0,
+      fat: 3.6,
+      nutritionCorrections: [],
+    });
+  });
+
+  it("zeroes negatives and caps implausible values", () => {
+    const analysis = result([
+      ingredient({ carbs: -5, protein: 900, amountUnit: "piece" }),
+    ]);
+
+    const corrections = reconcileNutrition(analysis);
+
+    expect(corrections).toEqual(
+      expect.arrayContaining([
+        {
+          field: "ingredients[0].carbs",
+          original: -5,
+          corrected: 0,
+          reason: "invalid_value",
+        },
+        {
+          field: "ingredients[0].protein",
+          original: 900,
+          corrected: 500,
+          reason: "out_of_range",
+        },
+      ]),
+    );
+  });
+
+  it("scales macros down when they outweigh a gram amount", () => {
+    const analysis = result([
+      ingredient({ protein: 60, carbs: 60, fat: 0, amountValue: 100 }),
+    ]);
+
+    reconcileNutrition(analysis);
+
+    expect(analysis.ingredients[0]).toMatchObject({ protein: 50, carbs: 50 });
+    expect(countSevereCorrections(analysis.nutritionCorrections)).toBe(2);
+  });
+
+  it("recomputes calories from macros and reports total mismatches", () => {
+    const analysis = result([ingredient({ calories: 400 })], {
+      calories: 400,
+      protein: 31,
+      fat: 3.6,
+    });
+
+    const corrections = reconcileNutrition(analysis);
+
+    expect(corrections.map((c) => c.reason)).toEqual([
+      "calorie_formula",
+      "total_mismatch",
+    ]);
+    expect(analysis.calories).toBe(156);
+    expect(countSevereCorrections(corrections)).toBe(0);
+  });
+});
+
+describe("analyzeWithNutritionRetry", () => {
+  const severe = [
+    {
+      field: "ingredients[0].fat",
+      original: -1,
+      corrected: 0,
+      reason: "invalid_value",
+    },
+  ];
+
+  it("does not retry when there are no severe corrections", async () => {
+    const analyze = vi.fn().mockResolvedValue({ nutritionCorrections: [] });
+
+    await analyzeWithNutritionRetry(analyze);
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries once and keeps the result with fewer severe corrections", async () => {
+    const first = { nutritionCorrections: severe };
+    const second = { nutritionCorrections: [] };
+    const analyze = vi
+      .fn()
+      .mockResolvedValueOnce(first)
+      .mockResolvedValueOnce(second);
+
+    expect(await analyzeWithNutritionRetry(analyze as any)).toBe(second);
+    expect(analyze).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the reconciled original when the retry fails", async () => {
+    const first = { nutritionCorrections: severe };
+    const analyze = vi
+      .fn()
+      .mockResolvedValueOnce(first)
+      .mockRejectedValueOnce(new Error("AI unavailable"));
+
+    expect(await analyzeWithNutritionRetry(analyze as any)).toBe(first);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { FcmTokenData } from "../../src/types/fcmToken";
+import {
+  CreatePromotionSchema,
+  FCM_PAYLOAD_LIMIT_BYTES,
+  getPromotionPayloadSize,
+  isReservedPromotionDataKey,
+  matchesDeviceAudience,
+  PromotionAudience,
+} from "../../src/types/promotion";
+
+function device(overrides: Partial<FcmTokenData> = {}): FcmTokenData {
+  return {
+    token: "token",
+    deviceId: "device",
+    platform: "ios",
+    language: "ja_JP",
+    appVersion: "2.3.0",
+    lastActive: new Date(),
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+const everyone: PromotionAudience = { subscriptionStatus: "all" };
+
+describe("matchesDeviceAudience", () => {
+  it("matches every device when no device filters are set", () => {
+    expect(matchesDeviceAudience(device(), everyone)).toBe(true);
+  });
+
+  it("filters by platform", () => {
+    const audience = { ...everyone, platforms: ["android" as const] };
+
+    expect(matchesDeviceAudience(device(), audience)).toBe(false);
+    expect(
+      matchesDeviceAudience(device({ platform: "android" }), audience),
+    ).toBe(true);
+  });
+
+  it("filters by an inclusive app version range", () => {
+    const audience = {
+      ...everyone,
+      minAppVersion: "2.3.0",
+      maxAppVersion: "2.10.0",
+    };
+
+    expect(matchesDeviceAudience(device(), audience)).toBe(true);
+    expect(
+      matchesDeviceAudience(device({ appVersion: "2.10.0+99" }), audience),
+    ).toBe(true);
+    expect(
+      matchesDeviceAudience(device({ appVersion: "2.2.9" }), audience),
+    ).toBe(false);
+    expect(
+      matchesDeviceAudience(device({ appVersion: "2.11.0" }), audience),
+    ).toBe(false);
+  });
+
+  it("matches a language against its regional variants only", () => {
+    expect(
+      matchesDeviceAudience(device(), { ...everyone, languages: ["ja"] }),
+    ).toBe(true);
+    expect(
+      matchesDeviceAudience(device({ language: "pt-BR" }), {
+        ...everyone,
+        languages: ["pt_br"],
+      }),
+    ).toBe(true);
+    expect(
+      matchesDeviceAudience(device({ language: "zh_CN" }), {
+        ...everyone,
+        languages: ["zh_TW"],
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("promotion data payload", () => {
+  const request = {
+    name: "Spring sale",
+    content: { en: { title: "Sale", body: "50% off" } },
+    audience: {},
+  };
+
+  it("rejects FCM reserved and system keys", () => {
+    for (const key of [
+      "from",
+      "message_type",
+      "notification",
+      "google.c.a.e",
+      "gcm.n.e",
+      "type",
+      "promotionId",
+    ]) {
+      expect(isReservedPromotionDataKey(key)).toBe(true);
+      expect(
+        CreatePromotionSchema.safeParse({ ...request, data: { [key]: "x" } })
+          .success,
+      ).toBe(false);
+    }
+
+    expect(
+      CreatePromotionSchema.safeParse({
+        ...request,
+        data: { deeplink: "eatmoji://paywall" },
+      }).success,
+    ).toBe(true);
+  });
+
+  it("counts the notification, data and system keys toward the size limit", () => {
+    const message = { title: "Sale", body: "50% off" };
+    const base = getPromotionPayloadSize(message, null);
+
+    expect(base).toBeGreaterThan(message.title.length + message.body.length);
+    expect(
+      getPromotionPayloadSize(message, { deeplink: "x".repeat(100) }),
+    ).toBe(base + '"deeplink":"",'.length + 100);
+    expect(
+      getPromotionPayloadSize(message, { blob: "あ".repeat(1400) }),
+    ).toBeGreaterThan(FCM_PAYLOAD_LIMIT_BYTES);
+  });
+});
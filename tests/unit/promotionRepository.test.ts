@@ -0,0 +1,87 @@
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { D1PromotionRepository } from "../../src/repositories/promotionRepository";
+import { PromotionCampaign } from "../../src/types/promotion";
+
+const NOW = new Date("2026-10-19T04:05:00Z");
+
+function campaign(id: string): PromotionCampaign {
+  return {
+    id,
+    name: "Autumn sale",
+    content: { en: { title: "Sale", body: "50% off" } },
+    defaultLanguage: "en",
+    audience: { subscriptionStatus: "all" },
+    data: null,
+    status: "scheduled",
+    scheduledAt: NOW,
+    cursor: null,
+    stats: {
+      scannedUsers: 0,
+      targetedUsers: 0,
+      skippedOptOut: 0,
+      skippedQuietHours: 0,
+      delivered: 0,
+      failed: 0,
+    },
+    createdBy: "admin",
+    createdAt: NOW,
+    updatedAt: NOW,
+    completedAt: null,
+  };
+}
+
+describe("D1PromotionRepository deferred users", () => {
+  let repository: D1PromotionRepository;
+
+  beforeEach(async () => {
+    repository = new D1PromotionRepository(env.DB);
+    await env.DB.prepare("DELETE FROM promotion_deferred_users").run();
+    await env.DB.prepare("DELETE FROM promotion_campaigns").run();
+    await repository.insert(campaign("c1"));
+    await repository.insert(campaign("c2"));
+  });
+
+  it("claims only due users of the campaign and removes them from the list", async () => {
+    await repository.deferUsers("c1", [
+      { userId: "u1", sendAfter: new Date("2026-10-19T05:00:00Z") },
+      { userId: "u2", sendAfter: new Date("2026-10-19T06:00:00Z") },
+    ]);
+    await repository.deferUsers("c2", [
+      { userId: "u1", sendAfter: new Date("2026-10-19T05:00:00Z") },
+    ]);
+
+    const now = new Date("2026-10-19T05:30:00Z");
+    expect(await repository.claimDeferredUsers("c1", now, 10)).toEqual(["u1"]);
+    expect(await repository.claimDeferredUsers("c1", now, 10)).toEqual([]);
+    expect(await repository.countDeferredUsers("c1")).toBe(1);
+    expect(await repository.countDeferredUsers("c2")).toBe(1);
+  });
+
+  it("updates the send time when a user is deferred again", async () => {
+    await repository.deferUsers("c1", [
+      { userId: "u1", sendAfter: new Date("2026-10-19T05:00:00Z") },
+    ]);
+    await repository.deferUsers("c1", [
+      { userId: "u1", sendAfter: new Date("2026-10-19T07:00:00Z") },
+    ]);
+
+    expect(
+      await repository.claimDeferredUsers(
+        "c1",
+        new Date("2026-10-19T06:00:00Z"),
+        10,
+      ),
+    ).toEqual([]);
+    expect(await repository.countDeferredUsers("c1")).toBe(1);
+  });
+
+  it("drops deferred users when the campaign is cancelled", async () => {
+    await repository.deferUsers("c1", [
+      { userId: "u1", sendAfter: new Date("2026-10-19T05:00:00Z") },
+    ]);
+
+    expect(await repository.cancel("c1")).toBe(true);
+    expect(await repository.countDeferredUsers("c1")).toBe(0);
+  });
+});
@@ -0,0 +1,369 @@
+import { describe, expect, it, vi } from "vitest";
+import { PromotionService } from "../../src/services/promotionService";
+import { NotificationType } from "../../src/types/fcmToken";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationSettings,
+} from "../../src/types/notificationSettings";
+import {
+  PromotionCampaign,
+  PromotionQueueMessage,
+} from "../../src/types/promotion";
+import type { PushDevice } from "../../src/types/pushDevice";
+import type { AppUser } from "../../src/types/user";
+
+const NOW = new Date("2026-10-19T04:05:00Z"); // 12:05 in Asia/Taipei
+
+function budget() {
+  return { remaining: 300 };
+}
+
+function user(uid: string, overrides: Partial<NotificationSettings> = {}) {
+  return {
+    uid,
+    notificationSettings: {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      timezone: "Asia/Taipei",
+      optIns: {
+        ...DEFAULT_NOTIFICATION_SETTINGS.optIns,
+        [NotificationType.PROMOTION]: true,
+      },
+      ...overrides,
+    },
+  } as AppUser;
+}
+
+function campaign(): PromotionCampaign {
+  return {
+    id: "campaign-1",
+    name: "Autumn sale",
+    content: { en: { title: "Sale", body: "50% off" } },
+    defaultLanguage: "en",
+    audience: { subscriptionStatus: "all" },
+    data: null,
+    status: "scheduled",
+    scheduledAt: NOW,
+    cursor: null,
+    stats: {
+      scannedUsers: 0,
+      targetedUsers: 0,
+      skippedOptOut: 0,
+      skippedQuietHours: 0,
+      delivered: 0,
+      failed: 0,
+    },
+    createdBy: "admin",
+    createdAt: NOW,
+    updatedAt: NOW,
+    completedAt: null,
+  };
+}
+
+function device(userId: string, overrides: Partial<PushDevice> = {}) {
+  return {
+    userId,
+    deviceId: `${userId}-phone`,
+    platform: "ios",
+    language: "en",
+    appVersion: "2.0.0",
+    lastActive: NOW,
+    ...overrides,
+  } as PushDevice;
+}
+
+function createService(users: AppUser[], devices: PushDevice[] = []) {
+  const stored = campaign();
+  const deferred = new Map<string, Date>();
+  const promotionRepository = {
+    findDue: vi.fn(async () =>
+      stored.status === "completed" ? [] : [{ ...stored }],
+    ),
+    findById: vi.fn(async () => ({ ...stored })),
+    claimBatch: vi.fn(
+      async (_id: string, expected: string | null, next: string) => {
+        if (stored.cursor !== expected) {
+          return false;
+        }
+        stored.cursor = next;
+        return true;
+      },
+    ),
+    addStats: vi.fn(),
+    markCompleted: vi.fn(async () => {
+      stored.status = "completed";
+    }),
+    deferUsers: vi.fn(
+      async (_id: string, deferrals: { userId: string; sendAfter: Date }[]) => {
+        for (const { userId, sendAfter } of deferrals) {
+          deferred.set(userId, sendAfter);
+        }
+      },
+    ),
+    claimDeferredUsers: vi.fn(async (_id: string, now: Date, limit: number) => {
+      const due = [...deferred]
+        .filter(([, sendAfter]) => sendAfter <= now)
+        .slice(0, limit)
+        .map(([userId]) => userId);
+      due.forEach((userId) => deferred.delete(userId));
+      return due;
+    }),
+    countDeferredUsers: vi.fn(async () => deferred.size),
+  };
+  const userRepository = {
+    listAfter: vi.fn(async (afterUid: string | null, limit: number) =>
+      users
+        .filter((u) => afterUid === null || u.uid > afterUid)
+        .slice(0, limit),
+    ),
+    findById: vi.fn(
+      async (uid: string) => users.find((u) => u.uid === uid) ?? null,
+    ),
+  };
+  const fcmTokenService = {
+    sendToUser: vi.fn().mockResolvedValue({
+      total: 1,
+      delivered: 1,
+      failed: 0,
+      removedTokens: 0,
+      results: [],
+    }),
+  };
+  const pushDeviceRepository = {
+    findByUserIds: vi.fn(async (userIds: string[]) =>
+      devices.filter((d) => userIds.includes(d.userId)),
+    ),
+  };
+  const messages: PromotionQueueMessage[] = [];
+  const promotionQueue = {
+    send: vi.fn(async (body: PromotionQueueMessage) => {
+      messages.push(body);
+    }),
+    sendBatch: vi.fn(async (batch: { body: PromotionQueueMessage }[]) => {
+      messages.push(...batch.map(({ body }) => body));
+    }),
+  };
+  const service = new PromotionService(
+    promotionRepository as any,
+    userRepository as any,
+    fcmTokenService as any,
+    pushDeviceRepository as any,
+    promotionQueue as any,
+  );
+
+  // One cron tick: enqueue due campaigns, then drain the queue like the consumer
+  async function runScheduled(now: Date) {
+    await service.enqueueDuePromotions(now, budget());
+    const results = [];
+    while (messages.length > 0 && results.length < 20) {
+      results.push(
+        await service.sendQueuedBatch(messages.shift()!, now, budget()),
+      );
+    }
+    return results;
+  }
+
+  return {
+    service,
+    stored,
+    deferred,
+    messages,
+    promotionRepository,
+    userRepository,
+    fcmTokenService,
+    pushDeviceRepository,
+    runScheduled,
+  };
+}
+
+function sentUserIds(fcmTokenService: { sendToUser: any }) {
+  return fcmTokenService.sendToUser.mock.calls.map(([uid]: [string]) => uid);
+}
+
+function optedOut(uid: string) {
+  const u = user(uid);
+  u.notificationSettings!.optIns[NotificationType.PROMOTION] = false;
+  return u;
+}
+
+describe("PromotionService.sendQueuedBatch", () => {
+  it("only claims the users it can send to within the budget and queues the next batch", async () => {
+    const users = Array.from({ length: 300 }, (_, i) =>
+      user(`u${String(i).padStart(3, "0")}`),
+    );
+    const { service, stored, messages, promotionRepository, fcmTokenService } =
+      createService(users);
+
+    await service.sendQueuedBatch(
+      { campaignId: "campaign-1", cursor: null },
+      NOW,
+      budget(),
+    );
+
+    const sent = sentUserIds(fcmTokenService);
+    expect(sent.length).toBeGreaterThan(0);
+    expect(sent.length).toBeLessThan(users.length);
+    expect(stored.cursor).toBe(sent[sent.length - 1]);
+    expect(messages).toEqual([
+      { campaignId: "campaign-1", cursor: stored.cursor },
+    ]);
+    expect(promotionRepository.markCompleted).not.toHaveBeenCalled();
+  });
+
+  it("chains batches until every user is sent exactly once within one scheduled run", async () => {
+    const users = Array.from({ length: 300 }, (_, i) =>
+      user(`u${String(i).padStart(3, "0")}`),
+    );
+    const { stored, promotionRepository, fcmTokenService, runScheduled } =
+      createService(users);
+
+    const results = await runScheduled(NOW);
+
+    expect(results.length).toBeGreaterThan(1);
+    expect(promotionRepository.findDue).toHaveBeenCalledTimes(1);
+    expect(stored.status).toBe("completed");
+    expect(sentUserIds(fcmTokenService)).toEqual(users.map((u) => u.uid));
+  });
+
+  it("does not spend the batch budget on users it will not send to", async () => {
+    const users = [
+      ...Array.from({ length: 250 }, (_, i) =>
+        optedOut(`a${String(i).padStart(3, "0")}`),
+      ),
+      ...Array.from({ length: 50 }, (_, i) =>
+        user(`b${String(i).padStart(3, "0")}`),
+      ),
+    ];
+    const { service, stored, messages, promotionRepository, fcmTokenService } =
+      createService(users);
+
+    await service.sendQueuedBatch(
+      { campaignId: "campaign-1", cursor: null },
+      NOW,
+      budget(),
+    );
+
+    expect(sentUserIds(fcmTokenService)).toHaveLength(50);
+    expect(promotionRepository.addStats).toHaveBeenCalledWith(
+      "campaign-1",
+      expect.objectContaining({ scannedUsers: 300, skippedOptOut: 250 }),
+    );
+    expect(stored.status).toBe("completed");
+    expect(messages).toEqual([]);
+  });
+
+  it("defers users in quiet hours and sends to them after quiet hours end", async () => {
+    const quiet = user("u2", { quietHours: { start: "12:00", end: "13:00" } });
+    const {
+      stored,
+      deferred,
+      promotionRepository,
+      fcmTokenService,
+      runScheduled,
+    } = createService([user("u1"), quiet]);
+
+    const [result] = await runScheduled(NOW);
+
+    expect(result.deferred).toBe(1);
+    expect(sentUserIds(fcmTokenService)).toEqual(["u1"]);
+    expect(deferred.get("u2")).toEqual(new Date("2026-10-19T05:00:00Z"));
+    expect(promotionRepository.addStats).toHaveBeenCalledWith(
+      "campaign-1",
+      expect.objectContaining({ scannedUsers: 2, skippedQuietHours: 1 }),
+    );
+    expect(stored.status).not.toBe("completed");
+
+    await runScheduled(new Date("2026-10-19T04:30:00Z"));
+    expect(sentUserIds(fcmTokenService)).toEqual(["u1"]);
+
+    await runScheduled(new Date("2026-10-19T05:00:00Z"));
+    expect(sentUserIds(fcmTokenService)).toEqual(["u1", "u2"]);
+    expect(deferred.size).toBe(0);
+    expect(stored.status).toBe("completed");
+  });
+
+  it("defers a user again when quiet hours changed before the retry", async () => {
+    const quiet = user("u1", { quietHours: { start: "12:00", end: "13:00" } });
+    const { deferred, fcmTokenService, runScheduled } = createService([quiet]);
+
+    await runScheduled(NOW);
+    quiet.notificationSettings!.quietHours = { start: "12:00", end: "14:00" };
+    await runScheduled(new Date("2026-10-19T05:00:00Z"));
+
+    expect(fcmTokenService.sendToUser).not.toHaveBeenCalled();
+    expect(deferred.get("u1")).toEqual(new Date("2026-10-19T06:00:00Z"));
+  });
+
+  it("does not send a batch another run already claimed", async () => {
+    const { messages, promotionRepository, fcmTokenService, runScheduled } =
+      createService([user("u1")]);
+    promotionRepository.claimBatch.mockResolvedValueOnce(false);
+
+    await runScheduled(NOW);
+
+    expect(fcmTokenService.sendToUser).not.toHaveBeenCalled();
+    expect(promotionRepository.markCompleted).not.toHaveBeenCalled();
+    expect(messages).toEqual([]);
+  });
+
+  it("drops messages whose batch was already continued by another message", async () => {
+    const { service, stored, userRepository, fcmTokenService } = createService([
+      user("u1"),
+      user("u2"),
+    ]);
+    stored.cursor = "u1";
+    stored.status = "sending";
+
+    const result = await service.sendQueuedBatch(
+      { campaignId: "campaign-1", cursor: null },
+      NOW,
+      budget(),
+    );
+
+    expect(result.campaigns).toBe(0);
+    expect(userRepository.listAfter).not.toHaveBeenCalled();
+    expect(fcmTokenService.sendToUser).not.toHaveBeenCalled();
+  });
+});
+
+describe("PromotionService.enqueueDuePromotions", () => {
+  it("queues due campaigns with their current cursor", async () => {
+    const { service, stored, messages } = createService([user("u1")]);
+    stored.cursor = "u1";
+
+    await expect(service.enqueueDuePromotions(NOW, budget())).resolves.toBe(1);
+    expect(messages).toEqual([{ campaignId: "campaign-1", cursor: "u1" }]);
+  });
+});
+
+describe("PromotionService.previewAudience", () => {
+  it("counts matching devices from stored device metadata", async () => {
+    const { service, pushDeviceRepository } = createService(
+      [user("u1"), optedOut("u2"), user("u3")],
+      [
+        device("u1", { language: "ja" }),
+        device("u2"),
+        device("u3", { deviceId: "u3-phone", platform: "android" }),
+        device("u3", { deviceId: "u3-tablet" }),
+      ],
+    );
+
+    const preview = await service.previewAudience({
+      subscriptionStatus: "all",
+      platforms: ["ios"],
+    });
+
+    expect(pushDeviceRepository.findByUserIds).toHaveBeenCalledWith([
+      "u1",
+      "u3",
+    ]);
+    expect(preview).toMatchObject({
+      scannedUsers: 3,
+      matchedUsers: 2,
+      matchedDevices: 2,
+      excludedByOptOut: 1,
+      devicesByPlatform: { ios: 2 },
+      devicesByLanguage: { ja: 1, en: 1 },
+      nextCursor: null,
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { D1PushDeviceRepository } from "../../src/repositories/pushDeviceRepository";
+import type { PushDevice } from "../../src/types/pushDevice";
+
+const NOW = new Date("2026-10-19T04:05:00Z");
+
+function device(userId: string, deviceId = "phone"): PushDevice {
+  return {
+    userId,
+    deviceId,
+    platform: "ios",
+    language: "en",
+    appVersion: "2.0.0",
+    lastActive: NOW,
+  };
+}
+
+describe("D1PushDeviceRepository", () => {
+  let repository: D1PushDeviceRepository;
+
+  beforeEach(async () => {
+    repository = new D1PushDeviceRepository(env.DB);
+    await env.DB.prepare("DELETE FROM push_devices").run();
+  });
+
+  it("finds devices for more users than one query can bind", async () => {
+    const userIds = Array.from({ length: 150 }, (_, i) => `u${i}`);
+    await repository.replaceForUser("u0", [device("u0")]);
+    await repository.replaceForUser("u149", [device("u149")]);
+    await repository.replaceForUser("other", [device("other")]);
+
+    const devices = await repository.findByUserIds(userIds);
+
+    expect(devices.map((d) => d.userId).sort()).toEqual(["u0", "u149"]);
+    expect(devices[0].lastActive).toEqual(NOW);
+  });
+
+  it("replaces a user's devices and removes inactive ones", async () => {
+    await repository.upsert(device("u1", "old"));
+    await repository.replaceForUser("u1", [device("u1", "phone")]);
+    await repository.upsert({
+      ...device("u1", "tablet"),
+      lastActive: new Date("2026-08-01T00:00:00Z"),
+    });
+
+    await repository.removeInactive("u1", new Date("2026-09-19T00:00:00Z"));
+
+    const devices = await repository.findByUserIds(["u1"]);
+    expect(devices.map((d) => d.deviceId)).toEqual(["phone"]);
+  });
+});
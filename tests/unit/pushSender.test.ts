@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { isInvalidTokenError } from "../../src/services/pushSender";
+
+function badRequest(field: string) {
+  return {
+    error: {
+      code: 400,
+      status: "INVALID_ARGUMENT",
+      details: [
+        {
+          "@type": "type.googleapis.com/google.firebase.fcm.v1.FcmError",
+          errorCode: "INVALID_ARGUMENT",
+        },
+        {
+          "@type": "type.googleapis.com/google.rpc.BadRequest",
+          fieldViolations: [{ field, description: "Invalid value" }],
+        },
+      ],
+    },
+  };
+}
+
+describe("isInvalidTokenError", () => {
+  it("prunes unregistered tokens", () => {
+    expect(isInvalidTokenError("UNREGISTERED", {})).toBe(true);
+  });
+
+  it("prunes INVALID_ARGUMENT only when the token field is rejected", () => {
+    expect(
+      isInvalidTokenError("INVALID_ARGUMENT", badRequest("message.token")),
+    ).toBe(true);
+    expect(
+      isInvalidTokenError(
+        "INVALID_ARGUMENT",
+        badRequest("message.data[0].value"),
+      ),
+    ).toBe(false);
+    expect(isInvalidTokenError("INVALID_ARGUMENT", {})).toBe(false);
+  });
+
+  it("keeps tokens on transient or quota errors", () => {
+    expect(isInvalidTokenError("UNAVAILABLE", {})).toBe(false);
+    expect(isInvalidTokenError("QUOTA_EXCEEDED", {})).toBe(false);
+    expect(isInvalidTokenError(undefined, {})).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { PublicRecipePageOptions } from "../../src/repositories/recipeRepository";
+import { RecipeService } from "../../src/services/recipeService";
+import { Recipe, RecipeFeedQuery } from "../../src/types/recipe";
+
+function recipe(id: string, favoriteCount: number): Recipe {
+  return {
+    id,
+    tags: [],
+    calories: 100,
+    protein: 10,
+    duration: 10,
+    difficulty: "easy",
+    favoriteCount,
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+  } as unknown as Recipe;
+}
+
+function createService(recipes: Recipe[]) {
+  const calls: PublicRecipePageOptions[] = [];
+  const recipeRepository = {
+    findPublicPage: async (options: PublicRecipePageOptions) => {
+      calls.push(options);
+      const start = options.startAfter
+        ? recipes.findIndex((r) => r.id === options.startAfter!.id) + 1
+        : 0;
+      return recipes.slice(start, start + options.limit);
+    },
+  } as any;
+  return { service: new RecipeService(recipeRepository), calls };
+}
+
+const baseQuery = { sort: "mostFavorited", limit: 2 } as RecipeFeedQuery;
+
+describe("RecipeService.getPublicRecipeFeed", () => {
+  const recipes = [recipe("a", 9), recipe("b", 5), recipe("c", 5)];
+
+  it("continues after the last returned recipe", async () => {
+    const { service, calls } = createService(recipes);
+
+    const first = await service.getPublicRecipeFeed(baseQuery);
+    expect(first.items.map((r) => r.id)).toEqual(["a", "b"]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await service.getPublicRecipeFeed({
+      ...baseQuery,
+      cursor: first.nextCursor!,
+    });
+    expect(second.items.map((r) => r.id)).toEqual(["c"]);
+    expect(second.nextCursor).toBeNull();
+    expect(calls[1].startAfter).toEqual({ sortValue: 5, id: "b" });
+  });
+
+  it("rejects a cursor created for another sort order", async () => {
+    const { service } = createService(recipes);
+    const { nextCursor } = await service.getPublicRecipeFeed(baseQuery);
+
+    await expect(
+      service.getPublicRecipeFeed({
+        ...baseQuery,
+        sort: "newest",
+        cursor: nextCursor!,
+      }),
+    ).rejects.toThrow("排序方式與游標不一致");
+  });
+
+  it("rejects malformed cursors", async () => {
+    const { service } = createService(recipes);
+
+    await expect(
+      service.getPublicRecipeFeed({ ...baseQuery, cursor: btoa('{"o":50}') }),
+    ).rejects.toThrow("無效的分頁游標");
+  });
+});
@@ -0,0 +1,148 @@
+import { env, fetchMock } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { FirestoreRecipeRepository } from "../../src/repositories/recipeRepository";
+import { Recipe } from "../../src/types/recipe";
+import { initializeFirestore } from "../../src/utils/firebase";
+
+const DOCUMENTS = "/v1/projects/eatmoji-test/databases/(default)/documents";
+
+function mockFirestore() {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+  fetchMock
+    .get("https://oauth2.googleapis.com")
+    .intercept({ path: "/token", method: "POST" })
+    .reply(200, { access_token: "test-access-token", expires_in: 3600 })
+    .persist();
+  return fetchMock.get("https://firestore.googleapis.com");
+}
+
+describe("FirestoreRecipeRepository", () => {
+  let requests: { path: string; body: any }[];
+  let firestore: ReturnType<typeof mockFirestore>;
+  let repository: FirestoreRecipeRepository;
+
+  beforeEach(() => {
+    requests = [];
+    firestore = mockFirestore();
+    repository = new FirestoreRecipeRepository(initializeFirestore(env));
+  });
+
+  function intercept(
+    path: string | RegExp,
+    method: string,
+    status: number,
+    response: unknown,
+  ) {
+    firestore.intercept({ path, method }).reply(status, (opts) => {
+      requests.push({
+        path: opts.path,
+        body: opts.body ? JSON.parse(String(opts.body)) : undefined,
+      });
+      return response as any;
+    });
+  }
+
+  const recipe = { id: "recipe-1", name: { en: "Soup" } } as unknown as Recipe;
+
+  it("creates the favorite and increments favoriteCount in one commit", async () => {
+    intercept(`${DOCUMENTS}:commit`, "POST", 200, { writeResults: [] });
+
+    await repository.addToFavorites("user-1", recipe);
+
+    expect(requests).toHaveLength(1);
+    const [favoriteWrite, countWrite] = requests[0].body.writes;
+    expect(favoriteWrite.update.name).toMatch(
+      /documents\/users\/user-1\/fav_recipes\/recipe-1$/,
+    );
+    expect(favoriteWrite.currentDocument).toEqual({ exists: false });
+    expect(countWrite.transform.fieldTransforms).toEqual([
+      { fieldPath: "favoriteCount", increment: { integerValue: "1" } },
+    ]);
+    expect(countWrite.currentDocument).toEqual({ exists: true });
+  });
+
+  it("overwrites an existing favorite without counting it again", async () => {
+    intercept(`${DOCUMENTS}:commit`, "POST", 409, {
+      error: { code: 409, status: "ALREADY_EXISTS" },
+    });
+    const favoriteDoc = {
+      name: "projects/eatmoji-test/databases/(default)/documents/users/user-1/fav_recipes/recipe-1",
+      fields: {},
+    };
+    // set() reads the document before and again inside update()
+    intercept(/fav_recipes\/recipe-1/, "GET", 200, favoriteDoc);
+    intercept(/fav_recipes\/recipe-1/, "GET", 200, favoriteDoc);
+    intercept(/fav_recipes\/recipe-1/, "PATCH", 200, favoriteDoc);
+
+    await repository.addToFavorites("user-1", recipe);
+
+    const commits = requests.filter((r) => r.path.endsWith(":commit"));
+    expect(commits).toHaveLength(1);
+    expect(requests.at(-1)!.path).toContain(
+      "/users/user-1/fav_recipes/recipe-1",
+    );
+    expect(requests.at(-1)!.body.fields).toBeDefined();
+  });
+
+  it("decrements favoriteCount only when the favorite existed", async () => {
+    intercept(`${DOCUMENTS}:commit`, "POST", 404, {
+      error: { code: 404, status: "NOT_FOUND" },
+    });
+    intercept(/fav_recipes\/recipe-1/, "DELETE", 200, {});
+
+    await repository.removeFromFavorites("user-1", "recipe-1");
+
+    const [favoriteWrite, countWrite] = requests[0].body.writes;
+    expect(favoriteWrite.currentDocument).toEqual({ exists: true });
+    expect(countWrite.transform.fieldTransforms[0].increment).toEqual({
+      integerValue: "-1",
+    });
+    expect(requests).toHaveLength(2);
+  });
+
+  it("pages the public feed with a startAfter cursor on (sort field, id)", async () => {
+    intercept(`${DOCUMENTS}:runQuery`, "POST", 200, [
+      { readTime: new Date().toISOString() },
+    ]);
+
+    await repository.findPublicPage({
+      sort: "mostFavorited",
+      startAfter: { sortValue: 7, id: "recipe-9" },
+      limit: 50,
+    });
+
+    const query = requests[0].body.structuredQuery;
+    expect(query.orderBy).toEqual([
+      { field: { fieldPath: "favoriteCount" }, direction: "DESCENDING" },
+      { field: { fieldPath: "__name__" }, direction: "DESCENDING" },
+    ]);
+    expect(query.startAt.before).toBe(false);
+    expect(query.startAt.values[0]).toEqual({ integerValue: 7 });
+    expect(query.startAt.values[1].referenceValue).toMatch(
+      /documents\/recipes\/recipe-9$/,
+    );
+    expect(query.offset).toBeUndefined();
+  });
+
+  it("searches public recipes by a single search key, newest first", async () => {
+    intercept(`${DOCUMENTS}:runQuery`, "POST", 200, [
+      { readTime: new Date().toISOString() },
+    ]);
+
+    await repository.findPublicBySearchKey("chicken", 200);
+
+    const query = requests[0].body.structuredQuery;
+    expect(query.where.compositeFilter.filters).toContainEqual({
+      fieldFilter: {
+        field: { fieldPath: "searchKeys" },
+        op: "ARRAY_CONTAINS",
+        value: { stringValue: "chicken" },
+      },
+    });
+    expect(query.orderBy).toEqual([
+      { field: { fieldPath: "createdAt" }, direction: "DESCENDING" },
+    ]);
+    expect(query.limit).toBe(200);
+  });
+});
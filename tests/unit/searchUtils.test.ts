@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  SearchIndex,
+  buildSearchKeys,
+  normalizeSearchText,
+  selectSearchKey,
+  tokenizeSearchText,
+} from "../../src/utils/searchUtils";
+
+describe("normalizeSearchText", () => {
+  it("lowercases and strips Latin diacritics", () => {
+    expect(normalizeSearchText("Phở Crème BRÛLÉE")).toBe("pho creme brulee");
+  });
+
+  it("folds full-width characters to half-width", () => {
+    expect(normalizeSearchText("ＡＢＣ１２３")).toBe("abc123");
+  });
+});
+
+describe("tokenizeSearchText", () => {
+  it("splits Latin text into words", () => {
+    expect(tokenizeSearchText("Chicken  soup, chicken!")).toEqual({
+      words: ["chicken", "soup"],
+      grams: [],
+    });
+  });
+
+  it("indexes CJK text as unigrams and bigrams", () => {
+    expect(tokenizeSearchText("牛肉麵").grams).toEqual([
+      "牛",
+      "肉",
+      "麵",
+      "牛肉",
+      "肉麵",
+    ]);
+  });
+
+  it("uses only bigrams for multi-character CJK queries", () => {
+    expect(tokenizeSearchText("牛肉麵", true).grams).toEqual(["牛肉", "肉麵"]);
+  });
+
+  it("keeps a single CJK character query as a unigram", () => {
+    expect(tokenizeSearchText("蛋", true).grams).toEqual(["蛋"]);
+  });
+
+  it("separates mixed-script text", () => {
+    expect(tokenizeSearchText("Miso 拉麵")).toEqual({
+      words: ["miso"],
+      grams: ["拉", "麵", "拉麵"],
+    });
+  });
+});
+
+describe("SearchIndex", () => {
+  const index = new SearchIndex(["Chicken Curry", "雞肉咖哩"]);
+
+  it("matches word prefixes across all texts", () => {
+    expect(index.hasWord("chick")).toBe(true);
+    expect(index.hasWord("hicken")).toBe(false);
+  });
+
+  it("matches CJK grams", () => {
+    expect(index.hasGram("咖哩")).toBe(true);
+    expect(index.hasGram("牛肉")).toBe(false);
+  });
+
+  it("finds normalized phrases", () => {
+    expect(index.containsPhrase(normalizeSearchText("CHICKEN curry"))).toBe(
+      true,
+    );
+  });
+});
+
+describe("buildSearchKeys", () => {
+  it("stores every word prefix so prefix queries hit the index", () => {
+    const keys = buildSearchKeys(["Chicken", "雞肉"]);
+
+    expect(keys).toEqual(
+      expect.arrayContaining(["c", "chick", "chicken", "雞", "肉", "雞肉"]),
+    );
+    expect(keys).not.toContain("hicken");
+  });
+
+  it("caps word prefixes at 20 characters", () => {
+    const keys = buildSearchKeys(["a".repeat(30)]);
+
+    expect(keys).toHaveLength(20);
+    expect(keys).toContain("a".repeat(20));
+  });
+});
+
+describe("selectSearchKey", () => {
+  it("queries the longest term", () => {
+    expect(selectSearchKey(tokenizeSearchText("chicken 咖哩 soup", true))).toBe(
+      "chicken",
+    );
+    expect(selectSearchKey(tokenizeSearchText("牛肉麵", true))).toBe("牛肉");
+  });
+
+  it("returns a key the index contains for long words", () => {
+    const word = "supercalifragilisticexpialidocious";
+
+    expect(buildSearchKeys([word])).toContain(
+      selectSearchKey(tokenizeSearchText(word, true)),
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDaysToLocalDate,
+  formatTimeOfDay,
+  getLocalDateTime,
+  getNextLocalTimeOccurrence,
+  getStartOfLocalDay,
+  isValidTimeZone,
+  localTimeToDate,
+  parseTimeOfDay,
+} from "../../src/utils/timezone";
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names and rejects unknown zones", () => {
+    expect(isValidTimeZone("Asia/Taipei")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+});
+
+describe("getLocalDateTime", () => {
+  it("returns the local date and minutes since midnight", () => {
+    expect(
+      getLocalDateTime(new Date("2026-10-19T17:30:00Z"), "Asia/Taipei"),
+    ).toEqual({ date: "2026-10-20", minutes: 90 });
+  });
+});
+
+describe("getStartOfLocalDay", () => {
+  it("returns local midnight as a UTC instant", () => {
+    expect(
+      getStartOfLocalDay(new Date("2026-10-19T17:30:00Z"), "Asia/Taipei"),
+    ).toEqual(new Date("2026-10-19T16:00:00Z"));
+  });
+
+  it("uses the offset at midnight on a DST change day", () => {
+    // 2026-03-08 America/New_York switches from EST to EDT at 02:00
+    expect(
+      getStartOfLocalDay(new Date("2026-03-08T16:00:00Z"), "America/New_York"),
+    ).toEqual(new Date("2026-03-08T05:00:00Z"));
+  });
+});
+
+describe("localTimeToDate", () => {
+  it("converts local wall-clock time to UTC", () => {
+    expect(localTimeToDate("2026-10-19", 12 * 60, "Asia/Taipei")).toEqual(
+      new Date("2026-10-19T04:00:00Z"),
+    );
+    expect(localTimeToDate("2026-03-08", 12 * 60, "America/New_York")).toEqual(
+      new Date("2026-03-08T16:00:00Z"),
+    );
+  });
+
+  it("moves times skipped by DST forward", () => {
+    expect(
+      localTimeToDate("2026-03-08", 2 * 60 + 30, "America/New_York"),
+    ).toEqual(new Date("2026-03-08T07:30:00Z"));
+  });
+});
+
+describe("getNextLocalTimeOccurrence", () => {
+  const times = ["12:00", "08:00", "invalid"];
+
+  it("returns the next local time later today", () => {
+    expect(
+      getNextLocalTimeOccurrence(
+        times,
+        "Asia/Taipei",
+        new Date("2026-10-19T01:00:00Z"),
+      ),
+    ).toEqual(new Date("2026-10-19T04:00:00Z"));
+  });
+
+  it("rolls over to the first time tomorrow", () => {
+    expect(
+      getNextLocalTimeOccurrence(
+        times,
+        "Asia/Taipei",
+        new Date("2026-10-19T04:00:00Z"),
+      ),
+    ).toEqual(new Date("2026-10-20T00:00:00Z"));
+  });
+
+  it("returns null when there are no valid times", () => {
+    expect(getNextLocalTimeOccurrence(["25:00"], "UTC", new Date())).toBeNull();
+  });
+});
+
+describe("time of day helpers", () => {
+  it("parses and formats HH:mm", () => {
+    expect(parseTimeOfDay("07:05")).toBe(425);
+    expect(parseTimeOfDay("24:00")).toBeNull();
+    expect(parseTimeOfDay("7:05")).toBeNull();
+    expect(formatTimeOfDay(425)).toBe("07:05");
+  });
+});
+
+describe("addDaysToLocalDate", () => {
+  it("adds calendar days across month and year boundaries", () => {
+    expect(addDaysToLocalDate("2026-12-31", 1)).toBe("2027-01-01");
+    expect(addDaysToLocalDate("2024-03-01", -1)).toBe("2024-02-29");
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { TrendsService } from "../../src/services/trendsService";
+
+function createService(
+  diaries: { diaryDate: Date; calories: number }[],
+  user: any = {},
+) {
+  const diaryRepository = { findByUser: vi.fn(async () => diaries) };
+  const dailyWorkoutRepository = { findByUser: vi.fn(async () => []) };
+  const weightRepository = { getWeight: vi.fn(async () => []) };
+  const userRepository = { findById: vi.fn(async () => user) };
+  const service = new TrendsService(
+    diaryRepository as any,
+    dailyWorkoutRepository as any,
+    weightRepository as any,
+    userRepository as any,
+  );
+  return { service, diaryRepository, dailyWorkoutRepository };
+}
+
+describe("TrendsService.getNutritionTrends", () => {
+  // 2025-03-10T23:30Z is 2025-03-11 07:30 in Asia/Taipei (UTC+8)
+  const lateUtcDiary = {
+    diaryDate: new Date("2025-03-10T23:30:00Z"),
+    calories: 500,
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("groups days by the requested time zone like the diary summary", async () => {
+    const { service } = createService([lateUtcDiary]);
+
+    const report = await service.getNutritionTrends(
+      "user-1",
+      { startDate: "2025-03-10", endDate: "2025-03-11", days: 7 },
+      "Asia/Taipei",
+    );
+
+    expect(report.days.map((day) => [day.date, day.calories])).toEqual([
+      ["2025-03-10", 0],
+      ["2025-03-11", 500],
+    ]);
+  });
+
+  it("queries only the local days in the range", async () => {
+    const { service, diaryRepository, dailyWorkoutRepository } = createService(
+      [],
+    );
+
+    await service.getNutritionTrends(
+      "user-1",
+      { startDate: "2025-03-10", endDate: "2025-03-11", days: 7 },
+      "Asia/Taipei",
+    );
+
+    const bounds = [
+      "user-1",
+      new Date("2025-03-09T16:00:00Z"),
+      new Date("2025-03-11T16:00:00Z"),
+    ];
+    expect(diaryRepository.findByUser).toHaveBeenCalledWith(...bounds);
+    expect(dailyWorkoutRepository.findByUser).toHaveBeenCalledWith(...bounds);
+  });
+
+  it("ends the default period on today in the saved time zone", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-03-10T23:30:00Z"));
+    const { service } = createService([lateUtcDiary], {
+      notificationSettings: { timezone: "Asia/Taipei" },
+    });
+
+    const report = await service.getNutritionTrends("user-1", { days: 7 });
+
+    expect(report.startDate).toBe("2025-03-05");
+    expect(report.endDate).toBe("2025-03-11");
+    expect(report.days[report.days.length - 1].calories).toBe(500);
+    expect(report.weeks.map((week) => week.weekStart)).toEqual([
+      "2025-03-03",
+      "2025-03-10",
+    ]);
+  });
+
+  it("rejects ranges that are reversed or too long", async () => {
+    const { service } = createService([]);
+
+    await expect(
+      service.getNutritionTrends("user-1", {
+        startDate: "2025-03-11",
+        endDate: "2025-03-10",
+        days: 7,
+      }),
+    ).rejects.toThrow("無效的日期範圍");
+    await expect(
+      service.getNutritionTrends("user-1", {
+        startDate: "2024-01-01",
+        endDate: "2025-03-10",
+        days: 7,
+      }),
+    ).rejects.toThrow("最多只能查詢 366 天");
+    await expect(
+      service.getNutritionTrends("user-1", { days: 7 }, "Mars/Base"),
+    ).rejects.toThrow("無效的時區");
+  });
+});
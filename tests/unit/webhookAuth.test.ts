@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { verifyWebhookAuthorization } from "../../src/utils/webhookAuth";
+
+describe("verifyWebhookAuthorization", () => {
+  it("accepts the raw secret or a Bearer header", async () => {
+    expect(await verifyWebhookAuthorization("s3cret", "s3cret")).toBe(true);
+    expect(await verifyWebhookAuthorization("Bearer s3cret", "s3cret")).toBe(
+      true,
+    );
+    expect(await verifyWebhookAuthorization("s3cret", "Bearer s3cret")).toBe(
+      true,
+    );
+  });
+
+  it("rejects a different secret", async () => {
+    expect(await verifyWebhookAuthorization("Bearer wrong", "s3cret")).toBe(
+      false,
+    );
+    expect(await verifyWebhookAuthorization("s3cret-extra", "s3cret")).toBe(
+      false,
+    );
+  });
+
+  it("rejects a missing header or secret", async () => {
+    expect(await verifyWebhookAuthorization(undefined, "s3cret")).toBe(false);
+    expect(await verifyWebhookAuthorization("", "s3cret")).toBe(false);
+    expect(await verifyWebhookAuthorization("s3cret", "")).toBe(false);
+  });
+});
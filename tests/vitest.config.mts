@@ -1,3 +1,4 @@
+import { generateKeyPairSync } from "node:crypto";
 import path from "node:path";
 import {
   defineWorkersConfig,
@@ -7,11 +8,37 @@ import {
 const migrationsPath = path.join(__dirname, "..", "migrations");
 const migrations = await readD1Migrations(migrationsPath);
 
+// 測試用的服務帳戶私鑰：Firestore client 需要簽署 OAuth assertion，
+// 實際的 token 與 Firestore 請求由測試中的 fetchMock 回應（見 tests/helpers.ts）
+const { privateKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  publicKeyEncoding: { type: "spki", format: "pem" },
+});
+
 export default defineWorkersConfig({
   esbuild: {
     target: "esnext",
   },
+  resolve: {
+    // 與 wrangler 打包時相同，workerd 尚未實作的 Node.js 模組改用 unenv polyfill
+    // （nodemailer 在載入時就會 require 這些模組）
+    alias: Object.fromEntries(
+      ["child_process", "fs", "http", "https", "os"].map((name) => [
+        `node:${name}`,
+        `unenv/node/${name}`,
+      ])
+    ),
+  },
   test: {
+    deps: {
+      optimizer: {
+        ssr: {
+          enabled: true,
+          include: ["nodemailer"],
+        },
+      },
+    },
     setupFiles: ["./tests/apply-migrations.ts"],
     poolOptions: {
       workers: {
@@ -23,6 +50,13 @@ export default defineWorkersConfig({
           compatibilityFlags: ["experimental", "nodejs_compat"],
           bindings: {
             MIGRATIONS: migrations,
+            // 以 fixtures 回放 AI 回應，整合測試不需要網路與 API 金鑰
+            AI_MOCK_MODE: "true",
+            // 推播只記錄不呼叫 FCM
+            PUSH_MOCK_MODE: "true",
+            FIREBASE_PROJECT_ID: "eatmoji-test",
+            FIREBASE_CLIENT_EMAIL: "test@eatmoji-test.iam.gserviceaccount.com",
+            FIREBASE_PRIVATE_KEY: privateKey,
           },
         },
       },